@@ -0,0 +1,92 @@
+/**
+ * Analyze command - detect costs, features and tiers from a local codebase
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { existsSync } from 'fs';
+import { writeFile } from 'fs/promises';
+import {
+  PROJECT_FILE_NAME,
+  analyzeCodebase,
+  createProjectFromAnalysis,
+  quickAnalyzeFromPackageJson,
+  serializeProjectFile,
+  type AnalysisProjectInput,
+} from '@basedpricer/core';
+import { validateFilePath } from '../utils/files.js';
+import { getDefaultCurrency } from '../utils/config.js';
+import { validateCurrencyCode } from '../utils/validation.js';
+import { readLocalCodebase } from '../utils/codebase.js';
+import { createChatClient, resolveAnalysisProvider } from '../utils/ai.js';
+
+export const analyzeCommand = new Command('analyze')
+  .description('Analyze a local codebase and generate a project file')
+  .argument('[path]', 'Directory to analyze', '.')
+  .option('--ai', 'Detect features and suggest tiers with an AI provider')
+  .option('--provider <name>', 'AI provider: openai, anthropic, custom (default: configured provider)')
+  .option('--model <model>', 'Override the AI model')
+  .option('--base-url <url>', 'OpenAI- or Anthropic-compatible endpoint, e.g. http://localhost:11434/v1')
+  .option('--api-format <format>', 'API format of the custom endpoint: openai, anthropic (default: openai)')
+  .option('--name <name>', 'Project name (default: package.json name or directory name)')
+  .option('--currency <code>', 'Base currency for project amounts (default: configured currency)')
+  .option('--save <file>', 'Project file to write', PROJECT_FILE_NAME)
+  .option('--stdout', 'Print the project file instead of saving it')
+  .option('-f, --force', 'Overwrite an existing project file')
+  .action(async (dir: string, options) => {
+    try {
+      // Validate all inputs upfront
+      const currency = validateCurrencyCode(options.currency || getDefaultCurrency());
+      const endpoint = { baseUrl: options.baseUrl, apiFormat: options.apiFormat, model: options.model };
+      const provider = options.ai ? resolveAnalysisProvider(options.provider, endpoint) : null;
+      const client = provider ? createChatClient(provider, endpoint) : null;
+      const savePath = options.stdout ? null : validateFilePath(options.save);
+      if (savePath && existsSync(savePath) && !options.force) {
+        throw new Error(`${options.save} already exists. Use --force to overwrite.`);
+      }
+
+      const snapshot = await readLocalCodebase(dir);
+      const fileCount = snapshot.configFiles.length + snapshot.srcFiles.length + (snapshot.readme ? 1 : 0);
+
+      let analysis: AnalysisProjectInput = quickAnalyzeFromPackageJson(snapshot.packageJson ?? {});
+
+      if (client) {
+        console.error(chalk.gray(`Analyzing ${fileCount} files with ${provider}...`));
+        analysis = await analyzeCodebase(snapshot, client, { model: options.model });
+      }
+
+      const project = createProjectFromAnalysis(options.name ?? snapshot.name, analysis, currency);
+      const content = serializeProjectFile(project);
+
+      if (!savePath) {
+        console.log(content);
+        return;
+      }
+
+      await writeFile(savePath, content, 'utf-8');
+
+      const stack = [
+        analysis.techStack.framework,
+        analysis.techStack.language,
+        analysis.techStack.database,
+        analysis.techStack.auth,
+      ].filter(Boolean).join(' · ');
+
+      console.log(chalk.bold(`\n${project.name}`));
+      console.log(chalk.gray(`Scanned ${fileCount} files · ${stack}`));
+      console.log(`  Variable costs: ${project.variableCosts.length}`);
+      console.log(`  Fixed costs:    ${project.fixedCosts.length}`);
+      console.log(`  Features:       ${project.features.length}`);
+      console.log(`  Tiers:          ${project.tiers.length}`);
+      if (project.businessType) {
+        console.log(`  Business type:  ${project.businessType} (${Math.round(project.businessTypeConfidence * 100)}%)`);
+      }
+      if (!provider) {
+        console.log(chalk.gray('\nRun with --ai to detect features and suggest tiers.'));
+      }
+      console.log(chalk.green(`\n✓ Saved to ${options.save}`));
+    } catch (err) {
+      console.error(chalk.red('Error:'), (err as Error).message);
+      process.exit(1);
+    }
+  });
@@ -6,15 +6,14 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import { readFile, writeFile } from 'fs/promises';
 import { existsSync } from 'fs';
-import path from 'path';
 import {
   calculateCOGSBreakdown,
   calculateGrossMargin,
   getMarginHealth,
   calculateBreakEvenCustomers,
-  validateVariableCostItem,
-  validateFixedCostItem,
-  CURRENCIES,
+  convertProjectCurrency,
+  formatCurrency,
+  type CurrencyCode,
   type VariableCostItem,
   type FixedCostItem,
 } from '@basedpricer/core';
@@ -22,30 +21,18 @@ import { formatCOGSTable, formatMarginTable } from '../formatters/table.js';
 import { formatCOGSMarkdown, formatMarginMarkdown } from '../formatters/markdown.js';
 import { formatJson } from '../formatters/json.js';
 import { getDefaultCurrency } from '../utils/config.js';
+import { validateFilePath, loadProjectFromFile } from '../utils/files.js';
+import { importCostsFromFile, isBillFile } from '../utils/cost-import.js';
 import {
   parsePositiveInteger,
   parsePositiveNumber,
   validateCurrencyCode,
   validateOutputFormat,
   parseCostsJson,
+  validateCostItems,
 } from '../utils/validation.js';
 import { SAMPLE_VARIABLE_COSTS, SAMPLE_FIXED_COSTS } from '../data/sample-costs.js';
 
-/**
- * Validate that a file path is safe (within current working directory)
- */
-function validateFilePath(filePath: string): string {
-  const resolved = path.resolve(filePath);
-  const cwd = process.cwd();
-
-  // Allow absolute paths but warn about them
-  if (!resolved.startsWith(cwd)) {
-    console.log(chalk.yellow(`Note: File path is outside current directory: ${resolved}`));
-  }
-
-  return resolved;
-}
-
 /**
  * Load and validate costs from a JSON file
  */
@@ -62,31 +49,7 @@ async function loadCostsFromFile(filePath: string): Promise<{
   const fileContent = await readFile(resolvedPath, 'utf-8');
   const parsed = parseCostsJson(fileContent, filePath);
 
-  const variableCosts: VariableCostItem[] = [];
-  const fixedCosts: FixedCostItem[] = [];
-  const warnings: string[] = [];
-
-  // Validate variable costs
-  for (let i = 0; i < parsed.variableCosts.length; i++) {
-    const cost = parsed.variableCosts[i];
-    const result = validateVariableCostItem(cost);
-    if (result.success) {
-      variableCosts.push(result.data);
-    } else {
-      warnings.push(`variableCosts[${i}]: ${result.error}`);
-    }
-  }
-
-  // Validate fixed costs
-  for (let i = 0; i < parsed.fixedCosts.length; i++) {
-    const cost = parsed.fixedCosts[i];
-    const result = validateFixedCostItem(cost);
-    if (result.success) {
-      fixedCosts.push(result.data);
-    } else {
-      warnings.push(`fixedCosts[${i}]: ${result.error}`);
-    }
-  }
+  const { variableCosts, fixedCosts, warnings } = validateCostItems(parsed);
 
   // Show warnings for invalid items
   if (warnings.length > 0) {
@@ -102,33 +65,95 @@ async function loadCostsFromFile(filePath: string): Promise<{
   return { variableCosts, fixedCosts };
 }
 
+/**
+ * Import costs from a CSV or .xlsx of vendor bills, skipping items already in `existing`
+ */
+async function loadCostsFromBills(
+  filePath: string,
+  map: string | undefined,
+  customerCount: number,
+  existing: { variableCosts: VariableCostItem[]; fixedCosts: FixedCostItem[] }
+): Promise<{
+  variableCosts: VariableCostItem[];
+  fixedCosts: FixedCostItem[];
+}> {
+  const result = await importCostsFromFile(filePath, { map, customerCount, existing });
+  const duplicateIds = new Set(result.duplicates.map((d) => d.id));
+
+  const warnings = [
+    ...result.warnings,
+    ...result.duplicates.map((d) => `${d.name} already exists (${d.existingId}), skipped`),
+  ];
+  if (warnings.length > 0) {
+    console.error(chalk.yellow('\nWarnings while importing bills:'));
+    warnings.forEach((w) => console.error(chalk.yellow(`  - ${w}`)));
+    console.log();
+  }
+
+  if (result.variableCosts.length === 0 && result.fixedCosts.length === 0) {
+    throw new Error('No valid cost items found in file');
+  }
+
+  return {
+    variableCosts: result.variableCosts.filter((item) => !duplicateIds.has(item.id)),
+    fixedCosts: result.fixedCosts.filter((item) => !duplicateIds.has(item.id)),
+  };
+}
+
 export const cogsCommand = new Command('cogs')
   .description('Calculate COGS (Cost of Goods Sold) and margins')
-  .option('-i, --input <file>', 'JSON file with cost data')
+  .option('-i, --input <file>', 'JSON file with cost data, or a CSV/.xlsx of vendor bills')
+  .option('--map <columns>', 'Bill columns for CSV/.xlsx input, e.g. name=Vendor,amount=Total,usage=Quantity')
+  .option('--project <file>', 'Project file (basedpricer.json) to read costs and settings from')
   .option('-c, --customers <number>', 'Number of customers (positive integer)', '100')
   .option('-p, --price <number>', 'Price per customer for margin calculation (positive number)')
   .option('-o, --output <format>', 'Output format: table, json, markdown', 'table')
-  .option('--currency <code>', 'Currency code (MYR, USD, SGD, EUR, GBP, AUD)', 'MYR')
+  .option('--currency <code>', 'Currency code (ISO 4217, e.g. MYR, USD, JPY)', 'MYR')
   .option('--save <file>', 'Save output to file')
-  .action(async (options) => {
+  .action(async (options, command: Command) => {
     try {
+      const billInput = options.input !== undefined && isBillFile(options.input);
+      if (options.input && options.project && !billInput) {
+        throw new Error('Use either --input or --project, not both (bills in CSV/.xlsx can be added to a project)');
+      }
+      if (options.map && !billInput) {
+        throw new Error('--map only applies to a CSV or .xlsx --input');
+      }
+
+      // Project settings apply unless the flag was passed explicitly
+      const project = options.project ? await loadProjectFromFile(options.project) : undefined;
+      const isDefault = (name: string) => command.getOptionValueSource(name) === 'default';
+
       // Validate all inputs upfront
       const outputFormat = validateOutputFormat(options.output);
-      const customerCount = parsePositiveInteger(options.customers, 'Customer count');
-      const currencyCode = validateCurrencyCode(options.currency || getDefaultCurrency());
-      const currency = CURRENCIES[currencyCode];
+      const customerCount = project && isDefault('customers')
+        ? project.customerCount
+        : parsePositiveInteger(options.customers, 'Customer count');
+      const currencyCode = project && isDefault('currency')
+        ? project.displayCurrency ?? project.currency
+        : validateCurrencyCode(options.currency || getDefaultCurrency());
+      // Project amounts are converted for display; other inputs are taken as given in --currency
+      const displayProject = project && convertProjectCurrency(project, currencyCode);
 
       // Price is optional - validate only if provided
       let price: number | undefined;
       if (options.price !== undefined) {
         price = parsePositiveNumber(options.price, 'Price');
+      } else if (displayProject && displayProject.selectedPrice > 0) {
+        price = displayProject.selectedPrice;
       }
 
       let variableCosts: VariableCostItem[];
       let fixedCosts: FixedCostItem[];
 
-      // Load costs from file or use sample data
-      if (options.input) {
+      // Load costs from project, costs file or use sample data
+      if (displayProject) {
+        variableCosts = displayProject.variableCosts;
+        fixedCosts = displayProject.fixedCosts;
+      } else if (billInput) {
+        variableCosts = [];
+        fixedCosts = [];
+      } else if (options.input) {
         const loaded = await loadCostsFromFile(options.input);
         variableCosts = loaded.variableCosts;
         fixedCosts = loaded.fixedCosts;
@@ -136,7 +161,14 @@ export const cogsCommand = new Command('cogs')
         // Use sample data for demo
         variableCosts = SAMPLE_VARIABLE_COSTS;
         fixedCosts = SAMPLE_FIXED_COSTS;
-        console.log(chalk.gray('Using sample data. Use --input to provide your own costs.json\n'));
+        console.log(chalk.gray('Using sample data. Use --input or --project to provide your own costs\n'));
+      }
+
+      // Vendor bills add to the project's costs
+      if (billInput) {
+        const imported = await loadCostsFromBills(options.input, options.map, customerCount, { variableCosts, fixedCosts });
+        variableCosts = [...variableCosts, ...imported.variableCosts];
+        fixedCosts = [...fixedCosts, ...imported.fixedCosts];
       }
 
       // Calculate COGS
@@ -160,7 +192,7 @@ export const cogsCommand = new Command('cogs')
           fixedCosts,
           breakdown,
           customerCount,
-          currency.symbol,
+          currencyCode,
           price
         );
       } else {
@@ -169,7 +201,7 @@ export const cogsCommand = new Command('cogs')
           fixedCosts,
           breakdown,
           customerCount,
-          currency.symbol,
+          currencyCode,
           price
         );
       }
@@ -237,7 +269,7 @@ function formatMarkdownOutput(
   fixedCosts: FixedCostItem[],
   breakdown: ReturnType<typeof calculateCOGSBreakdown>,
   customerCount: number,
-  currencySymbol: string,
+  currency: CurrencyCode,
   price?: number
 ): string {
   let output = formatCOGSMarkdown(
@@ -245,13 +277,13 @@ function formatMarkdownOutput(
     fixedCosts,
     breakdown,
     customerCount,
-    currencySymbol
+    currency
   );
 
   if (price !== undefined) {
     const margin = calculateGrossMargin(price, breakdown.totalCOGS);
     const health = getMarginHealth(margin);
-    output += '\n' + formatMarginMarkdown(price, breakdown.totalCOGS, margin, health, currencySymbol);
+    output += '\n' + formatMarginMarkdown(price, breakdown.totalCOGS, margin, health, currency);
   }
 
   return output;
@@ -265,7 +297,7 @@ function formatTableOutput(
   fixedCosts: FixedCostItem[],
   breakdown: ReturnType<typeof calculateCOGSBreakdown>,
   customerCount: number,
-  currencySymbol: string,
+  currency: CurrencyCode,
   price?: number
 ): string {
   let output = formatCOGSTable(
@@ -273,13 +305,13 @@ function formatTableOutput(
     fixedCosts,
     breakdown,
     customerCount,
-    currencySymbol
+    currency
   );
 
   if (price !== undefined) {
     const margin = calculateGrossMargin(price, breakdown.totalCOGS);
     const health = getMarginHealth(margin);
-    output += '\n' + formatMarginTable(price, breakdown.totalCOGS, margin, health, currencySymbol);
+    output += '\n' + formatMarginTable(price, breakdown.totalCOGS, margin, health, currency);
 
     // Show break-even
     const breakEven = calculateBreakEvenCustomers(
@@ -291,7 +323,7 @@ function formatTableOutput(
     if (breakEven !== Infinity && breakEven > 0) {
       output += '\n' + chalk.cyan(`Break-even: ${breakEven} customers`);
     } else if (price <= breakdown.variableTotal) {
-      output += '\n' + chalk.yellow(`Warning: Price (${currencySymbol}${price}) is not higher than variable cost per customer (${currencySymbol}${breakdown.variableTotal.toFixed(2)}). Break-even not possible.`);
+      output += '\n' + chalk.yellow(`Warning: Price (${formatCurrency(price, currency)}) is not higher than variable cost per customer (${formatCurrency(breakdown.variableTotal, currency)}). Break-even not possible.`);
     }
   }
 
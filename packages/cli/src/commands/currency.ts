@@ -0,0 +1,60 @@
+/**
+ * Currency command - change a project's base or display currency
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { writeFile } from 'fs/promises';
+import {
+  PROJECT_FILE_NAME,
+  convertCurrency,
+  convertProjectCurrency,
+  serializeProjectFile,
+} from '@basedpricer/core';
+import { validateFilePath, loadProjectFromFile } from '../utils/files.js';
+import { parsePositiveNumber, validateCurrencyCode } from '../utils/validation.js';
+
+export const currencyCommand = new Command('currency')
+  .description('Change the project base currency, converting every stored amount')
+  .argument('<code>', 'Currency code (ISO 4217, e.g. MYR, USD, JPY)')
+  .option('--project <file>', 'Project file (basedpricer.json)', PROJECT_FILE_NAME)
+  .option('-r, --rate <rate>', 'Units of the new currency per unit of the current one (default: built-in rates)')
+  .option('--display', 'Only show amounts in this currency; stored amounts are unchanged')
+  .action(async (code: string, options) => {
+    try {
+      // Validate all inputs upfront
+      const currencyCode = validateCurrencyCode(code);
+      const rate = options.rate !== undefined ? parsePositiveNumber(options.rate, 'Exchange rate') : undefined;
+      if (options.display && rate !== undefined) {
+        throw new Error('--rate only applies when converting the base currency');
+      }
+
+      const project = await loadProjectFromFile(options.project);
+      const from = project.currency;
+
+      if (options.display) {
+        const updated = { ...project, displayCurrency: currencyCode === from ? undefined : currencyCode };
+        await writeFile(validateFilePath(options.project), serializeProjectFile(updated), 'utf-8');
+        console.log(chalk.green(`✓ Showing ${from} amounts in ${currencyCode}`));
+        return;
+      }
+
+      if (currencyCode === from) {
+        console.log(chalk.gray(`Project is already in ${from}`));
+        return;
+      }
+
+      const appliedRate = rate ?? convertCurrency(1, from, currencyCode);
+      const converted = convertProjectCurrency(project, currencyCode, appliedRate);
+      // A display currency matching the new base is redundant
+      const updated = converted.displayCurrency === currencyCode
+        ? { ...converted, displayCurrency: undefined }
+        : converted;
+
+      await writeFile(validateFilePath(options.project), serializeProjectFile(updated), 'utf-8');
+      console.log(chalk.green(`✓ Converted ${options.project} from ${from} to ${currencyCode} at 1 ${from} = ${appliedRate} ${currencyCode}`));
+    } catch (err) {
+      console.error(chalk.red('Error:'), (err as Error).message);
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,56 @@
+/**
+ * Export command - write the cost model and P&L projection as a spreadsheet
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { writeFile } from 'fs/promises';
+import { buildCostModelWorkbook, workbookToCsv, PROJECT_FILE_NAME } from '@basedpricer/core';
+import { validateFilePath, loadProjectFromFile } from '../utils/files.js';
+import { createReportInput, getExportFileName, renderWorkbookXlsxBuffer } from '../utils/report.js';
+import {
+  parseNonNegativeNumber,
+  parsePositiveInteger,
+  validateExportFormat,
+} from '../utils/validation.js';
+
+export const exportCommand = new Command('export')
+  .description('Export variable costs, fixed costs, tier margins and the 12-month P&L as a spreadsheet')
+  .option('-f, --format <format>', 'Spreadsheet format: xlsx, csv', 'xlsx')
+  .option('--project <file>', 'Project file (basedpricer.json)', PROJECT_FILE_NAME)
+  .option('-c, --customers <number>', 'Override the project customer count (positive integer)')
+  .option('-g, --growth <percent>', 'Monthly customer growth rate in percent', '5')
+  .option('--save <file>', 'Save to file (defaults to <project>-cost-model.xlsx; csv prints to stdout)')
+  .action(async (options) => {
+    try {
+      // Validate all inputs upfront
+      const format = validateExportFormat(options.format);
+      const growth = parseNonNegativeNumber(options.growth, 'Growth rate');
+      const project = await loadProjectFromFile(options.project);
+
+      if (options.customers !== undefined) {
+        project.customerCount = parsePositiveInteger(options.customers, 'Customer count');
+      }
+
+      const workbook = buildCostModelWorkbook(
+        createReportInput(project, { monthlyGrowthRate: growth / 100 })
+      );
+
+      if (format === 'csv' && !options.save) {
+        process.stdout.write(workbookToCsv(workbook));
+        return;
+      }
+
+      const file = options.save ?? getExportFileName(project.name, format);
+      const savePath = validateFilePath(file);
+      if (format === 'csv') {
+        await writeFile(savePath, workbookToCsv(workbook), 'utf-8');
+      } else {
+        await writeFile(savePath, await renderWorkbookXlsxBuffer(workbook));
+      }
+      console.log(chalk.green(`✓ Saved ${workbook.sheets.length} sheets to ${file}`));
+    } catch (err) {
+      console.error(chalk.red('Error:'), (err as Error).message);
+      process.exit(1);
+    }
+  });
@@ -1,2 +1,8 @@
+export { analyzeCommand } from './analyze.js';
 export { cogsCommand } from './cogs.js';
 export { configCommand } from './config.js';
+export { tiersCommand } from './tiers.js';
+export { solveCommand } from './solve.js';
+export { reportCommand } from './report.js';
+export { exportCommand } from './export.js';
+export { currencyCommand } from './currency.js';
@@ -0,0 +1,62 @@
+/**
+ * Report command - build a stakeholder report from a project file
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { writeFile } from 'fs/promises';
+import { buildReportDocument, PROJECT_FILE_NAME } from '@basedpricer/core';
+import { formatReportDocumentMarkdown } from '../formatters/markdown.js';
+import { validateFilePath, loadProjectFromFile } from '../utils/files.js';
+import { createReportInput, getReportFileName, renderReportPdfBuffer } from '../utils/report.js';
+import {
+  parseNonNegativeNumber,
+  parsePositiveInteger,
+  validateStakeholder,
+} from '../utils/validation.js';
+
+export const reportCommand = new Command('report')
+  .description('Generate an accountant, investor, engineer or marketer report from a project file')
+  .requiredOption('-s, --stakeholder <type>', 'Stakeholder: accountant, investor, engineer, marketer')
+  .option('--project <file>', 'Project file (basedpricer.json)', PROJECT_FILE_NAME)
+  .option('-c, --customers <number>', 'Override the project customer count (positive integer)')
+  .option('-g, --growth <percent>', 'Monthly customer growth rate in percent', '5')
+  .option('--pdf', 'Write a PDF instead of printing markdown')
+  .option('--save <file>', 'Save output to file (defaults to <project>-<stakeholder>-report.pdf with --pdf)')
+  .action(async (options) => {
+    try {
+      // Validate all inputs upfront
+      const stakeholder = validateStakeholder(options.stakeholder);
+      const growth = parseNonNegativeNumber(options.growth, 'Growth rate');
+      const project = await loadProjectFromFile(options.project);
+
+      if (options.customers !== undefined) {
+        project.customerCount = parsePositiveInteger(options.customers, 'Customer count');
+      }
+
+      const document = buildReportDocument(
+        stakeholder,
+        createReportInput(project, { monthlyGrowthRate: growth / 100 })
+      );
+
+      if (options.pdf) {
+        const file = options.save ?? getReportFileName(project.name, stakeholder);
+        await writeFile(validateFilePath(file), renderReportPdfBuffer(document));
+        console.log(chalk.green(`✓ Saved ${document.title} to ${file}`));
+        return;
+      }
+
+      const output = formatReportDocumentMarkdown(document);
+      console.log(output);
+
+      // Save to file if requested
+      if (options.save) {
+        const savePath = validateFilePath(options.save);
+        await writeFile(savePath, output, 'utf-8');
+        console.log(chalk.green(`\n✓ Saved to ${options.save}`));
+      }
+    } catch (err) {
+      console.error(chalk.red('Error:'), (err as Error).message);
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,113 @@
+/**
+ * Solve command - propose tier prices that meet margin and break-even targets
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { writeFile } from 'fs/promises';
+import {
+  PROJECT_FILE_NAME,
+  convertProjectCurrency,
+  solveTierPrices,
+  type PriceSolverTargets,
+} from '@basedpricer/core';
+import { formatPriceSolverTable } from '../formatters/table.js';
+import { formatPriceSolverMarkdown } from '../formatters/markdown.js';
+import { formatJson } from '../formatters/json.js';
+import { validateFilePath, loadProjectFromFile } from '../utils/files.js';
+import {
+  parseNonNegativeNumber,
+  parsePositiveInteger,
+  parsePositiveNumber,
+  validateCurrencyCode,
+  validateOutputFormat,
+} from '../utils/validation.js';
+
+/**
+ * Parse a margin percentage, which must be below 100
+ */
+function parseMarginTarget(value: string, fieldName: string): number {
+  const margin = parseNonNegativeNumber(value, fieldName);
+  if (margin >= 100) {
+    throw new Error(`${fieldName} must be below 100%, got: ${margin}`);
+  }
+  return margin;
+}
+
+export const solveCommand = new Command('solve')
+  .description('Propose tier prices that meet margin, break-even and price-ladder targets')
+  .option('--project <file>', 'Project file (basedpricer.json)', PROJECT_FILE_NAME)
+  .option('-m, --margin <percent>', 'Minimum blended gross margin, in percent')
+  .option('-b, --break-even <customers>', 'Break even by this many paid customers')
+  .option('--tier-margin <percent>', 'Minimum gross margin for every paid tier, in percent')
+  .option('-r, --ratio <multiple>', 'Each paid tier at least this multiple of the tier below (e.g. 2)')
+  .option('--no-charm', 'Keep exact prices instead of rounding up to charm prices')
+  .option('--allow-decrease', 'Allow prices below the current ones when targets are already met')
+  .option('-o, --output <format>', 'Output format: table, json, markdown', 'table')
+  .option('--currency <code>', 'Solve and show prices in this currency (ISO 4217, e.g. MYR, USD, JPY)')
+  .option('--save <file>', 'Save output to file')
+  .action(async (options) => {
+    try {
+      // Validate all inputs upfront
+      const outputFormat = validateOutputFormat(options.output);
+      const targets: PriceSolverTargets = {};
+      if (options.margin !== undefined) {
+        targets.minGrossMargin = parseMarginTarget(options.margin, 'Gross margin target');
+      }
+      if (options.breakEven !== undefined) {
+        targets.breakEvenPaidCustomers = parsePositiveInteger(options.breakEven, 'Break-even customers');
+      }
+      if (options.tierMargin !== undefined) {
+        targets.minTierMargin = parseMarginTarget(options.tierMargin, 'Tier margin target');
+      }
+      if (options.ratio !== undefined) {
+        targets.tierPriceRatio = parsePositiveNumber(options.ratio, 'Tier price ratio');
+      }
+      if (Object.keys(targets).length === 0) {
+        throw new Error('Set at least one target: --margin, --break-even, --tier-margin or --ratio');
+      }
+
+      const stored = await loadProjectFromFile(options.project);
+      const currencyCode = validateCurrencyCode(options.currency || stored.displayCurrency || stored.currency);
+      const project = convertProjectCurrency(stored, currencyCode);
+
+      const result = solveTierPrices({
+        variableCosts: project.variableCosts,
+        fixedCosts: project.fixedCosts,
+        tiers: project.tiers,
+        features: project.features,
+        utilizationRate: project.utilizationRate,
+        tierDistribution: project.tierDistribution,
+        tax: project.tax,
+        targets,
+        charmPricing: options.charm,
+        allowDecrease: options.allowDecrease ?? false,
+      });
+
+      let output: string;
+
+      if (outputFormat === 'json') {
+        output = formatJson({ currency: currencyCode, targets, ...result });
+      } else if (outputFormat === 'markdown') {
+        output = formatPriceSolverMarkdown(result, currencyCode);
+      } else {
+        output = formatPriceSolverTable(result, currencyCode);
+        if (!result.feasible) {
+          output += '\n' + chalk.yellow('Some targets cannot be met with the current tiers and distribution.');
+        }
+      }
+
+      // Output result
+      console.log(output);
+
+      // Save to file if requested
+      if (options.save) {
+        const savePath = validateFilePath(options.save);
+        await writeFile(savePath, output, 'utf-8');
+        console.log(chalk.green(`\n✓ Saved to ${options.save}`));
+      }
+    } catch (err) {
+      console.error(chalk.red('Error:'), (err as Error).message);
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,71 @@
+/**
+ * Tiers command - analyze per-tier COGS and margins from a project file
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { writeFile } from 'fs/promises';
+import { PROJECT_FILE_NAME, convertProjectCurrency, formatCurrency } from '@basedpricer/core';
+import { formatTierMarginTable } from '../formatters/table.js';
+import { formatTierMarginMarkdown } from '../formatters/markdown.js';
+import { formatJson } from '../formatters/json.js';
+import { validateFilePath, loadProjectFromFile } from '../utils/files.js';
+import { analyzeTiers } from '../utils/tiers.js';
+import {
+  parsePositiveInteger,
+  validateCurrencyCode,
+  validateOutputFormat,
+} from '../utils/validation.js';
+
+export const tiersCommand = new Command('tiers')
+  .description('Analyze per-tier COGS, gross margins and blended MRR')
+  .option('--project <file>', 'Project file (basedpricer.json)', PROJECT_FILE_NAME)
+  .option('-c, --customers <number>', 'Override the project customer count (positive integer)')
+  .option('-o, --output <format>', 'Output format: table, json, markdown', 'table')
+  .option('--currency <code>', 'Show amounts in this currency (ISO 4217, e.g. MYR, USD, JPY)')
+  .option('--save <file>', 'Save output to file')
+  .action(async (options) => {
+    try {
+      // Validate all inputs upfront
+      const outputFormat = validateOutputFormat(options.output);
+      const stored = await loadProjectFromFile(options.project);
+      const currencyCode = validateCurrencyCode(options.currency || stored.displayCurrency || stored.currency);
+      const project = convertProjectCurrency(stored, currencyCode);
+
+      if (options.customers !== undefined) {
+        project.customerCount = parsePositiveInteger(options.customers, 'Customer count');
+      }
+
+      const analysis = analyzeTiers(project);
+
+      let output: string;
+
+      if (outputFormat === 'json') {
+        output = formatJson({ currency: currencyCode, ...analysis });
+      } else if (outputFormat === 'markdown') {
+        output = formatTierMarginMarkdown(analysis, currencyCode);
+      } else {
+        output = formatTierMarginTable(analysis, currencyCode);
+        output += '\n' + chalk.gray(
+          `Fixed costs: ${formatCurrency(analysis.fixedCostsTotal, currencyCode)}/mo · ` +
+          `Utilization: ${(analysis.utilizationRate * 100).toFixed(0)}%`
+        );
+        if (project.tax?.inclusive && project.tax.rate > 0) {
+          output += '\n' + chalk.gray(`Prices are shown net of ${project.tax.label}`);
+        }
+      }
+
+      // Output result
+      console.log(output);
+
+      // Save to file if requested
+      if (options.save) {
+        const savePath = validateFilePath(options.save);
+        await writeFile(savePath, output, 'utf-8');
+        console.log(chalk.green(`\n✓ Saved to ${options.save}`));
+      }
+    } catch (err) {
+      console.error(chalk.red('Error:'), (err as Error).message);
+      process.exit(1);
+    }
+  });
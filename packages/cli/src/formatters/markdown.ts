@@ -2,7 +2,19 @@
  * Markdown formatter
  */
 
-import type { CostBreakdown, VariableCostItem, FixedCostItem, MarginHealth } from '@basedpricer/core';
+import {
+  DEFAULT_CURRENCY,
+  formatCurrency,
+  formatReportDate,
+  type CostBreakdown,
+  type CurrencyCode,
+  type VariableCostItem,
+  type FixedCostItem,
+  type MarginHealth,
+  type ReportDocument,
+  type PriceSolverResult,
+} from '@basedpricer/core';
+import type { TierAnalysis } from '../utils/tiers.js';
 
 /**
  * Format data as markdown table
@@ -23,7 +35,7 @@ export function formatCOGSMarkdown(
   fixedCosts: FixedCostItem[],
   breakdown: CostBreakdown,
   customerCount: number,
-  currency: string = 'RM'
+  currency: CurrencyCode = DEFAULT_CURRENCY
 ): string {
   let md = '## COGS Breakdown\n\n';
 
@@ -34,10 +46,10 @@ export function formatCOGSMarkdown(
 
   variableCosts.forEach(cost => {
     const perCustomer = cost.costPerUnit * cost.usagePerCustomer;
-    md += `| ${cost.name} | ${cost.unit} | ${currency} ${cost.costPerUnit.toFixed(4)} | ${cost.usagePerCustomer} | ${currency} ${perCustomer.toFixed(2)} |\n`;
+    md += `| ${cost.name} | ${cost.unit} | ${formatCurrency(cost.costPerUnit, currency, { decimals: 4 })} | ${cost.usagePerCustomer} | ${formatCurrency(perCustomer, currency)} |\n`;
   });
 
-  md += `| **Total Variable** | | | | **${currency} ${breakdown.variableTotal.toFixed(2)}** |\n\n`;
+  md += `| **Total Variable** | | | | **${formatCurrency(breakdown.variableTotal, currency)}** |\n\n`;
 
   // Fixed costs
   md += '### Fixed Costs (monthly)\n\n';
@@ -46,14 +58,14 @@ export function formatCOGSMarkdown(
 
   fixedCosts.forEach(cost => {
     const perCustomer = customerCount > 0 ? cost.monthlyCost / customerCount : 0;
-    md += `| ${cost.name} | ${currency} ${cost.monthlyCost.toFixed(2)} | ${currency} ${perCustomer.toFixed(2)} |\n`;
+    md += `| ${cost.name} | ${formatCurrency(cost.monthlyCost, currency)} | ${formatCurrency(perCustomer, currency)} |\n`;
   });
 
-  md += `| **Total Fixed** | **${currency} ${breakdown.fixedTotal.toFixed(2)}** | **${currency} ${breakdown.fixedPerCustomer.toFixed(2)}** |\n\n`;
+  md += `| **Total Fixed** | **${formatCurrency(breakdown.fixedTotal, currency)}** | **${formatCurrency(breakdown.fixedPerCustomer, currency)}** |\n\n`;
 
   // Summary
   md += '### Summary\n\n';
-  md += `- **Total COGS per customer**: ${currency} ${breakdown.totalCOGS.toFixed(2)}\n`;
+  md += `- **Total COGS per customer**: ${formatCurrency(breakdown.totalCOGS, currency)}\n`;
   md += `- **Customer count**: ${customerCount}\n`;
 
   return md;
@@ -67,7 +79,7 @@ export function formatMarginMarkdown(
   cogs: number,
   margin: number,
   health: MarginHealth,
-  currency: string = 'RM'
+  currency: CurrencyCode = DEFAULT_CURRENCY
 ): string {
   const profit = price - cogs;
   const healthEmoji = {
@@ -79,10 +91,99 @@ export function formatMarginMarkdown(
   let md = '## Margin Analysis\n\n';
   md += '| Metric | Value |\n';
   md += '|--------|-------|\n';
-  md += `| Price | ${currency} ${price.toFixed(2)} |\n`;
-  md += `| COGS | ${currency} ${cogs.toFixed(2)} |\n`;
-  md += `| Profit | ${currency} ${profit.toFixed(2)} |\n`;
+  md += `| Price | ${formatCurrency(price, currency)} |\n`;
+  md += `| COGS | ${formatCurrency(cogs, currency)} |\n`;
+  md += `| Profit | ${formatCurrency(profit, currency)} |\n`;
   md += `| Gross Margin | ${margin.toFixed(1)}% ${healthEmoji} ${health} |\n`;
 
   return md;
 }
+
+/**
+ * Format tier margin analysis as markdown
+ */
+export function formatTierMarginMarkdown(
+  analysis: TierAnalysis,
+  currency: CurrencyCode = DEFAULT_CURRENCY
+): string {
+  const healthEmoji = {
+    healthy: '🟢',
+    acceptable: '🟡',
+    low: '🔴',
+  };
+
+  let md = '## Tier Margins\n\n';
+  md += '| Tier | Price | COGS | Profit | Gross Margin | Customers | MRR |\n';
+  md += '|------|-------|------|--------|--------------|-----------|-----|\n';
+
+  analysis.tiers.forEach(row => {
+    const margin = row.price > 0
+      ? `${row.margin.toFixed(1)}% ${healthEmoji[row.health]} ${row.health}`
+      : 'Free';
+    const name = row.seats !== null ? `${row.name} (${row.seats} seats)` : row.name;
+    md += `| ${name} | ${formatCurrency(row.price, currency)} | ${formatCurrency(row.cogs, currency)} | ${formatCurrency(row.profit, currency)} | ${margin} | ${row.customers} | ${formatCurrency(row.mrr, currency)} |\n`;
+  });
+
+  md += '\n### Summary\n\n';
+  md += `- **Blended MRR**: ${formatCurrency(analysis.blendedMRR, currency)}\n`;
+  md += `- **Blended gross margin**: ${analysis.blendedGrossMargin.toFixed(1)}%\n`;
+  md += `- **Variable costs**: ${formatCurrency(analysis.variableCostsTotal, currency)}/mo\n`;
+  md += `- **Fixed costs**: ${formatCurrency(analysis.fixedCostsTotal, currency)}/mo\n`;
+  md += `- **Customer count**: ${analysis.customerCount}\n`;
+  md += `- **Utilization rate**: ${(analysis.utilizationRate * 100).toFixed(0)}%\n`;
+
+  return md;
+}
+
+/**
+ * Format price solver results as markdown
+ */
+export function formatPriceSolverMarkdown(
+  result: PriceSolverResult,
+  currency: CurrencyCode = DEFAULT_CURRENCY
+): string {
+  let md = '## Proposed Prices\n\n';
+  md += '| Tier | Current | Proposed | COGS | Gross Margin |\n';
+  md += '|------|---------|----------|------|--------------|\n';
+
+  result.tiers.forEach(row => {
+    const margin = row.revenuePerCustomer > 0 ? `${row.margin.toFixed(1)}%` : 'Free';
+    md += `| ${row.name} | ${formatCurrency(row.currentPrice, currency)} | ${formatCurrency(row.proposedPrice, currency)} | ${formatCurrency(row.cogsPerCustomer, currency)} | ${margin} |\n`;
+  });
+
+  md += '\n### Targets\n\n';
+  result.constraints.forEach(constraint => {
+    const actual = constraint.actual === null ? 'n/a' : Number(constraint.actual.toFixed(2));
+    md += `- ${constraint.met ? '✅' : '❌'} **${constraint.label}**: ${actual} (target ${constraint.target})\n`;
+  });
+
+  return md;
+}
+
+/**
+ * Format a stakeholder report document as markdown
+ */
+export function formatReportDocumentMarkdown(document: ReportDocument): string {
+  let md = `# ${document.projectName} - ${document.title}\n\n`;
+  md += `_Generated ${formatReportDate(document.generatedAt)}_\n\n`;
+
+  document.sections.forEach(section => {
+    md += `## ${section.title}\n\n`;
+
+    section.blocks.forEach(block => {
+      if (block.type === 'metrics') {
+        block.items.forEach(item => {
+          md += `- **${item.label}**: ${item.value}${item.note ? ` (${item.note})` : ''}\n`;
+        });
+      } else if (block.type === 'table') {
+        const rows = block.footer ? [...block.rows, block.footer] : block.rows;
+        md += formatMarkdown(block.columns, rows) + '\n';
+      } else {
+        md += `${block.text}\n`;
+      }
+      md += '\n';
+    });
+  });
+
+  return md.trimEnd() + '\n';
+}
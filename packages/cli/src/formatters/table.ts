@@ -4,7 +4,17 @@
 
 import Table from 'cli-table3';
 import chalk from 'chalk';
-import type { CostBreakdown, MarginHealth, VariableCostItem, FixedCostItem } from '@basedpricer/core';
+import {
+  DEFAULT_CURRENCY,
+  formatCurrency,
+  type CostBreakdown,
+  type CurrencyCode,
+  type MarginHealth,
+  type VariableCostItem,
+  type FixedCostItem,
+  type PriceSolverResult,
+} from '@basedpricer/core';
+import type { TierAnalysis } from '../utils/tiers.js';
 
 export interface TableData {
   title?: string;
@@ -45,7 +55,7 @@ export function formatCOGSTable(
   fixedCosts: FixedCostItem[],
   breakdown: CostBreakdown,
   customerCount: number,
-  currency: string = 'RM'
+  currency: CurrencyCode = DEFAULT_CURRENCY
 ): string {
   const table = new Table({
     head: [
@@ -64,9 +74,9 @@ export function formatCOGSTable(
     table.push([
       cost.name,
       chalk.blue('Variable'),
-      `${currency} ${cost.costPerUnit.toFixed(4)}`,
+      `${formatCurrency(cost.costPerUnit, currency, { decimals: 4 })}`,
       `${cost.usagePerCustomer} ${cost.unit}`,
-      `${currency} ${perCustomer.toFixed(2)}`,
+      `${formatCurrency(perCustomer, currency)}`,
     ]);
   });
 
@@ -76,9 +86,9 @@ export function formatCOGSTable(
     table.push([
       cost.name,
       chalk.yellow('Fixed'),
-      `${currency} ${cost.monthlyCost.toFixed(2)}/mo`,
+      `${formatCurrency(cost.monthlyCost, currency)}/mo`,
       '-',
-      `${currency} ${perCustomer.toFixed(2)}`,
+      `${formatCurrency(perCustomer, currency)}`,
     ]);
   });
 
@@ -88,21 +98,21 @@ export function formatCOGSTable(
     '',
     '',
     '',
-    chalk.bold(`${currency} ${breakdown.variableTotal.toFixed(2)}`),
+    chalk.bold(`${formatCurrency(breakdown.variableTotal, currency)}`),
   ]);
   table.push([
     chalk.bold('Fixed Total'),
     '',
-    `${currency} ${breakdown.fixedTotal.toFixed(2)}/mo`,
+    `${formatCurrency(breakdown.fixedTotal, currency)}/mo`,
     '',
-    chalk.bold(`${currency} ${breakdown.fixedPerCustomer.toFixed(2)}`),
+    chalk.bold(`${formatCurrency(breakdown.fixedPerCustomer, currency)}`),
   ]);
   table.push([
     chalk.bold.green('Total COGS'),
     '',
     '',
     '',
-    chalk.bold.green(`${currency} ${breakdown.totalCOGS.toFixed(2)}`),
+    chalk.bold.green(`${formatCurrency(breakdown.totalCOGS, currency)}`),
   ]);
 
   return chalk.bold.white('\nCOGS Breakdown\n') + table.toString();
@@ -116,7 +126,7 @@ export function formatMarginTable(
   cogs: number,
   margin: number,
   health: MarginHealth,
-  currency: string = 'RM'
+  currency: CurrencyCode = DEFAULT_CURRENCY
 ): string {
   const profit = price - cogs;
 
@@ -137,15 +147,116 @@ export function formatMarginTable(
   });
 
   table.push(
-    [chalk.cyan('Price'), `${currency} ${price.toFixed(2)}`],
-    [chalk.cyan('COGS'), `${currency} ${cogs.toFixed(2)}`],
-    [chalk.cyan('Profit'), `${currency} ${profit.toFixed(2)}`],
+    [chalk.cyan('Price'), `${formatCurrency(price, currency)}`],
+    [chalk.cyan('COGS'), `${formatCurrency(cogs, currency)}`],
+    [chalk.cyan('Profit'), `${formatCurrency(profit, currency)}`],
     [chalk.cyan('Gross Margin'), healthColor(`${margin.toFixed(1)}% ${healthIcon} ${health.charAt(0).toUpperCase() + health.slice(1)}`)],
   );
 
   return chalk.bold.white('\nMargin Analysis\n') + table.toString();
 }
 
+/**
+ * Format tier margin analysis as table
+ */
+export function formatTierMarginTable(
+  analysis: TierAnalysis,
+  currency: CurrencyCode = DEFAULT_CURRENCY
+): string {
+  const healthColor = {
+    healthy: chalk.green,
+    acceptable: chalk.yellow,
+    low: chalk.red,
+  };
+
+  const table = new Table({
+    head: [
+      chalk.cyan.bold('Tier'),
+      chalk.cyan.bold('Price'),
+      chalk.cyan.bold('COGS'),
+      chalk.cyan.bold('Profit'),
+      chalk.cyan.bold('Gross Margin'),
+      chalk.cyan.bold('Customers'),
+      chalk.cyan.bold('MRR'),
+    ],
+    style: { head: [], border: [] },
+  });
+
+  analysis.tiers.forEach(row => {
+    const margin = row.price > 0
+      ? healthColor[row.health](`${row.margin.toFixed(1)}% ${row.health}`)
+      : chalk.gray('Free');
+    table.push([
+      row.seats !== null ? `${row.name} ${chalk.gray(`(${row.seats} seats)`)}` : row.name,
+      `${formatCurrency(row.price, currency)}`,
+      `${formatCurrency(row.cogs, currency)}`,
+      `${formatCurrency(row.profit, currency)}`,
+      margin,
+      String(row.customers),
+      `${formatCurrency(row.mrr, currency)}`,
+    ]);
+  });
+
+  table.push([
+    chalk.bold.green('Blended'),
+    '',
+    '',
+    '',
+    chalk.bold.green(`${analysis.blendedGrossMargin.toFixed(1)}%`),
+    chalk.bold(String(analysis.customerCount)),
+    chalk.bold.green(`${formatCurrency(analysis.blendedMRR, currency)}`),
+  ]);
+
+  return chalk.bold.white('\nTier Margins\n') + table.toString();
+}
+
+/**
+ * Format price solver results as table
+ */
+export function formatPriceSolverTable(
+  result: PriceSolverResult,
+  currency: CurrencyCode = DEFAULT_CURRENCY
+): string {
+  const table = new Table({
+    head: [
+      chalk.cyan.bold('Tier'),
+      chalk.cyan.bold('Current'),
+      chalk.cyan.bold('Proposed'),
+      chalk.cyan.bold('COGS'),
+      chalk.cyan.bold('Gross Margin'),
+    ],
+    style: { head: [], border: [] },
+  });
+
+  result.tiers.forEach(row => {
+    const changed = row.proposedPrice !== row.currentPrice;
+    table.push([
+      row.name,
+      `${formatCurrency(row.currentPrice, currency)}`,
+      changed ? chalk.bold(`${formatCurrency(row.proposedPrice, currency)}`) : chalk.gray(`${formatCurrency(row.proposedPrice, currency)}`),
+      `${formatCurrency(row.cogsPerCustomer, currency)}`,
+      row.revenuePerCustomer > 0 ? `${row.margin.toFixed(1)}%` : chalk.gray('Free'),
+    ]);
+  });
+
+  const targets = new Table({
+    head: [chalk.cyan.bold('Target'), chalk.cyan.bold('Required'), chalk.cyan.bold('Proposed'), chalk.cyan.bold('Met')],
+    style: { head: [], border: [] },
+  });
+
+  result.constraints.forEach(constraint => {
+    targets.push([
+      constraint.label,
+      String(constraint.target),
+      constraint.actual === null ? '-' : String(Number(constraint.actual.toFixed(2))),
+      constraint.met ? chalk.green('✓') : chalk.red('✗'),
+    ]);
+  });
+
+  return chalk.bold.white('\nProposed Prices\n') + table.toString() +
+    chalk.bold.white('\n\nTargets\n') + targets.toString();
+}
+
 /**
  * Format key-value pairs as table
  */
@@ -4,8 +4,14 @@
  */
 
 import { Command } from 'commander';
+import { analyzeCommand } from './commands/analyze.js';
 import { cogsCommand } from './commands/cogs.js';
 import { configCommand } from './commands/config.js';
+import { tiersCommand } from './commands/tiers.js';
+import { solveCommand } from './commands/solve.js';
+import { reportCommand } from './commands/report.js';
+import { exportCommand } from './commands/export.js';
+import { currencyCommand } from './commands/currency.js';
 import { version } from './version.js';
 
 const program = new Command();
@@ -17,6 +23,12 @@ program
 
 // Register commands
 program.addCommand(cogsCommand);
+program.addCommand(tiersCommand);
+program.addCommand(solveCommand);
+program.addCommand(reportCommand);
+program.addCommand(exportCommand);
+program.addCommand(analyzeCommand);
+program.addCommand(currencyCommand);
 program.addCommand(configCommand);
 
 // Parse arguments
@@ -0,0 +1,50 @@
+/**
+ * Tests for AI provider resolution
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createCustomProviderDefinition, resolveAnalysisProvider } from './ai.js';
+
+const endpoint = {
+  baseUrl: 'http://localhost:11434/v1/',
+  apiFormat: 'openai',
+  model: 'llama3.2',
+};
+
+describe('resolveAnalysisProvider', () => {
+  it('should return an explicitly requested provider', () => {
+    expect(resolveAnalysisProvider('anthropic')).toBe('anthropic');
+    expect(resolveAnalysisProvider('custom')).toBe('custom');
+  });
+
+  it('should reject unknown providers', () => {
+    expect(() => resolveAnalysisProvider('gemini')).toThrow('Invalid provider: gemini');
+  });
+
+  it('should use the custom endpoint when a base URL is given', () => {
+    expect(resolveAnalysisProvider(undefined, endpoint)).toBe('custom');
+  });
+});
+
+describe('createCustomProviderDefinition', () => {
+  it('should build a keyless provider for the endpoint', () => {
+    const definition = createCustomProviderDefinition(endpoint);
+    expect(definition).toMatchObject({
+      id: 'custom_cli',
+      baseUrl: 'http://localhost:11434/v1',
+      protocol: 'openai',
+      defaultModel: 'llama3.2',
+      requiresApiKey: false,
+    });
+  });
+
+  it('should reject unknown API formats', () => {
+    expect(() => createCustomProviderDefinition({ ...endpoint, apiFormat: 'gemini' }))
+      .toThrow('Invalid API format: gemini');
+  });
+
+  it('should reject invalid base URLs', () => {
+    expect(() => createCustomProviderDefinition({ ...endpoint, baseUrl: 'localhost:11434' }))
+      .toThrow('Invalid custom endpoint: baseUrl');
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * AI chat clients for codebase analysis
+ */
+
+import {
+  BUILT_IN_AI_PROVIDERS,
+  createProviderChatClient,
+  validateAIProviderDefinition,
+  type AIProviderDefinition,
+  type AIProviderProtocol,
+  type ChatClient,
+} from '@basedpricer/core';
+import { getApiKey, getConfig } from './config.js';
+
+export type AnalysisProvider = 'openai' | 'anthropic' | 'custom';
+
+export const ANALYSIS_PROVIDERS: AnalysisProvider[] = ['openai', 'anthropic', 'custom'];
+
+const API_FORMATS: AIProviderProtocol[] = ['openai', 'anthropic'];
+
+/**
+ * Custom endpoint settings from command options; config values fill the gaps
+ */
+export interface CustomEndpointOptions {
+  baseUrl?: string;
+  apiFormat?: string;
+  model?: string;
+}
+
+/**
+ * Pick the provider to use: the requested one, a custom endpoint passed on the
+ * command line, the configured default, or the first provider that is set up
+ */
+export function resolveAnalysisProvider(requested?: string, endpoint: CustomEndpointOptions = {}): AnalysisProvider {
+  if (requested !== undefined) {
+    if (!ANALYSIS_PROVIDERS.includes(requested as AnalysisProvider)) {
+      throw new Error(`Invalid provider: ${requested}. Valid options: ${ANALYSIS_PROVIDERS.join(', ')}`);
+    }
+    return requested as AnalysisProvider;
+  }
+
+  if (endpoint.baseUrl) {
+    return 'custom';
+  }
+
+  const configured = getConfig('default-provider');
+  if (configured && ANALYSIS_PROVIDERS.includes(configured as AnalysisProvider)) {
+    return configured as AnalysisProvider;
+  }
+
+  if (getApiKey('openai')) return 'openai';
+  if (getApiKey('anthropic')) return 'anthropic';
+  if (getConfig('custom-base-url')) return 'custom';
+
+  throw new Error('No AI provider configured. Run: basedpricer config set anthropic-key <key>');
+}
+
+/**
+ * Build a provider definition for an OpenAI- or Anthropic-compatible endpoint,
+ * e.g. a local Ollama or llama.cpp server
+ */
+export function createCustomProviderDefinition(endpoint: CustomEndpointOptions = {}): AIProviderDefinition {
+  const baseUrl = endpoint.baseUrl ?? getConfig('custom-base-url');
+  if (!baseUrl) {
+    throw new Error('No custom endpoint configured. Use --base-url or run: basedpricer config set custom-base-url <url>');
+  }
+
+  const apiFormat = endpoint.apiFormat ?? getConfig('custom-api-format') ?? 'openai';
+  if (!API_FORMATS.includes(apiFormat as AIProviderProtocol)) {
+    throw new Error(`Invalid API format: ${apiFormat}. Valid options: ${API_FORMATS.join(', ')}`);
+  }
+
+  const model = endpoint.model ?? getConfig('custom-model');
+  if (!model) {
+    throw new Error('Custom endpoints need a model. Use --model or run: basedpricer config set custom-model <model>');
+  }
+
+  const result = validateAIProviderDefinition({
+    id: 'custom_cli',
+    name: 'Custom endpoint',
+    baseUrl: baseUrl.replace(/\/+$/, ''),
+    protocol: apiFormat,
+    defaultModel: model,
+    models: {
+      [model]: {
+        name: model,
+        displayName: model,
+        inputPricePerMillion: 0,
+        outputPricePerMillion: 0,
+        lastUpdated: '',
+        contextWindow: 0,
+      },
+    },
+    requiresApiKey: false,
+  });
+
+  if (!result.success) {
+    throw new Error(`Invalid custom endpoint: ${result.error}`);
+  }
+  return result.data;
+}
+
+/**
+ * Create a chat client for a provider using the stored API key
+ */
+export function createChatClient(provider: AnalysisProvider, endpoint: CustomEndpointOptions = {}): ChatClient {
+  if (provider === 'custom') {
+    return createProviderChatClient(createCustomProviderDefinition(endpoint), {
+      apiKey: getConfig('custom-key'),
+    });
+  }
+
+  const apiKey = getApiKey(provider);
+  if (!apiKey) {
+    throw new Error(`No ${provider} API key configured. Run: basedpricer config set ${provider}-key <key>`);
+  }
+
+  return createProviderChatClient(BUILT_IN_AI_PROVIDERS[provider], { apiKey });
+}
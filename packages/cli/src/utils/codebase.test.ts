@@ -0,0 +1,72 @@
+/**
+ * Tests for local codebase reading
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import path from 'path';
+import os from 'os';
+import { mkdtemp, mkdir, writeFile, rm } from 'fs/promises';
+import { walkDirectory, readLocalCodebase } from './codebase.js';
+
+let root: string;
+
+beforeAll(async () => {
+  root = await mkdtemp(path.join(os.tmpdir(), 'basedpricer-analyze-'));
+  await mkdir(path.join(root, 'src/api'), { recursive: true });
+  await mkdir(path.join(root, 'node_modules/openai'), { recursive: true });
+  await mkdir(path.join(root, '.git'), { recursive: true });
+
+  await writeFile(path.join(root, 'package.json'), JSON.stringify({
+    name: 'acme-app',
+    description: 'Invoices for everyone',
+    dependencies: { openai: '^4' },
+  }));
+  await writeFile(path.join(root, 'README.md'), '# Acme');
+  await writeFile(path.join(root, 'src/index.ts'), 'export {};');
+  await writeFile(path.join(root, 'src/api/users.ts'), 'export const users = [];');
+  await writeFile(path.join(root, 'src/index.test.ts'), 'test');
+  await writeFile(path.join(root, 'node_modules/openai/index.js'), 'module.exports = {};');
+  await writeFile(path.join(root, '.git/HEAD'), 'ref: refs/heads/main');
+});
+
+afterAll(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+describe('walkDirectory', () => {
+  it('lists files with forward-slash paths and skips ignored directories', async () => {
+    const tree = await walkDirectory(root);
+    const paths = tree.map(item => item.path).sort();
+
+    expect(paths).toEqual([
+      'README.md',
+      'package.json',
+      'src',
+      'src/api',
+      'src/api/users.ts',
+      'src/index.test.ts',
+      'src/index.ts',
+    ]);
+    expect(tree.find(item => item.path === 'src/index.ts')).toEqual({
+      path: 'src/index.ts',
+      type: 'blob',
+      size: 10,
+    });
+  });
+});
+
+describe('readLocalCodebase', () => {
+  it('reads selected files into a snapshot', async () => {
+    const snapshot = await readLocalCodebase(root);
+
+    expect(snapshot.name).toBe('acme-app');
+    expect(snapshot.description).toBe('Invoices for everyone');
+    expect(snapshot.packageJson?.dependencies).toEqual({ openai: '^4' });
+    expect(snapshot.readme).toBe('# Acme');
+    expect(snapshot.srcFiles.map(f => f.path)).toEqual(['src/index.ts', 'src/api/users.ts']);
+  });
+
+  it('throws for a missing directory', async () => {
+    await expect(readLocalCodebase(path.join(root, 'missing'))).rejects.toThrow('Directory not found');
+  });
+});
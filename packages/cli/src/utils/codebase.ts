@@ -0,0 +1,81 @@
+/**
+ * Local codebase reading for offline analysis
+ */
+
+import path from 'path';
+import { readdir, readFile, stat } from 'fs/promises';
+import {
+  selectAnalysisFiles,
+  createCodebaseSnapshot,
+  type AnalysisFile,
+  type AnalysisTreeItem,
+  type CodebaseSnapshot,
+} from '@basedpricer/core';
+
+/**
+ * Directories never worth walking (build output, dependencies, VCS metadata)
+ */
+const IGNORED_DIRECTORIES = new Set([
+  'node_modules',
+  'dist',
+  'build',
+  'coverage',
+  'out',
+]);
+
+/**
+ * Recursively list a directory as a repository tree.
+ * Paths are relative to `root` and use forward slashes, like GitHub tree paths.
+ * Hidden and ignored directories are skipped.
+ */
+export async function walkDirectory(root: string, relative: string = ''): Promise<AnalysisTreeItem[]> {
+  const entries = await readdir(path.join(root, relative), { withFileTypes: true });
+  const items: AnalysisTreeItem[] = [];
+
+  for (const entry of entries) {
+    const entryPath = relative ? `${relative}/${entry.name}` : entry.name;
+
+    if (entry.isDirectory()) {
+      if (entry.name.startsWith('.') || IGNORED_DIRECTORIES.has(entry.name)) continue;
+      items.push({ path: entryPath, type: 'tree' });
+      items.push(...await walkDirectory(root, entryPath));
+    } else if (entry.isFile()) {
+      const { size } = await stat(path.join(root, entryPath));
+      items.push({ path: entryPath, type: 'blob', size });
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Read a local directory into a codebase snapshot, using the same
+ * file selection as GitHub analysis
+ */
+export async function readLocalCodebase(root: string): Promise<CodebaseSnapshot> {
+  const rootStat = await stat(root).catch(() => null);
+  if (!rootStat?.isDirectory()) {
+    throw new Error(`Directory not found: ${root}`);
+  }
+
+  const tree = await walkDirectory(root);
+  const files: AnalysisFile[] = await Promise.all(
+    selectAnalysisFiles(tree).map(async (filePath) => {
+      const content = await readFile(path.join(root, filePath), 'utf-8');
+      return { path: filePath, content, size: content.length };
+    })
+  );
+
+  const snapshot = createCodebaseSnapshot(
+    { name: path.basename(path.resolve(root)), description: null, language: null },
+    files
+  );
+
+  // Prefer package.json metadata when present
+  const pkg = snapshot.packageJson;
+  return {
+    ...snapshot,
+    name: typeof pkg?.name === 'string' ? pkg.name : snapshot.name,
+    description: typeof pkg?.description === 'string' ? pkg.description : null,
+  };
+}
@@ -38,10 +38,14 @@ describe('VALID_CONFIG_KEYS', () => {
     expect(VALID_CONFIG_KEYS).toContain('github-token');
     expect(VALID_CONFIG_KEYS).toContain('default-provider');
     expect(VALID_CONFIG_KEYS).toContain('default-currency');
+    expect(VALID_CONFIG_KEYS).toContain('custom-base-url');
+    expect(VALID_CONFIG_KEYS).toContain('custom-api-format');
+    expect(VALID_CONFIG_KEYS).toContain('custom-model');
+    expect(VALID_CONFIG_KEYS).toContain('custom-key');
   });
 
-  it('should have exactly 5 keys', () => {
-    expect(VALID_CONFIG_KEYS).toHaveLength(5);
+  it('should have exactly 9 keys', () => {
+    expect(VALID_CONFIG_KEYS).toHaveLength(9);
   });
 
   it('should be an array', () => {
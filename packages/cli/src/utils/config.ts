@@ -3,13 +3,18 @@
  */
 
 import Conf from 'conf';
+import { CURRENCY_CODES, DEFAULT_CURRENCY, type CurrencyCode } from '@basedpricer/core';
 
 export interface Config {
   'openai-key'?: string;
   'anthropic-key'?: string;
   'github-token'?: string;
-  'default-provider'?: 'openai' | 'anthropic' | 'groq' | 'minimax';
-  'default-currency'?: 'MYR' | 'USD' | 'SGD' | 'EUR' | 'GBP' | 'AUD';
+  'custom-base-url'?: string;
+  'custom-api-format'?: 'openai' | 'anthropic';
+  'custom-model'?: string;
+  'custom-key'?: string;
+  'default-provider'?: 'openai' | 'anthropic' | 'groq' | 'minimax' | 'custom';
+  'default-currency'?: CurrencyCode;
 }
 
 export type ConfigKey = keyof Config;
@@ -21,6 +26,10 @@ export const VALID_CONFIG_KEYS: ConfigKey[] = [
   'openai-key',
   'anthropic-key',
   'github-token',
+  'custom-base-url',
+  'custom-api-format',
+  'custom-model',
+  'custom-key',
   'default-provider',
   'default-currency',
 ];
@@ -38,14 +47,21 @@ const config = new Conf<Config>({
     'openai-key': { type: 'string' },
     'anthropic-key': { type: 'string' },
     'github-token': { type: 'string' },
+    'custom-base-url': { type: 'string' },
+    'custom-api-format': {
+      type: 'string',
+      enum: ['openai', 'anthropic'],
+    },
+    'custom-model': { type: 'string' },
+    'custom-key': { type: 'string' },
     'default-provider': {
       type: 'string',
-      enum: ['openai', 'anthropic', 'groq', 'minimax'],
+      enum: ['openai', 'anthropic', 'groq', 'minimax', 'custom'],
     },
     'default-currency': {
       type: 'string',
-      enum: ['MYR', 'USD', 'SGD', 'EUR', 'GBP', 'AUD'],
-      default: 'MYR',
+      enum: CURRENCY_CODES,
+      default: DEFAULT_CURRENCY,
     },
   },
 });
@@ -92,5 +108,5 @@ export function getGitHubToken(): string | undefined {
  * Get default currency
  */
 export function getDefaultCurrency(): string {
-  return config.get('default-currency') || 'MYR';
+  return config.get('default-currency') || DEFAULT_CURRENCY;
 }
@@ -0,0 +1,37 @@
+/**
+ * Tests for vendor bill import
+ */
+
+import { describe, it, expect } from 'vitest';
+import { isBillFile, parseColumnMapping, resolveColumnMapping } from './cost-import.js';
+
+const headers = ['Vendor', 'Total', 'Billing Period', 'Qty'];
+
+describe('isBillFile', () => {
+  it('recognizes CSV and xlsx files', () => {
+    expect(isBillFile('bills.csv')).toBe(true);
+    expect(isBillFile('Bills.XLSX')).toBe(true);
+    expect(isBillFile('costs.json')).toBe(false);
+  });
+});
+
+describe('parseColumnMapping', () => {
+  it('maps fields to columns case-insensitively', () => {
+    expect(parseColumnMapping('name=vendor, usage=Qty', headers)).toEqual({ name: 0, usage: 3 });
+  });
+
+  it('should throw for unknown fields or columns', () => {
+    expect(() => parseColumnMapping('vendor=Vendor', headers)).toThrow('Invalid mapping field: "vendor"');
+    expect(() => parseColumnMapping('name=Supplier', headers)).toThrow('Column "Supplier" not found');
+  });
+});
+
+describe('resolveColumnMapping', () => {
+  it('combines guessed columns with overrides', () => {
+    expect(resolveColumnMapping(headers, 'usage=Qty')).toEqual({ name: 0, amount: 1, period: 2, usage: 3 });
+  });
+
+  it('should throw when name or amount cannot be found', () => {
+    expect(() => resolveColumnMapping(['Supplier', 'Total'])).toThrow('Map them with --map');
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Cost import from vendor bill CSV and .xlsx files
+ */
+
+import path from 'path';
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import ExcelJS from 'exceljs';
+import {
+  COST_IMPORT_FIELDS,
+  guessCostImportMapping,
+  importCostRows,
+  isCompleteCostImportMapping,
+  parseCsv,
+  type CostImportField,
+  type CostImportMapping,
+  type CostImportOptions,
+  type CostImportResult,
+} from '@basedpricer/core';
+import { validateFilePath } from './files.js';
+
+const BILL_FILE_EXTENSIONS = ['.csv', '.xlsx'];
+
+/**
+ * Whether a file holds vendor bills (CSV or .xlsx) rather than a costs JSON file
+ */
+export function isBillFile(filePath: string): boolean {
+  return BILL_FILE_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Parse a --map value such as "name=Vendor,amount=Total" against the header row
+ * @param spec - Comma-separated field=column pairs
+ * @param headers - Header row of the bill file
+ * @returns Column index per mapped field
+ * @throws Error for unknown fields or columns
+ */
+export function parseColumnMapping(spec: string, headers: string[]): Partial<CostImportMapping> {
+  const mapping: Partial<Record<CostImportField, number>> = {};
+
+  for (const pair of spec.split(',').map(p => p.trim()).filter(Boolean)) {
+    const separator = pair.indexOf('=');
+    const field = (separator < 0 ? pair : pair.slice(0, separator)).trim();
+    const column = separator < 0 ? '' : pair.slice(separator + 1).trim();
+
+    if (!COST_IMPORT_FIELDS.includes(field as CostImportField)) {
+      throw new Error(`Invalid mapping field: "${field}". Valid fields: ${COST_IMPORT_FIELDS.join(', ')}`);
+    }
+    const index = headers.findIndex(header => header.toLowerCase() === column.toLowerCase());
+    if (index < 0) {
+      throw new Error(`Column "${column}" not found. Columns: ${headers.join(', ')}`);
+    }
+    mapping[field as CostImportField] = index;
+  }
+
+  return mapping;
+}
+
+/**
+ * Guess the column mapping from the header row, applying --map overrides
+ * @throws Error if the name or amount column can't be found
+ */
+export function resolveColumnMapping(headers: string[], spec?: string): CostImportMapping {
+  const mapping = { ...guessCostImportMapping(headers), ...(spec ? parseColumnMapping(spec, headers) : {}) };
+  if (!isCompleteCostImportMapping(mapping)) {
+    throw new Error(
+      `Could not find the name and amount columns in: ${headers.join(', ')}. ` +
+      'Map them with --map name=<column>,amount=<column>'
+    );
+  }
+  return mapping;
+}
+
+/**
+ * Read rows from a CSV file or the first sheet of an .xlsx file
+ */
+export async function readBillRows(filePath: string): Promise<string[][]> {
+  const resolvedPath = validateFilePath(filePath);
+
+  if (!existsSync(resolvedPath)) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+
+  if (path.extname(filePath).toLowerCase() !== '.xlsx') {
+    return parseCsv(await readFile(resolvedPath, 'utf-8'));
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.readFile(resolvedPath);
+  const rows: string[][] = [];
+  workbook.worksheets[0]?.eachRow(row => {
+    rows.push(Array.from({ length: row.cellCount }, (_, i) => row.getCell(i + 1).text.trim()));
+  });
+  return rows;
+}
+
+/**
+ * Import cost items from a vendor bill file
+ */
+export async function importCostsFromFile(
+  filePath: string,
+  options: Omit<CostImportOptions, 'mapping'> & { map?: string }
+): Promise<CostImportResult> {
+  const [headers, ...rows] = await readBillRows(filePath);
+  if (!headers) {
+    throw new Error(`No rows found in ${filePath}`);
+  }
+
+  const { map, ...importOptions } = options;
+  return importCostRows(rows, { ...importOptions, mapping: resolveColumnMapping(headers, map) });
+}
@@ -0,0 +1,39 @@
+/**
+ * File path utilities for CLI commands
+ */
+
+import chalk from 'chalk';
+import path from 'path';
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import type { ProjectFile } from '@basedpricer/core';
+import { parseProjectJson } from './validation.js';
+
+/**
+ * Validate that a file path is safe (within current working directory)
+ */
+export function validateFilePath(filePath: string): string {
+  const resolved = path.resolve(filePath);
+  const cwd = process.cwd();
+
+  // Allow absolute paths but warn about them
+  if (!resolved.startsWith(cwd)) {
+    console.log(chalk.yellow(`Note: File path is outside current directory: ${resolved}`));
+  }
+
+  return resolved;
+}
+
+/**
+ * Load and validate a basedpricer.json project file
+ */
+export async function loadProjectFromFile(filePath: string): Promise<ProjectFile> {
+  const resolvedPath = validateFilePath(filePath);
+
+  if (!existsSync(resolvedPath)) {
+    throw new Error(`Project file not found: ${filePath}`);
+  }
+
+  const fileContent = await readFile(resolvedPath, 'utf-8');
+  return parseProjectJson(fileContent, filePath);
+}
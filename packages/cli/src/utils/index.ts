@@ -1,2 +1,8 @@
 export * from './config.js';
 export * from './validation.js';
+export * from './files.js';
+export * from './tiers.js';
+export * from './codebase.js';
+export * from './ai.js';
+export * from './report.js';
+export * from './cost-import.js';
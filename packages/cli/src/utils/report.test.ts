@@ -0,0 +1,77 @@
+/**
+ * Tests for stakeholder report output
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildCostModelWorkbook, buildReportDocument, type ProjectFile } from '@basedpricer/core';
+import {
+  createReportInput,
+  getExportFileName,
+  getReportFileName,
+  renderReportPdfBuffer,
+  renderWorkbookXlsxBuffer,
+} from './report.js';
+
+const project: ProjectFile = {
+  schemaVersion: 2,
+  name: 'Acme Analytics',
+  currency: 'MYR',
+  variableCosts: [
+    { id: 'api-calls', name: 'API calls', unit: 'request', costPerUnit: 0.001, usagePerCustomer: 1000, description: '' },
+  ],
+  fixedCosts: [{ id: 'hosting', name: 'Hosting', monthlyCost: 200, description: '' }],
+  tiers: [
+    { id: 'free', name: 'Free', monthlyPrice: 0, limits: [{ featureId: 'api', limit: 100 }] },
+    { id: 'pro', name: 'Pro', monthlyPrice: 50, limits: [{ featureId: 'api', limit: 10000 }] },
+  ],
+  features: [{ id: 'api', name: 'API', costDriver: 'api-calls' }],
+  businessType: null,
+  businessTypeConfidence: 0,
+  pricingModelType: 'feature_tiered',
+  customerCount: 100,
+  selectedPrice: 50,
+  utilizationRate: 1,
+  tierDistribution: { free: 60, pro: 40 },
+  scenarios: [],
+};
+
+describe('createReportInput', () => {
+  it('maps project settings and growth rate', () => {
+    const input = createReportInput(project, { monthlyGrowthRate: 0.1 });
+    expect(input.projectName).toBe('Acme Analytics');
+    expect(input.currency).toBe('MYR');
+    expect(input.monthlyGrowthRate).toBe(0.1);
+    expect(input.tiers).toHaveLength(2);
+  });
+
+  it('converts amounts to the display currency', () => {
+    const input = createReportInput({ ...project, displayCurrency: 'USD', actuals: [] });
+    expect(input.currency).toBe('USD');
+    expect(input.tiers[1].monthlyPrice).toBeCloseTo(11);
+    expect(input.fixedCosts[0].monthlyCost).toBeCloseTo(44);
+  });
+});
+
+describe('getReportFileName', () => {
+  it('builds a file-system safe name', () => {
+    expect(getReportFileName('Acme Analytics!', 'investor')).toBe('Acme-Analytics--investor-report.pdf');
+  });
+});
+
+describe('renderReportPdfBuffer', () => {
+  it('renders a PDF without a browser', () => {
+    const document = buildReportDocument('investor', createReportInput(project));
+    const pdf = renderReportPdfBuffer(document);
+    expect(pdf.subarray(0, 5).toString('latin1')).toBe('%PDF-');
+    expect(pdf.toString('latin1')).toContain('Investor Report');
+  });
+});
+
+describe('renderWorkbookXlsxBuffer', () => {
+  it('writes an xlsx workbook with the cost model sheets', async () => {
+    const xlsx = await renderWorkbookXlsxBuffer(buildCostModelWorkbook(createReportInput(project)));
+    // .xlsx is a zip archive
+    expect(xlsx.subarray(0, 2).toString('latin1')).toBe('PK');
+    expect(getExportFileName('Acme Analytics', 'xlsx')).toBe('Acme-Analytics-cost-model.xlsx');
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Stakeholder report documents, PDF and spreadsheet output for project files
+ */
+
+import { jsPDF } from 'jspdf';
+import ExcelJS from 'exceljs';
+import {
+  convertProjectCurrency,
+  renderReportPdf,
+  writeWorkbookXlsx,
+  type ProjectFile,
+  type ReportDocument,
+  type ReportDocumentInput,
+  type SpreadsheetWorkbook,
+  type StakeholderType,
+} from '@basedpricer/core';
+import type { ExportFormat } from './validation.js';
+
+/**
+ * Map a project file to report input, with amounts in the project's display currency
+ */
+export function createReportInput(
+  stored: ProjectFile,
+  options: { monthlyGrowthRate?: number; generatedAt?: string } = {}
+): ReportDocumentInput {
+  const project = convertProjectCurrency(stored, stored.displayCurrency ?? stored.currency);
+
+  return {
+    projectName: project.name,
+    generatedAt: options.generatedAt,
+    currency: project.currency,
+    variableCosts: project.variableCosts,
+    fixedCosts: project.fixedCosts,
+    tiers: project.tiers,
+    features: project.features,
+    customerCount: project.customerCount,
+    selectedPrice: project.selectedPrice,
+    utilizationRate: project.utilizationRate,
+    tierDistribution: project.tierDistribution,
+    monthlyGrowthRate: options.monthlyGrowthRate,
+    tax: project.tax,
+  };
+}
+
+/**
+ * Default PDF file name, matching the web download
+ */
+export function getReportFileName(projectName: string, stakeholder: StakeholderType): string {
+  return `${projectName.replace(/[^a-zA-Z0-9]/g, '-')}-${stakeholder}-report.pdf`;
+}
+
+/**
+ * Render a report document to PDF bytes
+ */
+export function renderReportPdfBuffer(document: ReportDocument): Buffer {
+  const writer = new jsPDF({ unit: 'mm', format: 'a4' });
+  renderReportPdf(document, writer);
+  return Buffer.from(writer.output('arraybuffer'));
+}
+
+/**
+ * Default spreadsheet file name, matching the web download
+ */
+export function getExportFileName(projectName: string, format: ExportFormat): string {
+  return `${projectName.replace(/[^a-zA-Z0-9]/g, '-')}-cost-model.${format}`;
+}
+
+/**
+ * Render a workbook to .xlsx bytes
+ */
+export async function renderWorkbookXlsxBuffer(workbook: SpreadsheetWorkbook): Promise<Buffer> {
+  const writer = new ExcelJS.Workbook();
+  writeWorkbookXlsx(workbook, writer);
+  return Buffer.from(await writer.xlsx.writeBuffer());
+}
@@ -0,0 +1,109 @@
+/**
+ * Tests for tier margin analysis
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzeTiers, distributeCustomers, type TierAnalysisInput } from './tiers.js';
+
+const input: TierAnalysisInput = {
+  tiers: [
+    { id: 'free', name: 'Free', monthlyPrice: 0, limits: [{ featureId: 'api', limit: 100 }] },
+    {
+      id: 'pro',
+      name: 'Pro',
+      monthlyPrice: 50,
+      limits: [
+        { featureId: 'api', limit: 10000 },
+        { featureId: 'sso', limit: true },
+      ],
+    },
+  ],
+  features: [{ id: 'api', name: 'API', costDriver: 'api-calls' }],
+  variableCosts: [
+    {
+      id: 'api-calls',
+      name: 'API calls',
+      unit: 'request',
+      costPerUnit: 0.001,
+      usagePerCustomer: 1000,
+      description: '',
+    },
+  ],
+  fixedCosts: [{ id: 'hosting', name: 'Hosting', monthlyCost: 200, description: '' }],
+  tierDistribution: { free: 80, pro: 20 },
+  customerCount: 100,
+  utilizationRate: 1,
+};
+
+describe('distributeCustomers', () => {
+  it('should split customers by distribution percentage', () => {
+    expect(distributeCustomers(input.tiers, input.tierDistribution, 100)).toEqual({ free: 80, pro: 20 });
+  });
+
+  it('should normalize distributions that do not sum to 100', () => {
+    expect(distributeCustomers(input.tiers, { free: 1, pro: 1 }, 10)).toEqual({ free: 5, pro: 5 });
+  });
+
+  it('should spread customers evenly when no distribution is given', () => {
+    expect(distributeCustomers(input.tiers, {}, 10)).toEqual({ free: 5, pro: 5 });
+  });
+});
+
+describe('analyzeTiers', () => {
+  it('should calculate per-tier COGS and margins', () => {
+    const analysis = analyzeTiers(input);
+    const pro = analysis.tiers.find(t => t.id === 'pro')!;
+
+    expect(pro.cogs).toBeCloseTo(10);
+    expect(pro.profit).toBeCloseTo(40);
+    expect(pro.margin).toBeCloseTo(80);
+    expect(pro.health).toBe('healthy');
+    expect(pro.mrr).toBe(1000);
+  });
+
+  it('should calculate blended MRR and gross margin', () => {
+    const analysis = analyzeTiers(input);
+
+    // 80 free * 0.1 + 20 pro * 10
+    expect(analysis.variableCostsTotal).toBeCloseTo(208);
+    expect(analysis.blendedMRR).toBe(1000);
+    expect(analysis.blendedGrossMargin).toBeCloseTo(79.2);
+    expect(analysis.fixedCostsTotal).toBe(200);
+  });
+
+  it('should price seat-based tiers at their average seats', () => {
+    const team = {
+      id: 'team',
+      name: 'Team',
+      monthlyPrice: 20,
+      seatPricing: { pricePerSeat: 10, averageSeats: 5 },
+      limits: [{ featureId: 'api', limit: 1000, perSeat: true }],
+    };
+    const analysis = analyzeTiers({ ...input, tiers: [team], tierDistribution: { team: 100 }, customerCount: 10 });
+
+    expect(analysis.tiers[0].price).toBe(70);
+    expect(analysis.tiers[0].seats).toBe(5);
+    expect(analysis.tiers[0].cogs).toBeCloseTo(5);
+    expect(analysis.blendedMRR).toBe(700);
+  });
+
+  it('should count prices that include sales tax net of it', () => {
+    const tax = { rate: 0.25, label: 'VAT', inclusive: true };
+    const analysis = analyzeTiers({ ...input, tax });
+    const pro = analysis.tiers.find(t => t.id === 'pro')!;
+
+    expect(pro.price).toBeCloseTo(40);
+    expect(pro.margin).toBeCloseTo(75);
+    expect(analysis.blendedMRR).toBeCloseTo(800);
+  });
+
+  it('should leave prices that exclude sales tax as entered', () => {
+    const analysis = analyzeTiers({ ...input, tax: { rate: 0.25, label: 'VAT', inclusive: false } });
+    expect(analysis.tiers[1].price).toBe(50);
+  });
+
+  it('should apply the utilization rate', () => {
+    const analysis = analyzeTiers({ ...input, utilizationRate: 0.5 });
+    expect(analysis.tiers[1].cogs).toBeCloseTo(5);
+  });
+});
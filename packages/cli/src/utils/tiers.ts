@@ -0,0 +1,120 @@
+/**
+ * Tier margin analysis for project files
+ */
+
+import {
+  calculateSeatTierEconomics,
+  calculateGrossMargin,
+  calculateTotalFixedCosts,
+  getTierMarginHealth,
+  getTierPricesExcludingTax,
+  type MarginHealth,
+  type ProjectFile,
+  type ProjectTier,
+} from '@basedpricer/core';
+
+export interface TierAnalysisRow {
+  id: string;
+  name: string;
+  /** Expected revenue per customer, including seats, net of sales tax */
+  price: number;
+  /** Average seats per customer, or null for tiers without seat pricing */
+  seats: number | null;
+  customers: number;
+  cogs: number;
+  profit: number;
+  margin: number;
+  health: MarginHealth;
+  mrr: number;
+}
+
+export interface TierAnalysis {
+  tiers: TierAnalysisRow[];
+  customerCount: number;
+  utilizationRate: number;
+  blendedMRR: number;
+  variableCostsTotal: number;
+  fixedCostsTotal: number;
+  blendedGrossMargin: number;
+}
+
+export type TierAnalysisInput = Pick<
+  ProjectFile,
+  | 'tiers'
+  | 'features'
+  | 'variableCosts'
+  | 'fixedCosts'
+  | 'tierDistribution'
+  | 'customerCount'
+  | 'utilizationRate'
+  | 'tax'
+>;
+
+/**
+ * Split customers across tiers using the distribution percentages.
+ * Counts are rounded per tier, as in the web pricing calculator.
+ * An empty distribution spreads customers evenly.
+ */
+export function distributeCustomers(
+  tiers: ProjectTier[],
+  tierDistribution: Record<string, number>,
+  customerCount: number
+): Record<string, number> {
+  const total = tiers.reduce((sum, tier) => sum + (tierDistribution[tier.id] ?? 0), 0);
+  const counts: Record<string, number> = {};
+
+  for (const tier of tiers) {
+    const share = total > 0 ? (tierDistribution[tier.id] ?? 0) / total : 1 / tiers.length;
+    counts[tier.id] = Math.round(share * customerCount);
+  }
+
+  return counts;
+}
+
+/**
+ * Calculate per-tier COGS, margins and blended MRR for a project.
+ * Seat-priced tiers are valued at their average seats per customer,
+ * and prices that include sales tax are counted net of it, as in reports.
+ */
+export function analyzeTiers(input: TierAnalysisInput): TierAnalysis {
+  const counts = distributeCustomers(input.tiers, input.tierDistribution, input.customerCount);
+
+  const tiers = input.tiers.map((tier): TierAnalysisRow => {
+    const economics = calculateSeatTierEconomics(
+      getTierPricesExcludingTax(tier, input.tax),
+      input.variableCosts,
+      input.utilizationRate,
+      input.features
+    );
+    const price = economics.revenuePerCustomer;
+    const cogs = economics.cogsPerCustomer;
+    const margin = economics.margin;
+    const customers = counts[tier.id];
+
+    return {
+      id: tier.id,
+      name: tier.name,
+      price,
+      seats: tier.seatPricing ? economics.seats : null,
+      customers,
+      cogs,
+      profit: price - cogs,
+      margin,
+      health: getTierMarginHealth(margin),
+      mrr: price * customers,
+    };
+  });
+
+  const blendedMRR = tiers.reduce((sum, row) => sum + row.mrr, 0);
+  const variableCostsTotal = tiers.reduce((sum, row) => sum + row.cogs * row.customers, 0);
+
+  return {
+    tiers,
+    customerCount: input.customerCount,
+    utilizationRate: input.utilizationRate,
+    blendedMRR,
+    variableCostsTotal,
+    fixedCostsTotal: calculateTotalFixedCosts(input.fixedCosts),
+    blendedGrossMargin: calculateGrossMargin(blendedMRR, variableCostsTotal),
+  };
+}
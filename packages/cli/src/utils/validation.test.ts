@@ -8,7 +8,10 @@ import {
   parsePositiveNumber,
   validateCurrencyCode,
   validateOutputFormat,
+  validateExportFormat,
   parseCostsJson,
+  parseProjectJson,
+  validateCostItems,
   VALID_CURRENCY_CODES,
 } from './validation.js';
 
@@ -120,6 +123,19 @@ describe('validateCurrencyCode', () => {
   });
 });
 
+describe('validateExportFormat', () => {
+  it('should accept xlsx and csv', () => {
+    expect(validateExportFormat('xlsx')).toBe('xlsx');
+    expect(validateExportFormat('csv')).toBe('csv');
+  });
+
+  it('should throw for other formats', () => {
+    expect(() => validateExportFormat('xls')).toThrow(
+      'Invalid export format: "xls". Valid formats: xlsx, csv'
+    );
+  });
+});
+
 describe('validateOutputFormat', () => {
   it('should accept valid output formats', () => {
     expect(validateOutputFormat('table')).toBe('table');
@@ -200,3 +216,53 @@ describe('parseCostsJson', () => {
     expect(result.fixedCosts).toEqual([]);
   });
 });
+
+describe('validateCostItems', () => {
+  it('should keep valid items and report invalid ones', () => {
+    const result = validateCostItems({
+      variableCosts: [
+        { id: 'api', name: 'API', unit: 'call', costPerUnit: 0.01, usagePerCustomer: 10, description: '' },
+        { id: 'bad', name: 'Bad' },
+      ],
+      fixedCosts: [{ id: 'hosting', name: 'Hosting', monthlyCost: 50, description: '' }],
+    });
+
+    expect(result.variableCosts).toHaveLength(1);
+    expect(result.fixedCosts).toHaveLength(1);
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings[0]).toContain('variableCosts[1]');
+  });
+});
+
+describe('parseProjectJson', () => {
+  const tier = { id: 'pro', name: 'Pro', monthlyPrice: 50, limits: [{ featureId: 'sso', limit: true }] };
+
+  it('should parse a project and apply defaults', () => {
+    const result = parseProjectJson(JSON.stringify({ schemaVersion: 2, name: 'Acme', tiers: [tier] }), 'basedpricer.json');
+
+    expect(result.tiers).toHaveLength(1);
+    expect(result.customerCount).toBe(100);
+    expect(result.utilizationRate).toBe(1);
+    expect(result.tierDistribution).toEqual({});
+    expect(result.variableCosts).toEqual([]);
+  });
+
+  it('should throw for invalid JSON syntax', () => {
+    expect(() => parseProjectJson('{invalid}', 'basedpricer.json')).toThrow(
+      'Invalid project in basedpricer.json: Invalid JSON'
+    );
+  });
+
+  it('should throw for files without a schema version', () => {
+    expect(() => parseProjectJson('{}', 'basedpricer.json')).toThrow(
+      'Invalid project in basedpricer.json: Missing schemaVersion'
+    );
+  });
+
+  it('should include the failing path in errors', () => {
+    const json = JSON.stringify({ schemaVersion: 2, name: 'Acme', tiers: [{ ...tier, monthlyPrice: -1 }] });
+    expect(() => parseProjectJson(json, 'basedpricer.json')).toThrow(
+      'tiers.0.monthlyPrice: Monthly price must be non-negative'
+    );
+  });
+});
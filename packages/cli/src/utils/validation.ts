@@ -3,12 +3,22 @@
  */
 
 import { z } from 'zod';
-import { CURRENCIES, type CurrencyCode } from '@basedpricer/core';
+import {
+  CURRENCY_CODES,
+  validateVariableCostItem,
+  validateFixedCostItem,
+  parseProjectFile,
+  type CurrencyCode,
+  type ProjectFile,
+  type StakeholderType,
+  type VariableCostItem,
+  type FixedCostItem,
+} from '@basedpricer/core';
 
 /**
  * Valid currency codes
  */
-export const VALID_CURRENCY_CODES = Object.keys(CURRENCIES) as CurrencyCode[];
+export const VALID_CURRENCY_CODES: CurrencyCode[] = CURRENCY_CODES;
 
 /**
  * Zod schema for currency code validation
@@ -21,6 +31,17 @@ export const CurrencyCodeSchema = z.enum(VALID_CURRENCY_CODES as [CurrencyCode,
 export const OutputFormatSchema = z.enum(['table', 'json', 'markdown']);
 export type OutputFormat = z.infer<typeof OutputFormatSchema>;
 
+/**
+ * Zod schema for spreadsheet export format validation
+ */
+export const ExportFormatSchema = z.enum(['xlsx', 'csv']);
+export type ExportFormat = z.infer<typeof ExportFormatSchema>;
+
+/**
+ * Zod schema for report stakeholder validation
+ */
+export const StakeholderSchema = z.enum(['accountant', 'investor', 'engineer', 'marketer']);
+
 /**
  * Zod schema for positive integer (e.g., customer count)
  */
@@ -96,6 +117,44 @@ export function validateCurrencyCode(code: string): CurrencyCode {
   return result.data;
 }
 
+/**
+ * Parse a string to a non-negative number with validation
+ * @param value - String value to parse
+ * @param fieldName - Name of the field for error messages
+ * @returns Parsed number
+ * @throws Error if validation fails
+ */
+export function parseNonNegativeNumber(value: string, fieldName: string): number {
+  const num = parseFloat(value);
+
+  if (isNaN(num)) {
+    throw new Error(`${fieldName} must be a valid number, got: "${value}"`);
+  }
+
+  const result = NonNegativeNumberSchema.safeParse(num);
+  if (!result.success) {
+    throw new Error(`${fieldName} must be zero or more, got: ${num}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Validate and return a report stakeholder
+ * @param stakeholder - Stakeholder to validate
+ * @returns Valid stakeholder
+ * @throws Error if invalid
+ */
+export function validateStakeholder(stakeholder: string): StakeholderType {
+  const result = StakeholderSchema.safeParse(stakeholder);
+  if (!result.success) {
+    throw new Error(
+      `Invalid stakeholder: "${stakeholder}". Valid stakeholders: ${StakeholderSchema.options.join(', ')}`
+    );
+  }
+  return result.data;
+}
+
 /**
  * Validate and return an output format
  * @param format - Output format to validate
@@ -112,6 +171,22 @@ export function validateOutputFormat(format: string): OutputFormat {
   return result.data;
 }
 
+/**
+ * Validate and return a spreadsheet export format
+ * @param format - Export format to validate
+ * @returns Valid export format
+ * @throws Error if invalid
+ */
+export function validateExportFormat(format: string): ExportFormat {
+  const result = ExportFormatSchema.safeParse(format);
+  if (!result.success) {
+    throw new Error(
+      `Invalid export format: "${format}". Valid formats: ${ExportFormatSchema.options.join(', ')}`
+    );
+  }
+  return result.data;
+}
+
 /**
  * Result of parsing a costs JSON file
  */
@@ -148,3 +223,62 @@ export function parseCostsJson(content: string, filename: string): ParsedCostsFi
     fixedCosts: Array.isArray(obj.fixedCosts) ? obj.fixedCosts : [],
   };
 }
+
+/**
+ * Result of validating raw cost items
+ */
+export interface ValidatedCostItems {
+  variableCosts: VariableCostItem[];
+  fixedCosts: FixedCostItem[];
+  warnings: string[];
+}
+
+/**
+ * Validate raw cost items, keeping valid ones and collecting warnings for the rest
+ * @param parsed - Raw cost arrays from a JSON file
+ * @returns Valid cost items and a warning per invalid item
+ */
+export function validateCostItems(parsed: ParsedCostsFile): ValidatedCostItems {
+  const variableCosts: VariableCostItem[] = [];
+  const fixedCosts: FixedCostItem[] = [];
+  const warnings: string[] = [];
+
+  parsed.variableCosts.forEach((cost, i) => {
+    const result = validateVariableCostItem(cost);
+    if (result.success) {
+      variableCosts.push(result.data);
+    } else {
+      warnings.push(`variableCosts[${i}]: ${result.error}`);
+    }
+  });
+
+  parsed.fixedCosts.forEach((cost, i) => {
+    const result = validateFixedCostItem(cost);
+    if (result.success) {
+      fixedCosts.push(result.data);
+    } else {
+      warnings.push(`fixedCosts[${i}]: ${result.error}`);
+    }
+  });
+
+  return { variableCosts, fixedCosts, warnings };
+}
+
+// ============================================================================
+// Project File
+// ============================================================================
+
+/**
+ * Parse a JSON string as a basedpricer.json project file
+ * @param content - JSON string content
+ * @param filename - Filename for error messages
+ * @returns Validated project with defaults applied
+ * @throws Error with the first validation failure
+ */
+export function parseProjectJson(content: string, filename: string): ProjectFile {
+  const result = parseProjectFile(content);
+  if (!result.success) {
+    throw new Error(`Invalid project in ${filename}: ${result.error}`);
+  }
+  return result.data;
+}
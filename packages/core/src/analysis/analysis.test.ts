@@ -0,0 +1,258 @@
+/**
+ * Codebase Analysis Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { selectAnalysisFiles, createCodebaseSnapshot, MAX_ANALYSIS_SOURCE_FILES } from './files';
+import { extractCostsFromDependencies } from './dependency-costs';
+import { quickAnalyzeFromPackageJson } from './quick-analyze';
+import { ANALYSIS_SYSTEM_PROMPT, buildAnalysisPrompt, parseAnalysisResponse } from './prompt';
+import { analyzeCodebase } from './analyzer';
+import { mapToFeatureCategory, createProjectFromAnalysis } from './project';
+import { PROJECT_SCHEMA_VERSION } from '../data';
+import type { AnalysisTreeItem, ChatClient, ChatMessage, ChatOptions } from '../types';
+
+// ============================================================================
+// File Selection Tests
+// ============================================================================
+
+describe('selectAnalysisFiles', () => {
+  const tree: AnalysisTreeItem[] = [
+    { path: 'src/utils/format.ts', type: 'blob', size: 100 },
+    { path: 'src/api/users.ts', type: 'blob', size: 100 },
+    { path: 'src/index.ts', type: 'blob', size: 100 },
+    { path: 'src/index.test.ts', type: 'blob', size: 100 },
+    { path: 'src/types.d.ts', type: 'blob', size: 100 },
+    { path: 'src/huge.ts', type: 'blob', size: 200000 },
+    { path: 'README.md', type: 'blob', size: 100 },
+    { path: 'readme.md', type: 'blob', size: 100 },
+    { path: 'package.json', type: 'blob', size: 100 },
+    { path: 'src', type: 'tree' },
+  ];
+
+  it('orders config, one README, then prioritized sources', () => {
+    expect(selectAnalysisFiles(tree)).toEqual([
+      'package.json',
+      'README.md',
+      'src/index.ts',
+      'src/api/users.ts',
+      'src/utils/format.ts',
+    ]);
+  });
+
+  it('caps the number of source files', () => {
+    const many = Array.from({ length: 80 }, (_, i): AnalysisTreeItem => ({
+      path: `src/file${i}.ts`,
+      type: 'blob',
+      size: 10,
+    }));
+    expect(selectAnalysisFiles(many)).toHaveLength(MAX_ANALYSIS_SOURCE_FILES);
+  });
+});
+
+describe('createCodebaseSnapshot', () => {
+  it('sorts files by kind and parses package.json', () => {
+    const snapshot = createCodebaseSnapshot(
+      { name: 'acme', description: null, language: 'TypeScript' },
+      [
+        { path: 'package.json', content: '{"dependencies":{"openai":"^4"}}', size: 33 },
+        { path: 'README.md', content: '# Acme', size: 6 },
+        { path: 'src/index.ts', content: 'export {}', size: 9 },
+      ]
+    );
+    expect(snapshot.packageJson).toEqual({ dependencies: { openai: '^4' } });
+    expect(snapshot.readme).toBe('# Acme');
+    expect(snapshot.configFiles.map(f => f.path)).toEqual(['package.json']);
+    expect(snapshot.srcFiles.map(f => f.path)).toEqual(['src/index.ts']);
+  });
+
+  it('skips an unparseable package.json', () => {
+    const snapshot = createCodebaseSnapshot(
+      { name: 'acme', description: null, language: null },
+      [{ path: 'package.json', content: '{oops', size: 5 }]
+    );
+    expect(snapshot.packageJson).toBeUndefined();
+  });
+});
+
+// ============================================================================
+// Offline Analysis Tests
+// ============================================================================
+
+describe('extractCostsFromDependencies', () => {
+  it('includes dev dependencies and ignores unknown packages', () => {
+    const costs = extractCostsFromDependencies({ openai: '^4', lodash: '^4' }, { prisma: '^5' });
+    expect(costs.map(c => c.name)).toContain('OpenAI API');
+    expect(costs.some(c => c.name.includes('lodash'))).toBe(false);
+  });
+});
+
+describe('quickAnalyzeFromPackageJson', () => {
+  it('detects the tech stack from dependencies', () => {
+    const result = quickAnalyzeFromPackageJson({
+      dependencies: { next: '^15', '@clerk/nextjs': '^5', mongoose: '^8' },
+      devDependencies: { typescript: '^5' },
+    });
+    expect(result.techStack).toEqual({
+      framework: 'Next.js',
+      language: 'TypeScript',
+      database: 'MongoDB',
+      hosting: undefined,
+      auth: 'Clerk',
+    });
+  });
+
+  it('tolerates missing dependency maps', () => {
+    const result = quickAnalyzeFromPackageJson({ name: 'empty' });
+    expect(result.techStack.framework).toBe('Unknown');
+    expect(result.costSuggestions).toEqual([]);
+  });
+});
+
+// ============================================================================
+// Prompt Tests
+// ============================================================================
+
+describe('buildAnalysisPrompt', () => {
+  it('fills in snapshot details', () => {
+    const prompt = buildAnalysisPrompt({
+      name: 'acme/app',
+      description: 'Invoices for everyone',
+      language: 'TypeScript',
+      srcFiles: [{ path: 'src/index.ts', content: 'export {}', size: 9 }],
+      configFiles: [],
+    });
+    expect(prompt).toContain('Repository: acme/app');
+    expect(prompt).toContain('Description: Invoices for everyone');
+    expect(prompt).toContain('No package.json found');
+    expect(prompt).toContain('--- src/index.ts ---');
+  });
+});
+
+describe('parseAnalysisResponse', () => {
+  it('parses fenced JSON and fills defaults', () => {
+    const result = parseAnalysisResponse(
+      '```json\n{"features":[{"name":"OCR"}],"businessType":{"detected":"ai_ml_saas","confidence":90}}\n```'
+    );
+    expect(result.features[0]).toMatchObject({ id: 'feature-0', name: 'OCR', category: 'Other' });
+    expect(result.businessType.detected).toBe('ai_ml_saas');
+    expect(result.tierModelType).toBe('feature_tiered');
+    expect(result.techStack.framework).toBe('Unknown');
+  });
+
+  it('falls back to generic for unknown business types', () => {
+    const result = parseAnalysisResponse('{"businessType":{"detected":"spaceship"}}');
+    expect(result.businessType.detected).toBe('generic');
+  });
+
+  it('throws on invalid JSON', () => {
+    expect(() => parseAnalysisResponse('not json')).toThrow('Failed to parse AI analysis response');
+  });
+});
+
+// ============================================================================
+// Analyzer Tests
+// ============================================================================
+
+describe('analyzeCodebase', () => {
+  const snapshot = {
+    name: 'acme/app',
+    description: null,
+    language: 'TypeScript',
+    packageJson: { dependencies: { openai: '^4' } },
+    srcFiles: [],
+    configFiles: [],
+  };
+
+  it('sends the analysis prompt and merges dependency costs', async () => {
+    const calls: Array<{ messages: ChatMessage[]; options?: ChatOptions }> = [];
+    const client: ChatClient = {
+      async chat(messages, options) {
+        calls.push({ messages, options });
+        return {
+          content: '{"features":[{"name":"OCR"}],"costSuggestions":[{"name":"ignored"}]}',
+          usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+        };
+      },
+    };
+
+    const result = await analyzeCodebase(snapshot, client, { model: 'test-model' });
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0].messages[0]).toEqual({ role: 'system', content: ANALYSIS_SYSTEM_PROMPT });
+    expect(calls[0].messages[1].content).toContain('Repository: acme/app');
+    expect(calls[0].options).toMatchObject({ model: 'test-model', maxTokens: 4096 });
+    expect(result.features[0].name).toBe('OCR');
+    expect(result.costSuggestions.map(c => c.name)).toEqual(['OpenAI API']);
+    expect(result.tokenUsage?.totalTokens).toBe(15);
+  });
+
+  it('propagates client errors', async () => {
+    const client: ChatClient = {
+      chat: () => Promise.reject(new Error('rate limited')),
+    };
+    await expect(analyzeCodebase(snapshot, client)).rejects.toThrow('rate limited');
+  });
+});
+
+// ============================================================================
+// Project Conversion Tests
+// ============================================================================
+
+describe('mapToFeatureCategory', () => {
+  it('normalizes AI category labels', () => {
+    expect(mapToFeatureCategory('Analytics')).toBe('reporting');
+    expect(mapToFeatureCategory('AI')).toBe('ai_extraction');
+    expect(mapToFeatureCategory('Something else')).toBe('integrations');
+  });
+});
+
+describe('createProjectFromAnalysis', () => {
+  it('creates a project from offline analysis', () => {
+    const project = createProjectFromAnalysis('acme', quickAnalyzeFromPackageJson({
+      dependencies: { openai: '^4' },
+    }));
+    expect(project.schemaVersion).toBe(PROJECT_SCHEMA_VERSION);
+    expect(project.variableCosts[0]).toMatchObject({ name: 'OpenAI API', costPerUnit: 0.03 });
+    expect(project.tiers).toEqual([]);
+    expect(project.businessType).toBeNull();
+  });
+
+  it('converts AI features, tiers and business type', () => {
+    const project = createProjectFromAnalysis('acme', {
+      techStack: { framework: 'Next.js', language: 'TypeScript' },
+      costSuggestions: [],
+      features: [
+        { id: 'ocr', name: 'OCR', description: 'Scan receipts', category: 'AI', costDriver: 'ocr', confidence: 90 },
+      ],
+      suggestedTiers: [
+        { name: 'Pro', price: 10, description: 'For teams', features: ['ocr'], limits: { scans: 100 } },
+      ],
+      businessType: { detected: 'ai_ml_saas', confidence: 80, secondaryTypes: [], signals: [] },
+      tierModelType: 'usage_based',
+    });
+
+    expect(project.features[0]).toMatchObject({ name: 'OCR', category: 'ai_extraction', hasLimit: true });
+    expect(project.tiers[0]).toMatchObject({
+      name: 'Pro',
+      monthlyPrice: 45,
+      annualPrice: 450,
+      limits: [{ featureId: 'scans', limit: 100, unit: 'scans' }],
+    });
+    expect(project.businessType).toBe('ai_ml_saas');
+    expect(project.businessTypeConfidence).toBe(0.8);
+    expect(project.pricingModelType).toBe('usage_based');
+  });
+
+  it('prices suggested tiers in the project currency', () => {
+    const project = createProjectFromAnalysis('acme', {
+      techStack: { framework: 'Next.js', language: 'TypeScript' },
+      costSuggestions: [],
+      suggestedTiers: [{ name: 'Pro', price: 10, description: 'For teams', features: [], limits: {} }],
+      tierModelType: 'feature_tiered',
+    }, 'USD');
+
+    expect(project.currency).toBe('USD');
+    expect(project.tiers[0]).toMatchObject({ monthlyPrice: 10, annualPrice: 100 });
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Codebase Analyzer
+ * Run a codebase snapshot through an AI chat client and merge in dependency costs
+ */
+
+import type { AnalysisResult, ChatClient, CodebaseSnapshot } from '../types';
+import { quickAnalyzeFromPackageJson } from './quick-analyze';
+import { ANALYSIS_SYSTEM_PROMPT, buildAnalysisPrompt, parseAnalysisResponse } from './prompt';
+
+export interface AnalyzeCodebaseOptions {
+  model?: string;
+}
+
+/**
+ * Analyze a codebase using AI.
+ * Cost suggestions come from package.json dependencies, not the model.
+ */
+export async function analyzeCodebase(
+  snapshot: CodebaseSnapshot,
+  client: ChatClient,
+  options: AnalyzeCodebaseOptions = {}
+): Promise<AnalysisResult> {
+  // Extract dependency-based costs first (no AI needed)
+  const { costSuggestions } = quickAnalyzeFromPackageJson(snapshot.packageJson ?? {});
+
+  const response = await client.chat([
+    { role: 'system', content: ANALYSIS_SYSTEM_PROMPT },
+    { role: 'user', content: buildAnalysisPrompt(snapshot) },
+  ], {
+    model: options.model,
+    maxTokens: 4096,
+    temperature: 0.2, // Lower for more consistent structured output
+  });
+
+  return {
+    ...parseAnalysisResponse(response.content),
+    costSuggestions,
+    tokenUsage: response.usage,
+  };
+}
@@ -3,16 +3,7 @@
  * Maps npm packages to their typical cost implications
  */
 
-export interface CostSuggestion {
-  type: 'fixed' | 'variable';
-  name: string;
-  description: string;
-  cost: number;
-  unit: string;
-  category: string;
-  usagePerCustomer?: number; // For variable costs
-  notes?: string;
-}
+import type { CostSuggestion } from '../types';
 
 /**
  * Map of npm package names to their cost implications
@@ -0,0 +1,168 @@
+/**
+ * Analysis File Selection
+ * Pick the files worth sending for codebase analysis
+ */
+
+import type { AnalysisFile, AnalysisTreeItem, CodebaseSnapshot } from '../types';
+
+/**
+ * Files to prioritize for analysis
+ */
+export const ANALYSIS_FILES = {
+  config: [
+    'package.json',
+    'tsconfig.json',
+    'next.config.js',
+    'next.config.mjs',
+    'next.config.ts',
+    'vite.config.ts',
+    'vite.config.js',
+    'nuxt.config.ts',
+    'nuxt.config.js',
+    'wrangler.toml',
+    'Dockerfile',
+    'docker-compose.yml',
+    'docker-compose.yaml',
+  ],
+  docs: [
+    'README.md',
+    'readme.md',
+    'README',
+  ],
+  source: [
+    // Entry points
+    'src/index.ts',
+    'src/index.tsx',
+    'src/main.ts',
+    'src/main.tsx',
+    'src/App.tsx',
+    'src/app.tsx',
+    'app/page.tsx',
+    'app/layout.tsx',
+    'pages/index.tsx',
+    'pages/_app.tsx',
+    // API routes patterns
+    'src/api/',
+    'pages/api/',
+    'app/api/',
+    // Feature directories
+    'src/features/',
+    'src/modules/',
+    'src/components/',
+    'src/services/',
+    'src/lib/',
+  ],
+};
+
+/** Maximum number of source files selected for analysis */
+export const MAX_ANALYSIS_SOURCE_FILES = 50;
+
+/** Source files larger than this are skipped */
+export const MAX_ANALYSIS_FILE_SIZE = 100000;
+
+/**
+ * Check whether a path is a source file worth analyzing
+ */
+export function isAnalyzableSourceFile(path: string): boolean {
+  return (
+    (path.endsWith('.ts') || path.endsWith('.tsx') || path.endsWith('.js') || path.endsWith('.jsx')) &&
+    !path.includes('.test.') &&
+    !path.includes('.spec.') &&
+    !path.includes('__tests__') &&
+    !path.includes('__mocks__') &&
+    !path.includes('node_modules') &&
+    !path.includes('.d.ts') // Skip type declarations
+  );
+}
+
+/**
+ * Rank a source path for feature detection (lower is more important)
+ */
+function sourcePriority(path: string): number {
+  // Highest priority: entry points and layouts
+  if (path.match(/^(app|pages)\/(page|layout|index)\.(ts|tsx|js|jsx)$/)) return 0;
+  if (path.match(/^src\/(App|main|index)\.(ts|tsx|js|jsx)$/)) return 0;
+
+  // High priority: route handlers and API endpoints
+  if (path.includes('/api/')) return 1;
+  if (path.startsWith('app/')) return 2;
+  if (path.startsWith('pages/')) return 2;
+
+  // Medium priority: feature-related directories
+  if (path.includes('/features/')) return 3;
+  if (path.includes('/modules/')) return 3;
+  if (path.includes('/services/')) return 4;
+  if (path.includes('/components/')) return 5;
+  if (path.includes('/lib/')) return 5;
+  if (path.includes('/hooks/')) return 5;
+
+  // Lower priority: other src files
+  if (path.startsWith('src/')) return 6;
+  return 7;
+}
+
+/**
+ * Filter a repository tree to analysis-relevant files, in fetch order:
+ * config files, one README, then prioritized source files
+ */
+export function selectAnalysisFiles(tree: AnalysisTreeItem[]): string[] {
+  const files: string[] = [];
+
+  // Add config files
+  for (const configFile of ANALYSIS_FILES.config) {
+    if (tree.some(item => item.path === configFile)) {
+      files.push(configFile);
+    }
+  }
+
+  // Add doc files
+  for (const docFile of ANALYSIS_FILES.docs) {
+    if (tree.some(item => item.path === docFile)) {
+      files.push(docFile);
+      break; // Only need one README
+    }
+  }
+
+  const sourceFiles = tree
+    .filter(item =>
+      item.type === 'blob' &&
+      isAnalyzableSourceFile(item.path) &&
+      (item.size ?? 0) < MAX_ANALYSIS_FILE_SIZE
+    )
+    .sort((a, b) => sourcePriority(a.path) - sourcePriority(b.path))
+    .slice(0, MAX_ANALYSIS_SOURCE_FILES);
+
+  files.push(...sourceFiles.map(f => f.path));
+
+  return files;
+}
+
+/**
+ * Sort fetched files into a snapshot: package.json, README, config and source files.
+ * An unparseable package.json is left out rather than failing the analysis.
+ */
+export function createCodebaseSnapshot(
+  meta: Pick<CodebaseSnapshot, 'name' | 'description' | 'language'>,
+  files: AnalysisFile[]
+): CodebaseSnapshot {
+  const isReadme = (file: AnalysisFile) => file.path.toLowerCase().startsWith('readme');
+  const isConfig = (file: AnalysisFile) => ANALYSIS_FILES.config.includes(file.path);
+
+  const packageJsonFile = files.find(f => f.path === 'package.json');
+  let packageJson: Record<string, unknown> | undefined;
+  if (packageJsonFile) {
+    try {
+      packageJson = JSON.parse(packageJsonFile.content);
+    } catch {
+      packageJson = undefined;
+    }
+  }
+
+  return {
+    ...meta,
+    packageJson,
+    readme: files.find(isReadme)?.content,
+    srcFiles: files.filter(f => !isConfig(f) && !isReadme(f)),
+    configFiles: files.filter(isConfig),
+  };
+}
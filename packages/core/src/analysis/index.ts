@@ -0,0 +1,45 @@
+/**
+ * Analysis exports
+ * Re-exports codebase analysis helpers
+ */
+
+export {
+  ANALYSIS_FILES,
+  MAX_ANALYSIS_SOURCE_FILES,
+  MAX_ANALYSIS_FILE_SIZE,
+  isAnalyzableSourceFile,
+  selectAnalysisFiles,
+  createCodebaseSnapshot,
+} from './files';
+
+export {
+  DEPENDENCY_COST_MAP,
+  extractCostsFromDependencies,
+  groupSuggestionsByCategory,
+  estimateMonthlyCost,
+} from './dependency-costs';
+
+export { quickAnalyzeFromPackageJson } from './quick-analyze';
+
+export {
+  ANALYSIS_SYSTEM_PROMPT,
+  buildAnalysisPrompt,
+  parseAnalysisResponse,
+} from './prompt';
+
+export { analyzeCodebase } from './analyzer';
+export type { AnalyzeCodebaseOptions } from './analyzer';
+
+export {
+  mapToFeatureCategory,
+  convertAnalysisToProjectData,
+  createProjectFromAnalysis,
+} from './project';
+
+export type {
+  AnalysisFeatureCategory,
+  AnalyzedFeature,
+  AnalyzedTier,
+  AnalysisProjectData,
+  AnalysisProjectInput,
+} from './project';
@@ -0,0 +1,197 @@
+/**
+ * Analysis to Project Conversion
+ * Turn detected features, cost suggestions and suggested tiers into pricing data
+ */
+
+import type {
+  AnalysisResult,
+  CurrencyCode,
+  FixedCostItem,
+  ProjectFeature,
+  ProjectFile,
+  ProjectTier,
+  QuickAnalysisResult,
+  VariableCostItem,
+} from '../types';
+import { generateId, clamp, convertCurrency } from '../utils';
+import { createProjectFile } from '../project';
+import { DEFAULT_CURRENCY } from '../data';
+
+/** AI-suggested tier prices are in USD; MYR projects keep the rate suggestions were tuned with */
+const SUGGESTED_TIER_USD_TO_MYR = 4.5;
+
+/** Annual discount applied to suggested tiers (~2 months free) */
+const SUGGESTED_TIER_ANNUAL_DISCOUNT = 17;
+
+export type AnalysisFeatureCategory =
+  | 'invoicing'
+  | 'document_management'
+  | 'ai_extraction'
+  | 'accounting_ai'
+  | 'email'
+  | 'payments'
+  | 'team'
+  | 'reporting'
+  | 'integrations'
+  | 'support';
+
+export interface AnalyzedFeature extends ProjectFeature {
+  description: string;
+  category: AnalysisFeatureCategory;
+  complexity: 'medium';
+  hasLimit: boolean;
+  valueProposition: string;
+  source: 'codebase';
+}
+
+export interface AnalyzedTier extends ProjectTier {
+  tagline: string;
+  targetAudience: string;
+  annualPrice: number;
+  annualDiscount: number;
+  status: 'active';
+  limits: Array<{ featureId: string; limit: number | 'unlimited'; unit: string }>;
+  includedFeatures: string[];
+  excludedFeatures: string[];
+  highlightFeatures: string[];
+}
+
+export interface AnalysisProjectData {
+  variableCosts: VariableCostItem[];
+  fixedCosts: FixedCostItem[];
+  features: AnalyzedFeature[];
+  tiers: AnalyzedTier[];
+}
+
+/**
+ * Analysis output accepted for conversion. Offline (package.json only)
+ * analysis has no features or tiers.
+ */
+export type AnalysisProjectInput = QuickAnalysisResult & Partial<Omit<AnalysisResult, keyof QuickAnalysisResult>>;
+
+/**
+ * Map AI-detected category strings to a known feature category
+ */
+export function mapToFeatureCategory(category: string): AnalysisFeatureCategory {
+  const categoryMap: Record<string, AnalysisFeatureCategory> = {
+    'invoicing': 'invoicing',
+    'billing': 'invoicing',
+    'document': 'document_management',
+    'document_management': 'document_management',
+    'storage': 'document_management',
+    'ai': 'ai_extraction',
+    'ai_extraction': 'ai_extraction',
+    'extraction': 'ai_extraction',
+    'ocr': 'ai_extraction',
+    'accounting': 'accounting_ai',
+    'accounting_ai': 'accounting_ai',
+    'automation': 'accounting_ai',
+    'email': 'email',
+    'notification': 'email',
+    'payment': 'payments',
+    'payments': 'payments',
+    'team': 'team',
+    'user': 'team',
+    'access': 'team',
+    'reporting': 'reporting',
+    'analytics': 'reporting',
+    'integration': 'integrations',
+    'integrations': 'integrations',
+    'api': 'integrations',
+    'support': 'support',
+  };
+
+  const normalized = category.toLowerCase().replace(/[^a-z_]/g, '');
+  return categoryMap[normalized] || 'integrations'; // Default to integrations for unknown
+}
+
+/**
+ * Convert a suggested USD tier price to the project currency
+ */
+function convertSuggestedPrice(priceUSD: number, currency: CurrencyCode): number {
+  return currency === 'MYR' ? priceUSD * SUGGESTED_TIER_USD_TO_MYR : convertCurrency(priceUSD, 'USD', currency);
+}
+
+/**
+ * Convert analysis output into costs, features and tiers, with tier prices in `currency`
+ */
+export function convertAnalysisToProjectData(
+  analysis: AnalysisProjectInput,
+  currency: CurrencyCode = DEFAULT_CURRENCY
+): AnalysisProjectData {
+  const variableCosts = analysis.costSuggestions
+    .filter(c => c.type === 'variable')
+    .map((c): VariableCostItem => ({
+      id: generateId('var'),
+      name: c.name,
+      unit: c.unit,
+      costPerUnit: c.cost,
+      usagePerCustomer: c.usagePerCustomer ?? 1,
+      description: c.description,
+    }));
+
+  const fixedCosts = analysis.costSuggestions
+    .filter(c => c.type === 'fixed')
+    .map((c): FixedCostItem => ({
+      id: generateId('fix'),
+      name: c.name,
+      monthlyCost: c.cost,
+      description: c.description,
+    }));
+
+  const features = (analysis.features ?? []).map((f): AnalyzedFeature => ({
+    id: generateId('feat'),
+    name: f.name,
+    description: f.description,
+    category: mapToFeatureCategory(f.category),
+    complexity: 'medium',
+    hasLimit: !!f.costDriver,
+    costDriver: f.costDriver,
+    valueProposition: f.description,
+    source: 'codebase',
+  }));
+
+  const tiers = (analysis.suggestedTiers ?? []).map((st): AnalyzedTier => ({
+    id: generateId('tier'),
+    name: st.name,
+    tagline: st.description || `${st.name} tier`,
+    targetAudience: st.description || `Users looking for ${st.name.toLowerCase()} features`,
+    monthlyPrice: Math.round(convertSuggestedPrice(st.price, currency)),
+    annualPrice: Math.round(convertSuggestedPrice(st.price, currency) * 10),
+    annualDiscount: SUGGESTED_TIER_ANNUAL_DISCOUNT,
+    status: 'active',
+    limits: Object.entries(st.limits || {}).map(([key, value]) => ({
+      featureId: key,
+      limit: value,
+      unit: key,
+    })),
+    includedFeatures: st.features || [],
+    excludedFeatures: [],
+    highlightFeatures: (st.features || []).slice(0, 4),
+  }));
+
+  return { variableCosts, fixedCosts, features, tiers };
+}
+
+/**
+ * Create a project file from analysis output
+ */
+export function createProjectFromAnalysis(
+  name: string,
+  analysis: AnalysisProjectInput,
+  currency: CurrencyCode = DEFAULT_CURRENCY
+): ProjectFile {
+  const data = convertAnalysisToProjectData(analysis, currency);
+
+  return createProjectFile({
+    name,
+    currency,
+    ...data,
+    businessType: analysis.businessType?.detected ?? null,
+    // Detection confidence is a percentage; project files store a 0-1 ratio
+    businessTypeConfidence: analysis.businessType
+      ? clamp(analysis.businessType.confidence / 100, 0, 1)
+      : 0,
+    pricingModelType: analysis.tierModelType,
+  });
+}
@@ -0,0 +1,305 @@
+/**
+ * Analysis Prompt
+ * Build the AI analysis prompt and parse its JSON response
+ */
+
+import type {
+  AnalysisNarrative,
+  AnalysisResult,
+  BusinessType,
+  BusinessTypeDetection,
+  CodebaseSnapshot,
+  PricingModelType,
+} from '../types';
+
+/**
+ * System prompt for AI codebase analysis
+ */
+export const ANALYSIS_SYSTEM_PROMPT = `You are an expert SaaS pricing analyst and software architect. Your task is to thoroughly analyze codebases to extract pricing-relevant information.
+
+Key objectives:
+1. **Business Type Classification**: First, classify what type of SaaS this is (API service, marketplace, fintech, AI/ML SaaS, developer tools, B2B SaaS, consumer SaaS, or generic)
+2. **Tech Stack Analysis**: Identify framework, language, database, auth, hosting, and key libraries
+3. **Feature Detection**: Find ALL user-facing features that could be monetized, with confidence scores
+4. **Cost Driver Identification**: Map features to cost drivers (AI/LLM calls, storage, emails, API calls, compute)
+5. **Tier Recommendations**: Suggest logical pricing tiers based on business type and feature complexity
+6. **Narrative Insights**: Provide actionable insights, risks, opportunities, and recommendations
+
+Business Type Definitions:
+- api_service: API-as-a-service, developer APIs, data services (signals: versioned API routes, rate limiting, API docs)
+- marketplace: Two-sided marketplace, e-commerce platform (signals: seller/buyer roles, listings, commissions)
+- fintech: Financial services, banking, payments (signals: KYC/AML, bank connections, compliance)
+- ai_ml_saas: AI-powered applications, ML platforms (signals: LLM APIs, tokens/credits, embeddings)
+- developer_tools: Dev tools, CI/CD, code analysis (signals: GitHub integration, builds, deployments)
+- b2b_saas: Business software, enterprise tools (signals: organizations, workspaces, SSO)
+- consumer_saas: B2C applications, consumer tools (signals: social features, freemium, gamification)
+- generic: Standard SaaS when no clear type detected
+
+Analysis guidelines:
+- Look for route handlers, API endpoints, and service files to identify features
+- Check for AI/LLM integrations (OpenAI, Anthropic, Mistral, etc.)
+- Identify storage services (S3, R2, Supabase Storage, etc.)
+- Look for email services (Resend, SendGrid, Postmark, etc.)
+- Find payment integrations (Stripe, PayPal, etc.)
+- Detect auth patterns (Clerk, Auth.js, Supabase Auth, etc.)
+- Match pricing model to business type (usage-based for API/AI, take-rate for marketplace, etc.)
+
+You must respond with valid JSON only. No markdown, no explanation outside the JSON.`;
+
+const ANALYSIS_USER_PROMPT = `Analyze this codebase and extract pricing-relevant information.
+
+Repository: {repoName}
+Description: {repoDescription}
+Primary Language: {language}
+
+Package.json dependencies:
+{dependencies}
+
+README (excerpt):
+{readme}
+
+Source file samples:
+{sourceFiles}
+
+---
+
+Return a JSON object with this exact structure:
+{
+  "businessType": {
+    "detected": "api_service | marketplace | fintech | ai_ml_saas | developer_tools | b2b_saas | consumer_saas | generic",
+    "confidence": 85,
+    "secondaryTypes": [
+      { "type": "b2b_saas", "confidence": 40 }
+    ],
+    "signals": ["Found OpenAI integration", "Has versioned API routes", "Token usage tracking detected"]
+  },
+  "tierModelType": "usage_based | seat_based | feature_tiered | take_rate | hybrid | freemium",
+  "techStack": {
+    "framework": "string (e.g., Next.js, Remix, Express)",
+    "language": "string (e.g., TypeScript, JavaScript)",
+    "database": "string or null",
+    "hosting": "string or null (e.g., Vercel, AWS)",
+    "auth": "string or null (e.g., Clerk, NextAuth)"
+  },
+  "features": [
+    {
+      "id": "unique-id",
+      "name": "Feature Name",
+      "description": "What this feature does",
+      "category": "Category (Auth, AI, Storage, Analytics, etc.)",
+      "costDriver": "What drives the cost (API calls, storage, etc.) or null",
+      "confidence": 85
+    }
+  ],
+  "suggestedTiers": [
+    {
+      "name": "Free",
+      "price": 0,
+      "description": "For individuals getting started",
+      "features": ["feature-id-1", "feature-id-2"],
+      "limits": { "apiCalls": 100, "storage": 1 }
+    },
+    {
+      "name": "Pro",
+      "price": 29,
+      "description": "For growing teams",
+      "features": ["feature-id-1", "feature-id-2", "feature-id-3"],
+      "limits": { "apiCalls": 10000, "storage": 50 }
+    }
+  ],
+  "narrative": {
+    "summary": "2-3 sentence summary tailored to the detected business type",
+    "keyRisks": ["Risk 1", "Risk 2"],
+    "keyOpportunities": ["Opportunity 1", "Opportunity 2"],
+    "pricingRecommendation": "Specific pricing strategy recommendation based on business type",
+    "whatMatters": ["Key metric 1 for this business type", "Key metric 2"]
+  },
+  "summary": "Brief 2-3 sentence summary of what this product does",
+  "confidence": {
+    "overall": 75,
+    "features": 80,
+    "costs": 70,
+    "tiers": 65
+  }
+}
+
+Be thorough but focus on features that affect pricing. Confidence scores should reflect certainty (0-100).
+Match tierModelType to businessType: usage_based for API/AI, take_rate for marketplace, hybrid for fintech, etc.`;
+
+/**
+ * Build the analysis user prompt from a codebase snapshot
+ */
+export function buildAnalysisPrompt(snapshot: CodebaseSnapshot): string {
+  const dependencies = snapshot.packageJson
+    ? JSON.stringify({
+        dependencies: (snapshot.packageJson as Record<string, unknown>).dependencies ?? {},
+        devDependencies: (snapshot.packageJson as Record<string, unknown>).devDependencies ?? {},
+      }, null, 2)
+    : 'No package.json found';
+
+  // Increased README limit from 3000 to 5000 chars
+  const readme = snapshot.readme
+    ? snapshot.readme.slice(0, 5000)
+    : 'No README found';
+
+  // Increased from 10 to 20 files, and from 2000 to 4000 chars per file
+  const sourceFiles = snapshot.srcFiles
+    .slice(0, 20)
+    .map(f => `--- ${f.path} ---\n${f.content.slice(0, 4000)}`)
+    .join('\n\n');
+
+  // Include config files for better context
+  const configFiles = snapshot.configFiles
+    .slice(0, 5)
+    .map(f => `--- ${f.path} ---\n${f.content.slice(0, 2000)}`)
+    .join('\n\n');
+
+  return ANALYSIS_USER_PROMPT
+    .replace('{repoName}', snapshot.name)
+    .replace('{repoDescription}', snapshot.description ?? 'No description')
+    .replace('{language}', snapshot.language ?? 'Unknown')
+    .replace('{dependencies}', dependencies)
+    .replace('{readme}', readme)
+    .replace('{sourceFiles}', `${sourceFiles}\n\n--- Config Files ---\n${configFiles}`);
+}
+
+/**
+ * Parse an AI analysis response into a structured result.
+ * Missing or malformed fields fall back to safe defaults.
+ */
+export function parseAnalysisResponse(
+  content: string
+): Omit<AnalysisResult, 'costSuggestions' | 'tokenUsage'> {
+  // Try to extract JSON from the response
+  let jsonStr = content.trim();
+
+  // Handle markdown code blocks
+  if (jsonStr.startsWith('```')) {
+    const match = jsonStr.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+    if (match) {
+      jsonStr = match[1];
+    }
+  }
+
+  try {
+    const parsed = JSON.parse(jsonStr);
+
+    // Validate and safely extract features array
+    const rawFeatures = Array.isArray(parsed.features) ? parsed.features : [];
+    const features = rawFeatures.map((f: unknown, i: number) => {
+      const feature = (typeof f === 'object' && f !== null) ? f as Record<string, unknown> : {};
+      return {
+        id: typeof feature.id === 'string' ? feature.id : `feature-${i}`,
+        name: typeof feature.name === 'string' ? feature.name : 'Unknown Feature',
+        description: typeof feature.description === 'string' ? feature.description : '',
+        category: typeof feature.category === 'string' ? feature.category : 'Other',
+        costDriver: typeof feature.costDriver === 'string' ? feature.costDriver : undefined,
+        confidence: typeof feature.confidence === 'number' ? feature.confidence : 50,
+      };
+    });
+
+    // Validate and safely extract suggested tiers array
+    const suggestedTiers = Array.isArray(parsed.suggestedTiers) ? parsed.suggestedTiers : [];
+
+    // Validate tech stack object
+    const rawTechStack = (typeof parsed.techStack === 'object' && parsed.techStack !== null)
+      ? parsed.techStack
+      : {};
+
+    // Validate business type detection
+    const rawBusinessType = (typeof parsed.businessType === 'object' && parsed.businessType !== null)
+      ? parsed.businessType as Record<string, unknown>
+      : {};
+
+    const businessType: BusinessTypeDetection = {
+      detected: isValidBusinessType(rawBusinessType.detected) ? rawBusinessType.detected as BusinessType : 'generic',
+      confidence: typeof rawBusinessType.confidence === 'number' ? rawBusinessType.confidence : 50,
+      secondaryTypes: Array.isArray(rawBusinessType.secondaryTypes)
+        ? rawBusinessType.secondaryTypes
+            .filter((t: unknown) => typeof t === 'object' && t !== null)
+            .map((t: unknown) => {
+              const typed = t as Record<string, unknown>;
+              return {
+                type: isValidBusinessType(typed.type) ? typed.type as BusinessType : 'generic',
+                confidence: typeof typed.confidence === 'number' ? typed.confidence : 0,
+              };
+            })
+        : [],
+      signals: Array.isArray(rawBusinessType.signals)
+        ? rawBusinessType.signals.filter((s: unknown) => typeof s === 'string') as string[]
+        : [],
+    };
+
+    // Validate narrative
+    const rawNarrative = (typeof parsed.narrative === 'object' && parsed.narrative !== null)
+      ? parsed.narrative as Record<string, unknown>
+      : {};
+
+    const narrative: AnalysisNarrative = {
+      summary: typeof rawNarrative.summary === 'string' ? rawNarrative.summary : parsed.summary ?? '',
+      keyRisks: Array.isArray(rawNarrative.keyRisks)
+        ? rawNarrative.keyRisks.filter((r: unknown) => typeof r === 'string') as string[]
+        : [],
+      keyOpportunities: Array.isArray(rawNarrative.keyOpportunities)
+        ? rawNarrative.keyOpportunities.filter((o: unknown) => typeof o === 'string') as string[]
+        : [],
+      pricingRecommendation: typeof rawNarrative.pricingRecommendation === 'string'
+        ? rawNarrative.pricingRecommendation
+        : 'Consider feature-tiered pricing based on your target market.',
+      whatMatters: Array.isArray(rawNarrative.whatMatters)
+        ? rawNarrative.whatMatters.filter((m: unknown) => typeof m === 'string') as string[]
+        : [],
+    };
+
+    // Validate tier model type
+    const tierModelType = isValidPricingModelType(parsed.tierModelType)
+      ? parsed.tierModelType as PricingModelType
+      : 'feature_tiered';
+
+    return {
+      techStack: {
+        framework: typeof rawTechStack.framework === 'string' ? rawTechStack.framework : 'Unknown',
+        language: typeof rawTechStack.language === 'string' ? rawTechStack.language : 'Unknown',
+        database: typeof rawTechStack.database === 'string' ? rawTechStack.database : undefined,
+        hosting: typeof rawTechStack.hosting === 'string' ? rawTechStack.hosting : undefined,
+        auth: typeof rawTechStack.auth === 'string' ? rawTechStack.auth : undefined,
+      },
+      features,
+      suggestedTiers,
+      summary: typeof parsed.summary === 'string' ? parsed.summary : 'Analysis complete.',
+      confidence: {
+        overall: typeof parsed.confidence?.overall === 'number' ? parsed.confidence.overall : 50,
+        features: typeof parsed.confidence?.features === 'number' ? parsed.confidence.features : 50,
+        costs: typeof parsed.confidence?.costs === 'number' ? parsed.confidence.costs : 50,
+        tiers: typeof parsed.confidence?.tiers === 'number' ? parsed.confidence.tiers : 50,
+      },
+      businessType,
+      narrative,
+      tierModelType,
+    };
+  } catch (e) {
+    const reason = e instanceof Error ? e.message : 'Unknown parse error';
+    throw new Error(`Failed to parse AI analysis response: ${reason}`);
+  }
+}
+
+/**
+ * Type guard for BusinessType
+ */
+function isValidBusinessType(value: unknown): value is BusinessType {
+  const validTypes: BusinessType[] = [
+    'api_service', 'marketplace', 'fintech', 'ai_ml_saas',
+    'developer_tools', 'b2b_saas', 'consumer_saas', 'generic'
+  ];
+  return typeof value === 'string' && validTypes.includes(value as BusinessType);
+}
+
+/**
+ * Type guard for PricingModelType
+ */
+function isValidPricingModelType(value: unknown): value is PricingModelType {
+  const validTypes: PricingModelType[] = [
+    'usage_based', 'seat_based', 'feature_tiered', 'take_rate', 'hybrid', 'freemium'
+  ];
+  return typeof value === 'string' && validTypes.includes(value as PricingModelType);
+}
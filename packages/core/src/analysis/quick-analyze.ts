@@ -0,0 +1,73 @@
+/**
+ * Quick Analysis
+ * Offline tech stack and cost detection from package.json
+ */
+
+import type { QuickAnalysisResult } from '../types';
+import { extractCostsFromDependencies } from './dependency-costs';
+
+/**
+ * Quick analysis using just package.json (no AI needed)
+ */
+export function quickAnalyzeFromPackageJson(
+  packageJson: Record<string, unknown>
+): QuickAnalysisResult {
+  // Safely extract dependencies with type validation
+  const deps = (typeof packageJson.dependencies === 'object' && packageJson.dependencies !== null)
+    ? packageJson.dependencies as Record<string, string>
+    : {};
+  const devDeps = (typeof packageJson.devDependencies === 'object' && packageJson.devDependencies !== null)
+    ? packageJson.devDependencies as Record<string, string>
+    : {};
+
+  // Detect framework
+  let framework = 'Unknown';
+  if (deps['next']) framework = 'Next.js';
+  else if (deps['remix']) framework = 'Remix';
+  else if (deps['@remix-run/react']) framework = 'Remix';
+  else if (deps['nuxt']) framework = 'Nuxt';
+  else if (deps['vue']) framework = 'Vue';
+  else if (deps['@angular/core']) framework = 'Angular';
+  else if (deps['react']) framework = 'React';
+  else if (deps['express']) framework = 'Express';
+  else if (deps['fastify']) framework = 'Fastify';
+  else if (deps['hono']) framework = 'Hono';
+
+  // Detect language
+  let language = 'JavaScript';
+  if (devDeps['typescript'] || deps['typescript']) language = 'TypeScript';
+
+  // Detect database
+  let database: string | undefined;
+  if (deps['@prisma/client'] || devDeps['prisma']) database = 'SQL (Prisma)';
+  else if (deps['mongoose']) database = 'MongoDB';
+  else if (deps['@supabase/supabase-js']) database = 'Supabase (Postgres)';
+  else if (deps['drizzle-orm']) database = 'SQL (Drizzle)';
+  else if (deps['@planetscale/database']) database = 'PlanetScale';
+  else if (deps['firebase'] || deps['firebase-admin']) database = 'Firebase';
+
+  // Detect auth
+  let auth: string | undefined;
+  if (deps['@clerk/nextjs'] || deps['@clerk/clerk-react']) auth = 'Clerk';
+  else if (deps['next-auth'] || deps['@auth/core']) auth = 'NextAuth/Auth.js';
+  else if (deps['@kinde-oss/kinde-auth-nextjs']) auth = 'Kinde';
+  else if (deps['@auth0/nextjs-auth0']) auth = 'Auth0';
+  else if (deps['@supabase/supabase-js']) auth = auth ?? 'Supabase Auth';
+
+  // Detect hosting hints
+  let hosting: string | undefined;
+  if (deps['@vercel/edge'] || deps['@vercel/analytics']) hosting = 'Vercel';
+  else if (deps['wrangler'] || devDeps['wrangler']) hosting = 'Cloudflare';
+
+  return {
+    techStack: {
+      framework,
+      language,
+      database,
+      hosting,
+      auth,
+    },
+    costSuggestions: extractCostsFromDependencies(deps, devDeps),
+  };
+}
+
@@ -0,0 +1,113 @@
+/**
+ * Actuals Calculator Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateActualsVariance, suggestUsageCalibration } from './actuals';
+import type { ActualsPlanInput, MonthlyActuals } from '../types';
+
+// ============================================================================
+// Test Data
+// ============================================================================
+
+const plan: ActualsPlanInput = {
+  variableCosts: [
+    { id: 'ai-tokens', name: 'AI tokens', unit: '1K tokens', costPerUnit: 0.01, usagePerCustomer: 100, description: '' },
+    { id: 'storage', name: 'Storage', unit: 'GB', costPerUnit: 0.1, usagePerCustomer: 2, description: '' },
+  ],
+  fixedCosts: [{ id: 'hosting', name: 'Hosting', monthlyCost: 100, description: '' }],
+  tiers: [
+    { id: 'basic', name: 'Basic', monthlyPrice: 10, limits: [{ featureId: 'ai', limit: 100, variableCostId: 'ai-tokens' }] },
+    { id: 'pro', name: 'Pro', monthlyPrice: 30, limits: [{ featureId: 'ai', limit: 500, variableCostId: 'ai-tokens' }] },
+  ],
+  features: [],
+  customerCount: 100,
+  selectedPrice: 20,
+  utilizationRate: 1,
+  tierDistribution: { basic: 60, pro: 40 },
+};
+
+const january: MonthlyActuals = {
+  month: '2026-01',
+  customersByTier: { basic: 50, pro: 50 },
+  mrr: 1900,
+  costs: { 'ai-tokens': 150, hosting: 120 },
+};
+
+// ============================================================================
+// Variance Tests
+// ============================================================================
+
+describe('calculateActualsVariance', () => {
+  it('compares MRR against the plan at the actual customer mix', () => {
+    const result = calculateActualsVariance(plan, january);
+
+    expect(result.plannedCustomers).toBe(100);
+    expect(result.actualCustomers).toBe(100);
+    expect(result.plannedMRR).toBe(1800);
+    expect(result.expectedMRR).toBe(2000);
+    expect(result.mrrVariance).toBe(-100);
+  });
+
+  it('flexes variable costs and reports variance per cost item', () => {
+    const result = calculateActualsVariance(plan, { ...january, customersByTier: { basic: 100, pro: 50 } });
+    const [tokens, storage, hosting] = result.costs;
+
+    expect(tokens).toMatchObject({ planned: 100, expected: 150, actual: 150, variance: 0, variancePercent: 0 });
+    expect(tokens.impliedUsagePerCustomer).toBeCloseTo(100);
+    expect(storage).toMatchObject({ actual: null, variance: null, variancePercent: null, impliedUsagePerCustomer: null });
+    expect(storage.expected).toBeCloseTo(30);
+    expect(hosting).toMatchObject({ costType: 'fixed', expected: 100, variance: 20, variancePercent: 20 });
+    expect(hosting.impliedUsagePerCustomer).toBeNull();
+  });
+
+  it('uses recorded spend for actual COGS and falls back to expected', () => {
+    const result = calculateActualsVariance(plan, january);
+
+    expect(result.expectedCOGS).toBeCloseTo(220);
+    expect(result.actualCOGS).toBeCloseTo(290);
+    expect(result.cogsVariance).toBeCloseTo(70);
+  });
+
+  it('recomputes tier margins from actual unit costs and revenue', () => {
+    const [basic, pro] = calculateActualsVariance(plan, january).tiers;
+
+    expect(basic).toMatchObject({ tierId: 'basic', plannedCustomers: 60, actualCustomers: 50 });
+    expect(basic.plannedMargin).toBeCloseTo(90);
+    // 1.5x token spend and 95% of expected MRR: (9.5 - 1.5) / 9.5
+    expect(basic.actualMargin).toBeCloseTo(84.21, 2);
+    expect(pro.actualMargin).toBeCloseTo(73.68, 2);
+    expect(pro.marginVariance).toBeCloseTo(73.68 - 83.33, 1);
+  });
+
+  it('falls back to the selected price without a tier mix', () => {
+    const result = calculateActualsVariance(
+      { ...plan, tierDistribution: {} },
+      { month: '2026-01', customersByTier: { basic: 80 }, mrr: 1500, costs: {} }
+    );
+
+    expect(result.plannedMRR).toBe(2000);
+    expect(result.expectedMRR).toBe(1600);
+    expect(result.cogsVariance).toBe(0);
+  });
+});
+
+// ============================================================================
+// Recalibration Tests
+// ============================================================================
+
+describe('suggestUsageCalibration', () => {
+  it('averages implied usage over months with recorded spend', () => {
+    const february: MonthlyActuals = { ...january, month: '2026-02', costs: { 'ai-tokens': 90 } };
+    const [tokens, ...rest] = suggestUsageCalibration(plan, [january, february]);
+
+    expect(rest).toEqual([]);
+    expect(tokens).toMatchObject({ variableCostId: 'ai-tokens', currentUsagePerCustomer: 100, months: 2 });
+    expect(tokens.suggestedUsagePerCustomer).toBeCloseTo(120);
+    expect(tokens.changePercent).toBeCloseTo(20);
+  });
+
+  it('returns nothing without actuals', () => {
+    expect(suggestUsageCalibration(plan, [])).toEqual([]);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Actuals Calculator
+ * Compare recorded monthly results against the plan and recalibrate usage assumptions
+ */
+
+import type {
+  ActualsPlanInput,
+  ActualsVariance,
+  CostVariance,
+  MonthlyActuals,
+  TierMarginVariance,
+  UsageCalibration,
+} from '../types';
+import { calculateSeatPrice, calculateSeatTierEconomics } from './seat-pricing';
+import { calculateGrossMargin } from './margin';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function getPlannedTierCustomers(plan: ActualsPlanInput, tierId: string): number {
+  return (plan.customerCount * (plan.tierDistribution[tierId] ?? 0)) / 100;
+}
+
+/**
+ * Whether revenue is modelled per tier (tiers with a customer mix) or from the single selected price
+ */
+function hasTierRevenue(plan: ActualsPlanInput): boolean {
+  return sum(plan.tiers.map(tier => plan.tierDistribution[tier.id] ?? 0)) > 0;
+}
+
+// ============================================================================
+// Cost Variance
+// ============================================================================
+
+function calculateCostVariances(
+  plan: ActualsPlanInput,
+  actuals: MonthlyActuals,
+  actualCustomers: number
+): CostVariance[] {
+  const compare = (
+    item: { id: string; name: string },
+    costType: CostVariance['costType'],
+    planned: number,
+    expected: number,
+    unitCost: number
+  ): CostVariance => {
+    const actual = actuals.costs[item.id] ?? null;
+    const variance = actual === null ? null : actual - expected;
+    return {
+      id: item.id,
+      name: item.name,
+      costType,
+      planned,
+      expected,
+      actual,
+      variance,
+      variancePercent: variance !== null && expected > 0 ? (variance / expected) * 100 : null,
+      impliedUsagePerCustomer:
+        actual !== null && unitCost > 0 && actualCustomers > 0 ? actual / (unitCost * actualCustomers) : null,
+    };
+  };
+
+  return [
+    ...plan.variableCosts.map(item => {
+      const costPerCustomer = item.costPerUnit * item.usagePerCustomer;
+      return compare(
+        item,
+        'variable',
+        costPerCustomer * plan.customerCount,
+        costPerCustomer * actualCustomers,
+        item.costPerUnit
+      );
+    }),
+    ...plan.fixedCosts.map(item => compare(item, 'fixed', item.monthlyCost, item.monthlyCost, 0)),
+  ];
+}
+
+// ============================================================================
+// Plan vs. Actuals
+// ============================================================================
+
+/**
+ * Compare one month of actuals against the plan.
+ *
+ * Variable costs are flexed to the actual customer count, so variance reflects
+ * usage and unit cost rather than growth. Actual tier margins apply each cost
+ * item's actual/expected spend ratio to its unit cost, and the actual/expected
+ * MRR ratio to tier prices.
+ */
+export function calculateActualsVariance(plan: ActualsPlanInput, actuals: MonthlyActuals): ActualsVariance {
+  const actualCustomers = sum(Object.values(actuals.customersByTier));
+  const tierRevenue = hasTierRevenue(plan);
+
+  const plannedMRR = tierRevenue
+    ? sum(plan.tiers.map(tier => getPlannedTierCustomers(plan, tier.id) * calculateSeatPrice(tier)))
+    : plan.selectedPrice * plan.customerCount;
+  const expectedMRR = tierRevenue
+    ? sum(plan.tiers.map(tier => (actuals.customersByTier[tier.id] ?? 0) * calculateSeatPrice(tier)))
+    : plan.selectedPrice * actualCustomers;
+
+  const costs = calculateCostVariances(plan, actuals, actualCustomers);
+  const expectedCOGS = sum(costs.map(line => line.expected));
+  const actualCOGS = sum(costs.map(line => line.actual ?? line.expected));
+
+  // Scale unit costs by how far actual spend landed from expected
+  const costRatios = new Map(
+    costs
+      .filter(line => line.actual !== null && line.expected > 0)
+      .map(line => [line.id, (line.actual as number) / line.expected])
+  );
+  const actualVariableCosts = plan.variableCosts.map(item => ({
+    ...item,
+    costPerUnit: item.costPerUnit * (costRatios.get(item.id) ?? 1),
+  }));
+  const revenueRatio = expectedMRR > 0 ? actuals.mrr / expectedMRR : 1;
+
+  const tiers: TierMarginVariance[] = plan.tiers.map(tier => {
+    const planned = calculateSeatTierEconomics(tier, plan.variableCosts, plan.utilizationRate, plan.features);
+    const actual = calculateSeatTierEconomics(tier, actualVariableCosts, plan.utilizationRate, plan.features);
+    const actualMargin = calculateGrossMargin(planned.revenuePerCustomer * revenueRatio, actual.cogsPerCustomer);
+
+    return {
+      tierId: tier.id,
+      name: tier.name,
+      plannedCustomers: getPlannedTierCustomers(plan, tier.id),
+      actualCustomers: actuals.customersByTier[tier.id] ?? 0,
+      plannedMargin: planned.margin,
+      actualMargin,
+      marginVariance: actualMargin - planned.margin,
+    };
+  });
+
+  return {
+    month: actuals.month,
+    plannedCustomers: plan.customerCount,
+    actualCustomers,
+    plannedMRR,
+    expectedMRR,
+    actualMRR: actuals.mrr,
+    mrrVariance: actuals.mrr - expectedMRR,
+    plannedCOGS: sum(costs.map(line => line.planned)),
+    expectedCOGS,
+    actualCOGS,
+    cogsVariance: actualCOGS - expectedCOGS,
+    costs,
+    tiers,
+  };
+}
+
+// ============================================================================
+// Recalibration
+// ============================================================================
+
+/**
+ * Suggest `usagePerCustomer` values for variable costs from recorded spend,
+ * averaging the usage each month implies. Costs without recorded spend are omitted.
+ */
+export function suggestUsageCalibration(
+  plan: ActualsPlanInput,
+  history: MonthlyActuals[]
+): UsageCalibration[] {
+  const implied = new Map<string, number[]>();
+  for (const actuals of history) {
+    for (const line of calculateActualsVariance(plan, actuals).costs) {
+      if (line.impliedUsagePerCustomer === null) continue;
+      implied.set(line.id, [...(implied.get(line.id) ?? []), line.impliedUsagePerCustomer]);
+    }
+  }
+
+  return plan.variableCosts.flatMap(item => {
+    const usages = implied.get(item.id);
+    if (!usages) return [];
+
+    const suggested = sum(usages) / usages.length;
+    return [{
+      variableCostId: item.id,
+      name: item.name,
+      unit: item.unit,
+      currentUsagePerCustomer: item.usagePerCustomer,
+      suggestedUsagePerCustomer: suggested,
+      changePercent: item.usagePerCustomer > 0 ? ((suggested - item.usagePerCustomer) / item.usagePerCustomer) * 100 : 0,
+      months: usages.length,
+    }];
+  });
+}
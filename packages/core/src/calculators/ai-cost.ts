@@ -3,9 +3,9 @@
  * Utilities for estimating and calculating AI/LLM API costs
  */
 
-import type { AIProvider } from '../types';
+import type { AIProviderId } from '../types';
+import { getProviderModelPricing } from '../providers';
 import {
-  getPricingForModel,
   DEFAULT_USD_TO_MYR_RATE,
   AI_ESTIMATION,
   ANALYSIS_COMPLEXITY_THRESHOLDS,
@@ -31,7 +31,7 @@ export interface AICostBreakdown {
   totalCostMYR: number;    // MYR
   inputTokens: number;
   outputTokens: number;
-  provider: AIProvider;
+  provider: AIProviderId;
   modelName: string;
 }
 
@@ -40,12 +40,12 @@ export interface CostEstimate {
   estimatedCostMYR: number;
   estimatedTokens: number;
   confidence: 'low' | 'medium' | 'high';
-  provider: AIProvider;
+  provider: AIProviderId;
   modelName: string;
 }
 
 export interface ProviderComparison {
-  provider: AIProvider;
+  provider: AIProviderId;
   modelName: string;
   displayName: string;
   estimatedCostUSD: number;
@@ -62,14 +62,14 @@ export interface ProviderComparison {
  */
 export function calculateTokenCost(
   usage: TokenUsage,
-  provider: AIProvider,
+  provider: AIProviderId,
   model?: string,
   exchangeRate: number = DEFAULT_USD_TO_MYR_RATE
 ): AICostBreakdown {
   const promptTokens = Math.max(0, usage.promptTokens ?? 0);
   const completionTokens = Math.max(0, usage.completionTokens ?? 0);
 
-  const pricing = getPricingForModel(provider, model);
+  const pricing = getProviderModelPricing(provider, model);
 
   if (!pricing) {
     return {
@@ -107,11 +107,11 @@ export function calculateTokenCost(
 export function calculateCostForTokens(
   inputTokens: number,
   outputTokens: number,
-  provider: AIProvider,
+  provider: AIProviderId,
   model?: string,
   exchangeRate: number = DEFAULT_USD_TO_MYR_RATE
 ): { costUSD: number; costMYR: number } {
-  const pricing = getPricingForModel(provider, model);
+  const pricing = getProviderModelPricing(provider, model);
 
   if (!pricing) {
     return { costUSD: 0, costMYR: 0 };
@@ -137,11 +137,11 @@ export function calculateCostForTokens(
 export function estimateAnalysisCost(
   fileCount: number,
   totalChars: number,
-  provider: AIProvider,
+  provider: AIProviderId,
   model?: string,
   exchangeRate: number = DEFAULT_USD_TO_MYR_RATE
 ): CostEstimate {
-  const pricing = getPricingForModel(provider, model);
+  const pricing = getProviderModelPricing(provider, model);
 
   if (!pricing) {
     return {
@@ -211,12 +211,12 @@ export function estimateTokensFromChars(charCount: number): number {
 export function compareProviderCosts(
   estimatedInputTokens: number,
   estimatedOutputTokens: number,
-  selectedProvider: AIProvider,
-  providers: AIProvider[] = ['openai', 'anthropic', 'groq', 'minimax'],
+  selectedProvider: AIProviderId,
+  providers: AIProviderId[] = ['openai', 'anthropic', 'groq', 'minimax'],
   exchangeRate: number = DEFAULT_USD_TO_MYR_RATE
 ): ProviderComparison[] {
   return providers.map((provider) => {
-    const pricing = getPricingForModel(provider);
+    const pricing = getProviderModelPricing(provider);
 
     if (!pricing) {
       return {
@@ -302,7 +302,7 @@ export function calculateMonthlyAICostPerCustomer(
   avgInputTokensPerRequest: number,
   avgOutputTokensPerRequest: number,
   requestsPerCustomerPerMonth: number,
-  provider: AIProvider,
+  provider: AIProviderId,
   model?: string,
   exchangeRate: number = DEFAULT_USD_TO_MYR_RATE
 ): { costUSD: number; costMYR: number } {
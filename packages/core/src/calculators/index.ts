@@ -41,6 +41,69 @@ export {
   isMarginAcceptable,
 } from './margin';
 
+// Tier COGS Calculator
+export {
+  resolveLimitCost,
+  getLimitUsage,
+  calculateTierCOGS,
+  groupTierCOGSByCostItem,
+} from './tier-cogs';
+
+// Usage-Based Pricing Calculator
+export {
+  getOveragePrice,
+  calculateOverage,
+  calculateUsageBasedRevenue,
+  calculateUsageBasedRevenueByTier,
+} from './usage-pricing';
+
+export type { UsagePricedTier } from './usage-pricing';
+
+// Seat-Based Pricing Calculator
+export {
+  getUsedSeats,
+  getBilledSeats,
+  calculateSeatPrice,
+  scaleLimitsForSeats,
+  calculateSeatTierEconomics,
+} from './seat-pricing';
+
+export type { SeatPricedTier } from './seat-pricing';
+
+// Revenue Projection Calculator
+export { calculateRevenueProjection } from './projection';
+
+// Monte Carlo Simulator
+export {
+  sampleDistribution,
+  calculatePercentile,
+  summarizeSamples,
+  simulateMonteCarlo,
+} from './monte-carlo';
+
+// Sensitivity Calculator
+export { calculateTornadoSensitivity } from './sensitivity';
+
+// Price Solver
+export { roundToCharmPrice, solveTierPrices } from './price-solver';
+
+// Scenario Calculator
+export { calculateScenarioMetrics } from './scenarios';
+
+// Sales Tax Calculator
+export {
+  getPriceExcludingTax,
+  getPriceIncludingTax,
+  getTaxAmount,
+  getTierPricesExcludingTax,
+} from './tax';
+
+// Price Book Calculator
+export { roundMarketPrice, calculateMarketPricing } from './price-books';
+
+// Actuals Calculator
+export { calculateActualsVariance, suggestUsageCalibration } from './actuals';
+
 // Investor Metrics Calculator
 export {
   calculateValuation,
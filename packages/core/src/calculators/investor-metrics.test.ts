@@ -198,6 +198,7 @@ describe('calculateMilestones', () => {
     // First milestone: 100K ARR
     // Customers needed: 100000 / (50 * 12) = 166.67 -> 167
     expect(result[0].label).toBe('MYR 100K ARR');
+    expect(calculateMilestones(50, 100, 0.1, 'USD')[0].label).toBe('USD 100K ARR');
     expect(result[0].targetARR).toBe(100000);
     expect(result[0].customersNeeded).toBe(167);
     expect(result[0].monthsToReach).toBeGreaterThan(0);
@@ -3,8 +3,9 @@
  * Calculations for SaaS valuation, LTV, CAC, and growth milestones
  */
 
-import type { ValuationProjection, MilestoneTarget, InvestorMetrics } from '../types';
+import type { ValuationProjection, MilestoneTarget, InvestorMetrics, CurrencyCode } from '../types';
 import {
+  DEFAULT_CURRENCY,
   VALUATION_MULTIPLES,
   LTV_CAC_THRESHOLDS,
   PAYBACK_PERIOD_THRESHOLDS,
@@ -124,18 +125,19 @@ export function getPaybackHealth(months: number | null): 'healthy' | 'acceptable
 // ============================================================================
 
 /**
- * Calculate customers needed for specific ARR milestones
+ * Calculate customers needed for specific ARR milestones, in the project currency
  */
 export function calculateMilestones(
   arpu: number,
   currentPaidCustomers: number,
-  monthlyGrowthRate: number
+  monthlyGrowthRate: number,
+  currency: CurrencyCode = DEFAULT_CURRENCY
 ): MilestoneTarget[] {
   const milestones = [
-    { label: 'MYR 100K ARR', targetARR: 100000 },
-    { label: 'MYR 500K ARR', targetARR: 500000 },
-    { label: 'MYR 1M ARR', targetARR: 1000000 },
-    { label: 'MYR 5M ARR', targetARR: 5000000 },
+    { label: `${currency} 100K ARR`, targetARR: 100000 },
+    { label: `${currency} 500K ARR`, targetARR: 500000 },
+    { label: `${currency} 1M ARR`, targetARR: 1000000 },
+    { label: `${currency} 5M ARR`, targetARR: 5000000 },
   ];
 
   return milestones.map(({ label, targetARR }) => {
@@ -214,6 +216,8 @@ export function calculateInvestorMetrics(params: {
   monthlyGrowthRate: number;
   ltv: number;
   estimatedCac?: number;
+  /** Currency milestone labels are in; defaults to DEFAULT_CURRENCY */
+  currency?: CurrencyCode;
 }): InvestorMetrics {
   const {
     mrr,
@@ -224,11 +228,12 @@ export function calculateInvestorMetrics(params: {
     monthlyGrowthRate,
     ltv,
     estimatedCac = 0,
+    currency = DEFAULT_CURRENCY,
   } = params;
 
   const arr = mrr * MONTHS_PER_YEAR;
   const valuation = calculateValuation(arr);
-  const milestones = calculateMilestones(arpu, paidCustomers, monthlyGrowthRate);
+  const milestones = calculateMilestones(arpu, paidCustomers, monthlyGrowthRate, currency);
   const customersToBreakEven = Math.max(0, breakEvenCustomers - paidCustomers);
   const monthsToBreakEven = calculateBreakEvenTimeline(
     paidCustomers,
@@ -263,7 +268,7 @@ export function calculateInvestorMetrics(params: {
 /**
  * Format currency for display (compact notation)
  */
-export function formatCurrencyCompact(value: number, currency: string = 'MYR'): string {
+export function formatCurrencyCompact(value: number, currency: string = DEFAULT_CURRENCY): string {
   if (value >= 1000000) {
     return `${currency} ${(value / 1000000).toFixed(1)}M`;
   }
@@ -276,6 +281,6 @@ export function formatCurrencyCompact(value: number, currency: string = 'MYR'):
 /**
  * Format valuation range for display
  */
-export function formatValuationRange(valuation: ValuationProjection): string {
-  return `${formatCurrencyCompact(valuation.valuationLow)} - ${formatCurrencyCompact(valuation.valuationHigh)}`;
+export function formatValuationRange(valuation: ValuationProjection, currency: string = DEFAULT_CURRENCY): string {
+  return `${formatCurrencyCompact(valuation.valuationLow, currency)} - ${formatCurrencyCompact(valuation.valuationHigh, currency)}`;
 }
@@ -211,6 +211,20 @@ describe('calculateMarginBreakdown', () => {
     expect(result.grossMarginHealth).toBe('healthy');
     expect(result.profit).toBe(70);
   });
+
+  it('calculates margin on the price net of inclusive tax', () => {
+    const result = calculateMarginBreakdown({
+      price: 125,
+      variableCostPerCustomer: 20,
+      fixedCostPerCustomer: 10,
+      tax: { rate: 0.25, inclusive: true, label: 'VAT' },
+    });
+
+    expect(result.netPrice).toBe(100);
+    expect(result.taxAmount).toBe(25);
+    expect(result.grossMargin).toBe(70);
+    expect(result.profit).toBe(70);
+  });
 });
 
 // ============================================================================
@@ -3,8 +3,9 @@
  * Core calculations for gross margin, operating margin, and margin health status
  */
 
-import type { MarginStatus, MarginHealth, MarginInfo } from '../types';
+import type { MarginStatus, MarginHealth, MarginInfo, TaxSettings } from '../types';
 import { MARGIN_THRESHOLDS, OPERATING_MARGIN_THRESHOLDS } from '../data';
+import { getPriceExcludingTax, getTaxAmount } from './tax';
 
 // ============================================================================
 // Margin Calculations
@@ -112,28 +113,35 @@ export function getMarginInfo(price: number, cogs: number): MarginInfo {
 }
 
 /**
- * Calculate margin info with full breakdown
+ * Calculate margin info with full breakdown.
+ * With sales tax, margin and profit are on the price net of tax.
  */
 export function calculateMarginBreakdown(params: {
   price: number;
   variableCostPerCustomer: number;
   fixedCostPerCustomer: number;
+  tax?: TaxSettings | null;
 }): {
   grossMargin: number;
   grossMarginHealth: MarginHealth;
   profit: number;
   cogs: number;
+  netPrice: number;
+  taxAmount: number;
 } {
-  const { price, variableCostPerCustomer, fixedCostPerCustomer } = params;
+  const { price, variableCostPerCustomer, fixedCostPerCustomer, tax } = params;
   const cogs = variableCostPerCustomer + fixedCostPerCustomer;
-  const grossMargin = calculateGrossMargin(price, cogs);
-  const profit = calculateProfit(price, cogs);
+  const netPrice = getPriceExcludingTax(price, tax);
+  const grossMargin = calculateGrossMargin(netPrice, cogs);
+  const profit = calculateProfit(netPrice, cogs);
 
   return {
     grossMargin,
     grossMarginHealth: getMarginHealth(grossMargin),
     profit,
     cogs,
+    netPrice,
+    taxAmount: getTaxAmount(price, tax),
   };
 }
 
@@ -0,0 +1,134 @@
+/**
+ * Monte Carlo Simulator Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  sampleDistribution,
+  calculatePercentile,
+  summarizeSamples,
+  simulateMonteCarlo,
+} from './monte-carlo';
+import type { FixedCostItem, VariableCostItem } from '../types';
+
+// ============================================================================
+// Test Data
+// ============================================================================
+
+const variableCosts: VariableCostItem[] = [
+  {
+    id: 'ai-tokens',
+    name: 'AI tokens',
+    unit: '1K tokens',
+    costPerUnit: 0.01,
+    usagePerCustomer: 100,
+    description: '',
+    distributions: { usagePerCustomer: { type: 'triangular', min: 50, likely: 100, max: 300 } },
+  },
+];
+
+const fixedCosts: FixedCostItem[] = [
+  { id: 'hosting', name: 'Hosting', monthlyCost: 100, description: '' },
+];
+
+// ============================================================================
+// Sampling Tests
+// ============================================================================
+
+describe('sampleDistribution', () => {
+  it('keeps triangular samples within the range', () => {
+    const samples = Array.from({ length: 500 }, () =>
+      sampleDistribution({ type: 'triangular', min: 5, likely: 8, max: 20 })
+    );
+    expect(Math.min(...samples)).toBeGreaterThanOrEqual(5);
+    expect(Math.max(...samples)).toBeLessThanOrEqual(20);
+  });
+
+  it('maps the random draw through the triangular inverse CDF', () => {
+    const triangle = { type: 'triangular', min: 0, likely: 5, max: 10 } as const;
+    expect(sampleDistribution(triangle, () => 0)).toBe(0);
+    expect(sampleDistribution(triangle, () => 0.5)).toBe(5);
+    expect(sampleDistribution({ type: 'triangular', min: 3, likely: 3, max: 3 }, () => 0.7)).toBe(3);
+  });
+
+  it('floors normal samples at zero', () => {
+    const value = sampleDistribution({ type: 'normal', mean: 1, stdDev: 100 }, () => 0.999);
+    expect(value).toBeGreaterThanOrEqual(0);
+  });
+});
+
+// ============================================================================
+// Statistics Tests
+// ============================================================================
+
+describe('calculatePercentile', () => {
+  it('interpolates between sorted values', () => {
+    expect(calculatePercentile([1, 2, 3, 4, 5], 50)).toBe(3);
+    expect(calculatePercentile([0, 10], 10)).toBe(1);
+    expect(calculatePercentile([], 50)).toBe(0);
+  });
+});
+
+describe('summarizeSamples', () => {
+  it('builds an equal-width histogram covering every sample', () => {
+    const summary = summarizeSamples([0, 1, 2, 3, 4, 5, 6, 7, 8, 10], 5);
+    expect(summary.histogram.map(bin => bin.count)).toEqual([2, 2, 2, 2, 2]);
+    expect(summary.histogram[4]).toMatchObject({ from: 8, to: 10 });
+    expect(summary.mean).toBe(4.6);
+  });
+
+  it('uses a single bin when all samples are equal', () => {
+    expect(summarizeSamples([4, 4, 4]).histogram).toEqual([{ from: 4, to: 4, count: 3 }]);
+  });
+});
+
+// ============================================================================
+// Simulation Tests
+// ============================================================================
+
+describe('simulateMonteCarlo', () => {
+  const params = { variableCosts, fixedCosts, customerCount: 100, price: 10, iterations: 4000 };
+
+  it('returns point estimates when no input is uncertain', () => {
+    const result = simulateMonteCarlo({ ...params, variableCosts: [{ ...variableCosts[0], distributions: undefined }] });
+
+    expect(result.cogsPerCustomer).toMatchObject({ p10: 2, p50: 2, p90: 2 });
+    expect(result.grossMargin.p50).toBe(80);
+    expect(result.breakEvenCustomers?.p50).toBe(12);
+    expect(result.breakEvenUnreachableRate).toBe(0);
+  });
+
+  it('spreads results according to input distributions', () => {
+    const result = simulateMonteCarlo(params);
+    const { cogsPerCustomer, grossMargin } = result;
+
+    // Variable cost ranges from 0.50 to 3.00 plus 1.00 fixed per customer
+    expect(cogsPerCustomer.min).toBeGreaterThanOrEqual(1.5);
+    expect(cogsPerCustomer.max).toBeLessThanOrEqual(4);
+    expect(cogsPerCustomer.p10).toBeLessThan(cogsPerCustomer.p50);
+    expect(cogsPerCustomer.p50).toBeLessThan(cogsPerCustomer.p90);
+    // Triangular mean is (50 + 100 + 300) / 3 = 150 units
+    expect(cogsPerCustomer.mean).toBeCloseTo(2.5, 1);
+    expect(grossMargin.p90).toBeGreaterThan(grossMargin.p10);
+    expect(cogsPerCustomer.histogram.reduce((sum, bin) => sum + bin.count, 0)).toBe(4000);
+  });
+
+  it('is reproducible for a seed', () => {
+    expect(simulateMonteCarlo({ ...params, seed: 7 })).toEqual(simulateMonteCarlo({ ...params, seed: 7 }));
+    expect(simulateMonteCarlo({ ...params, seed: 7 }).cogsPerCustomer.mean)
+      .not.toBe(simulateMonteCarlo({ ...params, seed: 8 }).cogsPerCustomer.mean);
+  });
+
+  it('reports how often break-even is unreachable', () => {
+    const result = simulateMonteCarlo({ ...params, price: 2 });
+
+    // Price covers variable cost only while usage stays under 200 units
+    expect(result.breakEvenUnreachableRate).toBeGreaterThan(0.1);
+    expect(result.breakEvenUnreachableRate).toBeLessThan(0.5);
+    expect(simulateMonteCarlo({ ...params, price: 0 }).breakEvenCustomers).toBeNull();
+  });
+
+  it('caps the number of iterations', () => {
+    expect(simulateMonteCarlo({ ...params, iterations: 1e9 }).iterations).toBe(20000);
+  });
+});
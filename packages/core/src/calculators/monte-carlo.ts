@@ -0,0 +1,165 @@
+/**
+ * Monte Carlo Simulator
+ * Sample uncertain cost and usage inputs to get percentile ranges for COGS,
+ * gross margin and break-even customers
+ */
+
+import type {
+  CostDistribution,
+  MonteCarloParams,
+  MonteCarloResult,
+  SimulationSummary,
+} from '../types';
+import { calculateBreakEvenCustomers } from './cogs';
+import { calculateGrossMargin } from './margin';
+
+const DEFAULT_ITERATIONS = 2000;
+const MAX_ITERATIONS = 20000;
+const DEFAULT_BINS = 20;
+
+// ============================================================================
+// Sampling
+// ============================================================================
+
+/**
+ * Seeded pseudo-random generator (mulberry32) returning values in [0, 1)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Draw one value from a distribution. Costs can't be negative, so samples are floored at 0.
+ */
+export function sampleDistribution(
+  distribution: CostDistribution,
+  random: () => number = Math.random
+): number {
+  if (distribution.type === 'normal') {
+    // Box-Muller transform; 1 - random() keeps the logarithm finite
+    const radius = Math.sqrt(-2 * Math.log(1 - random()));
+    const value = distribution.mean + distribution.stdDev * radius * Math.cos(2 * Math.PI * random());
+    return Math.max(0, value);
+  }
+
+  const { min, likely, max } = distribution;
+  if (max <= min) return Math.max(0, min);
+
+  // Inverse CDF of the triangular distribution
+  const u = random();
+  const split = (likely - min) / (max - min);
+  const value = u < split
+    ? min + Math.sqrt(u * (max - min) * (likely - min))
+    : max - Math.sqrt((1 - u) * (max - min) * (max - likely));
+  return Math.max(0, value);
+}
+
+// ============================================================================
+// Statistics
+// ============================================================================
+
+/**
+ * Percentile (0-100) of sorted values, interpolating between neighbours
+ */
+export function calculatePercentile(sorted: number[], percentile: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = (Math.min(100, Math.max(0, percentile)) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Summarize samples as P10/P50/P90, mean, range and an equal-width histogram
+ */
+export function summarizeSamples(samples: number[], bins: number = DEFAULT_BINS): SimulationSummary {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const min = sorted[0] ?? 0;
+  const max = sorted[sorted.length - 1] ?? 0;
+  const binCount = Math.max(1, Math.floor(bins));
+  const width = (max - min) / binCount;
+
+  const histogram = width > 0
+    ? Array.from({ length: binCount }, (_, i) => ({ from: min + i * width, to: min + (i + 1) * width, count: 0 }))
+    : [{ from: min, to: max, count: 0 }];
+  for (const value of sorted) {
+    const index = width > 0 ? Math.min(binCount - 1, Math.floor((value - min) / width)) : 0;
+    histogram[index].count++;
+  }
+
+  return {
+    p10: calculatePercentile(sorted, 10),
+    p50: calculatePercentile(sorted, 50),
+    p90: calculatePercentile(sorted, 90),
+    mean: sorted.length > 0 ? sorted.reduce((sum, value) => sum + value, 0) / sorted.length : 0,
+    min,
+    max,
+    histogram,
+  };
+}
+
+// ============================================================================
+// Simulation
+// ============================================================================
+
+/**
+ * Simulate COGS per customer, gross margin and break-even customers by sampling
+ * every cost input that carries a distribution (others use their point estimate).
+ * Results are deterministic for a given seed.
+ */
+export function simulateMonteCarlo(params: MonteCarloParams): MonteCarloResult {
+  const {
+    variableCosts,
+    fixedCosts,
+    customerCount,
+    price,
+    utilizationRate = 1,
+    seed = 1,
+    bins = DEFAULT_BINS,
+  } = params;
+  const iterations = Math.min(MAX_ITERATIONS, Math.max(1, Math.floor(params.iterations ?? DEFAULT_ITERATIONS)));
+  const random = createRandom(seed);
+  const sample = (distribution: CostDistribution | undefined, estimate: number) =>
+    distribution ? sampleDistribution(distribution, random) : estimate;
+
+  const cogsSamples: number[] = [];
+  const marginSamples: number[] = [];
+  const breakEvenSamples: number[] = [];
+
+  for (let i = 0; i < iterations; i++) {
+    const variablePerCustomer = variableCosts.reduce(
+      (sum, item) =>
+        sum +
+        sample(item.distributions?.costPerUnit, item.costPerUnit) *
+          sample(item.distributions?.usagePerCustomer, item.usagePerCustomer) *
+          utilizationRate,
+      0
+    );
+    const fixedTotal = fixedCosts.reduce(
+      (sum, item) => sum + sample(item.distributions?.monthlyCost, item.monthlyCost),
+      0
+    );
+
+    const cogs = variablePerCustomer + fixedTotal / Math.max(1, customerCount);
+    cogsSamples.push(cogs);
+    marginSamples.push(calculateGrossMargin(price, cogs));
+
+    const breakEven = calculateBreakEvenCustomers(fixedTotal, price, variablePerCustomer);
+    if (Number.isFinite(breakEven)) breakEvenSamples.push(breakEven);
+  }
+
+  return {
+    iterations,
+    cogsPerCustomer: summarizeSamples(cogsSamples, bins),
+    grossMargin: summarizeSamples(marginSamples, bins),
+    breakEvenCustomers: breakEvenSamples.length > 0 ? summarizeSamples(breakEvenSamples, bins) : null,
+    breakEvenUnreachableRate: (iterations - breakEvenSamples.length) / iterations,
+  };
+}
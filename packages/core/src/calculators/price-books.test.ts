@@ -0,0 +1,125 @@
+/**
+ * Price Book Calculator Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { roundMarketPrice, calculateMarketPricing } from './price-books';
+import type { MarketPricingInput } from '../types';
+
+// ============================================================================
+// Test Data
+// ============================================================================
+
+// COGS per customer in MYR: free 2, pro 10
+const input: MarketPricingInput = {
+  book: { currency: 'USD', rounding: 'ninety_nine', purchasingPower: 1, overrides: {} },
+  baseCurrency: 'MYR',
+  tiers: [
+    { id: 'free', name: 'Free', monthlyPrice: 0, limits: [{ featureId: 'ai', limit: 20, variableCostId: 'ai-tokens' }] },
+    {
+      id: 'pro',
+      name: 'Pro',
+      monthlyPrice: 100,
+      annualPrice: 1000,
+      limits: [{ featureId: 'ai', limit: 100, variableCostId: 'ai-tokens' }],
+    },
+  ],
+  features: [],
+  variableCosts: [
+    { id: 'ai-tokens', name: 'AI tokens', unit: '1K tokens', costPerUnit: 0.1, usagePerCustomer: 100, description: '' },
+  ],
+  utilizationRate: 1,
+  rate: 0.25,
+};
+
+// ============================================================================
+// Rounding Tests
+// ============================================================================
+
+describe('roundMarketPrice', () => {
+  it('rounds to the nearest .99', () => {
+    expect(roundMarketPrice(5.5, 'ninety_nine')).toBe(5.99);
+    expect(roundMarketPrice(5.06, 'ninety_nine')).toBe(4.99);
+    expect(roundMarketPrice(0.3, 'ninety_nine')).toBe(0.99);
+  });
+
+  it('rounds to whole units, multiples of 5 or cents', () => {
+    expect(roundMarketPrice(5.5, 'whole')).toBe(6);
+    expect(roundMarketPrice(23, 'nearest_five')).toBe(25);
+    expect(roundMarketPrice(2, 'nearest_five')).toBe(5);
+    expect(roundMarketPrice(5.556, 'exact')).toBe(5.56);
+  });
+
+  it('keeps free prices free', () => {
+    expect(roundMarketPrice(0, 'ninety_nine')).toBe(0);
+    expect(roundMarketPrice(0, 'nearest_five')).toBe(0);
+  });
+});
+
+// ============================================================================
+// Market Pricing Tests
+// ============================================================================
+
+describe('calculateMarketPricing', () => {
+  it('derives rounded local prices and margins from the project currency', () => {
+    const result = calculateMarketPricing(input);
+    const pro = result.tiers[1];
+
+    expect(result.currency).toBe('USD');
+    expect(pro).toMatchObject({ basePrice: 100, derivedPrice: 25, price: 24.99, annualPrice: 249.99, source: 'derived' });
+    // Costs convert at the same rate: 10 MYR → 2.5 USD
+    expect(pro.cogsPerCustomer).toBeCloseTo(2.5);
+    expect(pro.margin).toBeCloseTo(90, 0);
+    expect(result.tiers[0]).toMatchObject({ price: 0, marginHealth: null });
+    expect(result.lowMarginTierIds).toEqual([]);
+  });
+
+  it('applies purchasing power before rounding', () => {
+    const result = calculateMarketPricing({ ...input, book: { ...input.book, purchasingPower: 0.5 } });
+
+    expect(result.tiers[1]).toMatchObject({ derivedPrice: 12.5, price: 12.99 });
+  });
+
+  it('uses overrides as entered and flags thin margins', () => {
+    const result = calculateMarketPricing({ ...input, book: { ...input.book, overrides: { pro: 5 } } });
+
+    expect(result.tiers[1]).toMatchObject({ price: 5, source: 'override', marginHealth: 'acceptable' });
+    expect(result.lowMarginTierIds).toEqual(['pro']);
+  });
+
+  it('calculates margins on revenue net of inclusive tax', () => {
+    const result = calculateMarketPricing({
+      ...input,
+      book: { ...input.book, overrides: { pro: 30 }, tax: { rate: 0.2, inclusive: true, label: 'VAT' } },
+    });
+
+    // 30 incl. 20% VAT is 25 net, against 2.5 of costs
+    expect(result.tiers[1]).toMatchObject({ price: 30, revenuePerCustomer: 25 });
+    expect(result.tiers[1].margin).toBeCloseTo(90);
+  });
+
+  it('derives seat prices for seat-priced tiers', () => {
+    const result = calculateMarketPricing({
+      ...input,
+      tiers: [{ ...input.tiers[1], seatPricing: { pricePerSeat: 20, averageSeats: 3 } }],
+    });
+
+    expect(result.tiers[0].pricePerSeat).toBe(4.99);
+    expect(result.tiers[0].revenuePerCustomer).toBeCloseTo(24.99 + 3 * 4.99);
+  });
+
+  it('derives overage prices rounded to cents or whole units', () => {
+    const tiers = [{ ...input.tiers[1], limits: [{ featureId: 'ai', limit: 100, overagePrice: 0.5 }] }];
+
+    expect(calculateMarketPricing({ ...input, tiers }).tiers[0].overagePrices).toEqual({ ai: 0.13 });
+    expect(
+      calculateMarketPricing({ ...input, tiers, book: { ...input.book, currency: 'JPY', rounding: 'whole' }, rate: 33 })
+        .tiers[0].overagePrices
+    ).toEqual({ ai: 17 });
+    expect(calculateMarketPricing(input).tiers[1].overagePrices).toEqual({});
+  });
+
+  it('rejects non-positive rates', () => {
+    expect(() => calculateMarketPricing({ ...input, rate: 0 })).toThrow('Exchange rate must be a positive number');
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Price Book Calculator
+ * Local market prices derived from the project currency, with rounding,
+ * purchasing-power adjustments and a margin check per market
+ */
+
+import type {
+  MarketPricing,
+  MarketPricingInput,
+  MarketTierPrice,
+  PriceRounding,
+} from '../types';
+import { convertCurrency } from '../utils';
+import { calculateSeatTierEconomics } from './seat-pricing';
+import { getMarginHealth } from './margin';
+import { getTierPricesExcludingTax } from './tax';
+
+// ============================================================================
+// Rounding
+// ============================================================================
+
+function roundToCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Round a market price. Free stays free; paid prices never round down to zero.
+ */
+export function roundMarketPrice(amount: number, rounding: PriceRounding): number {
+  if (amount <= 0) return 0;
+  switch (rounding) {
+    case 'ninety_nine':
+      return roundToCents(Math.max(1, Math.round(amount)) - 0.01);
+    case 'whole':
+      return Math.max(1, Math.round(amount));
+    case 'nearest_five':
+      return Math.max(5, Math.round(amount / 5) * 5);
+    case 'exact':
+      return roundToCents(amount);
+  }
+}
+
+/**
+ * Round a per-unit overage price. Overages are fractions of a tier price, so they
+ * keep cents unless the book rounds to whole units.
+ */
+function roundOveragePrice(amount: number, rounding: PriceRounding): number {
+  return roundMarketPrice(amount, rounding === 'whole' ? 'whole' : 'exact');
+}
+
+// ============================================================================
+// Market Pricing
+// ============================================================================
+
+/**
+ * Price every tier in a market currency.
+ * Derived prices are converted, scaled by purchasing power and rounded; overrides
+ * replace the monthly price as entered. Seat, annual and overage prices are always derived.
+ * Margins use variable costs converted at the same rate, so a purchasing-power
+ * discount shows up as a thinner margin, and revenue net of the market's sales tax.
+ */
+export function calculateMarketPricing(input: MarketPricingInput): MarketPricing {
+  const { book, baseCurrency, tiers, features, variableCosts, utilizationRate } = input;
+  const rate = input.rate ?? convertCurrency(1, baseCurrency, book.currency);
+  if (!Number.isFinite(rate) || rate <= 0) {
+    throw new Error(`Exchange rate must be a positive number, got: ${rate}`);
+  }
+
+  const derive = (amount: number) => roundMarketPrice(amount * rate * book.purchasingPower, book.rounding);
+  const localCosts = variableCosts.map(item => ({ ...item, costPerUnit: item.costPerUnit * rate }));
+
+  const marketTiers = tiers.map((tier): MarketTierPrice => {
+    const derivedPrice = tier.monthlyPrice * rate * book.purchasingPower;
+    const override = book.overrides[tier.id];
+    const price = override ?? derive(tier.monthlyPrice);
+    const pricePerSeat = tier.seatPricing ? derive(tier.seatPricing.pricePerSeat) : undefined;
+    const overagePrices = Object.fromEntries(
+      tier.limits
+        .filter(limit => typeof limit.limit === 'number' && limit.overagePrice !== undefined)
+        .map(limit => [
+          limit.featureId,
+          roundOveragePrice((limit.overagePrice ?? 0) * rate * book.purchasingPower, book.rounding),
+        ])
+    );
+
+    const economics = calculateSeatTierEconomics(
+      getTierPricesExcludingTax({
+        ...tier,
+        monthlyPrice: price,
+        seatPricing: tier.seatPricing && { ...tier.seatPricing, pricePerSeat: pricePerSeat ?? 0 },
+      }, book.tax),
+      localCosts,
+      utilizationRate,
+      features
+    );
+
+    return {
+      tierId: tier.id,
+      name: tier.name,
+      basePrice: tier.monthlyPrice,
+      derivedPrice,
+      price,
+      ...(tier.annualPrice !== undefined ? { annualPrice: derive(tier.annualPrice) } : {}),
+      ...(pricePerSeat !== undefined ? { pricePerSeat } : {}),
+      overagePrices,
+      source: override !== undefined ? 'override' : 'derived',
+      revenuePerCustomer: economics.revenuePerCustomer,
+      cogsPerCustomer: economics.cogsPerCustomer,
+      margin: economics.margin,
+      marginHealth: economics.revenuePerCustomer > 0 ? getMarginHealth(economics.margin) : null,
+    };
+  });
+
+  return {
+    currency: book.currency,
+    rate,
+    tiers: marketTiers,
+    lowMarginTierIds: marketTiers
+      .filter(tier => tier.marginHealth !== null && tier.marginHealth !== 'healthy')
+      .map(tier => tier.tierId),
+  };
+}
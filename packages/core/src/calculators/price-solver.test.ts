@@ -0,0 +1,131 @@
+/**
+ * Price Solver Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { roundToCharmPrice, solveTierPrices } from './price-solver';
+import type { PriceSolverParams } from '../types';
+
+// ============================================================================
+// Test Data
+// ============================================================================
+
+// COGS per customer: free 2, basic 5, pro 20
+const params: PriceSolverParams = {
+  variableCosts: [
+    { id: 'ai-tokens', name: 'AI tokens', unit: '1K tokens', costPerUnit: 0.1, usagePerCustomer: 100, description: '' },
+  ],
+  fixedCosts: [{ id: 'hosting', name: 'Hosting', monthlyCost: 1000, description: '' }],
+  tiers: [
+    { id: 'free', name: 'Free', monthlyPrice: 0, limits: [{ featureId: 'ai', limit: 20, variableCostId: 'ai-tokens' }] },
+    { id: 'basic', name: 'Basic', monthlyPrice: 10, limits: [{ featureId: 'ai', limit: 50, variableCostId: 'ai-tokens' }] },
+    { id: 'pro', name: 'Pro', monthlyPrice: 30, limits: [{ featureId: 'ai', limit: 200, variableCostId: 'ai-tokens' }] },
+  ],
+  features: [],
+  utilizationRate: 1,
+  tierDistribution: { free: 50, basic: 30, pro: 20 },
+  targets: {},
+};
+
+// ============================================================================
+// Charm Pricing Tests
+// ============================================================================
+
+describe('roundToCharmPrice', () => {
+  it('rounds up to prices ending in 9', () => {
+    expect(roundToCharmPrice(4.2)).toBeCloseTo(4.99);
+    expect(roundToCharmPrice(23)).toBe(29);
+    expect(roundToCharmPrice(120)).toBe(149);
+    expect(roundToCharmPrice(1020)).toBe(1099);
+  });
+
+  it('keeps charm prices and zero unchanged', () => {
+    expect(roundToCharmPrice(4.99)).toBeCloseTo(4.99);
+    expect(roundToCharmPrice(29)).toBe(29);
+    expect(roundToCharmPrice(199)).toBe(199);
+    expect(roundToCharmPrice(0)).toBe(0);
+  });
+});
+
+// ============================================================================
+// Solver Tests
+// ============================================================================
+
+describe('solveTierPrices', () => {
+  it('scales prices up until the blended margin target is met', () => {
+    const result = solveTierPrices({ ...params, targets: { minGrossMargin: 75 }, charmPricing: false });
+    const [free, basic, pro] = result.tiers;
+
+    // Weighted COGS 6.5 needs weighted revenue 26, up from 9: prices scale by 26/9
+    expect(free.proposedPrice).toBe(0);
+    expect(basic.proposedPrice).toBeCloseTo(28.89, 2);
+    expect(pro.proposedPrice).toBeCloseTo(86.67, 2);
+    expect(result.blendedGrossMargin).toBeGreaterThanOrEqual(75);
+    expect(result.feasible).toBe(true);
+  });
+
+  it('solves for break-even by a number of paid customers', () => {
+    const result = solveTierPrices({ ...params, targets: { breakEvenPaidCustomers: 100 }, charmPricing: false });
+
+    // 1000 fixed spread over 100 paid customers (half of all customers) adds 5 to weighted revenue
+    expect(result.breakEvenPaidCustomers).toBeLessThanOrEqual(100);
+    expect(result.constraints).toEqual([
+      expect.objectContaining({ id: 'breakEvenPaidCustomers', target: 100, met: true }),
+    ]);
+    expect(result.tiers[1].proposedPrice).toBeCloseTo(12.78, 2);
+  });
+
+  it('keeps each tier at the price ratio over the tier below', () => {
+    const result = solveTierPrices({ ...params, targets: { tierPriceRatio: 4 }, charmPricing: false });
+
+    expect(result.tiers[1].proposedPrice).toBe(10);
+    expect(result.tiers[2].proposedPrice).toBe(40);
+    expect(result.constraints[0]).toMatchObject({ actual: 4, met: true });
+  });
+
+  it('raises tiers below the minimum tier margin', () => {
+    const result = solveTierPrices({ ...params, targets: { minTierMargin: 50 }, charmPricing: false });
+
+    expect(result.tiers[1].proposedPrice).toBe(10);
+    expect(result.tiers[2].proposedPrice).toBe(40);
+    expect(result.tiers[2].margin).toBeCloseTo(50);
+  });
+
+  it('meets targets on revenue net of tax included in prices', () => {
+    const tax = { rate: 0.25, label: 'VAT', inclusive: true };
+    const result = solveTierPrices({ ...params, tax, targets: { minTierMargin: 50 }, charmPricing: false });
+
+    // Net prices of 10 and 40 with the tax added back
+    expect(result.tiers[1].proposedPrice).toBe(12.5);
+    expect(result.tiers[2].proposedPrice).toBe(50);
+    expect(result.tiers[2].revenuePerCustomer).toBeCloseTo(40);
+    expect(result.tiers[2].margin).toBeCloseTo(50);
+  });
+
+  it('rounds to charm prices without breaking targets', () => {
+    const result = solveTierPrices({ ...params, targets: { minGrossMargin: 75, tierPriceRatio: 3 } });
+
+    expect(result.tiers.map(tier => tier.proposedPrice)).toEqual([0, 29, 89]);
+    expect(result.feasible).toBe(true);
+  });
+
+  it('only lowers prices when allowed', () => {
+    const targets = { minGrossMargin: 20 };
+
+    expect(solveTierPrices({ ...params, targets, charmPricing: false }).tiers[2].proposedPrice).toBe(30);
+    expect(solveTierPrices({ ...params, targets, charmPricing: false, allowDecrease: true }).tiers[2].proposedPrice)
+      .toBeLessThan(30);
+  });
+
+  it('reports targets that cannot be met', () => {
+    const result = solveTierPrices({
+      ...params,
+      tierDistribution: { free: 100 },
+      targets: { breakEvenPaidCustomers: 50 },
+    });
+
+    expect(result.feasible).toBe(false);
+    expect(result.breakEvenPaidCustomers).toBeNull();
+    expect(result.tiers[2].proposedPrice).toBe(39);
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * Price Solver
+ * Goal-seek per-tier prices that meet margin, break-even and price-ladder targets
+ */
+
+import type {
+  PriceSolverConstraintCheck,
+  PriceSolverParams,
+  PriceSolverResult,
+  ProjectTier,
+  SolvedTierPrice,
+} from '../types';
+import { calculateTotalFixedCosts } from './cogs';
+import { calculateGrossMargin } from './margin';
+import { calculateSeatTierEconomics } from './seat-pricing';
+import { getPriceExcludingTax, getTierPricesExcludingTax } from './tax';
+
+const MAX_SCALE = 1e6;
+const SEARCH_STEPS = 60;
+// Tolerance for floating point error when checking targets
+const EPSILON = 1e-9;
+
+interface TierRow {
+  tier: ProjectTier;
+  /** Share of customers (0-1) */
+  weight: number;
+  paid: boolean;
+  /** Seat revenue and current revenue are net of sales tax */
+  seatRevenue: number;
+  currentRevenue: number;
+  cogs: number;
+}
+
+// ============================================================================
+// Charm Pricing
+// ============================================================================
+
+/**
+ * Round a price up to the nearest charm price:
+ * x.99 below 10, ending in 9 below 100 (19, 29…), 49/99 below 1000 (149, 199…),
+ * then 99 (1099, 1199…). Prices already at a charm price are unchanged.
+ */
+export function roundToCharmPrice(price: number): number {
+  if (price <= 0) return 0;
+  if (price < 10) return Math.ceil(Math.round((price + 0.01) * 100) / 100) - 0.01;
+  if (price < 100) return Math.ceil((price + 1) / 10) * 10 - 1;
+  if (price < 1000) return Math.ceil((price + 1) / 50) * 50 - 1;
+  return Math.ceil((price + 1) / 100) * 100 - 1;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function buildRows(params: PriceSolverParams): TierRow[] {
+  const { tiers, tierDistribution } = params;
+  const weightTotal = sum(tiers.map(tier => Math.max(0, tierDistribution[tier.id] ?? 0)));
+
+  return tiers.map(tier => {
+    const economics = calculateSeatTierEconomics(
+      getTierPricesExcludingTax(tier, params.tax),
+      params.variableCosts,
+      params.utilizationRate,
+      params.features
+    );
+    return {
+      tier,
+      // An empty distribution spreads customers evenly, as in the tier analysis
+      weight: weightTotal > 0 ? Math.max(0, tierDistribution[tier.id] ?? 0) / weightTotal : 1 / tiers.length,
+      paid: economics.revenuePerCustomer > 0,
+      seatRevenue: economics.seatRevenue,
+      currentRevenue: economics.revenuePerCustomer,
+      cogs: economics.cogsPerCustomer,
+    };
+  });
+}
+
+/**
+ * Revenue per customer for each tier when current prices are scaled by `scale`,
+ * raised to per-tier floors and the price ratio over the paid tier below
+ */
+function buildLadder(rows: TierRow[], floors: number[], scale: number, ratio: number): number[] {
+  let previous = 0;
+  return rows.map((row, index) => {
+    if (!row.paid) return 0;
+    const revenue = Math.max(row.currentRevenue * scale, floors[index], previous * ratio);
+    previous = revenue;
+    return revenue;
+  });
+}
+
+function weightedRevenue(rows: TierRow[], revenues: number[]): number {
+  return sum(rows.map((row, index) => row.weight * revenues[index]));
+}
+
+// ============================================================================
+// Solver
+// ============================================================================
+
+/**
+ * Propose per-tier prices that meet the targets.
+ *
+ * Current paid prices are scaled by the smallest common factor that meets the
+ * blended margin and break-even targets, keeping the shape of the price ladder.
+ * Each tier is raised to its minimum margin and to `tierPriceRatio` times the
+ * paid tier below. Seat revenue is held fixed and only the base price moves.
+ * Targets are met on revenue net of sales tax; prices that include the tax
+ * are proposed with it added back. Prices are rounded up, so rounding never
+ * breaks a target.
+ */
+export function solveTierPrices(params: PriceSolverParams): PriceSolverResult {
+  const { targets, tax, charmPricing = true, allowDecrease = false } = params;
+  const rows = buildRows(params);
+  const ratio = Math.max(0, targets.tierPriceRatio ?? 0);
+  const fixedCostsTotal = calculateTotalFixedCosts(params.fixedCosts);
+  const paidShare = sum(rows.filter(row => row.paid).map(row => row.weight));
+  const weightedCogs = sum(rows.map(row => row.weight * row.cogs));
+
+  const floors = rows.map(row => {
+    if (targets.minTierMargin === undefined) return row.seatRevenue;
+    const marginFloor = targets.minTierMargin < 100 ? row.cogs / (1 - targets.minTierMargin / 100) : Infinity;
+    return Math.max(row.seatRevenue, marginFloor);
+  });
+
+  // Both targets are lower bounds on revenue per customer, weighted by tier share
+  const requirements = [0];
+  if (targets.minGrossMargin !== undefined) {
+    requirements.push(targets.minGrossMargin < 100 ? weightedCogs / (1 - targets.minGrossMargin / 100) : Infinity);
+  }
+  if (targets.breakEvenPaidCustomers !== undefined) {
+    requirements.push(
+      paidShare > 0 && targets.breakEvenPaidCustomers > 0
+        ? weightedCogs + (fixedCostsTotal * paidShare) / targets.breakEvenPaidCustomers
+        : Infinity
+    );
+  }
+  const required = Math.max(...requirements);
+  const meets = (scale: number) => weightedRevenue(rows, buildLadder(rows, floors, scale, ratio)) >= required - EPSILON;
+
+  // Smallest scale meeting the requirement, by doubling then bisecting
+  let scale = allowDecrease ? 0 : 1;
+  if (Number.isFinite(required) && !meets(scale)) {
+    let low = scale;
+    let high = Math.max(1, scale * 2);
+    while (!meets(high) && high < MAX_SCALE) {
+      low = high;
+      high *= 2;
+    }
+    // Unreachable targets (no paying customers) keep current prices and report as unmet
+    if (meets(high)) {
+      for (let step = 0; step < SEARCH_STEPS; step++) {
+        const mid = (low + high) / 2;
+        if (meets(mid)) high = mid;
+        else low = mid;
+      }
+      scale = high;
+    }
+  }
+
+  // Round base prices up, re-applying the ratio to the rounded tier below
+  const ladder = buildLadder(rows, floors, scale, ratio);
+  const revenues: number[] = [];
+  let previous = 0;
+  const tiers: SolvedTierPrice[] = rows.map((row, index) => {
+    let proposedPrice = row.tier.monthlyPrice;
+    let revenue = row.currentRevenue;
+    if (row.paid) {
+      const netBase = Math.max(0, Math.max(ladder[index], previous * ratio) - row.seatRevenue);
+      const base = tax?.inclusive ? netBase * (1 + tax.rate) : netBase;
+      proposedPrice = charmPricing ? roundToCharmPrice(base) : Math.ceil(base * 100) / 100;
+      revenue = getPriceExcludingTax(proposedPrice, tax) + row.seatRevenue;
+      previous = revenue;
+    }
+    revenues.push(revenue);
+
+    return {
+      tierId: row.tier.id,
+      name: row.tier.name,
+      currentPrice: row.tier.monthlyPrice,
+      proposedPrice,
+      revenuePerCustomer: revenue,
+      cogsPerCustomer: row.cogs,
+      margin: calculateGrossMargin(revenue, row.cogs),
+    };
+  });
+
+  const blendedRevenue = weightedRevenue(rows, revenues);
+  const blendedGrossMargin = calculateGrossMargin(blendedRevenue, weightedCogs);
+  const contribution = blendedRevenue - weightedCogs;
+  const breakEvenPaidCustomers = paidShare > 0 && contribution > 0
+    ? Math.ceil((fixedCostsTotal * paidShare) / contribution - EPSILON)
+    : null;
+
+  const paidTiers = tiers.filter((_, index) => rows[index].paid);
+  const constraints: PriceSolverConstraintCheck[] = [];
+  if (targets.minGrossMargin !== undefined) {
+    constraints.push({
+      id: 'minGrossMargin',
+      label: 'Blended gross margin',
+      target: targets.minGrossMargin,
+      actual: blendedGrossMargin,
+      met: blendedGrossMargin >= targets.minGrossMargin - EPSILON,
+    });
+  }
+  if (targets.breakEvenPaidCustomers !== undefined) {
+    constraints.push({
+      id: 'breakEvenPaidCustomers',
+      label: 'Break-even paid customers',
+      target: targets.breakEvenPaidCustomers,
+      actual: breakEvenPaidCustomers,
+      met: breakEvenPaidCustomers !== null && breakEvenPaidCustomers <= targets.breakEvenPaidCustomers,
+    });
+  }
+  if (targets.minTierMargin !== undefined) {
+    const lowest = paidTiers.length > 0 ? Math.min(...paidTiers.map(tier => tier.margin)) : null;
+    constraints.push({
+      id: 'minTierMargin',
+      label: 'Lowest tier gross margin',
+      target: targets.minTierMargin,
+      actual: lowest,
+      met: lowest === null || lowest >= targets.minTierMargin - EPSILON,
+    });
+  }
+  if (targets.tierPriceRatio !== undefined) {
+    const ratios = paidTiers
+      .slice(1)
+      .map((tier, index) => tier.revenuePerCustomer / paidTiers[index].revenuePerCustomer);
+    const lowest = ratios.length > 0 ? Math.min(...ratios) : null;
+    constraints.push({
+      id: 'tierPriceRatio',
+      label: 'Lowest price ratio between tiers',
+      target: targets.tierPriceRatio,
+      actual: lowest,
+      met: lowest === null || lowest >= targets.tierPriceRatio - EPSILON,
+    });
+  }
+
+  return {
+    feasible: constraints.every(constraint => constraint.met),
+    tiers,
+    blendedGrossMargin,
+    breakEvenPaidCustomers,
+    constraints,
+  };
+}
@@ -0,0 +1,163 @@
+/**
+ * Revenue Projection Calculator Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateRevenueProjection } from './projection';
+import type { ProjectionParams } from '../types';
+
+// ============================================================================
+// Test Data
+// ============================================================================
+
+const baseParams: ProjectionParams = {
+  tiers: [
+    { id: 'freemium', price: 0, variableCostPerCustomer: 0.5, signupMix: 50 },
+    { id: 'basic', price: 20, variableCostPerCustomer: 2, signupMix: 30 },
+    { id: 'pro', price: 50, variableCostPerCustomer: 5, signupMix: 20 },
+  ],
+  monthlySignups: 100,
+  monthlyChurnRate: 0,
+  conversionRate: 0,
+  fixedCostsMonthly: 1000,
+};
+
+// ============================================================================
+// Horizon Tests
+// ============================================================================
+
+describe('calculateRevenueProjection horizon', () => {
+  it('defaults to 36 months', () => {
+    expect(calculateRevenueProjection(baseParams).months).toHaveLength(36);
+  });
+
+  it('clamps the horizon to 1..60 months', () => {
+    expect(calculateRevenueProjection({ ...baseParams, months: 120 }).months).toHaveLength(60);
+    expect(calculateRevenueProjection({ ...baseParams, months: 0 }).months).toHaveLength(1);
+  });
+});
+
+// ============================================================================
+// Cohort Dynamics Tests
+// ============================================================================
+
+describe('calculateRevenueProjection cohorts', () => {
+  it('splits signups by tier mix', () => {
+    const { months } = calculateRevenueProjection({ ...baseParams, months: 1 });
+    expect(months[0].customersByTier).toEqual({ freemium: 50, basic: 30, pro: 20 });
+    // 30 * 20 + 20 * 50
+    expect(months[0].mrr).toBe(1600);
+    expect(months[0].arr).toBe(19200);
+  });
+
+  it('accumulates customers when there is no churn', () => {
+    const { months } = calculateRevenueProjection({ ...baseParams, months: 3 });
+    expect(months[2].totalCustomers).toBeCloseTo(300);
+  });
+
+  it('grows signups month over month', () => {
+    const { months } = calculateRevenueProjection({ ...baseParams, months: 3, signupGrowthRate: 10 });
+    expect(months[1].newSignups).toBeCloseTo(110);
+    expect(months[2].newSignups).toBeCloseTo(121);
+  });
+
+  it('applies churn to existing cohorts only', () => {
+    const { months, cohorts } = calculateRevenueProjection({
+      ...baseParams,
+      months: 2,
+      monthlyChurnRate: 10,
+    });
+    expect(months[0].churned).toBe(0);
+    expect(months[1].churned).toBeCloseTo(10);
+    expect(cohorts[0].activeCustomers).toEqual([100, 90]);
+  });
+
+  it('uses per-tier churn overrides', () => {
+    const { months } = calculateRevenueProjection({
+      ...baseParams,
+      tiers: baseParams.tiers.map(t => (t.id === 'pro' ? { ...t, monthlyChurnRate: 50 } : t)),
+      months: 2,
+      monthlySignups: 0,
+      startingCustomers: { basic: 100, pro: 100 },
+      monthlyChurnRate: 10,
+    });
+    expect(months[0].customersByTier.basic).toBeCloseTo(90);
+    expect(months[0].customersByTier.pro).toBeCloseTo(50);
+  });
+
+  it('converts free users to paid tiers by paid mix', () => {
+    const { months } = calculateRevenueProjection({
+      ...baseParams,
+      months: 1,
+      monthlySignups: 0,
+      startingCustomers: { freemium: 1000 },
+      conversionRate: 5,
+    });
+    expect(months[0].conversions).toBeCloseTo(50);
+    expect(months[0].customersByTier.freemium).toBeCloseTo(950);
+    expect(months[0].customersByTier.basic).toBeCloseTo(30);
+    expect(months[0].customersByTier.pro).toBeCloseTo(20);
+  });
+
+  it('moves paid customers between adjacent tiers', () => {
+    const { months } = calculateRevenueProjection({
+      ...baseParams,
+      months: 1,
+      monthlySignups: 0,
+      startingCustomers: { basic: 100, pro: 100 },
+      expansionRate: 10,
+      contractionRate: 5,
+    });
+    // basic: 100 - 10 up + 5 down from pro; pro: 100 - 5 down + 10 up
+    expect(months[0].customersByTier.basic).toBeCloseTo(95);
+    expect(months[0].customersByTier.pro).toBeCloseTo(105);
+    // Contraction never moves paid customers into the free tier
+    expect(months[0].customersByTier.freemium).toBe(0);
+  });
+});
+
+// ============================================================================
+// Financials Tests
+// ============================================================================
+
+describe('calculateRevenueProjection financials', () => {
+  it('computes COGS, margin and cash burn', () => {
+    const { months, minimumCashBalance } = calculateRevenueProjection({
+      ...baseParams,
+      months: 1,
+      startingCash: 5000,
+    });
+    const [first] = months;
+    // 50 * 0.5 + 30 * 2 + 20 * 5
+    expect(first.variableCosts).toBeCloseTo(185);
+    expect(first.grossProfit).toBeCloseTo(1415);
+    expect(first.netIncome).toBeCloseTo(415);
+    expect(first.cashBurn).toBe(0);
+    expect(first.cashBalance).toBeCloseTo(5415);
+    expect(minimumCashBalance).toBe(5000);
+  });
+
+  it('finds the break-even month and cash trough', () => {
+    const result = calculateRevenueProjection({
+      ...baseParams,
+      months: 12,
+      fixedCostsMonthly: 3000,
+    });
+    // Net income grows by 1415 each month: -1585, -170, 1245
+    expect(result.breakEvenMonth).toBe(3);
+    expect(result.months[0].cashBurn).toBeCloseTo(1585);
+    expect(result.minimumCashBalance).toBeCloseTo(-1755);
+    expect(result.endingMRR).toBeCloseTo(1600 * 12);
+  });
+
+  it('returns null break-even when never profitable', () => {
+    const result = calculateRevenueProjection({
+      ...baseParams,
+      months: 6,
+      monthlySignups: 0,
+    });
+    expect(result.breakEvenMonth).toBeNull();
+    expect(result.endingMRR).toBe(0);
+    expect(result.months[5].cashBalance).toBe(-6000);
+  });
+});
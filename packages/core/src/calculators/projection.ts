@@ -0,0 +1,220 @@
+/**
+ * Revenue Projection Calculator
+ * Month-by-month cohort simulation of signups, conversion, churn and expansion
+ */
+
+import type {
+  ProjectionParams,
+  ProjectionTierInput,
+  ProjectionMonth,
+  ProjectionCohort,
+  RevenueProjection,
+} from '../types';
+import { MONTHS_PER_YEAR, PROJECTION_HORIZON } from '../data';
+import { clamp } from '../utils';
+import { calculateGrossMargin } from './margin';
+
+interface CohortState {
+  startMonth: number;
+  initialCustomers: number;
+  counts: Record<string, number>;
+  activeCustomers: number[];
+}
+
+interface MonthFlows {
+  conversions: number;
+  churned: number;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Split new customers across tiers by relative weight
+ */
+function splitByMix(total: number, tiers: ProjectionTierInput[]): Record<string, number> {
+  const weightTotal = tiers.reduce((sum, tier) => sum + Math.max(0, tier.signupMix), 0);
+  const split: Record<string, number> = {};
+  for (const tier of tiers) {
+    split[tier.id] = weightTotal > 0 ? (total * Math.max(0, tier.signupMix)) / weightTotal : 0;
+  }
+  return split;
+}
+
+function sumCounts(counts: Record<string, number>): number {
+  return Object.values(counts).reduce((sum, count) => sum + count, 0);
+}
+
+/**
+ * Advance one cohort by a month: churn, then free-to-paid conversion,
+ * then expansion/contraction between adjacent paid tiers
+ */
+function advanceCohort(
+  cohort: CohortState,
+  freeTiers: ProjectionTierInput[],
+  paidTiers: ProjectionTierInput[],
+  params: Required<Pick<ProjectionParams, 'monthlyChurnRate' | 'conversionRate' | 'expansionRate' | 'contractionRate'>>
+): MonthFlows {
+  const flows: MonthFlows = { conversions: 0, churned: 0 };
+
+  for (const tier of [...freeTiers, ...paidTiers]) {
+    const churnRate = clamp((tier.monthlyChurnRate ?? params.monthlyChurnRate) / 100, 0, 1);
+    const lost = (cohort.counts[tier.id] ?? 0) * churnRate;
+    cohort.counts[tier.id] = (cohort.counts[tier.id] ?? 0) - lost;
+    flows.churned += lost;
+  }
+
+  if (paidTiers.length > 0) {
+    const conversionRate = clamp(params.conversionRate / 100, 0, 1);
+    for (const tier of freeTiers) {
+      const converted = (cohort.counts[tier.id] ?? 0) * conversionRate;
+      cohort.counts[tier.id] -= converted;
+      flows.conversions += converted;
+      const split = splitByMix(converted, paidTiers);
+      for (const paid of paidTiers) {
+        cohort.counts[paid.id] = (cohort.counts[paid.id] ?? 0) + split[paid.id];
+      }
+    }
+  }
+
+  const expansionRate = clamp(params.expansionRate / 100, 0, 1);
+  const contractionRate = clamp(params.contractionRate / 100, 0, 1);
+  if (paidTiers.length > 1 && (expansionRate > 0 || contractionRate > 0)) {
+    // Compute moves from start-of-step counts so upgrades don't cascade within a month
+    const before = paidTiers.map(tier => cohort.counts[tier.id] ?? 0);
+    paidTiers.forEach((tier, index) => {
+      const upgrades = index < paidTiers.length - 1 ? before[index] * expansionRate : 0;
+      const downgrades = index > 0 ? before[index] * contractionRate : 0;
+      cohort.counts[tier.id] -= upgrades + downgrades;
+      if (upgrades > 0) cohort.counts[paidTiers[index + 1].id] += upgrades;
+      if (downgrades > 0) cohort.counts[paidTiers[index - 1].id] += downgrades;
+    });
+  }
+
+  return flows;
+}
+
+// ============================================================================
+// Projection
+// ============================================================================
+
+/**
+ * Project MRR, customers per tier, COGS and cash over a multi-year horizon.
+ *
+ * Each month: existing cohorts churn, free users convert to paid tiers
+ * (split by signup mix), paid customers expand/contract between adjacent
+ * tiers, then a new signup cohort is added. Rates are percentages, matching
+ * the Scenario fields used by the pricing calculator. Customer counts are
+ * expected values and may be fractional.
+ */
+export function calculateRevenueProjection(params: ProjectionParams): RevenueProjection {
+  const {
+    tiers,
+    months = PROJECTION_HORIZON.DEFAULT_MONTHS,
+    startingCustomers = {},
+    monthlySignups,
+    signupGrowthRate = 0,
+    monthlyChurnRate,
+    conversionRate,
+    expansionRate = 0,
+    contractionRate = 0,
+    fixedCostsMonthly,
+    startingCash = 0,
+  } = params;
+
+  const horizon = clamp(Math.round(months), 1, PROJECTION_HORIZON.MAX_MONTHS);
+  const freeTiers = tiers.filter(tier => tier.price <= 0);
+  const paidTiers = tiers.filter(tier => tier.price > 0);
+  const rates = { monthlyChurnRate, conversionRate, expansionRate, contractionRate };
+
+  const cohorts: CohortState[] = [];
+  const initialCounts: Record<string, number> = {};
+  for (const tier of tiers) {
+    initialCounts[tier.id] = Math.max(0, startingCustomers[tier.id] ?? 0);
+  }
+  const initialTotal = sumCounts(initialCounts);
+  if (initialTotal > 0) {
+    cohorts.push({ startMonth: 0, initialCustomers: initialTotal, counts: initialCounts, activeCustomers: [] });
+  }
+
+  const projectionMonths: ProjectionMonth[] = [];
+  let cashBalance = startingCash;
+  let breakEvenMonth: number | null = null;
+  let minimumCashBalance = startingCash;
+
+  for (let month = 1; month <= horizon; month++) {
+    let conversions = 0;
+    let churned = 0;
+    for (const cohort of cohorts) {
+      const flows = advanceCohort(cohort, freeTiers, paidTiers, rates);
+      conversions += flows.conversions;
+      churned += flows.churned;
+    }
+
+    const newSignups = Math.max(0, monthlySignups) * Math.pow(1 + signupGrowthRate / 100, month - 1);
+    if (newSignups > 0) {
+      cohorts.push({
+        startMonth: month,
+        initialCustomers: newSignups,
+        counts: splitByMix(newSignups, tiers),
+        activeCustomers: [],
+      });
+    }
+
+    const customersByTier: Record<string, number> = {};
+    for (const tier of tiers) customersByTier[tier.id] = 0;
+    for (const cohort of cohorts) {
+      for (const tier of tiers) {
+        customersByTier[tier.id] += cohort.counts[tier.id] ?? 0;
+      }
+      cohort.activeCustomers.push(sumCounts(cohort.counts));
+    }
+
+    const mrr = tiers.reduce((sum, tier) => sum + customersByTier[tier.id] * tier.price, 0);
+    const variableCosts = tiers.reduce(
+      (sum, tier) => sum + customersByTier[tier.id] * tier.variableCostPerCustomer,
+      0
+    );
+    const grossProfit = mrr - variableCosts;
+    const netIncome = grossProfit - fixedCostsMonthly;
+    cashBalance += netIncome;
+    minimumCashBalance = Math.min(minimumCashBalance, cashBalance);
+    if (breakEvenMonth === null && netIncome >= 0) breakEvenMonth = month;
+
+    projectionMonths.push({
+      month,
+      newSignups,
+      conversions,
+      churned,
+      customersByTier,
+      totalCustomers: sumCounts(customersByTier),
+      paidCustomers: paidTiers.reduce((sum, tier) => sum + customersByTier[tier.id], 0),
+      mrr,
+      arr: mrr * MONTHS_PER_YEAR,
+      variableCosts,
+      fixedCosts: fixedCostsMonthly,
+      grossProfit,
+      grossMargin: calculateGrossMargin(mrr, variableCosts),
+      netIncome,
+      cashBurn: Math.max(0, -netIncome),
+      cashBalance,
+    });
+  }
+
+  const last = projectionMonths[projectionMonths.length - 1];
+  const cohortResults: ProjectionCohort[] = cohorts.map(({ startMonth, initialCustomers, activeCustomers }) => ({
+    startMonth,
+    initialCustomers,
+    activeCustomers,
+  }));
+
+  return {
+    months: projectionMonths,
+    cohorts: cohortResults,
+    breakEvenMonth,
+    minimumCashBalance,
+    endingMRR: last?.mrr ?? 0,
+    endingARR: last?.arr ?? 0,
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * Scenario Calculator Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateScenarioMetrics } from './scenarios';
+import type { ScenarioMetricsInput } from '../types';
+
+// ============================================================================
+// Test Data
+// ============================================================================
+
+// COGS per customer: free 2, pro 10
+const input: ScenarioMetricsInput = {
+  scenario: { name: 'Growth', distribution: { free: 80, pro: 20 }, monthlyChurnRate: 5, conversionRate: 3 },
+  tiers: [
+    { id: 'free', name: 'Free', monthlyPrice: 0, limits: [{ featureId: 'ai', limit: 20, variableCostId: 'ai-tokens' }] },
+    { id: 'pro', name: 'Pro', monthlyPrice: 50, limits: [{ featureId: 'ai', limit: 100, variableCostId: 'ai-tokens' }] },
+  ],
+  features: [],
+  variableCosts: [
+    { id: 'ai-tokens', name: 'AI tokens', unit: '1K tokens', costPerUnit: 0.1, usagePerCustomer: 100, description: '' },
+  ],
+  fixedCosts: [{ id: 'hosting', name: 'Hosting', monthlyCost: 500, description: '' }],
+  utilizationRate: 1,
+  customerCount: 100,
+};
+
+// ============================================================================
+// Scenario Metrics Tests
+// ============================================================================
+
+describe('calculateScenarioMetrics', () => {
+  it('calculates MRR, margins and break-even from the distribution', () => {
+    const result = calculateScenarioMetrics(input);
+
+    expect(result.customersByTier).toEqual({ free: 80, pro: 20 });
+    expect(result.paidCustomers).toBe(20);
+    expect(result.mrr).toBe(1000);
+    // Variable costs: 80 × 2 + 20 × 10 = 360
+    expect(result.grossMargin).toBeCloseTo(64);
+    expect(result.operatingProfit).toBeCloseTo(140);
+    expect(result.arpu).toBe(50);
+    // (500 fixed + 160 free subsidy) / 40 contribution
+    expect(result.breakEvenCustomers).toBe(17);
+  });
+
+  it('uses the scenario customer count and prices', () => {
+    const result = calculateScenarioMetrics({
+      ...input,
+      scenario: { ...input.scenario, customerCount: 200, prices: { pro: 80 } },
+    });
+
+    expect(result.customerCount).toBe(200);
+    expect(result.mrr).toBe(40 * 80);
+  });
+
+  it('derives LTV from churn and LTV:CAC from the scenario CAC', () => {
+    expect(calculateScenarioMetrics(input)).toMatchObject({ ltv: 1000, ltvCacRatio: null });
+    expect(calculateScenarioMetrics({ ...input, scenario: { ...input.scenario, cac: 250 } }).ltvCacRatio).toBe(4);
+    expect(calculateScenarioMetrics({ ...input, scenario: { ...input.scenario, monthlyChurnRate: 0 } }).ltv).toBe(1200);
+  });
+
+  it('reports break-even as unreachable when price does not cover variable cost', () => {
+    const result = calculateScenarioMetrics({ ...input, scenario: { ...input.scenario, prices: { pro: 8 } } });
+
+    expect(result.breakEvenCustomers).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Scenario Calculator
+ * Headline metrics for a saved pricing scenario, for side-by-side comparison
+ */
+
+import type { ScenarioMetrics, ScenarioMetricsInput } from '../types';
+import { calculateTotalFixedCosts } from './cogs';
+import { calculateLTVCACRatio } from './investor-metrics';
+import { calculateGrossMargin } from './margin';
+import { calculateSeatTierEconomics } from './seat-pricing';
+
+/** Customer lifetime assumed when churn is zero */
+const ZERO_CHURN_LIFETIME_MONTHS = 24;
+
+/**
+ * Calculate MRR, margins, LTV:CAC and break-even for a scenario.
+ *
+ * Customers are split across tiers by the scenario distribution (rounded per
+ * tier, as in the pricing calculator), at the scenario's prices where set.
+ * LTV is ARPU over monthly churn. Break-even counts the paid customers whose
+ * contribution covers fixed costs plus the variable cost of free users.
+ */
+export function calculateScenarioMetrics(input: ScenarioMetricsInput): ScenarioMetrics {
+  const { scenario, tiers, variableCosts, utilizationRate, features } = input;
+  const customerCount = scenario.customerCount ?? input.customerCount;
+  const weightTotal = tiers.reduce((sum, tier) => sum + Math.max(0, scenario.distribution[tier.id] ?? 0), 0);
+
+  let mrr = 0;
+  let variableTotal = 0;
+  let paidCustomers = 0;
+  let paidVariableCosts = 0;
+  let freeVariableCosts = 0;
+  const customersByTier: Record<string, number> = {};
+
+  for (const tier of tiers) {
+    const share = weightTotal > 0 ? Math.max(0, scenario.distribution[tier.id] ?? 0) / weightTotal : 0;
+    const customers = Math.round(share * customerCount);
+    const price = scenario.prices?.[tier.id] ?? tier.monthlyPrice;
+    const economics = calculateSeatTierEconomics({ ...tier, monthlyPrice: price }, variableCosts, utilizationRate, features);
+    const tierVariableCosts = economics.cogsPerCustomer * customers;
+
+    customersByTier[tier.id] = customers;
+    mrr += economics.revenuePerCustomer * customers;
+    variableTotal += tierVariableCosts;
+    if (economics.revenuePerCustomer > 0) {
+      paidCustomers += customers;
+      paidVariableCosts += tierVariableCosts;
+    } else {
+      freeVariableCosts += tierVariableCosts;
+    }
+  }
+
+  const fixedTotal = calculateTotalFixedCosts(input.fixedCosts);
+  const arpu = paidCustomers > 0 ? mrr / paidCustomers : 0;
+  const ltv = scenario.monthlyChurnRate > 0
+    ? arpu / (scenario.monthlyChurnRate / 100)
+    : arpu * ZERO_CHURN_LIFETIME_MONTHS;
+  const contributionMargin = arpu - (paidCustomers > 0 ? paidVariableCosts / paidCustomers : 0);
+
+  return {
+    name: scenario.name,
+    customerCount,
+    customersByTier,
+    paidCustomers,
+    mrr,
+    grossMargin: calculateGrossMargin(mrr, variableTotal),
+    operatingProfit: mrr - variableTotal - fixedTotal,
+    arpu,
+    ltv,
+    ltvCacRatio: calculateLTVCACRatio(ltv, scenario.cac ?? 0),
+    breakEvenCustomers: contributionMargin > 0
+      ? Math.ceil((fixedTotal + freeVariableCosts) / contributionMargin)
+      : null,
+  };
+}
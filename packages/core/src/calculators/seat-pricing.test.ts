@@ -0,0 +1,140 @@
+/**
+ * Seat-Based Pricing Calculator Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getUsedSeats,
+  getBilledSeats,
+  calculateSeatPrice,
+  scaleLimitsForSeats,
+  calculateSeatTierEconomics,
+} from './seat-pricing';
+import { calculateMRR } from './cogs';
+import type { VariableCostItem, TierSeatPricing } from '../types';
+
+// ============================================================================
+// Test Data
+// ============================================================================
+
+const variableCosts: VariableCostItem[] = [
+  {
+    id: 'ai-tokens',
+    name: 'AI tokens',
+    unit: '1K tokens',
+    costPerUnit: 0.01,
+    usagePerCustomer: 100,
+    description: 'Per 1K tokens',
+  },
+  {
+    id: 'storage',
+    name: 'Storage',
+    unit: 'GB',
+    costPerUnit: 0.1,
+    usagePerCustomer: 2,
+    description: 'Per GB/month',
+  },
+];
+
+const seatPricing: TierSeatPricing = {
+  pricePerSeat: 10,
+  averageSeats: 4,
+  minSeats: 3,
+  maxSeats: 10,
+};
+
+const teamTier = {
+  id: 'team',
+  monthlyPrice: 50,
+  seatPricing,
+  limits: [
+    { featureId: 'ai_chat', limit: 200, variableCostId: 'ai-tokens', perSeat: true },
+    { featureId: 'files', limit: 20, variableCostId: 'storage' },
+    { featureId: 'sso', limit: true },
+  ],
+};
+
+// ============================================================================
+// Seat Count Tests
+// ============================================================================
+
+describe('getUsedSeats', () => {
+  it('caps seats at the maximum', () => {
+    expect(getUsedSeats(seatPricing, 15)).toBe(10);
+    expect(getUsedSeats(seatPricing, 4)).toBe(4);
+    expect(getUsedSeats({ pricePerSeat: 10, averageSeats: 4 }, 50)).toBe(50);
+  });
+});
+
+describe('getBilledSeats', () => {
+  it('bills at least the minimum seats', () => {
+    expect(getBilledSeats(seatPricing, 1)).toBe(3);
+    expect(getBilledSeats(seatPricing, 4)).toBe(4);
+    expect(getBilledSeats(seatPricing, 15)).toBe(10);
+  });
+});
+
+// ============================================================================
+// Revenue Tests
+// ============================================================================
+
+describe('calculateSeatPrice', () => {
+  it('adds billed seats to the base fee', () => {
+    expect(calculateSeatPrice(teamTier)).toBe(90);
+    expect(calculateSeatPrice(teamTier, 1)).toBe(80);
+  });
+
+  it('returns the base fee without seat pricing', () => {
+    expect(calculateSeatPrice({ monthlyPrice: 25, limits: [] })).toBe(25);
+  });
+
+  it('feeds per-seat prices into MRR', () => {
+    const prices = { team: calculateSeatPrice(teamTier), basic: 25 };
+    expect(calculateMRR(prices, { team: 10, basic: 4 })).toBe(1000);
+  });
+});
+
+// ============================================================================
+// Economics Tests
+// ============================================================================
+
+describe('scaleLimitsForSeats', () => {
+  it('scales only per-seat limits', () => {
+    const scaled = scaleLimitsForSeats(teamTier, 4);
+    expect(scaled.limits.map(l => l.limit)).toEqual([800, 20, true]);
+  });
+
+  it('scales unlimited usage assumptions', () => {
+    const tier = { limits: [{ featureId: 'ai_chat', limit: 'unlimited' as const, unlimitedUsage: 50, perSeat: true }] };
+    expect(scaleLimitsForSeats(tier, 3).limits[0].unlimitedUsage).toBe(150);
+  });
+});
+
+describe('calculateSeatTierEconomics', () => {
+  it('scales per-seat COGS and revenue with average seats', () => {
+    const economics = calculateSeatTierEconomics(teamTier, variableCosts);
+
+    expect(economics.seats).toBe(4);
+    expect(economics.billedSeats).toBe(4);
+    expect(economics.seatRevenue).toBe(40);
+    expect(economics.revenuePerCustomer).toBe(90);
+    // 800 tokens * 0.01 + 20 GB * 0.1
+    expect(economics.cogsPerCustomer).toBeCloseTo(10);
+    expect(economics.cogsPerSeat).toBeCloseTo(2.5);
+    expect(economics.margin).toBeCloseTo(88.89, 1);
+  });
+
+  it('applies utilization to scaled usage', () => {
+    // 800K tokens at half utilization, plus 20 GB of storage in full
+    expect(calculateSeatTierEconomics(teamTier, variableCosts, 0.5).cogsPerCustomer).toBeCloseTo(6);
+  });
+
+  it('treats tiers without seat pricing as one seat', () => {
+    const economics = calculateSeatTierEconomics(
+      { monthlyPrice: 20, limits: [{ featureId: 'ai_chat', limit: 100, variableCostId: 'ai-tokens', perSeat: true }] },
+      variableCosts
+    );
+    expect(economics).toMatchObject({ seats: 1, billedSeats: 1, seatRevenue: 0, revenuePerCustomer: 20 });
+    expect(economics.cogsPerCustomer).toBeCloseTo(1);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Seat-Based Pricing Calculator
+ * Per-seat revenue, COGS and margin for tiers with a base fee plus seat price
+ */
+
+import type {
+  VariableCostItem,
+  Feature,
+  TierUsageInput,
+  TierSeatPricing,
+  TierSeatEconomics,
+} from '../types';
+import { calculateTierCOGS } from './tier-cogs';
+import { calculateGrossMargin } from './margin';
+
+type FeatureCostRef = Pick<Feature, 'id' | 'costDriver'>;
+
+/**
+ * Tier shape needed for seat-based pricing
+ */
+export interface SeatPricedTier extends TierUsageInput {
+  monthlyPrice: number;
+  seatPricing?: TierSeatPricing;
+}
+
+// ============================================================================
+// Seat Counts
+// ============================================================================
+
+/**
+ * Cap seats at the tier maximum
+ */
+export function getUsedSeats(seatPricing: TierSeatPricing, seats: number): number {
+  const used = Math.max(0, seats);
+  return seatPricing.maxSeats !== undefined ? Math.min(used, seatPricing.maxSeats) : used;
+}
+
+/**
+ * Seats charged for a customer: used seats, raised to the tier minimum
+ */
+export function getBilledSeats(seatPricing: TierSeatPricing, seats: number): number {
+  return Math.max(getUsedSeats(seatPricing, seats), seatPricing.minSeats ?? 0);
+}
+
+// ============================================================================
+// Revenue
+// ============================================================================
+
+/**
+ * Monthly price for one customer: base fee plus billed seats.
+ * Defaults to the tier's average seats; tiers without seat pricing return the base fee.
+ */
+export function calculateSeatPrice(tier: SeatPricedTier, seats?: number): number {
+  const basePrice = Math.max(0, tier.monthlyPrice);
+  if (!tier.seatPricing) return basePrice;
+
+  const billedSeats = getBilledSeats(tier.seatPricing, seats ?? tier.seatPricing.averageSeats);
+  return basePrice + billedSeats * tier.seatPricing.pricePerSeat;
+}
+
+// ============================================================================
+// Tier Economics
+// ============================================================================
+
+/**
+ * Scale per-seat limits by a seat count so tier COGS reflects the whole customer
+ */
+export function scaleLimitsForSeats<T extends TierUsageInput>(tier: T, seats: number): T {
+  return {
+    ...tier,
+    limits: tier.limits.map(limit => {
+      if (!limit.perSeat) return limit;
+      if (typeof limit.limit === 'number') return { ...limit, limit: limit.limit * seats };
+      if (limit.limit === 'unlimited' && limit.unlimitedUsage !== undefined) {
+        return { ...limit, unlimitedUsage: limit.unlimitedUsage * seats };
+      }
+      return limit;
+    }),
+  };
+}
+
+/**
+ * Calculate revenue, COGS and margin per customer for a tier at its average seats.
+ * Tiers without seat pricing are treated as a single seat at the base fee.
+ */
+export function calculateSeatTierEconomics(
+  tier: SeatPricedTier,
+  variableCosts: VariableCostItem[],
+  utilizationRate: number = 1,
+  features: FeatureCostRef[] = []
+): TierSeatEconomics {
+  const basePrice = Math.max(0, tier.monthlyPrice);
+  const seatPricing = tier.seatPricing;
+  const seats = seatPricing ? getUsedSeats(seatPricing, seatPricing.averageSeats) : 1;
+  const billedSeats = seatPricing ? getBilledSeats(seatPricing, seatPricing.averageSeats) : 1;
+  const seatRevenue = seatPricing ? billedSeats * seatPricing.pricePerSeat : 0;
+  const revenuePerCustomer = basePrice + seatRevenue;
+
+  const cogsPerCustomer = calculateTierCOGS(
+    scaleLimitsForSeats(tier, seats),
+    variableCosts,
+    utilizationRate,
+    features
+  ).total;
+
+  return {
+    seats,
+    billedSeats,
+    basePrice,
+    seatRevenue,
+    revenuePerCustomer,
+    cogsPerCustomer,
+    cogsPerSeat: seats > 0 ? cogsPerCustomer / seats : 0,
+    margin: calculateGrossMargin(revenuePerCustomer, cogsPerCustomer),
+  };
+}
@@ -0,0 +1,106 @@
+/**
+ * Sensitivity Calculator Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateTornadoSensitivity } from './sensitivity';
+import type { TornadoParams } from '../types';
+
+// ============================================================================
+// Test Data
+// ============================================================================
+
+const params: TornadoParams = {
+  variableCosts: [
+    { id: 'ai-tokens', name: 'AI tokens', unit: '1K tokens', costPerUnit: 0.05, usagePerCustomer: 100, description: '' },
+  ],
+  fixedCosts: [{ id: 'hosting', name: 'Hosting', monthlyCost: 500, description: '' }],
+  tiers: [
+    { id: 'free', name: 'Free', monthlyPrice: 0, limits: [{ featureId: 'ai', limit: 20, variableCostId: 'ai-tokens' }] },
+    { id: 'pro', name: 'Pro', monthlyPrice: 50, limits: [{ featureId: 'ai', limit: 200, variableCostId: 'ai-tokens' }] },
+  ],
+  features: [],
+  customerCount: 100,
+  utilizationRate: 0.5,
+  tierDistribution: { free: 50, pro: 50 },
+  monthlyChurnRate: 5,
+  conversionRate: 2,
+  months: 1,
+};
+
+// ============================================================================
+// Tornado Tests
+// ============================================================================
+
+describe('calculateTornadoSensitivity', () => {
+  it('evaluates the baseline from the projected customer base', () => {
+    const result = calculateTornadoSensitivity(params);
+
+    // 50 free churn to 47.5 then 0.95 convert; 50 pro churn to 47.5 then gain 0.95
+    expect(result.baseline.mrr).toBeCloseTo(48.45 * 50);
+    const variableCosts = 46.55 * 0.5 + 48.45 * 5;
+    expect(result.baseline.monthlyProfit).toBeCloseTo(48.45 * 50 - variableCosts - 500);
+    expect(result.baseline.grossMargin).toBeCloseTo(((48.45 * 50 - variableCosts) / (48.45 * 50)) * 100);
+  });
+
+  it('lists every input with values swung by the given percentage', () => {
+    const { bars, swingPercent } = calculateTornadoSensitivity(params);
+    const byId = new Map(bars.map(bar => [bar.id, bar]));
+
+    expect(swingPercent).toBe(20);
+    expect([...byId.keys()].sort()).toEqual([
+      'ai-tokens:costPerUnit',
+      'ai-tokens:usagePerCustomer',
+      'conversionRate',
+      'free:share',
+      'hosting:monthlyCost',
+      'monthlyChurnRate',
+      'pro:share',
+      'utilizationRate',
+    ]);
+    expect(byId.get('hosting:monthlyCost')).toMatchObject({ baseValue: 500, lowValue: 400, highValue: 600 });
+    expect(byId.get('utilizationRate')?.highValue).toBeCloseTo(0.6);
+  });
+
+  it('ranks inputs by their effect on monthly profit', () => {
+    const { bars, rankBy } = calculateTornadoSensitivity(params);
+
+    expect(rankBy).toBe('monthlyProfit');
+    expect(bars.map(bar => bar.spread)).toEqual([...bars.map(bar => bar.spread)].sort((a, b) => b - a));
+    const hosting = bars.find(bar => bar.id === 'hosting:monthlyCost');
+    expect(hosting?.spread).toBeCloseTo(200);
+    expect(hosting?.high.monthlyProfit).toBeLessThan(hosting?.low.monthlyProfit ?? 0);
+  });
+
+  it('scales the tier limits that drive usage costs', () => {
+    const { bars } = calculateTornadoSensitivity(params);
+    const usage = bars.find(bar => bar.id === 'ai-tokens:usagePerCustomer');
+
+    expect(usage).toMatchObject({ baseValue: 100, lowValue: 80, highValue: 120 });
+    expect(usage?.spread).toBeGreaterThan(0);
+    // ±20% usage moves costs as much as ±20% unit cost
+    expect(usage?.spread).toBeCloseTo(bars.find(bar => bar.id === 'ai-tokens:costPerUnit')?.spread ?? 0);
+  });
+
+  it('ranks by gross margin, where fixed costs have no effect', () => {
+    const { bars } = calculateTornadoSensitivity({ ...params, rankBy: 'grossMargin' });
+
+    expect(bars.find(bar => bar.id === 'hosting:monthlyCost')?.spread).toBe(0);
+    expect(bars[0].spread).toBeGreaterThan(0);
+  });
+
+  it('compounds churn and conversion over the horizon', () => {
+    const short = calculateTornadoSensitivity(params).bars.find(bar => bar.id === 'monthlyChurnRate');
+    const long = calculateTornadoSensitivity({ ...params, months: 12 }).bars.find(bar => bar.id === 'monthlyChurnRate');
+
+    expect(short?.spread).toBeGreaterThan(0);
+    expect(long?.spread).toBeGreaterThan(short?.spread ?? 0);
+  });
+
+  it('caps rates at their valid range', () => {
+    const { bars } = calculateTornadoSensitivity({ ...params, utilizationRate: 1, swingPercent: 50 });
+    const utilization = bars.find(bar => bar.id === 'utilizationRate');
+
+    expect(utilization).toMatchObject({ lowValue: 0.5, highValue: 1 });
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Sensitivity Calculator
+ * Tornado analysis: perturb each model input and rank which ones move
+ * gross margin and monthly profit the most
+ */
+
+import type {
+  TornadoBar,
+  TornadoInputCategory,
+  TornadoMetric,
+  TornadoOutcome,
+  TornadoParams,
+  TornadoResult,
+} from '../types';
+import { clamp } from '../utils';
+import { calculateRevenueProjection } from './projection';
+import { calculateSeatTierEconomics } from './seat-pricing';
+import { resolveLimitCost } from './tier-cogs';
+
+const DEFAULT_MONTHS = 12;
+const DEFAULT_SWING_PERCENT = 20;
+
+interface TornadoInput {
+  id: string;
+  label: string;
+  category: TornadoInputCategory;
+  baseValue: number;
+  /** Largest valid value (rates can't exceed 100%) */
+  max: number;
+  apply: (params: TornadoParams, value: number) => TornadoParams;
+}
+
+// ============================================================================
+// Model
+// ============================================================================
+
+/**
+ * Project the current customer base forward and read the metrics at the final month,
+ * so churn and conversion compound over the horizon
+ */
+function evaluateModel(params: TornadoParams, months: number): TornadoOutcome {
+  const { tiers, tierDistribution, customerCount } = params;
+  const weightTotal = tiers.reduce((sum, tier) => sum + Math.max(0, tierDistribution[tier.id] ?? 0), 0);
+
+  const startingCustomers: Record<string, number> = {};
+  const projectionTiers = tiers.map(tier => {
+    const weight = Math.max(0, tierDistribution[tier.id] ?? 0);
+    startingCustomers[tier.id] = weightTotal > 0 ? (customerCount * weight) / weightTotal : 0;
+    const economics = calculateSeatTierEconomics(tier, params.variableCosts, params.utilizationRate, params.features);
+    return {
+      id: tier.id,
+      price: economics.revenuePerCustomer,
+      variableCostPerCustomer: economics.cogsPerCustomer,
+      signupMix: weight,
+    };
+  });
+
+  const projection = calculateRevenueProjection({
+    tiers: projectionTiers,
+    months,
+    startingCustomers,
+    monthlySignups: params.monthlySignups ?? 0,
+    monthlyChurnRate: params.monthlyChurnRate,
+    conversionRate: params.conversionRate,
+    fixedCostsMonthly: params.fixedCosts.reduce((sum, item) => sum + item.monthlyCost, 0),
+  });
+  const last = projection.months[projection.months.length - 1];
+
+  return {
+    grossMargin: last.grossMargin,
+    monthlyProfit: last.netIncome,
+    mrr: last.mrr,
+  };
+}
+
+// ============================================================================
+// Inputs
+// ============================================================================
+
+/**
+ * Scale the usage of a variable cost item by `value / usagePerCustomer`.
+ * Tier COGS come from tier limits, so every numeric limit and `unlimitedUsage`
+ * linked to the item scales with it; `usagePerCustomer` itself only drives
+ * unlimited limits without an `unlimitedUsage`.
+ */
+function scaleItemUsage(params: TornadoParams, itemId: string, value: number): TornadoParams {
+  const item = params.variableCosts.find(cost => cost.id === itemId);
+  if (!item) return params;
+  const scale = item.usagePerCustomer > 0 ? value / item.usagePerCustomer : 1;
+
+  return {
+    ...params,
+    variableCosts: params.variableCosts.map(cost => (cost.id === itemId ? { ...cost, usagePerCustomer: value } : cost)),
+    tiers: params.tiers.map(tier => ({
+      ...tier,
+      limits: tier.limits.map(limit => {
+        if (resolveLimitCost(limit, params.variableCosts, params.features)?.item?.id !== itemId) return limit;
+        if (typeof limit.limit === 'number') return { ...limit, limit: limit.limit * scale };
+        if (limit.limit === 'unlimited' && limit.unlimitedUsage !== undefined) {
+          return { ...limit, unlimitedUsage: limit.unlimitedUsage * scale };
+        }
+        return limit;
+      }),
+    })),
+  };
+}
+
+function listInputs(params: TornadoParams): TornadoInput[] {
+  const inputs: TornadoInput[] = [];
+
+  for (const item of params.variableCosts) {
+    inputs.push({
+      id: `${item.id}:costPerUnit`,
+      label: `${item.name} cost per ${item.unit}`,
+      category: 'costPerUnit',
+      baseValue: item.costPerUnit,
+      max: Infinity,
+      apply: (p, value) => ({
+        ...p,
+        variableCosts: p.variableCosts.map(cost => (cost.id === item.id ? { ...cost, costPerUnit: value } : cost)),
+      }),
+    });
+    inputs.push({
+      id: `${item.id}:usagePerCustomer`,
+      label: `${item.name} usage per customer`,
+      category: 'usagePerCustomer',
+      baseValue: item.usagePerCustomer,
+      max: Infinity,
+      apply: (p, value) => scaleItemUsage(p, item.id, value),
+    });
+  }
+
+  for (const item of params.fixedCosts) {
+    inputs.push({
+      id: `${item.id}:monthlyCost`,
+      label: item.name,
+      category: 'fixedCost',
+      baseValue: item.monthlyCost,
+      max: Infinity,
+      apply: (p, value) => ({
+        ...p,
+        fixedCosts: p.fixedCosts.map(cost => (cost.id === item.id ? { ...cost, monthlyCost: value } : cost)),
+      }),
+    });
+  }
+
+  inputs.push(
+    {
+      id: 'utilizationRate',
+      label: 'Utilization rate',
+      category: 'utilizationRate',
+      baseValue: params.utilizationRate,
+      max: 1,
+      apply: (p, value) => ({ ...p, utilizationRate: value }),
+    },
+    {
+      id: 'monthlyChurnRate',
+      label: 'Monthly churn',
+      category: 'churnRate',
+      baseValue: params.monthlyChurnRate,
+      max: 100,
+      apply: (p, value) => ({ ...p, monthlyChurnRate: value }),
+    },
+    {
+      id: 'conversionRate',
+      label: 'Free-to-paid conversion',
+      category: 'conversionRate',
+      baseValue: params.conversionRate,
+      max: 100,
+      apply: (p, value) => ({ ...p, conversionRate: value }),
+    }
+  );
+
+  // Tier shares are relative weights, so changing one shifts customers from the others
+  for (const tier of params.tiers) {
+    const weight = params.tierDistribution[tier.id] ?? 0;
+    if (weight <= 0) continue;
+    inputs.push({
+      id: `${tier.id}:share`,
+      label: `${tier.name} share of customers`,
+      category: 'tierMix',
+      baseValue: weight,
+      max: Infinity,
+      apply: (p, value) => ({ ...p, tierDistribution: { ...p.tierDistribution, [tier.id]: value } }),
+    });
+  }
+
+  return inputs;
+}
+
+// ============================================================================
+// Tornado
+// ============================================================================
+
+/**
+ * Perturb every input by ±swingPercent (one at a time, others held at baseline)
+ * and rank inputs by how far they move the chosen metric.
+ *
+ * Metrics are read from month `months` of a revenue projection that starts
+ * from the current customer base. Inputs at zero have no effect and are
+ * still listed, with a spread of 0.
+ */
+export function calculateTornadoSensitivity(params: TornadoParams): TornadoResult {
+  const months = Math.max(1, Math.round(params.months ?? DEFAULT_MONTHS));
+  const swingPercent = Math.max(0, params.swingPercent ?? DEFAULT_SWING_PERCENT);
+  const rankBy: TornadoMetric = params.rankBy ?? 'monthlyProfit';
+  const swing = swingPercent / 100;
+
+  const bars: TornadoBar[] = listInputs(params).map(input => {
+    const lowValue = clamp(input.baseValue * (1 - swing), 0, input.max);
+    const highValue = clamp(input.baseValue * (1 + swing), 0, input.max);
+    const low = evaluateModel(input.apply(params, lowValue), months);
+    const high = evaluateModel(input.apply(params, highValue), months);
+
+    return {
+      id: input.id,
+      label: input.label,
+      category: input.category,
+      baseValue: input.baseValue,
+      lowValue,
+      highValue,
+      low,
+      high,
+      spread: Math.abs(high[rankBy] - low[rankBy]),
+    };
+  });
+
+  return {
+    baseline: evaluateModel(params, months),
+    swingPercent,
+    months,
+    rankBy,
+    bars: bars.sort((a, b) => b.spread - a.spread),
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * Sales Tax Calculator Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getPriceExcludingTax,
+  getPriceIncludingTax,
+  getTaxAmount,
+  getTierPricesExcludingTax,
+} from './tax';
+import type { TaxSettings } from '../types';
+
+// ============================================================================
+// Test Data
+// ============================================================================
+
+const sst: TaxSettings = { rate: 0.08, inclusive: true, label: 'SST' };
+const salesTax: TaxSettings = { rate: 0.08, inclusive: false, label: 'Sales tax' };
+
+// ============================================================================
+// Price Tests
+// ============================================================================
+
+describe('getPriceExcludingTax', () => {
+  it('takes the tax out of inclusive prices', () => {
+    expect(getPriceExcludingTax(108, sst)).toBeCloseTo(100);
+  });
+
+  it('keeps exclusive and untaxed prices as entered', () => {
+    expect(getPriceExcludingTax(100, salesTax)).toBe(100);
+    expect(getPriceExcludingTax(100)).toBe(100);
+  });
+});
+
+describe('getPriceIncludingTax', () => {
+  it('adds the tax to exclusive prices', () => {
+    expect(getPriceIncludingTax(100, salesTax)).toBeCloseTo(108);
+    expect(getPriceIncludingTax(108, sst)).toBe(108);
+    expect(getPriceIncludingTax(100, null)).toBe(100);
+  });
+});
+
+describe('getTaxAmount', () => {
+  it('returns the tax collected per sale', () => {
+    expect(getTaxAmount(108, sst)).toBeCloseTo(8);
+    expect(getTaxAmount(100, salesTax)).toBeCloseTo(8);
+    expect(getTaxAmount(100)).toBe(0);
+  });
+});
+
+// ============================================================================
+// Tier Tests
+// ============================================================================
+
+describe('getTierPricesExcludingTax', () => {
+  it('nets monthly and seat prices of inclusive tax', () => {
+    const tier = { monthlyPrice: 108, seatPricing: { pricePerSeat: 54, averageSeats: 3 } };
+
+    const result = getTierPricesExcludingTax(tier, sst);
+
+    expect(result.monthlyPrice).toBeCloseTo(100);
+    expect(result.seatPricing?.pricePerSeat).toBeCloseTo(50);
+    expect(result.seatPricing?.averageSeats).toBe(3);
+    expect(getTierPricesExcludingTax(tier, salesTax)).toBe(tier);
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Sales Tax Calculator
+ * Converts prices between tax-inclusive and tax-exclusive amounts for VAT, GST and SST
+ */
+
+import type { TaxSettings, TierSeatPricing } from '../types';
+
+/**
+ * Price net of tax: the revenue a sale actually earns.
+ * Inclusive prices have the tax taken out; exclusive prices already are net.
+ */
+export function getPriceExcludingTax(price: number, tax?: TaxSettings | null): number {
+  if (!tax || !tax.inclusive) return price;
+  return price / (1 + tax.rate);
+}
+
+/**
+ * Price the customer pays, with tax added to exclusive prices
+ */
+export function getPriceIncludingTax(price: number, tax?: TaxSettings | null): number {
+  if (!tax || tax.inclusive) return price;
+  return price * (1 + tax.rate);
+}
+
+/**
+ * Tax collected on one sale at this price
+ */
+export function getTaxAmount(price: number, tax?: TaxSettings | null): number {
+  return getPriceIncludingTax(price, tax) - getPriceExcludingTax(price, tax);
+}
+
+/**
+ * A tier with its monthly and seat prices net of tax, for revenue and margin calculations
+ */
+export function getTierPricesExcludingTax<T extends { monthlyPrice: number; seatPricing?: TierSeatPricing }>(
+  tier: T,
+  tax?: TaxSettings | null
+): T {
+  if (!tax || !tax.inclusive) return tier;
+  return {
+    ...tier,
+    monthlyPrice: getPriceExcludingTax(tier.monthlyPrice, tax),
+    ...(tier.seatPricing
+      ? { seatPricing: { ...tier.seatPricing, pricePerSeat: getPriceExcludingTax(tier.seatPricing.pricePerSeat, tax) } }
+      : {}),
+  };
+}
@@ -0,0 +1,152 @@
+/**
+ * Tier COGS Calculator Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  resolveLimitCost,
+  getLimitUsage,
+  calculateTierCOGS,
+  groupTierCOGSByCostItem,
+} from './tier-cogs';
+import type { VariableCostItem, TierUsageInput } from '../types';
+
+// ============================================================================
+// Test Data
+// ============================================================================
+
+const variableCosts: VariableCostItem[] = [
+  {
+    id: 'api-calls',
+    name: 'API calls',
+    unit: 'requests',
+    costPerUnit: 0.001,
+    usagePerCustomer: 5000,
+    description: 'Per request',
+  },
+  {
+    id: 'storage',
+    name: 'Storage',
+    unit: 'GB',
+    costPerUnit: 0.1,
+    usagePerCustomer: 2,
+    description: 'Per GB/month',
+  },
+];
+
+const features = [
+  { id: 'api_access', costDriver: 'api-calls' },
+  { id: 'file_storage', costDriver: 'storage' },
+  { id: 'emails', costDriver: 'email' },
+  { id: 'custom_domain' },
+];
+
+// ============================================================================
+// Cost Resolution Tests
+// ============================================================================
+
+describe('resolveLimitCost', () => {
+  it('prefers the explicit variableCostId', () => {
+    const resolved = resolveLimitCost(
+      { featureId: 'file_storage', limit: 10, variableCostId: 'api-calls' },
+      variableCosts,
+      features
+    );
+    expect(resolved?.item?.id).toBe('api-calls');
+    expect(resolved?.costPerUnit).toBe(0.001);
+  });
+
+  it('falls back to the feature cost driver when the linked item is missing', () => {
+    const resolved = resolveLimitCost(
+      { featureId: 'file_storage', limit: 10, variableCostId: 'deleted' },
+      variableCosts,
+      features
+    );
+    expect(resolved?.item?.id).toBe('storage');
+  });
+
+  it('uses the COST_DRIVERS default when no cost item is configured', () => {
+    const resolved = resolveLimitCost({ featureId: 'emails', limit: 100 }, variableCosts, features);
+    expect(resolved?.item).toBeNull();
+    expect(resolved?.costDriver).toBe('email');
+    expect(resolved?.costPerUnit).toBe(0.005);
+  });
+
+  it('returns null for limits without a cost link', () => {
+    expect(resolveLimitCost({ featureId: 'custom_domain', limit: 1 }, variableCosts, features)).toBeNull();
+    expect(resolveLimitCost({ featureId: 'unknown', limit: 1 }, variableCosts)).toBeNull();
+  });
+});
+
+describe('getLimitUsage', () => {
+  it('returns numeric limits as-is', () => {
+    expect(getLimitUsage({ featureId: 'a', limit: 250 })).toBe(250);
+  });
+
+  it('uses unlimitedUsage for unlimited limits', () => {
+    expect(getLimitUsage({ featureId: 'a', limit: 'unlimited', unlimitedUsage: 900 })).toBe(900);
+  });
+
+  it('falls back to the cost item usage for unlimited limits', () => {
+    expect(getLimitUsage({ featureId: 'a', limit: 'unlimited' }, variableCosts[0])).toBe(5000);
+  });
+
+  it('returns 0 for boolean limits', () => {
+    expect(getLimitUsage({ featureId: 'a', limit: true })).toBe(0);
+  });
+});
+
+// ============================================================================
+// Tier COGS Tests
+// ============================================================================
+
+describe('calculateTierCOGS', () => {
+  const tier: TierUsageInput = {
+    limits: [
+      { featureId: 'api_access', limit: 10000 },
+      { featureId: 'file_storage', limit: 'unlimited', unlimitedUsage: 50 },
+      { featureId: 'custom_domain', limit: true },
+    ],
+  };
+
+  it('sums usage-driven costs for arbitrary drivers', () => {
+    const result = calculateTierCOGS(tier, variableCosts, 1, features);
+    // 10000 * 0.001 + 50 * 0.1 = 10 + 5
+    expect(result.total).toBeCloseTo(15);
+    expect(result.lines).toHaveLength(2);
+  });
+
+  it('applies the utilization rate to usage but not storage', () => {
+    const result = calculateTierCOGS(tier, variableCosts, 0.5, features);
+    // 10000 * 0.001 * 0.5 + 50 * 0.1
+    expect(result.total).toBeCloseTo(10);
+  });
+
+  it('recognizes storage items linked by ID from their unit', () => {
+    const result = calculateTierCOGS(
+      { limits: [{ featureId: 'dataroom', limit: 20, variableCostId: 'storage' }] },
+      variableCosts,
+      0.5
+    );
+    expect(result.total).toBeCloseTo(2);
+  });
+
+  it('returns zero cost when nothing is linked', () => {
+    const result = calculateTierCOGS(tier, variableCosts, 1);
+    expect(result.total).toBe(0);
+    expect(result.lines).toEqual([]);
+  });
+
+  it('groups costs by variable cost item', () => {
+    const result = calculateTierCOGS(
+      {
+        limits: [
+          { featureId: 'a', limit: 100, variableCostId: 'api-calls' },
+          { featureId: 'b', limit: 300, variableCostId: 'api-calls' },
+        ],
+      },
+      variableCosts
+    );
+    expect(groupTierCOGSByCostItem(result)).toEqual({ 'api-calls': 0.4 });
+  });
+});
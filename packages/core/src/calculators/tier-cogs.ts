@@ -0,0 +1,135 @@
+/**
+ * Tier COGS Calculator
+ * Usage-driven variable costs per tier, for any cost driver
+ */
+
+import type {
+  VariableCostItem,
+  Feature,
+  TierUsageInput,
+  TierCostLine,
+  TierCOGS,
+} from '../types';
+import { COST_DRIVERS } from '../data';
+
+type TierUsageLimit = TierUsageInput['limits'][number];
+type FeatureCostRef = Pick<Feature, 'id' | 'costDriver'>;
+
+// Units of stored data, e.g. "GB" or "TB/month"
+const STORAGE_UNIT_PATTERN = /^(kb|mb|gb|tb)\b/i;
+
+// ============================================================================
+// Cost Resolution
+// ============================================================================
+
+/**
+ * Resolve the unit cost a tier limit consumes.
+ *
+ * Resolution order:
+ * 1. The limit's explicit `variableCostId`
+ * 2. A variable cost item whose ID matches the feature's cost driver
+ * 3. The variable cost item mapped by `COST_DRIVERS[driver].variableCostId`
+ * 4. The driver's `defaultCostPerUnit` when no item is configured
+ *
+ * Returns null when the limit is not linked to any cost.
+ */
+export function resolveLimitCost(
+  limit: TierUsageLimit,
+  variableCosts: VariableCostItem[],
+  features: FeatureCostRef[] = []
+): { item: VariableCostItem | null; costDriver: string | null; costPerUnit: number } | null {
+  const costDriver = features.find(f => f.id === limit.featureId)?.costDriver ?? null;
+
+  if (limit.variableCostId) {
+    const item = variableCosts.find(c => c.id === limit.variableCostId);
+    if (item) return { item, costDriver, costPerUnit: item.costPerUnit };
+  }
+
+  if (!costDriver) return null;
+
+  const driver = COST_DRIVERS[costDriver];
+  const item =
+    variableCosts.find(c => c.id === costDriver) ??
+    (driver?.variableCostId ? variableCosts.find(c => c.id === driver.variableCostId) : undefined);
+
+  if (item) return { item, costDriver, costPerUnit: item.costPerUnit };
+  if (driver) return { item: null, costDriver, costPerUnit: driver.defaultCostPerUnit };
+  return null;
+}
+
+/**
+ * Get the usage a customer on this limit is expected to consume at 100% utilization.
+ * Unlimited limits use `unlimitedUsage`, falling back to the cost item's average usage.
+ */
+export function getLimitUsage(
+  limit: TierUsageLimit,
+  item: VariableCostItem | null = null
+): number {
+  if (typeof limit.limit === 'number') return Math.max(0, limit.limit);
+  if (limit.limit === 'unlimited') {
+    return limit.unlimitedUsage ?? item?.usagePerCustomer ?? 0;
+  }
+  return 0;
+}
+
+/**
+ * Whether a resolved cost is for storage: the storage driver, or an item billed per unit of data.
+ * Storage is held for the whole month rather than used up, so utilization does not reduce it.
+ */
+function isStorageCost(item: VariableCostItem | null, costDriver: string | null): boolean {
+  if (costDriver === 'storage') return true;
+  const unit = item?.unit ?? (costDriver ? COST_DRIVERS[costDriver]?.unit : undefined);
+  return unit !== undefined && STORAGE_UNIT_PATTERN.test(unit.trim());
+}
+
+// ============================================================================
+// Tier COGS
+// ============================================================================
+
+/**
+ * Calculate variable COGS per customer for a tier.
+ * Each limit linked to a cost (see `resolveLimitCost`) contributes
+ * usage * cost per unit * utilization rate; storage costs are not scaled by utilization.
+ */
+export function calculateTierCOGS(
+  tier: TierUsageInput,
+  variableCosts: VariableCostItem[],
+  utilizationRate: number = 1,
+  features: FeatureCostRef[] = []
+): TierCOGS {
+  const lines: TierCostLine[] = [];
+
+  for (const limit of tier.limits) {
+    if (typeof limit.limit === 'boolean') continue;
+
+    const resolved = resolveLimitCost(limit, variableCosts, features);
+    if (!resolved) continue;
+
+    const usage = getLimitUsage(limit, resolved.item);
+    const utilization = isStorageCost(resolved.item, resolved.costDriver) ? 1 : utilizationRate;
+    lines.push({
+      featureId: limit.featureId,
+      variableCostId: resolved.item?.id ?? null,
+      costDriver: resolved.costDriver,
+      usage,
+      costPerUnit: resolved.costPerUnit,
+      cost: usage * resolved.costPerUnit * utilization,
+    });
+  }
+
+  return {
+    lines,
+    total: lines.reduce((sum, line) => sum + line.cost, 0),
+  };
+}
+
+/**
+ * Group tier cost lines by variable cost item (or driver when no item is configured)
+ */
+export function groupTierCOGSByCostItem(tierCOGS: TierCOGS): Record<string, number> {
+  return tierCOGS.lines.reduce<Record<string, number>>((acc, line) => {
+    const key = line.variableCostId ?? line.costDriver ?? line.featureId;
+    acc[key] = (acc[key] ?? 0) + line.cost;
+    return acc;
+  }, {});
+}
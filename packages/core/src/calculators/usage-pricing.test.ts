@@ -0,0 +1,141 @@
+/**
+ * Usage-Based Pricing Calculator Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getOveragePrice,
+  calculateOverage,
+  calculateUsageBasedRevenue,
+  calculateUsageBasedRevenueByTier,
+} from './usage-pricing';
+import type { VariableCostItem, UsageSegment } from '../types';
+
+// ============================================================================
+// Test Data
+// ============================================================================
+
+const variableCosts: VariableCostItem[] = [
+  {
+    id: 'api-calls',
+    name: 'API calls',
+    unit: 'requests',
+    costPerUnit: 0.001,
+    usagePerCustomer: 5000,
+    description: 'Per request',
+  },
+];
+
+const features = [{ id: 'api_access', costDriver: 'api-calls' }];
+
+const proTier = {
+  id: 'pro',
+  monthlyPrice: 100,
+  limits: [
+    { featureId: 'api_access', limit: 10000, overagePrice: 0.01 },
+    { featureId: 'sso', limit: true },
+  ],
+};
+
+const segments: UsageSegment[] = [
+  { weight: 3, usage: { api_access: 5000 } },
+  { weight: 1, usage: { api_access: 30000 } },
+];
+
+// ============================================================================
+// Overage Tests
+// ============================================================================
+
+describe('getOveragePrice', () => {
+  it('returns the price for metered numeric limits', () => {
+    expect(getOveragePrice({ featureId: 'a', limit: 10, overagePrice: 0.5 })).toBe(0.5);
+  });
+
+  it('returns null for hard, unlimited and boolean limits', () => {
+    expect(getOveragePrice({ featureId: 'a', limit: 10 })).toBeNull();
+    expect(getOveragePrice({ featureId: 'a', limit: 'unlimited', overagePrice: 0.5 })).toBeNull();
+    expect(getOveragePrice({ featureId: 'a', limit: true, overagePrice: 0.5 })).toBeNull();
+  });
+});
+
+describe('calculateOverage', () => {
+  it('bills usage beyond the included quota', () => {
+    expect(calculateOverage({ featureId: 'a', limit: 100, overagePrice: 0.5 }, 150)).toEqual({
+      consumed: 150,
+      overageUnits: 50,
+      charge: 25,
+    });
+  });
+
+  it('caps usage at a hard limit', () => {
+    expect(calculateOverage({ featureId: 'a', limit: 100 }, 150)).toEqual({
+      consumed: 100,
+      overageUnits: 0,
+      charge: 0,
+    });
+  });
+
+  it('does not bill unlimited usage', () => {
+    expect(calculateOverage({ featureId: 'a', limit: 'unlimited' }, 150).charge).toBe(0);
+  });
+});
+
+// ============================================================================
+// Revenue Tests
+// ============================================================================
+
+describe('calculateUsageBasedRevenue', () => {
+  it('computes expected revenue, overage share and margin', () => {
+    const result = calculateUsageBasedRevenue(proTier, segments, variableCosts, features);
+
+    // 25% of customers use 20,000 extra calls at MYR 0.01
+    expect(result.overageRevenue).toBeCloseTo(50);
+    expect(result.expectedRevenue).toBeCloseTo(150);
+    expect(result.overageShare).toBeCloseTo(33.33, 1);
+
+    // Expected usage 0.75 * 5,000 + 0.25 * 30,000 = 11,250 calls
+    expect(result.lines).toHaveLength(1);
+    expect(result.lines[0].expectedUsage).toBeCloseTo(11250);
+    expect(result.lines[0].expectedOverageUnits).toBeCloseTo(5000);
+    expect(result.expectedCOGS).toBeCloseTo(11.25);
+    expect(result.margin).toBeCloseTo(92.5);
+  });
+
+  it('assumes full limit usage without a distribution', () => {
+    const result = calculateUsageBasedRevenue(proTier, [], variableCosts, features);
+    expect(result.overageRevenue).toBe(0);
+    expect(result.expectedRevenue).toBe(100);
+    expect(result.expectedCOGS).toBeCloseTo(10);
+  });
+
+  it('caps cost at hard limits', () => {
+    const hardTier = { monthlyPrice: 100, limits: [{ featureId: 'api_access', limit: 10000 }] };
+    const result = calculateUsageBasedRevenue(hardTier, segments, variableCosts, features);
+    expect(result.overageRevenue).toBe(0);
+    expect(result.lines[0].expectedUsage).toBeCloseTo(0.75 * 5000 + 0.25 * 10000);
+  });
+
+  it('includes metered limits without a linked cost', () => {
+    const tier = { monthlyPrice: 0, limits: [{ featureId: 'seats', limit: 1, overagePrice: 20 }] };
+    const result = calculateUsageBasedRevenue(tier, [{ weight: 1, usage: { seats: 3 } }], variableCosts);
+    expect(result.overageRevenue).toBe(40);
+    expect(result.overageShare).toBe(100);
+    expect(result.expectedCOGS).toBe(0);
+  });
+});
+
+describe('calculateUsageBasedRevenueByTier', () => {
+  it('keys results by tier and defaults to full usage', () => {
+    const freeTier = { id: 'free', monthlyPrice: 0, limits: [{ featureId: 'api_access', limit: 1000 }] };
+    const result = calculateUsageBasedRevenueByTier(
+      [freeTier, proTier],
+      { pro: segments },
+      variableCosts,
+      features
+    );
+
+    expect(Object.keys(result)).toEqual(['free', 'pro']);
+    expect(result.free.expectedCOGS).toBeCloseTo(1);
+    expect(result.pro.expectedRevenue).toBeCloseTo(150);
+  });
+});
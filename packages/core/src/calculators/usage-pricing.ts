@@ -0,0 +1,154 @@
+/**
+ * Usage-Based Pricing Calculator
+ * Expected revenue, overage share and margin for tiers with metered overages
+ */
+
+import type {
+  VariableCostItem,
+  Feature,
+  TierUsageInput,
+  UsageSegment,
+  UsageOverageLine,
+  UsageTierRevenue,
+} from '../types';
+import { resolveLimitCost, getLimitUsage } from './tier-cogs';
+import { calculateGrossMargin } from './margin';
+
+type TierUsageLimit = TierUsageInput['limits'][number];
+type FeatureCostRef = Pick<Feature, 'id' | 'costDriver'>;
+
+/**
+ * Tier shape needed for usage-based revenue
+ */
+export interface UsagePricedTier extends TierUsageInput {
+  id?: string;
+  monthlyPrice: number;
+}
+
+// ============================================================================
+// Overage Charges
+// ============================================================================
+
+/**
+ * Get the overage price of a limit, or null when usage beyond it is blocked.
+ * Only numeric limits can be metered.
+ */
+export function getOveragePrice(limit: TierUsageLimit): number | null {
+  if (typeof limit.limit !== 'number' || limit.overagePrice === undefined) return null;
+  return Math.max(0, limit.overagePrice);
+}
+
+/**
+ * Split a customer's usage into consumed and billable overage units.
+ * Without an overage price the limit is hard and usage is capped at it.
+ */
+export function calculateOverage(
+  limit: TierUsageLimit,
+  usage: number
+): { consumed: number; overageUnits: number; charge: number } {
+  const requested = Math.max(0, usage);
+  if (typeof limit.limit !== 'number') {
+    return { consumed: requested, overageUnits: 0, charge: 0 };
+  }
+
+  const included = Math.max(0, limit.limit);
+  const price = getOveragePrice(limit);
+  if (price === null) {
+    return { consumed: Math.min(requested, included), overageUnits: 0, charge: 0 };
+  }
+
+  const overageUnits = Math.max(0, requested - included);
+  return { consumed: requested, overageUnits, charge: overageUnits * price };
+}
+
+// ============================================================================
+// Usage-Based Revenue
+// ============================================================================
+
+/**
+ * Normalize segment weights to shares summing to 1.
+ * An empty distribution is one segment using every limit in full.
+ */
+function normalizeSegments(segments: UsageSegment[]): Array<{ share: number; usage: Record<string, number> }> {
+  const totalWeight = segments.reduce((sum, s) => sum + Math.max(0, s.weight), 0);
+  if (totalWeight <= 0) return [{ share: 1, usage: {} }];
+  return segments.map(s => ({ share: Math.max(0, s.weight) / totalWeight, usage: s.usage }));
+}
+
+/**
+ * Calculate expected revenue, overage share and margin per customer for a tier,
+ * given how its customers' usage is distributed.
+ * Limits linked to a cost (see `resolveLimitCost`) are costed on consumed usage.
+ */
+export function calculateUsageBasedRevenue(
+  tier: UsagePricedTier,
+  segments: UsageSegment[],
+  variableCosts: VariableCostItem[],
+  features: FeatureCostRef[] = []
+): UsageTierRevenue {
+  const shares = normalizeSegments(segments);
+  const lines: UsageOverageLine[] = [];
+
+  for (const limit of tier.limits) {
+    if (typeof limit.limit === 'boolean') continue;
+
+    const resolved = resolveLimitCost(limit, variableCosts, features);
+    const overagePrice = getOveragePrice(limit);
+    if (!resolved && overagePrice === null) continue;
+
+    const fullUsage = getLimitUsage(limit, resolved?.item ?? null);
+    let expectedUsage = 0;
+    let expectedOverageUnits = 0;
+    let overageRevenue = 0;
+
+    for (const { share, usage } of shares) {
+      const overage = calculateOverage(limit, usage[limit.featureId] ?? fullUsage);
+      expectedUsage += overage.consumed * share;
+      expectedOverageUnits += overage.overageUnits * share;
+      overageRevenue += overage.charge * share;
+    }
+
+    lines.push({
+      featureId: limit.featureId,
+      includedUnits: limit.limit,
+      overagePrice,
+      expectedUsage,
+      expectedOverageUnits,
+      overageRevenue,
+      cost: expectedUsage * (resolved?.costPerUnit ?? 0),
+    });
+  }
+
+  const basePrice = Math.max(0, tier.monthlyPrice);
+  const overageRevenue = lines.reduce((sum, line) => sum + line.overageRevenue, 0);
+  const expectedRevenue = basePrice + overageRevenue;
+  const expectedCOGS = lines.reduce((sum, line) => sum + line.cost, 0);
+
+  return {
+    basePrice,
+    overageRevenue,
+    expectedRevenue,
+    overageShare: expectedRevenue > 0 ? (overageRevenue / expectedRevenue) * 100 : 0,
+    expectedCOGS,
+    margin: calculateGrossMargin(expectedRevenue, expectedCOGS),
+    lines,
+  };
+}
+
+/**
+ * Calculate usage-based revenue for every tier.
+ * Tiers without a distribution are assumed to use their limits in full.
+ */
+export function calculateUsageBasedRevenueByTier(
+  tiers: Array<UsagePricedTier & { id: string }>,
+  distributions: Record<string, UsageSegment[]>,
+  variableCosts: VariableCostItem[],
+  features: FeatureCostRef[] = []
+): Record<string, UsageTierRevenue> {
+  return Object.fromEntries(
+    tiers.map(tier => [
+      tier.id,
+      calculateUsageBasedRevenue(tier, distributions[tier.id] ?? [], variableCosts, features),
+    ])
+  );
+}
@@ -0,0 +1,291 @@
+/**
+ * Cost Import
+ * Turn vendor bills (e.g. exported cloud invoices) into fixed and variable cost items
+ */
+
+import type {
+  CostImportField,
+  CostImportMapping,
+  CostImportOptions,
+  CostImportResult,
+  FixedCostItem,
+  VariableCostItem,
+} from '../types';
+
+export const COST_IMPORT_FIELDS: CostImportField[] = ['name', 'amount', 'period', 'usage', 'unit', 'type'];
+
+/**
+ * Header names recognized for each field, most specific first
+ */
+const FIELD_HEADERS: Record<CostImportField, string[]> = {
+  name: ['vendor', 'name', 'service', 'provider', 'item', 'description', 'product'],
+  amount: ['amount', 'cost', 'total', 'charge', 'price', 'subtotal'],
+  period: ['billing period', 'period', 'month', 'invoice date', 'date'],
+  usage: ['usage quantity', 'usage', 'quantity', 'qty'],
+  unit: ['usage unit', 'unit', 'units', 'uom'],
+  type: ['cost type', 'type', 'kind'],
+};
+
+/**
+ * Recurring periods an amount may be billed for, in months
+ */
+const PERIOD_MONTHS = new Map<string, number>([
+  ['weekly', 12 / 52],
+  ['monthly', 1],
+  ['quarterly', 3],
+  ['annual', 12],
+  ['annually', 12],
+  ['yearly', 12],
+]);
+
+// ============================================================================
+// CSV Parsing
+// ============================================================================
+
+/**
+ * Parse CSV text into trimmed rows, skipping empty lines.
+ * Handles quoted fields, a byte-order mark, and comma, semicolon or tab delimiters
+ * (detected from the first line).
+ */
+export function parseCsv(content: string): string[][] {
+  const text = content.replace(/^\uFEFF/, '');
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const count = (delimiter: string) => firstLine.split(delimiter).length;
+  const delimiter = [';', '\t'].reduce((best, d) => (count(d) > count(best) ? d : best), ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      quoted = true;
+      field = '';
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows
+    .map(cells => cells.map(cell => cell.trim()))
+    .filter(cells => cells.some(cell => cell !== ''));
+}
+
+/**
+ * Parse a billed amount such as "RM1,234.50", "$12", "1.234,50" or "(20.00)".
+ * Returns null when the value holds no number.
+ */
+export function parseCostAmount(value: string): number | null {
+  const trimmed = value.trim();
+  const negative = /^-|^\(.*\)$/.test(trimmed);
+  let digits = trimmed.replace(/[^\d.,]/g, '');
+  if (!/\d/.test(digits)) return null;
+
+  // A trailing comma with one or two decimals is a decimal comma (1.234,50)
+  if (digits.lastIndexOf(',') > digits.lastIndexOf('.') && /,\d{1,2}$/.test(digits)) {
+    digits = digits.replace(/\./g, '').replace(',', '.');
+  } else {
+    digits = digits.replace(/,/g, '');
+  }
+
+  const amount = Number(digits);
+  if (!Number.isFinite(amount)) return null;
+  return negative ? -amount : amount;
+}
+
+// ============================================================================
+// Column Mapping
+// ============================================================================
+
+/**
+ * Guess which column holds each field from the header row.
+ * Exact header matches win over headers that merely contain a known name.
+ */
+export function guessCostImportMapping(headers: string[]): Partial<CostImportMapping> {
+  const normalized = headers.map(header => header.trim().toLowerCase());
+  const mapping: Partial<Record<CostImportField, number>> = {};
+  const used = new Set<number>();
+
+  const matchers = [
+    (header: string, alias: string) => header === alias,
+    (header: string, alias: string) => header.includes(alias),
+  ];
+  for (const matches of matchers) {
+    for (const field of COST_IMPORT_FIELDS) {
+      if (mapping[field] !== undefined) continue;
+      for (const alias of FIELD_HEADERS[field]) {
+        const index = normalized.findIndex((header, i) => !used.has(i) && matches(header, alias));
+        if (index >= 0) {
+          mapping[field] = index;
+          used.add(index);
+          break;
+        }
+      }
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Check that a mapping has the required name and amount columns
+ */
+export function isCompleteCostImportMapping(
+  mapping: Partial<CostImportMapping>
+): mapping is CostImportMapping {
+  return mapping.name !== undefined && mapping.amount !== undefined;
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+interface CostGroup {
+  name: string;
+  unit: string;
+  monthlyAmount: number;
+  monthlyUsage: number;
+  periods: Set<string>;
+  costType?: 'variable' | 'fixed';
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function uniqueId(prefix: string, name: string, taken: Set<string>): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'cost';
+  let id = `${prefix}-${slug}`;
+  for (let n = 2; taken.has(id); n++) {
+    id = `${prefix}-${slug}-${n}`;
+  }
+  taken.add(id);
+  return id;
+}
+
+/**
+ * Convert mapped bill rows (without the header row) into cost items.
+ *
+ * Rows for the same vendor and unit are combined and averaged over their distinct
+ * billing periods; amounts billed weekly, quarterly or yearly are converted to monthly.
+ * A row is a variable cost when it has usage (cost per unit = amount / usage, spread
+ * over `customerCount`), otherwise a fixed cost, unless a type column says otherwise.
+ * Imported items matching an existing item's name are listed in `duplicates`.
+ */
+export function importCostRows(rows: string[][], options: CostImportOptions): CostImportResult {
+  const { mapping, customerCount, existing } = options;
+  const warnings: string[] = [];
+  const groups = new Map<string, CostGroup>();
+
+  rows.forEach((row, index) => {
+    // Line numbers as shown in a spreadsheet, after the header row
+    const line = index + 2;
+    const cell = (field: CostImportField) => {
+      const column = mapping[field];
+      return column === undefined ? '' : (row[column] ?? '').trim();
+    };
+
+    const name = cell('name');
+    if (!name) {
+      warnings.push(`Line ${line}: missing name`);
+      return;
+    }
+    const amount = parseCostAmount(cell('amount'));
+    if (amount === null) {
+      warnings.push(`Line ${line}: invalid amount "${cell('amount')}" for ${name}`);
+      return;
+    }
+    const usage = cell('usage') ? parseCostAmount(cell('usage')) : 0;
+    if (usage === null) {
+      warnings.push(`Line ${line}: invalid usage "${cell('usage')}" for ${name}`);
+      return;
+    }
+
+    const period = cell('period');
+    const recurringMonths = PERIOD_MONTHS.get(period.toLowerCase());
+    const unit = cell('unit');
+    const key = `${normalizeName(name)}|${unit.toLowerCase()}`;
+    const group = groups.get(key) ?? { name, unit, monthlyAmount: 0, monthlyUsage: 0, periods: new Set<string>() };
+
+    group.monthlyAmount += amount / (recurringMonths ?? 1);
+    group.monthlyUsage += usage / (recurringMonths ?? 1);
+    if (period && recurringMonths === undefined) group.periods.add(period);
+
+    const type = cell('type').toLowerCase();
+    if (type.startsWith('fixed')) group.costType = 'fixed';
+    else if (type.startsWith('variable')) group.costType = 'variable';
+
+    groups.set(key, group);
+  });
+
+  const existingVariable = existing?.variableCosts ?? [];
+  const existingFixed = existing?.fixedCosts ?? [];
+  const takenIds = new Set([...existingVariable, ...existingFixed].map(item => item.id));
+  const existingByName = new Map(
+    [...existingVariable, ...existingFixed].map(item => [normalizeName(item.name), item.id])
+  );
+
+  const result: CostImportResult = { variableCosts: [], fixedCosts: [], duplicates: [], warnings };
+
+  for (const group of groups.values()) {
+    const periods = Math.max(1, group.periods.size);
+    const monthlyAmount = group.monthlyAmount / periods;
+    const monthlyUsage = group.monthlyUsage / periods;
+    const description = periods > 1 ? `Imported from bills, averaged over ${periods} periods` : 'Imported from bills';
+
+    let costType = group.costType ?? (monthlyUsage > 0 ? 'variable' : 'fixed');
+    if (costType === 'variable' && monthlyUsage <= 0) {
+      warnings.push(`${group.name}: variable cost without usage, imported as a fixed cost`);
+      costType = 'fixed';
+    }
+
+    let id: string;
+    if (costType === 'variable') {
+      id = uniqueId('var', group.name, takenIds);
+      const item: VariableCostItem = {
+        id,
+        name: group.name,
+        unit: group.unit || 'units',
+        costPerUnit: monthlyAmount / monthlyUsage,
+        usagePerCustomer: monthlyUsage / Math.max(1, customerCount),
+        description,
+      };
+      result.variableCosts.push(item);
+    } else {
+      id = uniqueId('fix', group.name, takenIds);
+      const item: FixedCostItem = { id, name: group.name, monthlyCost: monthlyAmount, description };
+      result.fixedCosts.push(item);
+    }
+
+    const existingId = existingByName.get(normalizeName(group.name));
+    if (existingId) {
+      result.duplicates.push({ id, name: group.name, costType, existingId });
+    }
+  }
+
+  return result;
+}
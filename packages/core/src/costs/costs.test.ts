@@ -0,0 +1,151 @@
+/**
+ * Cost Import Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseCsv,
+  parseCostAmount,
+  guessCostImportMapping,
+  isCompleteCostImportMapping,
+  importCostRows,
+} from './index';
+import type { CostImportMapping } from '../types';
+
+// ============================================================================
+// CSV Parsing Tests
+// ============================================================================
+
+describe('parseCsv', () => {
+  it('parses quoted fields with delimiters, quotes and newlines', () => {
+    const rows = parseCsv('\uFEFFVendor,Amount\r\n"Acme, Inc.","1,200.00"\r\n"Say ""hi""","line\nbreak"\r\n\r\n');
+    expect(rows).toEqual([
+      ['Vendor', 'Amount'],
+      ['Acme, Inc.', '1,200.00'],
+      ['Say "hi"', 'line\nbreak'],
+    ]);
+  });
+
+  it('detects semicolon and tab delimiters', () => {
+    expect(parseCsv('Vendor;Amount\nAWS;12,50')).toEqual([['Vendor', 'Amount'], ['AWS', '12,50']]);
+    expect(parseCsv('Vendor\tAmount\nAWS\t12')).toEqual([['Vendor', 'Amount'], ['AWS', '12']]);
+  });
+});
+
+describe('parseCostAmount', () => {
+  it('handles currency symbols, separators and negatives', () => {
+    expect(parseCostAmount('RM1,234.50')).toBe(1234.5);
+    expect(parseCostAmount('$12')).toBe(12);
+    expect(parseCostAmount('1.234,50')).toBe(1234.5);
+    expect(parseCostAmount('12,5')).toBe(12.5);
+    expect(parseCostAmount('1,234')).toBe(1234);
+    expect(parseCostAmount('(20.00)')).toBe(-20);
+    expect(parseCostAmount('-5')).toBe(-5);
+    expect(parseCostAmount('n/a')).toBeNull();
+  });
+});
+
+// ============================================================================
+// Mapping Tests
+// ============================================================================
+
+describe('guessCostImportMapping', () => {
+  it('maps exact and partial header names', () => {
+    const mapping = guessCostImportMapping(['Service', 'Billing Period', 'Amount (USD)', 'Usage Quantity', 'Usage Unit']);
+    expect(mapping).toEqual({ name: 0, period: 1, amount: 2, usage: 3, unit: 4 });
+    expect(isCompleteCostImportMapping(mapping)).toBe(true);
+  });
+
+  it('reports incomplete mappings', () => {
+    const mapping = guessCostImportMapping(['Foo', 'Amount']);
+    expect(mapping).toEqual({ amount: 1 });
+    expect(isCompleteCostImportMapping(mapping)).toBe(false);
+  });
+});
+
+// ============================================================================
+// Import Tests
+// ============================================================================
+
+const mapping: CostImportMapping = { name: 0, amount: 1, period: 2, usage: 3, unit: 4 };
+
+describe('importCostRows', () => {
+  it('averages usage-based bills into a variable cost per customer', () => {
+    const result = importCostRows(
+      [
+        ['OpenAI', '100', '2026-01', '1000000', 'tokens'],
+        ['OpenAI', '$140', '2026-02', '1400000', 'tokens'],
+      ],
+      { mapping, customerCount: 100 }
+    );
+
+    expect(result.variableCosts).toEqual([{
+      id: 'var-openai',
+      name: 'OpenAI',
+      unit: 'tokens',
+      costPerUnit: 0.0001,
+      usagePerCustomer: 12000,
+      description: 'Imported from bills, averaged over 2 periods',
+    }]);
+    expect(result.fixedCosts).toEqual([]);
+  });
+
+  it('imports bills without usage as monthly fixed costs', () => {
+    const result = importCostRows(
+      [
+        ['Vercel', '20', 'monthly', '', ''],
+        ['Sentry', '312', 'yearly', '', ''],
+      ],
+      { mapping, customerCount: 100 }
+    );
+
+    expect(result.fixedCosts.map(item => [item.id, item.monthlyCost])).toEqual([
+      ['fix-vercel', 20],
+      ['fix-sentry', 26],
+    ]);
+  });
+
+  it('respects a type column', () => {
+    const result = importCostRows(
+      [['Database', '50', '', '10', 'GB', 'Fixed'], ['Email', '10', '', '', '', 'variable']],
+      { mapping: { ...mapping, type: 5 }, customerCount: 10 }
+    );
+
+    expect(result.fixedCosts.map(item => item.name)).toEqual(['Database', 'Email']);
+    expect(result.warnings).toEqual(['Email: variable cost without usage, imported as a fixed cost']);
+  });
+
+  it('flags duplicates of existing items and keeps ids unique', () => {
+    const result = importCostRows(
+      [['Hosting', '40', '', '', '']],
+      {
+        mapping,
+        customerCount: 100,
+        existing: {
+          variableCosts: [],
+          fixedCosts: [{ id: 'fix-hosting', name: 'hosting', monthlyCost: 30, description: '' }],
+        },
+      }
+    );
+
+    expect(result.fixedCosts[0].id).toBe('fix-hosting-2');
+    expect(result.duplicates).toEqual([
+      { id: 'fix-hosting-2', name: 'Hosting', costType: 'fixed', existingId: 'fix-hosting' },
+    ]);
+  });
+
+  it('skips invalid rows with a warning per line', () => {
+    const result = importCostRows(
+      [['', '10', '', '', ''], ['AWS', 'n/a', '', '', ''], ['AWS', '10', '', 'lots', 'GB']],
+      { mapping, customerCount: 100 }
+    );
+
+    expect(result.fixedCosts).toEqual([]);
+    expect(result.variableCosts).toEqual([]);
+    expect(result.warnings).toEqual([
+      'Line 2: missing name',
+      'Line 3: invalid amount "n/a" for AWS',
+      'Line 4: invalid usage "lots" for AWS',
+    ]);
+  });
+});
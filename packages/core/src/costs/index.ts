@@ -0,0 +1,13 @@
+/**
+ * Cost exports
+ * Re-exports cost import from vendor bills
+ */
+
+export {
+  COST_IMPORT_FIELDS,
+  parseCsv,
+  parseCostAmount,
+  guessCostImportMapping,
+  isCompleteCostImportMapping,
+  importCostRows,
+} from './cost-import';
@@ -72,6 +72,14 @@ export const PAYBACK_PERIOD_THRESHOLDS = {
  */
 export const MONTHS_PER_YEAR = 12;
 
+/**
+ * Revenue projection horizon limits in months
+ */
+export const PROJECTION_HORIZON = {
+  DEFAULT_MONTHS: 36,
+  MAX_MONTHS: 60,
+} as const;
+
 // ============================================================================
 // AI Cost Estimation Constants
 // ============================================================================
@@ -127,79 +135,112 @@ export const TOKEN_FORMAT_THRESHOLDS = {
 // ============================================================================
 
 /**
- * Supported currencies with exchange rates relative to MYR
+ * Build a currency from its ISO 4217 code and the locale its amounts are written in.
+ * Minor units, symbol position and separators come from Intl.NumberFormat; `symbol`
+ * overrides the local symbol where it is shared across markets ($, ¥).
+ */
+function defineCurrency(
+  code: CurrencyCode,
+  name: string,
+  locale: string,
+  rate: number,
+  symbol?: string
+): Currency {
+  const format = new Intl.NumberFormat(locale, { style: 'currency', currency: code, currencyDisplay: 'narrowSymbol' });
+  const parts = format.formatToParts(1234.5);
+  const part = (type: Intl.NumberFormatPartTypes) => parts.find(p => p.type === type)?.value.replace(/[\u00A0\u202F]/g, ' ');
+
+  return {
+    code,
+    symbol: symbol ?? part('currency') ?? code,
+    name,
+    rate,
+    locale,
+    position: parts.findIndex(p => p.type === 'currency') < parts.findIndex(p => p.type === 'integer') ? 'before' : 'after',
+    decimalPlaces: format.resolvedOptions().maximumFractionDigits ?? 2,
+    thousandsSeparator: part('group') ?? ',',
+    decimalSeparator: part('decimal') ?? '.',
+  };
+}
+
+/**
+ * Supported currencies: every currency with European Central Bank reference rates,
+ * plus regional currencies the ECB doesn't publish (VND, TWD, AED). Rates are a
+ * bundled snapshot against MYR, used when no live or manual exchange rates are available.
  */
 export const CURRENCIES: Record<CurrencyCode, Currency> = {
-  MYR: {
-    code: 'MYR',
-    symbol: 'RM',
-    name: 'Malaysian Ringgit',
-    rate: 1,
-    position: 'before',
-    decimalPlaces: 2,
-    thousandsSeparator: ',',
-    decimalSeparator: '.',
-  },
-  USD: {
-    code: 'USD',
-    symbol: '$',
-    name: 'US Dollar',
-    rate: 0.22,
-    position: 'before',
-    decimalPlaces: 2,
-    thousandsSeparator: ',',
-    decimalSeparator: '.',
-  },
-  SGD: {
-    code: 'SGD',
-    symbol: 'S$',
-    name: 'Singapore Dollar',
-    rate: 0.29,
-    position: 'before',
-    decimalPlaces: 2,
-    thousandsSeparator: ',',
-    decimalSeparator: '.',
-  },
-  EUR: {
-    code: 'EUR',
-    symbol: '\u20AC',
-    name: 'Euro',
-    rate: 0.20,
-    position: 'before',
-    decimalPlaces: 2,
-    thousandsSeparator: '.',
-    decimalSeparator: ',',
-  },
-  GBP: {
-    code: 'GBP',
-    symbol: '\u00A3',
-    name: 'British Pound',
-    rate: 0.17,
-    position: 'before',
-    decimalPlaces: 2,
-    thousandsSeparator: ',',
-    decimalSeparator: '.',
-  },
-  AUD: {
-    code: 'AUD',
-    symbol: 'A$',
-    name: 'Australian Dollar',
-    rate: 0.33,
-    position: 'before',
-    decimalPlaces: 2,
-    thousandsSeparator: ',',
-    decimalSeparator: '.',
-  },
-} as const;
+  MYR: defineCurrency('MYR', 'Malaysian Ringgit', 'en-MY', 1),
+  USD: defineCurrency('USD', 'US Dollar', 'en-US', 0.22),
+  SGD: defineCurrency('SGD', 'Singapore Dollar', 'en-SG', 0.29, 'S$'),
+  EUR: defineCurrency('EUR', 'Euro', 'de-DE', 0.20),
+  GBP: defineCurrency('GBP', 'British Pound', 'en-GB', 0.17),
+  AUD: defineCurrency('AUD', 'Australian Dollar', 'en-AU', 0.33, 'A$'),
+  JPY: defineCurrency('JPY', 'Japanese Yen', 'ja-JP', 33, '\u00A5'),
+  INR: defineCurrency('INR', 'Indian Rupee', 'en-IN', 18.7),
+  IDR: defineCurrency('IDR', 'Indonesian Rupiah', 'id-ID', 3520),
+  PHP: defineCurrency('PHP', 'Philippine Peso', 'en-PH', 12.5),
+  THB: defineCurrency('THB', 'Thai Baht', 'th-TH', 7.5),
+  VND: defineCurrency('VND', 'Vietnamese Dong', 'vi-VN', 5720),
+  CNY: defineCurrency('CNY', 'Chinese Yuan', 'zh-CN', 1.58, 'CN\u00A5'),
+  HKD: defineCurrency('HKD', 'Hong Kong Dollar', 'en-HK', 1.72, 'HK$'),
+  TWD: defineCurrency('TWD', 'New Taiwan Dollar', 'zh-TW', 7.0, 'NT$'),
+  KRW: defineCurrency('KRW', 'South Korean Won', 'ko-KR', 308),
+  NZD: defineCurrency('NZD', 'New Zealand Dollar', 'en-NZ', 0.385, 'NZ$'),
+  CAD: defineCurrency('CAD', 'Canadian Dollar', 'en-CA', 0.30, 'CA$'),
+  CHF: defineCurrency('CHF', 'Swiss Franc', 'de-CH', 0.19),
+  SEK: defineCurrency('SEK', 'Swedish Krona', 'sv-SE', 2.3),
+  NOK: defineCurrency('NOK', 'Norwegian Krone', 'nb-NO', 2.4),
+  DKK: defineCurrency('DKK', 'Danish Krone', 'da-DK', 1.5),
+  PLN: defineCurrency('PLN', 'Polish Zloty', 'pl-PL', 0.88),
+  CZK: defineCurrency('CZK', 'Czech Koruna', 'cs-CZ', 5.1),
+  HUF: defineCurrency('HUF', 'Hungarian Forint', 'hu-HU', 81),
+  BRL: defineCurrency('BRL', 'Brazilian Real', 'pt-BR', 1.23),
+  MXN: defineCurrency('MXN', 'Mexican Peso', 'es-MX', 4.1, 'MX$'),
+  ZAR: defineCurrency('ZAR', 'South African Rand', 'en-ZA', 4.0),
+  TRY: defineCurrency('TRY', 'Turkish Lira', 'tr-TR', 7.7),
+  ILS: defineCurrency('ILS', 'Israeli New Shekel', 'he-IL', 0.79),
+  AED: defineCurrency('AED', 'UAE Dirham', 'en-AE', 0.81),
+};
+
+/**
+ * Every supported currency code, in CURRENCIES order
+ */
+export const CURRENCY_CODES = Object.keys(CURRENCIES) as CurrencyCode[];
 
 export const DEFAULT_CURRENCY: CurrencyCode = 'MYR';
 
+/**
+ * When the bundled CURRENCIES rates were last updated
+ */
+export const CURRENCY_RATES_UPDATED_AT = '2026-01-01T00:00:00.000Z';
+
+// ============================================================================
+// Project File
+// ============================================================================
+
+/**
+ * Current schema version of project state, shared by `basedpricer.json`
+ * files and projects saved in browser storage
+ */
+export const PROJECT_SCHEMA_VERSION = 2;
+
+/**
+ * Current schema version of shared report payloads
+ */
+export const REPORT_SCHEMA_VERSION = 2;
+
+/**
+ * Conventional project file name, looked up in the working directory
+ */
+export const PROJECT_FILE_NAME = 'basedpricer.json';
+
 // ============================================================================
 // Default Pricing
 // ============================================================================
 
 /**
- * Default tier prices in MYR
+ * Default tier prices, in DEFAULT_CURRENCY.
+ * Convert with convertCurrency for projects in another base currency.
  */
 export const DEFAULT_PRICES = {
   FREEMIUM: 0,
@@ -214,7 +255,7 @@ export const DEFAULT_PRICES = {
 export const DISCOUNT_PRESETS = [10, 15, 17, 20, 25] as const;
 
 /**
- * Default unit costs in MYR
+ * Default unit costs, in DEFAULT_CURRENCY
  */
 export const UNIT_COSTS = {
   EXTRACTION: 0.30,
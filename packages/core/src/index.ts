@@ -8,6 +8,7 @@
  * - Investor metrics (LTV, CAC, ARR)
  * - AI cost estimation
  * - Currency formatting and conversion
+ * - Exchange rates from bundled, manual or live sources
  */
 
 // ============================================================================
@@ -16,6 +17,7 @@
 
 export type {
   // Costs
+  CostDistribution,
   VariableCostItem,
   FixedCostItem,
   CostBreakdown,
@@ -30,10 +32,24 @@ export type {
   Currency,
   CurrencyCode,
 
+  // Exchange Rates
+  ExchangeRates,
+  ExchangeRateMatrix,
+  ExchangeRateProvider,
+  ExchangeRateCache,
+
   // Tiers
   TierStatus,
   TierLimit,
+  TierSeatPricing,
   Tier,
+  TierUsageInput,
+  TierCostLine,
+  TierCOGS,
+  UsageSegment,
+  UsageOverageLine,
+  UsageTierRevenue,
+  TierSeatEconomics,
   TierDisplayConfig,
 
   // Features
@@ -46,24 +62,123 @@ export type {
 
   // AI
   AIProvider,
+  CustomAIProviderId,
+  AIProviderId,
+  AIProviderProtocol,
   AIModelPricing,
   ProviderPricing,
+  AIProviderDefinition,
+  ChatMessage,
+  ChatTokenUsage,
+  ChatResponse,
+  ChatOptions,
+  ChatClient,
 
   // Analysis
   TechStack,
   CodebaseAnalysis,
+  CostSuggestion,
+  AnalysisTreeItem,
+  AnalysisFile,
+  CodebaseSnapshot,
+  DetectedFeature,
+  SuggestedTier,
+  BusinessTypeDetection,
+  AnalysisNarrative,
+  AnalysisResult,
+  QuickAnalysisResult,
 
   // Investor Metrics
   ValuationProjection,
   MilestoneTarget,
   InvestorMetrics,
 
+  // Revenue Projection
+  ProjectionTierInput,
+  ProjectionParams,
+  ProjectionMonth,
+  ProjectionCohort,
+  RevenueProjection,
+
+  // Monte Carlo
+  MonteCarloParams,
+  SimulationHistogramBin,
+  SimulationSummary,
+  MonteCarloResult,
+
+  // Sensitivity
+  TornadoMetric,
+  TornadoInputCategory,
+  TornadoParams,
+  TornadoOutcome,
+  TornadoBar,
+  TornadoResult,
+
+  // Price Solver
+  PriceSolverTargets,
+  PriceSolverParams,
+  SolvedTierPrice,
+  PriceSolverConstraintCheck,
+  PriceSolverResult,
+
+  // Scenario Comparison
+  ScenarioMetricsInput,
+  ScenarioMetrics,
+
+  // Sales Tax
+  TaxSettings,
+
+  // Price Books
+  PriceRounding,
+  PriceBook,
+  MarketPricingInput,
+  MarketTierPrice,
+  MarketPricing,
+
+  // Actuals
+  MonthlyActuals,
+  ActualsPlanInput,
+  CostVariance,
+  TierMarginVariance,
+  ActualsVariance,
+  UsageCalibration,
+
+  // Project File
+  ProjectScenario,
+  ProjectTier,
+  ProjectFeature,
+  ProjectFile,
+  ProjectAmounts,
+
+  // Migrations
+  MigrationPayload,
+  Migration,
+  MigrationOutcome,
+
   // Reports
   StakeholderType,
   ReportData,
+  ReportTierInput,
+  ReportDocumentInput,
+  ReportMetric,
+  ReportBlock,
+  ReportSection,
+  ReportDocument,
+  SpreadsheetFormat,
+  SpreadsheetValue,
+  SpreadsheetCell,
+  SpreadsheetSheet,
+  SpreadsheetWorkbook,
 
   // Cost Drivers
   CostDriverConfig,
+
+  // Cost Import
+  CostImportField,
+  CostImportMapping,
+  CostImportOptions,
+  CostImportDuplicate,
+  CostImportResult,
 } from './types';
 
 // ============================================================================
@@ -72,6 +187,7 @@ export type {
 
 export {
   // Cost schemas
+  CostDistributionSchema,
   VariableCostItemSchema,
   FixedCostItemSchema,
   CostBreakdownSchema,
@@ -83,6 +199,7 @@ export {
   // Tier schemas
   TierStatusSchema,
   TierLimitSchema,
+  TierSeatPricingSchema,
   TierSchema,
 
   // Feature schemas
@@ -95,15 +212,30 @@ export {
 
   // AI schemas
   AIProviderSchema,
+  CustomAIProviderIdSchema,
+  AIProviderProtocolSchema,
+  AIModelPricingSchema,
+  AIProviderDefinitionSchema,
 
   // Currency schemas
   CurrencyCodeSchema,
+  ExchangeRatesSchema,
   CurrencySchema,
 
   // Report schemas
   StakeholderTypeSchema,
   ReportDataSchema,
 
+  // Project file schemas
+  ProjectScenarioSchema,
+  TaxSettingsSchema,
+  PriceBookSchema,
+  MonthlyActualsSchema,
+  ProjectTierLimitSchema,
+  ProjectTierSchema,
+  ProjectFeatureSchema,
+  ProjectFileSchema,
+
   // Collection schemas
   VariableCostItemsSchema,
   FixedCostItemsSchema,
@@ -135,6 +267,7 @@ export {
   LTV_CAC_THRESHOLDS,
   PAYBACK_PERIOD_THRESHOLDS,
   MONTHS_PER_YEAR,
+  PROJECTION_HORIZON,
 
   // AI Estimation Constants
   AI_ESTIMATION,
@@ -145,7 +278,14 @@ export {
 
   // Currency
   CURRENCIES,
+  CURRENCY_CODES,
   DEFAULT_CURRENCY,
+  CURRENCY_RATES_UPDATED_AT,
+
+  // Project file
+  PROJECT_SCHEMA_VERSION,
+  REPORT_SCHEMA_VERSION,
+  PROJECT_FILE_NAME,
 
   // Pricing defaults
   DEFAULT_PRICES,
@@ -208,6 +348,58 @@ export {
   isMarginHealthy,
   isMarginAcceptable,
 
+  // Tier COGS Calculator
+  resolveLimitCost,
+  getLimitUsage,
+  calculateTierCOGS,
+  groupTierCOGSByCostItem,
+
+  // Usage-Based Pricing Calculator
+  getOveragePrice,
+  calculateOverage,
+  calculateUsageBasedRevenue,
+  calculateUsageBasedRevenueByTier,
+
+  // Seat-Based Pricing Calculator
+  getUsedSeats,
+  getBilledSeats,
+  calculateSeatPrice,
+  scaleLimitsForSeats,
+  calculateSeatTierEconomics,
+
+  // Revenue Projection Calculator
+  calculateRevenueProjection,
+
+  // Monte Carlo Simulator
+  sampleDistribution,
+  calculatePercentile,
+  summarizeSamples,
+  simulateMonteCarlo,
+
+  // Sensitivity Calculator
+  calculateTornadoSensitivity,
+
+  // Price Solver
+  roundToCharmPrice,
+  solveTierPrices,
+
+  // Scenario Calculator
+  calculateScenarioMetrics,
+
+  // Sales Tax Calculator
+  getPriceExcludingTax,
+  getPriceIncludingTax,
+  getTaxAmount,
+  getTierPricesExcludingTax,
+
+  // Price Book Calculator
+  roundMarketPrice,
+  calculateMarketPricing,
+
+  // Actuals Calculator
+  calculateActualsVariance,
+  suggestUsageCalibration,
+
   // Investor Metrics Calculator
   calculateValuation,
   calculateARR,
@@ -239,6 +431,8 @@ export {
 } from './calculators';
 
 export type {
+  UsagePricedTier,
+  SeatPricedTier,
   TokenUsage,
   AICostBreakdown,
   CostEstimate,
@@ -272,3 +466,134 @@ export {
   applyDiscount,
   calculateAnnualPrice,
 } from './utils';
+
+// ============================================================================
+// Exchange Rates
+// ============================================================================
+
+export {
+  EXCHANGE_RATE_SNAPSHOT,
+  getExchangeRate,
+  rebaseExchangeRates,
+  buildExchangeRateMatrix,
+  ExchangeRateError,
+  createSnapshotRateProvider,
+  createManualRateProvider,
+  createFrankfurterRateProvider,
+  createOpenExchangeRateProvider,
+  readCachedExchangeRates,
+  createCachedRateProvider,
+  createFallbackRateProvider,
+} from './rates';
+
+export type { FetchRateProviderOptions, CachedRateProviderOptions } from './rates';
+
+// ============================================================================
+// Project File
+// ============================================================================
+
+export {
+  validateProjectFile,
+  parseProjectFile,
+  createProjectFile,
+  serializeProjectFile,
+  convertProjectCurrency,
+} from './project';
+
+export type { ProjectFileInput } from './project';
+
+// ============================================================================
+// Cost Import
+// ============================================================================
+
+export {
+  COST_IMPORT_FIELDS,
+  parseCsv,
+  parseCostAmount,
+  guessCostImportMapping,
+  isCompleteCostImportMapping,
+  importCostRows,
+} from './costs';
+
+// ============================================================================
+// Codebase Analysis
+// ============================================================================
+
+export {
+  ANALYSIS_FILES,
+  MAX_ANALYSIS_SOURCE_FILES,
+  MAX_ANALYSIS_FILE_SIZE,
+  isAnalyzableSourceFile,
+  selectAnalysisFiles,
+  createCodebaseSnapshot,
+  DEPENDENCY_COST_MAP,
+  extractCostsFromDependencies,
+  groupSuggestionsByCategory,
+  estimateMonthlyCost,
+  quickAnalyzeFromPackageJson,
+  ANALYSIS_SYSTEM_PROMPT,
+  buildAnalysisPrompt,
+  parseAnalysisResponse,
+  analyzeCodebase,
+  mapToFeatureCategory,
+  convertAnalysisToProjectData,
+  createProjectFromAnalysis,
+} from './analysis';
+
+export type {
+  AnalysisFeatureCategory,
+  AnalyzedFeature,
+  AnalyzedTier,
+  AnalysisProjectData,
+  AnalysisProjectInput,
+  AnalyzeCodebaseOptions,
+} from './analysis';
+
+// ============================================================================
+// AI Providers
+// ============================================================================
+
+export {
+  BUILT_IN_AI_PROVIDERS,
+  isCustomProviderId,
+  validateAIProviderDefinition,
+  registerAIProvider,
+  unregisterAIProvider,
+  clearCustomAIProviders,
+  getAIProviderDefinition,
+  listAIProviders,
+  getProviderModelPricing,
+  AIProviderError,
+  createProviderChatClient,
+} from './providers';
+
+export type { ProviderChatClientOptions } from './providers';
+
+// ============================================================================
+// Migrations
+// ============================================================================
+
+export {
+  runMigrations,
+  getSchemaVersion,
+  PROJECT_STATE_MIGRATIONS,
+  migrateProjectState,
+  REPORT_MIGRATIONS,
+  migrateReportData,
+} from './migrations';
+
+// ============================================================================
+// Report Documents
+// ============================================================================
+
+export {
+  REPORT_TITLES,
+  buildReportDocument,
+  formatReportDate,
+  renderReportPdf,
+  buildCostModelWorkbook,
+  workbookToCsv,
+  writeWorkbookXlsx,
+} from './reports';
+
+export type { PdfWriter, XlsxWriter, XlsxWorksheet, XlsxRow } from './reports';
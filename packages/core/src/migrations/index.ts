@@ -0,0 +1,8 @@
+/**
+ * Migration exports
+ * Re-exports schema migration pipelines
+ */
+
+export { runMigrations, getSchemaVersion } from './pipeline';
+export { PROJECT_STATE_MIGRATIONS, migrateProjectState } from './project-state';
+export { REPORT_MIGRATIONS, migrateReportData } from './report';
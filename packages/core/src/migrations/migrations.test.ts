@@ -0,0 +1,175 @@
+/**
+ * Migration Pipeline Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { runMigrations, getSchemaVersion } from './pipeline';
+import { migrateProjectState } from './project-state';
+import { migrateReportData } from './report';
+import type { Migration } from '../types';
+import projectStateV0 from './__fixtures__/project-state-v0.json';
+import projectStateV1 from './__fixtures__/project-state-v1.json';
+import projectStateV2 from './__fixtures__/project-state-v2.json';
+import reportV0 from './__fixtures__/report-v0.json';
+import reportV1 from './__fixtures__/report-v1.json';
+import reportV2 from './__fixtures__/report-v2.json';
+
+// ============================================================================
+// Test Data
+// ============================================================================
+
+const testMigrations: Migration[] = [
+  { version: 1, description: 'add a', migrate: (p) => ({ ...p, a: 1 }) },
+  { version: 2, description: 'rename a to b', migrate: ({ a, ...rest }) => ({ ...rest, b: a }) },
+];
+
+// ============================================================================
+// Pipeline Tests
+// ============================================================================
+
+describe('getSchemaVersion', () => {
+  it('treats unversioned payloads as version 0', () => {
+    expect(getSchemaVersion({})).toBe(0);
+  });
+
+  it('rejects non-integer versions', () => {
+    expect(getSchemaVersion({ schemaVersion: '1' })).toBeNull();
+    expect(getSchemaVersion({ schemaVersion: 1.5 })).toBeNull();
+    expect(getSchemaVersion({ schemaVersion: -1 })).toBeNull();
+  });
+});
+
+describe('runMigrations', () => {
+  it('applies each step in order from the stored version', () => {
+    const result = runMigrations({ x: true }, testMigrations, 2);
+    expect(result).toEqual({
+      success: true,
+      data: {
+        data: { x: true, b: 1, schemaVersion: 2 },
+        fromVersion: 0,
+        applied: ['add a', 'rename a to b'],
+      },
+    });
+  });
+
+  it('skips migrations the payload already has', () => {
+    const result = runMigrations({ schemaVersion: 1, a: 5 }, testMigrations, 2);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data.data).toEqual({ schemaVersion: 2, b: 5 });
+    expect(result.data.applied).toEqual(['rename a to b']);
+  });
+
+  it('does not mutate the input payload', () => {
+    const input = { schemaVersion: 1, a: 5 };
+    runMigrations(input, testMigrations, 2);
+    expect(input).toEqual({ schemaVersion: 1, a: 5 });
+  });
+
+  it('rejects payloads from a newer version', () => {
+    const result = runMigrations({ schemaVersion: 3 }, testMigrations, 2, 'Project');
+    expect(result).toEqual({
+      success: false,
+      error: 'Project schemaVersion 3 is newer than supported version 2',
+    });
+  });
+
+  it('fails when a step is missing', () => {
+    const result = runMigrations({}, [testMigrations[1]], 2);
+    expect(result).toEqual({ success: false, error: 'Payload has no migration to schemaVersion 1' });
+  });
+
+  it('rejects non-object payloads', () => {
+    expect(runMigrations(null, testMigrations, 2).success).toBe(false);
+    expect(runMigrations([], testMigrations, 2).success).toBe(false);
+  });
+});
+
+// ============================================================================
+// Project State Migration Tests
+// ============================================================================
+
+describe('migrateProjectState', () => {
+  it('upgrades an unversioned project to the current version', () => {
+    const result = migrateProjectState(projectStateV0);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data.fromVersion).toBe(0);
+    expect(result.data.data).toEqual(projectStateV2);
+  });
+
+  it('renames MYR price fields and keeps MYR as the base currency', () => {
+    const result = migrateProjectState(projectStateV1);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data.applied).toEqual(['Store amounts in the project base currency']);
+    expect(result.data.data).toEqual(projectStateV2);
+  });
+
+  it('moves a non-MYR version 1 currency to the display currency', () => {
+    const result = migrateProjectState({
+      schemaVersion: 1,
+      currency: 'USD',
+      tiers: [{
+        id: 'team',
+        monthlyPriceMYR: 99,
+        seatPricing: { pricePerSeatMYR: 20, averageSeats: 5 },
+        limits: [{ featureId: 'api', limit: 1000, overagePriceMYR: 0.01 }],
+      }],
+    });
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data.data).toMatchObject({
+      currency: 'MYR',
+      displayCurrency: 'USD',
+      tiers: [{
+        monthlyPrice: 99,
+        seatPricing: { pricePerSeat: 20, averageSeats: 5 },
+        limits: [{ featureId: 'api', limit: 1000, overagePrice: 0.01 }],
+      }],
+    });
+  });
+
+  it('leaves current payloads untouched', () => {
+    const result = migrateProjectState(projectStateV2);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data.applied).toEqual([]);
+    expect(result.data.data).toEqual(projectStateV2);
+  });
+
+  it('keeps malformed items for validation to report', () => {
+    const result = migrateProjectState({ tiers: ['not-a-tier'], customerCount: 'many' });
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data.data.tiers).toEqual(['not-a-tier']);
+    expect(result.data.data.customerCount).toBe('many');
+  });
+});
+
+// ============================================================================
+// Report Migration Tests
+// ============================================================================
+
+describe('migrateReportData', () => {
+  it('upgrades an unversioned report and its state to the current version', () => {
+    const result = migrateReportData(reportV0);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data.data).toEqual(reportV2);
+  });
+
+  it('upgrades version 1 report state to the base currency schema', () => {
+    const result = migrateReportData(reportV1);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data.data).toEqual(reportV2);
+  });
+
+  it('keeps existing notes', () => {
+    const result = migrateReportData({ ...reportV0, notes: { investor: 'Seed round' } });
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data.data.notes).toEqual({ investor: 'Seed round' });
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Migration Pipeline
+ * Upgrade persisted payloads one schema version at a time
+ */
+
+import type { Migration, MigrationOutcome, MigrationPayload } from '../types';
+import type { ValidationResult } from '../schemas';
+
+/**
+ * Read the stored schema version. Payloads written before versioning
+ * was introduced have no `schemaVersion` and are treated as version 0.
+ */
+export function getSchemaVersion(data: MigrationPayload): number | null {
+  const version = data.schemaVersion;
+  if (version === undefined) return 0;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) return null;
+  return version;
+}
+
+/**
+ * Run every migration between the payload's version and `currentVersion`, in order.
+ * Migrations must not mutate their input.
+ */
+export function runMigrations(
+  data: unknown,
+  migrations: Migration[],
+  currentVersion: number,
+  label: string = 'Payload'
+): ValidationResult<MigrationOutcome> {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { success: false, error: `${label} must be a JSON object` };
+  }
+
+  const fromVersion = getSchemaVersion(data as MigrationPayload);
+  if (fromVersion === null) {
+    return { success: false, error: `${label} has an invalid schemaVersion` };
+  }
+  if (fromVersion > currentVersion) {
+    return {
+      success: false,
+      error: `${label} schemaVersion ${fromVersion} is newer than supported version ${currentVersion}`,
+    };
+  }
+
+  let payload = data as MigrationPayload;
+  const applied: string[] = [];
+
+  for (let version = fromVersion + 1; version <= currentVersion; version++) {
+    const migration = migrations.find(m => m.version === version);
+    if (!migration) {
+      return { success: false, error: `${label} has no migration to schemaVersion ${version}` };
+    }
+    payload = migration.migrate(payload);
+    applied.push(migration.description);
+  }
+
+  return {
+    success: true,
+    data: {
+      data: { ...payload, schemaVersion: currentVersion },
+      fromVersion,
+      applied,
+    },
+  };
+}
@@ -0,0 +1,177 @@
+/**
+ * Project State Migrations
+ * Upgrade stored projects and `basedpricer.json` files to the current schema
+ */
+
+import type { Migration, MigrationOutcome, MigrationPayload } from '../types';
+import type { ValidationResult } from '../schemas';
+import { PROJECT_SCHEMA_VERSION } from '../data';
+import { calculateAnnualPrice } from '../utils';
+import { runMigrations } from './pipeline';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isRecord(value: unknown): value is MigrationPayload {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Convert numeric strings (e.g. "49.90" from form inputs) to numbers.
+ * Anything else is returned unchanged for validation to reject.
+ */
+function toNumber(value: unknown): unknown {
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  return value;
+}
+
+function coerceNumbers(item: MigrationPayload, keys: string[]): MigrationPayload {
+  const result = { ...item };
+  for (const key of keys) {
+    if (key in result) {
+      result[key] = toNumber(result[key]);
+    }
+  }
+  return result;
+}
+
+/**
+ * Migrate each object in an array field, leaving missing or malformed fields as-is
+ */
+function mapItems(
+  payload: MigrationPayload,
+  key: string,
+  migrateItem: (item: MigrationPayload) => MigrationPayload
+): MigrationPayload {
+  const value = payload[key];
+  if (!Array.isArray(value)) return payload;
+  return {
+    ...payload,
+    [key]: value.map(item => (isRecord(item) ? migrateItem(item) : item)),
+  };
+}
+
+// ============================================================================
+// Version 1: fill fields missing from pre-versioning payloads
+// ============================================================================
+
+function migrateVariableCostV1(item: MigrationPayload): MigrationPayload {
+  return {
+    description: '',
+    ...coerceNumbers(item, ['costPerUnit', 'usagePerCustomer']),
+  };
+}
+
+function migrateFixedCostV1(item: MigrationPayload): MigrationPayload {
+  return {
+    description: '',
+    ...coerceNumbers(item, ['monthlyCost']),
+  };
+}
+
+function migrateTierV1(item: MigrationPayload): MigrationPayload {
+  const tier: MigrationPayload = {
+    tagline: '',
+    targetAudience: '',
+    annualDiscount: 0,
+    status: 'active',
+    limits: [],
+    includedFeatures: [],
+    excludedFeatures: [],
+    highlightFeatures: [],
+    ...coerceNumbers(item, ['monthlyPriceMYR', 'annualPriceMYR', 'annualDiscount']),
+  };
+
+  if (tier.annualPriceMYR === undefined && typeof tier.monthlyPriceMYR === 'number') {
+    const discount = typeof tier.annualDiscount === 'number' ? tier.annualDiscount : 0;
+    tier.annualPriceMYR = calculateAnnualPrice(tier.monthlyPriceMYR, discount);
+  }
+
+  return tier;
+}
+
+function migrateFeatureV1(item: MigrationPayload): MigrationPayload {
+  return {
+    description: '',
+    valueProposition: '',
+    complexity: 'medium',
+    hasLimit: false,
+    source: 'manual',
+    ...item,
+    // Early builds tagged codebase-detected features as "detected"
+    ...(item.source === 'detected' ? { source: 'codebase' } : {}),
+  };
+}
+
+export const migrateProjectStateToV1: Migration = {
+  version: 1,
+  description: 'Fill fields missing from unversioned projects',
+  migrate: (payload) => {
+    let result = coerceNumbers(payload, [
+      'customerCount',
+      'selectedPrice',
+      'utilizationRate',
+      'businessTypeConfidence',
+    ]);
+    result = mapItems(result, 'variableCosts', migrateVariableCostV1);
+    result = mapItems(result, 'fixedCosts', migrateFixedCostV1);
+    result = mapItems(result, 'tiers', migrateTierV1);
+    return mapItems(result, 'features', migrateFeatureV1);
+  },
+};
+
+// ============================================================================
+// Version 2: amounts in a project base currency
+// ============================================================================
+
+/** Version 1 stored every amount in MYR, whatever `currency` was set to */
+const V1_AMOUNT_CURRENCY = 'MYR';
+
+function renameKeys(item: MigrationPayload, renames: Record<string, string>): MigrationPayload {
+  const result: MigrationPayload = {};
+  for (const [key, value] of Object.entries(item)) {
+    result[renames[key] ?? key] = value;
+  }
+  return result;
+}
+
+function migrateTierV2(item: MigrationPayload): MigrationPayload {
+  const tier = renameKeys(item, { monthlyPriceMYR: 'monthlyPrice', annualPriceMYR: 'annualPrice' });
+  if (isRecord(tier.seatPricing)) {
+    tier.seatPricing = renameKeys(tier.seatPricing, { pricePerSeatMYR: 'pricePerSeat' });
+  }
+  return mapItems(tier, 'limits', limit => renameKeys(limit, { overagePriceMYR: 'overagePrice' }));
+}
+
+export const migrateProjectStateToV2: Migration = {
+  version: 2,
+  description: 'Store amounts in the project base currency',
+  migrate: (payload) => {
+    const { currency, ...rest } = payload;
+    return {
+      ...mapItems(rest, 'tiers', migrateTierV2),
+      currency: V1_AMOUNT_CURRENCY,
+      // The chosen currency keeps showing, now converted rather than relabelled
+      ...(typeof currency === 'string' && currency !== V1_AMOUNT_CURRENCY ? { displayCurrency: currency } : {}),
+    };
+  },
+};
+
+// ============================================================================
+// Pipeline
+// ============================================================================
+
+/**
+ * Project state migrations, one per schema version
+ */
+export const PROJECT_STATE_MIGRATIONS: Migration[] = [migrateProjectStateToV1, migrateProjectStateToV2];
+
+/**
+ * Upgrade a stored project or project file to PROJECT_SCHEMA_VERSION
+ */
+export function migrateProjectState(data: unknown): ValidationResult<MigrationOutcome> {
+  return runMigrations(data, PROJECT_STATE_MIGRATIONS, PROJECT_SCHEMA_VERSION, 'Project');
+}
@@ -0,0 +1,59 @@
+/**
+ * Report Migrations
+ * Upgrade shared report payloads to the current schema
+ */
+
+import type { Migration, MigrationOutcome, MigrationPayload } from '../types';
+import type { ValidationResult } from '../schemas';
+import { REPORT_SCHEMA_VERSION } from '../data';
+import { runMigrations } from './pipeline';
+import { migrateProjectStateToV1, migrateProjectStateToV2 } from './project-state';
+
+function isRecord(value: unknown): value is MigrationPayload {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// ============================================================================
+// Version 1: fill fields missing from pre-versioning reports
+// ============================================================================
+
+const migrateReportToV1: Migration = {
+  version: 1,
+  description: 'Fill fields missing from unversioned reports',
+  migrate: (payload) => ({
+    notes: {},
+    ...payload,
+    // Report state shares the project state schema of the same generation
+    ...(isRecord(payload.state) ? { state: migrateProjectStateToV1.migrate(payload.state) } : {}),
+  }),
+};
+
+// ============================================================================
+// Version 2: amounts in a project base currency
+// ============================================================================
+
+const migrateReportToV2: Migration = {
+  version: 2,
+  description: 'Store amounts in the project base currency',
+  migrate: (payload) => (
+    isRecord(payload.state)
+      ? { ...payload, state: migrateProjectStateToV2.migrate(payload.state) }
+      : payload
+  ),
+};
+
+// ============================================================================
+// Pipeline
+// ============================================================================
+
+/**
+ * Report migrations, one per schema version
+ */
+export const REPORT_MIGRATIONS: Migration[] = [migrateReportToV1, migrateReportToV2];
+
+/**
+ * Upgrade a shared report payload to REPORT_SCHEMA_VERSION
+ */
+export function migrateReportData(data: unknown): ValidationResult<MigrationOutcome> {
+  return runMigrations(data, REPORT_MIGRATIONS, REPORT_SCHEMA_VERSION, 'Report');
+}
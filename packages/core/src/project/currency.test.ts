@@ -0,0 +1,96 @@
+/**
+ * Project Currency Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { convertProjectCurrency } from './currency';
+import type { ProjectAmounts } from '../types';
+
+// ============================================================================
+// Test Data
+// ============================================================================
+
+const project: ProjectAmounts = {
+  currency: 'MYR',
+  variableCosts: [
+    { id: 'api', name: 'API', unit: 'call', costPerUnit: 0.02, usagePerCustomer: 100, description: '' },
+  ],
+  fixedCosts: [{ id: 'hosting', name: 'Hosting', monthlyCost: 500, description: '' }],
+  tiers: [
+    {
+      id: 'team',
+      name: 'Team',
+      monthlyPrice: 100,
+      annualPrice: 1000,
+      seatPricing: { pricePerSeat: 20, averageSeats: 5 },
+      limits: [{ featureId: 'api', limit: 1000, overagePrice: 0.1 }, { featureId: 'sso', limit: true }],
+    },
+  ],
+  selectedPrice: 50,
+  scenarios: [{ name: 'Growth', distribution: { team: 100 }, monthlyChurnRate: 3, conversionRate: 5, prices: { team: 80 }, cac: 200 }],
+  actuals: [{ month: '2026-01', customersByTier: { team: 10 }, mrr: 1000, costs: { api: 30 } }],
+  tierDisplayConfigs: { team: { monthlyPrice: 100, annualPrice: 1000, ctaText: 'Start' } },
+};
+
+// ============================================================================
+// Conversion Tests
+// ============================================================================
+
+describe('convertProjectCurrency', () => {
+  it('converts every stored amount at the given rate', () => {
+    const result = convertProjectCurrency(project, 'USD', 0.25);
+
+    expect(result.currency).toBe('USD');
+    expect(result.variableCosts[0].costPerUnit).toBeCloseTo(0.005);
+    expect(result.fixedCosts[0].monthlyCost).toBe(125);
+    expect(result.tiers[0]).toMatchObject({
+      monthlyPrice: 25,
+      annualPrice: 250,
+      seatPricing: { pricePerSeat: 5, averageSeats: 5 },
+      limits: [{ featureId: 'api', limit: 1000, overagePrice: 0.025 }, { featureId: 'sso', limit: true }],
+    });
+    expect(result.selectedPrice).toBe(12.5);
+    expect(result.scenarios[0]).toMatchObject({ prices: { team: 20 }, cac: 50 });
+    expect(result.actuals[0]).toMatchObject({ mrr: 250, costs: { api: 7.5 }, customersByTier: { team: 10 } });
+    expect(result.tierDisplayConfigs).toEqual({ team: { monthlyPrice: 25, annualPrice: 250, ctaText: 'Start' } });
+  });
+
+  it('converts cost ranges but not usage ranges', () => {
+    const result = convertProjectCurrency({
+      ...project,
+      variableCosts: [{
+        ...project.variableCosts[0],
+        distributions: {
+          costPerUnit: { type: 'triangular', min: 0.01, likely: 0.02, max: 0.04 },
+          usagePerCustomer: { type: 'normal', mean: 100, stdDev: 20 },
+        },
+      }],
+      fixedCosts: [{ ...project.fixedCosts[0], distributions: { monthlyCost: { type: 'normal', mean: 500, stdDev: 100 } } }],
+    }, 'USD', 0.25);
+
+    expect(result.variableCosts[0].distributions).toEqual({
+      costPerUnit: { type: 'triangular', min: 0.0025, likely: 0.005, max: 0.01 },
+      usagePerCustomer: { type: 'normal', mean: 100, stdDev: 20 },
+    });
+    expect(result.fixedCosts[0].distributions).toEqual({ monthlyCost: { type: 'normal', mean: 125, stdDev: 25 } });
+  });
+
+  it('uses the static currency rates by default', () => {
+    const result = convertProjectCurrency(project, 'USD');
+
+    expect(result.fixedCosts[0].monthlyCost).toBeCloseTo(110);
+  });
+
+  it('leaves non-amount fields and the input unchanged', () => {
+    const result = convertProjectCurrency(project, 'EUR', 0.2);
+
+    expect(result.variableCosts[0].usagePerCustomer).toBe(100);
+    expect(result.scenarios[0].distribution).toEqual({ team: 100 });
+    expect(project.currency).toBe('MYR');
+    expect(project.fixedCosts[0].monthlyCost).toBe(500);
+  });
+
+  it('rejects non-positive rates', () => {
+    expect(() => convertProjectCurrency(project, 'USD', 0)).toThrow('Exchange rate must be a positive number');
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Project Currency
+ * Move a project's stored amounts to another base currency
+ */
+
+import type { CostDistribution, CurrencyCode, ProjectAmounts } from '../types';
+import { convertCurrency } from '../utils';
+
+function convertRecord(values: Record<string, number>, convert: (amount: number) => number): Record<string, number> {
+  return Object.fromEntries(Object.entries(values).map(([key, value]) => [key, convert(value)]));
+}
+
+function convertDistribution(distribution: CostDistribution, convert: (amount: number) => number): CostDistribution {
+  return distribution.type === 'triangular'
+    ? { ...distribution, min: convert(distribution.min), likely: convert(distribution.likely), max: convert(distribution.max) }
+    : { ...distribution, mean: convert(distribution.mean), stdDev: convert(distribution.stdDev) };
+}
+
+function convertDisplayConfig(config: unknown, convert: (amount: number) => number): unknown {
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) return config;
+  const result = { ...(config as Record<string, unknown>) };
+  for (const key of ['monthlyPrice', 'annualPrice']) {
+    if (typeof result[key] === 'number') {
+      result[key] = convert(result[key] as number);
+    }
+  }
+  return result;
+}
+
+/**
+ * Convert every stored amount to another currency and make it the base currency:
+ * unit and fixed costs with their Monte Carlo ranges, tier, seat and overage prices,
+ * scenario prices and CAC, and recorded actuals. Amounts are not rounded.
+ *
+ * @param rate - Units of `to` per unit of the current currency; defaults to the bundled snapshot rates
+ */
+export function convertProjectCurrency<T extends ProjectAmounts>(
+  project: T,
+  to: CurrencyCode,
+  rate: number = convertCurrency(1, project.currency, to)
+): T {
+  if (!Number.isFinite(rate) || rate <= 0) {
+    throw new Error(`Exchange rate must be a positive number, got: ${rate}`);
+  }
+  if (project.currency === to && rate === 1) return project;
+
+  const convert = (amount: number) => amount * rate;
+
+  return {
+    ...project,
+    currency: to,
+    variableCosts: project.variableCosts.map(item => ({
+      ...item,
+      costPerUnit: convert(item.costPerUnit),
+      ...(item.distributions?.costPerUnit
+        ? { distributions: { ...item.distributions, costPerUnit: convertDistribution(item.distributions.costPerUnit, convert) } }
+        : {}),
+    })),
+    fixedCosts: project.fixedCosts.map(item => ({
+      ...item,
+      monthlyCost: convert(item.monthlyCost),
+      ...(item.distributions?.monthlyCost
+        ? { distributions: { ...item.distributions, monthlyCost: convertDistribution(item.distributions.monthlyCost, convert) } }
+        : {}),
+    })),
+    tiers: project.tiers.map(tier => ({
+      ...tier,
+      monthlyPrice: convert(tier.monthlyPrice),
+      ...(tier.annualPrice !== undefined ? { annualPrice: convert(tier.annualPrice) } : {}),
+      ...(tier.seatPricing ? { seatPricing: { ...tier.seatPricing, pricePerSeat: convert(tier.seatPricing.pricePerSeat) } } : {}),
+      limits: tier.limits.map(limit => (
+        limit.overagePrice !== undefined ? { ...limit, overagePrice: convert(limit.overagePrice) } : limit
+      )),
+    })),
+    selectedPrice: convert(project.selectedPrice),
+    scenarios: project.scenarios.map(scenario => ({
+      ...scenario,
+      ...(scenario.prices ? { prices: convertRecord(scenario.prices, convert) } : {}),
+      ...(scenario.cac !== undefined ? { cac: convert(scenario.cac) } : {}),
+    })),
+    actuals: project.actuals.map(month => ({
+      ...month,
+      mrr: convert(month.mrr),
+      costs: convertRecord(month.costs, convert),
+    })),
+    ...(project.tierDisplayConfigs
+      ? {
+          tierDisplayConfigs: Object.fromEntries(
+            Object.entries(project.tierDisplayConfigs).map(([id, config]) => [id, convertDisplayConfig(config, convert)])
+          ),
+        }
+      : {}),
+  };
+}
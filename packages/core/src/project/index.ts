@@ -0,0 +1,15 @@
+/**
+ * Project exports
+ * Re-exports project file and currency helpers
+ */
+
+export {
+  validateProjectFile,
+  parseProjectFile,
+  createProjectFile,
+  serializeProjectFile,
+} from './project-file';
+
+export { convertProjectCurrency } from './currency';
+
+export type { ProjectFileInput } from './project-file';
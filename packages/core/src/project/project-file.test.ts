@@ -0,0 +1,168 @@
+/**
+ * Project File Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  validateProjectFile,
+  parseProjectFile,
+  createProjectFile,
+  serializeProjectFile,
+} from './project-file';
+import { PROJECT_SCHEMA_VERSION } from '../data';
+
+// ============================================================================
+// Test Data
+// ============================================================================
+
+const minimalProject = {
+  schemaVersion: 2,
+  name: 'Acme',
+};
+
+const fullProject = {
+  schemaVersion: 2,
+  name: 'Acme',
+  currency: 'USD',
+  variableCosts: [
+    { id: 'api', name: 'API', unit: 'call', costPerUnit: 0.01, usagePerCustomer: 100, description: '' },
+  ],
+  fixedCosts: [{ id: 'hosting', name: 'Hosting', monthlyCost: 50, description: '' }],
+  tiers: [
+    {
+      id: 'pro',
+      name: 'Pro',
+      monthlyPrice: 49,
+      tagline: 'For teams',
+      includedFeatures: ['sso'],
+      limits: [
+        { featureId: 'api', limit: 1000, variableCostId: 'api' },
+        { featureId: 'sso', limit: true },
+      ],
+    },
+  ],
+  features: [{ id: 'api', name: 'API access', costDriver: 'api', category: 'integrations' }],
+  tierDistribution: { pro: 100 },
+  scenarios: [{ name: 'Growth', distribution: { pro: 100 }, monthlyChurnRate: 3, conversionRate: 5 }],
+};
+
+// ============================================================================
+// Validation Tests
+// ============================================================================
+
+describe('validateProjectFile', () => {
+  it('fills defaults for omitted fields', () => {
+    const result = validateProjectFile(minimalProject);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(result.data.currency).toBe('MYR');
+    expect(result.data.tiers).toEqual([]);
+    expect(result.data.scenarios).toEqual([]);
+    expect(result.data.actuals).toEqual([]);
+    expect(result.data.priceBooks).toEqual([]);
+    expect(result.data.businessType).toBeNull();
+    expect(result.data.pricingModelType).toBe('feature_tiered');
+    expect(result.data.customerCount).toBe(100);
+  });
+
+  it('preserves front-end specific tier and feature fields', () => {
+    const result = validateProjectFile(fullProject);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(result.data.tiers[0]).toMatchObject({ tagline: 'For teams' });
+    expect(result.data.tiers[0].limits[1].limit).toBe(true);
+    expect(result.data.features[0]).toMatchObject({ category: 'integrations' });
+  });
+
+  it('rejects payloads without a schemaVersion', () => {
+    const result = validateProjectFile({ name: 'Acme' });
+    expect(result).toEqual({
+      success: false,
+      error: 'Missing schemaVersion - not a BasedPricer project file',
+    });
+  });
+
+  it('rejects files from a newer schema version', () => {
+    const result = validateProjectFile({ ...minimalProject, schemaVersion: PROJECT_SCHEMA_VERSION + 1 });
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error).toContain('newer than supported');
+  });
+
+  it('reports the path of the first invalid field', () => {
+    const result = validateProjectFile({
+      ...fullProject,
+      tiers: [{ ...fullProject.tiers[0], monthlyPrice: -1 }],
+    });
+    expect(result).toEqual({
+      success: false,
+      error: 'tiers.0.monthlyPrice: Monthly price must be non-negative',
+    });
+  });
+
+  it('validates recorded actuals months', () => {
+    const actuals = { month: '2026-13', customersByTier: {}, mrr: 0, costs: {} };
+    expect(validateProjectFile({ ...minimalProject, actuals: [actuals] })).toEqual({
+      success: false,
+      error: 'actuals.0.month: Month must be formatted as YYYY-MM',
+    });
+  });
+
+  it('keeps saved scenario customer count, prices and CAC', () => {
+    const scenario = { ...fullProject.scenarios[0], customerCount: 500, prices: { pro: 59 }, cac: 120 };
+    const result = validateProjectFile({ ...fullProject, scenarios: [scenario] });
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(result.data.scenarios[0]).toEqual(scenario);
+  });
+
+  it('fills price book defaults and rejects unknown currencies', () => {
+    const result = validateProjectFile({ ...minimalProject, priceBooks: [{ currency: 'EUR' }] });
+    expect(result.success && result.data.priceBooks).toEqual([
+      { currency: 'EUR', rounding: 'ninety_nine', purchasingPower: 1, overrides: {} },
+    ]);
+    expect(validateProjectFile({ ...minimalProject, priceBooks: [{ currency: 'XYZ' }] }).success).toBe(false);
+  });
+
+  it('rejects non-object payloads', () => {
+    expect(validateProjectFile([]).success).toBe(false);
+    expect(validateProjectFile(null).success).toBe(false);
+  });
+});
+
+describe('parseProjectFile', () => {
+  it('parses valid JSON', () => {
+    const result = parseProjectFile(JSON.stringify(fullProject));
+    expect(result.success).toBe(true);
+  });
+
+  it('reports JSON syntax errors', () => {
+    const result = parseProjectFile('{invalid}');
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error).toContain('Invalid JSON');
+  });
+});
+
+// ============================================================================
+// Creation Tests
+// ============================================================================
+
+describe('createProjectFile', () => {
+  it('stamps the current schema version and export time', () => {
+    const project = createProjectFile({ name: 'Acme', exportedAt: '2026-01-01T00:00:00.000Z' });
+    expect(project.schemaVersion).toBe(PROJECT_SCHEMA_VERSION);
+    expect(project.exportedAt).toBe('2026-01-01T00:00:00.000Z');
+  });
+
+  it('round-trips through serialize and parse', () => {
+    const project = createProjectFile({ ...fullProject, currency: 'USD' });
+    const json = serializeProjectFile(project);
+
+    expect(json.endsWith('\n')).toBe(true);
+    expect(parseProjectFile(json)).toEqual({ success: true, data: project });
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Project File
+ * Read and write the versioned `basedpricer.json` project format
+ */
+
+import type { ProjectFile } from '../types';
+import { ProjectFileSchema, type ValidationResult } from '../schemas';
+import { PROJECT_SCHEMA_VERSION } from '../data';
+import { migrateProjectState } from '../migrations';
+
+export type ProjectFileInput = Partial<Omit<ProjectFile, 'schemaVersion' | 'name'>> & {
+  name: string;
+};
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validate a parsed project file, upgrading older schema versions and
+ * filling defaults for omitted fields.
+ * Errors include the path of the first invalid field.
+ */
+export function validateProjectFile(data: unknown): ValidationResult<ProjectFile> {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { success: false, error: 'Project file must contain a JSON object' };
+  }
+
+  if ((data as Record<string, unknown>).schemaVersion === undefined) {
+    return { success: false, error: 'Missing schemaVersion - not a BasedPricer project file' };
+  }
+
+  const migrated = migrateProjectState(data);
+  if (!migrated.success) {
+    return migrated;
+  }
+
+  const result = ProjectFileSchema.safeParse(migrated.data.data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const location = issue && issue.path.length > 0 ? `${issue.path.join('.')}: ` : '';
+    return { success: false, error: `${location}${issue?.message ?? 'Invalid project file'}` };
+  }
+
+  return { success: true, data: result.data };
+}
+
+/**
+ * Parse and validate project file JSON
+ */
+export function parseProjectFile(content: string): ValidationResult<ProjectFile> {
+  let data: unknown;
+
+  try {
+    data = JSON.parse(content);
+  } catch (err) {
+    const message = err instanceof SyntaxError ? err.message : 'Unknown parse error';
+    return { success: false, error: `Invalid JSON: ${message}` };
+  }
+
+  return validateProjectFile(data);
+}
+
+// ============================================================================
+// Creation & Serialization
+// ============================================================================
+
+/**
+ * Create a project file at the current schema version
+ */
+export function createProjectFile(input: ProjectFileInput): ProjectFile {
+  return ProjectFileSchema.parse({
+    ...input,
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    exportedAt: input.exportedAt ?? new Date().toISOString(),
+  });
+}
+
+/**
+ * Serialize a project file as stable, diff-friendly JSON
+ */
+export function serializeProjectFile(project: ProjectFile): string {
+  return JSON.stringify(project, null, 2) + '\n';
+}
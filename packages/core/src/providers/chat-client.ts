@@ -0,0 +1,172 @@
+/**
+ * Provider Chat Client
+ * One ChatClient for any OpenAI- or Anthropic-compatible endpoint
+ */
+
+import type {
+  AIProviderDefinition,
+  AIProviderId,
+  ChatClient,
+  ChatMessage,
+  ChatOptions,
+  ChatResponse,
+} from '../types';
+
+/**
+ * Error returned by a provider endpoint
+ */
+export class AIProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: AIProviderId,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = 'AIProviderError';
+  }
+
+  /** The key was rejected (as opposed to rate limits or outages) */
+  get isAuthError(): boolean {
+    return this.status === 401 || this.status === 403;
+  }
+}
+
+export interface ProviderChatClientOptions {
+  apiKey?: string;
+  /** Extra headers, merged over the provider's own */
+  headers?: Record<string, string>;
+  /** Override fetch (tests, proxies) */
+  fetch?: typeof fetch;
+}
+
+const DEFAULT_MAX_TOKENS = 4096;
+const DEFAULT_TEMPERATURE = 0.3;
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+interface ErrorBody {
+  error?: { message?: string };
+}
+
+interface OpenAIChatBody {
+  choices?: Array<{ message?: { content?: string } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+}
+
+interface AnthropicMessageBody {
+  content?: Array<{ text?: string }>;
+  usage?: { input_tokens?: number; output_tokens?: number };
+}
+
+interface ProviderRequest {
+  path: string;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+}
+
+function buildOpenAIRequest(messages: ChatMessage[], model: string, options: ChatOptions, apiKey?: string): ProviderRequest {
+  return {
+    path: '/chat/completions',
+    headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+    body: {
+      model,
+      messages,
+      max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+    },
+  };
+}
+
+function buildAnthropicRequest(messages: ChatMessage[], model: string, options: ChatOptions, apiKey?: string): ProviderRequest {
+  // Anthropic takes the system prompt separately from the conversation
+  const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+
+  return {
+    path: '/messages',
+    headers: {
+      'anthropic-version': ANTHROPIC_VERSION,
+      ...(apiKey ? { 'x-api-key': apiKey } : {}),
+    },
+    body: {
+      model,
+      max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+      ...(system ? { system } : {}),
+      messages: messages.filter(m => m.role !== 'system'),
+    },
+  };
+}
+
+function parseOpenAIResponse(data: OpenAIChatBody): ChatResponse {
+  return {
+    content: data.choices?.[0]?.message?.content ?? '',
+    usage: {
+      promptTokens: data.usage?.prompt_tokens ?? 0,
+      completionTokens: data.usage?.completion_tokens ?? 0,
+      totalTokens: data.usage?.total_tokens ?? 0,
+    },
+  };
+}
+
+function parseAnthropicResponse(data: AnthropicMessageBody): ChatResponse {
+  const promptTokens = data.usage?.input_tokens ?? 0;
+  const completionTokens = data.usage?.output_tokens ?? 0;
+
+  return {
+    content: data.content?.[0]?.text ?? '',
+    usage: {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+    },
+  };
+}
+
+/**
+ * Create a chat client for a provider definition.
+ * Throws AIProviderError for non-2xx responses.
+ */
+export function createProviderChatClient(
+  provider: AIProviderDefinition,
+  options: ProviderChatClientOptions = {}
+): ChatClient {
+  if (provider.requiresApiKey && !options.apiKey) {
+    throw new Error(`No API key found for ${provider.name}`);
+  }
+
+  const fetchImpl = options.fetch ?? fetch;
+
+  return {
+    async chat(messages, chatOptions = {}) {
+      const model = chatOptions.model ?? provider.defaultModel;
+      const request = provider.protocol === 'anthropic'
+        ? buildAnthropicRequest(messages, model, chatOptions, options.apiKey)
+        : buildOpenAIRequest(messages, model, chatOptions, options.apiKey);
+
+      const response = await fetchImpl(`${provider.baseUrl}${request.path}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...request.headers,
+          ...provider.headers,
+          ...options.headers,
+        },
+        body: JSON.stringify(request.body),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({})) as ErrorBody;
+        throw new AIProviderError(
+          error.error?.message ?? `${provider.name} API error: ${response.status}`,
+          provider.id,
+          response.status
+        );
+      }
+
+      const data = await response.json();
+      return provider.protocol === 'anthropic'
+        ? parseAnthropicResponse(data as AnthropicMessageBody)
+        : parseOpenAIResponse(data as OpenAIChatBody);
+    },
+  };
+}
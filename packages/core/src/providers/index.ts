@@ -0,0 +1,19 @@
+/**
+ * Provider exports
+ * Re-exports the AI provider registry and chat client
+ */
+
+export {
+  BUILT_IN_AI_PROVIDERS,
+  isCustomProviderId,
+  validateAIProviderDefinition,
+  registerAIProvider,
+  unregisterAIProvider,
+  clearCustomAIProviders,
+  getAIProviderDefinition,
+  listAIProviders,
+  getProviderModelPricing,
+} from './registry';
+
+export { AIProviderError, createProviderChatClient } from './chat-client';
+export type { ProviderChatClientOptions } from './chat-client';
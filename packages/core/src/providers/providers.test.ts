@@ -0,0 +1,192 @@
+/**
+ * AI Provider Registry Unit Tests
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  BUILT_IN_AI_PROVIDERS,
+  registerAIProvider,
+  unregisterAIProvider,
+  clearCustomAIProviders,
+  getAIProviderDefinition,
+  listAIProviders,
+  getProviderModelPricing,
+} from './registry';
+import { AIProviderError, createProviderChatClient } from './chat-client';
+import { estimateAnalysisCost, calculateTokenCost } from '../calculators/ai-cost';
+import type { AIProviderDefinition } from '../types';
+
+const ollama: AIProviderDefinition = {
+  id: 'custom_ollama',
+  name: 'Ollama',
+  baseUrl: 'http://localhost:11434/v1/',
+  protocol: 'openai',
+  defaultModel: 'llama3.2',
+  models: {
+    'llama3.2': {
+      name: 'llama3.2',
+      displayName: 'Llama 3.2',
+      inputPricePerMillion: 0.1,
+      outputPricePerMillion: 0.2,
+      lastUpdated: '2026-01-01',
+      contextWindow: 128000,
+    },
+  },
+  requiresApiKey: false,
+};
+
+/**
+ * Fake fetch that records requests and replies with a fixed body
+ */
+function createFetch(status: number, body: unknown) {
+  const requests: Array<{ url: string; init: RequestInit }> = [];
+  const fetchImpl = (async (url: string, init: RequestInit) => {
+    requests.push({ url, init });
+    return new Response(JSON.stringify(body), { status });
+  }) as unknown as typeof fetch;
+  return { fetchImpl, requests };
+}
+
+afterEach(() => {
+  clearCustomAIProviders();
+});
+
+// ============================================================================
+// Registry Tests
+// ============================================================================
+
+describe('BUILT_IN_AI_PROVIDERS', () => {
+  it('covers every priced provider with its endpoint', () => {
+    expect(BUILT_IN_AI_PROVIDERS.anthropic).toMatchObject({
+      protocol: 'anthropic',
+      baseUrl: 'https://api.anthropic.com/v1',
+      defaultModel: 'claude-sonnet-4-20250514',
+    });
+    expect(BUILT_IN_AI_PROVIDERS.groq.protocol).toBe('openai');
+  });
+});
+
+describe('registerAIProvider', () => {
+  it('registers a custom provider and trims the base URL', () => {
+    const result = registerAIProvider(ollama);
+    expect(result.success).toBe(true);
+    expect(getAIProviderDefinition('custom_ollama')?.baseUrl).toBe('http://localhost:11434/v1');
+    expect(listAIProviders().map(p => p.id)).toContain('custom_ollama');
+  });
+
+  it('rejects ids outside the custom namespace', () => {
+    const result = registerAIProvider({ ...ollama, id: 'openai' });
+    expect(result).toEqual({ success: false, error: 'id: Custom provider id must start with "custom_"' });
+    expect(getAIProviderDefinition('openai')?.name).toBe('OpenAI');
+  });
+
+  it('rejects a default model that is not listed', () => {
+    const result = registerAIProvider({ ...ollama, defaultModel: 'mistral' });
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.error).toContain('defaultModel');
+  });
+
+  it('rejects non-http base URLs', () => {
+    const result = registerAIProvider({ ...ollama, baseUrl: 'ftp://example.com' });
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.error).toContain('baseUrl');
+  });
+
+  it('unregisters a provider', () => {
+    registerAIProvider(ollama);
+    expect(unregisterAIProvider('custom_ollama')).toBe(true);
+    expect(getAIProviderDefinition('custom_ollama')).toBeNull();
+  });
+});
+
+describe('getProviderModelPricing', () => {
+  it('resolves built-in and custom pricing', () => {
+    registerAIProvider(ollama);
+    expect(getProviderModelPricing('openai', 'gpt-4o-mini')?.displayName).toBe('GPT-4o Mini');
+    expect(getProviderModelPricing('custom_ollama')?.inputPricePerMillion).toBe(0.1);
+    expect(getProviderModelPricing('custom_missing')).toBeNull();
+  });
+
+  it('feeds cost estimates for custom providers', () => {
+    registerAIProvider(ollama);
+    const breakdown = calculateTokenCost(
+      { promptTokens: 1_000_000, completionTokens: 1_000_000, totalTokens: 2_000_000 },
+      'custom_ollama',
+      undefined,
+      1
+    );
+    expect(breakdown.totalCostUSD).toBeCloseTo(0.3);
+    expect(breakdown.modelName).toBe('Llama 3.2');
+    expect(estimateAnalysisCost(10, 40000, 'custom_ollama').estimatedCostUSD).toBeGreaterThan(0);
+  });
+});
+
+// ============================================================================
+// Chat Client Tests
+// ============================================================================
+
+describe('createProviderChatClient', () => {
+  const messages = [
+    { role: 'system' as const, content: 'Be brief' },
+    { role: 'user' as const, content: 'Hi' },
+  ];
+
+  it('speaks the OpenAI protocol without a key for local servers', async () => {
+    const result = registerAIProvider(ollama);
+    if (!result.success) throw new Error(result.error);
+
+    const { fetchImpl, requests } = createFetch(200, {
+      choices: [{ message: { content: 'Hello' } }],
+      usage: { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 },
+    });
+    const client = createProviderChatClient(result.data, { fetch: fetchImpl });
+    const response = await client.chat(messages, { temperature: 0 });
+
+    expect(requests[0].url).toBe('http://localhost:11434/v1/chat/completions');
+    const headers = requests[0].init.headers as Record<string, string>;
+    expect(headers.Authorization).toBeUndefined();
+    expect(JSON.parse(requests[0].init.body as string)).toMatchObject({
+      model: 'llama3.2',
+      messages,
+      temperature: 0,
+    });
+    expect(response).toEqual({
+      content: 'Hello',
+      usage: { promptTokens: 3, completionTokens: 1, totalTokens: 4 },
+    });
+  });
+
+  it('speaks the Anthropic protocol', async () => {
+    const { fetchImpl, requests } = createFetch(200, {
+      content: [{ text: 'Hello' }],
+      usage: { input_tokens: 3, output_tokens: 2 },
+    });
+    const client = createProviderChatClient(BUILT_IN_AI_PROVIDERS.anthropic, {
+      apiKey: 'sk-ant-test',
+      fetch: fetchImpl,
+    });
+    const response = await client.chat(messages);
+
+    expect(requests[0].url).toBe('https://api.anthropic.com/v1/messages');
+    const headers = requests[0].init.headers as Record<string, string>;
+    expect(headers['x-api-key']).toBe('sk-ant-test');
+    const body = JSON.parse(requests[0].init.body as string);
+    expect(body.system).toBe('Be brief');
+    expect(body.messages).toEqual([{ role: 'user', content: 'Hi' }]);
+    expect(response.usage?.totalTokens).toBe(5);
+  });
+
+  it('requires a key for providers that need one', () => {
+    expect(() => createProviderChatClient(BUILT_IN_AI_PROVIDERS.openai)).toThrow('No API key found for OpenAI');
+  });
+
+  it('throws AIProviderError with the response status', async () => {
+    const { fetchImpl } = createFetch(401, { error: { message: 'Invalid API key' } });
+    const client = createProviderChatClient(BUILT_IN_AI_PROVIDERS.openai, { apiKey: 'sk-bad', fetch: fetchImpl });
+
+    const error = await client.chat(messages).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(AIProviderError);
+    expect((error as AIProviderError).message).toBe('Invalid API key');
+    expect((error as AIProviderError).isAuthError).toBe(true);
+  });
+});
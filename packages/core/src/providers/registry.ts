@@ -0,0 +1,128 @@
+/**
+ * AI Provider Registry
+ * Built-in providers plus user-registered OpenAI- or Anthropic-compatible endpoints
+ */
+
+import type {
+  AIModelPricing,
+  AIProvider,
+  AIProviderDefinition,
+  AIProviderId,
+  AIProviderProtocol,
+  CustomAIProviderId,
+} from '../types';
+import { AI_PRICING } from '../data';
+import { AIProviderDefinitionSchema, type ValidationResult } from '../schemas';
+
+/**
+ * Endpoints for the built-in providers
+ */
+const BUILT_IN_ENDPOINTS: Record<AIProvider, { baseUrl: string; protocol: AIProviderProtocol }> = {
+  openai: { baseUrl: 'https://api.openai.com/v1', protocol: 'openai' },
+  anthropic: { baseUrl: 'https://api.anthropic.com/v1', protocol: 'anthropic' },
+  openrouter: { baseUrl: 'https://openrouter.ai/api/v1', protocol: 'openai' },
+  groq: { baseUrl: 'https://api.groq.com/openai/v1', protocol: 'openai' },
+  minimax: { baseUrl: 'https://api.minimax.io/v1', protocol: 'openai' },
+  glm: { baseUrl: 'https://api.z.ai/api/paas/v4', protocol: 'openai' },
+};
+
+/**
+ * Built-in provider definitions, priced from AI_PRICING
+ */
+export const BUILT_IN_AI_PROVIDERS: Record<AIProvider, AIProviderDefinition> = Object.fromEntries(
+  (Object.keys(BUILT_IN_ENDPOINTS) as AIProvider[]).map((id) => [id, {
+    id,
+    name: AI_PRICING[id].providerName,
+    ...BUILT_IN_ENDPOINTS[id],
+    defaultModel: AI_PRICING[id].defaultModel,
+    models: AI_PRICING[id].models,
+    requiresApiKey: true,
+  }])
+) as Record<AIProvider, AIProviderDefinition>;
+
+const customProviders = new Map<CustomAIProviderId, AIProviderDefinition>();
+
+/**
+ * Check whether an id belongs to a user-registered provider
+ */
+export function isCustomProviderId(id: string): id is CustomAIProviderId {
+  return id.startsWith('custom_');
+}
+
+/**
+ * Validate a provider definition.
+ * Errors include the path of the first invalid field.
+ */
+export function validateAIProviderDefinition(data: unknown): ValidationResult<AIProviderDefinition> {
+  const result = AIProviderDefinitionSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const location = issue && issue.path.length > 0 ? `${issue.path.join('.')}: ` : '';
+    return { success: false, error: `${location}${issue?.message ?? 'Invalid provider'}` };
+  }
+  return { success: true, data: result.data };
+}
+
+/**
+ * Register (or replace) a custom provider.
+ * Built-in providers cannot be overridden.
+ */
+export function registerAIProvider(definition: AIProviderDefinition): ValidationResult<AIProviderDefinition> {
+  if (!isCustomProviderId(definition.id)) {
+    return { success: false, error: 'id: Custom provider id must start with "custom_"' };
+  }
+
+  const result = validateAIProviderDefinition(definition);
+  if (!result.success) {
+    return result;
+  }
+
+  const registered: AIProviderDefinition = {
+    ...result.data,
+    // Strip trailing slashes so paths can be appended directly
+    baseUrl: result.data.baseUrl.replace(/\/+$/, ''),
+  };
+  customProviders.set(definition.id, registered);
+  return { success: true, data: registered };
+}
+
+/**
+ * Remove a custom provider
+ */
+export function unregisterAIProvider(id: CustomAIProviderId): boolean {
+  return customProviders.delete(id);
+}
+
+/**
+ * Remove all custom providers
+ */
+export function clearCustomAIProviders(): void {
+  customProviders.clear();
+}
+
+/**
+ * Get a provider definition by id
+ */
+export function getAIProviderDefinition(id: AIProviderId): AIProviderDefinition | null {
+  if (isCustomProviderId(id)) {
+    return customProviders.get(id) ?? null;
+  }
+  return BUILT_IN_AI_PROVIDERS[id] ?? null;
+}
+
+/**
+ * List built-in providers followed by custom providers
+ */
+export function listAIProviders(): AIProviderDefinition[] {
+  return [...Object.values(BUILT_IN_AI_PROVIDERS), ...customProviders.values()];
+}
+
+/**
+ * Get pricing for a provider model (default model when omitted)
+ */
+export function getProviderModelPricing(id: AIProviderId, modelId?: string): AIModelPricing | null {
+  const provider = getAIProviderDefinition(id);
+  if (!provider) return null;
+
+  return provider.models[modelId ?? provider.defaultModel] ?? null;
+}
@@ -0,0 +1,52 @@
+/**
+ * Exchange Rates
+ * The bundled rate snapshot and helpers for converting between any two currencies
+ */
+
+import type { CurrencyCode, ExchangeRateMatrix, ExchangeRates } from '../types';
+import { CURRENCIES, CURRENCY_CODES, CURRENCY_RATES_UPDATED_AT } from '../data';
+
+/**
+ * Rates bundled with the package, from the CURRENCIES table.
+ * Used offline and whenever no live or manual rates are available.
+ */
+export const EXCHANGE_RATE_SNAPSHOT: ExchangeRates = {
+  base: 'MYR',
+  rates: Object.fromEntries(CURRENCY_CODES.map(code => [code, CURRENCIES[code].rate])) as Record<CurrencyCode, number>,
+  source: 'snapshot',
+  updatedAt: CURRENCY_RATES_UPDATED_AT,
+};
+
+/**
+ * Units of `to` per one unit of `from`
+ */
+export function getExchangeRate(rates: ExchangeRates, from: CurrencyCode, to: CurrencyCode): number {
+  if (from === to) return 1;
+  return rates.rates[to] / rates.rates[from];
+}
+
+/**
+ * Express the same rates against another base currency
+ */
+export function rebaseExchangeRates(rates: ExchangeRates, base: CurrencyCode): ExchangeRates {
+  if (rates.base === base) return rates;
+  return {
+    ...rates,
+    base,
+    rates: Object.fromEntries(
+      CURRENCY_CODES.map(code => [code, getExchangeRate(rates, base, code)])
+    ) as Record<CurrencyCode, number>,
+  };
+}
+
+/**
+ * Rate between every pair of supported currencies
+ */
+export function buildExchangeRateMatrix(rates: ExchangeRates): ExchangeRateMatrix {
+  return Object.fromEntries(
+    CURRENCY_CODES.map(from => [
+      from,
+      Object.fromEntries(CURRENCY_CODES.map(to => [to, getExchangeRate(rates, from, to)])),
+    ])
+  ) as ExchangeRateMatrix;
+}
@@ -0,0 +1,23 @@
+/**
+ * Exchange rate exports
+ * Re-exports the rate snapshot, conversion helpers and rate providers
+ */
+
+export {
+  EXCHANGE_RATE_SNAPSHOT,
+  getExchangeRate,
+  rebaseExchangeRates,
+  buildExchangeRateMatrix,
+} from './exchange-rates';
+
+export {
+  ExchangeRateError,
+  createSnapshotRateProvider,
+  createManualRateProvider,
+  createFrankfurterRateProvider,
+  createOpenExchangeRateProvider,
+  readCachedExchangeRates,
+  createCachedRateProvider,
+  createFallbackRateProvider,
+} from './rate-providers';
+export type { FetchRateProviderOptions, CachedRateProviderOptions } from './rate-providers';
@@ -0,0 +1,261 @@
+/**
+ * Exchange Rate Providers
+ * Snapshot, manual and live rate sources, with caching and fallback between them
+ */
+
+import type { CurrencyCode, ExchangeRateCache, ExchangeRateProvider, ExchangeRates } from '../types';
+import { ExchangeRatesSchema } from '../schemas';
+import { CURRENCY_CODES } from '../data';
+import { EXCHANGE_RATE_SNAPSHOT, rebaseExchangeRates } from './exchange-rates';
+
+/**
+ * Error returned by a rate provider
+ */
+export class ExchangeRateError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: string
+  ) {
+    super(message);
+    this.name = 'ExchangeRateError';
+  }
+}
+
+export interface FetchRateProviderOptions {
+  /** Override fetch (tests, proxies) */
+  fetch?: typeof fetch;
+  /** Request timeout in milliseconds */
+  timeoutMs?: number;
+}
+
+export interface CachedRateProviderOptions {
+  /** Storage key for the cached rates */
+  key?: string;
+  /** How long fetched rates stay fresh, in milliseconds */
+  maxAgeMs?: number;
+  /** Clock override (tests) */
+  now?: () => number;
+}
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const DEFAULT_CACHE_KEY = 'basedpricer-exchange-rates';
+const DEFAULT_CACHE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Live rates are quoted against USD, which every API supports
+const LIVE_BASE: CurrencyCode = 'USD';
+
+// Supported currencies without ECB reference rates, which Frankfurter doesn't quote
+const NON_ECB_CURRENCIES: CurrencyCode[] = ['VND', 'TWD', 'AED'];
+
+interface CachedRates {
+  rates: ExchangeRates;
+  fetchedAt: number;
+}
+
+/**
+ * Check that a provider returned a positive rate for every supported currency
+ */
+function toExchangeRates(
+  provider: string,
+  base: CurrencyCode,
+  quoted: Record<string, unknown> | undefined,
+  updatedAt: string
+): ExchangeRates {
+  const rates = { ...quoted, [base]: 1 };
+  const missing = CURRENCY_CODES.filter(code => {
+    const rate = rates[code];
+    return typeof rate !== 'number' || !(rate > 0);
+  });
+  if (missing.length > 0) {
+    throw new ExchangeRateError(`${provider} returned no rate for ${missing.join(', ')}`, provider);
+  }
+
+  return {
+    base,
+    rates: Object.fromEntries(CURRENCY_CODES.map(code => [code, rates[code]])) as Record<CurrencyCode, number>,
+    source: provider,
+    updatedAt,
+  };
+}
+
+async function fetchJson(provider: string, url: string, options: FetchRateProviderOptions): Promise<unknown> {
+  const fetchImpl = options.fetch ?? fetch;
+  let response: Response;
+  try {
+    response = await fetchImpl(url, { signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS) });
+  } catch (e) {
+    throw new ExchangeRateError(`${provider} request failed: ${e instanceof Error ? e.message : String(e)}`, provider);
+  }
+
+  if (!response.ok) {
+    throw new ExchangeRateError(`${provider} API error: ${response.status}`, provider);
+  }
+  return response.json();
+}
+
+// ============================================================================
+// Static Providers
+// ============================================================================
+
+/**
+ * Rates bundled with the package; never fails
+ */
+export function createSnapshotRateProvider(snapshot: ExchangeRates = EXCHANGE_RATE_SNAPSHOT): ExchangeRateProvider {
+  return {
+    id: 'snapshot',
+    name: 'Bundled snapshot',
+    getRates: async () => snapshot,
+  };
+}
+
+/**
+ * Rates entered by the user. Throws if a currency is missing or not positive.
+ */
+export function createManualRateProvider(rates: Omit<ExchangeRates, 'source'>): ExchangeRateProvider {
+  const manual = toExchangeRates('manual', rates.base, rates.rates, rates.updatedAt);
+  return {
+    id: 'manual',
+    name: 'Manual rates',
+    getRates: async () => manual,
+  };
+}
+
+// ============================================================================
+// Live Providers
+// ============================================================================
+
+interface FrankfurterBody {
+  date?: string;
+  rates?: Record<string, unknown>;
+}
+
+interface OpenExchangeRateBody {
+  result?: string;
+  time_last_update_unix?: number;
+  rates?: Record<string, unknown>;
+}
+
+/**
+ * European Central Bank rates from Frankfurter (free, no API key, CORS enabled).
+ * Currencies the ECB doesn't publish keep their bundled snapshot rate against USD.
+ * https://www.frankfurter.app/
+ */
+export function createFrankfurterRateProvider(options: FetchRateProviderOptions = {}): ExchangeRateProvider {
+  const symbols = CURRENCY_CODES.filter(code => code !== LIVE_BASE && !NON_ECB_CURRENCIES.includes(code)).join(',');
+  const snapshotRates = rebaseExchangeRates(EXCHANGE_RATE_SNAPSHOT, LIVE_BASE).rates;
+  const nonEcbRates = Object.fromEntries(NON_ECB_CURRENCIES.map(code => [code, snapshotRates[code]]));
+  return {
+    id: 'frankfurter',
+    name: 'Frankfurter (ECB)',
+    async getRates() {
+      const data = await fetchJson('frankfurter', `https://api.frankfurter.app/latest?from=${LIVE_BASE}&to=${symbols}`, options) as FrankfurterBody;
+      if (!data.date) {
+        throw new ExchangeRateError('frankfurter returned no rate date', 'frankfurter');
+      }
+      return toExchangeRates('frankfurter', LIVE_BASE, { ...nonEcbRates, ...data.rates }, new Date(data.date).toISOString());
+    },
+  };
+}
+
+/**
+ * Rates from ExchangeRate-API's open endpoint (free, no API key, CORS enabled)
+ * https://www.exchangerate-api.com/docs/free
+ */
+export function createOpenExchangeRateProvider(options: FetchRateProviderOptions = {}): ExchangeRateProvider {
+  return {
+    id: 'exchangerate-api',
+    name: 'ExchangeRate-API',
+    async getRates() {
+      const data = await fetchJson('exchangerate-api', `https://open.er-api.com/v6/latest/${LIVE_BASE}`, options) as OpenExchangeRateBody;
+      if (data.result !== 'success' || data.time_last_update_unix === undefined) {
+        throw new ExchangeRateError(`exchangerate-api returned result: ${data.result ?? 'none'}`, 'exchangerate-api');
+      }
+      return toExchangeRates(
+        'exchangerate-api',
+        LIVE_BASE,
+        data.rates,
+        new Date(data.time_last_update_unix * 1000).toISOString()
+      );
+    },
+  };
+}
+
+// ============================================================================
+// Caching and Fallback
+// ============================================================================
+
+/**
+ * Read cached rates regardless of age, or null if none are stored or they are invalid
+ */
+export function readCachedExchangeRates(cache: ExchangeRateCache, key: string = DEFAULT_CACHE_KEY): ExchangeRates | null {
+  return readCache(cache, key)?.rates ?? null;
+}
+
+function readCache(cache: ExchangeRateCache, key: string): CachedRates | null {
+  try {
+    const stored = cache.getItem(key);
+    if (!stored) return null;
+
+    const data = JSON.parse(stored) as Partial<CachedRates>;
+    const rates = ExchangeRatesSchema.safeParse(data.rates);
+    if (!rates.success || typeof data.fetchedAt !== 'number') return null;
+    return { rates: rates.data, fetchedAt: data.fetchedAt };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Serve a provider's rates from cache while they are fresh, fetching and storing
+ * them once they expire. Cache read and write failures never fail a lookup.
+ */
+export function createCachedRateProvider(
+  provider: ExchangeRateProvider,
+  cache: ExchangeRateCache,
+  options: CachedRateProviderOptions = {}
+): ExchangeRateProvider {
+  const key = options.key ?? DEFAULT_CACHE_KEY;
+  const maxAgeMs = options.maxAgeMs ?? DEFAULT_CACHE_MAX_AGE_MS;
+  const now = options.now ?? Date.now;
+
+  return {
+    id: provider.id,
+    name: provider.name,
+    async getRates() {
+      const cached = readCache(cache, key);
+      if (cached && now() - cached.fetchedAt < maxAgeMs) {
+        return cached.rates;
+      }
+
+      const rates = await provider.getRates();
+      try {
+        cache.setItem(key, JSON.stringify({ rates, fetchedAt: now() } satisfies CachedRates));
+      } catch {
+        // Storage full or unavailable; the fetched rates are still good
+      }
+      return rates;
+    },
+  };
+}
+
+/**
+ * Try providers in order and return the first rates that load.
+ * Throws an ExchangeRateError listing every failure if none do.
+ */
+export function createFallbackRateProvider(providers: ExchangeRateProvider[]): ExchangeRateProvider {
+  return {
+    id: providers.map(p => p.id).join('|'),
+    name: providers.map(p => p.name).join(', then '),
+    async getRates() {
+      const errors: string[] = [];
+      for (const provider of providers) {
+        try {
+          return await provider.getRates();
+        } catch (e) {
+          errors.push(e instanceof Error ? e.message : String(e));
+        }
+      }
+      throw new ExchangeRateError(`No exchange rate provider succeeded: ${errors.join('; ')}`, 'fallback');
+    },
+  };
+}
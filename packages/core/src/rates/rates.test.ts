@@ -0,0 +1,172 @@
+/**
+ * Exchange Rate Unit Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  EXCHANGE_RATE_SNAPSHOT,
+  getExchangeRate,
+  rebaseExchangeRates,
+  buildExchangeRateMatrix,
+} from './exchange-rates';
+import {
+  ExchangeRateError,
+  createManualRateProvider,
+  createFrankfurterRateProvider,
+  createOpenExchangeRateProvider,
+  readCachedExchangeRates,
+  createCachedRateProvider,
+  createFallbackRateProvider,
+} from './rate-providers';
+import { convertCurrency } from '../utils';
+import { CURRENCY_CODES } from '../data';
+import type { ExchangeRateCache, ExchangeRateProvider, ExchangeRates } from '../types';
+
+// ============================================================================
+// Test Data
+// ============================================================================
+
+// Snapshot rates for every currency, with round numbers for the ones under test
+const usdRates: ExchangeRates = {
+  base: 'USD',
+  rates: { ...rebaseExchangeRates(EXCHANGE_RATE_SNAPSHOT, 'USD').rates, MYR: 4, SGD: 1.25, EUR: 0.8, GBP: 0.5, AUD: 1.6 },
+  source: 'manual',
+  updatedAt: '2026-03-01T00:00:00.000Z',
+};
+
+function jsonFetch(body: unknown, status = 200) {
+  return vi.fn(async () => new Response(JSON.stringify(body), { status })) as unknown as typeof fetch;
+}
+
+function memoryCache(): ExchangeRateCache & { store: Map<string, string> } {
+  const store = new Map<string, string>();
+  return {
+    store,
+    getItem: key => store.get(key) ?? null,
+    setItem: (key, value) => { store.set(key, value); },
+  };
+}
+
+// Rates as quoted against USD, without USD itself
+const quotedRates = Object.fromEntries(Object.entries(usdRates.rates).filter(([code]) => code !== 'USD'));
+
+// Frankfurter only quotes currencies with ECB reference rates
+const ecbRates = Object.fromEntries(Object.entries(quotedRates).filter(([code]) => !['VND', 'TWD', 'AED'].includes(code)));
+
+// ============================================================================
+// Rate Helper Tests
+// ============================================================================
+
+describe('exchange rate helpers', () => {
+  it('converts between any two currencies through the base', () => {
+    expect(getExchangeRate(usdRates, 'MYR', 'GBP')).toBeCloseTo(0.125);
+    expect(getExchangeRate(usdRates, 'EUR', 'EUR')).toBe(1);
+    expect(convertCurrency(100, 'MYR', 'SGD', usdRates)).toBeCloseTo(31.25);
+  });
+
+  it('rebases rates without changing cross rates', () => {
+    const rebased = rebaseExchangeRates(usdRates, 'MYR');
+
+    expect(rebased).toMatchObject({ base: 'MYR', source: 'manual', updatedAt: usdRates.updatedAt });
+    expect(rebased.rates.MYR).toBe(1);
+    expect(rebased.rates.USD).toBeCloseTo(0.25);
+    expect(getExchangeRate(rebased, 'EUR', 'AUD')).toBeCloseTo(2);
+  });
+
+  it('builds a full matrix', () => {
+    const matrix = buildExchangeRateMatrix(usdRates);
+
+    expect(Object.keys(matrix)).toEqual(CURRENCY_CODES);
+    expect(matrix.GBP.MYR).toBeCloseTo(8);
+    expect(matrix.MYR.GBP).toBeCloseTo(0.125);
+  });
+
+  it('converts with the bundled snapshot by default', () => {
+    expect(EXCHANGE_RATE_SNAPSHOT).toMatchObject({ base: 'MYR', source: 'snapshot' });
+    expect(convertCurrency(100, 'MYR', 'USD')).toBeCloseTo(100 * EXCHANGE_RATE_SNAPSHOT.rates.USD);
+  });
+});
+
+// ============================================================================
+// Provider Tests
+// ============================================================================
+
+describe('rate providers', () => {
+  it('validates manual rates', async () => {
+    await expect(createManualRateProvider(usdRates).getRates()).resolves.toMatchObject({ source: 'manual' });
+    expect(() => createManualRateProvider({ ...usdRates, rates: { ...usdRates.rates, SGD: 0 } }))
+      .toThrow('manual returned no rate for SGD');
+  });
+
+  it('parses Frankfurter rates against USD, keeping snapshot rates for non-ECB currencies', async () => {
+    const fetchImpl = jsonFetch({ base: 'USD', date: '2026-03-02', rates: ecbRates });
+    const rates = await createFrankfurterRateProvider({ fetch: fetchImpl }).getRates();
+
+    expect(fetchImpl).toHaveBeenCalledWith(
+      `https://api.frankfurter.app/latest?from=USD&to=${Object.keys(ecbRates).join(',')}`,
+      expect.anything()
+    );
+    // usdRates holds the snapshot rates for VND, TWD and AED
+    expect(rates).toEqual({ ...usdRates, source: 'frankfurter', updatedAt: '2026-03-02T00:00:00.000Z' });
+  });
+
+  it('parses ExchangeRate-API rates and ignores unsupported currencies', async () => {
+    const fetchImpl = jsonFetch({ result: 'success', time_last_update_unix: 1772409600, rates: { ...usdRates.rates, XAU: 0.0005 } });
+    const rates = await createOpenExchangeRateProvider({ fetch: fetchImpl }).getRates();
+
+    expect(rates.rates).toEqual(usdRates.rates);
+    expect(rates).toMatchObject({ source: 'exchangerate-api', updatedAt: '2026-03-02T00:00:00.000Z' });
+  });
+
+  it('rejects error responses and missing currencies', async () => {
+    await expect(createFrankfurterRateProvider({ fetch: jsonFetch({}, 503) }).getRates())
+      .rejects.toThrow('frankfurter API error: 503');
+    await expect(createFrankfurterRateProvider({ fetch: jsonFetch({ date: '2026-03-02', rates: { MYR: 4 } }) }).getRates())
+      .rejects.toBeInstanceOf(ExchangeRateError);
+  });
+});
+
+// ============================================================================
+// Caching and Fallback Tests
+// ============================================================================
+
+describe('createCachedRateProvider', () => {
+  it('serves fresh rates from cache and refetches once they expire', async () => {
+    const cache = memoryCache();
+    const provider: ExchangeRateProvider = { id: 'live', name: 'Live', getRates: vi.fn(async () => usdRates) };
+    let now = 0;
+    const cached = createCachedRateProvider(provider, cache, { maxAgeMs: 1000, now: () => now });
+
+    await cached.getRates();
+    now = 999;
+    await cached.getRates();
+    expect(provider.getRates).toHaveBeenCalledTimes(1);
+
+    now = 1000;
+    await cached.getRates();
+    expect(provider.getRates).toHaveBeenCalledTimes(2);
+    expect(readCachedExchangeRates(cache)).toEqual(usdRates);
+  });
+
+  it('ignores corrupt cache entries', () => {
+    const cache = memoryCache();
+    cache.setItem('basedpricer-exchange-rates', '{"rates":{"base":"USD"},"fetchedAt":1}');
+
+    expect(readCachedExchangeRates(cache)).toBeNull();
+  });
+});
+
+describe('createFallbackRateProvider', () => {
+  it('returns the first provider that succeeds', async () => {
+    const failing: ExchangeRateProvider = {
+      id: 'down',
+      name: 'Down',
+      getRates: async () => { throw new ExchangeRateError('down API error: 500', 'down'); },
+    };
+
+    await expect(createFallbackRateProvider([failing, createManualRateProvider(usdRates)]).getRates())
+      .resolves.toMatchObject({ source: 'manual' });
+    await expect(createFallbackRateProvider([failing]).getRates())
+      .rejects.toThrow('No exchange rate provider succeeded: down API error: 500');
+  });
+});
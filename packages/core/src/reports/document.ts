@@ -0,0 +1,464 @@
+/**
+ * Stakeholder report documents
+ * Builds the content of the accountant, investor, engineer and marketer reports
+ * as plain sections, so every renderer (PDF, markdown) prints the same document
+ */
+
+import type {
+  StakeholderType,
+  ReportDocument,
+  ReportDocumentInput,
+  ReportSection,
+  ReportTierInput,
+  TierUsageInput,
+} from '../types';
+import { calculateCOGSBreakdown, calculateItemCostPerCustomer } from '../calculators/cogs';
+import { calculateGrossMargin, calculateProfit, getMarginStatus } from '../calculators/margin';
+import { calculateSeatTierEconomics } from '../calculators/seat-pricing';
+import { calculateInvestorMetrics } from '../calculators/investor-metrics';
+import { resolveLimitCost } from '../calculators/tier-cogs';
+import { getPriceExcludingTax, getTierPricesExcludingTax } from '../calculators/tax';
+import { formatCurrency, formatPercentage } from '../utils';
+import { DEFAULT_CURRENCY, MONTHS_PER_YEAR } from '../data';
+
+export const REPORT_TITLES: Record<StakeholderType, string> = {
+  accountant: 'Accountant Report',
+  investor: 'Investor Report',
+  engineer: 'Engineer Report',
+  marketer: 'Marketer Report',
+};
+
+const DEFAULT_MONTHLY_GROWTH_RATE = 0.05;
+const LTV_LIFESPAN_MONTHS = 24;
+const FREE_TIER_IDS = ['free', 'freemium'];
+
+type TierLimitInput = TierUsageInput['limits'][number];
+
+// ============================================================================
+// Shared Figures
+// ============================================================================
+
+/**
+ * Headline figures shared by the accountant and investor reports, on revenue net of sales tax
+ */
+function summarize(input: ReportDocumentInput) {
+  const costs = calculateCOGSBreakdown(input.variableCosts, input.fixedCosts, input.customerCount);
+  const netPrice = getPriceExcludingTax(input.selectedPrice, input.tax);
+  const margin = calculateGrossMargin(netPrice, costs.totalCOGS);
+  const profit = calculateProfit(netPrice, costs.totalCOGS);
+  const mrr = netPrice * input.customerCount;
+  const breakEvenCustomers = costs.fixedTotal > 0 && profit > 0 ? Math.ceil(costs.fixedTotal / profit) : 0;
+  return { costs, netPrice, margin, profit, mrr, breakEvenCustomers };
+}
+
+/**
+ * How prices relate to sales tax, for reports that show revenue
+ */
+function taxNote(input: ReportDocumentInput): string | null {
+  const { tax } = input;
+  if (!tax || tax.rate <= 0) return null;
+  const rate = formatPercentage(tax.rate * 100, 0);
+  return tax.inclusive
+    ? `Prices include ${rate} ${tax.label}; revenue and margins are net of it.`
+    : `Prices exclude ${rate} ${tax.label}, which is charged on top and not counted as revenue.`;
+}
+
+function money(input: ReportDocumentInput, value: number): string {
+  return formatCurrency(value, input.currency ?? DEFAULT_CURRENCY);
+}
+
+function growthRate(input: ReportDocumentInput): number {
+  return input.monthlyGrowthRate ?? DEFAULT_MONTHLY_GROWTH_RATE;
+}
+
+function activeTiers(input: ReportDocumentInput): ReportTierInput[] {
+  return input.tiers
+    .filter(tier => (tier.status ?? 'active') === 'active')
+    .sort((a, b) => a.monthlyPrice - b.monthlyPrice);
+}
+
+function isFeatureInTier(featureId: string, tier: ReportTierInput): boolean {
+  if (tier.excludedFeatures?.includes(featureId)) return false;
+  if (tier.includedFeatures) return tier.includedFeatures.includes(featureId);
+  return tier.limits.some(limit => limit.featureId === featureId && limit.limit !== false);
+}
+
+function formatLimit(limit: TierLimitInput | undefined, included: boolean): string {
+  if (!included) return '-';
+  if (!limit || limit.limit === 'unlimited' || limit.limit === true) return 'Unlimited';
+  if (limit.limit === false) return '-';
+  const unit = limit.unit ? ` ${limit.unit}` : '';
+  const perSeat = limit.perSeat ? '/seat' : '';
+  return `${limit.limit.toLocaleString('en-US')}${unit}${perSeat}`;
+}
+
+function tierPriceLabel(input: ReportDocumentInput, tier: ReportTierInput): string {
+  const base = money(input, tier.monthlyPrice);
+  if (!tier.seatPricing) return base;
+  return `${base} + ${money(input, tier.seatPricing.pricePerSeat)}/seat`;
+}
+
+// ============================================================================
+// Stakeholder Sections
+// ============================================================================
+
+function accountantSections(input: ReportDocumentInput): ReportSection[] {
+  const { costs, netPrice, margin, profit, mrr, breakEvenCustomers } = summarize(input);
+  const rate = growthRate(input);
+  const note = taxNote(input);
+
+  const tierRows = input.tiers
+    .map(tier => ({
+      tier,
+      economics: calculateSeatTierEconomics(
+        getTierPricesExcludingTax(tier, input.tax),
+        input.variableCosts,
+        input.utilizationRate,
+        input.features
+      ),
+    }))
+    .filter(({ economics }) => economics.revenuePerCustomer > 0)
+    .map(({ tier, economics }) => [
+      tier.seatPricing ? `${tier.name} (${economics.seats} seats)` : tier.name,
+      money(input, economics.revenuePerCustomer),
+      money(input, economics.cogsPerCustomer),
+      formatPercentage(economics.margin),
+      getMarginStatus(economics.margin),
+    ]);
+
+  // 12-month P&L with compounding customer growth
+  let customers = input.customerCount;
+  let cumulativeRevenue = 0;
+  let cumulativeProfit = 0;
+  const projectionRows = Array.from({ length: MONTHS_PER_YEAR }, (_, i) => {
+    if (i > 0) customers = Math.round(customers * (1 + rate));
+    const revenue = netPrice * customers;
+    const variable = costs.variableTotal * customers;
+    const grossProfit = revenue - variable - costs.fixedTotal;
+    cumulativeRevenue += revenue;
+    cumulativeProfit += grossProfit;
+    return [
+      `M${i + 1}`,
+      customers.toLocaleString('en-US'),
+      money(input, revenue),
+      money(input, variable),
+      money(input, costs.fixedTotal),
+      money(input, grossProfit),
+    ];
+  });
+
+  const sections: ReportSection[] = [
+    {
+      title: 'Key Metrics',
+      blocks: [{
+        type: 'metrics',
+        items: [
+          { label: 'Monthly Recurring Revenue', value: money(input, mrr) },
+          { label: 'Annual Recurring Revenue', value: money(input, mrr * MONTHS_PER_YEAR) },
+          { label: 'Gross Margin', value: formatPercentage(margin), note: getMarginStatus(margin) },
+          { label: 'Profit per Customer', value: money(input, profit) },
+          {
+            label: 'Break-even',
+            value: breakEvenCustomers > 0 ? `${breakEvenCustomers.toLocaleString('en-US')} customers` : 'n/a',
+          },
+          { label: 'Customers', value: input.customerCount.toLocaleString('en-US'), note: `at ${money(input, input.selectedPrice)}/mo` },
+        ],
+      }, ...(note ? [{ type: 'paragraph' as const, text: note }] : [])],
+    },
+    {
+      title: 'Cost of Goods Sold (COGS) Breakdown',
+      blocks: [
+        {
+          type: 'table',
+          columns: ['Variable Cost', 'Unit', 'Cost/Unit', 'Usage', 'Per Customer'],
+          rows: input.variableCosts.map(item => [
+            item.name,
+            item.unit,
+            money(input, item.costPerUnit),
+            item.usagePerCustomer.toLocaleString('en-US'),
+            money(input, calculateItemCostPerCustomer(item)),
+          ]),
+          align: ['left', 'left', 'right', 'right', 'right'],
+          footer: ['Variable total', '', '', '', money(input, costs.variableTotal)],
+        },
+        {
+          type: 'table',
+          columns: ['Fixed Cost', 'Monthly', 'Per Customer'],
+          rows: input.fixedCosts.map(item => [
+            item.name,
+            money(input, item.monthlyCost),
+            money(input, input.customerCount > 0 ? item.monthlyCost / input.customerCount : 0),
+          ]),
+          footer: ['Fixed total', money(input, costs.fixedTotal), money(input, costs.fixedPerCustomer)],
+        },
+        { type: 'paragraph', text: `Total COGS per customer: ${money(input, costs.totalCOGS)}.` },
+      ],
+    },
+  ];
+
+  if (tierRows.length > 0) {
+    sections.push({
+      title: 'Tier Margins',
+      blocks: [
+        { type: 'table', columns: ['Tier', 'Price', 'COGS', 'Margin', 'Status'], rows: tierRows },
+        {
+          type: 'paragraph',
+          text: `Based on each tier's usage limits at ${formatPercentage(input.utilizationRate * 100, 0)} utilization.`,
+        },
+      ],
+    });
+  }
+
+  sections.push({
+    title: `12-Month P&L Projection (${formatPercentage(rate * 100, 0)} Monthly Growth)`,
+    blocks: [{
+      type: 'table',
+      columns: ['Month', 'Customers', 'Revenue', 'Variable Costs', 'Fixed Costs', 'Gross Profit'],
+      rows: projectionRows,
+      footer: ['12-Month Total', '', money(input, cumulativeRevenue), '', '', money(input, cumulativeProfit)],
+    }],
+  });
+
+  return sections;
+}
+
+function investorSections(input: ReportDocumentInput): ReportSection[] {
+  const { costs, netPrice, margin, mrr, breakEvenCustomers } = summarize(input);
+  const rate = growthRate(input);
+
+  // Free tiers count towards customers but not revenue
+  const freePct = Object.entries(input.tierDistribution).reduce((sum, [tierId, pct]) => {
+    const tier = input.tiers.find(t => t.id === tierId);
+    const isFree = FREE_TIER_IDS.includes(tierId.toLowerCase()) || tier?.monthlyPrice === 0;
+    return isFree ? sum + (pct || 0) : sum;
+  }, 0);
+  const paidCustomers = Math.round(input.customerCount * (1 - freePct / 100));
+  const arpu = paidCustomers > 0 ? mrr / paidCustomers : netPrice;
+  const ltv = arpu * LTV_LIFESPAN_MONTHS * (margin / 100);
+
+  const metrics = calculateInvestorMetrics({
+    mrr,
+    paidCustomers,
+    arpu,
+    grossMargin: margin,
+    breakEvenCustomers,
+    monthlyGrowthRate: rate,
+    ltv,
+  });
+
+  return [
+    {
+      title: 'Revenue & Valuation',
+      blocks: [{
+        type: 'metrics',
+        items: [
+          { label: 'Annual Recurring Revenue', value: money(input, metrics.arr), note: `MRR ${money(input, mrr)}` },
+          { label: 'Valuation (10x ARR)', value: money(input, metrics.valuation.valuationMid) },
+          { label: 'Conservative (5x)', value: money(input, metrics.valuation.valuationLow) },
+          { label: 'High Growth (15x)', value: money(input, metrics.valuation.valuationHigh) },
+        ],
+      }],
+    },
+    {
+      title: 'Unit Economics',
+      blocks: [{
+        type: 'metrics',
+        items: [
+          { label: 'ARPU', value: money(input, metrics.arpu), note: 'monthly' },
+          { label: 'LTV', value: money(input, ltv), note: `${LTV_LIFESPAN_MONTHS}-month lifespan` },
+          { label: 'Gross Margin', value: formatPercentage(margin), note: metrics.grossMarginHealth },
+          {
+            label: 'Paid Customers',
+            value: paidCustomers.toLocaleString('en-US'),
+            note: `of ${input.customerCount.toLocaleString('en-US')} total`,
+          },
+        ],
+      }],
+    },
+    {
+      title: 'ARR Milestones',
+      blocks: [{
+        type: 'table',
+        columns: ['Milestone', 'Customers Needed', 'Progress', 'Estimate'],
+        rows: metrics.milestones.map(milestone => {
+          const achieved = metrics.arr >= milestone.targetARR;
+          const progress = Math.min(100, (metrics.arr / milestone.targetARR) * 100);
+          return [
+            milestone.label,
+            milestone.customersNeeded.toLocaleString('en-US'),
+            formatPercentage(progress, 0),
+            achieved
+              ? 'Achieved'
+              : milestone.monthsToReach !== null ? `${milestone.monthsToReach} months` : '-',
+          ];
+        }),
+      }, {
+        type: 'paragraph',
+        text: `Estimates assume ${formatPercentage(rate * 100, 0)} monthly customer growth.`,
+      }],
+    },
+    {
+      title: 'Break-even Analysis',
+      blocks: [{
+        type: 'metrics',
+        items: [
+          { label: 'Break-even Point', value: `${metrics.breakEvenCustomers.toLocaleString('en-US')} customers` },
+          { label: 'Current Paid Customers', value: metrics.currentPaidCustomers.toLocaleString('en-US') },
+          {
+            label: metrics.customersToBreakEven <= 0 ? 'Status' : 'Customers to Go',
+            value: metrics.customersToBreakEven <= 0 ? 'Profitable' : metrics.customersToBreakEven.toLocaleString('en-US'),
+            note: metrics.monthsToBreakEven ? `~${metrics.monthsToBreakEven} months` : undefined,
+          },
+          { label: 'Monthly Fixed Costs', value: money(input, costs.fixedTotal) },
+        ],
+      }],
+    },
+  ];
+}
+
+/**
+ * Features linked to a variable cost, by a tier limit's cost item or the feature's cost driver
+ */
+function costDriverRows(input: ReportDocumentInput, tiers: ReportTierInput[]): string[][] {
+  return input.features.flatMap(feature => {
+    const linked = tiers
+      .flatMap(tier => tier.limits.filter(limit => limit.featureId === feature.id))
+      .map(limit => resolveLimitCost(limit, input.variableCosts, input.features))
+      .find(cost => cost !== null);
+
+    if (linked) {
+      return [[
+        feature.name,
+        linked.item?.name ?? linked.costDriver ?? '',
+        linked.item ? `${money(input, linked.costPerUnit)} / ${linked.item.unit}` : money(input, linked.costPerUnit),
+      ]];
+    }
+    if (!feature.costDriver) return [];
+    const item = input.variableCosts.find(cost => cost.id === feature.costDriver);
+    return [[
+      feature.name,
+      item?.name ?? feature.costDriver,
+      item ? `${money(input, item.costPerUnit)} / ${item.unit}` : '-',
+    ]];
+  });
+}
+
+function engineerSections(input: ReportDocumentInput): ReportSection[] {
+  const tiers = activeTiers(input);
+  const costDrivers = costDriverRows(input, tiers);
+
+  return [
+    {
+      title: 'Tier Configuration',
+      blocks: [{
+        type: 'table',
+        columns: ['Tier', 'Monthly Price', 'Features', 'Limits'],
+        rows: tiers.map(tier => [
+          tier.name,
+          tierPriceLabel(input, tier),
+          String(input.features.filter(f => isFeatureInTier(f.id, tier)).length),
+          String(tier.limits.filter(l => typeof l.limit === 'number').length),
+        ]),
+      }],
+    },
+    {
+      title: 'Tier Limits & Quotas',
+      blocks: [{
+        type: 'table',
+        columns: ['Feature', ...tiers.map(tier => tier.name)],
+        rows: input.features.map(feature => [
+          feature.name,
+          ...tiers.map(tier =>
+            formatLimit(tier.limits.find(l => l.featureId === feature.id), isFeatureInTier(feature.id, tier))
+          ),
+        ]),
+      }],
+    },
+    // Left out when no feature is linked to a cost, rather than printing an empty table
+    ...(costDrivers.length > 0
+      ? [{
+          title: 'Cost Drivers',
+          blocks: [{
+            type: 'table' as const,
+            columns: ['Feature', 'Cost Driver', 'Cost/Unit'],
+            rows: costDrivers,
+            align: ['left' as const, 'left' as const, 'right' as const],
+          }],
+        }]
+      : []),
+  ];
+}
+
+function marketerSections(input: ReportDocumentInput): ReportSection[] {
+  const tiers = activeTiers(input);
+
+  return [
+    {
+      title: 'Tier Positioning',
+      blocks: [{
+        type: 'table',
+        columns: ['Tier', 'Monthly', 'Annual', 'Annual Savings'],
+        rows: tiers.map(tier => {
+          const savings = tier.annualPrice && tier.monthlyPrice
+            ? tier.monthlyPrice * MONTHS_PER_YEAR - tier.annualPrice
+            : 0;
+          return [
+            tier.name,
+            tier.monthlyPrice === 0 && !tier.seatPricing ? 'Free' : tierPriceLabel(input, tier),
+            tier.annualPrice ? money(input, tier.annualPrice) : '-',
+            savings > 0 ? money(input, savings) : '-',
+          ];
+        }),
+      }],
+    },
+    {
+      title: 'Key Features by Tier',
+      blocks: tiers.map((tier, index) => {
+        const previous = index > 0 ? tiers[index - 1] : null;
+        const highlights = input.features
+          .filter(f => isFeatureInTier(f.id, tier) && !(previous && isFeatureInTier(f.id, previous)))
+          .map(f => f.name);
+        const prefix = previous ? `Everything in ${previous.name}, plus` : 'Includes';
+        return {
+          type: 'paragraph' as const,
+          text: `${tier.name}: ${highlights.length > 0 ? `${prefix} ${highlights.join(', ')}.` : `Same features as ${previous?.name ?? 'other tiers'}.`}`,
+        };
+      }),
+    },
+  ];
+}
+
+const SECTION_BUILDERS: Record<StakeholderType, (input: ReportDocumentInput) => ReportSection[]> = {
+  accountant: accountantSections,
+  investor: investorSections,
+  engineer: engineerSections,
+  marketer: marketerSections,
+};
+
+// ============================================================================
+// Document
+// ============================================================================
+
+/**
+ * Build the report document for a stakeholder.
+ * Stakeholder notes are appended as a final section.
+ */
+export function buildReportDocument(
+  stakeholder: StakeholderType,
+  input: ReportDocumentInput
+): ReportDocument {
+  const sections = SECTION_BUILDERS[stakeholder](input);
+
+  const note = input.notes?.[stakeholder]?.trim();
+  if (note) {
+    sections.push({ title: 'Notes', blocks: [{ type: 'paragraph', text: note }] });
+  }
+
+  return {
+    stakeholder,
+    title: REPORT_TITLES[stakeholder],
+    projectName: input.projectName,
+    generatedAt: input.generatedAt ?? new Date().toISOString(),
+    sections,
+  };
+}
@@ -0,0 +1,10 @@
+/**
+ * Report exports
+ * Re-exports stakeholder report documents, PDF rendering and spreadsheet export
+ */
+
+export { REPORT_TITLES, buildReportDocument } from './document';
+export { formatReportDate, renderReportPdf } from './pdf';
+export { buildCostModelWorkbook, workbookToCsv, writeWorkbookXlsx } from './spreadsheet';
+export type { PdfWriter } from './pdf';
+export type { XlsxWriter, XlsxWorksheet, XlsxRow } from './spreadsheet';
@@ -0,0 +1,213 @@
+/**
+ * PDF rendering for stakeholder report documents
+ * Lays out a ReportDocument on any jsPDF-compatible writer (A4, millimetres),
+ * so the web app and CLI produce the same file without core depending on jsPDF
+ */
+
+import type { ReportBlock, ReportDocument, ReportMetric } from '../types';
+
+/**
+ * The subset of the jsPDF API used to render reports.
+ * Create the writer with `new jsPDF({ unit: 'mm', format: 'a4' })`.
+ */
+export interface PdfWriter {
+  internal: { pageSize: { getWidth(): number; getHeight(): number } };
+  setProperties(properties: { title?: string; subject?: string; creator?: string }): unknown;
+  setFont(fontName: string, fontStyle?: string): unknown;
+  setFontSize(size: number): unknown;
+  setTextColor(r: number, g: number, b: number): unknown;
+  setDrawColor(r: number, g: number, b: number): unknown;
+  setLineWidth(width: number): unknown;
+  text(text: string | string[], x: number, y: number, options?: { align?: 'left' | 'center' | 'right' }): unknown;
+  line(x1: number, y1: number, x2: number, y2: number): unknown;
+  splitTextToSize(text: string, maxWidth: number): string[];
+  addPage(): unknown;
+  setPage(page: number): unknown;
+  getNumberOfPages(): number;
+}
+
+const MARGIN_X = 15;
+const CONTENT_TOP = 22;
+const CONTENT_BOTTOM_GAP = 18;
+const LINE_HEIGHT = 4.5;
+const CELL_PADDING = 1.5;
+
+const TEXT: [number, number, number] = [17, 24, 39];
+const MUTED: [number, number, number] = [107, 114, 128];
+const RULE: [number, number, number] = [209, 213, 219];
+const ACCENT: [number, number, number] = [37, 63, 246];
+
+/**
+ * Format a report timestamp as a long date
+ */
+export function formatReportDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-MY', { year: 'numeric', month: 'long', day: 'numeric' });
+}
+
+/**
+ * Render a report document onto a PDF writer.
+ * Adds pages as needed, repeating table headers, and draws the header
+ * (project name, report title) and footer (generated date, page numbers) on every page.
+ */
+export function renderReportPdf(document: ReportDocument, writer: PdfWriter): void {
+  const pageWidth = writer.internal.pageSize.getWidth();
+  const pageHeight = writer.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - MARGIN_X * 2;
+  const contentBottom = pageHeight - CONTENT_BOTTOM_GAP;
+  const generatedDate = formatReportDate(document.generatedAt);
+  let y = CONTENT_TOP;
+
+  const style = (size: number, weight: 'normal' | 'bold' = 'normal', color = TEXT) => {
+    writer.setFont('helvetica', weight);
+    writer.setFontSize(size);
+    writer.setTextColor(...color);
+  };
+
+  const ensureSpace = (height: number): boolean => {
+    if (y + height <= contentBottom) return false;
+    writer.addPage();
+    y = CONTENT_TOP;
+    return true;
+  };
+
+  const paragraph = (text: string) => {
+    style(10, 'normal', TEXT);
+    for (const line of writer.splitTextToSize(text, contentWidth)) {
+      ensureSpace(LINE_HEIGHT);
+      writer.text(line, MARGIN_X, y + 3.5);
+      y += LINE_HEIGHT;
+    }
+    y += 2;
+  };
+
+  const metrics = (items: ReportMetric[]) => {
+    const columnWidth = contentWidth / 2;
+    for (let i = 0; i < items.length; i += 2) {
+      ensureSpace(15);
+      items.slice(i, i + 2).forEach((item, column) => {
+        const x = MARGIN_X + column * columnWidth;
+        style(8, 'normal', MUTED);
+        writer.text(item.label, x, y + 3);
+        style(12, 'bold', TEXT);
+        writer.text(item.value, x, y + 8.5);
+        if (item.note) {
+          style(8, 'normal', MUTED);
+          writer.text(item.note, x, y + 12.5);
+        }
+      });
+      y += 15;
+    }
+    y += 1;
+  };
+
+  const table = (block: Extract<ReportBlock, { type: 'table' }>) => {
+    const { columns } = block;
+    // First column gets extra room for labels
+    const weights = columns.map((_, i) => (i === 0 ? 1.6 : 1));
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+    const widths = weights.map(w => (w / totalWeight) * contentWidth);
+    const align = (i: number) => block.align?.[i] ?? (i === 0 ? 'left' : 'right');
+
+    const row = (cells: string[], weight: 'normal' | 'bold', color = TEXT) => {
+      style(8.5, weight, color);
+      const lines = cells.map((cell, i) => writer.splitTextToSize(cell, widths[i] - CELL_PADDING * 2));
+      const height = Math.max(1, ...lines.map(l => l.length)) * 3.8 + CELL_PADDING * 2;
+      return {
+        height,
+        draw: () => {
+          let x = MARGIN_X;
+          lines.forEach((cellLines, i) => {
+            const textX = align(i) === 'right' ? x + widths[i] - CELL_PADDING : x + CELL_PADDING;
+            writer.text(cellLines, textX, y + CELL_PADDING + 2.8, { align: align(i) });
+            x += widths[i];
+          });
+          y += height;
+        },
+      };
+    };
+
+    const header = () => {
+      const head = row(columns, 'bold', MUTED);
+      head.draw();
+      writer.setDrawColor(...RULE);
+      writer.setLineWidth(0.3);
+      writer.line(MARGIN_X, y, MARGIN_X + contentWidth, y);
+      return head.height;
+    };
+
+    ensureSpace(16);
+    header();
+
+    for (const cells of block.rows) {
+      const body = row(cells, 'normal');
+      if (ensureSpace(body.height)) header();
+      style(8.5, 'normal', TEXT);
+      body.draw();
+    }
+
+    if (block.rows.length === 0) {
+      style(8.5, 'normal', MUTED);
+      writer.text('None', MARGIN_X + CELL_PADDING, y + 4);
+      y += 6;
+    }
+
+    if (block.footer) {
+      const foot = row(block.footer, 'bold');
+      if (ensureSpace(foot.height + 1)) header();
+      writer.setDrawColor(...RULE);
+      writer.line(MARGIN_X, y, MARGIN_X + contentWidth, y);
+      style(8.5, 'bold', TEXT);
+      foot.draw();
+    }
+
+    y += 4;
+  };
+
+  writer.setProperties({
+    title: `${document.projectName} - ${document.title}`,
+    subject: document.title,
+    creator: 'BasedPricer',
+  });
+
+  // Title block
+  style(20, 'bold', TEXT);
+  writer.text(document.title, MARGIN_X, y + 6);
+  style(12, 'normal', TEXT);
+  writer.text(document.projectName, MARGIN_X, y + 13);
+  style(9, 'normal', MUTED);
+  writer.text(`Generated ${generatedDate}`, MARGIN_X, y + 18.5);
+  y += 26;
+
+  for (const section of document.sections) {
+    ensureSpace(14);
+    style(13, 'bold', ACCENT);
+    writer.text(section.title, MARGIN_X, y + 5);
+    y += 9;
+
+    for (const block of section.blocks) {
+      if (block.type === 'metrics') metrics(block.items);
+      else if (block.type === 'table') table(block);
+      else paragraph(block.text);
+    }
+    y += 3;
+  }
+
+  // Header and footer on every page, once the page count is known
+  const pageCount = writer.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    writer.setPage(page);
+    writer.setDrawColor(...RULE);
+    writer.setLineWidth(0.3);
+
+    style(9, 'bold', TEXT);
+    writer.text(document.projectName, MARGIN_X, 12);
+    style(9, 'normal', MUTED);
+    writer.text(document.title, pageWidth - MARGIN_X, 12, { align: 'right' });
+    writer.line(MARGIN_X, 15, pageWidth - MARGIN_X, 15);
+
+    writer.line(MARGIN_X, pageHeight - 13, pageWidth - MARGIN_X, pageHeight - 13);
+    style(8, 'normal', MUTED);
+    writer.text(`Generated ${generatedDate} with BasedPricer`, MARGIN_X, pageHeight - 8);
+    writer.text(`Page ${page} of ${pageCount}`, pageWidth - MARGIN_X, pageHeight - 8, { align: 'right' });
+  }
+}
@@ -0,0 +1,317 @@
+/**
+ * Report Document Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildCostModelWorkbook,
+  buildReportDocument,
+  renderReportPdf,
+  workbookToCsv,
+  writeWorkbookXlsx,
+  type PdfWriter,
+  type XlsxWriter,
+} from './index';
+import type { ReportBlock, ReportDocument, ReportDocumentInput, SpreadsheetWorkbook } from '../types';
+
+// ============================================================================
+// Test Data
+// ============================================================================
+
+const input: ReportDocumentInput = {
+  projectName: 'Acme Analytics',
+  generatedAt: '2026-01-15T00:00:00.000Z',
+  variableCosts: [
+    { id: 'api-calls', name: 'API calls', unit: 'requests', costPerUnit: 0.001, usagePerCustomer: 5000, description: '' },
+  ],
+  fixedCosts: [{ id: 'hosting', name: 'Hosting', monthlyCost: 500, description: '' }],
+  tiers: [
+    { id: 'free', name: 'Free', monthlyPrice: 0, limits: [{ featureId: 'api_access', limit: 100 }] },
+    {
+      id: 'pro',
+      name: 'Pro',
+      monthlyPrice: 50,
+      annualPrice: 500,
+      limits: [{ featureId: 'api_access', limit: 10000 }, { featureId: 'sso', limit: true }],
+    },
+    {
+      id: 'team',
+      name: 'Team',
+      monthlyPrice: 100,
+      seatPricing: { pricePerSeat: 10, averageSeats: 5 },
+      limits: [{ featureId: 'api_access', limit: 'unlimited' }, { featureId: 'sso', limit: true }],
+    },
+  ],
+  features: [
+    { id: 'api_access', name: 'API access', costDriver: 'api-calls' },
+    { id: 'sso', name: 'SSO' },
+  ],
+  customerCount: 100,
+  selectedPrice: 50,
+  utilizationRate: 1,
+  tierDistribution: { free: 50, pro: 30, team: 20 },
+  notes: { investor: 'Raising a seed round in Q3.' },
+};
+
+function findBlock<T extends ReportBlock['type']>(
+  document: ReportDocument,
+  title: string,
+  type: T
+): Extract<ReportBlock, { type: T }> {
+  const section = document.sections.find(s => s.title.startsWith(title));
+  const block = section?.blocks.find(b => b.type === type);
+  if (!block) throw new Error(`Missing ${type} in ${title}`);
+  return block as Extract<ReportBlock, { type: T }>;
+}
+
+/**
+ * Records calls like jsPDF would receive them
+ */
+function createRecordingWriter(): PdfWriter & { pages: string[][] } {
+  const pages: string[][] = [[]];
+  let current = 0;
+  return {
+    pages,
+    internal: { pageSize: { getWidth: () => 210, getHeight: () => 297 } },
+    setProperties: () => undefined,
+    setFont: () => undefined,
+    setFontSize: () => undefined,
+    setTextColor: () => undefined,
+    setDrawColor: () => undefined,
+    setLineWidth: () => undefined,
+    text: (text) => {
+      pages[current].push(...(Array.isArray(text) ? text : [text]));
+    },
+    line: () => undefined,
+    splitTextToSize: (text) => [text],
+    addPage: () => {
+      pages.push([]);
+      current = pages.length - 1;
+    },
+    setPage: (page) => {
+      current = page - 1;
+    },
+    getNumberOfPages: () => pages.length,
+  };
+}
+
+// ============================================================================
+// Document Tests
+// ============================================================================
+
+describe('buildReportDocument', () => {
+  it('sets title, project and generated date', () => {
+    const document = buildReportDocument('accountant', input);
+    expect(document.title).toBe('Accountant Report');
+    expect(document.projectName).toBe('Acme Analytics');
+    expect(document.generatedAt).toBe('2026-01-15T00:00:00.000Z');
+  });
+
+  it('builds the accountant P&L and seat-aware tier margins', () => {
+    const document = buildReportDocument('accountant', input);
+
+    const margins = findBlock(document, 'Tier Margins', 'table');
+    expect(margins.rows.map(row => row[0])).toEqual(['Pro', 'Team (5 seats)']);
+    expect(margins.rows[1][1]).toBe('RM 150.00');
+
+    const projection = findBlock(document, '12-Month P&L', 'table');
+    expect(projection.rows).toHaveLength(12);
+    expect(projection.rows[0].slice(0, 3)).toEqual(['M1', '100', 'RM 5,000.00']);
+    expect(projection.rows[1][1]).toBe('105');
+  });
+
+  it('reports revenue and margins net of inclusive sales tax', () => {
+    const document = buildReportDocument('accountant', { ...input, tax: { rate: 0.25, inclusive: true, label: 'VAT' } });
+
+    const metrics = findBlock(document, 'Key Metrics', 'metrics');
+    expect(metrics.items[0]).toMatchObject({ label: 'Monthly Recurring Revenue', value: 'RM 4,000.00' });
+    expect(findBlock(document, 'Key Metrics', 'paragraph').text).toBe('Prices include 25% VAT; revenue and margins are net of it.');
+    expect(findBlock(document, 'Tier Margins', 'table').rows[0][1]).toBe('RM 40.00');
+    expect(findBlock(document, '12-Month P&L', 'table').rows[0][2]).toBe('RM 4,000.00');
+  });
+
+  it('counts only paid customers in investor metrics', () => {
+    const document = buildReportDocument('investor', input);
+    const unitEconomics = findBlock(document, 'Unit Economics', 'metrics');
+    const paid = unitEconomics.items.find(item => item.label === 'Paid Customers');
+    expect(paid?.value).toBe('50');
+    expect(findBlock(document, 'ARR Milestones', 'table').rows).toHaveLength(4);
+  });
+
+  it('shows limits per tier for engineers', () => {
+    const document = buildReportDocument('engineer', input);
+    const limits = findBlock(document, 'Tier Limits', 'table');
+    expect(limits.columns).toEqual(['Feature', 'Free', 'Pro', 'Team']);
+    expect(limits.rows[0]).toEqual(['API access', '100', '10,000', 'Unlimited']);
+    expect(limits.rows[1]).toEqual(['SSO', '-', 'Unlimited', 'Unlimited']);
+  });
+
+  it('lists costs linked by feature cost drivers or tier limits', () => {
+    const rows = findBlock(buildReportDocument('engineer', input), 'Cost Drivers', 'table').rows;
+    expect(rows.map(row => row.slice(0, 2))).toEqual([['API access', 'API calls']]);
+
+    const features = [{ id: 'api_access', name: 'API access' }];
+    const tiers = input.tiers.map(tier => ({
+      ...tier,
+      limits: tier.limits.map(limit => ({ ...limit, variableCostId: limit.featureId === 'api_access' ? 'api-calls' : undefined })),
+    }));
+    const linked = findBlock(buildReportDocument('engineer', { ...input, features, tiers }), 'Cost Drivers', 'table').rows;
+    expect(linked.map(row => row.slice(0, 2))).toEqual([['API access', 'API calls']]);
+  });
+
+  it('leaves out cost drivers when no feature is linked to a cost', () => {
+    const document = buildReportDocument('engineer', { ...input, features: [{ id: 'sso', name: 'SSO' }] });
+    expect(document.sections.some(s => s.title === 'Cost Drivers')).toBe(false);
+  });
+
+  it('highlights features new to each tier for marketers', () => {
+    const document = buildReportDocument('marketer', input);
+    const positioning = findBlock(document, 'Tier Positioning', 'table');
+    expect(positioning.rows[0][1]).toBe('Free');
+    expect(positioning.rows[1][3]).toBe('RM 100.00');
+
+    const highlights = document.sections.find(s => s.title === 'Key Features by Tier')?.blocks;
+    expect(highlights?.[1]).toEqual({ type: 'paragraph', text: 'Pro: Everything in Free, plus SSO.' });
+  });
+
+  it('appends stakeholder notes', () => {
+    const investor = buildReportDocument('investor', input);
+    expect(investor.sections.at(-1)?.title).toBe('Notes');
+    expect(buildReportDocument('engineer', input).sections.some(s => s.title === 'Notes')).toBe(false);
+  });
+});
+
+// ============================================================================
+// PDF Rendering Tests
+// ============================================================================
+
+describe('renderReportPdf', () => {
+  it('draws header and footer with page numbers on every page', () => {
+    const writer = createRecordingWriter();
+    renderReportPdf(buildReportDocument('accountant', input), writer);
+
+    expect(writer.pages.length).toBeGreaterThan(1);
+    writer.pages.forEach((texts, i) => {
+      expect(texts).toContain('Acme Analytics');
+      expect(texts).toContain('Accountant Report');
+      expect(texts).toContain(`Page ${i + 1} of ${writer.pages.length}`);
+      expect(texts.some(text => text.startsWith('Generated') && text.includes('2026'))).toBe(true);
+    });
+  });
+
+  it('repeats table headers when a table spans pages', () => {
+    const writer = createRecordingWriter();
+    const rows = Array.from({ length: 80 }, (_, i) => [`Row ${i}`, String(i)]);
+    renderReportPdf({
+      stakeholder: 'engineer',
+      title: 'Engineer Report',
+      projectName: 'Acme Analytics',
+      generatedAt: '2026-01-15T00:00:00.000Z',
+      sections: [{ title: 'Long Table', blocks: [{ type: 'table', columns: ['Name', 'Value'], rows }] }],
+    }, writer);
+
+    expect(writer.pages.length).toBeGreaterThan(1);
+    writer.pages.forEach(texts => expect(texts).toContain('Name'));
+    expect(writer.pages.flat()).toContain('Row 79');
+  });
+});
+
+// ============================================================================
+// Spreadsheet Tests
+// ============================================================================
+
+function sheet(workbook: SpreadsheetWorkbook, name: string) {
+  const found = workbook.sheets.find(s => s.name === name);
+  if (!found) throw new Error(`Missing sheet ${name}`);
+  return found;
+}
+
+describe('buildCostModelWorkbook', () => {
+  it('creates one sheet per accountant report section', () => {
+    const workbook = buildCostModelWorkbook(input);
+    expect(workbook.sheets.map(s => s.name)).toEqual([
+      'Assumptions',
+      'Variable Costs',
+      'Fixed Costs',
+      'Tier Margins',
+      'Monthly Projection',
+    ]);
+  });
+
+  it('keeps cost totals and the projection as live formulas', () => {
+    const workbook = buildCostModelWorkbook(input);
+
+    expect(sheet(workbook, 'Variable Costs').rows[0][4]).toEqual({ value: 5, formula: 'C2*D2' });
+    expect(sheet(workbook, 'Fixed Costs').footer?.[1]).toEqual({ value: 500, formula: 'SUM(B2:B2)' });
+
+    const projection = sheet(workbook, 'Monthly Projection');
+    expect(projection.rows).toHaveLength(12);
+    expect(projection.rows[0][1]).toEqual({ value: 100, formula: 'Assumptions!$B$2' });
+    expect(projection.rows[1][1]).toEqual({ value: 105, formula: 'ROUND(B2*(1+Assumptions!$B$4),0)' });
+    expect(projection.rows[1][3]).toEqual({ value: 525, formula: "B3*'Variable Costs'!$E$3" });
+    expect(projection.rows[0][5]).toEqual({ value: 4000, formula: 'C2-D2-E2' });
+    expect(projection.footer?.[2]).toMatchObject({ formula: 'SUM(C2:C13)' });
+  });
+
+  it('enters tax-inclusive prices net of tax', () => {
+    const workbook = buildCostModelWorkbook({ ...input, tax: { rate: 0.25, inclusive: true, label: 'VAT' } });
+
+    expect(sheet(workbook, 'Assumptions').rows[1]).toEqual([
+      'Price per Customer (net of VAT)',
+      { value: 40, format: 'currency' },
+    ]);
+    expect(sheet(workbook, 'Monthly Projection').rows[0][2]).toMatchObject({ value: 4000 });
+  });
+
+  it('writes computed values to CSV', () => {
+    const csv = workbookToCsv(buildCostModelWorkbook({
+      ...input,
+      variableCosts: [{ ...input.variableCosts[0], name: 'API calls, "metered"' }],
+    }));
+    const blocks = csv.trim().split('\r\n\r\n');
+
+    expect(blocks).toHaveLength(5);
+    expect(blocks[1].split('\r\n')).toEqual([
+      'Variable Costs',
+      'Cost,Unit,Cost/Unit,Usage/Customer,Per Customer',
+      '"API calls, ""metered""",requests,0.001,5000,5',
+      'Total,,,,5',
+    ]);
+    expect(blocks[3]).toContain('Team,5,150,');
+    expect(blocks[4]).toContain('M1,100,5000,500,500,4000');
+  });
+
+  it('writes formulas with cached results and number formats to xlsx', () => {
+    const rows: Array<{ sheet: string; values: unknown[]; formats: Record<number, string> }> = [];
+    const writer: XlsxWriter = {
+      creator: '',
+      addWorksheet: (name) => ({
+        addRow: (values) => {
+          const row = { sheet: name, values, formats: {} as Record<number, string> };
+          rows.push(row);
+          return {
+            font: {},
+            getCell: (index) => ({
+              set numFmt(format: string) {
+                row.formats[index] = format;
+              },
+              get numFmt() {
+                return row.formats[index];
+              },
+            }),
+          };
+        },
+        getColumn: () => ({}),
+      }),
+    };
+
+    writeWorkbookXlsx(buildCostModelWorkbook(input), writer);
+
+    expect(writer.creator).toBe('BasedPricer');
+    const month1 = rows.find(row => row.sheet === 'Monthly Projection' && row.values[0] === 'M1');
+    expect(month1?.values[2]).toEqual({ formula: 'B2*Assumptions!$B$3', result: 5000 });
+    expect(month1?.formats[3]).toBe('"RM"#,##0.00');
+    const growth = rows.find(row => row.values[0] === 'Monthly Growth Rate');
+    expect(growth?.formats[2]).toBe('0.0%');
+  });
+});
@@ -0,0 +1,304 @@
+/**
+ * Spreadsheet export of the accountant's cost model
+ * Builds the assumptions, COGS, tier margin and 12-month P&L sheets with live
+ * formulas, and writes them to CSV or any ExcelJS-compatible workbook
+ */
+
+import type {
+  ReportDocumentInput,
+  SpreadsheetCell,
+  SpreadsheetFormat,
+  SpreadsheetSheet,
+  SpreadsheetWorkbook,
+} from '../types';
+import { calculateCOGSBreakdown, calculateItemCostPerCustomer } from '../calculators/cogs';
+import { getMarginStatus } from '../calculators/margin';
+import { calculateSeatTierEconomics } from '../calculators/seat-pricing';
+import { getPriceExcludingTax, getTierPricesExcludingTax } from '../calculators/tax';
+import { CURRENCIES, DEFAULT_CURRENCY, MONTHS_PER_YEAR } from '../data';
+
+const DEFAULT_MONTHLY_GROWTH_RATE = 0.05;
+
+// Assumption cells referenced by the other sheets
+const CUSTOMERS_CELL = 'Assumptions!$B$2';
+const PRICE_CELL = 'Assumptions!$B$3';
+const GROWTH_CELL = 'Assumptions!$B$4';
+
+/**
+ * The subset of the ExcelJS workbook API used to write spreadsheets.
+ * Create the writer with `new ExcelJS.Workbook()`.
+ */
+export interface XlsxWriter {
+  creator: string;
+  addWorksheet(name: string): XlsxWorksheet;
+}
+
+export interface XlsxWorksheet {
+  addRow(values: unknown[]): XlsxRow;
+  getColumn(index: number): { width?: number };
+}
+
+export interface XlsxRow {
+  font: { bold?: boolean };
+  getCell(index: number): { numFmt: string };
+}
+
+function sum(sheetColumn: string, rowCount: number, values: number[]): SpreadsheetCell {
+  const total = values.reduce((acc, value) => acc + value, 0);
+  return rowCount > 0 ? { value: total, formula: `SUM(${sheetColumn}2:${sheetColumn}${rowCount + 1})` } : 0;
+}
+
+// ============================================================================
+// Workbook
+// ============================================================================
+
+/**
+ * Build the cost model workbook: one sheet per section of the accountant report.
+ * Per-customer costs, totals and the projection are formulas over the Assumptions
+ * sheet, so changing customers, price or growth there recalculates the model.
+ * Prices that include sales tax are entered net of it, matching the report's revenue.
+ */
+export function buildCostModelWorkbook(input: ReportDocumentInput): SpreadsheetWorkbook {
+  const currency = input.currency ?? DEFAULT_CURRENCY;
+  const rate = input.monthlyGrowthRate ?? DEFAULT_MONTHLY_GROWTH_RATE;
+  const costs = calculateCOGSBreakdown(input.variableCosts, input.fixedCosts, input.customerCount);
+  const netPrice = getPriceExcludingTax(input.selectedPrice, input.tax);
+
+  const assumptions: SpreadsheetSheet = {
+    name: 'Assumptions',
+    columns: ['Assumption', 'Value'],
+    formats: ['text', 'number'],
+    rows: [
+      ['Customers', { value: input.customerCount, format: 'integer' }],
+      [
+        input.tax?.inclusive && input.tax.rate > 0 ? `Price per Customer (net of ${input.tax.label})` : 'Price per Customer',
+        { value: netPrice, format: 'currency' },
+      ],
+      ['Monthly Growth Rate', { value: rate, format: 'percent' }],
+      ['Utilization Rate', { value: input.utilizationRate, format: 'percent' }],
+      ['Currency', currency],
+    ],
+  };
+
+  const variableRows = input.variableCosts.map((item, i) => {
+    const row = i + 2;
+    return [
+      item.name,
+      item.unit,
+      item.costPerUnit,
+      item.usagePerCustomer,
+      { value: calculateItemCostPerCustomer(item), formula: `C${row}*D${row}` },
+    ];
+  });
+  const variableTotalRow = variableRows.length + 2;
+  const variable: SpreadsheetSheet = {
+    name: 'Variable Costs',
+    columns: ['Cost', 'Unit', 'Cost/Unit', 'Usage/Customer', 'Per Customer'],
+    formats: ['text', 'text', 'number', 'number', 'currency'],
+    rows: variableRows,
+    footer: [
+      'Total',
+      '',
+      '',
+      '',
+      sum('E', variableRows.length, input.variableCosts.map(item => calculateItemCostPerCustomer(item))),
+    ],
+  };
+
+  const fixedRows = input.fixedCosts.map((item, i) => {
+    const row = i + 2;
+    return [
+      item.name,
+      item.monthlyCost,
+      {
+        value: input.customerCount > 0 ? item.monthlyCost / input.customerCount : 0,
+        formula: `IF(${CUSTOMERS_CELL}>0,B${row}/${CUSTOMERS_CELL},0)`,
+      },
+    ];
+  });
+  const fixedTotalRow = fixedRows.length + 2;
+  const fixed: SpreadsheetSheet = {
+    name: 'Fixed Costs',
+    columns: ['Cost', 'Monthly', 'Per Customer'],
+    formats: ['text', 'currency', 'currency'],
+    rows: fixedRows,
+    footer: [
+      'Total',
+      sum('B', fixedRows.length, input.fixedCosts.map(item => item.monthlyCost)),
+      sum('C', fixedRows.length, [costs.fixedPerCustomer]),
+    ],
+  };
+
+  // Tier COGS depend on usage limits, so only the margin stays live
+  const tierRows = input.tiers
+    .map(tier => ({
+      tier,
+      economics: calculateSeatTierEconomics(
+        getTierPricesExcludingTax(tier, input.tax),
+        input.variableCosts,
+        input.utilizationRate,
+        input.features
+      ),
+    }))
+    .filter(({ economics }) => economics.revenuePerCustomer > 0)
+    .map(({ tier, economics }, i) => {
+      const row = i + 2;
+      return [
+        tier.name,
+        economics.seats,
+        economics.revenuePerCustomer,
+        economics.cogsPerCustomer,
+        { value: economics.margin / 100, formula: `IF(C${row}>0,(C${row}-D${row})/C${row},0)` },
+        getMarginStatus(economics.margin),
+      ];
+    });
+  const tierMargins: SpreadsheetSheet = {
+    name: 'Tier Margins',
+    columns: ['Tier', 'Seats', 'Revenue/Customer', 'COGS/Customer', 'Margin', 'Status'],
+    formats: ['text', 'integer', 'currency', 'currency', 'percent', 'text'],
+    rows: tierRows,
+  };
+
+  // 12-month P&L with compounding customer growth, matching the accountant report
+  let customers = input.customerCount;
+  const totals = { revenue: 0, variable: 0, fixed: 0, profit: 0 };
+  const projectionRows = Array.from({ length: MONTHS_PER_YEAR }, (_, i) => {
+    const row = i + 2;
+    if (i > 0) customers = Math.round(customers * (1 + rate));
+    const revenue = netPrice * customers;
+    const variableCost = costs.variableTotal * customers;
+    const grossProfit = revenue - variableCost - costs.fixedTotal;
+    totals.revenue += revenue;
+    totals.variable += variableCost;
+    totals.fixed += costs.fixedTotal;
+    totals.profit += grossProfit;
+    return [
+      `M${i + 1}`,
+      {
+        value: customers,
+        formula: i === 0 ? CUSTOMERS_CELL : `ROUND(B${row - 1}*(1+${GROWTH_CELL}),0)`,
+      },
+      { value: revenue, formula: `B${row}*${PRICE_CELL}` },
+      { value: variableCost, formula: `B${row}*'Variable Costs'!$E$${variableTotalRow}` },
+      { value: costs.fixedTotal, formula: `'Fixed Costs'!$B$${fixedTotalRow}` },
+      { value: grossProfit, formula: `C${row}-D${row}-E${row}` },
+    ];
+  });
+  const lastRow = MONTHS_PER_YEAR + 1;
+  const projection: SpreadsheetSheet = {
+    name: 'Monthly Projection',
+    columns: ['Month', 'Customers', 'Revenue', 'Variable Costs', 'Fixed Costs', 'Gross Profit'],
+    formats: ['text', 'integer', 'currency', 'currency', 'currency', 'currency'],
+    rows: projectionRows,
+    footer: [
+      '12-Month Total',
+      '',
+      { value: totals.revenue, formula: `SUM(C2:C${lastRow})` },
+      { value: totals.variable, formula: `SUM(D2:D${lastRow})` },
+      { value: totals.fixed, formula: `SUM(E2:E${lastRow})` },
+      { value: totals.profit, formula: `SUM(F2:F${lastRow})` },
+    ],
+  };
+
+  return {
+    title: 'Cost Model',
+    projectName: input.projectName,
+    generatedAt: input.generatedAt ?? new Date().toISOString(),
+    currency,
+    sheets: [assumptions, variable, fixed, tierMargins, projection],
+  };
+}
+
+// ============================================================================
+// Writers
+// ============================================================================
+
+function cellFormat(cell: SpreadsheetCell, columnFormat: SpreadsheetFormat): SpreadsheetFormat {
+  return cell !== null && typeof cell === 'object' && cell.format ? cell.format : columnFormat;
+}
+
+function cellValue(cell: SpreadsheetCell): string | number | null {
+  return cell !== null && typeof cell === 'object' ? cell.value : cell;
+}
+
+function csvField(cell: SpreadsheetCell, format: SpreadsheetFormat): string {
+  const value = cellValue(cell);
+  if (value === null) return '';
+  if (typeof value === 'number') {
+    return format === 'integer' ? String(Math.round(value)) : String(Number(value.toFixed(6)));
+  }
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Write a workbook as CSV: each sheet as a titled table, separated by a blank line.
+ * Formulas are written as their computed values, unrounded.
+ */
+export function workbookToCsv(workbook: SpreadsheetWorkbook): string {
+  return workbook.sheets
+    .map(sheet => {
+      const rows = sheet.footer ? [...sheet.rows, sheet.footer] : sheet.rows;
+      const lines = [
+        csvField(sheet.name, 'text'),
+        sheet.columns.map(name => csvField(name, 'text')).join(','),
+        ...rows.map(row => row.map((cell, i) => csvField(cell, cellFormat(cell, sheet.formats[i]))).join(',')),
+      ];
+      return lines.join('\r\n');
+    })
+    .join('\r\n\r\n') + '\r\n';
+}
+
+function numberFormat(format: SpreadsheetFormat, currency: SpreadsheetWorkbook['currency']): string {
+  const { symbol, position, decimalPlaces } = CURRENCIES[currency];
+  const amount = decimalPlaces > 0 ? `#,##0.${'0'.repeat(decimalPlaces)}` : '#,##0';
+  switch (format) {
+    case 'integer':
+      return '#,##0';
+    case 'number':
+      return '#,##0.####';
+    case 'percent':
+      return '0.0%';
+    case 'currency':
+      return position === 'before' ? `"${symbol}"${amount}` : `${amount}"${symbol}"`;
+    default:
+      return '@';
+  }
+}
+
+/**
+ * Write a workbook onto an ExcelJS-compatible writer.
+ * Formula cells keep their formulas, with the computed value cached as the result.
+ */
+export function writeWorkbookXlsx(workbook: SpreadsheetWorkbook, writer: XlsxWriter): void {
+  writer.creator = 'BasedPricer';
+
+  for (const sheet of workbook.sheets) {
+    const worksheet = writer.addWorksheet(sheet.name);
+    worksheet.addRow(sheet.columns).font = { bold: true };
+
+    const rows = sheet.footer ? [...sheet.rows, sheet.footer] : sheet.rows;
+    rows.forEach((cells, rowIndex) => {
+      const row = worksheet.addRow(
+        cells.map(cell => {
+          if (cell === null || typeof cell !== 'object') return cell;
+          return cell.formula ? { formula: cell.formula, result: cell.value } : cell.value;
+        })
+      );
+      cells.forEach((cell, i) => {
+        const format = cellFormat(cell, sheet.formats[i]);
+        if (format !== 'text' && typeof cellValue(cell) === 'number') {
+          row.getCell(i + 1).numFmt = numberFormat(format, workbook.currency);
+        }
+      });
+      if (sheet.footer && rowIndex === rows.length - 1) row.font = { bold: true };
+    });
+
+    sheet.columns.forEach((name, i) => {
+      const longest = Math.max(name.length, ...rows.map(cells => {
+        const value = cellValue(cells[i] ?? null);
+        return typeof value === 'string' ? value.length : 12;
+      }));
+      worksheet.getColumn(i + 1).width = Math.min(40, longest + 2);
+    });
+  }
+}
@@ -4,11 +4,30 @@
  */
 
 import { z } from 'zod';
+import { CURRENCY_CODES } from '../data';
+import type { CurrencyCode } from '../types';
 
 // ============================================================================
 // Cost Schemas
 // ============================================================================
 
+export const CostDistributionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('triangular'),
+    min: z.number().nonnegative(),
+    likely: z.number().nonnegative(),
+    max: z.number().nonnegative(),
+  }),
+  z.object({
+    type: z.literal('normal'),
+    mean: z.number().nonnegative(),
+    stdDev: z.number().nonnegative('Standard deviation must be non-negative'),
+  }),
+]).refine(d => d.type !== 'triangular' || (d.min <= d.likely && d.likely <= d.max), {
+  message: 'Distribution must satisfy min <= likely <= max',
+  path: ['likely'],
+});
+
 export const VariableCostItemSchema = z.object({
   id: z.string().min(1, 'ID is required'),
   name: z.string().min(1, 'Name is required'),
@@ -16,6 +35,10 @@ export const VariableCostItemSchema = z.object({
   costPerUnit: z.number().nonnegative('Cost per unit must be non-negative'),
   usagePerCustomer: z.number().nonnegative('Usage per customer must be non-negative'),
   description: z.string(),
+  distributions: z.object({
+    costPerUnit: CostDistributionSchema.optional(),
+    usagePerCustomer: CostDistributionSchema.optional(),
+  }).optional(),
 });
 
 export const FixedCostItemSchema = z.object({
@@ -23,6 +46,9 @@ export const FixedCostItemSchema = z.object({
   name: z.string().min(1, 'Name is required'),
   monthlyCost: z.number().nonnegative('Monthly cost must be non-negative'),
   description: z.string(),
+  distributions: z.object({
+    monthlyCost: CostDistributionSchema.optional(),
+  }).optional(),
 });
 
 export const CostBreakdownSchema = z.object({
@@ -54,13 +80,28 @@ export const TierLimitSchema = z.object({
   featureId: z.string(),
   limit: z.union([z.number(), z.literal('unlimited')]),
   unit: z.string().optional(),
+  variableCostId: z.string().optional(),
+  unlimitedUsage: z.number().nonnegative().optional(),
+  overagePrice: z.number().nonnegative().optional(),
+  perSeat: z.boolean().optional(),
 });
 
+export const TierSeatPricingSchema = z.object({
+  pricePerSeat: z.number().nonnegative(),
+  averageSeats: z.number().nonnegative(),
+  minSeats: z.number().int().nonnegative().optional(),
+  maxSeats: z.number().int().positive().optional(),
+}).refine(
+  s => s.minSeats === undefined || s.maxSeats === undefined || s.minSeats <= s.maxSeats,
+  { message: 'Minimum seats cannot exceed maximum seats', path: ['minSeats'] }
+);
+
 export const TierSchema = z.object({
   id: z.string().min(1),
   name: z.string().min(1),
-  monthlyPriceMYR: z.number().nonnegative(),
-  annualPriceMYR: z.number().nonnegative().optional(),
+  monthlyPrice: z.number().nonnegative(),
+  annualPrice: z.number().nonnegative().optional(),
+  seatPricing: TierSeatPricingSchema.optional(),
   description: z.string().optional(),
   features: z.array(z.string()),
   limits: z.array(TierLimitSchema),
@@ -124,17 +165,56 @@ export const AIProviderSchema = z.enum([
   'groq',
 ]);
 
+export const CustomAIProviderIdSchema = z.custom<`custom_${string}`>(
+  (value) => typeof value === 'string' && /^custom_[a-z0-9_]+$/.test(value),
+  { message: 'Custom provider id must start with "custom_" and use lowercase letters, digits or underscores' }
+);
+
+export const AIProviderProtocolSchema = z.enum(['openai', 'anthropic']);
+
+export const AIModelPricingSchema = z.object({
+  name: z.string().min(1),
+  displayName: z.string().min(1),
+  inputPricePerMillion: z.number().nonnegative(),
+  outputPricePerMillion: z.number().nonnegative(),
+  lastUpdated: z.string(),
+  contextWindow: z.number().int().nonnegative(),
+  notes: z.string().optional(),
+});
+
+export const AIProviderDefinitionSchema = z.object({
+  id: z.union([AIProviderSchema, CustomAIProviderIdSchema]),
+  name: z.string().min(1),
+  baseUrl: z.url({ protocol: /^https?$/ }),
+  protocol: AIProviderProtocolSchema,
+  defaultModel: z.string().min(1),
+  models: z.record(z.string(), AIModelPricingSchema),
+  headers: z.record(z.string(), z.string()).optional(),
+  requiresApiKey: z.boolean(),
+}).refine(
+  (provider) => provider.defaultModel in provider.models,
+  { message: 'Default model must be one of the provider models', path: ['defaultModel'] }
+);
+
 // ============================================================================
 // Currency Schemas
 // ============================================================================
 
-export const CurrencyCodeSchema = z.enum(['MYR', 'USD', 'SGD', 'EUR', 'GBP', 'AUD']);
+export const CurrencyCodeSchema = z.enum(CURRENCY_CODES as [CurrencyCode, ...CurrencyCode[]]);
+
+export const ExchangeRatesSchema = z.object({
+  base: CurrencyCodeSchema,
+  rates: z.record(CurrencyCodeSchema, z.number().positive()),
+  source: z.string().min(1),
+  updatedAt: z.string().min(1),
+});
 
 export const CurrencySchema = z.object({
   code: z.string(),
   symbol: z.string(),
   name: z.string(),
   rate: z.number().positive(),
+  locale: z.string(),
   position: z.enum(['before', 'after']),
   decimalPlaces: z.number().int().nonnegative(),
   thousandsSeparator: z.string(),
@@ -167,6 +247,86 @@ export const ReportDataSchema = z.object({
   notes: z.record(StakeholderTypeSchema, z.string()).optional(),
 });
 
+// ============================================================================
+// Project File Schemas
+// ============================================================================
+
+export const ProjectScenarioSchema = z.object({
+  name: z.string().min(1, 'Scenario name is required'),
+  distribution: z.record(z.string(), z.number().nonnegative()),
+  monthlyChurnRate: z.number().min(0).max(100),
+  conversionRate: z.number().min(0).max(100),
+  customerCount: z.number().int().positive().optional(),
+  prices: z.record(z.string(), z.number().nonnegative()).optional(),
+  cac: z.number().nonnegative().optional(),
+});
+
+export const MonthlyActualsSchema = z.object({
+  month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Month must be formatted as YYYY-MM'),
+  customersByTier: z.record(z.string(), z.number().int().nonnegative()).default({}),
+  mrr: z.number().nonnegative('MRR must be non-negative'),
+  costs: z.record(z.string(), z.number().nonnegative()).default({}),
+  notes: z.string().optional(),
+});
+
+export const TaxSettingsSchema = z.object({
+  rate: z.number().min(0, 'Tax rate must be non-negative').max(1, 'Tax rate must be a decimal, e.g. 0.08 for 8%'),
+  inclusive: z.boolean().default(true),
+  label: z.string().min(1).default('Tax'),
+});
+
+export const PriceBookSchema = z.object({
+  currency: CurrencyCodeSchema,
+  rounding: z.enum(['ninety_nine', 'whole', 'nearest_five', 'exact']).default('ninety_nine'),
+  purchasingPower: z.number().positive('Purchasing power must be positive').default(1),
+  overrides: z.record(z.string(), z.number().nonnegative()).default({}),
+  tax: TaxSettingsSchema.optional(),
+});
+
+export const ProjectTierLimitSchema = TierLimitSchema.extend({
+  limit: z.union([z.number(), z.literal('unlimited'), z.boolean()]),
+});
+
+export const ProjectTierSchema = z.looseObject({
+  id: z.string().min(1, 'Tier ID is required'),
+  name: z.string().min(1, 'Tier name is required'),
+  monthlyPrice: z.number().nonnegative('Monthly price must be non-negative'),
+  annualPrice: z.number().nonnegative().optional(),
+  seatPricing: TierSeatPricingSchema.optional(),
+  status: TierStatusSchema.optional(),
+  limits: z.array(ProjectTierLimitSchema).default([]),
+});
+
+export const ProjectFeatureSchema = z.looseObject({
+  id: z.string().min(1, 'Feature ID is required'),
+  name: z.string().min(1, 'Feature name is required'),
+  costDriver: z.string().optional(),
+});
+
+export const ProjectFileSchema = z.object({
+  schemaVersion: z.number().int().positive(),
+  name: z.string().min(1, 'Project name is required'),
+  exportedAt: z.string().optional(),
+  currency: CurrencyCodeSchema.default('MYR'),
+  displayCurrency: CurrencyCodeSchema.optional(),
+  variableCosts: z.array(VariableCostItemSchema).default([]),
+  fixedCosts: z.array(FixedCostItemSchema).default([]),
+  tiers: z.array(ProjectTierSchema).default([]),
+  features: z.array(ProjectFeatureSchema).default([]),
+  tierDisplayConfigs: z.record(z.string(), z.unknown()).optional(),
+  businessType: BusinessTypeSchema.nullable().default(null),
+  businessTypeConfidence: z.number().min(0).max(1).default(0),
+  pricingModelType: PricingModelTypeSchema.default('feature_tiered'),
+  customerCount: z.number().int().positive().default(100),
+  selectedPrice: z.number().nonnegative().default(0),
+  utilizationRate: z.number().min(0).max(1).default(1),
+  tierDistribution: z.record(z.string(), z.number().nonnegative()).default({}),
+  scenarios: z.array(ProjectScenarioSchema).default([]),
+  priceBooks: z.array(PriceBookSchema).default([]),
+  tax: TaxSettingsSchema.optional(),
+  actuals: z.array(MonthlyActualsSchema).default([]),
+});
+
 // ============================================================================
 // Collection Schemas
 // ============================================================================
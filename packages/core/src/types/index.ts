@@ -7,6 +7,14 @@
 // Cost Types
 // ============================================================================
 
+/**
+ * Uncertainty around a cost input, sampled by the Monte Carlo simulator.
+ * Triangular takes a min/likely/max range; normal takes a mean and standard deviation.
+ */
+export type CostDistribution =
+  | { type: 'triangular'; min: number; likely: number; max: number }
+  | { type: 'normal'; mean: number; stdDev: number };
+
 export interface VariableCostItem {
   id: string;
   name: string;
@@ -14,6 +22,11 @@ export interface VariableCostItem {
   costPerUnit: number;
   usagePerCustomer: number;
   description: string;
+  /** Optional uncertainty; the point estimates are used where omitted */
+  distributions?: {
+    costPerUnit?: CostDistribution;
+    usagePerCustomer?: CostDistribution;
+  };
 }
 
 export interface FixedCostItem {
@@ -21,6 +34,10 @@ export interface FixedCostItem {
   name: string;
   monthlyCost: number;
   description: string;
+  /** Optional uncertainty; the point estimate is used where omitted */
+  distributions?: {
+    monthlyCost?: CostDistribution;
+  };
 }
 
 export interface CostBreakdown {
@@ -57,14 +74,67 @@ export interface Currency {
   code: string;
   symbol: string;
   name: string;
+  /** Snapshot exchange rate against MYR, used when no live or manual rates are available */
   rate: number;
+  /** BCP 47 locale amounts are formatted in, e.g. 'en-IN' for lakh grouping */
+  locale: string;
   position: 'before' | 'after';
+  /** ISO 4217 minor units, e.g. 0 for JPY */
   decimalPlaces: number;
   thousandsSeparator: string;
   decimalSeparator: string;
 }
 
-export type CurrencyCode = 'MYR' | 'USD' | 'SGD' | 'EUR' | 'GBP' | 'AUD';
+/**
+ * ISO 4217 codes of the supported currencies.
+ * To add one, add its code here and a `defineCurrency` entry with its locale and
+ * a snapshot rate to CURRENCIES; Intl supplies its symbol, separators and minor
+ * units. If the ECB publishes no rate for it, also add it to NON_ECB_CURRENCIES
+ * in rates/rate-providers.ts.
+ */
+export type CurrencyCode =
+  | 'MYR' | 'USD' | 'SGD' | 'EUR' | 'GBP' | 'AUD'
+  | 'JPY' | 'INR' | 'IDR' | 'PHP' | 'THB' | 'VND' | 'CNY' | 'HKD' | 'TWD' | 'KRW' | 'NZD'
+  | 'CAD' | 'CHF' | 'SEK' | 'NOK' | 'DKK' | 'PLN' | 'CZK' | 'HUF'
+  | 'BRL' | 'MXN' | 'ZAR' | 'TRY' | 'ILS' | 'AED';
+
+// ============================================================================
+// Exchange Rate Types
+// ============================================================================
+
+/**
+ * Units of every currency per one unit of `base`, with where and when they came from
+ */
+export interface ExchangeRates {
+  base: CurrencyCode;
+  rates: Record<CurrencyCode, number>;
+  /** Provider the rates came from, e.g. 'snapshot', 'manual' or 'frankfurter' */
+  source: string;
+  /** ISO 8601 time the rates were published or entered */
+  updatedAt: string;
+}
+
+/**
+ * Rate from every currency (outer key) to every currency (inner key)
+ */
+export type ExchangeRateMatrix = Record<CurrencyCode, Record<CurrencyCode, number>>;
+
+/**
+ * A source of exchange rates: the bundled snapshot, a manual table or a live API
+ */
+export interface ExchangeRateProvider {
+  id: string;
+  name: string;
+  getRates(): Promise<ExchangeRates>;
+}
+
+/**
+ * Key-value storage for fetched rates; `localStorage` satisfies it
+ */
+export interface ExchangeRateCache {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
 
 // ============================================================================
 // Tier Types
@@ -76,13 +146,35 @@ export interface TierLimit {
   featureId: string;
   limit: number | 'unlimited';
   unit?: string;
+  /** Variable cost item consumed by this limit (overrides the feature's cost driver) */
+  variableCostId?: string;
+  /** Expected usage per customer when the limit is 'unlimited' */
+  unlimitedUsage?: number;
+  /** Price per unit used beyond the limit; turns a hard limit into an included quota */
+  overagePrice?: number;
+  /** Limit applies per seat, so usage scales with the customer's seats */
+  perSeat?: boolean;
+}
+
+/**
+ * Per-seat pricing on top of a tier's monthly base fee
+ */
+export interface TierSeatPricing {
+  pricePerSeat: number;
+  /** Expected seats per customer */
+  averageSeats: number;
+  /** Seats billed even when fewer are used */
+  minSeats?: number;
+  /** Most seats a customer can have on this tier */
+  maxSeats?: number;
 }
 
 export interface Tier {
   id: string;
   name: string;
-  monthlyPriceMYR: number;
-  annualPriceMYR?: number;
+  monthlyPrice: number;
+  annualPrice?: number;
+  seatPricing?: TierSeatPricing;
   description?: string;
   features: string[];
   limits: TierLimit[];
@@ -91,6 +183,75 @@ export interface Tier {
   ctaText?: string;
 }
 
+/**
+ * Minimal tier shape needed for usage-driven COGS.
+ * Boolean limits are on/off feature flags and carry no usage.
+ */
+export interface TierUsageInput {
+  limits: Array<Omit<TierLimit, 'limit'> & { limit: TierLimit['limit'] | boolean }>;
+}
+
+export interface TierCostLine {
+  featureId: string;
+  variableCostId: string | null;
+  costDriver: string | null;
+  usage: number;
+  costPerUnit: number;
+  cost: number;
+}
+
+export interface TierCOGS {
+  lines: TierCostLine[];
+  total: number;
+}
+
+/**
+ * Group of a tier's customers with the same monthly usage.
+ * Weights are relative; features missing from `usage` consume their full limit.
+ */
+export interface UsageSegment {
+  weight: number;
+  /** Units used per customer, keyed by feature ID */
+  usage: Record<string, number>;
+}
+
+export interface UsageOverageLine {
+  featureId: string;
+  includedUnits: number | 'unlimited';
+  overagePrice: number | null;
+  /** Expected units consumed per customer (capped at the limit without an overage price) */
+  expectedUsage: number;
+  expectedOverageUnits: number;
+  overageRevenue: number;
+  cost: number;
+}
+
+export interface UsageTierRevenue {
+  basePrice: number;
+  overageRevenue: number;
+  expectedRevenue: number;
+  /** Percentage of expected revenue from overages */
+  overageShare: number;
+  expectedCOGS: number;
+  /** Gross margin percentage on expected revenue */
+  margin: number;
+  lines: UsageOverageLine[];
+}
+
+export interface TierSeatEconomics {
+  /** Seats used per customer (capped at the tier maximum) */
+  seats: number;
+  /** Seats charged per customer (raised to the tier minimum) */
+  billedSeats: number;
+  basePrice: number;
+  seatRevenue: number;
+  revenuePerCustomer: number;
+  cogsPerCustomer: number;
+  cogsPerSeat: number;
+  /** Gross margin percentage per customer */
+  margin: number;
+}
+
 export interface TierDisplayConfig {
   visibleFeatureCount: number;
   showAnnualPricing: boolean;
@@ -149,6 +310,18 @@ export type AIProvider =
   | 'glm'
   | 'groq';
 
+/**
+ * Custom (user-registered) providers are namespaced so they never clash with built-ins
+ */
+export type CustomAIProviderId = `custom_${string}`;
+
+export type AIProviderId = AIProvider | CustomAIProviderId;
+
+/**
+ * Wire format spoken by a provider endpoint
+ */
+export type AIProviderProtocol = 'openai' | 'anthropic';
+
 export interface AIModelPricing {
   name: string;
   displayName: string;
@@ -166,6 +339,53 @@ export interface ProviderPricing {
   defaultModel: string;
 }
 
+/**
+ * A callable provider: where to send requests, how to talk to it and what it costs
+ */
+export interface AIProviderDefinition {
+  id: AIProviderId;
+  name: string;
+  /** API root, e.g. https://api.openai.com/v1 or http://localhost:11434/v1 */
+  baseUrl: string;
+  protocol: AIProviderProtocol;
+  defaultModel: string;
+  models: Record<string, AIModelPricing>;
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
+  /** Local servers (Ollama, llama.cpp) usually run without a key */
+  requiresApiKey: boolean;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatTokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ChatResponse {
+  content: string;
+  usage?: ChatTokenUsage;
+}
+
+export interface ChatOptions {
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+/**
+ * Minimal chat completion client. Front-ends inject their own implementation
+ * (browser fetch, Node fetch, test doubles).
+ */
+export interface ChatClient {
+  chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResponse>;
+}
+
 // ============================================================================
 // Analysis Types
 // ============================================================================
@@ -193,6 +413,109 @@ export interface CodebaseAnalysis {
   };
 }
 
+
+/**
+ * Cost implication of an npm dependency
+ */
+export interface CostSuggestion {
+  type: 'fixed' | 'variable';
+  name: string;
+  description: string;
+  cost: number;
+  unit: string;
+  category: string;
+  usagePerCustomer?: number; // For variable costs
+  notes?: string;
+}
+
+/**
+ * File or directory entry in a repository tree
+ */
+export interface AnalysisTreeItem {
+  path: string;
+  type: 'blob' | 'tree';
+  size?: number;
+}
+
+export interface AnalysisFile {
+  path: string;
+  content: string;
+  size: number;
+}
+
+/**
+ * Files and metadata gathered from a codebase, from GitHub or a local directory
+ */
+export interface CodebaseSnapshot {
+  /** Display name, e.g. `owner/repo` or the directory name */
+  name: string;
+  description: string | null;
+  language: string | null;
+  packageJson?: Record<string, unknown>;
+  readme?: string;
+  srcFiles: AnalysisFile[];
+  configFiles: AnalysisFile[];
+}
+
+export interface DetectedFeature {
+  id: string;
+  name: string;
+  description: string;
+  category: string;
+  costDriver?: string;
+  confidence: number; // 0-100
+}
+
+export interface SuggestedTier {
+  name: string;
+  price: number;
+  description: string;
+  features: string[];
+  limits: Record<string, number | 'unlimited'>;
+}
+
+export interface BusinessTypeDetection {
+  detected: BusinessType;
+  confidence: number;
+  secondaryTypes: Array<{ type: BusinessType; confidence: number }>;
+  signals: string[];
+}
+
+export interface AnalysisNarrative {
+  summary: string;
+  keyRisks: string[];
+  keyOpportunities: string[];
+  pricingRecommendation: string;
+  whatMatters: string[];
+}
+
+/**
+ * AI codebase analysis output
+ */
+export interface AnalysisResult {
+  techStack: Required<Pick<TechStack, 'framework' | 'language'>> &
+    Pick<TechStack, 'database' | 'hosting' | 'auth'>;
+  features: DetectedFeature[];
+  costSuggestions: CostSuggestion[];
+  suggestedTiers: SuggestedTier[];
+  summary: string;
+  confidence: {
+    overall: number;
+    features: number;
+    costs: number;
+    tiers: number;
+  };
+  businessType: BusinessTypeDetection;
+  narrative: AnalysisNarrative;
+  tierModelType: PricingModelType;
+  tokenUsage?: ChatTokenUsage;
+}
+
+/**
+ * Offline analysis from package.json alone
+ */
+export type QuickAnalysisResult = Pick<AnalysisResult, 'techStack' | 'costSuggestions'>;
+
 // ============================================================================
 // Investor Metrics Types
 // ============================================================================
@@ -227,6 +550,603 @@ export interface InvestorMetrics {
   paybackPeriodMonths: number | null;
 }
 
+// ============================================================================
+// Revenue Projection Types
+// ============================================================================
+
+export interface ProjectionTierInput {
+  id: string;
+  /** Monthly price per customer (0 for free tiers) */
+  price: number;
+  /** Variable COGS per customer per month */
+  variableCostPerCustomer: number;
+  /** Share of new signups landing on this tier (relative weight, e.g. Scenario distribution) */
+  signupMix: number;
+  /** Monthly churn rate override for this tier, in percent */
+  monthlyChurnRate?: number;
+}
+
+export interface ProjectionParams {
+  /** Tiers ordered from lowest to highest plan */
+  tiers: ProjectionTierInput[];
+  months?: number;
+  /** Customers per tier at month 0 */
+  startingCustomers?: Record<string, number>;
+  /** New signups in month 1 */
+  monthlySignups: number;
+  /** Month-over-month growth of new signups, in percent */
+  signupGrowthRate?: number;
+  /** Monthly churn rate, in percent (matches Scenario.monthlyChurnRate) */
+  monthlyChurnRate: number;
+  /** Monthly free-to-paid conversion rate, in percent (matches Scenario.conversionRate) */
+  conversionRate: number;
+  /** Share of paid customers upgrading one tier per month, in percent */
+  expansionRate?: number;
+  /** Share of paid customers downgrading one tier per month, in percent */
+  contractionRate?: number;
+  fixedCostsMonthly: number;
+  startingCash?: number;
+}
+
+export interface ProjectionMonth {
+  month: number;
+  newSignups: number;
+  conversions: number;
+  churned: number;
+  customersByTier: Record<string, number>;
+  totalCustomers: number;
+  paidCustomers: number;
+  mrr: number;
+  arr: number;
+  variableCosts: number;
+  fixedCosts: number;
+  grossProfit: number;
+  grossMargin: number;
+  netIncome: number;
+  cashBurn: number;
+  cashBalance: number;
+}
+
+export interface ProjectionCohort {
+  startMonth: number;
+  initialCustomers: number;
+  /** Active customers (all tiers) at the end of each month since the cohort started */
+  activeCustomers: number[];
+}
+
+export interface RevenueProjection {
+  months: ProjectionMonth[];
+  cohorts: ProjectionCohort[];
+  breakEvenMonth: number | null;
+  minimumCashBalance: number;
+  endingMRR: number;
+  endingARR: number;
+}
+
+// ============================================================================
+// Monte Carlo Types
+// ============================================================================
+
+export interface MonteCarloParams {
+  variableCosts: VariableCostItem[];
+  fixedCosts: FixedCostItem[];
+  /** Customers fixed costs are spread over */
+  customerCount: number;
+  /** Monthly revenue per customer */
+  price: number;
+  utilizationRate?: number;
+  /** Number of samples (default 2000, max 20000) */
+  iterations?: number;
+  /** Seed for reproducible results (default 1) */
+  seed?: number;
+  /** Histogram bins (default 20) */
+  bins?: number;
+}
+
+export interface SimulationHistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface SimulationSummary {
+  p10: number;
+  p50: number;
+  p90: number;
+  mean: number;
+  min: number;
+  max: number;
+  histogram: SimulationHistogramBin[];
+}
+
+export interface MonteCarloResult {
+  iterations: number;
+  cogsPerCustomer: SimulationSummary;
+  /** Gross margin percentage */
+  grossMargin: SimulationSummary;
+  /** Null when price never covers variable cost per customer */
+  breakEvenCustomers: SimulationSummary | null;
+  /** Share of samples (0-1) where price does not cover variable cost per customer */
+  breakEvenUnreachableRate: number;
+}
+
+// ============================================================================
+// Sensitivity Types
+// ============================================================================
+
+export type TornadoMetric = 'grossMargin' | 'monthlyProfit';
+
+export type TornadoInputCategory =
+  | 'costPerUnit'
+  | 'usagePerCustomer'
+  | 'fixedCost'
+  | 'utilizationRate'
+  | 'churnRate'
+  | 'conversionRate'
+  | 'tierMix';
+
+export interface TornadoParams {
+  variableCosts: VariableCostItem[];
+  fixedCosts: FixedCostItem[];
+  /** Tiers ordered from lowest to highest plan */
+  tiers: ProjectTier[];
+  features: ProjectFeature[];
+  customerCount: number;
+  utilizationRate: number;
+  /** Share of customers per tier, in percent (relative weights) */
+  tierDistribution: Record<string, number>;
+  /** Monthly churn rate, in percent */
+  monthlyChurnRate: number;
+  /** Monthly free-to-paid conversion rate, in percent */
+  conversionRate: number;
+  /** New signups per month (default 0) */
+  monthlySignups?: number;
+  /** Month of the projection the metrics are read from (default 12) */
+  months?: number;
+  /** Relative change applied to each input in both directions, in percent (default 20) */
+  swingPercent?: number;
+  /** Metric bars are ranked by (default monthlyProfit) */
+  rankBy?: TornadoMetric;
+}
+
+export interface TornadoOutcome {
+  /** Gross margin percentage */
+  grossMargin: number;
+  /** MRR minus variable and fixed costs */
+  monthlyProfit: number;
+  mrr: number;
+}
+
+export interface TornadoBar {
+  id: string;
+  label: string;
+  category: TornadoInputCategory;
+  baseValue: number;
+  lowValue: number;
+  highValue: number;
+  /** Outcome with the input decreased by the swing */
+  low: TornadoOutcome;
+  /** Outcome with the input increased by the swing */
+  high: TornadoOutcome;
+  /** Absolute difference between the low and high outcome of the ranked metric */
+  spread: number;
+}
+
+export interface TornadoResult {
+  baseline: TornadoOutcome;
+  swingPercent: number;
+  months: number;
+  rankBy: TornadoMetric;
+  /** Sorted by spread, largest first */
+  bars: TornadoBar[];
+}
+
+// ============================================================================
+// Price Solver Types
+// ============================================================================
+
+export interface PriceSolverTargets {
+  /** Minimum blended gross margin across all tiers, in percent */
+  minGrossMargin?: number;
+  /** Break even (fixed costs covered) by this many paid customers */
+  breakEvenPaidCustomers?: number;
+  /** Minimum gross margin for every paid tier, in percent */
+  minTierMargin?: number;
+  /** Each paid tier costs at least this multiple of the paid tier below it */
+  tierPriceRatio?: number;
+}
+
+export interface PriceSolverParams {
+  variableCosts: VariableCostItem[];
+  fixedCosts: FixedCostItem[];
+  /** Tiers ordered from lowest to highest plan; free tiers stay free */
+  tiers: ProjectTier[];
+  features: ProjectFeature[];
+  utilizationRate: number;
+  /** Share of customers per tier, in percent (relative weights) */
+  tierDistribution: Record<string, number>;
+  targets: PriceSolverTargets;
+  /** Sales tax on the prices; targets are met on revenue net of it */
+  tax?: TaxSettings | null;
+  /** Round prices up to charm prices like 29 or 149 (default true) */
+  charmPricing?: boolean;
+  /** Allow prices below the current ones when targets are already met (default false) */
+  allowDecrease?: boolean;
+}
+
+export interface SolvedTierPrice {
+  tierId: string;
+  name: string;
+  currentPrice: number;
+  /** Proposed base monthly price; seat revenue is kept as configured */
+  proposedPrice: number;
+  revenuePerCustomer: number;
+  cogsPerCustomer: number;
+  margin: number;
+}
+
+export interface PriceSolverConstraintCheck {
+  id: keyof PriceSolverTargets;
+  label: string;
+  target: number;
+  /** Value achieved with the proposed prices (null when not applicable) */
+  actual: number | null;
+  met: boolean;
+}
+
+export interface PriceSolverResult {
+  /** Whether every constraint is met by the proposed prices */
+  feasible: boolean;
+  tiers: SolvedTierPrice[];
+  blendedGrossMargin: number;
+  /** Paid customers needed to cover fixed costs, or null when never reached */
+  breakEvenPaidCustomers: number | null;
+  constraints: PriceSolverConstraintCheck[];
+}
+
+// ============================================================================
+// Scenario Comparison Types
+// ============================================================================
+
+export interface ScenarioMetricsInput {
+  scenario: ProjectScenario;
+  tiers: ProjectTier[];
+  features: ProjectFeature[];
+  variableCosts: VariableCostItem[];
+  fixedCosts: FixedCostItem[];
+  utilizationRate: number;
+  /** Total customers when the scenario doesn't set its own */
+  customerCount: number;
+}
+
+export interface ScenarioMetrics {
+  name: string;
+  customerCount: number;
+  customersByTier: Record<string, number>;
+  paidCustomers: number;
+  mrr: number;
+  /** Gross margin percentage */
+  grossMargin: number;
+  /** MRR minus variable and fixed costs */
+  operatingProfit: number;
+  arpu: number;
+  ltv: number;
+  /** Null without a CAC */
+  ltvCacRatio: number | null;
+  /** Paid customers needed to cover fixed costs and the free tier, or null when never reached */
+  breakEvenCustomers: number | null;
+}
+
+// ============================================================================
+// Tax Types
+// ============================================================================
+
+/**
+ * Sales tax (VAT, GST, SST) charged in a market.
+ * Revenue and margins are always calculated net of tax.
+ */
+export interface TaxSettings {
+  /** Tax rate as a decimal (0.08 = 8%) */
+  rate: number;
+  /** Whether entered prices already include the tax, as in Malaysia and the EU */
+  inclusive: boolean;
+  /** Name shown next to prices, e.g. 'SST' or 'VAT' */
+  label: string;
+}
+
+// ============================================================================
+// Price Book Types
+// ============================================================================
+
+/**
+ * How derived market prices are rounded:
+ * nearest .99 (5.99), whole units (6.00), nearest multiple of 5, or to the cent
+ */
+export type PriceRounding = 'ninety_nine' | 'whole' | 'nearest_five' | 'exact';
+
+/**
+ * Local prices for one market currency. Tier prices are derived from the
+ * project currency unless overridden.
+ */
+export interface PriceBook {
+  currency: CurrencyCode;
+  rounding: PriceRounding;
+  /** Multiplier on converted prices for local purchasing power; 1 is parity, 0.7 is 30% cheaper */
+  purchasingPower: number;
+  /** Explicit monthly price per tier ID, in the book currency */
+  overrides: Record<string, number>;
+  /** Sales tax charged in this market; prices are tax-free without it */
+  tax?: TaxSettings;
+}
+
+export interface MarketPricingInput {
+  book: PriceBook;
+  /** Project currency that tier prices and costs are in */
+  baseCurrency: CurrencyCode;
+  tiers: ProjectTier[];
+  features: ProjectFeature[];
+  variableCosts: VariableCostItem[];
+  utilizationRate: number;
+  /** Units of the book currency per unit of the project currency; defaults to the bundled snapshot rates */
+  rate?: number;
+}
+
+export interface MarketTierPrice {
+  tierId: string;
+  name: string;
+  /** Monthly price in the project currency */
+  basePrice: number;
+  /** Converted and purchasing-power adjusted price, before rounding */
+  derivedPrice: number;
+  /** Monthly price charged in the market */
+  price: number;
+  annualPrice?: number;
+  pricePerSeat?: number;
+  /** Price per extra unit of each metered limit, by feature ID */
+  overagePrices: Record<string, number>;
+  source: 'override' | 'derived';
+  /** Monthly revenue per customer, net of the market's sales tax */
+  revenuePerCustomer: number;
+  cogsPerCustomer: number;
+  margin: number;
+  /** Null for free tiers */
+  marginHealth: MarginHealth | null;
+}
+
+export interface MarketPricing {
+  currency: CurrencyCode;
+  rate: number;
+  tiers: MarketTierPrice[];
+  /** Paid tiers whose margin in this market is below the healthy threshold */
+  lowMarginTierIds: string[];
+}
+
+// ============================================================================
+// Actuals Types
+// ============================================================================
+
+/**
+ * Actual results recorded for one month, in the project currency
+ */
+export interface MonthlyActuals {
+  /** Calendar month as YYYY-MM */
+  month: string;
+  /** Paying customers, keyed by tier ID */
+  customersByTier: Record<string, number>;
+  mrr: number;
+  /** Actual monthly spend, keyed by variable or fixed cost item ID */
+  costs: Record<string, number>;
+  notes?: string;
+}
+
+/**
+ * Planned model that actuals are compared against
+ */
+export interface ActualsPlanInput {
+  variableCosts: VariableCostItem[];
+  fixedCosts: FixedCostItem[];
+  tiers: ProjectTier[];
+  features: ProjectFeature[];
+  customerCount: number;
+  selectedPrice: number;
+  utilizationRate: number;
+  tierDistribution: Record<string, number>;
+}
+
+/**
+ * Plan vs. actual spend for one cost item.
+ * Variable costs are flexed to the actual customer count before comparing.
+ */
+export interface CostVariance {
+  id: string;
+  name: string;
+  costType: 'variable' | 'fixed';
+  /** Planned monthly cost at the planned customer count */
+  planned: number;
+  /** Planned cost at the actual customer count */
+  expected: number;
+  /** Recorded spend, or null when none was recorded */
+  actual: number | null;
+  /** Actual minus expected */
+  variance: number | null;
+  variancePercent: number | null;
+  /** Usage per customer the actual spend implies (variable costs only) */
+  impliedUsagePerCustomer: number | null;
+}
+
+export interface TierMarginVariance {
+  tierId: string;
+  name: string;
+  plannedCustomers: number;
+  actualCustomers: number;
+  /** Gross margin percentages per customer */
+  plannedMargin: number;
+  actualMargin: number;
+  /** Actual minus planned margin, in percentage points */
+  marginVariance: number;
+}
+
+export interface ActualsVariance {
+  month: string;
+  plannedCustomers: number;
+  actualCustomers: number;
+  plannedMRR: number;
+  /** Planned MRR at the actual customer mix */
+  expectedMRR: number;
+  actualMRR: number;
+  mrrVariance: number;
+  plannedCOGS: number;
+  expectedCOGS: number;
+  /** Expected COGS with recorded spend substituted where available */
+  actualCOGS: number;
+  cogsVariance: number;
+  costs: CostVariance[];
+  tiers: TierMarginVariance[];
+}
+
+/**
+ * Suggested `usagePerCustomer` for a variable cost, averaged from actuals
+ */
+export interface UsageCalibration {
+  variableCostId: string;
+  name: string;
+  unit: string;
+  currentUsagePerCustomer: number;
+  suggestedUsagePerCustomer: number;
+  /** Change from the current assumption, as a percentage */
+  changePercent: number;
+  /** Months with recorded spend the suggestion is based on */
+  months: number;
+}
+
+// ============================================================================
+// Project File Types
+// ============================================================================
+
+/**
+ * Pricing scenario (tier mix and funnel assumptions).
+ * Rates are percentages.
+ */
+export interface ProjectScenario {
+  name: string;
+  distribution: Record<string, number>;
+  monthlyChurnRate: number;
+  conversionRate: number;
+  /** Total customers; the project customer count is used when omitted */
+  customerCount?: number;
+  /** Monthly price per tier ID; current tier prices are used where omitted */
+  prices?: Record<string, number>;
+  /** Customer acquisition cost, for LTV:CAC */
+  cac?: number;
+}
+
+/**
+ * Tier as stored in a project file.
+ * Front-end specific fields (taglines, feature lists) are preserved when parsing.
+ */
+export interface ProjectTier {
+  id: string;
+  name: string;
+  monthlyPrice: number;
+  annualPrice?: number;
+  seatPricing?: TierSeatPricing;
+  status?: TierStatus;
+  limits: TierUsageInput['limits'];
+}
+
+/**
+ * Feature as stored in a project file.
+ * Front-end specific fields are preserved when parsing.
+ */
+export interface ProjectFeature {
+  id: string;
+  name: string;
+  costDriver?: string;
+}
+
+/**
+ * Versioned `basedpricer.json` project file shared by web, CLI and MCP
+ */
+export interface ProjectFile {
+  schemaVersion: number;
+  name: string;
+  exportedAt?: string;
+  /** Base currency every stored amount (costs, prices, actuals) is in */
+  currency: CurrencyCode;
+  /** Currency amounts are shown in, converted at display time; defaults to `currency` */
+  displayCurrency?: CurrencyCode;
+
+  // Costs
+  variableCosts: VariableCostItem[];
+  fixedCosts: FixedCostItem[];
+
+  // Tiers & features
+  tiers: ProjectTier[];
+  features: ProjectFeature[];
+  tierDisplayConfigs?: Record<string, unknown>;
+
+  // Business type
+  businessType: BusinessType | null;
+  businessTypeConfidence: number;
+  pricingModelType: PricingModelType;
+
+  // Pricing settings & scenarios
+  customerCount: number;
+  selectedPrice: number;
+  utilizationRate: number;
+  tierDistribution: Record<string, number>;
+  scenarios: ProjectScenario[];
+  /** Local prices per market currency */
+  priceBooks: PriceBook[];
+  /** Sales tax charged on prices in the project currency */
+  tax?: TaxSettings;
+
+  // Recorded results
+  actuals: MonthlyActuals[];
+}
+
+/**
+ * Project fields that hold amounts in the project currency.
+ * Satisfied by project files and by web project state.
+ */
+export interface ProjectAmounts {
+  currency: CurrencyCode;
+  variableCosts: VariableCostItem[];
+  fixedCosts: FixedCostItem[];
+  tiers: ProjectTier[];
+  selectedPrice: number;
+  scenarios: ProjectScenario[];
+  actuals: MonthlyActuals[];
+  tierDisplayConfigs?: Record<string, unknown>;
+}
+
+// ============================================================================
+// Migration Types
+// ============================================================================
+
+/**
+ * Loosely typed persisted payload, as read from storage or a URL
+ */
+export type MigrationPayload = Record<string, unknown>;
+
+/**
+ * Single upgrade step from `version - 1` to `version`
+ */
+export interface Migration {
+  version: number;
+  description: string;
+  migrate: (payload: MigrationPayload) => MigrationPayload;
+}
+
+export interface MigrationOutcome {
+  /** Payload upgraded to the current version, with `schemaVersion` set */
+  data: MigrationPayload;
+  /** Version the payload was stored at (0 when unversioned) */
+  fromVersion: number;
+  /** Descriptions of the migrations that were applied, in order */
+  applied: string[];
+}
+
 // ============================================================================
 // Report Types
 // ============================================================================
@@ -248,6 +1168,116 @@ export interface ReportData {
   notes?: Partial<Record<StakeholderType, string>>;
 }
 
+// ============================================================================
+// Report Document Types
+// ============================================================================
+
+/**
+ * Tier as used in stakeholder reports; feature lists are optional
+ */
+export interface ReportTierInput extends ProjectTier {
+  includedFeatures?: string[];
+  excludedFeatures?: string[];
+}
+
+/**
+ * Pricing data a stakeholder report document is built from.
+ * Accepts both project files and shared web report state.
+ */
+export interface ReportDocumentInput {
+  projectName: string;
+  /** ISO timestamp printed on the document; defaults to now */
+  generatedAt?: string;
+  currency?: CurrencyCode;
+  variableCosts: VariableCostItem[];
+  fixedCosts: FixedCostItem[];
+  tiers: ReportTierInput[];
+  features: Array<ProjectFeature & { category?: string }>;
+  customerCount: number;
+  selectedPrice: number;
+  utilizationRate: number;
+  tierDistribution: Record<string, number>;
+  /** Monthly customer growth as a decimal (0.05 = 5%); defaults to 5% */
+  monthlyGrowthRate?: number;
+  /** Sales tax on the prices; revenue and margins are reported net of it */
+  tax?: TaxSettings;
+  notes?: Partial<Record<StakeholderType, string>>;
+}
+
+export interface ReportMetric {
+  label: string;
+  value: string;
+  note?: string;
+}
+
+export type ReportBlock =
+  | { type: 'metrics'; items: ReportMetric[] }
+  | {
+      type: 'table';
+      columns: string[];
+      rows: string[][];
+      /** Column alignment; defaults to left for the first column and right for the rest */
+      align?: Array<'left' | 'right'>;
+      footer?: string[];
+    }
+  | { type: 'paragraph'; text: string };
+
+export interface ReportSection {
+  title: string;
+  blocks: ReportBlock[];
+}
+
+/**
+ * Renderer-agnostic stakeholder report, shared by the web PDF download and the CLI
+ */
+export interface ReportDocument {
+  stakeholder: StakeholderType;
+  title: string;
+  projectName: string;
+  generatedAt: string;
+  sections: ReportSection[];
+}
+
+// ============================================================================
+// Spreadsheet Types
+// ============================================================================
+
+export type SpreadsheetFormat = 'text' | 'integer' | 'number' | 'currency' | 'percent';
+
+/**
+ * Numeric cell with an optional live formula (without the leading `=`).
+ * `value` is the computed result, used for CSV and by viewers that don't recalculate.
+ */
+export interface SpreadsheetValue {
+  value: number;
+  formula?: string;
+  /** Overrides the column format */
+  format?: SpreadsheetFormat;
+}
+
+export type SpreadsheetCell = string | number | SpreadsheetValue | null;
+
+export interface SpreadsheetSheet {
+  name: string;
+  columns: string[];
+  /** Number format per column */
+  formats: SpreadsheetFormat[];
+  rows: SpreadsheetCell[][];
+  /** Totals row, rendered bold after the data rows */
+  footer?: SpreadsheetCell[];
+}
+
+/**
+ * Renderer-agnostic workbook, written as .xlsx or .csv by the web app and CLI
+ */
+export interface SpreadsheetWorkbook {
+  title: string;
+  projectName: string;
+  generatedAt: string;
+  currency: CurrencyCode;
+  sheets: SpreadsheetSheet[];
+}
+
 // ============================================================================
 // Cost Driver Types
 // ============================================================================
@@ -259,3 +1289,41 @@ export interface CostDriverConfig {
   defaultCostPerUnit: number;
   unit: string;
 }
+
+// ============================================================================
+// Cost Import Types
+// ============================================================================
+
+export type CostImportField = 'name' | 'amount' | 'period' | 'usage' | 'unit' | 'type';
+
+/**
+ * Column index for each field of an imported bill; name and amount are required
+ */
+export type CostImportMapping = Record<'name' | 'amount', number> &
+  Partial<Record<Exclude<CostImportField, 'name' | 'amount'>, number>>;
+
+export interface CostImportOptions {
+  mapping: CostImportMapping;
+  /** Customers the billed usage is spread over, for usage per customer */
+  customerCount: number;
+  /** Items already in the model, to flag duplicates against */
+  existing?: { variableCosts: VariableCostItem[]; fixedCosts: FixedCostItem[] };
+}
+
+/**
+ * An imported item whose name matches an existing cost item
+ */
+export interface CostImportDuplicate {
+  id: string;
+  name: string;
+  costType: 'variable' | 'fixed';
+  existingId: string;
+}
+
+export interface CostImportResult {
+  variableCosts: VariableCostItem[];
+  fixedCosts: FixedCostItem[];
+  duplicates: CostImportDuplicate[];
+  /** One message per skipped row */
+  warnings: string[];
+}
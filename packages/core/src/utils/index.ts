@@ -3,15 +3,17 @@
  * Currency formatting, conversion, and general utilities
  */
 
-import type { Currency, CurrencyCode } from '../types';
+import type { Currency, CurrencyCode, ExchangeRates } from '../types';
 import { CURRENCIES, DEFAULT_CURRENCY } from '../data';
+import { EXCHANGE_RATE_SNAPSHOT, getExchangeRate } from '../rates';
 
 // ============================================================================
 // Currency Formatting
 // ============================================================================
 
 /**
- * Format a value as currency
+ * Format a value as currency, following the currency's locale for grouping
+ * (e.g. 12,34,567 for INR), separators, minor units and symbol placement
  */
 export function formatCurrency(
   value: number,
@@ -26,52 +28,68 @@ export function formatCurrency(
   const currency = CURRENCIES[currencyCode];
 
   if (compact) {
-    return formatCurrencyCompact(value, currency);
+    return withSymbol(value, formatCompactNumber(Math.abs(value), currency), currency);
   }
 
   const actualDecimals = decimals ?? currency.decimalPlaces;
-  const formattedValue = formatNumber(value, actualDecimals, currency);
+  const formattedValue = formatNumber(Math.abs(value), actualDecimals, currency);
 
   if (showSymbol) {
-    return currency.position === 'before'
-      ? `${currency.symbol}${formattedValue}`
-      : `${formattedValue}${currency.symbol}`;
+    return withSymbol(value, formattedValue, currency);
   }
 
-  return formattedValue;
+  return value < 0 ? `-${formattedValue}` : formattedValue;
 }
 
+// Locales space amounts with no-break spaces, which plain-text and PDF output can't always show
+const NO_BREAK_SPACES = /[\u00A0\u202F]/g;
+
 /**
- * Format a number with thousands separators
+ * Format a number in the currency's locale
  */
 function formatNumber(value: number, decimals: number, currency: Currency): string {
-  const parts = value.toFixed(decimals).split('.');
-  const integerPart = parts[0].replace(/\B(?=(\d{3})+(?!\d))/g, currency.thousandsSeparator);
+  return new Intl.NumberFormat(currency.locale, {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+  }).format(value).replace(NO_BREAK_SPACES, ' ');
+}
 
-  if (decimals > 0 && parts[1]) {
-    return `${integerPart}${currency.decimalSeparator}${parts[1]}`;
+/**
+ * Format a number in compact notation (K, M)
+ */
+function formatCompactNumber(value: number, currency: Currency): string {
+  if (value >= 1_000_000) {
+    return `${(value / 1_000_000).toFixed(1)}M`;
   }
-
-  return integerPart;
+  if (value >= 1_000) {
+    return `${(value / 1_000).toFixed(1)}K`;
+  }
+  return formatNumber(value, currency.decimalPlaces, currency);
 }
 
 /**
- * Format currency in compact notation (K, M)
+ * Place the currency symbol and sign around a formatted amount the way the
+ * currency's locale does (e.g. "RM 1,234.50", "1.234,50 €"), using our symbol
  */
-function formatCurrencyCompact(value: number, currency: Currency): string {
-  let formatted: string;
-
-  if (Math.abs(value) >= 1_000_000) {
-    formatted = `${(value / 1_000_000).toFixed(1)}M`;
-  } else if (Math.abs(value) >= 1_000) {
-    formatted = `${(value / 1_000).toFixed(1)}K`;
-  } else {
-    formatted = value.toFixed(currency.decimalPlaces);
-  }
+function withSymbol(value: number, formattedAmount: string, currency: Currency): string {
+  const parts = new Intl.NumberFormat(currency.locale, {
+    style: 'currency',
+    currency: currency.code,
+    currencyDisplay: 'narrowSymbol',
+  }).formatToParts(value < 0 ? -1 : 1);
 
-  return currency.position === 'before'
-    ? `${currency.symbol}${formatted}`
-    : `${formatted}${currency.symbol}`;
+  let amountPlaced = false;
+  return parts
+    .map(part => {
+      if (part.type === 'currency') return currency.symbol;
+      if (part.type === 'integer' || part.type === 'group' || part.type === 'decimal' || part.type === 'fraction') {
+        if (amountPlaced) return '';
+        amountPlaced = true;
+        return formattedAmount;
+      }
+      return part.value.replace(NO_BREAK_SPACES, ' ');
+    })
+    .join('');
 }
 
 // ============================================================================
@@ -79,25 +97,22 @@ function formatCurrencyCompact(value: number, currency: Currency): string {
 // ============================================================================
 
 /**
- * Convert amount from one currency to another
+ * Convert amount from one currency to another, using the bundled snapshot
+ * unless live or manual rates are passed
  */
 export function convertCurrency(
   amount: number,
   from: CurrencyCode,
-  to: CurrencyCode
+  to: CurrencyCode,
+  rates: ExchangeRates = EXCHANGE_RATE_SNAPSHOT
 ): number {
   if (from === to) return amount;
-
-  const fromCurrency = CURRENCIES[from];
-  const toCurrency = CURRENCIES[to];
-
-  // Convert to MYR first (base currency), then to target
-  const amountInMYR = amount / fromCurrency.rate;
-  return amountInMYR * toCurrency.rate;
+  return amount * getExchangeRate(rates, from, to);
 }
 
 /**
  * Convert MYR to another currency
+ * @deprecated Amounts are stored in the project currency; use convertCurrency
  */
 export function convertFromMYR(amountMYR: number, to: CurrencyCode): number {
   return convertCurrency(amountMYR, 'MYR', to);
@@ -105,6 +120,7 @@ export function convertFromMYR(amountMYR: number, to: CurrencyCode): number {
 
 /**
  * Convert to MYR from another currency
+ * @deprecated Amounts are stored in the project currency; use convertCurrency
  */
 export function convertToMYR(amount: number, from: CurrencyCode): number {
   return convertCurrency(amount, from, 'MYR');
@@ -0,0 +1,63 @@
+/**
+ * Currency Utility Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatCurrency, convertCurrency } from './index';
+import { CURRENCIES, CURRENCY_CODES } from '../data';
+import { CurrencyCodeSchema } from '../schemas';
+
+// ============================================================================
+// Currency Data Tests
+// ============================================================================
+
+describe('CURRENCIES', () => {
+  it('takes minor units and separators from the currency locale', () => {
+    expect(CURRENCIES.JPY).toMatchObject({ decimalPlaces: 0, symbol: '¥', position: 'before' });
+    expect(CURRENCIES.KRW.decimalPlaces).toBe(0);
+    expect(CURRENCIES.EUR).toMatchObject({ position: 'after', thousandsSeparator: '.', decimalSeparator: ',' });
+    expect(CURRENCIES.SGD.symbol).toBe('S$');
+  });
+
+  it('validates every listed code and nothing else', () => {
+    expect(CURRENCY_CODES).toHaveLength(Object.keys(CURRENCIES).length);
+    expect(CurrencyCodeSchema.safeParse('IDR').success).toBe(true);
+    expect(CurrencyCodeSchema.safeParse('XYZ').success).toBe(false);
+  });
+});
+
+// ============================================================================
+// Formatting Tests
+// ============================================================================
+
+describe('formatCurrency', () => {
+  it('formats amounts the way each locale writes them', () => {
+    expect(formatCurrency(1234.5, 'USD')).toBe('$1,234.50');
+    expect(formatCurrency(1234.5, 'EUR')).toBe('1.234,50 €');
+    expect(formatCurrency(1234.5, 'JPY')).toBe('¥1,235');
+    expect(formatCurrency(1234567, 'INR')).toBe('₹12,34,567.00');
+    expect(formatCurrency(1234567, 'IDR')).toBe('Rp 1.234.567,00');
+    expect(formatCurrency(1234.5, 'VND')).toBe('1.235 ₫');
+    expect(formatCurrency(1234.5, 'TWD')).toBe('NT$1,234.50');
+    expect(formatCurrency(1234.5, 'AED')).toBe('AED 1,234.50');
+  });
+
+  it('handles negatives, symbol-less and compact output', () => {
+    expect(formatCurrency(-42, 'USD')).toBe('-$42.00');
+    expect(formatCurrency(1234.5, 'THB', { showSymbol: false })).toBe('1,234.50');
+    expect(formatCurrency(1500000, 'PHP', { compact: true })).toBe('₱1.5M');
+    expect(formatCurrency(2500, 'EUR', { compact: true })).toBe('2.5K €');
+  });
+});
+
+// ============================================================================
+// Conversion Tests
+// ============================================================================
+
+describe('convertCurrency', () => {
+  it('converts between any two supported currencies through the snapshot', () => {
+    expect(convertCurrency(100, 'JPY', 'JPY')).toBe(100);
+    expect(convertCurrency(1, 'MYR', 'IDR')).toBe(CURRENCIES.IDR.rate);
+    expect(convertCurrency(CURRENCIES.THB.rate, 'THB', 'INR')).toBeCloseTo(CURRENCIES.INR.rate);
+  });
+});
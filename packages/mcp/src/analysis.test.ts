@@ -0,0 +1,99 @@
+/**
+ * Tests for MCP codebase analysis
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import type { ChatClient, ChatMessage } from '@basedpricer/core';
+import { createSnapshotFromBundle, createAnalysisChatClient, analyzeFileBundle } from './analysis.js';
+
+const files = [
+  { path: 'package.json', content: JSON.stringify({ name: 'acme', description: 'Receipts', dependencies: { openai: '^4' } }) },
+  { path: 'README.md', content: '# Acme' },
+  { path: './src/index.ts', content: 'export {}' },
+  { path: 'src/index.test.ts', content: 'test()' },
+];
+
+describe('createSnapshotFromBundle', () => {
+  it('should sort selected files into a snapshot', () => {
+    const snapshot = createSnapshotFromBundle({ files });
+
+    expect(snapshot.name).toBe('acme');
+    expect(snapshot.description).toBe('Receipts');
+    expect(snapshot.readme).toBe('# Acme');
+    expect(snapshot.configFiles.map(f => f.path)).toEqual(['package.json']);
+    // Test files are not analyzable sources
+    expect(snapshot.srcFiles.map(f => f.path)).toEqual(['src/index.ts']);
+  });
+
+  it('should prefer the given name over package.json', () => {
+    expect(createSnapshotFromBundle({ files, name: 'Acme Cloud' }).name).toBe('Acme Cloud');
+  });
+
+  it('should throw for a missing or malformed bundle', () => {
+    expect(() => createSnapshotFromBundle({})).toThrow('files must be a non-empty array');
+    expect(() => createSnapshotFromBundle({ files: [{ path: 'a.ts' }] })).toThrow(
+      'files[0] must have string path and content'
+    );
+  });
+});
+
+describe('createAnalysisChatClient', () => {
+  const saved = process.env.OPENAI_API_KEY;
+  afterEach(() => {
+    if (saved === undefined) delete process.env.OPENAI_API_KEY;
+    else process.env.OPENAI_API_KEY = saved;
+  });
+
+  it('should throw for unknown providers', () => {
+    expect(() => createAnalysisChatClient('groq')).toThrow('Invalid provider: groq');
+  });
+
+  it('should throw when the API key is not set', () => {
+    delete process.env.OPENAI_API_KEY;
+    expect(() => createAnalysisChatClient('openai')).toThrow('OPENAI_API_KEY is not set');
+  });
+
+  it('should create a client from the environment key', () => {
+    process.env.OPENAI_API_KEY = 'sk-test';
+    expect(typeof createAnalysisChatClient('openai').chat).toBe('function');
+  });
+});
+
+describe('analyzeFileBundle', () => {
+  it('should detect features and tiers with the shared analyzer', async () => {
+    const sent: ChatMessage[][] = [];
+    const client: ChatClient = {
+      async chat(messages) {
+        sent.push(messages);
+        return {
+          content: JSON.stringify({
+            features: [{ id: 'ocr', name: 'OCR', category: 'ai' }],
+            suggestedTiers: [{ name: 'Pro', price: 29, features: ['ocr'] }],
+          }),
+        };
+      },
+    };
+
+    const { analysis, project } = await analyzeFileBundle(createSnapshotFromBundle({ files }), client, {
+      currency: 'USD',
+    });
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0][1].content).toContain('Repository: acme');
+    expect(analysis.costSuggestions.map(c => c.name)).toEqual(['OpenAI API']);
+    expect(project.name).toBe('acme');
+    expect(project.currency).toBe('USD');
+    expect(project.features.map(f => f.name)).toEqual(['OCR']);
+    expect(project.tiers.map(t => t.name)).toEqual(['Pro']);
+  });
+
+  it('should fall back to dependency analysis without a client', async () => {
+    const { analysis, project } = await analyzeFileBundle(createSnapshotFromBundle({ files }), null, {
+      currency: 'MYR',
+    });
+
+    expect(analysis.costSuggestions.map(c => c.name)).toEqual(['OpenAI API']);
+    expect(project.variableCosts.length + project.fixedCosts.length).toBeGreaterThan(0);
+    expect(project.features).toEqual([]);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Codebase analysis for MCP server
+ */
+
+import {
+  BUILT_IN_AI_PROVIDERS,
+  analyzeCodebase,
+  createCodebaseSnapshot,
+  createProjectFromAnalysis,
+  createProviderChatClient,
+  quickAnalyzeFromPackageJson,
+  selectAnalysisFiles,
+  type AnalysisFile,
+  type AnalysisProjectInput,
+  type ChatClient,
+  type CodebaseSnapshot,
+  type CurrencyCode,
+  type ProjectFile,
+} from '@basedpricer/core';
+
+/**
+ * Providers the analysis tool can call, with the environment variable holding each API key
+ */
+export const ANALYSIS_PROVIDERS = {
+  openai: 'OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+} as const;
+export type AnalysisProvider = keyof typeof ANALYSIS_PROVIDERS;
+
+/**
+ * Build a codebase snapshot from a `files` bundle of { path, content } objects,
+ * using the same file selection as GitHub and local analysis
+ */
+export function createSnapshotFromBundle(args: Record<string, unknown>): CodebaseSnapshot {
+  if (!Array.isArray(args.files) || args.files.length === 0) {
+    throw new Error('files must be a non-empty array of { path, content } objects');
+  }
+
+  const bundle = new Map<string, string>();
+  args.files.forEach((file: unknown, index: number) => {
+    const entry = file as Record<string, unknown> | null;
+    if (typeof entry?.path !== 'string' || typeof entry.content !== 'string') {
+      throw new Error(`files[${index}] must have string path and content`);
+    }
+    bundle.set(entry.path.replace(/^\.?\/+/, ''), entry.content);
+  });
+
+  const tree = [...bundle].map(([path, content]) => ({ path, type: 'blob' as const, size: content.length }));
+  const files: AnalysisFile[] = selectAnalysisFiles(tree).map(path => {
+    const content = bundle.get(path) ?? '';
+    return { path, content, size: content.length };
+  });
+
+  const snapshot = createCodebaseSnapshot(
+    {
+      name: typeof args.name === 'string' ? args.name : 'Untitled project',
+      description: typeof args.description === 'string' ? args.description : null,
+      language: typeof args.language === 'string' ? args.language : null,
+    },
+    files
+  );
+
+  // Prefer package.json metadata when no name or description was given
+  const pkg = snapshot.packageJson;
+  return {
+    ...snapshot,
+    name: typeof args.name !== 'string' && typeof pkg?.name === 'string' ? pkg.name : snapshot.name,
+    description: snapshot.description ?? (typeof pkg?.description === 'string' ? pkg.description : null),
+  };
+}
+
+/**
+ * Create a chat client for a provider using its API key from the server's environment
+ */
+export function createAnalysisChatClient(provider: unknown): ChatClient {
+  if (typeof provider !== 'string' || !(provider in ANALYSIS_PROVIDERS)) {
+    throw new Error(`Invalid provider: ${String(provider)}. Valid options: ${Object.keys(ANALYSIS_PROVIDERS).join(', ')}`);
+  }
+
+  const envVar = ANALYSIS_PROVIDERS[provider as AnalysisProvider];
+  const apiKey = process.env[envVar];
+  if (!apiKey) {
+    throw new Error(`${envVar} is not set in the MCP server's environment`);
+  }
+
+  return createProviderChatClient(BUILT_IN_AI_PROVIDERS[provider as AnalysisProvider], { apiKey });
+}
+
+/**
+ * Analyze a file bundle into a project file.
+ * With a chat client the shared AI analyzer detects features and tiers;
+ * without one, only package.json dependencies are used.
+ */
+export async function analyzeFileBundle(
+  snapshot: CodebaseSnapshot,
+  client: ChatClient | null,
+  options: { model?: string; currency: CurrencyCode }
+): Promise<{ analysis: AnalysisProjectInput; project: ProjectFile }> {
+  const analysis: AnalysisProjectInput = client
+    ? await analyzeCodebase(snapshot, client, { model: options.model })
+    : quickAnalyzeFromPackageJson(snapshot.packageJson ?? {});
+
+  return {
+    analysis,
+    project: createProjectFromAnalysis(snapshot.name, analysis, options.currency),
+  };
+}
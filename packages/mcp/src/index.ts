@@ -21,12 +21,20 @@ import {
   calculateBreakEvenCustomers,
   calculateInvestorMetrics,
   calculateTokenCost,
+  simulateMonteCarlo,
+  solveTierPrices,
+
+  // Formatting
+  formatCurrency,
 
   // Data
   MARGIN_THRESHOLDS,
   CURRENCIES,
   AI_PRICING,
   COST_DRIVERS,
+
+  // Types
+  type PriceSolverTargets,
 } from '@basedpricer/core';
 
 import {
@@ -34,6 +42,7 @@ import {
   VALID_AI_PROVIDERS,
   validatePositiveNumber,
   validateNonNegativeNumber,
+  validateMarginTarget,
   validateNumber,
   validateCurrencyCode,
   validateAIProvider,
@@ -41,6 +50,8 @@ import {
   validateFixedCosts,
   getNumberOrDefault,
 } from './validation.js';
+import { loadProject, summarizeProject } from './project.js';
+import { ANALYSIS_PROVIDERS, createSnapshotFromBundle, createAnalysisChatClient, analyzeFileBundle } from './analysis.js';
 
 // ============================================================================
 // Server Setup
@@ -63,6 +74,20 @@ const server = new Server(
 // Tools
 // ============================================================================
 
+const costDistributionSchema = {
+  type: 'object',
+  description: 'Triangular ({ type: "triangular", min, likely, max }) or normal ({ type: "normal", mean, stdDev }) distribution',
+  properties: {
+    type: { type: 'string', enum: ['triangular', 'normal'] },
+    min: { type: 'number' },
+    likely: { type: 'number' },
+    max: { type: 'number' },
+    mean: { type: 'number' },
+    stdDev: { type: 'number' },
+  },
+  required: ['type'],
+};
+
 server.setRequestHandler(ListToolsRequestSchema, async () => {
   return {
     tools: [
@@ -200,6 +225,175 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           required: ['provider', 'estimatedInputTokens', 'estimatedOutputTokens'],
         },
       },
+      {
+        name: 'simulate_uncertainty',
+        description: 'Run a Monte Carlo simulation over uncertain cost and usage inputs. Returns P10/P50/P90, mean and a histogram of COGS per customer, gross margin and break-even customers.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            variableCosts: {
+              type: 'array',
+              description: 'Variable cost items; costPerUnit and usagePerCustomer may carry distributions',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  name: { type: 'string' },
+                  unit: { type: 'string' },
+                  costPerUnit: { type: 'number', description: 'Point estimate of cost per unit' },
+                  usagePerCustomer: { type: 'number', description: 'Point estimate of monthly usage per customer' },
+                  description: { type: 'string' },
+                  distributions: {
+                    type: 'object',
+                    properties: {
+                      costPerUnit: costDistributionSchema,
+                      usagePerCustomer: costDistributionSchema,
+                    },
+                  },
+                },
+                required: ['id', 'name', 'unit', 'costPerUnit', 'usagePerCustomer'],
+              },
+            },
+            fixedCosts: {
+              type: 'array',
+              description: 'Fixed cost items; monthlyCost may carry a distribution',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  name: { type: 'string' },
+                  monthlyCost: { type: 'number', description: 'Point estimate of monthly cost' },
+                  description: { type: 'string' },
+                  distributions: {
+                    type: 'object',
+                    properties: { monthlyCost: costDistributionSchema },
+                  },
+                },
+                required: ['id', 'name', 'monthlyCost'],
+              },
+            },
+            price: { type: 'number', description: 'Price per customer per month (must be positive)' },
+            customerCount: { type: 'number', description: 'Customers fixed costs are spread over (default: 100)', default: 100 },
+            utilizationRate: { type: 'number', description: 'Share of usage actually consumed, 0-1 (default: 1)', default: 1 },
+            iterations: { type: 'number', description: 'Number of simulation runs (default: 2000, max: 20000)', default: 2000 },
+            seed: { type: 'number', description: 'Random seed for reproducible results (default: 1)', default: 1 },
+            currency: {
+              type: 'string',
+              enum: VALID_CURRENCY_CODES,
+              default: 'MYR',
+            },
+          },
+          required: ['variableCosts', 'fixedCosts', 'price'],
+        },
+      },
+      {
+        name: 'load_project',
+        description: 'Load a basedpricer.json project file (costs, tiers, features, scenarios) and summarize its COGS and per-tier margins. The returned project can be reused as input to other tools.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'Path to the project file (default: basedpricer.json in the working directory)',
+            },
+            project: {
+              type: 'object',
+              description: 'Inline project file contents, used instead of path',
+            },
+          },
+        },
+      },
+      {
+        name: 'solve_tier_prices',
+        description: 'Propose per-tier prices for a project that meet targets such as a minimum blended gross margin, break-even by a number of paid customers, a minimum margin per tier, or each tier priced at a multiple of the tier below. Prices are rounded up to charm prices by default.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'Path to the project file (default: basedpricer.json in the working directory)',
+            },
+            project: {
+              type: 'object',
+              description: 'Inline project file contents, used instead of path',
+            },
+            minGrossMargin: {
+              type: 'number',
+              description: 'Minimum blended gross margin across all tiers, in percent (e.g. 75)',
+            },
+            breakEvenPaidCustomers: {
+              type: 'number',
+              description: 'Cover fixed costs by this many paid customers',
+            },
+            minTierMargin: {
+              type: 'number',
+              description: 'Minimum gross margin for every paid tier, in percent',
+            },
+            tierPriceRatio: {
+              type: 'number',
+              description: 'Each paid tier costs at least this multiple of the paid tier below it (e.g. 2)',
+            },
+            charmPricing: {
+              type: 'boolean',
+              description: 'Round prices up to charm prices like 29 or 149 (default: true)',
+              default: true,
+            },
+            allowDecrease: {
+              type: 'boolean',
+              description: 'Allow prices below the current ones when targets are already met (default: false)',
+              default: false,
+            },
+          },
+        },
+      },
+      {
+        name: 'analyze_codebase',
+        description: 'Analyze a bundle of source files (package.json, README, config and source files) into a basedpricer.json project with detected costs, features and suggested tiers. With a provider, an AI model detects features and tiers using the same analyzer as the web app and CLI; without one, only package.json dependencies are used.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            files: {
+              type: 'array',
+              description: 'Files from the codebase, with paths relative to its root (e.g. package.json, src/index.ts)',
+              items: {
+                type: 'object',
+                properties: {
+                  path: { type: 'string' },
+                  content: { type: 'string' },
+                },
+                required: ['path', 'content'],
+              },
+            },
+            name: {
+              type: 'string',
+              description: 'Project name (default: package.json name)',
+            },
+            description: {
+              type: 'string',
+              description: 'Short description of the product',
+            },
+            language: {
+              type: 'string',
+              description: 'Primary programming language',
+            },
+            provider: {
+              type: 'string',
+              description: 'AI provider for feature and tier detection; its API key is read from OPENAI_API_KEY or ANTHROPIC_API_KEY',
+              enum: Object.keys(ANALYSIS_PROVIDERS),
+            },
+            model: {
+              type: 'string',
+              description: "Override the provider's default model",
+            },
+            currency: {
+              type: 'string',
+              enum: VALID_CURRENCY_CODES,
+              default: 'MYR',
+            },
+          },
+          required: ['files'],
+        },
+      },
       {
         name: 'get_margin_thresholds',
         description: 'Get the industry-standard SaaS margin thresholds used for health classification.',
@@ -226,7 +420,6 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         }
 
         const currencyCode = validateCurrencyCode(safeArgs.currency);
-        const currency = CURRENCIES[currencyCode];
 
         const variableCosts = validateVariableCosts(safeArgs.variableCosts);
         const fixedCosts = validateFixedCosts(safeArgs.fixedCosts);
@@ -255,7 +448,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
                   monthlyCost: c.monthlyCost,
                   costPerCustomer: customerCount > 0 ? c.monthlyCost / customerCount : 0,
                 })),
-                summary: `Total COGS per customer: ${currency.symbol} ${breakdown.totalCOGS.toFixed(2)} (Variable: ${currency.symbol} ${breakdown.variableTotal.toFixed(2)}, Fixed: ${currency.symbol} ${breakdown.fixedPerCustomer.toFixed(2)})`,
+                summary: `Total COGS per customer: ${formatCurrency(breakdown.totalCOGS, currencyCode)} (Variable: ${formatCurrency(breakdown.variableTotal, currencyCode)}, Fixed: ${formatCurrency(breakdown.fixedPerCustomer, currencyCode)})`,
               }, null, 2),
             },
           ],
@@ -266,7 +459,6 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const price = validatePositiveNumber(safeArgs.price, 'price');
         const cogs = validateNonNegativeNumber(safeArgs.cogs, 'cogs');
         const currencyCode = validateCurrencyCode(safeArgs.currency);
-        const currency = CURRENCIES[currencyCode];
 
         const margin = calculateGrossMargin(price, cogs);
         const profit = price - cogs;
@@ -287,7 +479,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
                 marginStatus: status,
                 isHealthy: margin >= MARGIN_THRESHOLDS.HEALTHY,
                 isAcceptable: margin >= MARGIN_THRESHOLDS.ACCEPTABLE,
-                summary: `Gross margin: ${margin.toFixed(1)}% (${health}). Profit per customer: ${currency.symbol} ${profit.toFixed(2)}`,
+                summary: `Gross margin: ${margin.toFixed(1)}% (${health}). Profit per customer: ${formatCurrency(profit, currencyCode)}`,
                 recommendations: margin < MARGIN_THRESHOLDS.ACCEPTABLE
                   ? ['Consider reducing costs or increasing price to improve margins']
                   : margin < MARGIN_THRESHOLDS.HEALTHY
@@ -444,6 +636,153 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case 'simulate_uncertainty': {
+        const variableCosts = validateVariableCosts(safeArgs.variableCosts);
+        const fixedCosts = validateFixedCosts(safeArgs.fixedCosts);
+        const price = validatePositiveNumber(safeArgs.price, 'price');
+        const customerCount = getNumberOrDefault(safeArgs, 'customerCount', 100);
+        const utilizationRate = safeArgs.utilizationRate === undefined
+          ? 1
+          : validateNonNegativeNumber(safeArgs.utilizationRate, 'utilizationRate');
+        if (utilizationRate > 1) {
+          throw new Error('utilizationRate must be between 0 and 1');
+        }
+        const currencyCode = validateCurrencyCode(safeArgs.currency);
+
+        const result = simulateMonteCarlo({
+          variableCosts,
+          fixedCosts,
+          price,
+          customerCount,
+          utilizationRate,
+          iterations: getNumberOrDefault(safeArgs, 'iterations', 2000),
+          seed: getNumberOrDefault(safeArgs, 'seed', 1),
+        });
+        const { cogsPerCustomer, grossMargin, breakEvenCustomers } = result;
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                price,
+                customerCount,
+                currency: currencyCode,
+                ...result,
+                summary: [
+                  `COGS per customer P10/P50/P90: ${formatCurrency(cogsPerCustomer.p10, currencyCode)} / ${formatCurrency(cogsPerCustomer.p50, currencyCode)} / ${formatCurrency(cogsPerCustomer.p90, currencyCode)}`,
+                  `Gross margin P10/P50/P90: ${grossMargin.p10.toFixed(1)}% / ${grossMargin.p50.toFixed(1)}% / ${grossMargin.p90.toFixed(1)}%`,
+                  breakEvenCustomers
+                    ? `Break-even customers P10/P50/P90: ${Math.ceil(breakEvenCustomers.p10)} / ${Math.ceil(breakEvenCustomers.p50)} / ${Math.ceil(breakEvenCustomers.p90)}`
+                    : 'Break-even is never reached - price does not cover variable costs',
+                  result.breakEvenUnreachableRate > 0
+                    ? `Price does not cover variable costs in ${(result.breakEvenUnreachableRate * 100).toFixed(1)}% of runs`
+                    : null,
+                ].filter(Boolean).join('. '),
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'load_project': {
+        const project = await loadProject(safeArgs);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                summary: summarizeProject(project),
+                project,
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'solve_tier_prices': {
+        const targets: PriceSolverTargets = {};
+        if (safeArgs.minGrossMargin !== undefined) {
+          targets.minGrossMargin = validateMarginTarget(safeArgs.minGrossMargin, 'minGrossMargin');
+        }
+        if (safeArgs.breakEvenPaidCustomers !== undefined) {
+          targets.breakEvenPaidCustomers = validatePositiveNumber(safeArgs.breakEvenPaidCustomers, 'breakEvenPaidCustomers');
+        }
+        if (safeArgs.minTierMargin !== undefined) {
+          targets.minTierMargin = validateMarginTarget(safeArgs.minTierMargin, 'minTierMargin');
+        }
+        if (safeArgs.tierPriceRatio !== undefined) {
+          targets.tierPriceRatio = validatePositiveNumber(safeArgs.tierPriceRatio, 'tierPriceRatio');
+        }
+        if (Object.keys(targets).length === 0) {
+          throw new Error('Set at least one target: minGrossMargin, breakEvenPaidCustomers, minTierMargin or tierPriceRatio');
+        }
+
+        const project = await loadProject(safeArgs);
+        const result = solveTierPrices({
+          variableCosts: project.variableCosts,
+          fixedCosts: project.fixedCosts,
+          tiers: project.tiers,
+          features: project.features,
+          utilizationRate: project.utilizationRate,
+          tierDistribution: project.tierDistribution,
+          tax: project.tax,
+          targets,
+          charmPricing: safeArgs.charmPricing !== false,
+          allowDecrease: safeArgs.allowDecrease === true,
+        });
+
+        const unmet = result.constraints.filter(constraint => !constraint.met).map(constraint => constraint.label);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                currency: project.currency,
+                targets,
+                ...result,
+                summary: [
+                  result.tiers
+                    .filter(tier => tier.revenuePerCustomer > 0)
+                    .map(tier => `${tier.name}: ${formatCurrency(tier.currentPrice, project.currency)} → ${formatCurrency(tier.proposedPrice, project.currency)}`)
+                    .join(', '),
+                  `Blended gross margin ${result.blendedGrossMargin.toFixed(1)}%`,
+                  unmet.length > 0 ? `Not met: ${unmet.join(', ')}` : 'All targets met',
+                ].join('. '),
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'analyze_codebase': {
+        const currency = validateCurrencyCode(safeArgs.currency ?? 'MYR');
+        if (safeArgs.model !== undefined && typeof safeArgs.model !== 'string') {
+          throw new Error(`model must be a string, got ${typeof safeArgs.model}`);
+        }
+        const snapshot = createSnapshotFromBundle(safeArgs);
+        const client = safeArgs.provider !== undefined ? createAnalysisChatClient(safeArgs.provider) : null;
+        const { analysis, project } = await analyzeFileBundle(snapshot, client, {
+          model: safeArgs.model as string | undefined,
+          currency,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                techStack: analysis.techStack,
+                summary: summarizeProject(project),
+                project,
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
       case 'get_margin_thresholds': {
         return {
           content: [
@@ -0,0 +1,102 @@
+/**
+ * Tests for MCP project loading
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { loadProject, summarizeProject } from './project.js';
+
+const project = {
+  schemaVersion: 2,
+  name: 'Acme',
+  variableCosts: [
+    { id: 'api', name: 'API', unit: 'call', costPerUnit: 0.01, usagePerCustomer: 100, description: '' },
+  ],
+  fixedCosts: [{ id: 'hosting', name: 'Hosting', monthlyCost: 100, description: '' }],
+  tiers: [
+    { id: 'free', name: 'Free', monthlyPrice: 0, limits: [] },
+    { id: 'pro', name: 'Pro', monthlyPrice: 50, limits: [{ featureId: 'api', limit: 1000, variableCostId: 'api' }] },
+  ],
+  tierDistribution: { free: 60, pro: 40 },
+};
+
+describe('loadProject', () => {
+  it('should accept an inline project', async () => {
+    const loaded = await loadProject({ project });
+    expect(loaded.name).toBe('Acme');
+    expect(loaded.currency).toBe('MYR');
+  });
+
+  it('should load a project from a file path', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'basedpricer-'));
+    try {
+      const filePath = path.join(dir, 'basedpricer.json');
+      await writeFile(filePath, JSON.stringify(project), 'utf-8');
+      const loaded = await loadProject({ path: filePath });
+      expect(loaded.tiers).toHaveLength(2);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should throw for missing files', async () => {
+    await expect(loadProject({ path: '/nonexistent/basedpricer.json' })).rejects.toThrow(
+      'Project file not found'
+    );
+  });
+
+  it('should throw for invalid projects', async () => {
+    await expect(loadProject({ project: { name: 'Acme' } })).rejects.toThrow(
+      'Invalid project: Missing schemaVersion'
+    );
+  });
+
+  it('should throw for non-string paths', async () => {
+    await expect(loadProject({ path: 42 })).rejects.toThrow('path must be a string, got number');
+  });
+});
+
+describe('summarizeProject', () => {
+  it('should summarize costs and tier margins', async () => {
+    const summary = summarizeProject(await loadProject({ project }));
+
+    expect(summary.costs.variableCostPerCustomer).toBe(1);
+    expect(summary.costs.fixedCostPerCustomer).toBe(1);
+
+    const pro = summary.tiers.find(t => t.id === 'pro')!;
+    // 1000 calls * 0.01
+    expect(pro.variableCostPerCustomer).toBeCloseTo(10);
+    expect(pro.grossMargin).toBeCloseTo(80);
+    expect(pro.marginHealth).toBe('healthy');
+    expect(pro.distributionPercent).toBe(40);
+
+    expect(summary.tiers.find(t => t.id === 'free')!.marginHealth).toBeNull();
+  });
+
+  it('should calculate margins on revenue net of inclusive sales tax', async () => {
+    const tax = { rate: 0.25, inclusive: true, label: 'VAT' };
+    const summary = summarizeProject(await loadProject({ project: { ...project, tax } }));
+
+    const pro = summary.tiers.find(t => t.id === 'pro')!;
+    expect(pro.revenuePerCustomer).toBeCloseTo(40);
+    expect(pro.grossMargin).toBeCloseTo(75);
+    expect(summary.tax).toEqual(tax);
+  });
+
+  it('should value seat-based tiers at their average seats', async () => {
+    const team = {
+      id: 'team',
+      name: 'Team',
+      monthlyPrice: 20,
+      seatPricing: { pricePerSeat: 10, averageSeats: 3, minSeats: 5 },
+      limits: [{ featureId: 'api', limit: 100, variableCostId: 'api', perSeat: true }],
+    };
+    const summary = summarizeProject(await loadProject({ project: { ...project, tiers: [team] } }));
+
+    // Base fee + 5 billed seats; 3 seats * 100 calls * 0.01
+    expect(summary.tiers[0].revenuePerCustomer).toBe(70);
+    expect(summary.tiers[0].variableCostPerCustomer).toBeCloseTo(3);
+  });
+});
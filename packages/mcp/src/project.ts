@@ -0,0 +1,106 @@
+/**
+ * Project file loading for MCP server
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import {
+  validateProjectFile,
+  parseProjectFile,
+  calculateCOGSBreakdown,
+  calculateSeatTierEconomics,
+  getTierMarginHealth,
+  getTierPricesExcludingTax,
+  PROJECT_FILE_NAME,
+  type ProjectFile,
+} from '@basedpricer/core';
+
+/**
+ * Load a project from tool arguments.
+ * Accepts an inline `project` object, or a `path` to a basedpricer.json file
+ * (defaults to basedpricer.json in the server's working directory).
+ */
+export async function loadProject(args: Record<string, unknown>): Promise<ProjectFile> {
+  if (args.project !== undefined) {
+    const result = validateProjectFile(args.project);
+    if (!result.success) {
+      throw new Error(`Invalid project: ${result.error}`);
+    }
+    return result.data;
+  }
+
+  if (args.path !== undefined && typeof args.path !== 'string') {
+    throw new Error(`path must be a string, got ${typeof args.path}`);
+  }
+
+  const filePath = path.resolve((args.path as string | undefined) ?? PROJECT_FILE_NAME);
+  let content: string;
+  try {
+    content = await readFile(filePath, 'utf-8');
+  } catch {
+    throw new Error(`Project file not found: ${filePath}`);
+  }
+
+  const result = parseProjectFile(content);
+  if (!result.success) {
+    throw new Error(`Invalid project in ${filePath}: ${result.error}`);
+  }
+  return result.data;
+}
+
+/**
+ * Summarize a project: COGS at the project's customer count and per-tier margins.
+ * Seat-priced tiers are valued at their average seats per customer, and revenue
+ * is net of the project's sales tax.
+ */
+export function summarizeProject(project: ProjectFile) {
+  const breakdown = calculateCOGSBreakdown(
+    project.variableCosts,
+    project.fixedCosts,
+    project.customerCount
+  );
+
+  const tiers = project.tiers.map(tier => {
+    const economics = calculateSeatTierEconomics(
+      getTierPricesExcludingTax(tier, project.tax),
+      project.variableCosts,
+      project.utilizationRate,
+      project.features
+    );
+    return {
+      id: tier.id,
+      name: tier.name,
+      monthlyPrice: tier.monthlyPrice,
+      seatPricing: tier.seatPricing ?? null,
+      revenuePerCustomer: economics.revenuePerCustomer,
+      variableCostPerCustomer: economics.cogsPerCustomer,
+      grossMargin: economics.margin,
+      marginHealth: economics.revenuePerCustomer > 0 ? getTierMarginHealth(economics.margin) : null,
+      distributionPercent: project.tierDistribution[tier.id] ?? 0,
+    };
+  });
+
+  return {
+    name: project.name,
+    schemaVersion: project.schemaVersion,
+    currency: project.currency,
+    displayCurrency: project.displayCurrency ?? null,
+    businessType: project.businessType,
+    pricingModelType: project.pricingModelType,
+    customerCount: project.customerCount,
+    utilizationRate: project.utilizationRate,
+    costs: {
+      variableCostPerCustomer: breakdown.variableTotal,
+      fixedCostPerCustomer: breakdown.fixedPerCustomer,
+      totalCOGSPerCustomer: breakdown.totalCOGS,
+      totalMonthlyFixedCosts: breakdown.fixedTotal,
+      variableCostItems: project.variableCosts.length,
+      fixedCostItems: project.fixedCosts.length,
+    },
+    tiers,
+    features: project.features.map(f => ({ id: f.id, name: f.name, costDriver: f.costDriver ?? null })),
+    scenarios: project.scenarios,
+    priceBooks: project.priceBooks,
+    tax: project.tax ?? null,
+  };
+}
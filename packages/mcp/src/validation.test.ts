@@ -3,9 +3,11 @@
  */
 
 import { describe, it, expect } from 'vitest';
+import { CURRENCIES } from '@basedpricer/core';
 import {
   validatePositiveNumber,
   validateNonNegativeNumber,
+  validateMarginTarget,
   validateNumber,
   validateCurrencyCode,
   validateAIProvider,
@@ -90,6 +92,21 @@ describe('validateNonNegativeNumber', () => {
   });
 });
 
+describe('validateMarginTarget', () => {
+  it('should accept percentages below 100', () => {
+    expect(validateMarginTarget(0, 'margin')).toBe(0);
+    expect(validateMarginTarget(75, 'margin')).toBe(75);
+  });
+
+  it('should throw for 100 or more', () => {
+    expect(() => validateMarginTarget(100, 'margin')).toThrow('margin must be below 100, got 100');
+  });
+
+  it('should throw for negative numbers', () => {
+    expect(() => validateMarginTarget(-5, 'margin')).toThrow('margin must be non-negative, got -5');
+  });
+});
+
 describe('validateNumber', () => {
   it('should accept any valid number', () => {
     expect(validateNumber(0, 'test')).toBe(0);
@@ -320,8 +337,10 @@ describe('VALID_CURRENCY_CODES', () => {
     expect(VALID_CURRENCY_CODES).toContain('AUD');
   });
 
-  it('should have exactly 6 currencies', () => {
-    expect(VALID_CURRENCY_CODES).toHaveLength(6);
+  it('should match the core currency list', () => {
+    expect(VALID_CURRENCY_CODES).toEqual(Object.keys(CURRENCIES));
+    expect(VALID_CURRENCY_CODES).toContain('JPY');
+    expect(VALID_CURRENCY_CODES).toContain('IDR');
   });
 });
 
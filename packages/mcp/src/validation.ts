@@ -3,6 +3,7 @@
  */
 
 import {
+  CURRENCY_CODES,
   validateVariableCostItem,
   validateFixedCostItem,
   type VariableCostItem,
@@ -13,7 +14,7 @@ import {
 /**
  * List of valid currency codes
  */
-export const VALID_CURRENCY_CODES: CurrencyCode[] = ['MYR', 'USD', 'SGD', 'EUR', 'GBP', 'AUD'];
+export const VALID_CURRENCY_CODES: CurrencyCode[] = CURRENCY_CODES;
 
 /**
  * List of valid AI providers
@@ -53,6 +54,17 @@ export function validateNonNegativeNumber(value: unknown, fieldName: string): nu
   return value;
 }
 
+/**
+ * Validate a margin target percentage (0 up to, but not including, 100)
+ */
+export function validateMarginTarget(value: unknown, fieldName: string): number {
+  const margin = validateNonNegativeNumber(value, fieldName);
+  if (margin >= 100) {
+    throw new Error(`${fieldName} must be below 100, got ${margin}`);
+  }
+  return margin;
+}
+
 /**
  * Validate that a value is a number (can be zero or positive)
  */
@@ -0,0 +1,96 @@
+/**
+ * Report Storage Function Tests
+ * Runs the /api/reports handlers against an in-memory KV namespace
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createReport,
+  getReport,
+  generateReportId,
+  isValidReportId,
+  MAX_REPORT_BYTES,
+  REPORT_TTL_SECONDS,
+  type ReportsKV,
+} from './reports';
+
+function createMemoryKV() {
+  const store = new Map<string, { value: string; expirationTtl?: number }>();
+  const kv: ReportsKV = {
+    get: async (key) => store.get(key)?.value ?? null,
+    put: async (key, value, options) => {
+      store.set(key, { value, expirationTtl: options?.expirationTtl });
+    },
+  };
+  return { kv, store };
+}
+
+const report = {
+  projectName: 'Test Project',
+  createdAt: new Date().toISOString(),
+  state: { customerCount: 100 },
+  notes: {},
+};
+
+function post(body: string): Request {
+  return new Request('https://example.com/api/reports', { method: 'POST', body });
+}
+
+describe('report storage functions', () => {
+  describe('generateReportId', () => {
+    it('generates valid 8-character IDs', () => {
+      const id = generateReportId();
+      expect(id).toHaveLength(8);
+      expect(isValidReportId(id)).toBe(true);
+    });
+
+    it('rejects IDs outside the alphabet', () => {
+      expect(isValidReportId('abc')).toBe(false);
+      expect(isValidReportId('ABCDEFGH')).toBe(false);
+      expect(isValidReportId('../../xx')).toBe(false);
+    });
+  });
+
+  describe('createReport and getReport', () => {
+    it('stores a report with a TTL and returns it by ID', async () => {
+      const { kv, store } = createMemoryKV();
+
+      const created = await createReport(post(JSON.stringify(report)), kv);
+      expect(created.status).toBe(201);
+      const { id } = await created.json();
+      expect(isValidReportId(id)).toBe(true);
+      expect(store.get(`report:${id}`)?.expirationTtl).toBe(REPORT_TTL_SECONDS);
+
+      const fetched = await getReport(id, kv);
+      expect(fetched.status).toBe(200);
+      expect(await fetched.json()).toEqual(report);
+    });
+
+    it('rejects invalid JSON and non-report payloads', async () => {
+      const { kv, store } = createMemoryKV();
+
+      expect((await createReport(post('not json'), kv)).status).toBe(400);
+      expect((await createReport(post(JSON.stringify({ foo: 1 })), kv)).status).toBe(400);
+      expect(store.size).toBe(0);
+    });
+
+    it('rejects oversized reports', async () => {
+      const { kv } = createMemoryKV();
+      const large = { ...report, notes: { accountant: 'x'.repeat(MAX_REPORT_BYTES) } };
+
+      expect((await createReport(post(JSON.stringify(large)), kv)).status).toBe(413);
+    });
+
+    it('returns 404 for unknown or malformed IDs', async () => {
+      const { kv } = createMemoryKV();
+
+      expect((await getReport('abcdefgh', kv)).status).toBe(404);
+      expect((await getReport('nope', kv)).status).toBe(404);
+    });
+
+    it('returns 503 when no KV namespace is bound', async () => {
+      expect((await createReport(post(JSON.stringify(report)), undefined)).status).toBe(503);
+      expect((await getReport('abcdefgh', undefined)).status).toBe(503);
+    });
+  });
+});
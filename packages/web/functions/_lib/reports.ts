@@ -0,0 +1,119 @@
+/**
+ * Report storage for short links
+ * Shared by the /api/reports Pages Functions
+ */
+
+/**
+ * The subset of a Workers KV namespace used for reports
+ */
+export interface ReportsKV {
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+}
+
+export interface Env {
+  REPORTS?: ReportsKV;
+}
+
+/**
+ * Arguments passed to a Pages Function handler
+ */
+export interface PagesContext<Params extends string = never> {
+  request: Request;
+  env: Env;
+  params: Record<Params, string | string[]>;
+}
+
+export const REPORT_TTL_DAYS = 30; // Matches the local short link expiry
+export const REPORT_TTL_SECONDS = REPORT_TTL_DAYS * 24 * 60 * 60;
+export const MAX_REPORT_BYTES = 512 * 1024;
+
+const KEY_PREFIX = 'report:';
+const ID_CHARS = 'abcdefghjkmnpqrstuvwxyz23456789'; // Same alphabet as local short IDs
+const ID_LENGTH = 8;
+const ID_PATTERN = new RegExp(`^[${ID_CHARS}]{${ID_LENGTH}}$`);
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function json(body: unknown, status: number = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+function error(message: string, status: number): Response {
+  return json({ error: message }, status);
+}
+
+/**
+ * Generate a short, readable report ID
+ */
+export function generateReportId(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(ID_LENGTH));
+  return Array.from(bytes, byte => ID_CHARS[byte % ID_CHARS.length]).join('');
+}
+
+export function isValidReportId(id: string): boolean {
+  return ID_PATTERN.test(id);
+}
+
+/**
+ * Cheap structural check; readers migrate and fully validate reports on load
+ */
+function looksLikeReport(data: unknown): boolean {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return false;
+  const report = data as Record<string, unknown>;
+  return typeof report.projectName === 'string' && !!report.state && typeof report.state === 'object';
+}
+
+// ============================================================================
+// Handlers
+// ============================================================================
+
+/**
+ * Store a report and return its ID.
+ * Responds 503 when no KV namespace is bound so clients fall back to portable links.
+ */
+export async function createReport(request: Request, kv: ReportsKV | undefined): Promise<Response> {
+  if (!kv) return error('Report storage is not configured', 503);
+
+  const body = await request.text();
+  if (new TextEncoder().encode(body).length > MAX_REPORT_BYTES) {
+    return error('Report is too large', 413);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    return error('Report must be valid JSON', 400);
+  }
+  if (!looksLikeReport(data)) return error('Invalid report data', 400);
+
+  const id = generateReportId();
+  await kv.put(KEY_PREFIX + id, body, { expirationTtl: REPORT_TTL_SECONDS });
+
+  return json({ id, expiresInDays: REPORT_TTL_DAYS }, 201);
+}
+
+/**
+ * Fetch a stored report by ID
+ */
+export async function getReport(id: string, kv: ReportsKV | undefined): Promise<Response> {
+  if (!kv) return error('Report storage is not configured', 503);
+  if (!isValidReportId(id)) return error('Report not found', 404);
+
+  const stored = await kv.get(KEY_PREFIX + id);
+  if (!stored) return error('Report not found', 404);
+
+  // Reports never change once stored
+  return new Response(stored, {
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'public, max-age=3600',
+    },
+  });
+}
@@ -0,0 +1,9 @@
+/**
+ * GET /api/reports/:id
+ * Returns a stored report
+ */
+
+import { getReport, type PagesContext } from '../../_lib/reports';
+
+export const onRequestGet = ({ params, env }: PagesContext<'id'>): Promise<Response> =>
+  getReport(String(params.id), env.REPORTS);
@@ -0,0 +1,9 @@
+/**
+ * POST /api/reports
+ * Stores a report and returns its short ID
+ */
+
+import { createReport, type PagesContext } from '../../_lib/reports';
+
+export const onRequestPost = ({ request, env }: PagesContext): Promise<Response> =>
+  createReport(request, env.REPORTS);
@@ -17,6 +17,7 @@ import {
   Link,
   BookOpen,
   CloudCheck,
+  ClipboardText,
 } from '@phosphor-icons/react';
 import { PricingProvider, usePricing } from './context/PricingContext';
 import { NavigationProvider, useNavigation, type Tab } from './context/NavigationContext';
@@ -33,6 +34,7 @@ const FeatureInventory = lazy(() => import('./components/FeatureInventory').then
 const COGSCalculator = lazy(() => import('./components/COGSCalculator').then(m => ({ default: m.COGSCalculator })));
 const TierConfigurator = lazy(() => import('./components/TierConfigurator').then(m => ({ default: m.TierConfigurator })));
 const PricingCalculator = lazy(() => import('./components/PricingCalculator').then(m => ({ default: m.PricingCalculator })));
+const ActualsTracker = lazy(() => import('./components/ActualsTracker').then(m => ({ default: m.ActualsTracker })));
 const PricingMockup = lazy(() => import('./components/PricingMockup').then(m => ({ default: m.PricingMockup })));
 const CodebaseAnalyzer = lazy(() => import('./components/CodebaseAnalyzer').then(m => ({ default: m.CodebaseAnalyzer })));
 const ReportGenerator = lazy(() => import('./components/ReportGenerator').then(m => ({ default: m.ReportGenerator })));
@@ -55,6 +57,7 @@ const tabs: { id: Tab; label: string; icon: typeof House }[] = [
   { id: 'cogs', label: 'Costs', icon: CurrencyDollar },
   { id: 'tiers', label: 'Tiers', icon: Stack },
   { id: 'pricing', label: 'Simulate', icon: Calculator },
+  { id: 'actuals', label: 'Actuals', icon: ClipboardText },
   { id: 'mockup', label: 'Preview', icon: Browser },
 ];
 
@@ -250,6 +253,7 @@ function MainApp() {
               {activeTab === 'cogs' && <COGSCalculator />}
               {activeTab === 'tiers' && <TierConfigurator />}
               {activeTab === 'pricing' && <PricingCalculator />}
+              {activeTab === 'actuals' && <ActualsTracker />}
               {activeTab === 'mockup' && <PricingMockup />}
             </Suspense>
           </ErrorBoundary>
@@ -312,7 +316,7 @@ function App() {
 }
 
 function OverviewDashboard({ onNavigate }: { onNavigate: (tab: Tab) => void }) {
-  const { tiers, costs, variableCosts, fixedCosts, features, resetToEmpty } = usePricing();
+  const { tiers, costs, variableCosts, fixedCosts, features, currency, resetToEmpty } = usePricing();
   const [showResetConfirm, setShowResetConfirm] = useState(false);
 
   // Keyboard navigation for reset modal
@@ -322,8 +326,8 @@ function OverviewDashboard({ onNavigate }: { onNavigate: (tab: Tab) => void }) {
   // Calculate key metrics from context
   const avgVariableCost = costs.variableTotal;
   // Find the first paid tier (non-zero price) or first active tier
-  const paidTier = tiers.find(t => t.monthlyPriceMYR > 0 && t.status === 'active');
-  const targetPrice = paidTier?.monthlyPriceMYR ?? 0;
+  const paidTier = tiers.find(t => t.monthlyPrice > 0 && t.status === 'active');
+  const targetPrice = paidTier?.monthlyPrice ?? 0;
   const grossMargin = targetPrice > 0 ? ((targetPrice - avgVariableCost) / targetPrice) * 100 : 0;
 
   // Cost items count (variable + fixed)
@@ -437,7 +441,7 @@ function OverviewDashboard({ onNavigate }: { onNavigate: (tab: Tab) => void }) {
             id: 'tiers',
             label: 'Configure pricing tiers',
             description: 'Set prices and assign features to each tier',
-            isComplete: tiers.some(t => t.monthlyPriceMYR > 0),
+            isComplete: tiers.some(t => t.monthlyPrice > 0),
             action: () => onNavigate('tiers'),
           },
           {
@@ -462,7 +466,7 @@ function OverviewDashboard({ onNavigate }: { onNavigate: (tab: Tab) => void }) {
             </div>
           </div>
           <p className="text-xl sm:text-2xl font-semibold text-gray-900 mt-1.5 sm:mt-2 font-mono tracking-tight">
-            MYR {targetPrice}
+            {currency} {targetPrice}
           </p>
           <p className="text-[10px] sm:text-xs text-gray-500 mt-0.5 sm:mt-1 truncate">{paidTier?.name ?? 'No paid tier'} / month</p>
         </div>
@@ -502,7 +506,7 @@ function OverviewDashboard({ onNavigate }: { onNavigate: (tab: Tab) => void }) {
             </div>
           </div>
           <p className="text-xl sm:text-2xl font-semibold text-gray-900 mt-1.5 sm:mt-2 font-mono tracking-tight">
-            MYR {avgVariableCost.toFixed(2)}
+            {currency} {avgVariableCost.toFixed(2)}
           </p>
           <p className="text-[10px] sm:text-xs text-gray-500 mt-0.5 sm:mt-1 truncate">Variable cost / customer</p>
         </div>
@@ -591,14 +595,14 @@ function OverviewDashboard({ onNavigate }: { onNavigate: (tab: Tab) => void }) {
                   <div className="flex items-center gap-2 min-w-0">
                     <div className={`w-2 h-2 rounded-full flex-shrink-0 ${tier.status === 'active' ? 'bg-emerald-500' : 'bg-gray-300'}`} />
                     <span className="text-sm font-medium text-gray-900 truncate">{tier.name}</span>
-                    {tier.monthlyPriceMYR > 0 && tiers.filter(t => t.monthlyPriceMYR > 0 && t.status === 'active')[0]?.id === tier.id && (
+                    {tier.monthlyPrice > 0 && tiers.filter(t => t.monthlyPrice > 0 && t.status === 'active')[0]?.id === tier.id && (
                       <span className="text-[10px] bg-brand-subtle text-brand-primary px-1.5 py-0.5 rounded font-medium flex-shrink-0">
                         Entry
                       </span>
                     )}
                   </div>
                   <span className="text-sm font-mono text-gray-600 flex-shrink-0">
-                    {tier.monthlyPriceMYR === 0 ? 'Free' : `MYR ${tier.monthlyPriceMYR}`}
+                    {tier.monthlyPrice === 0 ? 'Free' : `${currency} ${tier.monthlyPrice}`}
                   </span>
                 </div>
               </div>
@@ -628,14 +632,14 @@ function OverviewDashboard({ onNavigate }: { onNavigate: (tab: Tab) => void }) {
           <div className="p-3 sm:p-4 bg-gray-50 rounded-lg border border-gray-200">
             <p className="text-xs sm:text-sm text-gray-500">Variable Costs</p>
             <p className="text-lg sm:text-xl font-semibold text-gray-900 font-mono mt-1">
-              MYR {costs.variableTotal.toFixed(2)}
+              {currency} {costs.variableTotal.toFixed(2)}
             </p>
             <p className="text-[10px] sm:text-xs text-gray-500 mt-0.5 sm:mt-1 truncate">Per customer / month</p>
           </div>
           <div className="p-3 sm:p-4 bg-gray-50 rounded-lg border border-gray-200">
             <p className="text-xs sm:text-sm text-gray-500">Fixed Costs</p>
             <p className="text-lg sm:text-xl font-semibold text-gray-900 font-mono mt-1">
-              MYR {costs.fixedTotal.toFixed(2)}
+              {currency} {costs.fixedTotal.toFixed(2)}
             </p>
             <p className="text-[10px] sm:text-xs text-gray-500 mt-0.5 sm:mt-1">Total monthly</p>
           </div>
@@ -0,0 +1,427 @@
+import { useMemo, useState } from 'react';
+import { Info, Trash, PencilSimple, ArrowsClockwise } from '@phosphor-icons/react';
+import {
+  calculateActualsVariance,
+  suggestUsageCalibration,
+  type ActualsPlanInput,
+  type MonthlyActuals,
+} from '@basedpricer/core';
+import { usePricing } from '../context/PricingContext';
+import { formatPrice } from '../utils/currency';
+
+interface ActualsDraft {
+  month: string;
+  customersByTier: Record<string, string>;
+  mrr: string;
+  costs: Record<string, string>;
+}
+
+function currentMonth(): string {
+  return new Date().toISOString().slice(0, 7);
+}
+
+function emptyDraft(month: string): ActualsDraft {
+  return { month, customersByTier: {}, mrr: '', costs: {} };
+}
+
+function toDraft(actuals: MonthlyActuals): ActualsDraft {
+  const toStrings = (values: Record<string, number>) =>
+    Object.fromEntries(Object.entries(values).map(([key, value]) => [key, String(value)]));
+  return {
+    month: actuals.month,
+    customersByTier: toStrings(actuals.customersByTier),
+    mrr: String(actuals.mrr),
+    costs: toStrings(actuals.costs),
+  };
+}
+
+/**
+ * Convert a draft to actuals, leaving out blank or invalid numbers
+ */
+function fromDraft(draft: ActualsDraft): MonthlyActuals {
+  const toNumbers = (values: Record<string, string>, integer: boolean) =>
+    Object.fromEntries(
+      Object.entries(values)
+        .filter(([, value]) => value.trim() !== '' && Number(value) >= 0)
+        .map(([key, value]) => [key, integer ? Math.round(Number(value)) : Number(value)])
+    );
+  return {
+    month: draft.month,
+    customersByTier: toNumbers(draft.customersByTier, true),
+    mrr: Math.max(0, Number(draft.mrr) || 0),
+    costs: toNumbers(draft.costs, false),
+  };
+}
+
+function formatVariance(value: number | null, suffix = ''): string {
+  if (value === null) return '—';
+  return `${value > 0 ? '+' : ''}${value.toFixed(suffix === '%' || suffix === ' pts' ? 1 : 2)}${suffix}`;
+}
+
+// Spending more than planned is bad; earning more or a higher margin is good
+function varianceColor(value: number | null, higherIsBetter: boolean): string {
+  if (value === null || Math.abs(value) < 0.005) return 'text-gray-500';
+  return (value > 0) === higherIsBetter ? 'text-emerald-600' : 'text-red-600';
+}
+
+export function ActualsTracker() {
+  const {
+    variableCosts,
+    fixedCosts,
+    tiers,
+    features,
+    customerCount,
+    selectedPrice,
+    utilizationRate,
+    tierDistribution,
+    actuals,
+    upsertMonthlyActuals,
+    removeMonthlyActuals,
+    updateVariableCost,
+    showToast,
+    currency,
+  } = usePricing();
+
+  const [draft, setDraft] = useState<ActualsDraft>(() => emptyDraft(currentMonth()));
+  const [selectedMonth, setSelectedMonth] = useState<string | null>(null);
+
+  const plan = useMemo<ActualsPlanInput>(() => ({
+    variableCosts,
+    fixedCosts,
+    tiers,
+    features,
+    customerCount,
+    selectedPrice,
+    utilizationRate,
+    tierDistribution,
+  }), [variableCosts, fixedCosts, tiers, features, customerCount, selectedPrice, utilizationRate, tierDistribution]);
+
+  const history = useMemo(
+    () => actuals.map(month => calculateActualsVariance(plan, month)),
+    [plan, actuals]
+  );
+  const calibration = useMemo(() => suggestUsageCalibration(plan, actuals), [plan, actuals]);
+
+  // Show the selected month, defaulting to the latest one recorded
+  const selected = history.find(v => v.month === selectedMonth) ?? history[history.length - 1];
+
+  const handleSave = () => {
+    if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(draft.month)) {
+      showToast('error', 'Choose a month to record');
+      return;
+    }
+    upsertMonthlyActuals(fromDraft(draft));
+    setSelectedMonth(draft.month);
+    showToast('success', `Actuals for ${draft.month} saved`);
+  };
+
+  const handleEdit = (month: string) => {
+    const existing = actuals.find(a => a.month === month);
+    if (existing) setDraft(toDraft(existing));
+  };
+
+  const handleApplyCalibration = (ids: string[]) => {
+    for (const suggestion of calibration) {
+      if (ids.includes(suggestion.variableCostId)) {
+        updateVariableCost(
+          suggestion.variableCostId,
+          'usagePerCustomer',
+          Number(suggestion.suggestedUsagePerCustomer.toPrecision(4))
+        );
+      }
+    }
+    showToast('success', `Updated usage for ${ids.length} cost item${ids.length === 1 ? '' : 's'}`);
+  };
+
+  const inputClass = 'w-full px-2.5 py-1.5 text-sm text-gray-900 border border-gray-200 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-[#253ff6]/20';
+
+  return (
+    <div className="min-h-[calc(100vh-64px)]">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-4 sm:mb-6">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-semibold text-gray-900">Actuals vs. Plan</h1>
+          <p className="text-gray-500 text-xs sm:text-sm mt-0.5 sm:mt-1">Record what really happened and check your assumptions.</p>
+        </div>
+      </div>
+
+      <div className="bg-blue-50 border border-blue-100 rounded-lg p-3 sm:p-4 mb-4 sm:mb-6">
+        <div className="flex items-start gap-2 sm:gap-3">
+          <Info size={16} className="text-blue-500 mt-0.5 flex-shrink-0 hidden sm:block" />
+          <p className="text-xs text-blue-700 leading-relaxed">
+            Each month, enter paying customers per tier, MRR and what each vendor actually billed. Variable costs are
+            compared with the plan at your <strong>actual</strong> customer count, so a variance means usage or unit
+            prices differ from your assumptions, not that you grew faster.
+          </p>
+        </div>
+      </div>
+
+      {/* Record a month */}
+      <div className="bg-white border border-gray-200 rounded-xl p-4 sm:p-5 mb-4 sm:mb-6">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3 mb-4">
+          <label className="text-xs text-gray-500">
+            Month
+            <input
+              type="month"
+              value={draft.month}
+              onChange={(e) => setDraft(emptyDraft(e.target.value))}
+              className={`mt-1 ${inputClass}`}
+            />
+          </label>
+          <label className="text-xs text-gray-500">
+            Actual MRR ({currency})
+            <input
+              type="number"
+              min={0}
+              value={draft.mrr}
+              onChange={(e) => setDraft(prev => ({ ...prev, mrr: e.target.value }))}
+              className={`mt-1 ${inputClass}`}
+            />
+          </label>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-5">
+          <div>
+            <p className="text-xs font-medium text-gray-700 mb-2">Paying customers per tier</p>
+            <div className="space-y-2">
+              {tiers.map(tier => (
+                <label key={tier.id} className="flex items-center justify-between gap-3 text-sm text-gray-700">
+                  <span className="truncate">{tier.name}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    placeholder={((customerCount * (tierDistribution[tier.id] ?? 0)) / 100).toFixed(0)}
+                    value={draft.customersByTier[tier.id] ?? ''}
+                    onChange={(e) => setDraft(prev => ({
+                      ...prev,
+                      customersByTier: { ...prev.customersByTier, [tier.id]: e.target.value },
+                    }))}
+                    className={`${inputClass} max-w-[8rem]`}
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+          <div>
+            <p className="text-xs font-medium text-gray-700 mb-2">Actual spend per cost item ({currency}, leave blank if unknown)</p>
+            <div className="space-y-2">
+              {[...variableCosts, ...fixedCosts].map(item => (
+                <label key={item.id} className="flex items-center justify-between gap-3 text-sm text-gray-700">
+                  <span className="truncate">{item.name}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={draft.costs[item.id] ?? ''}
+                    onChange={(e) => setDraft(prev => ({
+                      ...prev,
+                      costs: { ...prev.costs, [item.id]: e.target.value },
+                    }))}
+                    className={`${inputClass} max-w-[8rem]`}
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end mt-4">
+          <button
+            onClick={handleSave}
+            className="px-4 py-2 text-sm font-medium text-white bg-[#253ff6] hover:bg-[#1a2eb8] active:opacity-90 rounded-lg transition-colors touch-manipulation"
+          >
+            {actuals.some(a => a.month === draft.month) ? 'Update month' : 'Save month'}
+          </button>
+        </div>
+      </div>
+
+      {!selected ? (
+        <p className="text-sm text-gray-500 text-center py-8">No actuals recorded yet. Save your first month above.</p>
+      ) : (
+        <>
+          {/* Variance over time */}
+          <div className="bg-white border border-gray-200 rounded-xl p-4 sm:p-5 mb-4 sm:mb-6 overflow-x-auto">
+            <p className="text-sm font-medium text-gray-900 mb-3">Variance over time</p>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500 text-left">
+                  <th className="font-medium py-1.5">Month</th>
+                  <th className="font-medium py-1.5 text-right">Customers (plan / actual)</th>
+                  <th className="font-medium py-1.5 text-right">MRR variance</th>
+                  <th className="font-medium py-1.5 text-right">COGS variance</th>
+                  <th className="py-1.5" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {history.map(month => (
+                  <tr
+                    key={month.month}
+                    onClick={() => setSelectedMonth(month.month)}
+                    className={`cursor-pointer ${month.month === selected.month ? 'bg-gray-50' : 'hover:bg-gray-50'}`}
+                  >
+                    <td className="py-2 font-medium text-gray-900">{month.month}</td>
+                    <td className="py-2 text-right text-gray-700">{month.plannedCustomers} / {month.actualCustomers}</td>
+                    <td className={`py-2 text-right font-mono text-xs ${varianceColor(month.mrrVariance, true)}`}>
+                      {formatVariance(month.mrrVariance)}
+                    </td>
+                    <td className={`py-2 text-right font-mono text-xs ${varianceColor(month.cogsVariance, false)}`}>
+                      {formatVariance(month.cogsVariance)}
+                    </td>
+                    <td className="py-2 text-right whitespace-nowrap">
+                      <button
+                        onClick={(e) => { e.stopPropagation(); handleEdit(month.month); }}
+                        className="p-1 text-gray-400 hover:text-gray-600"
+                        aria-label={`Edit ${month.month}`}
+                      >
+                        <PencilSimple size={14} />
+                      </button>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); removeMonthlyActuals(month.month); }}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                        aria-label={`Delete ${month.month}`}
+                      >
+                        <Trash size={14} />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Selected month summary */}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4 sm:mb-6">
+            {[
+              { label: 'MRR', expected: selected.expectedMRR, actual: selected.actualMRR, variance: selected.mrrVariance, higherIsBetter: true },
+              { label: 'Monthly COGS', expected: selected.expectedCOGS, actual: selected.actualCOGS, variance: selected.cogsVariance, higherIsBetter: false },
+              {
+                label: 'Gross profit',
+                expected: selected.expectedMRR - selected.expectedCOGS,
+                actual: selected.actualMRR - selected.actualCOGS,
+                variance: selected.mrrVariance - selected.cogsVariance,
+                higherIsBetter: true,
+              },
+            ].map(card => (
+              <div key={card.label} className="bg-white border border-gray-200 rounded-xl p-4">
+                <p className="text-xs text-gray-500">{card.label} · {selected.month}</p>
+                <p className="text-lg font-semibold text-gray-900 mt-1">{formatPrice(card.actual, currency)}</p>
+                <p className="text-xs text-gray-500 mt-0.5">
+                  Plan {formatPrice(card.expected, currency)}{' '}
+                  <span className={varianceColor(card.variance, card.higherIsBetter)}>({formatVariance(card.variance)})</span>
+                </p>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6 mb-4 sm:mb-6">
+            {/* Cost variance */}
+            <div className="bg-white border border-gray-200 rounded-xl p-4 sm:p-5 overflow-x-auto">
+              <p className="text-sm font-medium text-gray-900 mb-3">Cost items · {selected.month}</p>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500 text-left">
+                    <th className="font-medium py-1.5">Item</th>
+                    <th className="font-medium py-1.5 text-right">Plan</th>
+                    <th className="font-medium py-1.5 text-right">Actual</th>
+                    <th className="font-medium py-1.5 text-right">Variance</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {selected.costs.map(line => (
+                    <tr key={line.id}>
+                      <td className="py-2 text-gray-900">
+                        {line.name}
+                        <span className="ml-1.5 text-[10px] text-gray-400">{line.costType}</span>
+                      </td>
+                      <td className="py-2 text-right font-mono text-xs text-gray-700">{line.expected.toFixed(2)}</td>
+                      <td className="py-2 text-right font-mono text-xs text-gray-700">{line.actual?.toFixed(2) ?? '—'}</td>
+                      <td className={`py-2 text-right font-mono text-xs ${varianceColor(line.variance, false)}`}>
+                        {formatVariance(line.variancePercent, '%')}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Tier margin variance */}
+            <div className="bg-white border border-gray-200 rounded-xl p-4 sm:p-5 overflow-x-auto">
+              <p className="text-sm font-medium text-gray-900 mb-3">Tier margins · {selected.month}</p>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500 text-left">
+                    <th className="font-medium py-1.5">Tier</th>
+                    <th className="font-medium py-1.5 text-right">Customers</th>
+                    <th className="font-medium py-1.5 text-right">Plan</th>
+                    <th className="font-medium py-1.5 text-right">Actual</th>
+                    <th className="font-medium py-1.5 text-right">Δ</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {selected.tiers.map(tier => (
+                    <tr key={tier.tierId}>
+                      <td className="py-2 text-gray-900">{tier.name}</td>
+                      <td className="py-2 text-right text-gray-700">{tier.plannedCustomers.toFixed(0)} / {tier.actualCustomers}</td>
+                      <td className="py-2 text-right font-mono text-xs text-gray-700">{tier.plannedMargin.toFixed(1)}%</td>
+                      <td className="py-2 text-right font-mono text-xs text-gray-700">{tier.actualMargin.toFixed(1)}%</td>
+                      <td className={`py-2 text-right font-mono text-xs ${varianceColor(tier.marginVariance, true)}`}>
+                        {formatVariance(tier.marginVariance, ' pts')}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Recalibration */}
+          <div className="bg-white border border-gray-200 rounded-xl p-4 sm:p-5">
+            <div className="flex items-center justify-between gap-3 mb-3">
+              <div>
+                <p className="text-sm font-medium text-gray-900">Recalibrate usage assumptions</p>
+                <p className="text-xs text-gray-500 mt-0.5">Usage per customer implied by recorded spend, averaged over all months.</p>
+              </div>
+              {calibration.length > 0 && (
+                <button
+                  onClick={() => handleApplyCalibration(calibration.map(s => s.variableCostId))}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-[#253ff6] bg-blue-50 hover:bg-blue-100 rounded-lg transition-colors"
+                >
+                  <ArrowsClockwise size={12} /> Apply all
+                </button>
+              )}
+            </div>
+            {calibration.length === 0 ? (
+              <p className="text-xs text-gray-400">Record spend for a variable cost to see suggestions.</p>
+            ) : (
+              <div className="divide-y divide-gray-100">
+                {calibration.map(suggestion => (
+                  <div key={suggestion.variableCostId} className="flex items-center justify-between gap-3 py-2 text-sm">
+                    <div className="min-w-0">
+                      <p className="text-gray-900 truncate">{suggestion.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {suggestion.currentUsagePerCustomer.toLocaleString(undefined, { maximumFractionDigits: 2 })} →{' '}
+                        {suggestion.suggestedUsagePerCustomer.toLocaleString(undefined, { maximumFractionDigits: 2 })} {suggestion.unit}/customer
+                        <span className="text-gray-400"> · {suggestion.months} month{suggestion.months === 1 ? '' : 's'}</span>
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <span className={`font-mono text-xs ${varianceColor(suggestion.changePercent, false)}`}>
+                        {formatVariance(suggestion.changePercent, '%')}
+                      </span>
+                      <button
+                        onClick={() => handleApplyCalibration([suggestion.variableCostId])}
+                        className="px-2.5 py-1 text-xs font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+                      >
+                        Apply
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,11 @@
 import { useState, useMemo } from 'react';
-import { Info, Plus, X, PencilSimple, Gauge, Warning, Lightbulb } from '@phosphor-icons/react';
+import { Info, Plus, X, PencilSimple, Gauge, Warning, Lightbulb, FileArrowUp } from '@phosphor-icons/react';
 import { generateId } from '@basedpricer/core';
 import { usePricing, type VariableCostItem, type FixedCostItem } from '../context/PricingContext';
 import { COST_PRESETS, type CostPresetKey } from '../data/cost-presets';
 import { getMarginStyle, calculateCOGSBreakdown } from '../utils/costCalculator';
+import type { CostLists } from '../utils/costImport';
+import { CostImportModal } from './costs';
 
 export function COGSCalculator() {
   const {
@@ -25,11 +27,20 @@ export function COGSCalculator() {
     setCustomerCount,
     setSelectedPrice,
     loadPreset,
+    currency,
   } = usePricing();
 
   const [selectedPresetKey, setSelectedPresetKey] = useState<CostPresetKey>('ai-saas');
   const [editingItem, setEditingItem] = useState<string | null>(null);
   const [showRealisticUsage, setShowRealisticUsage] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+
+  const existingCosts = useMemo(() => ({ variableCosts, fixedCosts }), [variableCosts, fixedCosts]);
+
+  const handleImportCosts = (imported: CostLists) => {
+    setVariableCosts(imported.variableCosts);
+    setFixedCosts(imported.fixedCosts);
+  };
 
   // Calculate realistic COGS with utilization applied
   const realisticCosts = useMemo(() => {
@@ -116,6 +127,12 @@ export function COGSCalculator() {
                     {preset.name}
                   </button>
                 ))}
+                <button
+                  onClick={() => setIsImportOpen(true)}
+                  className="text-xs px-2.5 py-1.5 rounded-lg transition-colors touch-manipulation bg-white text-blue-700 hover:bg-blue-100 active:bg-blue-200 border border-blue-200 flex items-center gap-1"
+                >
+                  <FileArrowUp size={12} /> Import bills (CSV/Excel)
+                </button>
               </div>
             </div>
           </div>
@@ -186,7 +203,7 @@ export function COGSCalculator() {
             )}
           </div>
           <p className="text-3xl sm:text-4xl lg:text-5xl font-semibold text-gray-900 tracking-tight">
-            MYR {displayCosts.totalCOGS.toFixed(2)}
+            {currency} {displayCosts.totalCOGS.toFixed(2)}
           </p>
 
           {/* Breakdown bar */}
@@ -208,12 +225,12 @@ export function COGSCalculator() {
               <div className="flex items-center gap-2">
                 <span className="w-2 h-2 rounded-full bg-[#253ff6]" />
                 <span className="text-gray-400">Variable</span>
-                <span className="font-medium text-gray-900">MYR {displayCosts.variableTotal.toFixed(2)}</span>
+                <span className="font-medium text-gray-900">{currency} {displayCosts.variableTotal.toFixed(2)}</span>
               </div>
               <div className="flex items-center gap-2">
                 <span className="w-2 h-2 rounded-full bg-[#253ff6]/30" />
                 <span className="text-gray-400">Fixed (÷{customerCount})</span>
-                <span className="font-medium text-gray-900">MYR {displayCosts.fixedPerCustomer.toFixed(2)}</span>
+                <span className="font-medium text-gray-900">{currency} {displayCosts.fixedPerCustomer.toFixed(2)}</span>
               </div>
             </div>
           </div>
@@ -221,7 +238,7 @@ export function COGSCalculator() {
 
         {/* Margin */}
         <div className={`rounded-lg p-4 sm:p-6 border ${marginStyle.bg} border-gray-200`}>
-          <p className="text-gray-500 text-xs sm:text-sm mb-2">Margin at MYR {selectedPrice}</p>
+          <p className="text-gray-500 text-xs sm:text-sm mb-2">Margin at {currency} {selectedPrice}</p>
           <p className={`text-3xl sm:text-4xl lg:text-5xl font-semibold tracking-tight ${marginStyle.text}`}>
             {displayMargin.toFixed(0)}%
           </p>
@@ -240,7 +257,7 @@ export function COGSCalculator() {
             </div>
           </div>
           <p className={`text-xs sm:text-sm mt-3 sm:mt-4 ${marginStyle.text}`}>
-            {displayProfit >= 0 ? '+' : ''}MYR {displayProfit.toFixed(2)} profit/customer
+            {displayProfit >= 0 ? '+' : ''}{currency} {displayProfit.toFixed(2)} profit/customer
           </p>
         </div>
       </div>
@@ -252,7 +269,7 @@ export function COGSCalculator() {
           <div>
             <p className="text-sm font-medium text-red-800">Cost exceeds price</p>
             <p className="text-xs text-red-600 mt-1">
-              Your cost per customer (MYR {displayCosts.totalCOGS.toFixed(2)}) is higher than your selected price point (MYR {selectedPrice}).
+              Your cost per customer ({currency} {displayCosts.totalCOGS.toFixed(2)}) is higher than your selected price point ({currency} {selectedPrice}).
               Consider reducing costs or increasing your price to maintain profitability.
             </p>
           </div>
@@ -353,7 +370,7 @@ export function COGSCalculator() {
                   </div>
                   <div className="flex justify-end pt-1 border-t border-gray-200">
                     <span className="text-sm font-semibold text-gray-900">
-                      = MYR {(item.costPerUnit * item.usagePerCustomer).toFixed(2)}
+                      = {currency} {(item.costPerUnit * item.usagePerCustomer).toFixed(2)}
                     </span>
                   </div>
                 </div>
@@ -430,7 +447,7 @@ export function COGSCalculator() {
                 Total variable
                 {showRealisticUsage && <span className="text-xs text-gray-500 ml-1">@ {(utilizationRate * 100).toFixed(0)}%</span>}
               </span>
-              <span className="text-sm font-semibold text-[#253ff6]">MYR {displayCosts.variableTotal.toFixed(2)}</span>
+              <span className="text-sm font-semibold text-[#253ff6]">{currency} {displayCosts.variableTotal.toFixed(2)}</span>
             </div>
           </div>
         </div>
@@ -494,7 +511,7 @@ export function COGSCalculator() {
 
             <div className="flex justify-between items-center mt-3 pt-2 border-t border-gray-100">
               <span className="text-xs text-gray-500">Total monthly</span>
-              <span className="text-sm font-medium text-gray-900">MYR {costs.fixedTotal.toFixed(2)}</span>
+              <span className="text-sm font-medium text-gray-900">{currency} {costs.fixedTotal.toFixed(2)}</span>
             </div>
 
             {/* Customer count */}
@@ -516,7 +533,7 @@ export function COGSCalculator() {
                 aria-valuenow={customerCount}
                 className="w-full h-2 bg-gray-100 rounded-full appearance-none cursor-pointer accent-[#253ff6] [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-5 [&::-webkit-slider-thumb]:h-5 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-[#253ff6] [&::-webkit-slider-thumb]:cursor-pointer [&::-webkit-slider-thumb]:shadow-md"
               />
-              <p className="text-[10px] text-gray-500 mt-1.5">Fixed ÷ customers = MYR {costs.fixedPerCustomer.toFixed(2)}/ea</p>
+              <p className="text-[10px] text-gray-500 mt-1.5">Fixed ÷ customers = {currency} {costs.fixedPerCustomer.toFixed(2)}/ea</p>
             </div>
           </div>
 
@@ -539,7 +556,7 @@ export function COGSCalculator() {
                   >
                     <div className="flex items-center gap-2">
                       <span className={`w-2 h-2 sm:w-1.5 sm:h-1.5 rounded-full ${isSelected ? 'bg-white' : style.dot}`} />
-                      <span className="font-mono text-sm">MYR {price}</span>
+                      <span className="font-mono text-sm">{currency} {price}</span>
                     </div>
                     <span className={`text-sm font-medium ${isSelected ? 'text-white' : style.text}`}>
                       {m.toFixed(0)}%
@@ -562,9 +579,18 @@ export function COGSCalculator() {
         </div>
         <div className="text-xs text-gray-500 mt-1.5 sm:mt-1">
           = {displayCosts.variableTotal.toFixed(2)} + ({displayCosts.fixedTotal.toFixed(0)} ÷ {customerCount}){' '}
-          = <strong className="text-gray-900">MYR {displayCosts.totalCOGS.toFixed(2)}</strong>
+          = <strong className="text-gray-900">{currency} {displayCosts.totalCOGS.toFixed(2)}</strong>
         </div>
       </div>
+
+      <CostImportModal
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        existing={existingCosts}
+        customerCount={customerCount}
+        currency={currency}
+        onImport={handleImportCosts}
+      />
     </div>
   );
 }
@@ -19,7 +19,13 @@ import {
   TrendUp,
   Lightning,
 } from '@phosphor-icons/react';
-import { generateId } from '@basedpricer/core';
+import {
+  convertAnalysisToProjectData,
+  getAIProviderDefinition,
+  isCustomProviderId,
+  type AIProviderId,
+  type ProjectFile,
+} from '@basedpricer/core';
 import {
   type AIProvider,
   PROVIDER_INFO,
@@ -30,8 +36,8 @@ import {
   saveGitHubToken,
   removeGitHubToken,
   maskAPIKey,
-  hasAnyAIKey,
 } from '../services/api-keys';
+import { getCustomProviders } from '../services/config-loader';
 import {
   parseGitHubUrl,
   checkRepoAccess,
@@ -44,17 +50,17 @@ import {
   quickAnalyzeFromPackageJson,
   type AnalysisResult,
 } from '../services/ai-analyzer';
-import { MODEL_DISPLAY_NAMES, PROVIDER_MODELS } from '../services/ai-client';
+import { MODEL_DISPLAY_NAMES, PROVIDER_MODELS, type ModelOption } from '../services/ai-client';
 import { usePricing } from '../context/PricingContext';
 import { useNavigation } from '../context/NavigationContext';
-import { ProviderLogo, GitHubLogo, PROVIDER_COLORS } from './ProviderLogos';
-import type { FeatureCategory } from '../data/features';
+import { ProviderLogo, GitHubLogo, getProviderColors } from './ProviderLogos';
 
 // Trust & transparency components
 import {
   DataFlowDisclosure,
   RepoAccessInfo,
   AnalysisProgressCard,
+  CustomProviderManager,
   type FetchProgress,
 } from './shared';
 
@@ -74,38 +80,28 @@ import { BUSINESS_TYPES } from '../data/business-types';
 
 type AnalysisStep = 'idle' | 'checking' | 'fetching' | 'analyzing' | 'done' | 'error';
 
-// Map AI-detected category strings to valid FeatureCategory
-function mapToFeatureCategory(category: string): FeatureCategory {
-  const categoryMap: Record<string, FeatureCategory> = {
-    'invoicing': 'invoicing',
-    'billing': 'invoicing',
-    'document': 'document_management',
-    'document_management': 'document_management',
-    'storage': 'document_management',
-    'ai': 'ai_extraction',
-    'ai_extraction': 'ai_extraction',
-    'extraction': 'ai_extraction',
-    'ocr': 'ai_extraction',
-    'accounting': 'accounting_ai',
-    'accounting_ai': 'accounting_ai',
-    'automation': 'accounting_ai',
-    'email': 'email',
-    'notification': 'email',
-    'payment': 'payments',
-    'payments': 'payments',
-    'team': 'team',
-    'user': 'team',
-    'access': 'team',
-    'reporting': 'reporting',
-    'analytics': 'reporting',
-    'integration': 'integrations',
-    'integrations': 'integrations',
-    'api': 'integrations',
-    'support': 'support',
-  };
-
-  const normalized = category.toLowerCase().replace(/[^a-z_]/g, '');
-  return categoryMap[normalized] || 'integrations'; // Default to integrations for unknown
+const BUILT_IN_PROVIDERS: AIProvider[] = ['openai', 'anthropic', 'openrouter', 'groq', 'minimax', 'glm'];
+
+/**
+ * Display name for a built-in or custom provider
+ */
+function getProviderName(provider: AIProviderId): string {
+  return isCustomProviderId(provider)
+    ? getAIProviderDefinition(provider)?.name ?? provider
+    : PROVIDER_INFO[provider].name;
+}
+
+/**
+ * Selectable models for a built-in or custom provider
+ */
+function getModelOptions(provider: AIProviderId): ModelOption[] {
+  if (!isCustomProviderId(provider)) {
+    return PROVIDER_MODELS[provider];
+  }
+  const definition = getAIProviderDefinition(provider);
+  return definition
+    ? Object.values(definition.models).map(model => ({ id: model.name, name: model.displayName }))
+    : [];
 }
 
 export function CodebaseAnalyzer() {
@@ -115,13 +111,14 @@ export function CodebaseAnalyzer() {
 
   // API keys state
   const [showKeySettings, setShowKeySettings] = useState(false);
-  const [selectedProvider, setSelectedProvider] = useState<AIProvider>('anthropic');
+  const [selectedProvider, setSelectedProvider] = useState<AIProviderId>('anthropic');
   const [selectedModel, setSelectedModel] = useState<string>(PROVIDER_MODELS.anthropic[0].id);
   const [newApiKey, setNewApiKey] = useState('');
   const [newGithubToken, setNewGithubToken] = useState('');
   const [showApiKey, setShowApiKey] = useState(false);
   const [showGithubToken, setShowGithubToken] = useState(false);
   const [keyError, setKeyError] = useState<string | null>(null);
+  const [customProviders, setCustomProviders] = useState(() => getCustomProviders());
 
   // Analysis state
   const [analysisStep, setAnalysisStep] = useState<AnalysisStep>('idle');
@@ -146,6 +143,7 @@ export function CodebaseAnalyzer() {
     applyBusinessTypeTemplate,
     setTiers,
     showToast,
+    currency,
   } = usePricing();
   const { navigateTo } = useNavigation();
 
@@ -155,16 +153,41 @@ export function CodebaseAnalyzer() {
   // Get stored keys status
   const storedKeys = getStoredKeys();
   const githubToken = getGitHubToken();
-  const hasAIKey = hasAnyAIKey();
 
-  // Find which provider has a key
-  const activeProvider = (['openai', 'anthropic', 'openrouter', 'groq', 'minimax', 'glm'] as AIProvider[]).find(
-    p => storedKeys.keys[p]
-  );
+  // Built-in providers need a stored key; custom providers may run without one
+  const isProviderReady = (provider: AIProviderId) => isCustomProviderId(provider)
+    ? customProviders.some(p => p.id === provider)
+    : !!storedKeys.keys[provider];
+
+  // Prefer the selected provider, then the first one that is ready
+  const activeProvider: AIProviderId | undefined = isProviderReady(selectedProvider)
+    ? selectedProvider
+    : [...BUILT_IN_PROVIDERS, ...customProviders.map(p => p.id as AIProviderId)].find(isProviderReady);
+  const hasAIKey = activeProvider !== undefined;
+
+  // The model picker applies only when the selected provider is the one in use
+  const activeModel = activeProvider === selectedProvider ? selectedModel : undefined;
+  const activeModelName = activeProvider
+    ? getModelOptions(activeProvider).find(m => m.id === activeModel)?.name ??
+      (isCustomProviderId(activeProvider)
+        ? getModelOptions(activeProvider).find(m => m.id === getAIProviderDefinition(activeProvider)?.defaultModel)?.name
+        : MODEL_DISPLAY_NAMES[activeProvider])
+    : undefined;
+
+  // Refresh custom providers after add/remove, falling back if the selected one is gone
+  const handleCustomProvidersChanged = useCallback(() => {
+    const providers = getCustomProviders();
+    setCustomProviders(providers);
+    if (isCustomProviderId(selectedProvider) && !providers.some(p => p.id === selectedProvider)) {
+      setSelectedProvider('anthropic');
+      setSelectedModel(PROVIDER_MODELS.anthropic[0].id);
+    }
+  }, [selectedProvider]);
 
   // Handle API key save
   const handleSaveAPIKey = useCallback(() => {
     setKeyError(null);
+    if (isCustomProviderId(selectedProvider)) return;
     const result = saveAPIKey(selectedProvider, newApiKey);
     if (result.success) {
       setNewApiKey('');
@@ -255,7 +278,8 @@ export function CodebaseAnalyzer() {
       const estimate = estimateAnalysisCost(
         payload.srcFiles.length,
         totalChars,
-        activeProvider ?? 'anthropic'
+        activeProvider ?? 'anthropic',
+        activeModel
       );
       setCostEstimate(estimate);
 
@@ -270,8 +294,10 @@ export function CodebaseAnalyzer() {
       setAnalysisStep('analyzing');
       const result = await analyzeCodebase(payload, {
         provider: activeProvider,
-        apiKey: activeProvider ? storedKeys.keys[activeProvider]?.key : undefined,
-        model: selectedModel,
+        apiKey: activeProvider && !isCustomProviderId(activeProvider)
+          ? storedKeys.keys[activeProvider]?.key
+          : undefined,
+        model: activeModel,
       });
       if (currentRequestRef.current !== requestId) return;
 
@@ -279,7 +305,8 @@ export function CodebaseAnalyzer() {
       if (result.tokenUsage) {
         const breakdown = calculateTokenCost(
           result.tokenUsage,
-          activeProvider ?? 'anthropic'
+          activeProvider ?? 'anthropic',
+          activeModel
         );
         setCostBreakdown(breakdown);
       }
@@ -313,45 +340,17 @@ export function CodebaseAnalyzer() {
       setAnalysisError(enhancedError);
       setAnalysisStep('error');
     }
-    // eslint-disable-next-line react-hooks/preserve-manual-memoization
-  }, [repoUrl, hasAIKey, activeProvider, selectedModel, storedKeys]);
+  }, [repoUrl, hasAIKey, activeProvider, activeModel, storedKeys]);
 
   // Apply analysis results to context
   const handleApplyResults = useCallback(() => {
     if (!analysisResult) return;
 
-    const variableCosts = analysisResult.costSuggestions
-      .filter(c => c.type === 'variable')
-      .map((c) => ({
-        id: generateId('var'),
-        name: c.name,
-        unit: c.unit,
-        costPerUnit: c.cost,
-        usagePerCustomer: c.usagePerCustomer ?? 1,
-        description: c.description,
-      }));
-
-    const fixedCosts = analysisResult.costSuggestions
-      .filter(c => c.type === 'fixed')
-      .map((c) => ({
-        id: generateId('fix'),
-        name: c.name,
-        monthlyCost: c.cost,
-        description: c.description,
-      }));
-
-    // Map AI-detected features to Feature format
-    const features = analysisResult.features.map((f) => ({
-      id: generateId('feat'),
-      name: f.name,
-      description: f.description,
-      category: mapToFeatureCategory(f.category),
-      complexity: 'medium' as const,
-      hasLimit: !!f.costDriver,
-      costDriver: f.costDriver,
-      valueProposition: f.description,
-      source: 'codebase' as const,
-    }));
+    const { variableCosts, fixedCosts, features, tiers } = convertAnalysisToProjectData(
+      analysisResult,
+      // Web currency codes are loosely typed; the code picker only offers CURRENCIES
+      currency as ProjectFile['currency']
+    );
 
     setVariableCosts(variableCosts);
     setFixedCosts(fixedCosts);
@@ -363,33 +362,14 @@ export function CodebaseAnalyzer() {
     }
 
     // Apply AI suggested tiers if available
-    if (analysisResult.suggestedTiers && analysisResult.suggestedTiers.length > 0) {
-      const USD_TO_MYR = 4.5;
-      const convertedTiers = analysisResult.suggestedTiers.map((st) => ({
-        id: generateId('tier'),
-        name: st.name,
-        tagline: st.description || `${st.name} tier`,
-        targetAudience: st.description || `Users looking for ${st.name.toLowerCase()} features`,
-        monthlyPriceMYR: Math.round(st.price * USD_TO_MYR),
-        annualPriceMYR: Math.round(st.price * USD_TO_MYR * 10), // ~17% annual discount
-        annualDiscount: 17,
-        status: 'active' as const,
-        limits: Object.entries(st.limits || {}).map(([key, value]) => ({
-          featureId: key,
-          limit: value,
-          unit: key,
-        })),
-        includedFeatures: st.features || [],
-        excludedFeatures: [],
-        highlightFeatures: (st.features || []).slice(0, 4),
-      }));
-      setTiers(convertedTiers);
+    if (tiers.length > 0) {
+      setTiers(tiers);
       // Tier display configs will be auto-initialized by PricingMockup's useEffect when tiers change
     }
 
     // Show success toast with summary
     const appliedCount = variableCosts.length + fixedCosts.length;
-    const tierCount = analysisResult.suggestedTiers?.length || 0;
+    const tierCount = tiers.length;
     showToast(
       'success',
       `Applied ${features.length} features, ${appliedCount} costs${tierCount > 0 ? `, and ${tierCount} pricing tiers` : ''}`
@@ -406,6 +386,7 @@ export function CodebaseAnalyzer() {
     setTiers,
     showToast,
     navigateTo,
+    currency,
   ]);
 
   // Apply business type template
@@ -499,16 +480,16 @@ export function CodebaseAnalyzer() {
             <div className="flex items-center gap-2 sm:gap-3 min-w-0">
               {hasAIKey && activeProvider ? (
                 <>
-                  <div className={`w-7 h-7 sm:w-8 sm:h-8 rounded-lg ${PROVIDER_COLORS[activeProvider].bg} flex items-center justify-center flex-shrink-0`}>
-                    <ProviderLogo provider={activeProvider} size={14} className={`${PROVIDER_COLORS[activeProvider].text} sm:hidden`} />
-                    <ProviderLogo provider={activeProvider} size={16} className={`${PROVIDER_COLORS[activeProvider].text} hidden sm:block`} />
+                  <div className={`w-7 h-7 sm:w-8 sm:h-8 rounded-lg ${getProviderColors(activeProvider).bg} flex items-center justify-center flex-shrink-0`}>
+                    <ProviderLogo provider={activeProvider} size={14} className={`${getProviderColors(activeProvider).text} sm:hidden`} />
+                    <ProviderLogo provider={activeProvider} size={16} className={`${getProviderColors(activeProvider).text} hidden sm:block`} />
                   </div>
                   <div className="min-w-0">
                     <p className="text-xs sm:text-sm font-medium text-gray-900 truncate">
-                      {PROVIDER_INFO[activeProvider].name}
+                      {getProviderName(activeProvider)}
                     </p>
                     <p className="text-[10px] sm:text-xs text-gray-500 truncate">
-                      Using {MODEL_DISPLAY_NAMES[activeProvider]}
+                      Using {activeModelName}
                     </p>
                   </div>
                 </>
@@ -585,10 +566,10 @@ export function CodebaseAnalyzer() {
                 AI Provider
               </label>
               <div className="flex gap-1.5 sm:gap-2 overflow-x-auto pb-2 -mx-4 px-4 sm:mx-0 sm:px-0 scrollbar-hide">
-                {(['openai', 'anthropic', 'openrouter', 'groq', 'minimax', 'glm'] as AIProvider[]).map((provider) => {
+                {BUILT_IN_PROVIDERS.map((provider) => {
                   const isSelected = selectedProvider === provider;
                   const hasKey = !!storedKeys.keys[provider];
-                  const colors = PROVIDER_COLORS[provider];
+                  const colors = getProviderColors(provider);
 
                   return (
                     <button
@@ -624,6 +605,35 @@ export function CodebaseAnalyzer() {
                     </button>
                   );
                 })}
+                {customProviders.map((provider) => {
+                  const providerId = provider.id as AIProviderId;
+                  const isSelected = selectedProvider === providerId;
+                  const colors = getProviderColors(providerId);
+
+                  return (
+                    <button
+                      key={provider.id}
+                      onClick={() => {
+                        setSelectedProvider(providerId);
+                        setSelectedModel(provider.defaultModel);
+                      }}
+                      className={`relative flex-shrink-0 flex items-center gap-1.5 sm:gap-2.5 px-2.5 sm:px-3 py-2 sm:py-2.5 rounded-lg border-2 transition-colors touch-manipulation active:scale-[0.98] ${
+                        isSelected
+                          ? `${colors.bg} ${colors.border}`
+                          : 'border-transparent bg-gray-50 hover:bg-gray-100 active:bg-gray-200'
+                      }`}
+                    >
+                      <ProviderLogo
+                        provider={providerId}
+                        size={16}
+                        className={isSelected ? colors.text : 'text-gray-500'}
+                      />
+                      <span className={`text-xs sm:text-sm font-medium whitespace-nowrap ${isSelected ? 'text-gray-900' : 'text-gray-600'}`}>
+                        {provider.name}
+                      </span>
+                    </button>
+                  );
+                })}
               </div>
 
               {/* Model Selector - minimal pill design */}
@@ -631,9 +641,9 @@ export function CodebaseAnalyzer() {
                 <div className="flex flex-col sm:flex-row sm:items-center gap-1.5 sm:gap-2">
                   <span className="text-[10px] sm:text-xs text-gray-400 uppercase tracking-wider">Model</span>
                   <div className="flex flex-wrap gap-1.5">
-                    {PROVIDER_MODELS[selectedProvider].map((model) => {
+                    {getModelOptions(selectedProvider).map((model) => {
                       const isSelected = selectedModel === model.id;
-                      const colors = PROVIDER_COLORS[selectedProvider];
+                      const colors = getProviderColors(selectedProvider);
                       return (
                         <button
                           key={model.id}
@@ -671,6 +681,11 @@ export function CodebaseAnalyzer() {
               </div>
 
               {/* API Key Input */}
+              {isCustomProviderId(selectedProvider) ? (
+                <p className="mt-3 sm:mt-4 text-xs text-gray-500">
+                  Endpoint and API key are managed under Custom Providers below.
+                </p>
+              ) : (
               <div className="mt-3 sm:mt-4">
                 {storedKeys.keys[selectedProvider] ? (
                   <div className="flex items-center gap-2 sm:gap-3 p-2.5 sm:p-3 bg-gray-50 rounded-lg">
@@ -722,6 +737,15 @@ export function CodebaseAnalyzer() {
                   <ArrowRight size={10} />
                 </a>
               </div>
+              )}
+
+              {/* Custom Providers */}
+              <div className="mt-4 sm:mt-6 pt-4 sm:pt-6 border-t border-gray-100">
+                <CustomProviderManager
+                  onProviderAdded={handleCustomProvidersChanged}
+                  onProviderRemoved={handleCustomProvidersChanged}
+                />
+              </div>
 
               {/* GitHub Token */}
               <div className="mt-4 sm:mt-6 pt-4 sm:pt-6 border-t border-gray-100">
@@ -802,7 +826,7 @@ export function CodebaseAnalyzer() {
           step={analysisStep}
           fetchProgress={fetchProgress ?? undefined}
           activeProvider={activeProvider ?? undefined}
-          modelName={activeProvider ? MODEL_DISPLAY_NAMES[activeProvider] : undefined}
+          modelName={activeModelName}
         />
       )}
 
@@ -1018,7 +1018,7 @@ const FAQPage = memo(function FAQPage() {
         {
           id: 'currencies',
           q: 'Does it support different currencies?',
-          a: 'Yes! You can set your preferred currency (USD, EUR, GBP, MYR, etc.) and all calculations will use that currency. If you serve customers in multiple currencies, you might want to run separate analyses for each market.'
+          a: 'Yes! Pick a base currency (any of 28 ISO 4217 currencies, from USD, EUR and MYR to JPY, INR and IDR) when you start, and every cost and price is stored and calculated in it. To move an existing project file to another currency, run `basedpricer currency <code>`. If you serve customers in multiple currencies, you might want to run separate analyses for each market.'
         },
         {
           id: 'enterprise',
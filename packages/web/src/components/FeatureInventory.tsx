@@ -18,13 +18,14 @@ import { generateId } from '@basedpricer/core';
 import { featureCategories, type FeatureCategory, type Feature } from '../data/features';
 import { usePricing, type VariableCostItem } from '../context/PricingContext';
 import { useDebouncedValue } from '../hooks/useDebounce';
+import { formatPrice } from '../utils/currency';
 import { SourceBadge, ConfirmationModal } from './shared';
 import { FeatureStatsGrid } from './features';
 
 type SourceFilter = 'all' | 'codebase' | 'manual';
 
 export function FeatureInventory() {
-  const { features, addFeature, updateFeature, removeFeature, variableCosts, showToast } = usePricing();
+  const { features, addFeature, updateFeature, removeFeature, variableCosts, currency, showToast } = usePricing();
 
   const [selectedCategory, setSelectedCategory] = useState<FeatureCategory | 'all'>('all');
   const [sourceFilter, setSourceFilter] = useState<SourceFilter>('all');
@@ -279,6 +280,7 @@ export function FeatureInventory() {
                     key={feature.id}
                     feature={feature}
                     variableCosts={variableCosts}
+                    currency={currency}
                     onEdit={() => setEditingFeature(feature)}
                     onDelete={() => handleDeleteFeature(feature.id)}
                   />
@@ -383,6 +385,7 @@ export function FeatureInventory() {
       {showAddModal && (
         <FeatureModal
           variableCosts={variableCosts}
+          currency={currency}
           onClose={() => setShowAddModal(false)}
           onSave={handleAddFeature}
         />
@@ -393,6 +396,7 @@ export function FeatureInventory() {
         <FeatureModal
           feature={editingFeature}
           variableCosts={variableCosts}
+          currency={currency}
           onClose={() => setEditingFeature(null)}
           onSave={(updates) => handleEditFeature(updates)}
         />
@@ -419,11 +423,13 @@ export function FeatureInventory() {
 function FeatureCard({
   feature,
   variableCosts,
+  currency,
   onEdit,
   onDelete,
 }: {
   feature: Feature;
   variableCosts: VariableCostItem[];
+  currency: string;
   onEdit: () => void;
   onDelete: () => void;
 }) {
@@ -470,7 +476,7 @@ function FeatureCard({
           {linkedCost ? (
             <span className="text-[10px] sm:text-xs bg-emerald-50 text-emerald-700 px-1.5 sm:px-2 py-0.5 rounded-[0.2rem] flex items-center gap-1">
               <CurrencyDollar size={12} weight="bold" />
-              MYR {linkedCost.costPerUnit.toFixed(3)}/{linkedCost.unit}
+              {formatPrice(linkedCost.costPerUnit, currency, { decimals: 3 })}/{linkedCost.unit}
             </span>
           ) : feature.costDriver ? (
             <span className="text-[10px] sm:text-xs bg-amber-50 text-amber-700 px-1.5 sm:px-2 py-0.5 rounded-[0.2rem]">
@@ -504,11 +510,13 @@ function FeatureCard({
 function FeatureModal({
   feature,
   variableCosts,
+  currency,
   onClose,
   onSave,
 }: {
   feature?: Feature;
   variableCosts: VariableCostItem[];
+  currency: string;
   onClose: () => void;
   onSave: (data: Omit<Feature, 'id' | 'source' | 'createdAt'>) => void;
 }) {
@@ -664,7 +672,7 @@ function FeatureModal({
               <optgroup label="Variable Costs">
                 {variableCosts.map(cost => (
                   <option key={cost.id} value={cost.id}>
-                    {cost.name} - MYR {cost.costPerUnit.toFixed(3)}/{cost.unit}
+                    {cost.name} - {formatPrice(cost.costPerUnit, currency, { decimals: 3 })}/{cost.unit}
                   </option>
                 ))}
               </optgroup>
@@ -676,7 +684,7 @@ function FeatureModal({
                   Linked to: {linkedCost.name}
                 </p>
                 <p className="text-[10px] sm:text-xs text-emerald-600 mt-0.5">
-                  MYR {linkedCost.costPerUnit.toFixed(3)} per {linkedCost.unit} × {linkedCost.usagePerCustomer} {linkedCost.unit}/customer
+                  {formatPrice(linkedCost.costPerUnit, currency, { decimals: 3 })} per {linkedCost.unit} × {linkedCost.usagePerCustomer} {linkedCost.unit}/customer
                 </p>
               </div>
             )}
@@ -1,8 +1,8 @@
 import { useState, useMemo, useCallback } from 'react';
 import { Gauge, ChartLineUp, Trophy, Rocket } from '@phosphor-icons/react';
-import { calculateTierVariableCosts } from '../data/tiers';
 import { usePricing } from '../context/PricingContext';
-import { deriveCostRatesFromVariableCosts } from '../utils/costRates';
+import { calculateSeatTierEconomics, type TierSeatEconomics } from '../utils/costCalculator';
+import { formatPrice } from '../utils/currency';
 import {
   calculateInvestorMetrics,
   formatCurrency,
@@ -13,15 +13,15 @@ import {
   PricingMetricsGrid,
   UnitEconomicsGrid,
   PriceSensitivityTable,
+  TornadoChart,
+  UncertaintyAnalysis,
+  ScenarioComparison,
   type Scenario,
 } from './pricing';
+import type { CurrencyCode } from '@basedpricer/core';
 import { MARGIN_THRESHOLDS } from '../constants';
-
-const scenarios: Scenario[] = [
-  { name: 'Early Stage', distribution: { freemium: 80, basic: 15, pro: 4, enterprise: 1 }, monthlyChurnRate: 5, conversionRate: 3 },
-  { name: 'Growth', distribution: { freemium: 70, basic: 20, pro: 8, enterprise: 2 }, monthlyChurnRate: 4, conversionRate: 5 },
-  { name: 'Mature', distribution: { freemium: 60, basic: 25, pro: 12, enterprise: 3 }, monthlyChurnRate: 3, conversionRate: 7 },
-];
+import { getSeatPriceLabel } from '../utils/features';
+import { DEFAULT_SCENARIOS } from '../data/scenarios';
 
 export function PricingCalculator() {
   // Get shared state from context
@@ -31,15 +31,17 @@ export function PricingCalculator() {
     utilizationRate,
     setUtilizationRate,
     variableCosts,
+    fixedCosts,
+    setVariableCosts,
+    setFixedCosts,
+    features,
+    scenarios,
+    saveScenario,
+    removeScenario,
     updateTier,
+    currency,
   } = usePricing();
 
-  // Derive cost rates from context's variableCosts (single source of truth)
-  // Uses centralized utility to ensure consistency across all components
-  const costRates = useMemo(() => {
-    return deriveCostRatesFromVariableCosts(variableCosts);
-  }, [variableCosts]);
-
   // Derive prices directly from context tiers (single source of truth)
   // No local state duplication - prices come from tiers context
   // Maps tier IDs to prices dynamically - works with any tier configuration
@@ -49,13 +51,13 @@ export function PricingCalculator() {
 
     // Override with actual tier prices from context
     tiers.forEach(tier => {
-      tierPrices[tier.id] = tier.monthlyPriceMYR;
+      tierPrices[tier.id] = tier.monthlyPrice;
     });
 
     return tierPrices;
   }, [tiers]);
 
-  const [scenario, setScenario] = useState<Scenario>(scenarios[0]);
+  const [scenario, setScenario] = useState<Scenario>(() => scenarios[0] ?? DEFAULT_SCENARIOS[0]);
   const [totalCustomers, setTotalCustomers] = useState(100);
   const [monthlyGrowthRate, setMonthlyGrowthRate] = useState(5); // Default 5% monthly growth
 
@@ -83,13 +85,31 @@ export function PricingCalculator() {
     enterprise: Math.round((normalizedDistribution.enterprise / 100) * totalCustomers),
   }), [normalizedDistribution, totalCustomers]);
 
+  // Revenue and variable costs per customer for each tier - using Map for O(1) lookup
+  // Seat-priced tiers scale price and per-seat limits by their average seats
+  const tierEconomicsMap = useMemo(() => {
+    const map = new Map<string, TierSeatEconomics>();
+    tiers.forEach(tier => {
+      map.set(tier.id, calculateSeatTierEconomics(tier, variableCosts, utilizationRate, features));
+    });
+    return map;
+  }, [tiers, variableCosts, utilizationRate, features]);
+
+  // Expected price per customer, including seats
+  const pricesPerCustomer = useMemo(() => ({
+    freemium: tierEconomicsMap.get('freemium')?.revenuePerCustomer ?? prices.freemium,
+    basic: tierEconomicsMap.get('basic')?.revenuePerCustomer ?? prices.basic,
+    pro: tierEconomicsMap.get('pro')?.revenuePerCustomer ?? prices.pro,
+    enterprise: tierEconomicsMap.get('enterprise')?.revenuePerCustomer ?? prices.enterprise,
+  }), [tierEconomicsMap, prices]);
+
   // Memoized revenue by tier
   const revenue = useMemo(() => ({
-    freemium: counts.freemium * prices.freemium,
-    basic: counts.basic * prices.basic,
-    pro: counts.pro * prices.pro,
-    enterprise: counts.enterprise * prices.enterprise,
-  }), [counts, prices]);
+    freemium: counts.freemium * pricesPerCustomer.freemium,
+    basic: counts.basic * pricesPerCustomer.basic,
+    pro: counts.pro * pricesPerCustomer.pro,
+    enterprise: counts.enterprise * pricesPerCustomer.enterprise,
+  }), [counts, pricesPerCustomer]);
 
   // Memoized revenue totals
   const totalMRR = useMemo(() =>
@@ -97,23 +117,14 @@ export function PricingCalculator() {
     [revenue]
   );
 
-  // Calculate variable costs with configurable utilization rate - using Map for O(1) lookup
-  // Now uses cost rates derived from context's variableCosts for consistency
-  const tierCostsMap = useMemo(() => {
-    const map = new Map<string, number>();
-    tiers.forEach(tier => {
-      map.set(tier.id, calculateTierVariableCosts(tier, utilizationRate, costRates).total);
-    });
-    return map;
-  }, [tiers, utilizationRate, costRates]);
-
   // Memoized variable costs by tier (total cost for all customers in each tier)
+  // Each tier limit is costed against the variable cost item it is linked to
   const tierVariableCosts = useMemo(() => ({
-    freemium: (tierCostsMap.get('freemium') ?? 0) * counts.freemium,
-    basic: (tierCostsMap.get('basic') ?? 0) * counts.basic,
-    pro: (tierCostsMap.get('pro') ?? 0) * counts.pro,
-    enterprise: (tierCostsMap.get('enterprise') ?? 0) * counts.enterprise,
-  }), [tierCostsMap, counts]);
+    freemium: (tierEconomicsMap.get('freemium')?.cogsPerCustomer ?? 0) * counts.freemium,
+    basic: (tierEconomicsMap.get('basic')?.cogsPerCustomer ?? 0) * counts.basic,
+    pro: (tierEconomicsMap.get('pro')?.cogsPerCustomer ?? 0) * counts.pro,
+    enterprise: (tierEconomicsMap.get('enterprise')?.cogsPerCustomer ?? 0) * counts.enterprise,
+  }), [tierEconomicsMap, counts]);
 
   // Memoized total costs
   const { totalVariableCosts, totalCosts } = useMemo(() => {
@@ -196,8 +207,9 @@ export function PricingCalculator() {
       breakEvenCustomers,
       monthlyGrowthRate: monthlyGrowthRate / 100, // Convert percentage to decimal
       ltv,
+      currency: currency as CurrencyCode,
     });
-  }, [totalMRR, paidCustomers, arpu, grossMargin, breakEvenCustomers, monthlyGrowthRate, ltv]);
+  }, [totalMRR, paidCustomers, arpu, grossMargin, breakEvenCustomers, monthlyGrowthRate, ltv, currency]);
 
   // Dynamic price sensitivity points based on current basic price
   const priceSensitivityPoints = useMemo(() => {
@@ -225,7 +237,7 @@ export function PricingCalculator() {
     // Find the tier and update its price in context
     const tierToUpdate = tiers.find(t => t.id === tierId);
     if (tierToUpdate) {
-      updateTier(tierId, { monthlyPriceMYR: Math.max(0, value) });
+      updateTier(tierId, { monthlyPrice: Math.max(0, value) });
     }
   }, [tiers, updateTier]);
 
@@ -234,6 +246,50 @@ export function PricingCalculator() {
     setScenario(prev => ({ ...prev, [field]: value }));
   }, []);
 
+  // Apply a saved scenario, including its customer count and tier prices when saved with them
+  const handleSelectScenario = useCallback((selected: Scenario) => {
+    setScenario(selected);
+    if (selected.customerCount !== undefined) {
+      setTotalCustomers(selected.customerCount);
+    }
+    Object.entries(selected.prices ?? {}).forEach(([tierId, price]) => {
+      if (tiers.some(t => t.id === tierId)) {
+        updateTier(tierId, { monthlyPrice: price });
+      }
+    });
+  }, [tiers, updateTier]);
+
+  // Save the current inputs, including customer count and tier prices, under a scenario name
+  const handleSaveScenario = useCallback((name: string) => {
+    const saved: Scenario = {
+      ...scenario,
+      name,
+      customerCount: totalCustomers >= 1 ? Math.round(totalCustomers) : undefined,
+      prices: Object.fromEntries(tiers.map(t => [t.id, t.monthlyPrice])),
+    };
+    saveScenario(saved);
+    setScenario(saved);
+  }, [scenario, totalCustomers, tiers, saveScenario]);
+
+  const handleDeleteScenario = useCallback((name: string) => {
+    const next = scenarios.find(s => s.name !== name);
+    removeScenario(name);
+    if (next) handleSelectScenario(next);
+  }, [scenarios, removeScenario, handleSelectScenario]);
+
+  // Whether the inputs differ from the saved copy of the selected scenario
+  const isScenarioModified = useMemo(() => {
+    const saved = scenarios.find(s => s.name === scenario.name);
+    if (!saved) return true;
+    const pricesChanged = Object.entries(saved.prices ?? {}).some(([tierId, price]) => prices[tierId] !== price);
+    return JSON.stringify(saved.distribution) !== JSON.stringify(scenario.distribution)
+      || saved.monthlyChurnRate !== scenario.monthlyChurnRate
+      || saved.conversionRate !== scenario.conversionRate
+      || saved.cac !== scenario.cac
+      || (saved.customerCount !== undefined && saved.customerCount !== totalCustomers)
+      || pricesChanged;
+  }, [scenarios, scenario, totalCustomers, prices]);
+
   const distributionTotal = useMemo(() =>
     Object.values(scenario.distribution).reduce((a, b) => a + b, 0),
     [scenario.distribution]
@@ -260,6 +316,20 @@ export function PricingCalculator() {
     [priceSensitivityPoints, revenue, counts.basic, totalVariableCosts, totalCosts, prices.basic]
   );
 
+  // Baseline inputs for the tornado analysis; new signups follow the growth rate
+  const tornadoParams = useMemo(() => ({
+    variableCosts,
+    fixedCosts,
+    tiers,
+    features,
+    customerCount: totalCustomers,
+    utilizationRate,
+    tierDistribution: scenario.distribution,
+    monthlyChurnRate: scenario.monthlyChurnRate,
+    conversionRate: scenario.conversionRate,
+    monthlySignups: totalCustomers * (monthlyGrowthRate / 100),
+  }), [variableCosts, fixedCosts, tiers, features, totalCustomers, utilizationRate, scenario, monthlyGrowthRate]);
+
   return (
     <div className="space-y-6">
       {/* Header with Scenario Selector */}
@@ -271,7 +341,10 @@ export function PricingCalculator() {
         <ScenarioSelector
           scenarios={scenarios}
           selectedScenario={scenario}
-          onSelect={setScenario}
+          onSelect={handleSelectScenario}
+          isModified={isScenarioModified}
+          onSave={handleSaveScenario}
+          onDelete={handleDeleteScenario}
         />
       </div>
 
@@ -281,17 +354,19 @@ export function PricingCalculator() {
         grossMargin={grossMargin}
         operatingMargin={operatingMargin}
         arpu={arpu}
+        currency={currency}
       />
 
       {/* Configuration */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
         {/* Pricing */}
         <div className="card p-4 sm:p-6">
-          <h3 className="font-medium text-gray-900 mb-3 sm:mb-4 text-sm sm:text-base">Tier Pricing (MYR/month)</h3>
+          <h3 className="font-medium text-gray-900 mb-3 sm:mb-4 text-sm sm:text-base">Tier Pricing ({currency}/month)</h3>
           <div className="space-y-3 sm:space-y-4">
             {(['freemium', 'basic', 'pro', 'enterprise'] as const).map((tier) => {
               const tierDef = tiers.find(t => t.id === tier);
-              const isFromData = tierDef && tierDef.monthlyPriceMYR > 0;
+              const isFromData = tierDef && (tierDef.monthlyPrice > 0 || tierDef.seatPricing);
+              const seatLabel = tierDef ? getSeatPriceLabel(tierDef, currency) : null;
               return (
                 <div key={tier} className="flex items-center gap-2 sm:gap-4">
                   <label className="w-20 sm:w-24 text-xs sm:text-sm font-medium text-gray-700 capitalize">{tier === 'freemium' ? 'Free' : tier}</label>
@@ -303,6 +378,7 @@ export function PricingCalculator() {
                     disabled={tier === 'freemium'}
                     className={`input-field flex-1 text-sm touch-manipulation ${tier === 'freemium' ? 'bg-gray-100 text-gray-400' : ''}`}
                   />
+                  {seatLabel && <span className="text-xs text-gray-500 whitespace-nowrap">{seatLabel}</span>}
                   {tier === 'basic' && <span className="text-xs text-[#253ff6] font-medium hidden sm:inline">Entry</span>}
                   {!isFromData && tier !== 'freemium' && (
                     <span className="text-xs text-amber-600 hidden sm:inline">Set price</span>
@@ -359,7 +435,7 @@ export function PricingCalculator() {
       {/* Assumptions */}
       <div className="card p-4 sm:p-6">
         <h3 className="font-medium text-gray-900 mb-3 sm:mb-4 text-sm sm:text-base">Assumptions</h3>
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4 sm:gap-6">
           <div>
             <label className="text-xs sm:text-sm text-gray-600 flex items-center gap-2" title="Average percentage of plan limits that customers actually use. Lower usage = lower variable costs.">
               <Gauge size={16} weight="duotone" className="text-gray-400" />
@@ -419,7 +495,7 @@ export function PricingCalculator() {
             <p className="text-xs text-gray-500 mt-1">
               ~{Math.round(monthlyConversions)}/mo
               {projectedMrrGrowth > 0 && (
-                <span className="text-emerald-600 block sm:inline"> +MYR {projectedMrrGrowth.toFixed(0)}</span>
+                <span className="text-emerald-600 block sm:inline"> +{formatPrice(projectedMrrGrowth, currency, { decimals: 0 })}</span>
               )}
             </p>
           </div>
@@ -444,6 +520,27 @@ export function PricingCalculator() {
               = {((Math.pow(1 + monthlyGrowthRate/100, 12) - 1) * 100).toFixed(0)}% annual
             </p>
           </div>
+          <div>
+            <label className="text-xs sm:text-sm text-gray-600">Acquisition Cost (CAC)</label>
+            <div className="flex items-center gap-2 sm:gap-3 mt-2">
+              <input
+                type="number"
+                min="0"
+                step="1"
+                value={scenario.cac ?? ''}
+                placeholder="—"
+                onChange={(e) => {
+                  const value = e.target.value;
+                  setScenario(prev => ({ ...prev, cac: value === '' ? undefined : Math.max(0, Number(value)) }));
+                }}
+                className="input-field w-16 sm:w-20 text-center text-sm touch-manipulation"
+              />
+              <span className="text-xs sm:text-sm text-gray-500">{currency}</span>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              {scenario.cac ? `LTV:CAC ${(ltv / scenario.cac).toFixed(1)}:1` : 'Set to compare LTV:CAC'}
+            </p>
+          </div>
         </div>
       </div>
 
@@ -458,7 +555,7 @@ export function PricingCalculator() {
                 <div key={tier}>
                   <div className="flex justify-between text-xs sm:text-sm mb-1">
                     <span className="font-medium text-gray-700 capitalize">{tier}</span>
-                    <span className="font-mono text-gray-600">MYR {revenue[tier].toLocaleString()}</span>
+                    <span className="font-mono text-gray-600">{formatPrice(revenue[tier], currency)}</span>
                   </div>
                   <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
                     <div
@@ -472,7 +569,7 @@ export function PricingCalculator() {
                     />
                   </div>
                   <p className="text-xs text-gray-500 mt-1">
-                    {counts[tier]} × MYR {prices[tier]} = {pct.toFixed(1)}%
+                    {counts[tier]} × {formatPrice(pricesPerCustomer[tier], currency)} = {pct.toFixed(1)}%
                   </p>
                 </div>
               );
@@ -488,29 +585,29 @@ export function PricingCalculator() {
                 <p className="text-xs sm:text-sm font-medium text-gray-700">Variable Costs</p>
                 <p className="text-xs text-gray-500 truncate">AI, Storage @ {(utilizationRate * 100).toFixed(0)}%</p>
               </div>
-              <span className="font-mono text-xs sm:text-sm text-gray-600 ml-2 shrink-0">MYR {totalVariableCosts.toFixed(2)}</span>
+              <span className="font-mono text-xs sm:text-sm text-gray-600 ml-2 shrink-0">{formatPrice(totalVariableCosts, currency)}</span>
             </div>
             <div className="flex justify-between items-start py-2 sm:py-2.5 border-b border-[#e4e4e4]">
               <div className="min-w-0 flex-1">
                 <p className="text-xs sm:text-sm font-medium text-gray-700">Fixed Costs</p>
                 <p className="text-xs text-gray-500">Infrastructure</p>
               </div>
-              <span className="font-mono text-xs sm:text-sm text-gray-600 ml-2 shrink-0">MYR {monthlyFixedCostsTotal.toFixed(2)}</span>
+              <span className="font-mono text-xs sm:text-sm text-gray-600 ml-2 shrink-0">{formatPrice(monthlyFixedCostsTotal, currency)}</span>
             </div>
             <div className="flex justify-between py-2.5 sm:py-3 bg-gray-50 rounded-[0.2rem] px-3 sm:px-4 -mx-1 sm:-mx-2">
               <span className="font-medium text-gray-900 text-xs sm:text-sm">Total Costs</span>
-              <span className="font-semibold text-gray-700 font-mono text-xs sm:text-sm">MYR {totalCosts.toFixed(2)}</span>
+              <span className="font-semibold text-gray-700 font-mono text-xs sm:text-sm">{formatPrice(totalCosts, currency)}</span>
             </div>
             <div className="flex justify-between py-2.5 sm:py-3 bg-emerald-50 rounded-[0.2rem] px-3 sm:px-4 -mx-1 sm:-mx-2">
               <span className="font-medium text-gray-900 text-xs sm:text-sm">Gross Profit</span>
               <span className={`font-semibold font-mono text-xs sm:text-sm ${grossProfit >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
-                MYR {grossProfit.toFixed(2)}
+                {formatPrice(grossProfit, currency)}
               </span>
             </div>
             <div className={`flex justify-between py-2.5 sm:py-3 rounded-[0.2rem] px-3 sm:px-4 -mx-1 sm:-mx-2 ${operatingProfit >= 0 ? 'bg-emerald-50' : 'bg-red-50'}`}>
               <span className="font-medium text-gray-900 text-xs sm:text-sm">Operating Profit</span>
               <span className={`font-semibold font-mono text-xs sm:text-sm ${operatingProfit >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
-                MYR {operatingProfit.toFixed(2)}
+                {formatPrice(operatingProfit, currency)}
               </span>
             </div>
           </div>
@@ -527,6 +624,19 @@ export function PricingCalculator() {
         freemiumCosts={freemiumCosts}
         freemiumCostPerUser={freemiumCostPerUser}
         fixedCosts={monthlyFixedCostsTotal}
+        currency={currency}
+      />
+
+      {/* Scenario Comparison */}
+      <ScenarioComparison
+        scenarios={scenarios}
+        tiers={tiers}
+        features={features}
+        variableCosts={variableCosts}
+        fixedCosts={fixedCosts}
+        utilizationRate={utilizationRate}
+        customerCount={totalCustomers}
+        currency={currency}
       />
 
       {/* Freemium Conversion Pipeline */}
@@ -550,21 +660,21 @@ export function PricingCalculator() {
             <div className="p-3 sm:p-4 bg-emerald-50 rounded-[0.2rem] border border-emerald-200">
               <p className="text-xs sm:text-sm text-emerald-600 font-medium">MRR Growth</p>
               <p className="text-xl sm:text-2xl font-bold text-emerald-700 font-mono mt-1">
-                +MYR {projectedMrrGrowth.toFixed(0)}
+                +{formatPrice(projectedMrrGrowth, currency, { decimals: 0 })}
               </p>
               <p className="text-xs text-emerald-500 mt-1 hidden sm:block">From conversions × ARPU</p>
             </div>
             <div className="p-3 sm:p-4 bg-white rounded-[0.2rem] border border-emerald-200">
               <p className="text-xs sm:text-sm text-gray-500">Annual Impact</p>
               <p className="text-xl sm:text-2xl font-bold text-gray-900 font-mono mt-1">
-                +MYR {(projectedMrrGrowth * 12).toFixed(0)}
+                +{formatPrice(projectedMrrGrowth * 12, currency, { decimals: 0 })}
               </p>
               <p className="text-xs text-gray-500 mt-1 hidden sm:block">Projected ARR increase</p>
             </div>
           </div>
           <p className="text-xs text-gray-500 mt-3 sm:mt-4 flex items-start sm:items-center gap-1">
             <span className="w-1.5 h-1.5 rounded-full bg-emerald-400 mt-1 sm:mt-0 shrink-0" />
-            <span className="leading-relaxed">{counts.freemium.toLocaleString()} freemium users @ {scenario.conversionRate}% monthly, ARPU MYR {arpu.toFixed(0)}</span>
+            <span className="leading-relaxed">{counts.freemium.toLocaleString()} freemium users @ {scenario.conversionRate}% monthly, ARPU {formatPrice(arpu, currency, { decimals: 0 })}</span>
           </p>
         </div>
       )}
@@ -581,7 +691,7 @@ export function PricingCalculator() {
           <div className="p-3 sm:p-4 bg-white rounded-[0.2rem] border border-violet-200">
             <p className="text-xs sm:text-sm text-gray-500">Current ARR</p>
             <p className="text-lg sm:text-2xl font-bold text-gray-900 font-mono mt-1">
-              {formatCurrency(investorMetrics.arr)}
+              {formatCurrency(investorMetrics.arr, currency)}
             </p>
             <p className="text-xs text-gray-500 mt-1 hidden sm:block">MRR × 12</p>
           </div>
@@ -589,11 +699,11 @@ export function PricingCalculator() {
             <p className="text-xs sm:text-sm text-violet-600 font-medium">Valuation Range</p>
             <div className="flex flex-col sm:flex-row sm:items-baseline gap-1 sm:gap-2 mt-1">
               <span className="text-base sm:text-xl font-bold text-violet-700 font-mono">
-                {formatCurrency(investorMetrics.valuation.valuationLow)}
+                {formatCurrency(investorMetrics.valuation.valuationLow, currency)}
               </span>
               <span className="text-gray-400 hidden sm:inline">to</span>
               <span className="text-base sm:text-xl font-bold text-violet-700 font-mono">
-                <span className="sm:hidden">- </span>{formatCurrency(investorMetrics.valuation.valuationHigh)}
+                <span className="sm:hidden">- </span>{formatCurrency(investorMetrics.valuation.valuationHigh, currency)}
               </span>
             </div>
             <p className="text-xs text-violet-500 mt-1 hidden sm:block">5× to 15× ARR (industry standard)</p>
@@ -695,7 +805,22 @@ export function PricingCalculator() {
       </div>
 
       {/* Price Sensitivity */}
-      <PriceSensitivityTable data={priceSensitivityData} />
+      <PriceSensitivityTable data={priceSensitivityData} currency={currency} />
+
+      {/* Tornado Sensitivity */}
+      <TornadoChart params={tornadoParams} currency={currency} />
+
+      {/* Uncertainty */}
+      <UncertaintyAnalysis
+        variableCosts={variableCosts}
+        fixedCosts={fixedCosts}
+        price={metrics.arpu}
+        customerCount={metrics.paidCustomers}
+        utilizationRate={utilizationRate}
+        currency={currency}
+        onVariableCostsChange={setVariableCosts}
+        onFixedCostsChange={setFixedCosts}
+      />
     </div>
   );
 }
@@ -5,12 +5,21 @@ import {
   ListBullets, CaretDown, CaretRight, Eye, EyeSlash,
   ArrowLeft, Star, Crown, Copy, Check
 } from '@phosphor-icons/react';
+import {
+  calculateMarketPricing,
+  getExchangeRate,
+  getPriceExcludingTax,
+  getPriceIncludingTax,
+  type PriceBook,
+} from '@basedpricer/core';
 import { featureCategories } from '../data/features';
-import { PricingCard, FeatureComparisonTable } from './pricing';
+import type { Tier } from '../data/tiers';
+import { PricingCard, FeatureComparisonTable, PriceBookPanel, ExchangeRatePanel, SalesTaxPanel } from './pricing';
 import type { BillingCycle, EditTab } from './pricing';
 import { BillingCycleToggle, Toggle, SearchInput } from './shared';
 import { getFeatureName, getFeatureLimit, calculateDiscount } from '../utils/features';
-import { DISCOUNT_PRESETS } from '../constants';
+import { describeExchangeRates } from '../utils/currency';
+import { CURRENCIES, DISCOUNT_PRESETS } from '../constants';
 import { usePricing, type TierDisplayConfig } from '../context/PricingContext';
 import { useNavigation } from '../context/NavigationContext';
 
@@ -22,6 +31,17 @@ export function PricingMockup() {
     tierDisplayConfigs,
     setTierDisplayConfig,
     initializeTierDisplayConfigs,
+    currency,
+    variableCosts,
+    utilizationRate,
+    priceBooks,
+    savePriceBook,
+    removePriceBook,
+    tax,
+    setTax,
+    exchangeRates,
+    refreshExchangeRates,
+    setManualExchangeRates,
   } = usePricing();
   const { previousTab, navigateTo } = useNavigation();
 
@@ -33,6 +53,10 @@ export function PricingMockup() {
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(new Set());
   const [ctaClicked, setCtaClicked] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
+  // Market currency being previewed; null shows the project currency
+  const [market, setMarket] = useState<string | null>(null);
+  // Show previewed prices with sales tax included or excluded
+  const [showTaxInclusive, setShowTaxInclusive] = useState(true);
 
   // Initialize tier display configs if tiers exist but configs don't
   useEffect(() => {
@@ -54,16 +78,16 @@ export function PricingMockup() {
     const tier = tiers.find(t => t.id === tierId);
     const tierIndex = tiers.findIndex(t => t.id === tierId);
     if (tier) {
-      const isFirstPaidTier = tier.monthlyPriceMYR > 0 && tierIndex <= 1;
+      const isFirstPaidTier = tier.monthlyPrice > 0 && tierIndex <= 1;
       return {
         highlighted: isFirstPaidTier,
         highlightedFeatures: [...tier.highlightFeatures],
-        ctaText: tier.monthlyPriceMYR === 0 ? 'Get Started Free'
+        ctaText: tier.monthlyPrice === 0 ? 'Get Started Free'
           : isFirstPaidTier ? 'Start Free Trial'
           : 'Contact Sales',
-        ctaStyle: isFirstPaidTier ? 'primary' : tier.monthlyPriceMYR === 0 ? 'outline' : 'secondary',
-        monthlyPrice: tier.monthlyPriceMYR,
-        annualPrice: tier.annualPriceMYR,
+        ctaStyle: isFirstPaidTier ? 'primary' : tier.monthlyPrice === 0 ? 'outline' : 'secondary',
+        monthlyPrice: tier.monthlyPrice,
+        annualPrice: tier.annualPrice,
         tagline: tier.tagline,
         badgeText: 'Most Popular',
         showLimits: true,
@@ -127,10 +151,10 @@ export function PricingMockup() {
       // Reset to defaults from tier, but keep highlighted status
       updateTierConfig(tierId, {
         highlightedFeatures: [...tier.highlightFeatures],
-        ctaText: tier.monthlyPriceMYR === 0 ? 'Get Started Free' : 'Start Free Trial',
-        ctaStyle: tier.monthlyPriceMYR === 0 ? 'outline' : 'primary',
-        monthlyPrice: tier.monthlyPriceMYR,
-        annualPrice: tier.annualPriceMYR,
+        ctaText: tier.monthlyPrice === 0 ? 'Get Started Free' : 'Start Free Trial',
+        ctaStyle: tier.monthlyPrice === 0 ? 'outline' : 'primary',
+        monthlyPrice: tier.monthlyPrice,
+        annualPrice: tier.annualPrice,
         tagline: tier.tagline,
         badgeText: 'Most Popular',
         showLimits: true,
@@ -192,6 +216,69 @@ export function PricingMockup() {
       : 17;
   }, [visibleTiers, getTierConfig]);
 
+  const priceBook = priceBooks.find(book => book.currency === market) ?? null;
+  const marketPricing = useMemo(
+    () => priceBook
+      ? calculateMarketPricing({
+          book: priceBook,
+          // Web currency codes are loosely typed; the code picker only offers CURRENCIES
+          baseCurrency: currency as PriceBook['currency'],
+          tiers,
+          features,
+          variableCosts,
+          utilizationRate,
+          rate: getExchangeRate(exchangeRates, currency as PriceBook['currency'], priceBook.currency),
+        })
+      : null,
+    [priceBook, currency, tiers, features, variableCosts, utilizationRate, exchangeRates]
+  );
+  const previewCurrency = priceBook?.currency ?? currency;
+  const previewTax = priceBook ? priceBook.tax : tax;
+  const availableMarkets = Object.keys(CURRENCIES)
+    .filter(code => code !== currency && !priceBooks.some(book => book.currency === code));
+
+  const withTaxDisplay = (price: number) => showTaxInclusive
+    ? getPriceIncludingTax(price, previewTax)
+    : getPriceExcludingTax(price, previewTax);
+
+  // Display config with prices from the previewed market's price book,
+  // shown with or without its sales tax
+  const getPreviewConfig = (tierId: string): TierDisplayConfig => {
+    const config = getTierConfig(tierId);
+    const marketTier = marketPricing?.tiers.find(tier => tier.tierId === tierId);
+    const monthlyPrice = marketTier ? marketTier.price : config.monthlyPrice;
+    const annualPrice = marketTier ? marketTier.annualPrice ?? marketTier.price * 12 : config.annualPrice;
+    if (!marketTier && !previewTax) return config;
+    return {
+      ...config,
+      monthlyPrice: withTaxDisplay(monthlyPrice),
+      annualPrice: withTaxDisplay(annualPrice),
+    };
+  };
+
+  // Tier with overage prices from the previewed market's price book
+  const getPreviewTier = (tier: Tier): Tier => {
+    const marketTier = marketPricing?.tiers.find(t => t.tierId === tier.id);
+    if (!marketTier) return tier;
+    return {
+      ...tier,
+      limits: tier.limits.map(limit => limit.featureId in marketTier.overagePrices
+        ? { ...limit, overagePrice: marketTier.overagePrices[limit.featureId] }
+        : limit),
+    };
+  };
+
+  const addMarket = (code: string) => {
+    savePriceBook({
+      currency: code as PriceBook['currency'],
+      // Currencies without minor units (JPY, KRW, ...) can't end in .99
+      rounding: CURRENCIES[code].decimalPlaces === 0 ? 'whole' : 'ninety_nine',
+      purchasingPower: 1,
+      overrides: {},
+    });
+    setMarket(code);
+  };
+
   const handleCtaClick = (tierId: string) => {
     setCtaClicked(tierId);
     setTimeout(() => setCtaClicked(null), 1500);
@@ -211,7 +298,7 @@ export function PricingMockup() {
 
   const generatePricingHTML = () => {
     const tiersHtml = visibleTiers.map(tier => {
-      const config = getTierConfig(tier.id);
+      const config = getPreviewConfig(tier.id);
       const price = billingCycle === 'monthly' ? config.monthlyPrice : config.annualPrice;
       const featuresList = config.highlightedFeatures
         .slice(0, 5)
@@ -222,7 +309,7 @@ export function PricingMockup() {
     <h3>${tier.name}</h3>
     ${config.badgeText ? `<span class="badge">${config.badgeText}</span>` : ''}
     <div class="price">
-      <span class="currency">MYR</span>
+      <span class="currency">${previewCurrency}</span>
       <span class="amount">${price}</span>
       <span class="period">/${billingCycle === 'monthly' ? 'mo' : 'yr'}</span>
     </div>
@@ -318,6 +405,7 @@ ${tiersHtml}
                 tier={editingTierData}
                 config={editingConfig}
                 billingCycle={billingCycle}
+                currency={currency}
                 isEditMode={true}
                 ctaClicked={ctaClicked === editingTier}
                 onCtaClick={() => handleCtaClick(editingTier)}
@@ -376,7 +464,7 @@ ${tiersHtml}
                         <div>
                           <label className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2 block">Monthly Price</label>
                           <div className="flex items-center gap-2">
-                            <span className="text-xs sm:text-sm text-gray-400 font-medium">MYR</span>
+                            <span className="text-xs sm:text-sm text-gray-400 font-medium">{currency}</span>
                             <input
                               type="number"
                               min="0"
@@ -396,7 +484,7 @@ ${tiersHtml}
                             )}
                           </label>
                           <div className="flex items-center gap-2">
-                            <span className="text-xs sm:text-sm text-gray-400 font-medium">MYR</span>
+                            <span className="text-xs sm:text-sm text-gray-400 font-medium">{currency}</span>
                             <input
                               type="number"
                               min="0"
@@ -406,7 +494,7 @@ ${tiersHtml}
                             />
                           </div>
                           <p className="text-xs text-gray-400 mt-1.5">
-                            = MYR {Math.round(editingConfig.annualPrice / 12)}/mo annually
+                            = {currency} {Math.round(editingConfig.annualPrice / 12)}/mo annually
                           </p>
                         </div>
                         <div className="sm:col-span-2">
@@ -565,7 +653,7 @@ ${tiersHtml}
                       {editingConfig.highlightedFeatures.length > 0 ? (
                         <div className="space-y-1.5">
                           {editingConfig.highlightedFeatures.map((featureId, index) => {
-                            const limit = getFeatureLimit(editingTierData, featureId);
+                            const limit = getFeatureLimit(editingTierData, featureId, currency);
                             return (
                               <div
                                 key={featureId}
@@ -632,7 +720,7 @@ ${tiersHtml}
                                 {isExpanded && (
                                   <div className="ml-4 sm:ml-5 space-y-0.5 mb-2">
                                     {featureIds.map(featureId => {
-                                      const limit = getFeatureLimit(editingTierData, featureId);
+                                      const limit = getFeatureLimit(editingTierData, featureId, currency);
                                       return (
                                         <button
                                           key={featureId}
@@ -706,21 +794,67 @@ ${tiersHtml}
         </button>
       </div>
 
-      <div className="flex justify-center">
+      <div className="flex flex-wrap items-center justify-center gap-3">
         <BillingCycleToggle
           value={billingCycle}
           onChange={setBillingCycle}
           discount={averageDiscount}
         />
+
+        {/* Market currency switcher */}
+        <div className="flex items-center gap-1 bg-gray-100 p-1 rounded-[0.2rem]" role="group" aria-label="Market currency">
+          {[currency, ...priceBooks.map(book => book.currency).filter(code => code !== currency)].map(code => (
+            <button
+              key={code}
+              onClick={() => setMarket(code === currency ? null : code)}
+              className={`px-3 py-1.5 text-xs font-medium rounded-[0.2rem] transition-all touch-manipulation ${
+                previewCurrency === code ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {code}
+            </button>
+          ))}
+        </div>
+        {availableMarkets.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => e.target.value && addMarket(e.target.value)}
+            aria-label="Add market currency"
+            className="text-xs border border-[#e4e4e4] rounded-[0.2rem] px-2 py-1.5 bg-white text-gray-600"
+          >
+            <option value="">+ Add market</option>
+            {availableMarkets.map(code => (
+              <option key={code} value={code}>{code}</option>
+            ))}
+          </select>
+        )}
+
+        {/* Tax-inclusive / exclusive price display */}
+        {previewTax && (
+          <div className="flex items-center gap-1 bg-gray-100 p-1 rounded-[0.2rem]" role="group" aria-label="Price display">
+            {[true, false].map(inclusive => (
+              <button
+                key={String(inclusive)}
+                onClick={() => setShowTaxInclusive(inclusive)}
+                className={`px-3 py-1.5 text-xs font-medium rounded-[0.2rem] transition-all touch-manipulation ${
+                  showTaxInclusive === inclusive ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {inclusive ? 'Incl.' : 'Excl.'} {previewTax.label}
+              </button>
+            ))}
+          </div>
+        )}
       </div>
 
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-5 items-start px-4 sm:px-0">
         {visibleTiers.map((tier) => (
           <PricingCard
             key={tier.id}
-            tier={tier}
-            config={getTierConfig(tier.id)}
+            tier={getPreviewTier(tier)}
+            config={getPreviewConfig(tier.id)}
             billingCycle={billingCycle}
+            currency={previewCurrency}
             ctaClicked={ctaClicked === tier.id}
             onCardClick={() => setEditingTier(tier.id)}
             onCtaClick={() => handleCtaClick(tier.id)}
@@ -728,7 +862,43 @@ ${tiersHtml}
         ))}
       </div>
 
-      <FeatureComparisonTable tiers={visibleTiers} />
+      <SalesTaxPanel
+        currency={previewCurrency}
+        tax={previewTax}
+        onChange={(next) => {
+          if (priceBook) {
+            savePriceBook({ ...priceBook, tax: next ?? undefined });
+          } else {
+            setTax(next);
+          }
+        }}
+      />
+
+      {priceBook && marketPricing && (
+        <PriceBookPanel
+          book={priceBook}
+          pricing={marketPricing}
+          baseCurrency={currency}
+          ratesNote={describeExchangeRates(exchangeRates)}
+          onChange={savePriceBook}
+          onRemove={() => {
+            removePriceBook(priceBook.currency);
+            setMarket(null);
+          }}
+        />
+      )}
+
+      {priceBooks.length > 0 && (
+        <ExchangeRatePanel
+          rates={exchangeRates}
+          baseCurrency={currency}
+          currencies={priceBooks.map(book => book.currency)}
+          onRefresh={refreshExchangeRates}
+          onSaveManual={setManualExchangeRates}
+        />
+      )}
+
+      <FeatureComparisonTable tiers={visibleTiers} currency={currency} />
     </div>
   );
 }
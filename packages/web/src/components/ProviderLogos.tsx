@@ -3,6 +3,8 @@
  * Official brand logos for all supported AI providers
  */
 
+import { HardDrives } from '@phosphor-icons/react';
+import type { AIProviderId } from '@basedpricer/core';
 import type { AIProvider } from '../services/api-keys';
 
 interface LogoProps {
@@ -117,7 +119,7 @@ export function GitHubLogo({ size = 20, className = '' }: LogoProps) {
 }
 
 // Provider logo component that selects the right logo
-export function ProviderLogo({ provider, size = 20, className = '' }: { provider: AIProvider; size?: number; className?: string }) {
+export function ProviderLogo({ provider, size = 20, className = '' }: { provider: AIProviderId; size?: number; className?: string }) {
   switch (provider) {
     case 'openai':
       return <OpenAILogo size={size} className={className} />;
@@ -131,6 +133,9 @@ export function ProviderLogo({ provider, size = 20, className = '' }: { provider
       return <MiniMaxLogo size={size} className={className} />;
     case 'glm':
       return <GLMLogo size={size} className={className} />;
+    default:
+      // Custom OpenAI/Anthropic-compatible endpoints
+      return <HardDrives size={size} weight="duotone" className={className} />;
   }
 }
 
@@ -174,3 +179,17 @@ export const PROVIDER_COLORS: Record<AIProvider, { bg: string; text: string; bor
     accent: 'text-indigo-600',
   },
 };
+
+// Colors for custom providers
+// eslint-disable-next-line react-refresh/only-export-components
+export const CUSTOM_PROVIDER_COLORS = {
+  bg: 'bg-slate-50',
+  text: 'text-slate-700',
+  border: 'border-slate-200',
+  accent: 'text-slate-600',
+};
+
+// eslint-disable-next-line react-refresh/only-export-components
+export function getProviderColors(provider: AIProviderId) {
+  return PROVIDER_COLORS[provider as AIProvider] ?? CUSTOM_PROVIDER_COLORS;
+}
@@ -13,11 +13,15 @@ import {
   Desktop,
   ShareNetwork,
   Warning,
+  CloudArrowUp,
+  Lock,
 } from '@phosphor-icons/react';
 import { usePricing } from '../context/PricingContext';
 import {
   createReportData,
-  generateAllReportUrls,
+  encodeReportCompressed,
+  generateSharedReportUrls,
+  generateEncryptedReportUrls,
   getUrlStats,
   type ReportData
 } from '../utils/reportEncoder';
@@ -31,6 +35,22 @@ interface ReportGeneratorProps {
 type StakeholderKey = 'accountant' | 'investor' | 'engineer' | 'marketer';
 type UrlMode = 'short' | 'portable';
 
+interface ShortLinks {
+  /** Report the links were created from; edits after that need new links */
+  source: ReportData;
+  short: Record<StakeholderKey, string>;
+  shortId: string | null;
+}
+
+interface EncryptedLinks {
+  /** Report and passphrase the links were encrypted with */
+  source: ReportData;
+  passphrase: string;
+  urls: Record<StakeholderKey, string>;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
 const stakeholders: { key: StakeholderKey; label: string; icon: typeof FileText; description: string }[] = [
   { key: 'accountant', label: 'Accountant', icon: FileText, description: 'Costs, margins, P&L projections' },
   { key: 'investor', label: 'Investor', icon: ChartLine, description: 'Valuations, milestones, metrics' },
@@ -56,6 +76,12 @@ export function ReportGenerator({ isOpen, onClose }: ReportGeneratorProps) {
     new Set(['accountant', 'investor', 'engineer', 'marketer'])
   );
   const [urlMode, setUrlMode] = useState<UrlMode>('portable');
+  const [shortLinks, setShortLinks] = useState<ShortLinks | null>(null);
+  const [isCreatingShortLinks, setIsCreatingShortLinks] = useState(false);
+  const [isProtected, setIsProtected] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [encryptedLinks, setEncryptedLinks] = useState<EncryptedLinks | null>(null);
+  const [isEncrypting, setIsEncrypting] = useState(false);
   const [monthlyGrowthRate, setMonthlyGrowthRate] = useState(5); // Percentage (0-100)
 
   // Create report data
@@ -74,6 +100,10 @@ export function ReportGenerator({ isOpen, onClose }: ReportGeneratorProps) {
       businessType: pricingState.businessType,
       businessTypeConfidence: pricingState.businessTypeConfidence,
       pricingModelType: pricingState.pricingModelType,
+      scenarios: pricingState.scenarios,
+      priceBooks: pricingState.priceBooks,
+      tax: pricingState.tax,
+      actuals: pricingState.actuals,
       isFirstVisit: pricingState.isFirstVisit,
     };
     const data = createReportData(projectName, state, notes);
@@ -86,18 +116,58 @@ export function ReportGenerator({ isOpen, onClose }: ReportGeneratorProps) {
     };
   }, [pricingState, projectName, notes, monthlyGrowthRate]);
 
-  // Generate URLs
-  const urls = useMemo(() => {
+  // Generate portable URLs
+  const portableUrls = useMemo(() => {
     const baseUrl = window.location.origin;
-    return generateAllReportUrls(baseUrl, reportData);
+    const compressed = encodeReportCompressed(reportData);
+    return Object.fromEntries(
+      stakeholders.map(s => [s.key, `${baseUrl}/report/${s.key}?d=${compressed}`])
+    ) as Record<StakeholderKey, string>;
   }, [reportData]);
 
+  // Short links are only valid for the report they were created from
+  const currentShortLinks = shortLinks?.source === reportData ? shortLinks : null;
+
+  const currentEncryptedLinks =
+    encryptedLinks?.source === reportData && encryptedLinks.passphrase === passphrase ? encryptedLinks : null;
+
+  const getUrl = (key: StakeholderKey): string | undefined => {
+    if (urlMode === 'short') return currentShortLinks?.short[key];
+    return isProtected ? currentEncryptedLinks?.urls[key] : portableUrls[key];
+  };
+
   // Get URL stats
   const urlStats = useMemo(() => getUrlStats(reportData), [reportData]);
 
+  const handleCreateShortLinks = async () => {
+    const source = reportData;
+    setIsCreatingShortLinks(true);
+    try {
+      const result = await generateSharedReportUrls(window.location.origin, source);
+      setShortLinks({ source, ...result });
+    } finally {
+      setIsCreatingShortLinks(false);
+    }
+  };
+
+  const handleEncryptLinks = async () => {
+    const source = reportData;
+    const sourcePassphrase = passphrase;
+    setIsEncrypting(true);
+    try {
+      const urls = await generateEncryptedReportUrls(window.location.origin, source, sourcePassphrase);
+      setEncryptedLinks({ source, passphrase: sourcePassphrase, urls });
+    } catch (e) {
+      console.error('Failed to encrypt report:', e);
+    } finally {
+      setIsEncrypting(false);
+    }
+  };
+
   const handleCopyUrl = async (key: StakeholderKey) => {
+    const url = getUrl(key);
+    if (!url) return;
     try {
-      const url = urlMode === 'short' ? urls.short[key] : urls.portable[key];
       await navigator.clipboard.writeText(url);
       setCopiedUrl(key);
       setTimeout(() => setCopiedUrl(null), 2000);
@@ -109,12 +179,10 @@ export function ReportGenerator({ isOpen, onClose }: ReportGeneratorProps) {
   const handleCopyAll = async () => {
     try {
       const selectedUrls = stakeholders
-        .filter(s => selectedStakeholders.has(s.key))
-        .map(s => {
-          const url = urlMode === 'short' ? urls.short[s.key] : urls.portable[s.key];
-          return `${s.label}: ${url}`;
-        })
+        .filter(s => selectedStakeholders.has(s.key) && getUrl(s.key))
+        .map(s => `${s.label}: ${getUrl(s.key)}`)
         .join('\n');
+      if (!selectedUrls) return;
 
       await navigator.clipboard.writeText(selectedUrls);
       setCopiedUrl('all');
@@ -125,7 +193,8 @@ export function ReportGenerator({ isOpen, onClose }: ReportGeneratorProps) {
   };
 
   const handleShare = async (key: StakeholderKey) => {
-    const url = urlMode === 'short' ? urls.short[key] : urls.portable[key];
+    const url = getUrl(key);
+    if (!url) return;
     const stakeholder = stakeholders.find(s => s.key === key);
 
     if (navigator.share) {
@@ -260,22 +329,59 @@ export function ReportGenerator({ isOpen, onClose }: ReportGeneratorProps) {
                   <Desktop size={18} className={urlMode === 'short' ? 'text-[#253ff6]' : 'text-gray-500'} />
                   <span className="font-medium text-gray-900 text-xs sm:text-sm">Short Link</span>
                   <span className="text-[10px] bg-amber-100 text-amber-700 px-1.5 py-0.5 rounded font-medium">
-                    This device only
+                    Expires in 30 days
                   </span>
                 </div>
-                <p className="text-xs text-gray-500">~{urlStats.shortUrlLength} chars • Stored locally</p>
+                <p className="text-xs text-gray-500">~{urlStats.shortUrlLength} chars • Stored on server</p>
               </button>
             </div>
             <div className="mt-2 p-2 bg-gray-50 rounded-md flex items-start gap-2">
               <Info size={14} className="text-gray-400 mt-0.5 flex-shrink-0" />
               <p className="text-xs text-gray-500">
                 {urlMode === 'short' ? (
-                  <>Short links are stored locally. Easy to share but only work on this device.</>
+                  <>Short links upload a read-only copy of the report, kept for 30 days. If the server is unavailable, portable links are used instead.</>
                 ) : (
                   <>Portable links embed all data. Work anywhere but longer ({urlStats.compressionRatio}% compressed).</>
                 )}
               </p>
             </div>
+            {urlMode === 'short' && currentShortLinks && !currentShortLinks.shortId && (
+              <div className="mt-2 p-2 bg-amber-50 border border-amber-200 rounded-md flex items-start gap-2">
+                <Warning size={14} className="text-amber-500 mt-0.5 flex-shrink-0" />
+                <p className="text-xs text-amber-700">
+                  Short links are unavailable right now — these are portable links instead.
+                </p>
+              </div>
+            )}
+            {urlMode === 'portable' && (
+              <div className="mt-2 p-3 border border-gray-200 rounded-md">
+                <label className="flex items-center gap-2 text-xs sm:text-sm font-medium text-gray-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={isProtected}
+                    onChange={(e) => setIsProtected(e.target.checked)}
+                    className="accent-[#253ff6]"
+                  />
+                  <Lock size={14} className="text-gray-500" />
+                  Protect with passphrase
+                </label>
+                {isProtected && (
+                  <div className="mt-2">
+                    <input
+                      type="password"
+                      value={passphrase}
+                      onChange={(e) => setPassphrase(e.target.value)}
+                      autoComplete="new-password"
+                      className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#253ff6] focus:border-transparent"
+                      placeholder={`Passphrase (at least ${MIN_PASSPHRASE_LENGTH} characters)`}
+                    />
+                    <p className="text-xs text-gray-400 mt-1">
+                      Report data is encrypted in your browser. Share the passphrase separately from the link.
+                    </p>
+                  </div>
+                )}
+              </div>
+            )}
             {urlMode === 'portable' && urlStats.portableUrlLength > 2000 && (
               <div className="mt-2 p-2 bg-amber-50 border border-amber-200 rounded-md flex items-start gap-2">
                 <Warning size={14} className="text-amber-500 mt-0.5 flex-shrink-0" />
@@ -368,9 +474,30 @@ export function ReportGenerator({ isOpen, onClose }: ReportGeneratorProps) {
                 {copiedUrl === 'all' ? 'Copied!' : 'Copy all'}
               </button>
             </div>
+            {urlMode === 'short' && !currentShortLinks && (
+              <button
+                onClick={handleCreateShortLinks}
+                disabled={isCreatingShortLinks}
+                className="w-full mb-2 flex items-center justify-center gap-2 px-4 py-2.5 sm:py-2 bg-[#253ff6] text-white rounded-md hover:bg-[#1a2eb8] active:bg-[#1a2eb8] disabled:opacity-60 transition-colors text-sm font-medium touch-manipulation"
+              >
+                <CloudArrowUp size={16} />
+                {isCreatingShortLinks ? 'Creating links...' : shortLinks ? 'Report changed — create new short links' : 'Create short links'}
+              </button>
+            )}
+            {urlMode === 'portable' && isProtected && !currentEncryptedLinks && (
+              <button
+                onClick={handleEncryptLinks}
+                disabled={isEncrypting || passphrase.length < MIN_PASSPHRASE_LENGTH}
+                className="w-full mb-2 flex items-center justify-center gap-2 px-4 py-2.5 sm:py-2 bg-[#253ff6] text-white rounded-md hover:bg-[#1a2eb8] active:bg-[#1a2eb8] disabled:opacity-60 transition-colors text-sm font-medium touch-manipulation"
+              >
+                <Lock size={16} />
+                {isEncrypting ? 'Encrypting...' : encryptedLinks ? 'Report or passphrase changed — encrypt again' : 'Encrypt links'}
+              </button>
+            )}
             <div className="space-y-2">
               {stakeholders.filter(s => selectedStakeholders.has(s.key)).map(({ key, label, icon: Icon }) => {
-                const url = urlMode === 'short' ? urls.short[key] : urls.portable[key];
+                const url = getUrl(key);
+                if (!url) return null;
                 const isCopied = copiedUrl === key;
 
                 return (
@@ -430,9 +557,9 @@ export function ReportGenerator({ isOpen, onClose }: ReportGeneratorProps) {
         {/* Footer */}
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 p-3 sm:p-4 border-t border-gray-200 bg-gray-50">
           <div className="text-xs text-gray-500">
-            {urlMode === 'short' ? (
+            {urlMode === 'short' && currentShortLinks?.shortId ? (
               <span className="flex items-center gap-1">
-                <Desktop size={12} /> ID: <code className="bg-gray-200 px-1 rounded">{urls.shortId}</code>
+                <Desktop size={12} /> ID: <code className="bg-gray-200 px-1 rounded">{currentShortLinks.shortId}</code>
               </span>
             ) : (
               <span>Reports contain your pricing data (read-only)</span>
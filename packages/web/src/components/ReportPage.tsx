@@ -1,10 +1,14 @@
 import { useParams, useSearchParams, Navigate } from 'react-router-dom';
-import { useMemo } from 'react';
+import { useEffect, useMemo, useState, type FormEvent } from 'react';
+import { Lock } from '@phosphor-icons/react';
 import {
   decodeReport,
   decodeReportCompressed,
+  decryptReport,
+  fetchServerReport,
   retrieveReport,
-  isValidReportData
+  isValidReportData,
+  type ReportData
 } from '../utils/reportEncoder';
 import { ReportShell } from './ReportShell';
 import { AccountantReport } from './reports/AccountantReport';
@@ -25,15 +29,24 @@ export function ReportPage() {
   }>();
   const [searchParams] = useSearchParams();
   const compressedData = searchParams.get('d'); // Portable: /report/{stakeholder}?d={compressed}
+  const encryptedData = searchParams.get('e'); // Protected: /report/{stakeholder}?e={encrypted}
+  const [serverReport, setServerReport] = useState<{ id: string; data: ReportData | null } | null>(null);
+  const [decrypted, setDecrypted] = useState<{ payload: string; data: ReportData } | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [decryptError, setDecryptError] = useState<string | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
 
   // Decode and validate report data based on URL format
   const { reportData, encodedData } = useMemo(() => {
-    // Format 1: Short link with localStorage (/r/{id}/{stakeholder})
+    // Format 1: Short link (/r/{id}/{stakeholder}) - local copy first, then the server
     if (id) {
       const stored = retrieveReport(id);
       if (stored && isValidReportData(stored)) {
         return { reportData: stored, encodedData: id };
       }
+      if (serverReport?.id === id && serverReport.data) {
+        return { reportData: serverReport.data, encodedData: id };
+      }
     }
 
     // Format 2: Portable link with compressed data in query string (/report/{stakeholder}?d={compressed})
@@ -48,7 +61,12 @@ export function ReportPage() {
       }
     }
 
-    // Format 3: Legacy format with data in path (/report/{data}/{stakeholder})
+    // Format 3: Passphrase-protected link, once unlocked (/report/{stakeholder}?e={encrypted})
+    if (encryptedData && decrypted?.payload === encryptedData) {
+      return { reportData: decrypted.data, encodedData: encryptedData };
+    }
+
+    // Format 4: Legacy format with data in path (/report/{data}/{stakeholder})
     if (data) {
       try {
         const decoded = decodeReport(data);
@@ -61,7 +79,75 @@ export function ReportPage() {
     }
 
     return { reportData: null, encodedData: '' };
-  }, [id, data, compressedData]);
+  }, [id, data, compressedData, encryptedData, decrypted, serverReport]);
+
+  // Short links not stored on this device are fetched from the server
+  const needsServerReport = !!id && !reportData && serverReport?.id !== id;
+  useEffect(() => {
+    if (!id || !needsServerReport) return;
+    let cancelled = false;
+    fetchServerReport(id).then(fetched => {
+      if (!cancelled) setServerReport({ id, data: fetched });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [id, needsServerReport]);
+
+  const handleUnlock = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!encryptedData) return;
+    setIsDecrypting(true);
+    setDecryptError(null);
+    try {
+      const data = await decryptReport(encryptedData, passphrase);
+      setDecrypted({ payload: encryptedData, data });
+    } catch (err) {
+      setDecryptError(err instanceof Error ? err.message : 'Failed to decrypt report');
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  // Protected links prompt for the passphrase before decoding
+  if (encryptedData && !reportData) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <form onSubmit={handleUnlock} className="w-full max-w-sm mx-auto px-6 text-center">
+          <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-[rgba(37,63,246,0.08)] flex items-center justify-center">
+            <Lock size={28} weight="duotone" className="text-[#253ff6]" />
+          </div>
+          <h1 className="text-xl font-semibold text-gray-900 mb-2">Protected Report</h1>
+          <p className="text-gray-500 mb-4">Enter the passphrase you received with this link.</p>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            autoFocus
+            autoComplete="current-password"
+            className="w-full px-3 py-2 mb-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#253ff6] focus:border-transparent"
+            placeholder="Passphrase"
+          />
+          {decryptError && <p className="text-xs text-red-600 mb-2">{decryptError}</p>}
+          <button
+            type="submit"
+            disabled={isDecrypting || !passphrase}
+            className="w-full px-4 py-2 bg-[#253ff6] text-white rounded hover:bg-[#1a2eb8] disabled:opacity-60 transition-colors"
+          >
+            {isDecrypting ? 'Unlocking...' : 'Unlock report'}
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  if (needsServerReport) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <p className="text-sm text-gray-500">Loading report...</p>
+      </div>
+    );
+  }
 
   // Validate stakeholder
   const validStakeholder = stakeholder && validStakeholders.includes(stakeholder as StakeholderType)
@@ -79,7 +165,7 @@ export function ReportPage() {
           <h1 className="text-xl font-semibold text-gray-900 mb-2">Invalid Report Link</h1>
           <p className="text-gray-500 mb-4">
             {id ? (
-              <>This report link has expired or was created on a different device. Short links only work on the device where they were created.</>
+              <>This report link has expired or could not be loaded. Short links are kept for 30 days.</>
             ) : (
               <>This report link appears to be invalid or corrupted. Please request a new link from the report creator.</>
             )}
@@ -11,10 +11,10 @@ import {
   ArrowLeft,
   Spinner,
 } from '@phosphor-icons/react';
-import { useState, useMemo, useRef, useCallback } from 'react';
+import { useState, useMemo, useCallback } from 'react';
 import type { ReportData } from '../utils/reportEncoder';
 import type { StakeholderType } from '../schemas/reports';
-import html2pdf from 'html2pdf.js';
+import { downloadReportPdf } from '../utils/reportPdf';
 
 interface ReportShellProps {
   reportData: ReportData;
@@ -65,7 +65,6 @@ const stakeholderOrder: StakeholderType[] = ['accountant', 'investor', 'engineer
 export function ReportShell({ reportData, stakeholder, encodedData, children }: ReportShellProps) {
   const [copied, setCopied] = useState(false);
   const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
-  const contentRef = useRef<HTMLDivElement>(null);
   const config = stakeholderConfig[stakeholder];
   const Icon = config.icon;
   const location = useLocation();
@@ -80,8 +79,9 @@ export function ReportShell({ reportData, stakeholder, encodedData, children }:
       return (type: StakeholderType) => `/r/${encodedData}/${type}`;
     }
 
-    // Portable format: /report/{stakeholder}?d={compressed}
-    if (search.includes('d=')) {
+    // Portable format: /report/{stakeholder}?d={compressed} or ?e={encrypted}
+    const params = new URLSearchParams(search);
+    if (params.has('d') || params.has('e')) {
       return (type: StakeholderType) => `/report/${type}${search}`;
     }
 
@@ -100,31 +100,11 @@ export function ReportShell({ reportData, stakeholder, encodedData, children }:
   };
 
   const handleDownloadPdf = useCallback(async () => {
-    if (!contentRef.current || isGeneratingPdf) return;
+    if (isGeneratingPdf) return;
 
     setIsGeneratingPdf(true);
     try {
-      const element = contentRef.current;
-      const filename = `${reportData.projectName.replace(/[^a-zA-Z0-9]/g, '-')}-${stakeholder}-report.pdf`;
-
-      const opt = {
-        margin: [10, 10, 10, 10] as [number, number, number, number],
-        filename,
-        image: { type: 'jpeg' as const, quality: 0.98 },
-        html2canvas: {
-          scale: 2,
-          useCORS: true,
-          letterRendering: true,
-        },
-        jsPDF: {
-          unit: 'mm' as const,
-          format: 'a4' as const,
-          orientation: 'portrait' as const,
-        },
-        pagebreak: { mode: ['avoid-all', 'css', 'legacy'] },
-      };
-
-      await html2pdf().set(opt).from(element).save();
+      await downloadReportPdf(reportData, stakeholder);
     } catch (error) {
       console.error('Failed to generate PDF:', error);
       // Fallback to browser print
@@ -132,7 +112,7 @@ export function ReportShell({ reportData, stakeholder, encodedData, children }:
     } finally {
       setIsGeneratingPdf(false);
     }
-  }, [isGeneratingPdf, reportData.projectName, stakeholder]);
+  }, [isGeneratingPdf, reportData, stakeholder]);
 
   const createdDate = new Date(reportData.createdAt).toLocaleDateString('en-MY', {
     year: 'numeric',
@@ -236,7 +216,6 @@ export function ReportShell({ reportData, stakeholder, encodedData, children }:
 
       {/* Main Content */}
       <main className="max-w-5xl mx-auto px-6 py-8">
-        <div ref={contentRef} className="pdf-content">
         {/* Report Meta */}
         <div className={`mb-6 p-4 rounded-lg border ${config.bgColor} ${config.borderColor}`}>
           <div className="flex items-center justify-between">
@@ -264,7 +243,6 @@ export function ReportShell({ reportData, stakeholder, encodedData, children }:
 
         {/* Report Content */}
         {children}
-        </div>
       </main>
 
       {/* Footer */}
@@ -1,15 +1,21 @@
 import { useState, useMemo, useCallback } from 'react';
 import { Copy, DownloadSimple, MagnifyingGlass, Plus, X, Star, Infinity as InfinityIcon, ArrowCounterClockwise, Lightning } from '@phosphor-icons/react';
-import { calculateTierVariableCosts, type Tier, type TierLimit } from '../data/tiers';
+import { type Tier, type TierLimit } from '../data/tiers';
 import { featureCategories, type FeatureCategory } from '../data/features';
 import { usePricing } from '../context/PricingContext';
 import { useNavigation } from '../context/NavigationContext';
-import { deriveCostRatesFromVariableCosts } from '../utils/costRates';
+import {
+  calculateTierCOGS,
+  calculateSeatTierEconomics,
+  groupTierCOGSByCostItem,
+  scaleLimitsForSeats,
+} from '../utils/costCalculator';
+import { getOverageLabel } from '../utils/features';
 import { BUSINESS_TYPES } from '../data/business-types';
 import { getRecommendedTierCount } from '../data/tier-templates';
 import { EmptyState, TabToggle, type TabOption } from './shared';
-import { TierCardsGrid } from './tiers';
-import { MARGIN_THRESHOLDS } from '../constants';
+import { TierCardsGrid, PriceSolverPanel } from './tiers';
+import { MARGIN_THRESHOLDS, getCostDriver } from '../constants';
 
 type ViewMode = 'overview' | 'limits' | 'features' | 'highlights';
 
@@ -21,22 +27,21 @@ export function TierConfigurator() {
     updateTier: contextUpdateTier,
     features,
     variableCosts,
+    fixedCosts,
     utilizationRate,
+    tierDistribution,
     businessType,
     businessTypeConfidence,
+    pricingModelType,
     applyBusinessTypeTemplate,
     setTierCount,
     addTier,
     showToast,
+    currency,
+    tax,
   } = usePricing();
   const { navigateTo } = useNavigation();
 
-  // Derive cost rates from context's variableCosts (single source of truth)
-  // This ensures TierConfigurator uses the same rates as COGSCalculator and PricingCalculator
-  const costRates = useMemo(() => {
-    return deriveCostRatesFromVariableCosts(variableCosts);
-  }, [variableCosts]);
-
   const [selectedTierId, setSelectedTierId] = useState<string>('basic');
   const [viewMode, setViewMode] = useState<ViewMode>('overview');
   const [searchQuery, setSearchQuery] = useState('');
@@ -54,7 +59,29 @@ export function TierConfigurator() {
       if (t.id !== tierId) return t;
       const existingLimitIdx = t.limits.findIndex(l => l.featureId === featureId);
       const feature = features.find(f => f.id === featureId);
-      const newLimit: TierLimit = { featureId, limit, unit: feature?.limitUnit };
+      // Keep the cost link and unlimited usage assumption when only the limit changes
+      const newLimit: TierLimit = { ...t.limits[existingLimitIdx], featureId, limit, unit: feature?.limitUnit };
+
+      if (existingLimitIdx >= 0) {
+        const newLimits = [...t.limits];
+        newLimits[existingLimitIdx] = newLimit;
+        return { ...t, limits: newLimits };
+      }
+      return { ...t, limits: [...t.limits, newLimit] };
+    });
+    setTiers(newTiers);
+  }, [tiers, setTiers, features]);
+
+  const updateTierLimitCostLink = useCallback((tierId: string, featureId: string, variableCostId: string) => {
+    const newTiers = tiers.map(t => {
+      if (t.id !== tierId) return t;
+      const existingLimitIdx = t.limits.findIndex(l => l.featureId === featureId);
+      const feature = features.find(f => f.id === featureId);
+      const baseLimit: TierLimit = existingLimitIdx >= 0
+        ? t.limits[existingLimitIdx]
+        : { featureId, limit: 0, unit: feature?.limitUnit };
+      // Empty selection clears the explicit link so the feature's cost driver is used
+      const newLimit: TierLimit = { ...baseLimit, variableCostId: variableCostId || undefined };
 
       if (existingLimitIdx >= 0) {
         const newLimits = [...t.limits];
@@ -66,6 +93,30 @@ export function TierConfigurator() {
     setTiers(newTiers);
   }, [tiers, setTiers, features]);
 
+  // Overage and per-seat settings only apply to limits that already exist
+  const updateTierLimitPricing = useCallback((
+    tierId: string,
+    featureId: string,
+    updates: Pick<TierLimit, 'overagePrice' | 'perSeat'>
+  ) => {
+    const newTiers = tiers.map(t => {
+      if (t.id !== tierId) return t;
+      const newLimits = t.limits.map(l => (l.featureId === featureId ? { ...l, ...updates } : l));
+      return { ...t, limits: newLimits };
+    });
+    setTiers(newTiers);
+  }, [tiers, setTiers]);
+
+  const updateSeatPricing = useCallback((tierId: string, updates: Partial<NonNullable<Tier['seatPricing']>> | null) => {
+    const tier = tiers.find(t => t.id === tierId);
+    if (!tier) return;
+    // null switches seat pricing off; the monthly price stays as the base fee
+    const seatPricing = updates === null
+      ? undefined
+      : { pricePerSeat: 0, averageSeats: 1, ...tier.seatPricing, ...updates };
+    contextUpdateTier(tierId, { seatPricing });
+  }, [tiers, contextUpdateTier]);
+
   const toggleFeature = useCallback((tierId: string, featureId: string, included: boolean) => {
     const newTiers = tiers.map(t => {
       if (t.id !== tierId) return t;
@@ -98,28 +149,35 @@ export function TierConfigurator() {
   }, [tiers, setTiers]);
 
   // Memoized cost calculations for selected tier
-  // Now uses costRates derived from context to stay in sync with COGS calculator
-  const { costs, margin } = useMemo(() => {
-    const tierCosts = calculateTierVariableCosts(selectedTier, utilizationRate, costRates);
-    const tierMargin = selectedTier.monthlyPriceMYR > 0
-      ? ((selectedTier.monthlyPriceMYR - tierCosts.total) / selectedTier.monthlyPriceMYR) * 100
-      : 0;
-    return { costs: tierCosts, margin: tierMargin };
-  }, [selectedTier, utilizationRate, costRates]);
+  // Each limit is costed against its linked variable cost item from context
+  // Seat-priced tiers are costed and priced at their average seats per customer
+  const { costs, costsByItem, margin, revenue } = useMemo(() => {
+    const economics = calculateSeatTierEconomics(selectedTier, variableCosts, utilizationRate, features);
+    const tierCosts = calculateTierCOGS(scaleLimitsForSeats(selectedTier, economics.seats), variableCosts, utilizationRate, features);
+    return {
+      costs: tierCosts,
+      costsByItem: groupTierCOGSByCostItem(tierCosts),
+      margin: economics.margin,
+      revenue: economics.revenuePerCustomer,
+    };
+  }, [selectedTier, variableCosts, utilizationRate, features]);
 
   // Memoized tier costs for all tiers (for the tier cards)
-  // Uses the same costRates and utilizationRate for consistency across the app
+  // Uses the same variable costs and utilizationRate for consistency across the app
   const allTierCosts = useMemo(() => {
     const costsMap = new Map<string, { total: number; margin: number }>();
     tiers.forEach(tier => {
-      const tierCosts = calculateTierVariableCosts(tier, utilizationRate, costRates);
-      const tierMargin = tier.monthlyPriceMYR > 0
-        ? ((tier.monthlyPriceMYR - tierCosts.total) / tier.monthlyPriceMYR) * 100
-        : 0;
-      costsMap.set(tier.id, { total: tierCosts.total, margin: tierMargin });
+      const economics = calculateSeatTierEconomics(tier, variableCosts, utilizationRate, features);
+      costsMap.set(tier.id, { total: economics.cogsPerCustomer, margin: economics.margin });
     });
     return costsMap;
-  }, [tiers, utilizationRate, costRates]);
+  }, [tiers, variableCosts, utilizationRate, features]);
+
+  // Apply goal-seek prices to all tiers in one update
+  const handleApplySolvedPrices = useCallback((prices: Record<string, number>) => {
+    setTiers(tiers.map(t => (prices[t.id] !== undefined ? { ...t, monthlyPrice: prices[t.id] } : t)));
+    showToast('success', 'Applied proposed prices');
+  }, [tiers, setTiers, showToast]);
 
   // Features with limits (from context, updates when features change)
   const featuresWithLimits = useMemo(() => features.filter(f => f.hasLimit), [features]);
@@ -296,9 +354,23 @@ export function TierConfigurator() {
         tiers={tiers}
         allTierCosts={allTierCosts}
         selectedTierId={selectedTierId}
+        currency={currency}
         onSelect={setSelectedTierId}
       />
 
+      {/* Goal Seek */}
+      <PriceSolverPanel
+        tiers={tiers}
+        features={features}
+        variableCosts={variableCosts}
+        fixedCosts={fixedCosts}
+        utilizationRate={utilizationRate}
+        tierDistribution={tierDistribution}
+        tax={tax}
+        currency={currency}
+        onApply={handleApplySolvedPrices}
+      />
+
       {/* View Mode Tabs */}
       <TabToggle<ViewMode>
         options={[
@@ -339,22 +411,24 @@ export function TierConfigurator() {
               </div>
               <div className="grid grid-cols-2 gap-3 sm:gap-4">
                 <div>
-                  <label className="block text-xs sm:text-sm text-gray-600 mb-1 sm:mb-1.5">Monthly (MYR)</label>
+                  <label className="block text-xs sm:text-sm text-gray-600 mb-1 sm:mb-1.5">
+                    {selectedTier.seatPricing ? `Base fee (${currency}/mo)` : `Monthly (${currency})`}
+                  </label>
                   <input
                     type="number"
                     min="0"
-                    value={selectedTier.monthlyPriceMYR}
-                    onChange={(e) => updateTier(selectedTierId, { monthlyPriceMYR: Math.max(0, Number(e.target.value)) })}
+                    value={selectedTier.monthlyPrice}
+                    onChange={(e) => updateTier(selectedTierId, { monthlyPrice: Math.max(0, Number(e.target.value)) })}
                     className="input-field py-2.5 sm:py-2 text-sm"
                   />
                 </div>
                 <div>
-                  <label className="block text-xs sm:text-sm text-gray-600 mb-1 sm:mb-1.5">Annual (MYR)</label>
+                  <label className="block text-xs sm:text-sm text-gray-600 mb-1 sm:mb-1.5">Annual ({currency})</label>
                   <input
                     type="number"
                     min="0"
-                    value={selectedTier.annualPriceMYR}
-                    onChange={(e) => updateTier(selectedTierId, { annualPriceMYR: Math.max(0, Number(e.target.value)) })}
+                    value={selectedTier.annualPrice}
+                    onChange={(e) => updateTier(selectedTierId, { annualPrice: Math.max(0, Number(e.target.value)) })}
                     className="input-field py-2.5 sm:py-2 text-sm"
                   />
                 </div>
@@ -371,6 +445,70 @@ export function TierConfigurator() {
                   <option value="internal">Internal Only</option>
                 </select>
               </div>
+              {(pricingModelType === 'seat_based' || selectedTier.seatPricing) && (
+                <div className="pt-3 border-t border-[#e4e4e4]">
+                  <label className="flex items-center gap-2 text-xs sm:text-sm text-gray-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={!!selectedTier.seatPricing}
+                      onChange={(e) => updateSeatPricing(selectedTierId, e.target.checked ? {} : null)}
+                      className="rounded-[0.2rem]"
+                    />
+                    Charge per seat
+                  </label>
+                  {selectedTier.seatPricing && (
+                    <div className="grid grid-cols-2 gap-3 sm:gap-4 mt-3">
+                      <div>
+                        <label className="block text-xs sm:text-sm text-gray-600 mb-1 sm:mb-1.5">Per seat ({currency}/mo)</label>
+                        <input
+                          type="number"
+                          min="0"
+                          value={selectedTier.seatPricing.pricePerSeat}
+                          onChange={(e) => updateSeatPricing(selectedTierId, { pricePerSeat: Math.max(0, Number(e.target.value)) })}
+                          className="input-field py-2.5 sm:py-2 text-sm"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs sm:text-sm text-gray-600 mb-1 sm:mb-1.5">Avg seats/customer</label>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.1"
+                          value={selectedTier.seatPricing.averageSeats}
+                          onChange={(e) => updateSeatPricing(selectedTierId, { averageSeats: Math.max(0, Number(e.target.value)) })}
+                          className="input-field py-2.5 sm:py-2 text-sm"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs sm:text-sm text-gray-600 mb-1 sm:mb-1.5">Min seats</label>
+                        <input
+                          type="number"
+                          min="0"
+                          value={selectedTier.seatPricing.minSeats ?? ''}
+                          onChange={(e) => updateSeatPricing(selectedTierId, {
+                            minSeats: e.target.value === '' ? undefined : Math.max(0, Math.round(Number(e.target.value))),
+                          })}
+                          placeholder="None"
+                          className="input-field py-2.5 sm:py-2 text-sm"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs sm:text-sm text-gray-600 mb-1 sm:mb-1.5">Max seats</label>
+                        <input
+                          type="number"
+                          min="1"
+                          value={selectedTier.seatPricing.maxSeats ?? ''}
+                          onChange={(e) => updateSeatPricing(selectedTierId, {
+                            maxSeats: e.target.value === '' ? undefined : Math.max(1, Math.round(Number(e.target.value))),
+                          })}
+                          placeholder="None"
+                          className="input-field py-2.5 sm:py-2 text-sm"
+                        />
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
           </div>
 
@@ -378,48 +516,43 @@ export function TierConfigurator() {
           <div className="card p-4 sm:p-6">
             <h3 className="font-medium text-gray-900 text-sm sm:text-base mb-3 sm:mb-4">Cost Analysis</h3>
             <div className="space-y-2 sm:space-y-3">
-              {/* Dynamic cost items from variableCosts */}
-              {variableCosts.length > 0 ? (
-                variableCosts.map((cost) => {
-                  // Calculate estimated cost for this tier based on utilization
-                  const estimatedCost = cost.costPerUnit * (cost.usagePerCustomer || 1) * utilizationRate;
+              {/* Usage-driven cost per linked variable cost item */}
+              {Object.keys(costsByItem).length > 0 ? (
+                Object.entries(costsByItem).map(([costKey, amount]) => {
+                  const costName = variableCosts.find(c => c.id === costKey)?.name
+                    ?? getCostDriver(costKey)?.name
+                    ?? costKey;
                   return (
-                    <div key={cost.id} className="flex justify-between py-2 sm:py-2.5 border-b border-[#e4e4e4]">
-                      <span className="text-xs sm:text-sm text-gray-600 truncate pr-2">{cost.name}</span>
-                      <span className="text-xs sm:text-sm font-medium text-gray-900 flex-shrink-0">MYR {estimatedCost.toFixed(2)}</span>
+                    <div key={costKey} className="flex justify-between py-2 sm:py-2.5 border-b border-[#e4e4e4]">
+                      <span className="text-xs sm:text-sm text-gray-600 truncate pr-2">{costName}</span>
+                      <span className="text-xs sm:text-sm font-medium text-gray-900 flex-shrink-0">{currency} {amount.toFixed(2)}</span>
                     </div>
                   );
                 })
               ) : (
-                <>
-                  {/* Fallback to legacy cost display if no variableCosts defined */}
-                  <div className="flex justify-between py-2 sm:py-2.5 border-b border-[#e4e4e4]">
-                    <span className="text-xs sm:text-sm text-gray-600">Extraction costs</span>
-                    <span className="text-xs sm:text-sm font-medium text-gray-900">MYR {costs.extraction.toFixed(2)}</span>
-                  </div>
-                  <div className="flex justify-between py-2 sm:py-2.5 border-b border-[#e4e4e4]">
-                    <span className="text-xs sm:text-sm text-gray-600">Email costs</span>
-                    <span className="text-xs sm:text-sm font-medium text-gray-900">MYR {costs.email.toFixed(2)}</span>
-                  </div>
-                  <div className="flex justify-between py-2 sm:py-2.5 border-b border-[#e4e4e4]">
-                    <span className="text-xs sm:text-sm text-gray-600">Storage costs</span>
-                    <span className="text-xs sm:text-sm font-medium text-gray-900">MYR {costs.storage.toFixed(2)}</span>
-                  </div>
-                </>
+                <p className="text-xs sm:text-sm text-gray-500 py-2">
+                  No usage limits are linked to a variable cost. Link limits to costs in the Limits tab.
+                </p>
               )}
               <div className="flex justify-between py-2.5 sm:py-3 bg-gray-50 rounded-[0.2rem] px-3 sm:px-4 -mx-1 sm:-mx-2">
                 <span className="font-medium text-gray-900 text-xs sm:text-sm">Total Variable Cost</span>
-                <span className="font-semibold text-[#253ff6] text-xs sm:text-sm">MYR {costs.total.toFixed(2)}</span>
+                <span className="font-semibold text-[#253ff6] text-xs sm:text-sm">{currency} {costs.total.toFixed(2)}</span>
               </div>
 
-              {selectedTier.monthlyPriceMYR > 0 && (
+              {revenue > 0 && (
                 <>
-                  <div className="flex justify-between py-2 sm:py-2.5 border-b border-[#e4e4e4] mt-3 sm:mt-4">
+                  {selectedTier.seatPricing && (
+                    <div className="flex justify-between py-2 sm:py-2.5 border-b border-[#e4e4e4] mt-3 sm:mt-4">
+                      <span className="text-xs sm:text-sm text-gray-600">Revenue per Customer</span>
+                      <span className="text-xs sm:text-sm font-medium text-gray-900">{currency} {revenue.toFixed(2)}</span>
+                    </div>
+                  )}
+                  <div className={`flex justify-between py-2 sm:py-2.5 border-b border-[#e4e4e4] ${selectedTier.seatPricing ? '' : 'mt-3 sm:mt-4'}`}>
                     <span className="text-xs sm:text-sm text-gray-600">Gross Profit</span>
                     <span className={`text-xs sm:text-sm font-medium ${
-                      selectedTier.monthlyPriceMYR - costs.total >= 0 ? 'text-emerald-600' : 'text-red-600'
+                      revenue - costs.total >= 0 ? 'text-emerald-600' : 'text-red-600'
                     }`}>
-                      MYR {(selectedTier.monthlyPriceMYR - costs.total).toFixed(2)}
+                      {currency} {(revenue - costs.total).toFixed(2)}
                     </span>
                   </div>
                   <div className="flex justify-between items-center py-2.5 sm:py-3">
@@ -459,6 +592,19 @@ export function TierConfigurator() {
                       </span>
                     )}
                   </div>
+                  {variableCosts.length > 0 && (
+                    <select
+                      value={currentLimit?.variableCostId ?? ''}
+                      onChange={(e) => updateTierLimitCostLink(selectedTierId, feature.id, e.target.value)}
+                      className="input-field text-xs sm:text-sm py-1.5 mt-2"
+                      aria-label={`Cost item for ${feature.name}`}
+                    >
+                      <option value="">{feature.costDriver ? 'Auto (feature cost driver)' : 'No cost'}</option>
+                      {variableCosts.map(cost => (
+                        <option key={cost.id} value={cost.id}>{cost.name}</option>
+                      ))}
+                    </select>
+                  )}
                   <div className="flex gap-2 mt-2 sm:mt-3">
                     <input
                       type="number"
@@ -486,6 +632,40 @@ export function TierConfigurator() {
                       <span className="sm:hidden">{isUnlimited ? '∞' : 'Set'}</span>
                     </button>
                   </div>
+                  {currentLimit && typeof limitValue === 'number' && (
+                    <div className="mt-2">
+                      <label className="flex items-center gap-2 text-[10px] sm:text-xs text-gray-500">
+                        <span className="whitespace-nowrap">Overage ({currency}/unit)</span>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={currentLimit.overagePrice ?? ''}
+                          onChange={(e) => updateTierLimitPricing(selectedTierId, feature.id, {
+                            overagePrice: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)),
+                          })}
+                          placeholder="Hard limit"
+                          className="input-field text-xs sm:text-sm py-1.5"
+                        />
+                      </label>
+                      {getOverageLabel(currentLimit, currency) && (
+                        <p className="text-[10px] sm:text-xs text-gray-500 mt-1">
+                          {limitValue} {feature.limitUnit} included, {getOverageLabel(currentLimit, currency)}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                  {currentLimit && selectedTier.seatPricing && typeof limitValue !== 'boolean' && (
+                    <label className="flex items-center gap-2 mt-2 text-[10px] sm:text-xs text-gray-500 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={!!currentLimit.perSeat}
+                        onChange={(e) => updateTierLimitPricing(selectedTierId, feature.id, { perSeat: e.target.checked || undefined })}
+                        className="rounded-[0.2rem]"
+                      />
+                      Limit applies per seat
+                    </label>
+                  )}
                 </div>
               );
             })}
@@ -0,0 +1,255 @@
+/**
+ * CostImportModal component
+ * Imports vendor bills (CSV or .xlsx) as cost items, with a column-mapping step
+ */
+
+import { useMemo, useState } from 'react';
+import { FileArrowUp, Spinner, Warning, X } from '@phosphor-icons/react';
+import {
+  COST_IMPORT_FIELDS,
+  guessCostImportMapping,
+  importCostRows,
+  isCompleteCostImportMapping,
+  type CostImportField,
+  type CostImportMapping,
+} from '@basedpricer/core';
+import { useEscapeKey, useFocusTrap } from '../../hooks';
+import { applyCostImport, readCostFile, type CostLists, type DuplicateHandling } from '../../utils/costImport';
+
+interface CostImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  existing: CostLists;
+  customerCount: number;
+  currency: string;
+  onImport: (costs: CostLists) => void;
+}
+
+const fieldLabels: Record<CostImportField, { label: string; required?: boolean }> = {
+  name: { label: 'Vendor / name', required: true },
+  amount: { label: 'Amount', required: true },
+  period: { label: 'Billing period' },
+  usage: { label: 'Usage' },
+  unit: { label: 'Usage unit' },
+  type: { label: 'Fixed / variable' },
+};
+
+export function CostImportModal({ isOpen, onClose, existing, customerCount, currency, onImport }: CostImportModalProps) {
+  const modalRef = useFocusTrap<HTMLDivElement>(isOpen);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<string[][] | null>(null);
+  const [mapping, setMapping] = useState<Partial<CostImportMapping>>({});
+  const [duplicateHandling, setDuplicateHandling] = useState<DuplicateHandling>('skip');
+  const [isReading, setIsReading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClose = () => {
+    setFileName(null);
+    setRows(null);
+    setMapping({});
+    setError(null);
+    onClose();
+  };
+  useEscapeKey(handleClose, isOpen);
+
+  const headers = rows?.[0] ?? [];
+
+  // Preview of what will be imported with the current mapping
+  const result = useMemo(() => {
+    if (!rows || !isCompleteCostImportMapping(mapping)) return null;
+    return importCostRows(rows.slice(1), { mapping, customerCount, existing });
+  }, [rows, mapping, customerCount, existing]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so selecting the same file again still triggers onChange
+    e.target.value = '';
+    if (!file) return;
+
+    setIsReading(true);
+    setError(null);
+    try {
+      const parsed = await readCostFile(file);
+      if (parsed.length < 2) {
+        throw new Error('The file needs a header row and at least one bill');
+      }
+      setFileName(file.name);
+      setRows(parsed);
+      setMapping(guessCostImportMapping(parsed[0]));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the file');
+      setRows(null);
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleMappingChange = (field: CostImportField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') delete next[field];
+      else next[field] = Number(value);
+      return next;
+    });
+  };
+
+  const handleImport = () => {
+    if (!result) return;
+    onImport(applyCostImport(existing, result, duplicateHandling));
+    handleClose();
+  };
+
+  if (!isOpen) return null;
+
+  const duplicateIds = new Set(result?.duplicates.map(d => d.id));
+  const importCount = result
+    ? result.variableCosts.length + result.fixedCosts.length -
+      (duplicateHandling === 'skip' ? result.duplicates.length : 0)
+    : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4" role="presentation">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/20 backdrop-blur-sm"
+        onClick={handleClose}
+        aria-hidden="true"
+      />
+      {/* Modal */}
+      <div
+        ref={modalRef}
+        role="dialog"
+        aria-labelledby="cost-import-title"
+        className="relative bg-white rounded-xl shadow-2xl p-5 sm:p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto animate-in fade-in zoom-in-95 duration-200"
+      >
+        <button
+          onClick={handleClose}
+          className="absolute top-3 right-3 p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+        >
+          <X size={16} />
+        </button>
+
+        <h3 id="cost-import-title" className="font-semibold text-gray-900 text-sm sm:text-base">
+          Import costs from bills
+        </h3>
+        <p className="text-sm text-gray-500 mt-1">
+          Upload a CSV or Excel export of your invoices. Bills with usage become variable costs spread over{' '}
+          {customerCount.toLocaleString()} customers; the rest become monthly fixed costs.
+        </p>
+
+        {/* File */}
+        <label className="mt-4 flex items-center justify-center gap-2 px-4 py-3 border border-dashed border-gray-300 rounded-lg text-sm text-gray-600 hover:bg-gray-50 cursor-pointer transition-colors">
+          {isReading ? <Spinner size={16} className="animate-spin" /> : <FileArrowUp size={16} />}
+          {fileName ?? 'Choose a .csv or .xlsx file'}
+          <input type="file" accept=".csv,.xlsx,text/csv" onChange={handleFile} className="hidden" />
+        </label>
+        {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+
+        {rows && (
+          <>
+            {/* Column mapping */}
+            <div className="mt-5">
+              <p className="text-xs font-medium text-gray-700 mb-2">Match your columns</p>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                {COST_IMPORT_FIELDS.map(field => (
+                  <label key={field} className="text-xs text-gray-500">
+                    {fieldLabels[field].label}
+                    {fieldLabels[field].required && <span className="text-red-500"> *</span>}
+                    <select
+                      value={mapping[field] ?? ''}
+                      onChange={(e) => handleMappingChange(field, e.target.value)}
+                      className="mt-1 w-full px-2 py-1.5 text-sm text-gray-900 border border-gray-200 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-[#253ff6]/20"
+                    >
+                      <option value="">—</option>
+                      {headers.map((header, index) => (
+                        <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {/* Preview */}
+            {result ? (
+              <div className="mt-5">
+                <p className="text-xs font-medium text-gray-700 mb-2">Preview (monthly)</p>
+                <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 text-sm">
+                  {[...result.variableCosts, ...result.fixedCosts].map(item => (
+                    <div key={item.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                      <div className="min-w-0 flex items-center gap-2">
+                        <span className="truncate text-gray-900">{item.name}</span>
+                        {duplicateIds.has(item.id) && (
+                          <span className="text-[10px] px-1.5 py-0.5 rounded bg-amber-50 text-amber-700 font-medium">
+                            Duplicate
+                          </span>
+                        )}
+                      </div>
+                      <span className="text-gray-500 font-mono text-xs whitespace-nowrap">
+                        {'monthlyCost' in item
+                          ? `Fixed · ${currency} ${item.monthlyCost.toFixed(2)}`
+                          : `Variable · ${currency} ${item.costPerUnit.toPrecision(3)}/${item.unit} × ${item.usagePerCustomer.toLocaleString(undefined, { maximumFractionDigits: 2 })}`}
+                      </span>
+                    </div>
+                  ))}
+                  {result.variableCosts.length + result.fixedCosts.length === 0 && (
+                    <p className="px-3 py-2 text-gray-400">No cost items found</p>
+                  )}
+                </div>
+
+                {result.duplicates.length > 0 && (
+                  <div className="mt-3 flex flex-wrap items-center gap-3 text-xs text-gray-600">
+                    <span>
+                      {result.duplicates.length} already in your costs:
+                    </span>
+                    {(['skip', 'replace'] as const).map(option => (
+                      <label key={option} className="flex items-center gap-1.5">
+                        <input
+                          type="radio"
+                          name="duplicate-handling"
+                          checked={duplicateHandling === option}
+                          onChange={() => setDuplicateHandling(option)}
+                        />
+                        {option === 'skip' ? 'Keep existing' : 'Replace with imported'}
+                      </label>
+                    ))}
+                  </div>
+                )}
+
+                {result.warnings.length > 0 && (
+                  <div className="mt-3 p-3 bg-amber-50 border border-amber-100 rounded-lg text-xs text-amber-800">
+                    <p className="flex items-center gap-1.5 font-medium mb-1">
+                      <Warning size={12} /> {result.warnings.length} row{result.warnings.length === 1 ? '' : 's'} need attention
+                    </p>
+                    <ul className="space-y-0.5">
+                      {result.warnings.map(warning => <li key={warning}>{warning}</li>)}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            ) : (
+              <p className="mt-4 text-xs text-gray-500">Choose the name and amount columns to see a preview.</p>
+            )}
+          </>
+        )}
+
+        {/* Actions */}
+        <div className="flex gap-3 mt-5 sm:mt-6">
+          <button
+            onClick={handleClose}
+            className="flex-1 px-4 py-2.5 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 active:bg-gray-300 rounded-lg transition-colors touch-manipulation"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={importCount === 0}
+            className="flex-1 px-4 py-2.5 text-sm font-medium text-white bg-[#253ff6] hover:bg-[#1a2eb8] active:opacity-90 rounded-lg transition-colors touch-manipulation disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Import {importCount > 0 ? `${importCount} item${importCount === 1 ? '' : 's'}` : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,5 @@
+/**
+ * Costs components barrel export
+ */
+
+export { CostImportModal } from './CostImportModal';
@@ -0,0 +1,155 @@
+/**
+ * ExchangeRatePanel component
+ * Show the rates market prices convert at, fetch live rates or enter a manual table
+ */
+
+import { useState } from 'react';
+import { ArrowsClockwise, CurrencyCircleDollar, PencilSimple } from '@phosphor-icons/react';
+import {
+  CURRENCY_CODES,
+  rebaseExchangeRates,
+  type CurrencyCode,
+  type ExchangeRates,
+} from '@basedpricer/core';
+import { describeExchangeRates } from '../../utils/currency';
+
+interface ExchangeRatePanelProps {
+  rates: ExchangeRates;
+  /** Project currency the rates are shown against */
+  baseCurrency: string;
+  /** Currencies to list; the rest keep their current rates when manual rates are saved */
+  currencies: string[];
+  onRefresh: () => Promise<void>;
+  /** Save a manual rate table, or clear it with null */
+  onSaveManual: (rates: ExchangeRates | null) => void;
+}
+
+export function ExchangeRatePanel({ rates, baseCurrency, currencies, onRefresh, onSaveManual }: ExchangeRatePanelProps) {
+  // Web currency codes are loosely typed; the code picker only offers CURRENCIES
+  const base = baseCurrency as CurrencyCode;
+  const baseRates = rebaseExchangeRates(rates, base);
+  const quoteCodes = CURRENCY_CODES.filter(code => code !== base && currencies.includes(code));
+
+  const [draft, setDraft] = useState<Record<string, string> | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const draftRates = draft && Object.fromEntries(
+    quoteCodes.map(code => [code, Number(draft[code])])
+  );
+  const draftValid = draftRates !== null
+    && Object.values(draftRates).every(rate => Number.isFinite(rate) && rate > 0);
+
+  const startEditing = () => {
+    setDraft(Object.fromEntries(quoteCodes.map(code => [code, String(Number(baseRates.rates[code].toFixed(4)))])));
+  };
+
+  const saveDraft = () => {
+    if (!draftRates || !draftValid) return;
+    onSaveManual({
+      base,
+      rates: { ...baseRates.rates, ...draftRates, [base]: 1 },
+      source: 'manual',
+      updatedAt: new Date().toISOString(),
+    });
+    setDraft(null);
+  };
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    try {
+      await onRefresh();
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  return (
+    <div className="card p-4 sm:p-6">
+      <div className="flex items-center justify-between gap-2 mb-1">
+        <div className="flex items-center gap-2">
+          <CurrencyCircleDollar size={18} weight="duotone" className="text-[#253ff6]" />
+          <h3 className="font-medium text-gray-900 text-sm sm:text-base">Exchange Rates</h3>
+        </div>
+        {!draft && (
+          <div className="flex items-center gap-1">
+            <button
+              onClick={startEditing}
+              title="Enter rates manually"
+              aria-label="Enter rates manually"
+              className="p-1.5 text-gray-500 hover:text-[#253ff6]"
+            >
+              <PencilSimple size={16} weight="duotone" />
+            </button>
+            <button
+              onClick={handleRefresh}
+              disabled={refreshing}
+              title="Fetch live rates"
+              aria-label="Fetch live rates"
+              className="p-1.5 text-gray-500 hover:text-[#253ff6] disabled:opacity-50"
+            >
+              <ArrowsClockwise size={16} weight="duotone" className={refreshing ? 'animate-spin' : ''} />
+            </button>
+          </div>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        {describeExchangeRates(rates)}.{' '}
+        {rates.source === 'manual' ? (
+          <button onClick={() => onSaveManual(null)} className="text-[#253ff6] hover:underline">
+            Stop using manual rates
+          </button>
+        ) : (
+          'Live rates are cached for 24 hours.'
+        )}
+      </p>
+
+      <div className="overflow-x-auto rounded-[0.2rem] border border-[#e4e4e4]">
+        <table className="w-full text-sm" aria-label={`Exchange rates against ${base}`}>
+          <thead>
+            <tr className="table-header">
+              <th scope="col" className="text-left py-2 px-3">Currency</th>
+              <th scope="col" className="text-right py-2 px-3">1 {base} =</th>
+            </tr>
+          </thead>
+          <tbody>
+            {quoteCodes.map(code => (
+              <tr key={code} className="table-row">
+                <td className="py-2 px-3 text-gray-900">{code}</td>
+                <td className="py-2 px-3 text-right font-mono text-gray-500">
+                  {draft ? (
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={draft[code]}
+                      onChange={(e) => setDraft(prev => prev && { ...prev, [code]: e.target.value })}
+                      aria-label={`${code} per ${base}`}
+                      className="input-field py-1 text-sm w-28 text-right font-mono"
+                    />
+                  ) : (
+                    baseRates.rates[code].toFixed(4)
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {draft && (
+        <div className="flex items-center gap-2 mt-3">
+          <button
+            onClick={saveDraft}
+            disabled={!draftValid}
+            className="btn-primary text-xs sm:text-sm py-2 px-4 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Use manual rates
+          </button>
+          <button onClick={() => setDraft(null)} className="text-xs sm:text-sm text-gray-500 hover:text-gray-700 px-2">
+            Cancel
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,9 +5,10 @@ import { getFeatureLimit } from '../../utils/features';
 
 interface FeatureComparisonTableProps {
   tiers: Tier[];
+  currency: string;
 }
 
-export function FeatureComparisonTable({ tiers }: FeatureComparisonTableProps) {
+export function FeatureComparisonTable({ tiers, currency }: FeatureComparisonTableProps) {
   return (
     <div className="bg-white rounded-[0.2rem] border border-gray-200 overflow-hidden">
       <div className="px-4 sm:px-6 py-4 sm:py-5 border-b border-gray-100">
@@ -48,7 +49,7 @@ export function FeatureComparisonTable({ tiers }: FeatureComparisonTableProps) {
                       </td>
                       {tiers.map((tier) => {
                         const isIncluded = tier.includedFeatures.includes(feature.id);
-                        const limit = getFeatureLimit(tier, feature.id);
+                        const limit = getFeatureLimit(tier, feature.id, currency);
                         return (
                           <td key={tier.id} className="py-2.5 sm:py-3.5 px-2 sm:px-4 text-center">
                             {isIncluded ? (
@@ -0,0 +1,143 @@
+/**
+ * PriceBookPanel component
+ * Edit a market's rounding, purchasing power and price overrides, with a margin check per tier
+ */
+
+import { Globe, Trash, Warning } from '@phosphor-icons/react';
+import type { MarketPricing, PriceBook, PriceRounding } from '@basedpricer/core';
+import { getTierMarginTextColor } from '../../utils/marginUtils';
+
+const roundingOptions: { id: PriceRounding; label: string }[] = [
+  { id: 'ninety_nine', label: 'Nearest .99' },
+  { id: 'whole', label: 'Whole units (.00)' },
+  { id: 'nearest_five', label: 'Nearest 5' },
+  { id: 'exact', label: 'Exact (cents)' },
+];
+
+interface PriceBookPanelProps {
+  book: PriceBook;
+  pricing: MarketPricing;
+  /** Project currency that tier prices are set in */
+  baseCurrency: string;
+  /** Where and when the exchange rate came from */
+  ratesNote: string;
+  onChange: (book: PriceBook) => void;
+  onRemove: () => void;
+}
+
+export function PriceBookPanel({ book, pricing, baseCurrency, ratesNote, onChange, onRemove }: PriceBookPanelProps) {
+  const setOverride = (tierId: string, value: string) => {
+    const overrides = Object.fromEntries(Object.entries(book.overrides).filter(([id]) => id !== tierId));
+    const price = Number(value);
+    if (value.trim() !== '' && Number.isFinite(price) && price >= 0) {
+      overrides[tierId] = price;
+    }
+    onChange({ ...book, overrides });
+  };
+
+  const lowMarginNames = pricing.tiers
+    .filter(tier => pricing.lowMarginTierIds.includes(tier.tierId))
+    .map(tier => tier.name);
+
+  return (
+    <div className="card p-4 sm:p-6">
+      <div className="flex items-center justify-between gap-2 mb-1">
+        <div className="flex items-center gap-2">
+          <Globe size={18} weight="duotone" className="text-[#253ff6]" />
+          <h3 className="font-medium text-gray-900 text-sm sm:text-base">{book.currency} Price Book</h3>
+        </div>
+        <button
+          onClick={onRemove}
+          title={`Remove ${book.currency} market`}
+          aria-label={`Remove ${book.currency} market`}
+          className="p-1.5 text-gray-500 hover:text-red-600"
+        >
+          <Trash size={16} weight="duotone" />
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        Prices convert from {baseCurrency} at 1 {baseCurrency} = {pricing.rate.toFixed(4)} {book.currency} ({ratesNote}),
+        then adjust for purchasing power and round. Enter a price to override a tier.
+        {book.tax && ` Prices ${book.tax.inclusive ? 'include' : 'exclude'} ${book.tax.label}; margins are net of it.`}
+      </p>
+
+      <div className="flex flex-wrap gap-4 mb-4 text-xs text-gray-600">
+        <label className="flex items-center gap-2">
+          Rounding
+          <select
+            value={book.rounding}
+            onChange={(e) => onChange({ ...book, rounding: e.target.value as PriceRounding })}
+            className="input-field py-1.5 text-sm w-40"
+          >
+            {roundingOptions.map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          Purchasing power
+          <input
+            type="number"
+            min={0.1}
+            max={2}
+            step={0.05}
+            value={book.purchasingPower}
+            onChange={(e) => {
+              const value = Number(e.target.value);
+              if (Number.isFinite(value) && value > 0) onChange({ ...book, purchasingPower: value });
+            }}
+            className="input-field py-1.5 text-sm w-20"
+          />
+          <span className="text-gray-400">× converted price</span>
+        </label>
+      </div>
+
+      <div className="overflow-x-auto rounded-[0.2rem] border border-[#e4e4e4] mb-3">
+        <table className="w-full text-sm" aria-label={`${book.currency} tier prices`}>
+          <thead>
+            <tr className="table-header">
+              <th scope="col" className="text-left py-2 px-3">Tier</th>
+              <th scope="col" className="text-right py-2 px-3">{baseCurrency}</th>
+              <th scope="col" className="text-right py-2 px-3">Derived</th>
+              <th scope="col" className="text-right py-2 px-3">Override</th>
+              <th scope="col" className="text-right py-2 px-3">Margin</th>
+            </tr>
+          </thead>
+          <tbody>
+            {pricing.tiers.map(tier => (
+              <tr key={tier.tierId} className="table-row">
+                <td className="py-2 px-3 text-gray-900">{tier.name}</td>
+                <td className="py-2 px-3 text-right font-mono text-gray-500">{tier.basePrice.toFixed(2)}</td>
+                <td className="py-2 px-3 text-right font-mono text-gray-500">{tier.derivedPrice.toFixed(2)}</td>
+                <td className="py-2 px-3 text-right">
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={book.overrides[tier.tierId] ?? ''}
+                    placeholder={tier.source === 'derived' ? tier.price.toFixed(2) : ''}
+                    onChange={(e) => setOverride(tier.tierId, e.target.value)}
+                    aria-label={`${tier.name} price in ${book.currency}`}
+                    className="input-field py-1 text-sm w-24 text-right font-mono"
+                  />
+                </td>
+                <td className={`py-2 px-3 text-right ${
+                  tier.marginHealth === null ? 'text-gray-400' : getTierMarginTextColor(tier.margin)
+                }`}>
+                  {tier.marginHealth === null ? 'Free' : `${tier.margin.toFixed(1)}%`}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {lowMarginNames.length > 0 && (
+        <p className="flex items-center gap-1.5 text-xs text-amber-700">
+          <Warning size={14} weight="duotone" />
+          Below a healthy margin in {book.currency}: {lowMarginNames.join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -19,9 +19,10 @@ export interface PriceSensitivityRow {
 
 interface PriceSensitivityTableProps {
   data: PriceSensitivityRow[];
+  currency: string;
 }
 
-export function PriceSensitivityTable({ data }: PriceSensitivityTableProps) {
+export function PriceSensitivityTable({ data, currency }: PriceSensitivityTableProps) {
   return (
     <div className="card p-6">
       <h3 className="font-medium text-gray-900 mb-4">Basic Tier Price Sensitivity</h3>
@@ -44,17 +45,17 @@ export function PriceSensitivityTable({ data }: PriceSensitivityTableProps) {
             }) => (
               <tr key={price} className={`table-row ${isCurrent ? 'bg-[rgba(37,63,246,0.04)]' : ''}`}>
                 <td className="py-3 px-4">
-                  <span className="font-semibold text-gray-900">MYR {price}</span>
+                  <span className="font-semibold text-gray-900">{currency} {price}</span>
                   {isCurrent && <span className="ml-2 text-xs text-[#253ff6]">(Current)</span>}
                 </td>
                 <td className="py-3 px-4 text-right font-mono text-gray-600">
-                  MYR {testRevenue.toLocaleString()}
+                  {currency} {testRevenue.toLocaleString()}
                 </td>
                 <td className={`py-3 px-4 text-right font-mono ${testGrossProfit >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
-                  MYR {testGrossProfit.toFixed(0)}
+                  {currency} {testGrossProfit.toFixed(0)}
                 </td>
                 <td className={`py-3 px-4 text-right font-mono ${testOperatingProfit >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
-                  MYR {testOperatingProfit.toFixed(0)}
+                  {currency} {testOperatingProfit.toFixed(0)}
                 </td>
                 <td className={`py-3 px-4 text-right font-semibold ${
                   testGrossMargin >= MARGIN_THRESHOLDS.HEALTHY ? 'text-emerald-600' : testGrossMargin >= MARGIN_THRESHOLDS.ACCEPTABLE ? 'text-amber-600' : 'text-red-600'
@@ -7,6 +7,7 @@ interface PricingCardProps {
   tier: Tier;
   config: TierConfig;
   billingCycle: BillingCycle;
+  currency: string;
   isEditMode?: boolean;
   ctaClicked?: boolean;
   onCardClick?: () => void;
@@ -17,6 +18,7 @@ export function PricingCard({
   tier,
   config,
   billingCycle,
+  currency,
   isEditMode = false,
   ctaClicked = false,
   onCardClick,
@@ -75,14 +77,14 @@ export function PricingCard({
             </div>
           ) : (
             <div className="flex items-baseline gap-1">
-              <span className="text-xs sm:text-sm font-medium text-gray-400">MYR</span>
+              <span className="text-xs sm:text-sm font-medium text-gray-400">{currency}</span>
               <span className="text-3xl sm:text-4xl font-bold text-gray-900 tracking-tight">{displayPrice}</span>
               <span className="text-xs sm:text-sm text-gray-400">/mo</span>
             </div>
           )}
           {billingCycle === 'annual' && config.monthlyPrice > 0 && !isCustom && (
             <p className="text-xs sm:text-sm text-emerald-600 mt-1.5 sm:mt-2 font-medium">
-              Save MYR {(config.monthlyPrice * 12 - config.annualPrice).toLocaleString()}/yr
+              Save {currency} {(config.monthlyPrice * 12 - config.annualPrice).toLocaleString()}/yr
             </p>
           )}
         </div>
@@ -114,7 +116,7 @@ export function PricingCard({
           </p>
           <div className="space-y-2.5 sm:space-y-3">
             {config.highlightedFeatures.slice(0, config.maxVisibleFeatures).map((featureId) => {
-              const limit = getFeatureLimit(tier, featureId);
+              const limit = getFeatureLimit(tier, featureId, currency);
               const isIncluded = tier.includedFeatures.includes(featureId);
               if (!isIncluded) return null;
 
@@ -17,6 +17,7 @@ interface PricingMetricsGridProps {
   grossMargin: number;
   operatingMargin: number;
   arpu: number;
+  currency: string;
 }
 
 export function PricingMetricsGrid({
@@ -24,6 +25,7 @@ export function PricingMetricsGrid({
   grossMargin,
   operatingMargin,
   arpu,
+  currency,
 }: PricingMetricsGridProps) {
   return (
     <div className="grid grid-cols-4 gap-4">
@@ -36,7 +38,7 @@ export function PricingMetricsGrid({
           </div>
         </div>
         <p className="text-2xl font-semibold text-gray-900 mt-2 font-mono tracking-tight">
-          MYR {totalMRR.toLocaleString()}
+          {currency} {totalMRR.toLocaleString()}
         </p>
         <p className="text-xs text-gray-400 mt-1">Recurring</p>
       </div>
@@ -78,7 +80,7 @@ export function PricingMetricsGrid({
           </div>
         </div>
         <p className="text-2xl font-semibold text-gray-900 mt-2 font-mono tracking-tight">
-          MYR {arpu.toFixed(0)}
+          {currency} {arpu.toFixed(0)}
         </p>
         <p className="text-xs text-gray-400 mt-1">Per paying user</p>
       </div>
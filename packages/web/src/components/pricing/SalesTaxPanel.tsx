@@ -0,0 +1,92 @@
+/**
+ * SalesTaxPanel component
+ * Set a market's VAT/GST/SST rate and whether its prices already include it
+ */
+
+import { Receipt } from '@phosphor-icons/react';
+import type { TaxSettings } from '@basedpricer/core';
+
+// Usual name of the sales tax in a currency's main market; others use 'Tax'
+const TAX_LABELS: Record<string, string> = {
+  MYR: 'SST',
+  SGD: 'GST',
+  AUD: 'GST',
+  NZD: 'GST',
+  INR: 'GST',
+  CAD: 'GST',
+  EUR: 'VAT',
+  GBP: 'VAT',
+};
+
+interface SalesTaxPanelProps {
+  /** Currency of the market the tax applies to */
+  currency: string;
+  tax?: TaxSettings;
+  /** Set the market's tax, or clear it with null */
+  onChange: (tax: TaxSettings | null) => void;
+}
+
+export function SalesTaxPanel({ currency, tax, onChange }: SalesTaxPanelProps) {
+  const label = tax?.label ?? TAX_LABELS[currency] ?? 'Tax';
+  const inclusive = tax?.inclusive ?? true;
+
+  const setRate = (value: string) => {
+    const percent = Number(value);
+    if (value.trim() === '' || percent === 0) {
+      onChange(null);
+    } else if (Number.isFinite(percent) && percent > 0 && percent <= 100) {
+      onChange({ rate: percent / 100, inclusive, label });
+    }
+  };
+
+  return (
+    <div className="card p-4 sm:p-6">
+      <div className="flex items-center gap-2 mb-1">
+        <Receipt size={18} weight="duotone" className="text-[#253ff6]" />
+        <h3 className="font-medium text-gray-900 text-sm sm:text-base">{currency} Sales Tax</h3>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        Margins and reports count revenue net of tax. Leave the rate empty if prices are tax-free.
+      </p>
+
+      <div className="flex flex-wrap gap-4 text-xs text-gray-600">
+        <label className="flex items-center gap-2">
+          Rate
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step={0.5}
+            value={tax ? Number((tax.rate * 100).toFixed(2)) : ''}
+            placeholder="0"
+            onChange={(e) => setRate(e.target.value)}
+            className="input-field py-1.5 text-sm w-20"
+          />
+          <span className="text-gray-400">%</span>
+        </label>
+        <label className="flex items-center gap-2">
+          Name
+          <input
+            type="text"
+            value={label}
+            disabled={!tax}
+            onChange={(e) => tax && e.target.value.trim() && onChange({ ...tax, label: e.target.value })}
+            className="input-field py-1.5 text-sm w-24 disabled:opacity-50"
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          Prices
+          <select
+            value={inclusive ? 'inclusive' : 'exclusive'}
+            disabled={!tax}
+            onChange={(e) => tax && onChange({ ...tax, inclusive: e.target.value === 'inclusive' })}
+            className="input-field py-1.5 text-sm w-44 disabled:opacity-50"
+          >
+            <option value="inclusive">include {label}</option>
+            <option value="exclusive">exclude {label} (added at checkout)</option>
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+/**
+ * ScenarioComparison component
+ * Side-by-side MRR, margin, LTV:CAC and break-even for 2-4 saved scenarios
+ */
+
+import { useMemo, useState } from 'react';
+import { Columns } from '@phosphor-icons/react';
+import {
+  calculateScenarioMetrics,
+  type FixedCostItem,
+  type ScenarioMetrics,
+  type VariableCostItem,
+} from '@basedpricer/core';
+import type { Scenario } from '../../data/scenarios';
+import type { Tier } from '../../data/tiers';
+import type { Feature } from '../../data/features';
+
+const MIN_SELECTED = 2;
+const MAX_SELECTED = 4;
+
+interface ScenarioComparisonProps {
+  scenarios: Scenario[];
+  tiers: Tier[];
+  features: Feature[];
+  variableCosts: VariableCostItem[];
+  fixedCosts: FixedCostItem[];
+  utilizationRate: number;
+  /** Customer count for scenarios saved without one */
+  customerCount: number;
+  currency: string;
+}
+
+interface MetricRow {
+  label: string;
+  value: (metrics: ScenarioMetrics) => number | null;
+  format: (value: number, currency: string) => string;
+  /** Which direction is better, for highlighting; omitted rows are not compared */
+  better?: 'high' | 'low';
+}
+
+const formatAmount = (value: number, currency: string) => `${currency} ${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+const metricRows: MetricRow[] = [
+  { label: 'Customers', value: m => m.customerCount, format: v => v.toLocaleString() },
+  { label: 'Paid customers', value: m => m.paidCustomers, format: v => v.toLocaleString() },
+  { label: 'MRR', value: m => m.mrr, format: formatAmount, better: 'high' },
+  { label: 'Gross margin', value: m => m.grossMargin, format: v => `${v.toFixed(1)}%`, better: 'high' },
+  { label: 'Operating profit', value: m => m.operatingProfit, format: formatAmount, better: 'high' },
+  { label: 'ARPU', value: m => m.arpu, format: (v, currency) => `${currency} ${v.toFixed(2)}` },
+  { label: 'LTV', value: m => m.ltv, format: formatAmount },
+  { label: 'LTV:CAC', value: m => m.ltvCacRatio, format: v => `${v.toFixed(1)}:1`, better: 'high' },
+  { label: 'Break-even', value: m => m.breakEvenCustomers, format: v => `${v.toLocaleString()} paid`, better: 'low' },
+];
+
+export function ScenarioComparison({
+  scenarios,
+  tiers,
+  features,
+  variableCosts,
+  fixedCosts,
+  utilizationRate,
+  customerCount,
+  currency,
+}: ScenarioComparisonProps) {
+  const [selectedNames, setSelectedNames] = useState<string[]>(
+    () => scenarios.slice(0, MAX_SELECTED).map(s => s.name)
+  );
+
+  // Drop names of deleted scenarios and keep saved order
+  const selected = useMemo(
+    () => scenarios.filter(s => selectedNames.includes(s.name)),
+    [scenarios, selectedNames]
+  );
+
+  const toggleScenario = (name: string) => {
+    setSelectedNames(prev => prev.includes(name) ? prev.filter(n => n !== name) : [...prev, name]);
+  };
+
+  const results = useMemo(
+    () => selected.map(scenario => calculateScenarioMetrics({
+      scenario,
+      tiers,
+      features,
+      variableCosts,
+      fixedCosts,
+      utilizationRate,
+      customerCount,
+    })),
+    [selected, tiers, features, variableCosts, fixedCosts, utilizationRate, customerCount]
+  );
+
+  const bestValue = (row: MetricRow): number | null => {
+    if (!row.better || results.length < MIN_SELECTED) return null;
+    const values = results.map(row.value).filter((v): v is number => v !== null);
+    if (values.length === 0) return null;
+    return row.better === 'high' ? Math.max(...values) : Math.min(...values);
+  };
+
+  return (
+    <div className="card p-6">
+      <div className="flex items-center gap-2 mb-1">
+        <Columns size={18} weight="duotone" className="text-[#253ff6]" />
+        <h3 className="font-medium text-gray-900">Compare Scenarios</h3>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        Pick {MIN_SELECTED}-{MAX_SELECTED} saved scenarios. Each uses its own customer mix, churn, customer count, prices and CAC.
+      </p>
+
+      {scenarios.length < MIN_SELECTED ? (
+        <p className="text-sm text-gray-400 text-center py-4">Save at least two scenarios to compare them.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2 mb-4">
+            {scenarios.map(scenario => {
+              const isSelected = selectedNames.includes(scenario.name);
+              const disabled = isSelected
+                ? selected.length <= MIN_SELECTED
+                : selected.length >= MAX_SELECTED;
+              return (
+                <label
+                  key={scenario.name}
+                  className={`flex items-center gap-1.5 text-xs px-2.5 py-1 rounded-[0.2rem] border ${
+                    isSelected ? 'border-[#253ff6] text-[#253ff6]' : 'border-gray-200 text-gray-600'
+                  } ${disabled ? 'opacity-50' : 'cursor-pointer'}`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={isSelected}
+                    disabled={disabled}
+                    onChange={() => toggleScenario(scenario.name)}
+                  />
+                  {scenario.name}
+                </label>
+              );
+            })}
+          </div>
+
+          {results.length < MIN_SELECTED ? (
+            <p className="text-sm text-gray-400 text-center py-4">Select at least two scenarios.</p>
+          ) : (
+            <div className="overflow-x-auto rounded-[0.2rem] border border-[#e4e4e4]">
+              <table className="w-full text-sm" aria-label="Scenario comparison">
+                <thead>
+                  <tr className="table-header">
+                    <th scope="col" className="text-left py-2 px-3">Metric</th>
+                    {results.map(result => (
+                      <th key={result.name} scope="col" className="text-right py-2 px-3">{result.name}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {metricRows.map(row => {
+                    const best = bestValue(row);
+                    return (
+                      <tr key={row.label} className="table-row">
+                        <th scope="row" className="text-left py-2 px-3 font-normal text-gray-600">{row.label}</th>
+                        {results.map(result => {
+                          const value = row.value(result);
+                          return (
+                            <td
+                              key={result.name}
+                              className={`py-2 px-3 text-right font-mono ${
+                                value !== null && value === best ? 'font-semibold text-[#253ff6]' : 'text-gray-900'
+                              }`}
+                            >
+                              {value === null ? '—' : row.format(value, currency)}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,37 +1,115 @@
 /**
  * ScenarioSelector component
- * Allows users to switch between different pricing scenarios (Early Stage, Growth, Mature)
+ * Switch between saved pricing scenarios, and save or delete them
  */
 
-export interface Scenario {
-  name: string;
-  distribution: Record<string, number>;
-  monthlyChurnRate: number;
-  conversionRate: number;
-}
+import { useState, type FormEvent } from 'react';
+import { FloppyDisk, Plus, Trash } from '@phosphor-icons/react';
+import type { Scenario } from '../../data/scenarios';
+
+export type { Scenario };
 
 interface ScenarioSelectorProps {
   scenarios: Scenario[];
   selectedScenario: Scenario;
   onSelect: (scenario: Scenario) => void;
+  /** Whether the selected scenario has unsaved edits */
+  isModified?: boolean;
+  /** Save the current inputs under a scenario name, replacing any scenario with that name */
+  onSave?: (name: string) => void;
+  onDelete?: (name: string) => void;
 }
 
-export function ScenarioSelector({ scenarios, selectedScenario, onSelect }: ScenarioSelectorProps) {
+export function ScenarioSelector({
+  scenarios,
+  selectedScenario,
+  onSelect,
+  isModified = false,
+  onSave,
+  onDelete,
+}: ScenarioSelectorProps) {
+  const [newName, setNewName] = useState<string | null>(null);
+
+  const handleSaveAs = (e: FormEvent) => {
+    e.preventDefault();
+    const name = newName?.trim();
+    if (!name || !onSave) return;
+    onSave(name);
+    setNewName(null);
+  };
+
   return (
-    <div className="flex items-center gap-1 bg-gray-100/80 p-1 rounded-[0.2rem]">
-      {scenarios.map((s) => (
-        <button
-          key={s.name}
-          onClick={() => onSelect(s)}
-          className={`px-4 py-1.5 text-sm font-medium rounded-[0.2rem] transition-all duration-200 ${
-            selectedScenario.name === s.name
-              ? 'bg-white text-gray-900 shadow-sm'
-              : 'text-gray-500 hover:text-gray-700'
-          }`}
-        >
-          {s.name}
-        </button>
-      ))}
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="flex items-center gap-1 bg-gray-100/80 p-1 rounded-[0.2rem]">
+        {scenarios.map((s) => (
+          <button
+            key={s.name}
+            onClick={() => onSelect(s)}
+            className={`px-4 py-1.5 text-sm font-medium rounded-[0.2rem] transition-all duration-200 ${
+              selectedScenario.name === s.name
+                ? 'bg-white text-gray-900 shadow-sm'
+                : 'text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            {s.name}
+            {selectedScenario.name === s.name && isModified && (
+              <span className="text-amber-500 ml-0.5" title="Unsaved changes">*</span>
+            )}
+          </button>
+        ))}
+      </div>
+
+      {onSave && (
+        newName === null ? (
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => onSave(selectedScenario.name)}
+              disabled={!isModified}
+              title={`Save changes to ${selectedScenario.name}`}
+              aria-label={`Save changes to ${selectedScenario.name}`}
+              className="p-1.5 text-gray-500 hover:text-[#253ff6] disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <FloppyDisk size={16} weight="duotone" />
+            </button>
+            <button
+              onClick={() => setNewName('')}
+              title="Save as new scenario"
+              aria-label="Save as new scenario"
+              className="p-1.5 text-gray-500 hover:text-[#253ff6]"
+            >
+              <Plus size={16} weight="bold" />
+            </button>
+            {onDelete && scenarios.length > 1 && (
+              <button
+                onClick={() => onDelete(selectedScenario.name)}
+                title={`Delete ${selectedScenario.name}`}
+                aria-label={`Delete ${selectedScenario.name}`}
+                className="p-1.5 text-gray-500 hover:text-red-600"
+              >
+                <Trash size={16} weight="duotone" />
+              </button>
+            )}
+          </div>
+        ) : (
+          <form onSubmit={handleSaveAs} className="flex items-center gap-1">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="Scenario name"
+              aria-label="New scenario name"
+              autoFocus
+              className="input-field py-1 text-sm w-36"
+            />
+            <button type="submit" disabled={!newName.trim()} className="btn-primary text-xs py-1.5 px-3 disabled:opacity-50">
+              Save
+            </button>
+            <button type="button" onClick={() => setNewName(null)} className="text-xs text-gray-500 hover:text-gray-700 px-2">
+              Cancel
+            </button>
+          </form>
+        )
+      )}
     </div>
   );
 }
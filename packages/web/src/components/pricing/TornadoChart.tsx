@@ -0,0 +1,124 @@
+/**
+ * TornadoChart component
+ * Ranks which model assumptions move gross margin and monthly profit the most
+ */
+
+import { useMemo, useState } from 'react';
+import {
+  calculateTornadoSensitivity,
+  type TornadoMetric,
+  type TornadoParams,
+} from '@basedpricer/core';
+
+const MAX_BARS = 10;
+const SWING_OPTIONS = [10, 20, 30, 50];
+
+const metricOptions: { id: TornadoMetric; label: string; format: (value: number, currency: string) => string }[] = [
+  { id: 'monthlyProfit', label: 'Monthly profit', format: (v, currency) => `${currency} ${v.toLocaleString(undefined, { maximumFractionDigits: 0 })}` },
+  { id: 'grossMargin', label: 'Gross margin', format: v => `${v.toFixed(1)}%` },
+];
+
+interface TornadoChartProps {
+  /** Model inputs at their baseline values */
+  params: Omit<TornadoParams, 'swingPercent' | 'rankBy'>;
+  currency: string;
+}
+
+export function TornadoChart({ params, currency }: TornadoChartProps) {
+  const [swingPercent, setSwingPercent] = useState(20);
+  const [rankBy, setRankBy] = useState<TornadoMetric>('monthlyProfit');
+
+  const result = useMemo(
+    () => calculateTornadoSensitivity({ ...params, swingPercent, rankBy }),
+    [params, swingPercent, rankBy]
+  );
+
+  const metric = metricOptions.find(m => m.id === rankBy) ?? metricOptions[0];
+  const format = (value: number) => metric.format(value, currency);
+  const baseline = result.baseline[rankBy];
+  const bars = result.bars.filter(bar => bar.spread > 0).slice(0, MAX_BARS);
+  // Scale bars to the largest move away from the baseline on either side
+  const scale = Math.max(
+    ...bars.flatMap(bar => [Math.abs(bar.low[rankBy] - baseline), Math.abs(bar.high[rankBy] - baseline)]),
+    Number.EPSILON
+  );
+  const toPercent = (value: number) => 50 + ((value - baseline) / scale) * 50;
+
+  return (
+    <div className="card p-6">
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3 mb-4">
+        <div>
+          <h3 className="font-medium text-gray-900">Sensitivity (Tornado)</h3>
+          <p className="text-xs text-gray-500 mt-1">
+            Each assumption moved ±{swingPercent}% on its own, read at month {result.months}.
+            Baseline {metric.label.toLowerCase()}: {format(baseline)}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex rounded-[0.2rem] border border-gray-200 overflow-hidden">
+            {metricOptions.map(option => (
+              <button
+                key={option.id}
+                onClick={() => setRankBy(option.id)}
+                className={`text-xs px-2.5 py-1 transition-colors ${
+                  rankBy === option.id ? 'bg-[#253ff6] text-white' : 'bg-white text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <select
+            value={swingPercent}
+            onChange={(e) => setSwingPercent(Number(e.target.value))}
+            className="text-xs bg-white border border-gray-200 rounded px-1.5 py-1"
+            aria-label="Change applied to each assumption"
+          >
+            {SWING_OPTIONS.map(option => (
+              <option key={option} value={option}>±{option}%</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {bars.length === 0 ? (
+        <p className="text-sm text-gray-400 text-center py-4">Add costs and customers to see which assumptions matter most.</p>
+      ) : (
+        <div className="space-y-2">
+          {bars.map(bar => {
+            const low = toPercent(bar.low[rankBy]);
+            const high = toPercent(bar.high[rankBy]);
+            return (
+              <div key={bar.id} className="grid grid-cols-[minmax(0,11rem)_1fr] items-center gap-3">
+                <div className="min-w-0">
+                  <p className="text-xs text-gray-700 truncate" title={bar.label}>{bar.label}</p>
+                  <p className="text-[10px] text-gray-400">
+                    {format(bar.low[rankBy])} / {format(bar.high[rankBy])}
+                  </p>
+                </div>
+                <div
+                  className="relative h-5 bg-gray-50 rounded"
+                  title={`-${swingPercent}%: ${format(bar.low[rankBy])} · +${swingPercent}%: ${format(bar.high[rankBy])}`}
+                >
+                  <div className="absolute inset-y-0 left-1/2 w-px bg-gray-300" />
+                  {/* Decrease shaded lighter, increase darker */}
+                  <div
+                    className="absolute inset-y-0.5 rounded-sm bg-[#253ff6]/30"
+                    style={{ left: `${Math.min(low, 50)}%`, width: `${Math.abs(low - 50)}%` }}
+                  />
+                  <div
+                    className="absolute inset-y-0.5 rounded-sm bg-[#253ff6]"
+                    style={{ left: `${Math.min(high, 50)}%`, width: `${Math.abs(high - 50)}%` }}
+                  />
+                </div>
+              </div>
+            );
+          })}
+          <p className="text-[11px] text-gray-400 pt-1">
+            Light bars show the assumption {swingPercent}% lower, dark bars {swingPercent}% higher.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
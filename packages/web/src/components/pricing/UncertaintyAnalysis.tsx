@@ -0,0 +1,220 @@
+/**
+ * UncertaintyAnalysis component
+ * Monte Carlo ranges for COGS, margin and break-even from uncertain cost inputs
+ */
+
+import { useMemo, useState } from 'react';
+import {
+  simulateMonteCarlo,
+  type CostDistribution,
+  type FixedCostItem,
+  type SimulationSummary,
+  type VariableCostItem,
+} from '@basedpricer/core';
+import {
+  createDefaultDistribution,
+  hasCostDistributions,
+  setCostDistribution,
+  updateDistributionValue,
+  type DistributionType,
+} from '../../utils/uncertainty';
+
+type Metric = 'cogsPerCustomer' | 'grossMargin' | 'breakEvenCustomers';
+
+const metrics: { id: Metric; label: string; format: (value: number, currency: string) => string }[] = [
+  { id: 'cogsPerCustomer', label: 'COGS / customer', format: (v, currency) => `${currency} ${v.toFixed(2)}` },
+  { id: 'grossMargin', label: 'Gross margin', format: v => `${v.toFixed(1)}%` },
+  { id: 'breakEvenCustomers', label: 'Break-even customers', format: v => Math.ceil(v).toLocaleString() },
+];
+
+interface UncertaintyAnalysisProps {
+  variableCosts: VariableCostItem[];
+  fixedCosts: FixedCostItem[];
+  /** Revenue per paying customer */
+  price: number;
+  customerCount: number;
+  utilizationRate: number;
+  currency: string;
+  onVariableCostsChange: (costs: VariableCostItem[]) => void;
+  onFixedCostsChange: (costs: FixedCostItem[]) => void;
+}
+
+interface DistributionInputProps {
+  label: string;
+  estimate: number;
+  distribution?: CostDistribution;
+  onChange: (distribution: CostDistribution | undefined) => void;
+}
+
+function DistributionInput({ label, estimate, distribution, onChange }: DistributionInputProps) {
+  const inputClass = 'w-20 text-xs text-right bg-white border border-gray-200 rounded px-1.5 py-1 focus:outline-none focus:ring-1 focus:ring-[#253ff6]';
+  const update = (field: string, value: string) => {
+    if (distribution) onChange(updateDistributionValue(distribution, field, Number(value)));
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 text-xs text-gray-500">
+      <span className="w-16">{label}</span>
+      <select
+        value={distribution?.type ?? ''}
+        onChange={(e) => onChange(
+          e.target.value ? createDefaultDistribution(e.target.value as DistributionType, estimate) : undefined
+        )}
+        className="text-xs bg-white border border-gray-200 rounded px-1.5 py-1"
+        aria-label={`${label} distribution`}
+      >
+        <option value="">Fixed at {estimate.toLocaleString(undefined, { maximumFractionDigits: 4 })}</option>
+        <option value="triangular">Range</option>
+        <option value="normal">Normal</option>
+      </select>
+      {distribution?.type === 'triangular' && (
+        <>
+          <input type="number" min={0} value={distribution.min} onChange={(e) => update('min', e.target.value)} className={inputClass} aria-label={`${label} minimum`} />
+          <input type="number" min={0} value={distribution.likely} onChange={(e) => update('likely', e.target.value)} className={inputClass} aria-label={`${label} most likely`} />
+          <input type="number" min={0} value={distribution.max} onChange={(e) => update('max', e.target.value)} className={inputClass} aria-label={`${label} maximum`} />
+        </>
+      )}
+      {distribution?.type === 'normal' && (
+        <>
+          <input type="number" min={0} value={distribution.mean} onChange={(e) => update('mean', e.target.value)} className={inputClass} aria-label={`${label} mean`} />
+          <span>±</span>
+          <input type="number" min={0} value={distribution.stdDev} onChange={(e) => update('stdDev', e.target.value)} className={inputClass} aria-label={`${label} standard deviation`} />
+        </>
+      )}
+    </div>
+  );
+}
+
+function Histogram({ summary, format }: { summary: SimulationSummary; format: (value: number) => string }) {
+  const maxCount = Math.max(...summary.histogram.map(bin => bin.count), 1);
+  return (
+    <div>
+      <div className="flex items-end gap-0.5 h-32" role="img" aria-label="Distribution of simulated outcomes">
+        {summary.histogram.map(bin => {
+          const isMiddle = bin.to >= summary.p10 && bin.from <= summary.p90;
+          return (
+            <div
+              key={bin.from}
+              title={`${format(bin.from)} – ${format(bin.to)}: ${bin.count} runs`}
+              className={`flex-1 rounded-t ${isMiddle ? 'bg-[#253ff6]' : 'bg-[#253ff6]/30'}`}
+              style={{ height: `${(bin.count / maxCount) * 100}%` }}
+            />
+          );
+        })}
+      </div>
+      <div className="flex justify-between text-[10px] text-gray-400 mt-1">
+        <span>{format(summary.min)}</span>
+        <span>{format(summary.max)}</span>
+      </div>
+    </div>
+  );
+}
+
+export function UncertaintyAnalysis({
+  variableCosts,
+  fixedCosts,
+  price,
+  customerCount,
+  utilizationRate,
+  currency,
+  onVariableCostsChange,
+  onFixedCostsChange,
+}: UncertaintyAnalysisProps) {
+  const [metric, setMetric] = useState<Metric>('grossMargin');
+  const hasDistributions = hasCostDistributions([...variableCosts, ...fixedCosts]);
+
+  const result = useMemo(
+    () => hasDistributions
+      ? simulateMonteCarlo({ variableCosts, fixedCosts, price, customerCount, utilizationRate })
+      : null,
+    [hasDistributions, variableCosts, fixedCosts, price, customerCount, utilizationRate]
+  );
+
+  const selected = metrics.find(m => m.id === metric) ?? metrics[0];
+  const summary = result?.[metric] ?? null;
+
+  return (
+    <div className="card p-6">
+      <h3 className="font-medium text-gray-900">Uncertainty (Monte Carlo)</h3>
+      <p className="text-xs text-gray-500 mt-1 mb-4">
+        Give uncertain inputs a range or normal distribution to see the spread of outcomes
+        at {currency} {price.toFixed(2)} per paying customer across {customerCount.toLocaleString()} customers.
+      </p>
+
+      {/* Inputs */}
+      <div className="space-y-3 mb-6">
+        {variableCosts.map(item => (
+          <div key={item.id} className="border-b border-gray-100 pb-2">
+            <p className="text-sm text-gray-700 mb-1">{item.name}</p>
+            <div className="space-y-1">
+              <DistributionInput
+                label={`Usage (${item.unit})`}
+                estimate={item.usagePerCustomer}
+                distribution={item.distributions?.usagePerCustomer}
+                onChange={(d) => onVariableCostsChange(setCostDistribution(variableCosts, item.id, 'usagePerCustomer', d))}
+              />
+              <DistributionInput
+                label="Unit cost"
+                estimate={item.costPerUnit}
+                distribution={item.distributions?.costPerUnit}
+                onChange={(d) => onVariableCostsChange(setCostDistribution(variableCosts, item.id, 'costPerUnit', d))}
+              />
+            </div>
+          </div>
+        ))}
+        {fixedCosts.map(item => (
+          <div key={item.id} className="border-b border-gray-100 pb-2">
+            <p className="text-sm text-gray-700 mb-1">{item.name}</p>
+            <DistributionInput
+              label="Monthly"
+              estimate={item.monthlyCost}
+              distribution={item.distributions?.monthlyCost}
+              onChange={(d) => onFixedCostsChange(setCostDistribution(fixedCosts, item.id, 'monthlyCost', d))}
+            />
+          </div>
+        ))}
+      </div>
+
+      {/* Results */}
+      {!result ? (
+        <p className="text-sm text-gray-400 text-center py-4">Add a range to at least one input to run the simulation.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4">
+            {metrics.map(m => {
+              const values = result[m.id];
+              return (
+                <button
+                  key={m.id}
+                  onClick={() => setMetric(m.id)}
+                  className={`text-left p-3 rounded-lg border transition-colors ${
+                    metric === m.id ? 'border-[#253ff6] bg-[rgba(37,63,246,0.04)]' : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <p className="text-xs text-gray-500">{m.label}</p>
+                  {values ? (
+                    <p className="text-sm font-semibold text-gray-900 mt-1">{m.format(values.p50, currency)}</p>
+                  ) : (
+                    <p className="text-sm font-semibold text-red-600 mt-1">Not reachable</p>
+                  )}
+                  {values && (
+                    <p className="text-[11px] text-gray-500">
+                      P10 {m.format(values.p10, currency)} · P90 {m.format(values.p90, currency)}
+                    </p>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+
+          {summary && <Histogram summary={summary} format={value => selected.format(value, currency)} />}
+          <p className="text-[11px] text-gray-400 mt-2">
+            {result.iterations.toLocaleString()} runs. Darker bars fall between P10 and P90.
+            {result.breakEvenUnreachableRate > 0 &&
+              ` In ${(result.breakEvenUnreachableRate * 100).toFixed(1)}% of runs price does not cover variable cost, so break-even is never reached.`}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
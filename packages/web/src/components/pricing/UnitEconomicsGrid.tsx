@@ -15,6 +15,7 @@ interface UnitEconomicsGridProps {
   freemiumCosts: number;
   freemiumCostPerUser: number;
   fixedCosts?: number;
+  currency: string;
 }
 
 export function UnitEconomicsGrid({
@@ -26,6 +27,7 @@ export function UnitEconomicsGrid({
   freemiumCosts,
   freemiumCostPerUser,
   fixedCosts = 0,
+  currency,
 }: UnitEconomicsGridProps) {
   const [showBreakEvenDetails, setShowBreakEvenDetails] = useState(false);
 
@@ -39,7 +41,7 @@ export function UnitEconomicsGrid({
         {/* LTV */}
         <div className="p-4 bg-gray-50 rounded-[0.2rem] border border-[#e4e4e4]">
           <p className="text-sm text-gray-500">LTV</p>
-          <p className="text-2xl font-bold text-gray-900 font-mono mt-1">MYR {ltv.toFixed(0)}</p>
+          <p className="text-2xl font-bold text-gray-900 font-mono mt-1">{currency} {ltv.toFixed(0)}</p>
           <p className="text-xs text-gray-500 mt-1">
             ARPU ÷ {monthlyChurnRate}% monthly churn
           </p>
@@ -78,21 +80,21 @@ export function UnitEconomicsGrid({
               <div className="bg-white p-2 rounded border border-gray-100 font-mono text-xs">
                 <div className="flex justify-between text-gray-600">
                   <span>Fixed Costs</span>
-                  <span>MYR {fixedCosts.toFixed(0)}</span>
+                  <span>{currency} {fixedCosts.toFixed(0)}</span>
                 </div>
                 {freemiumCosts > 0 && (
                   <div className="flex justify-between text-amber-600">
                     <span>+ Freemium Subsidy</span>
-                    <span>MYR {freemiumCosts.toFixed(0)}</span>
+                    <span>{currency} {freemiumCosts.toFixed(0)}</span>
                   </div>
                 )}
                 <div className="flex justify-between text-gray-600 border-t border-gray-100 pt-1 mt-1">
                   <span>= Total to Cover</span>
-                  <span>MYR {totalFixedCosts.toFixed(0)}</span>
+                  <span>{currency} {totalFixedCosts.toFixed(0)}</span>
                 </div>
                 <div className="flex justify-between text-gray-600 mt-2">
                   <span>÷ Contribution Margin</span>
-                  <span>MYR {contributionMargin.toFixed(0)}</span>
+                  <span>{currency} {contributionMargin.toFixed(0)}</span>
                 </div>
                 <div className="flex justify-between text-gray-900 font-semibold border-t border-gray-100 pt-1 mt-1">
                   <span>= Break-even</span>
@@ -100,17 +102,17 @@ export function UnitEconomicsGrid({
                 </div>
               </div>
               <p className="text-[10px] text-gray-400">
-                Each paying customer contributes MYR {contributionMargin.toFixed(0)}/mo towards covering fixed costs.
+                Each paying customer contributes {currency} {contributionMargin.toFixed(0)}/mo towards covering fixed costs.
               </p>
             </div>
           )}
 
           {!showBreakEvenDetails && freemiumCosts > 0 && (
             <p className="text-xs text-amber-600 mt-1">
-              Includes MYR {freemiumCosts.toFixed(2)} freemium subsidy
+              Includes {currency} {freemiumCosts.toFixed(2)} freemium subsidy
               {freemiumCostPerUser > 0 && (
                 <span className="block">
-                  (MYR {freemiumCostPerUser.toFixed(2)}/free user)
+                  ({currency} {freemiumCostPerUser.toFixed(2)}/free user)
                 </span>
               )}
             </p>
@@ -120,7 +122,7 @@ export function UnitEconomicsGrid({
         {/* Contribution Margin */}
         <div className="p-4 bg-gray-50 rounded-[0.2rem] border border-[#e4e4e4]">
           <p className="text-sm text-gray-500">Contribution Margin</p>
-          <p className="text-2xl font-bold text-gray-900 font-mono mt-1">MYR {contributionMargin.toFixed(0)}</p>
+          <p className="text-2xl font-bold text-gray-900 font-mono mt-1">{currency} {contributionMargin.toFixed(0)}</p>
           <p className="text-xs text-gray-500 mt-1">ARPU − Avg Variable Cost</p>
         </div>
 
@@ -128,7 +130,7 @@ export function UnitEconomicsGrid({
         <div className="p-4 bg-[rgba(37,63,246,0.06)] rounded-[0.2rem] border border-[rgba(37,63,246,0.15)]">
           <p className="text-sm text-[#253ff6]">Recommended CAC</p>
           <p className="text-2xl font-bold text-[#253ff6] font-mono mt-1">
-            MYR {(ltv / 5).toFixed(0)} - {(ltv / 3).toFixed(0)}
+            {currency} {(ltv / 5).toFixed(0)} - {(ltv / 3).toFixed(0)}
           </p>
           <p className="text-xs text-[#253ff6]/70 mt-1">LTV:CAC 3:1 to 5:1</p>
         </div>
@@ -12,3 +12,9 @@ export { PriceSensitivityTable, type PriceSensitivityRow } from './PriceSensitiv
 export { ScenarioSelector, type Scenario } from './ScenarioSelector';
 export { PricingMetricsGrid } from './PricingMetricsGrid';
 export { UnitEconomicsGrid } from './UnitEconomicsGrid';
+export { UncertaintyAnalysis } from './UncertaintyAnalysis';
+export { TornadoChart } from './TornadoChart';
+export { ScenarioComparison } from './ScenarioComparison';
+export { PriceBookPanel } from './PriceBookPanel';
+export { ExchangeRatePanel } from './ExchangeRatePanel';
+export { SalesTaxPanel } from './SalesTaxPanel';
@@ -1,11 +1,24 @@
-import { useMemo } from 'react';
-import { CurrencyDollar, TrendUp, Percent, ChartBar, Warning, CheckCircle } from '@phosphor-icons/react';
+import { useMemo, useState } from 'react';
+import {
+  CurrencyDollar,
+  TrendUp,
+  Percent,
+  ChartBar,
+  Warning,
+  CheckCircle,
+  FileXls,
+  FileCsv,
+  Spinner,
+} from '@phosphor-icons/react';
 import type { ReportData } from '../../utils/reportEncoder';
+import { downloadCostModelSpreadsheet, type SpreadsheetExportFormat } from '../../utils/reportSpreadsheet';
+import { formatPrice } from '../../utils/currency';
 import {
   calculateCOGSBreakdown,
-  calculateMargin,
-  calculateProfit,
+  calculateMarginBreakdown,
+  calculateSeatTierEconomics,
   getMarginStatus,
+  getTierPricesExcludingTax,
 } from '../../utils/costCalculator';
 
 interface AccountantReportProps {
@@ -14,6 +27,20 @@ interface AccountantReportProps {
 
 export function AccountantReport({ reportData }: AccountantReportProps) {
   const { state } = reportData;
+  const [exportingFormat, setExportingFormat] = useState<SpreadsheetExportFormat | null>(null);
+
+  const handleExportSpreadsheet = async (format: SpreadsheetExportFormat) => {
+    if (exportingFormat) return;
+
+    setExportingFormat(format);
+    try {
+      await downloadCostModelSpreadsheet(reportData, format);
+    } catch (error) {
+      console.error('Failed to export spreadsheet:', error);
+    } finally {
+      setExportingFormat(null);
+    }
+  };
 
   // Calculate costs using shared utility (single source of truth)
   const costs = useMemo(() => {
@@ -24,15 +51,44 @@ export function AccountantReport({ reportData }: AccountantReportProps) {
     );
   }, [state.variableCosts, state.fixedCosts, state.customerCount]);
 
-  // Calculate margin and profit using shared utilities
-  const margin = calculateMargin(state.selectedPrice, costs.totalCOGS);
-  const profit = calculateProfit(state.selectedPrice, costs.totalCOGS);
+  // Calculate margin and profit on the price net of sales tax using shared utilities
+  const { grossMargin: margin, profit, netPrice } = calculateMarginBreakdown({
+    price: state.selectedPrice,
+    variableCostPerCustomer: costs.variableTotal,
+    fixedCostPerCustomer: costs.fixedPerCustomer,
+    tax: state.tax,
+  });
 
   // Get margin status using shared utility
   const marginStatus = getMarginStatus(margin);
 
+  // Usage-driven variable cost and margin per paid tier
+  // Seat-priced tiers are valued at their average seats per customer
+  const tierMargins = useMemo(() => {
+    return state.tiers
+      .map(tier => ({
+        tier,
+        economics: calculateSeatTierEconomics(
+          getTierPricesExcludingTax(tier, state.tax),
+          state.variableCosts,
+          state.utilizationRate,
+          state.features
+        ),
+      }))
+      .filter(({ economics }) => economics.revenuePerCustomer > 0)
+      .map(({ tier, economics }) => ({
+        id: tier.id,
+        name: tier.name,
+        price: economics.revenuePerCustomer,
+        seats: tier.seatPricing ? economics.seats : null,
+        cogs: economics.cogsPerCustomer,
+        margin: economics.margin,
+        status: getMarginStatus(economics.margin),
+      }));
+  }, [state.tiers, state.tax, state.variableCosts, state.utilizationRate, state.features]);
+
   // Calculate MRR and ARR
-  const mrr = state.selectedPrice * state.customerCount;
+  const mrr = netPrice * state.customerCount;
   const arr = mrr * 12;
 
   // Break-even calculation
@@ -55,7 +111,7 @@ export function AccountantReport({ reportData }: AccountantReportProps) {
         cumulativeCustomers = Math.round(cumulativeCustomers * (1 + monthlyGrowthRate));
       }
       const customers = cumulativeCustomers;
-      const revenue = state.selectedPrice * customers;
+      const revenue = netPrice * customers;
       const variableCosts = costs.variableTotal * customers;
       const totalCosts = variableCosts + costs.fixedTotal;
       const grossProfit = revenue - totalCosts;
@@ -76,10 +132,40 @@ export function AccountantReport({ reportData }: AccountantReportProps) {
         growthPct: i > 0 ? monthlyGrowthRate * 100 : 0,
       };
     });
-  }, [state.selectedPrice, costs, state.customerCount, monthlyGrowthRate]);
+  }, [netPrice, costs, state.customerCount, monthlyGrowthRate]);
 
   return (
     <div className="space-y-6">
+      {/* Spreadsheet Export */}
+      <div className="flex items-center justify-between gap-4 bg-white rounded-lg border border-gray-200 px-5 py-3 print:hidden">
+        <div>
+          <p className="text-sm font-medium text-gray-900">Cost model spreadsheet</p>
+          <p className="text-xs text-gray-500">
+            Variable costs, fixed costs, tier margins and the 12-month P&L, with live formulas in Excel
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {([
+            { format: 'xlsx', label: 'Excel', icon: FileXls },
+            { format: 'csv', label: 'CSV', icon: FileCsv },
+          ] as const).map(({ format, label, icon: FormatIcon }) => (
+            <button
+              key={format}
+              onClick={() => handleExportSpreadsheet(format)}
+              disabled={exportingFormat !== null}
+              className="px-3 py-1.5 rounded text-sm font-medium transition-colors flex items-center gap-1.5 bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {exportingFormat === format ? (
+                <Spinner size={14} className="animate-spin" />
+              ) : (
+                <FormatIcon size={14} />
+              )}
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
       {/* Key Metrics */}
       <div className="grid grid-cols-4 gap-4 print:grid-cols-2">
         <div className="bg-white rounded-lg border border-gray-200 p-5">
@@ -90,7 +176,7 @@ export function AccountantReport({ reportData }: AccountantReportProps) {
             </div>
           </div>
           <p className="text-2xl font-semibold text-gray-900 font-mono">
-            MYR {mrr.toLocaleString()}
+            {formatPrice(mrr, state.currency)}
           </p>
           <p className="text-xs text-gray-400 mt-1">@ {state.customerCount} customers</p>
         </div>
@@ -103,7 +189,7 @@ export function AccountantReport({ reportData }: AccountantReportProps) {
             </div>
           </div>
           <p className="text-2xl font-semibold text-gray-900 font-mono">
-            MYR {arr.toLocaleString()}
+            {formatPrice(arr, state.currency)}
           </p>
           <p className="text-xs text-gray-400 mt-1">Projected ARR</p>
         </div>
@@ -168,13 +254,13 @@ export function AccountantReport({ reportData }: AccountantReportProps) {
                   <tr key={item.id}>
                     <td className="px-4 py-2 text-gray-900">{item.name}</td>
                     <td className="px-4 py-2 text-right text-gray-600 font-mono">
-                      MYR {item.costPerUnit.toFixed(3)}
+                      {formatPrice(item.costPerUnit, state.currency, { decimals: 3 })}
                     </td>
                     <td className="px-4 py-2 text-right text-gray-600">
                       {item.usagePerCustomer} {item.unit}
                     </td>
                     <td className="px-4 py-2 text-right text-gray-900 font-mono font-medium">
-                      MYR {(item.costPerUnit * item.usagePerCustomer).toFixed(2)}
+                      {formatPrice(item.costPerUnit * item.usagePerCustomer, state.currency)}
                     </td>
                   </tr>
                 ))}
@@ -183,7 +269,7 @@ export function AccountantReport({ reportData }: AccountantReportProps) {
                 <tr>
                   <td colSpan={3} className="px-4 py-2 text-gray-700 font-medium">Total Variable Cost</td>
                   <td className="px-4 py-2 text-right text-gray-900 font-mono font-semibold">
-                    MYR {costs.variableTotal.toFixed(2)}
+                    {formatPrice(costs.variableTotal, state.currency)}
                   </td>
                 </tr>
               </tfoot>
@@ -209,7 +295,7 @@ export function AccountantReport({ reportData }: AccountantReportProps) {
                     <td className="px-4 py-2 text-gray-900">{item.name}</td>
                     <td className="px-4 py-2 text-gray-500">{item.description}</td>
                     <td className="px-4 py-2 text-right text-gray-900 font-mono font-medium">
-                      MYR {item.monthlyCost.toFixed(2)}
+                      {formatPrice(item.monthlyCost, state.currency)}
                     </td>
                   </tr>
                 ))}
@@ -218,7 +304,7 @@ export function AccountantReport({ reportData }: AccountantReportProps) {
                 <tr>
                   <td colSpan={2} className="px-4 py-2 text-gray-700 font-medium">Total Fixed Cost</td>
                   <td className="px-4 py-2 text-right text-gray-900 font-mono font-semibold">
-                    MYR {costs.fixedTotal.toFixed(2)}
+                    {formatPrice(costs.fixedTotal, state.currency)}
                   </td>
                 </tr>
                 <tr>
@@ -226,7 +312,7 @@ export function AccountantReport({ reportData }: AccountantReportProps) {
                     Fixed Cost per Customer ({state.customerCount} customers)
                   </td>
                   <td className="px-4 py-2 text-right text-gray-900 font-mono font-semibold">
-                    MYR {costs.fixedPerCustomer.toFixed(2)}
+                    {formatPrice(costs.fixedPerCustomer, state.currency)}
                   </td>
                 </tr>
               </tfoot>
@@ -243,10 +329,10 @@ export function AccountantReport({ reportData }: AccountantReportProps) {
             </div>
             <div className="text-right">
               <p className="text-2xl font-semibold text-gray-900 font-mono">
-                MYR {costs.totalCOGS.toFixed(2)}
+                {formatPrice(costs.totalCOGS, state.currency)}
               </p>
               <p className="text-xs text-gray-500">
-                Price: MYR {state.selectedPrice} → Profit: MYR {profit.toFixed(2)}
+                Price: {formatPrice(state.selectedPrice, state.currency)} → Profit: {formatPrice(profit, state.currency)}
               </p>
             </div>
           </div>
@@ -293,21 +379,69 @@ export function AccountantReport({ reportData }: AccountantReportProps) {
           <div className="p-4 rounded-lg bg-gray-50 border border-gray-200">
             <p className="text-sm text-gray-500 mb-2">Revenue per Customer</p>
             <p className="text-2xl font-semibold text-gray-900 font-mono">
-              MYR {state.selectedPrice}
+              {formatPrice(state.tax?.inclusive ? netPrice : state.selectedPrice, state.currency)}
+            </p>
+            <p className="text-xs text-gray-400 mt-1">
+              {state.tax?.inclusive
+                ? `Monthly subscription, net of ${(state.tax.rate * 100).toFixed(0)}% ${state.tax.label}`
+                : 'Monthly subscription'}
             </p>
-            <p className="text-xs text-gray-400 mt-1">Monthly subscription</p>
           </div>
 
           <div className="p-4 rounded-lg bg-gray-50 border border-gray-200">
             <p className="text-sm text-gray-500 mb-2">Profit per Customer</p>
             <p className={`text-2xl font-semibold font-mono ${profit >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
-              MYR {profit.toFixed(2)}
+              {formatPrice(profit, state.currency)}
             </p>
             <p className="text-xs text-gray-400 mt-1">After all costs</p>
           </div>
         </div>
       </div>
 
+      {/* Tier Margins */}
+      {tierMargins.length > 0 && (
+        <div className="bg-white rounded-lg border border-gray-200 p-6 report-section">
+          <h3 className="font-semibold text-gray-900 mb-4">Tier Margins</h3>
+          <div className="overflow-hidden border border-gray-200 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="text-left px-4 py-2 font-medium text-gray-600">Tier</th>
+                  <th className="text-right px-4 py-2 font-medium text-gray-600">Price</th>
+                  <th className="text-right px-4 py-2 font-medium text-gray-600">Variable COGS</th>
+                  <th className="text-right px-4 py-2 font-medium text-gray-600">Gross Margin</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {tierMargins.map((tier) => (
+                  <tr key={tier.id}>
+                    <td className="px-4 py-2 text-gray-900">
+                      {tier.name}
+                      {tier.seats !== null && <span className="text-gray-400 ml-1">({tier.seats} seats)</span>}
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-600 font-mono">
+                      {formatPrice(tier.price, state.currency)}
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-600 font-mono">
+                      {formatPrice(tier.cogs, state.currency)}
+                    </td>
+                    <td className={`px-4 py-2 text-right font-mono font-medium ${
+                      tier.status === 'great' ? 'text-emerald-600' :
+                      tier.status === 'ok' ? 'text-amber-600' : 'text-red-600'
+                    }`}>
+                      {tier.margin.toFixed(1)}%
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-gray-400 mt-2">
+            Based on each tier's usage limits at {(state.utilizationRate * 100).toFixed(0)}% utilization
+          </p>
+        </div>
+      )}
+
       {/* P&L Projection Table */}
       <div className="bg-white rounded-lg border border-gray-200 p-6 report-section print:break-before">
         <h3 className="font-semibold text-gray-900 mb-4">12-Month P&L Projection ({growthPct}% Monthly Growth)</h3>
@@ -374,7 +508,7 @@ export function AccountantReport({ reportData }: AccountantReportProps) {
                 <td className="px-3 py-2 text-right">
                   <div className="text-xs text-gray-500">Revenue</div>
                   <div className="font-mono font-semibold text-gray-900">
-                    MYR {projections[11]?.cumulativeRevenue.toLocaleString()}
+                    {formatPrice(projections[11]?.cumulativeRevenue ?? 0, state.currency)}
                   </div>
                 </td>
               </tr>
@@ -386,7 +520,7 @@ export function AccountantReport({ reportData }: AccountantReportProps) {
                 }`}>
                   <div className="text-xs text-gray-500">Profit</div>
                   <div className="font-mono font-semibold">
-                    MYR {projections[11]?.cumulativeProfit.toLocaleString()}
+                    {formatPrice(projections[11]?.cumulativeProfit ?? 0, state.currency)}
                   </div>
                 </td>
               </tr>
@@ -395,7 +529,7 @@ export function AccountantReport({ reportData }: AccountantReportProps) {
         </div>
         <div className="mt-4 p-3 bg-blue-50 rounded-lg border border-blue-200">
           <p className="text-xs text-blue-700">
-            <strong>Growth Assumptions:</strong> Projections based on {growthPct}% monthly customer growth rate. Starting with {state.customerCount} customers @ MYR {state.selectedPrice}/mo,
+            <strong>Growth Assumptions:</strong> Projections based on {growthPct}% monthly customer growth rate. Starting with {state.customerCount} customers @ {formatPrice(state.selectedPrice, state.currency)}/mo,
             growing to {projections[11]?.customers.toLocaleString()} customers by month 12 ({((projections[11]?.customers / state.customerCount - 1) * 100).toFixed(0)}% total growth).
           </p>
         </div>
@@ -12,6 +12,7 @@ import {
 import type { ReportData } from '../../utils/reportEncoder';
 import type { Tier, TierLimit } from '../../data/tiers';
 import type { Feature } from '../../data/features';
+import { getSeatPriceLabel } from '../../utils/features';
 
 interface EngineerReportProps {
   reportData: ReportData;
@@ -156,8 +157,11 @@ export function EngineerReport({ reportData }: EngineerReportProps) {
                   )}
                 </div>
                 <p className="text-2xl font-bold text-gray-900 font-mono">
-                  {tier.monthlyPriceMYR === 0 ? 'Free' : `MYR ${tier.monthlyPriceMYR}`}
+                  {tier.monthlyPrice === 0 && !tier.seatPricing ? 'Free' : `${state.currency} ${tier.monthlyPrice}`}
                 </p>
+                {getSeatPriceLabel(tier, state.currency) && (
+                  <p className="text-xs text-gray-500 font-mono">{getSeatPriceLabel(tier, state.currency)}</p>
+                )}
                 <p className="text-xs text-gray-500 mt-1">{tier.targetAudience}</p>
               </div>
             );
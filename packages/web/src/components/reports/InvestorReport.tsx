@@ -9,11 +9,12 @@ import {
   Wallet,
   Percent,
 } from '@phosphor-icons/react';
+import type { CurrencyCode } from '@basedpricer/core';
 import type { ReportData } from '../../utils/reportEncoder';
+import { formatPrice } from '../../utils/currency';
 import {
   calculateCOGSBreakdown,
-  calculateMargin,
-  calculateProfit,
+  calculateMarginBreakdown,
 } from '../../utils/costCalculator';
 import {
   calculateInvestorMetrics,
@@ -38,9 +39,14 @@ export function InvestorReport({ reportData }: InvestorReportProps) {
   }, [state.variableCosts, state.fixedCosts, state.customerCount]);
 
   // Calculate key metrics using shared utilities
-  const margin = calculateMargin(state.selectedPrice, costs.totalCOGS);
-  const profit = calculateProfit(state.selectedPrice, costs.totalCOGS);
-  const mrr = state.selectedPrice * state.customerCount;
+  // Revenue is net of sales tax, which is passed on to the tax authority
+  const { grossMargin: margin, profit, netPrice } = calculateMarginBreakdown({
+    price: state.selectedPrice,
+    variableCostPerCustomer: costs.variableTotal,
+    fixedCostPerCustomer: costs.fixedPerCustomer,
+    tax: state.tax,
+  });
+  const mrr = netPrice * state.customerCount;
 
   // Calculate paid customers (excluding free tiers)
   // Free tier can be named "freemium", "free", or have 0 price
@@ -48,13 +54,13 @@ export function InvestorReport({ reportData }: InvestorReportProps) {
   const freeTierKeys = ['freemium', 'free'];
   const freePct = Object.entries(tierDist).reduce((sum, [key, value]) => {
     if (freeTierKeys.includes(key.toLowerCase()) ||
-        state.tiers.find(t => t.id === key && t.monthlyPriceMYR === 0)) {
+        state.tiers.find(t => t.id === key && t.monthlyPrice === 0)) {
       return sum + (value || 0);
     }
     return sum;
   }, 0);
   const paidCustomers = Math.round(state.customerCount * (1 - freePct / 100));
-  const arpu = paidCustomers > 0 ? mrr / paidCustomers : state.selectedPrice;
+  const arpu = paidCustomers > 0 ? mrr / paidCustomers : netPrice;
 
   // Break-even
   const breakEvenCustomers = costs.fixedTotal > 0 && profit > 0
@@ -79,8 +85,9 @@ export function InvestorReport({ reportData }: InvestorReportProps) {
       breakEvenCustomers,
       monthlyGrowthRate,
       ltv,
+      currency: state.currency as CurrencyCode,
     });
-  }, [mrr, paidCustomers, arpu, margin, breakEvenCustomers, monthlyGrowthRate, ltv]);
+  }, [mrr, paidCustomers, arpu, margin, breakEvenCustomers, monthlyGrowthRate, ltv, state.currency]);
 
   return (
     <div className="space-y-6">
@@ -92,10 +99,10 @@ export function InvestorReport({ reportData }: InvestorReportProps) {
             <span className="text-sm font-medium opacity-90">Annual Recurring Revenue</span>
           </div>
           <p className="text-3xl font-bold font-mono">
-            {formatCurrency(investorMetrics.arr)}
+            {formatCurrency(investorMetrics.arr, state.currency)}
           </p>
           <p className="text-sm opacity-75 mt-1">
-            MRR: {formatCurrency(investorMetrics.mrr)}
+            MRR: {formatCurrency(investorMetrics.mrr, state.currency)}
           </p>
         </div>
 
@@ -105,25 +112,25 @@ export function InvestorReport({ reportData }: InvestorReportProps) {
             <span className="text-sm font-medium text-gray-700">Valuation Range (SaaS Multiples)</span>
           </div>
           <p className="text-2xl font-bold text-gray-900">
-            {formatValuationRange(investorMetrics.valuation)}
+            {formatValuationRange(investorMetrics.valuation, state.currency)}
           </p>
           <div className="flex gap-4 mt-3">
             <div className="text-center">
               <p className="text-xs text-gray-500">Conservative (5x)</p>
               <p className="text-sm font-semibold text-gray-700">
-                {formatCurrency(investorMetrics.valuation.valuationLow)}
+                {formatCurrency(investorMetrics.valuation.valuationLow, state.currency)}
               </p>
             </div>
             <div className="text-center">
               <p className="text-xs text-gray-500">Typical (10x)</p>
               <p className="text-sm font-semibold text-violet-600">
-                {formatCurrency(investorMetrics.valuation.valuationMid)}
+                {formatCurrency(investorMetrics.valuation.valuationMid, state.currency)}
               </p>
             </div>
             <div className="text-center">
               <p className="text-xs text-gray-500">High Growth (15x)</p>
               <p className="text-sm font-semibold text-gray-700">
-                {formatCurrency(investorMetrics.valuation.valuationHigh)}
+                {formatCurrency(investorMetrics.valuation.valuationHigh, state.currency)}
               </p>
             </div>
           </div>
@@ -140,14 +147,14 @@ export function InvestorReport({ reportData }: InvestorReportProps) {
           <div className="p-4 bg-gray-50 rounded-lg">
             <p className="text-sm text-gray-500">ARPU</p>
             <p className="text-xl font-semibold text-gray-900 font-mono mt-1">
-              {formatCurrency(investorMetrics.arpu)}
+              {formatCurrency(investorMetrics.arpu, state.currency)}
             </p>
             <p className="text-xs text-gray-400">Monthly</p>
           </div>
           <div className="p-4 bg-gray-50 rounded-lg">
             <p className="text-sm text-gray-500">LTV</p>
             <p className="text-xl font-semibold text-gray-900 font-mono mt-1">
-              {formatCurrency(ltv)}
+              {formatCurrency(ltv, state.currency)}
             </p>
             <p className="text-xs text-gray-400">24-month lifespan</p>
           </div>
@@ -302,11 +309,11 @@ export function InvestorReport({ reportData }: InvestorReportProps) {
         <div className="grid grid-cols-4 gap-4 print:grid-cols-2">
           <div>
             <p className="text-sm text-gray-400 print:text-gray-600">MRR</p>
-            <p className="text-xl font-bold font-mono print:text-gray-900">{formatCurrency(mrr)}</p>
+            <p className="text-xl font-bold font-mono print:text-gray-900">{formatCurrency(mrr, state.currency)}</p>
           </div>
           <div>
             <p className="text-sm text-gray-400 print:text-gray-600">ARR</p>
-            <p className="text-xl font-bold font-mono print:text-gray-900">{formatCurrency(investorMetrics.arr)}</p>
+            <p className="text-xl font-bold font-mono print:text-gray-900">{formatCurrency(investorMetrics.arr, state.currency)}</p>
           </div>
           <div>
             <p className="text-sm text-gray-400 print:text-gray-600">Gross Margin</p>
@@ -314,18 +321,18 @@ export function InvestorReport({ reportData }: InvestorReportProps) {
           </div>
           <div>
             <p className="text-sm text-gray-400 print:text-gray-600">Monthly Fixed Costs</p>
-            <p className="text-xl font-bold font-mono print:text-gray-900">{formatCurrency(costs.fixedTotal)}</p>
+            <p className="text-xl font-bold font-mono print:text-gray-900">{formatCurrency(costs.fixedTotal, state.currency)}</p>
           </div>
         </div>
         <div className="mt-4 pt-4 border-t border-gray-700 print:border-gray-300">
           <div className="flex items-center justify-between print:flex-col print:items-start print:gap-2">
             <div>
               <p className="text-sm text-gray-400 print:text-gray-600">Valuation Estimate (10x ARR)</p>
-              <p className="text-2xl font-bold font-mono print:text-gray-900">{formatCurrency(investorMetrics.valuation.valuationMid)}</p>
+              <p className="text-2xl font-bold font-mono print:text-gray-900">{formatCurrency(investorMetrics.valuation.valuationMid, state.currency)}</p>
             </div>
             <div className="text-right print:text-left">
               <p className="text-sm text-gray-400 print:text-gray-600">Based on</p>
-              <p className="text-sm print:text-gray-900">{state.customerCount} customers @ MYR {state.selectedPrice}/mo</p>
+              <p className="text-sm print:text-gray-900">{state.customerCount} customers @ {formatPrice(state.selectedPrice, state.currency)}/mo</p>
             </div>
           </div>
         </div>
@@ -12,6 +12,8 @@ import {
 import type { ReportData } from '../../utils/reportEncoder';
 import type { Tier } from '../../data/tiers';
 import type { Feature } from '../../data/features';
+import { getSeatPriceLabel } from '../../utils/features';
+import { formatPrice } from '../../utils/currency';
 
 interface MarketerReportProps {
   reportData: ReportData;
@@ -36,7 +38,7 @@ export function MarketerReport({ reportData }: MarketerReportProps) {
   const activeTiers = useMemo(() => {
     return tiers
       .filter((t: Tier) => t.status === 'active')
-      .sort((a: Tier, b: Tier) => a.monthlyPriceMYR - b.monthlyPriceMYR);
+      .sort((a: Tier, b: Tier) => a.monthlyPrice - b.monthlyPrice);
   }, [tiers]);
 
   // Get highlight features per tier (features enabled in this tier but not in previous)
@@ -71,9 +73,9 @@ export function MarketerReport({ reportData }: MarketerReportProps) {
 
   // Calculate annual savings
   const getAnnualSavings = (tier: Tier) => {
-    if (!tier.annualPriceMYR || !tier.monthlyPriceMYR) return 0;
-    const monthlyTotal = tier.monthlyPriceMYR * 12;
-    return monthlyTotal - tier.annualPriceMYR;
+    if (!tier.annualPrice || !tier.monthlyPrice) return 0;
+    const monthlyTotal = tier.monthlyPrice * 12;
+    return monthlyTotal - tier.annualPrice;
   };
 
   return (
@@ -115,14 +117,17 @@ export function MarketerReport({ reportData }: MarketerReportProps) {
                   <span className="font-semibold text-gray-900">{tier.name}</span>
                 </div>
                 <p className="text-2xl font-bold text-gray-900 font-mono mb-1">
-                  {tier.monthlyPriceMYR === 0 ? 'Free' : `MYR ${tier.monthlyPriceMYR}`}
-                  {tier.monthlyPriceMYR > 0 && (
+                  {tier.monthlyPrice === 0 && !tier.seatPricing ? 'Free' : formatPrice(tier.monthlyPrice, state.currency)}
+                  {tier.monthlyPrice > 0 && (
                     <span className="text-sm font-normal text-gray-500">/mo</span>
                   )}
                 </p>
+                {getSeatPriceLabel(tier, state.currency) && (
+                  <p className="text-xs text-gray-500 font-mono">{getSeatPriceLabel(tier, state.currency)}</p>
+                )}
                 {savings > 0 && (
                   <p className="text-xs text-emerald-600 font-medium">
-                    Save MYR {savings}/year on annual
+                    Save {formatPrice(savings, state.currency)}/year on annual
                   </p>
                 )}
                 <p className="text-sm text-gray-500 mt-2">{tier.targetAudience}</p>
@@ -154,7 +159,7 @@ export function MarketerReport({ reportData }: MarketerReportProps) {
                   </div>
                   <span className="font-medium text-gray-900">{tier.name}</span>
                   <span className="text-sm text-gray-500">
-                    ({tier.monthlyPriceMYR === 0 ? 'Free' : `MYR ${tier.monthlyPriceMYR}/mo`})
+                    ({tier.monthlyPrice === 0 ? 'Free' : `${formatPrice(tier.monthlyPrice, state.currency)}/mo`})
                   </span>
                 </div>
                 <div className="pl-8 space-y-2">
@@ -192,7 +197,7 @@ export function MarketerReport({ reportData }: MarketerReportProps) {
           {activeTiers.slice(0, -1).map((tier: Tier, index: number) => {
             const nextTier = activeTiers[index + 1];
             const highlights = tierHighlights[nextTier.id] || [];
-            const priceDiff = nextTier.monthlyPriceMYR - tier.monthlyPriceMYR;
+            const priceDiff = nextTier.monthlyPrice - tier.monthlyPrice;
 
             return (
               <div
@@ -205,7 +210,7 @@ export function MarketerReport({ reportData }: MarketerReportProps) {
                   <span className="font-medium text-blue-600">{nextTier.name}</span>
                   {priceDiff > 0 && (
                     <span className="text-xs bg-blue-100 text-blue-700 px-2 py-0.5 rounded-full ml-auto">
-                      +MYR {priceDiff}/mo
+                      +{formatPrice(priceDiff, state.currency)}/mo
                     </span>
                   )}
                 </div>
@@ -235,7 +240,7 @@ export function MarketerReport({ reportData }: MarketerReportProps) {
 
       {/* Value Proposition Cards */}
       <div className="grid grid-cols-2 gap-6 print:grid-cols-1">
-        {activeTiers.filter((t: Tier) => t.monthlyPriceMYR > 0).map((tier: Tier, index: number) => {
+        {activeTiers.filter((t: Tier) => t.monthlyPrice > 0).map((tier: Tier, index: number) => {
           const Icon = getTierIcon(index + 1); // +1 because we filtered out free
           const highlights = tierHighlights[tier.id] || [];
           const highlighted = isHighlightedTier(tier);
@@ -260,7 +265,7 @@ export function MarketerReport({ reportData }: MarketerReportProps) {
                     <span className="font-semibold">{tier.name}</span>
                   </div>
                   <span className="font-bold font-mono">
-                    MYR {tier.monthlyPriceMYR}/mo
+                    {formatPrice(tier.monthlyPrice, state.currency)}/mo
                   </span>
                 </div>
               </div>
@@ -293,9 +298,9 @@ export function MarketerReport({ reportData }: MarketerReportProps) {
           <div>
             <p className="text-sm text-gray-400 print:text-gray-600 mb-2">Price Range</p>
             <p className="text-xl font-bold print:text-gray-900">
-              {activeTiers[0]?.monthlyPriceMYR === 0 ? 'Free' : `MYR ${activeTiers[0]?.monthlyPriceMYR}`}
+              {activeTiers[0]?.monthlyPrice === 0 ? 'Free' : formatPrice(activeTiers[0]?.monthlyPrice ?? 0, state.currency)}
               {' - '}
-              MYR {activeTiers[activeTiers.length - 1]?.monthlyPriceMYR}
+              {formatPrice(activeTiers[activeTiers.length - 1]?.monthlyPrice ?? 0, state.currency)}
             </p>
             <p className="text-xs text-gray-400 print:text-gray-600 mt-1">per month</p>
           </div>
@@ -1,6 +1,6 @@
 import { Check, CircleNotch, Circle, FileCode, CloudArrowDown, Brain } from '@phosphor-icons/react';
 import { ProviderLogo } from '../ProviderLogos';
-import type { AIProvider } from '../../services/api-keys';
+import type { AIProviderId } from '@basedpricer/core';
 
 export type AnalysisStepType = 'idle' | 'checking' | 'fetching' | 'analyzing' | 'done' | 'error';
 
@@ -13,7 +13,7 @@ export interface FetchProgress {
 interface AnalysisProgressCardProps {
   step: AnalysisStepType;
   fetchProgress?: FetchProgress;
-  activeProvider?: AIProvider;
+  activeProvider?: AIProviderId;
   modelName?: string;
 }
 
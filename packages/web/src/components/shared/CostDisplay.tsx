@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { CaretDown, CurrencyDollar, Coins, Check } from '@phosphor-icons/react';
 import { ProviderLogo } from '../ProviderLogos';
+import type { AIProviderId } from '@basedpricer/core';
 import type { AIProvider } from '../../services/api-keys';
 import {
   formatCost,
@@ -21,7 +22,7 @@ interface CostEstimateCardProps {
   comparisons?: ProviderComparison[];
   charCount?: number;
   fileCount?: number;
-  onProviderChange?: (provider: AIProvider) => void;
+  onProviderChange?: (provider: AIProviderId) => void;
 }
 
 export function CostEstimateCard({
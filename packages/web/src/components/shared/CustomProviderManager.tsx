@@ -1,7 +1,9 @@
 /**
  * Custom Provider Manager Component
  *
- * Allows users to add their own OpenAI-compatible AI providers.
+ * Allows users to add their own OpenAI- or Anthropic-compatible AI providers.
+ * Saved providers are registered with the core provider registry, so they
+ * can run codebase analysis and show up in cost estimates.
  * This is useful for:
  * - Self-hosted LLMs (Ollama, vLLM, etc.)
  * - Private API endpoints
@@ -17,6 +19,7 @@ import {
   type ProviderConfig,
   type ModelConfig,
 } from '../../services/config-loader';
+import { getCustomProviderKey, saveCustomProviderKey } from '../../services/api-keys';
 import { ConfirmationModal } from './ConfirmationModal';
 
 interface CustomProviderManagerProps {
@@ -34,8 +37,11 @@ export function CustomProviderManager({
   const [editingId, setEditingId] = useState<string | null>(null);
   const [providerToRemove, setProviderToRemove] = useState<string | null>(null);
 
-  const handleSave = (provider: ProviderConfig) => {
-    const result = saveCustomProvider(provider);
+  const handleSave = (provider: ProviderConfig, apiKey: string) => {
+    let result = saveCustomProvider(provider);
+    if (result.success) {
+      result = saveCustomProviderKey(provider.id, apiKey);
+    }
     if (result.success) {
       setCustomProviders(getCustomProviders());
       setIsAddingNew(false);
@@ -70,7 +76,7 @@ export function CustomProviderManager({
         <div>
           <h3 className="font-medium text-gray-900 text-sm sm:text-base">Custom Providers</h3>
           <p className="text-xs sm:text-sm text-gray-500">
-            Add OpenAI-compatible endpoints (self-hosted LLMs, proxies, etc.)
+            Add OpenAI- or Anthropic-compatible endpoints (self-hosted LLMs, proxies, etc.)
           </p>
         </div>
         {!isAddingNew && (
@@ -151,14 +157,13 @@ export function CustomProviderManager({
 
       {/* Help text */}
       <div className="rounded-lg border border-gray-100 bg-gray-50 p-3 text-xs text-gray-600">
-        <p className="font-medium">OpenAI-compatible API format:</p>
+        <p className="font-medium">Supported API formats:</p>
         <ul className="mt-1 list-inside list-disc space-y-0.5">
-          <li>POST /chat/completions endpoint</li>
-          <li>Authorization: Bearer {"<your-api-key>"}</li>
-          <li>Standard messages array format</li>
+          <li>OpenAI: POST /chat/completions with Authorization: Bearer {"<your-api-key>"}</li>
+          <li>Anthropic: POST /messages with x-api-key: {"<your-api-key>"}</li>
         </ul>
         <p className="mt-2 hidden sm:block">
-          Popular compatible providers: Ollama, vLLM, LM Studio, LocalAI, Together AI, Groq, Fireworks AI
+          Popular compatible providers: Ollama, llama.cpp, vLLM, LM Studio, LocalAI, Together AI, Fireworks AI
         </p>
       </div>
 
@@ -181,7 +186,8 @@ export function CustomProviderManager({
  */
 interface ProviderFormProps {
   initialProvider?: ProviderConfig;
-  onSave: (provider: ProviderConfig) => void;
+  /** Save the provider definition and its API key (empty for none) */
+  onSave: (provider: ProviderConfig, apiKey: string) => void;
   onCancel: () => void;
 }
 
@@ -192,6 +198,12 @@ function ProviderForm({ initialProvider, onSave, onCancel }: ProviderFormProps)
     initialProvider ? Object.values(initialProvider.models) : []
   );
   const [defaultModel, setDefaultModel] = useState(initialProvider?.defaultModel ?? '');
+  const [apiFormat, setApiFormat] = useState<'openai' | 'anthropic'>(
+    initialProvider?.isOpenAICompatible === false ? 'anthropic' : 'openai'
+  );
+  const [apiKey, setApiKey] = useState(
+    () => (initialProvider ? getCustomProviderKey(initialProvider.id) : null) ?? ''
+  );
   const [errors, setErrors] = useState<Record<string, string>>({});
 
   // Generate provider ID from name
@@ -250,13 +262,13 @@ function ProviderForm({ initialProvider, onSave, onCancel }: ProviderFormProps)
       id: providerId,
       name: name.trim(),
       baseUrl: baseUrl.trim().replace(/\/$/, ''), // Remove trailing slash
-      isOpenAICompatible: true,
+      isOpenAICompatible: apiFormat === 'openai',
       supportsStreaming: true,
       defaultModel: defaultModel || models[0]?.id,
       models: modelsRecord,
     };
 
-    onSave(provider);
+    onSave(provider, apiKey);
   };
 
   return (
@@ -299,6 +311,36 @@ function ProviderForm({ initialProvider, onSave, onCancel }: ProviderFormProps)
         </div>
       </div>
 
+      {/* API format & key */}
+      <div className="grid gap-3 sm:gap-4 grid-cols-1 sm:grid-cols-2">
+        <div>
+          <label className="block text-xs sm:text-sm font-medium text-gray-700">
+            API Format
+          </label>
+          <select
+            value={apiFormat}
+            onChange={e => setApiFormat(e.target.value as 'openai' | 'anthropic')}
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2.5 sm:py-2 text-sm touch-manipulation"
+          >
+            <option value="openai">OpenAI-compatible (/chat/completions)</option>
+            <option value="anthropic">Anthropic-compatible (/messages)</option>
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-xs sm:text-sm font-medium text-gray-700">
+            API Key <span className="font-normal text-gray-400">(optional)</span>
+          </label>
+          <input
+            type="password"
+            value={apiKey}
+            onChange={e => setApiKey(e.target.value)}
+            placeholder="Leave empty for local servers"
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2.5 sm:py-2 text-sm font-mono touch-manipulation"
+          />
+        </div>
+      </div>
+
       {/* Models */}
       <div>
         <div className="flex items-center justify-between">
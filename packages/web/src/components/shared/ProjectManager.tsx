@@ -4,7 +4,8 @@
  */
 
 import { useState, useRef, useEffect } from 'react';
-import { Folder, CaretDown, Plus, Trash, Check, FloppyDisk, PencilSimple } from '@phosphor-icons/react';
+import { Folder, CaretDown, Plus, Trash, Check, FloppyDisk, PencilSimple, DownloadSimple, UploadSimple } from '@phosphor-icons/react';
+import { PROJECT_FILE_NAME } from '@basedpricer/core';
 import { usePricing } from '../../context/PricingContext';
 import { ConfirmationModal } from './ConfirmationModal';
 
@@ -16,6 +17,8 @@ export function ProjectManager() {
     loadProject,
     deleteProject,
     renameProject,
+    exportProjectFile,
+    importProjectFile,
   } = usePricing();
 
   const [isOpen, setIsOpen] = useState(false);
@@ -26,6 +29,7 @@ export function ProjectManager() {
   const [projectToDelete, setProjectToDelete] = useState<string | null>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const projects = listProjects();
 
@@ -74,6 +78,31 @@ export function ProjectManager() {
     setIsOpen(false);
   };
 
+  const handleExportFile = () => {
+    const content = exportProjectFile();
+    if (content === null) return;
+
+    const blob = new Blob([content], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = PROJECT_FILE_NAME;
+    a.click();
+    URL.revokeObjectURL(url);
+    setIsOpen(false);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so selecting the same file again still triggers onChange
+    e.target.value = '';
+    if (!file) return;
+
+    if (importProjectFile(await file.text())) {
+      setIsOpen(false);
+    }
+  };
+
   const handleDeleteProject = (name: string, e: React.MouseEvent) => {
     e.stopPropagation();
     setProjectToDelete(name);
@@ -183,6 +212,34 @@ export function ProjectManager() {
             </div>
           )}
 
+          {/* Project File Import/Export */}
+          <div className="flex border-b border-gray-100">
+            <button
+              onClick={handleExportFile}
+              className="flex-1 flex items-center justify-center gap-1.5 px-3 py-3 sm:py-2 text-xs text-gray-600 hover:bg-gray-50 active:bg-gray-50 touch-manipulation"
+              title={`Download ${PROJECT_FILE_NAME}`}
+            >
+              <DownloadSimple size={14} aria-hidden="true" />
+              Export File
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex-1 flex items-center justify-center gap-1.5 px-3 py-3 sm:py-2 text-xs text-gray-600 hover:bg-gray-50 active:bg-gray-50 border-l border-gray-100 touch-manipulation"
+              title={`Import a ${PROJECT_FILE_NAME} project file`}
+            >
+              <UploadSimple size={14} aria-hidden="true" />
+              Import File
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImportFile}
+              className="hidden"
+              aria-label="Import project file"
+            />
+          </div>
+
           {/* Saved Projects */}
           <div className="max-h-48 overflow-y-auto">
             {projects.length === 0 ? (
@@ -10,14 +10,16 @@ import { usePricing } from '../../context/PricingContext';
 import { useNavigation } from '../../context/NavigationContext';
 import { CURRENCIES, type CurrencyCode } from '../../constants';
 import { useEscapeKey, useFocusTrap } from '../../hooks';
+import { describeExchangeRates } from '../../utils/currency';
 
 export function WelcomePanel() {
   const {
     isFirstVisit,
     completeOnboarding,
     resetToEmpty,
-    setCurrency,
+    convertBaseCurrency,
     currency,
+    exchangeRates,
   } = usePricing();
   const { navigateTo } = useNavigation();
   const [isVisible, setIsVisible] = useState(false);
@@ -39,7 +41,7 @@ export function WelcomePanel() {
     setIsVisible(false);
     // Wait for animation to complete before completing onboarding
     setTimeout(() => {
-      setCurrency(selectedCurrency);
+      convertBaseCurrency(selectedCurrency);
       completeOnboarding();
     }, 300);
   };
@@ -54,7 +56,7 @@ export function WelcomePanel() {
   const handleStartWithTemplate = () => {
     setIsVisible(false);
     setTimeout(() => {
-      setCurrency(selectedCurrency);
+      convertBaseCurrency(selectedCurrency);
       completeOnboarding();
     }, 300);
   };
@@ -62,7 +64,7 @@ export function WelcomePanel() {
   const handleAnalyzeCodebase = () => {
     setIsVisible(false);
     setTimeout(() => {
-      setCurrency(selectedCurrency);
+      convertBaseCurrency(selectedCurrency);
       completeOnboarding();
       navigateTo('analyze');
     }, 300);
@@ -71,8 +73,8 @@ export function WelcomePanel() {
   const handleStartFresh = () => {
     setIsVisible(false);
     setTimeout(() => {
-      setCurrency(selectedCurrency);
       resetToEmpty();
+      convertBaseCurrency(selectedCurrency);
       completeOnboarding();
     }, 300);
   };
@@ -191,7 +193,7 @@ export function WelcomePanel() {
         {/* Footer */}
         <div className="p-4 sm:p-6 border-t border-[#e4e4e4] bg-gray-50/50">
           {/* Currency selector */}
-          <div className="flex items-center justify-between mb-3 sm:mb-4">
+          <div className="flex items-center justify-between mb-1">
             <label htmlFor="currency-select" className="text-xs sm:text-sm text-gray-600">
               Currency
             </label>
@@ -208,6 +210,11 @@ export function WelcomePanel() {
               ))}
             </select>
           </div>
+          <p className="text-xs text-gray-400 mb-3 sm:mb-4">
+            {selectedCurrency === currency
+              ? `Prices are set in ${currency}`
+              : `Template prices convert from ${currency} using ${describeExchangeRates(exchangeRates)}`}
+          </p>
 
           {/* Privacy note */}
           <div className="flex items-center gap-2 text-xs text-gray-400">
@@ -0,0 +1,203 @@
+/**
+ * PriceSolverPanel component
+ * Goal-seek tier prices that meet margin, break-even and price-ladder targets
+ */
+
+import { useMemo, useState } from 'react';
+import { Check, Target, X } from '@phosphor-icons/react';
+import {
+  solveTierPrices,
+  type FixedCostItem,
+  type PriceSolverTargets,
+  type TaxSettings,
+  type VariableCostItem,
+} from '@basedpricer/core';
+import type { Tier } from '../../data/tiers';
+import type { Feature } from '../../data/features';
+import { formatPrice } from '../../utils/currency';
+
+interface PriceSolverPanelProps {
+  tiers: Tier[];
+  features: Feature[];
+  variableCosts: VariableCostItem[];
+  fixedCosts: FixedCostItem[];
+  utilizationRate: number;
+  tierDistribution: Record<string, number>;
+  /** Sales tax on the prices; targets are met on revenue net of it */
+  tax?: TaxSettings;
+  currency: string;
+  /** Called with the proposed base price per tier ID */
+  onApply: (prices: Record<string, number>) => void;
+}
+
+type TargetField = keyof PriceSolverTargets;
+
+const targetFields: { id: TargetField; label: string; suffix: string; max?: number }[] = [
+  { id: 'minGrossMargin', label: 'Blended margin ≥', suffix: '%', max: 99 },
+  { id: 'breakEvenPaidCustomers', label: 'Break even by', suffix: 'paid customers' },
+  { id: 'minTierMargin', label: 'Every tier margin ≥', suffix: '%', max: 99 },
+  { id: 'tierPriceRatio', label: 'Each tier ≥', suffix: '× the tier below' },
+];
+
+function parseTarget(value: string, max?: number): number | undefined {
+  if (value.trim() === '') return undefined;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0) return undefined;
+  return max !== undefined ? Math.min(number, max) : number;
+}
+
+export function PriceSolverPanel({
+  tiers,
+  features,
+  variableCosts,
+  fixedCosts,
+  utilizationRate,
+  tierDistribution,
+  tax,
+  currency,
+  onApply,
+}: PriceSolverPanelProps) {
+  const [inputs, setInputs] = useState<Record<TargetField, string>>({
+    minGrossMargin: '75',
+    breakEvenPaidCustomers: '',
+    minTierMargin: '',
+    tierPriceRatio: '',
+  });
+  const [charmPricing, setCharmPricing] = useState(true);
+  const [allowDecrease, setAllowDecrease] = useState(false);
+
+  const targets = useMemo(() => {
+    const parsed: PriceSolverTargets = {};
+    for (const field of targetFields) {
+      const value = parseTarget(inputs[field.id], field.max);
+      if (value !== undefined) parsed[field.id] = value;
+    }
+    return parsed;
+  }, [inputs]);
+  const hasTargets = Object.keys(targets).length > 0;
+
+  const result = useMemo(
+    () => hasTargets
+      ? solveTierPrices({
+          variableCosts,
+          fixedCosts,
+          tiers,
+          features,
+          utilizationRate,
+          tierDistribution,
+          tax,
+          targets,
+          charmPricing,
+          allowDecrease,
+        })
+      : null,
+    [hasTargets, variableCosts, fixedCosts, tiers, features, utilizationRate, tierDistribution, tax, targets, charmPricing, allowDecrease]
+  );
+
+  const hasChanges = result?.tiers.some(tier => tier.proposedPrice !== tier.currentPrice) ?? false;
+
+  const handleApply = () => {
+    if (!result) return;
+    onApply(Object.fromEntries(result.tiers.map(tier => [tier.tierId, tier.proposedPrice])));
+  };
+
+  return (
+    <div className="card p-4 sm:p-6">
+      <div className="flex items-center gap-2 mb-1">
+        <Target size={18} weight="duotone" className="text-[#253ff6]" />
+        <h3 className="font-medium text-gray-900 text-sm sm:text-base">Goal Seek Prices</h3>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        Set targets and get prices that meet them, keeping your price ladder and customer mix.
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-3">
+        {targetFields.map(field => (
+          <label key={field.id} className="flex items-center gap-2 text-xs text-gray-600">
+            <span className="w-32 flex-shrink-0">{field.label}</span>
+            <input
+              type="number"
+              min={0}
+              max={field.max}
+              step="any"
+              value={inputs[field.id]}
+              placeholder="Off"
+              onChange={(e) => setInputs(prev => ({ ...prev, [field.id]: e.target.value }))}
+              className="input-field py-1.5 text-sm w-24"
+            />
+            <span className="text-gray-400">{field.suffix}</span>
+          </label>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-4 mb-4 text-xs text-gray-600">
+        <label className="flex items-center gap-1.5">
+          <input type="checkbox" checked={charmPricing} onChange={(e) => setCharmPricing(e.target.checked)} />
+          Round to charm prices (29, 149…)
+        </label>
+        <label className="flex items-center gap-1.5">
+          <input type="checkbox" checked={allowDecrease} onChange={(e) => setAllowDecrease(e.target.checked)} />
+          Allow lower prices
+        </label>
+      </div>
+
+      {!result ? (
+        <p className="text-sm text-gray-400 text-center py-4">Set at least one target to get proposed prices.</p>
+      ) : (
+        <>
+          <div className="overflow-hidden rounded-[0.2rem] border border-[#e4e4e4] mb-3">
+            <table className="w-full text-sm" aria-label="Proposed tier prices">
+              <thead>
+                <tr className="table-header">
+                  <th scope="col" className="text-left py-2 px-3">Tier</th>
+                  <th scope="col" className="text-right py-2 px-3">Current</th>
+                  <th scope="col" className="text-right py-2 px-3">Proposed</th>
+                  <th scope="col" className="text-right py-2 px-3">Margin</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.tiers.map(tier => (
+                  <tr key={tier.tierId} className="table-row">
+                    <td className="py-2 px-3 text-gray-900">{tier.name}</td>
+                    <td className="py-2 px-3 text-right font-mono text-gray-500">{formatPrice(tier.currentPrice, currency)}</td>
+                    <td className={`py-2 px-3 text-right font-mono ${
+                      tier.proposedPrice !== tier.currentPrice ? 'font-semibold text-[#253ff6]' : 'text-gray-500'
+                    }`}>
+                      {formatPrice(tier.proposedPrice, currency)}
+                    </td>
+                    <td className="py-2 px-3 text-right text-gray-600">
+                      {tier.revenuePerCustomer > 0 ? `${tier.margin.toFixed(1)}%` : 'Free'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <ul className="space-y-1 mb-4">
+            {result.constraints.map(constraint => (
+              <li key={constraint.id} className="flex items-center gap-1.5 text-xs">
+                {constraint.met
+                  ? <Check size={12} weight="bold" className="text-emerald-600" />
+                  : <X size={12} weight="bold" className="text-red-600" />}
+                <span className="text-gray-600">{constraint.label}:</span>
+                <span className={constraint.met ? 'text-gray-900' : 'text-red-600'}>
+                  {constraint.actual === null ? 'not reached' : Number(constraint.actual.toFixed(2)).toLocaleString()}
+                </span>
+                <span className="text-gray-400">(target {constraint.target.toLocaleString()})</span>
+              </li>
+            ))}
+          </ul>
+
+          <button
+            onClick={handleApply}
+            disabled={!hasChanges}
+            className="btn-primary text-xs sm:text-sm py-2 px-4 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Apply prices
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,8 @@
 import { CheckCircle, Warning, XCircle } from '@phosphor-icons/react';
 import type { Tier } from '../../data/tiers';
 import { MARGIN_THRESHOLDS } from '../../constants';
+import { getSeatPriceLabel } from '../../utils/features';
+import { formatPrice } from '../../utils/currency';
 
 export interface TierCostData {
   total: number;
@@ -16,6 +18,7 @@ interface TierCardsGridProps {
   tiers: Tier[];
   allTierCosts: Map<string, TierCostData>;
   selectedTierId: string;
+  currency: string;
   onSelect: (tierId: string) => void;
 }
 
@@ -37,6 +40,7 @@ export function TierCardsGrid({
   tiers,
   allTierCosts,
   selectedTierId,
+  currency,
   onSelect,
 }: TierCardsGridProps) {
   return (
@@ -51,7 +55,8 @@ export function TierCardsGrid({
         const tierCostsTotal = tierData?.total ?? 0;
         const tierMargin = tierData?.margin ?? 0;
         const isSelected = selectedTierId === tier.id;
-        const hasPrice = tier.monthlyPriceMYR > 0;
+        const hasPrice = tier.monthlyPrice > 0 || (tier.seatPricing?.pricePerSeat ?? 0) > 0;
+        const seatLabel = getSeatPriceLabel(tier, currency);
         const marginHealth = getMarginHealth(tierMargin, hasPrice);
         const MarginIcon = marginHealth.icon;
 
@@ -75,14 +80,17 @@ export function TierCardsGrid({
             </div>
 
             <p className="text-2xl font-semibold text-gray-900">
-              {tier.monthlyPriceMYR === 0 && tier.id !== 'freemium' ? (
+              {!hasPrice && tier.id !== 'freemium' ? (
                 <span className="text-gray-400 text-lg">TBD</span>
               ) : tier.id === 'enterprise' ? (
                 <span className="text-lg">Custom</span>
               ) : (
-                <>MYR {tier.monthlyPriceMYR}</>
+                formatPrice(tier.monthlyPrice, currency)
               )}
             </p>
+            {seatLabel && tier.id !== 'enterprise' && (
+              <p className="text-xs text-gray-500 mt-0.5">{seatLabel}</p>
+            )}
 
             {/* Margin Health Indicator */}
             {tier.id !== 'freemium' && (
@@ -102,7 +110,7 @@ export function TierCardsGrid({
             <div className="mt-4 pt-4 border-t border-[#e4e4e4] space-y-2">
               <div className="flex justify-between text-xs">
                 <span className="text-gray-500">Cost</span>
-                <span className="font-medium text-gray-700">MYR {tierCostsTotal.toFixed(2)}</span>
+                <span className="font-medium text-gray-700">{formatPrice(tierCostsTotal, currency)}</span>
               </div>
               <div className="flex justify-between text-xs">
                 <span className="text-gray-500">Features</span>
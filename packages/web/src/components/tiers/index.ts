@@ -3,3 +3,4 @@
  */
 
 export { TierCardsGrid, type TierCostData } from './TierCardsGrid';
+export { PriceSolverPanel } from './PriceSolverPanel';
@@ -1,3 +1,5 @@
+import { CURRENCIES as CORE_CURRENCIES, type Currency } from '@basedpricer/core';
+
 // Design System Colors
 export const COLORS = {
   primary: '#253ff6',
@@ -55,85 +57,16 @@ export function getMarginStyleFromThreshold(margin: number): {
 }
 
 // Currency Configuration
-// Supports multiple currencies with exchange rates relative to MYR
-export interface Currency {
-  code: string;
-  symbol: string;
-  name: string;
-  rate: number; // Exchange rate relative to MYR (MYR = 1)
-  position: 'before' | 'after'; // Symbol position
-  decimalPlaces: number;
-  thousandsSeparator: string;
-  decimalSeparator: string;
-}
+// ISO 4217 currencies from core, each formatted in its own locale; codes stay loosely
+// typed here so stored state and reports can carry any code
+export type { Currency } from '@basedpricer/core';
 
-export const CURRENCIES: Record<string, Currency> = {
-  MYR: {
-    code: 'MYR',
-    symbol: 'RM',
-    name: 'Malaysian Ringgit',
-    rate: 1,
-    position: 'before',
-    decimalPlaces: 2,
-    thousandsSeparator: ',',
-    decimalSeparator: '.',
-  },
-  USD: {
-    code: 'USD',
-    symbol: '$',
-    name: 'US Dollar',
-    rate: 0.22, // Approximate: 1 MYR = 0.22 USD
-    position: 'before',
-    decimalPlaces: 2,
-    thousandsSeparator: ',',
-    decimalSeparator: '.',
-  },
-  SGD: {
-    code: 'SGD',
-    symbol: 'S$',
-    name: 'Singapore Dollar',
-    rate: 0.29, // Approximate: 1 MYR = 0.29 SGD
-    position: 'before',
-    decimalPlaces: 2,
-    thousandsSeparator: ',',
-    decimalSeparator: '.',
-  },
-  EUR: {
-    code: 'EUR',
-    symbol: '\u20AC',
-    name: 'Euro',
-    rate: 0.20, // Approximate: 1 MYR = 0.20 EUR
-    position: 'before',
-    decimalPlaces: 2,
-    thousandsSeparator: '.',
-    decimalSeparator: ',',
-  },
-  GBP: {
-    code: 'GBP',
-    symbol: '\u00A3',
-    name: 'British Pound',
-    rate: 0.17, // Approximate: 1 MYR = 0.17 GBP
-    position: 'before',
-    decimalPlaces: 2,
-    thousandsSeparator: ',',
-    decimalSeparator: '.',
-  },
-  AUD: {
-    code: 'AUD',
-    symbol: 'A$',
-    name: 'Australian Dollar',
-    rate: 0.33, // Approximate: 1 MYR = 0.33 AUD
-    position: 'before',
-    decimalPlaces: 2,
-    thousandsSeparator: ',',
-    decimalSeparator: '.',
-  },
-} as const;
+export const CURRENCIES: Record<string, Currency> = CORE_CURRENCIES;
 
 export type CurrencyCode = keyof typeof CURRENCIES;
 export const DEFAULT_CURRENCY: CurrencyCode = 'MYR';
 
-// Default tier prices (MYR)
+// Default tier prices, in DEFAULT_CURRENCY
 export const DEFAULT_PRICES = {
   FREEMIUM: 0,
   BASIC: 25,
@@ -144,7 +77,7 @@ export const DEFAULT_PRICES = {
 // Annual discount preset options
 export const DISCOUNT_PRESETS = [10, 15, 17, 20, 25] as const;
 
-// Unit costs (MYR)
+// Unit costs, in DEFAULT_CURRENCY
 export const UNIT_COSTS = {
   EXTRACTION: 0.30,
   LINE_ITEM: 0.006,
@@ -171,6 +104,7 @@ export {
 // Storage keys
 export {
   STORAGE_KEY,
+  UNREADABLE_STATE_BACKUP_KEY,
   PROJECTS_INDEX_KEY,
   PROJECT_PREFIX,
   CURRENT_PROJECT_KEY,
@@ -5,6 +5,8 @@
 
 // Main pricing state
 export const STORAGE_KEY = 'cynco-pricing-state';
+// Stored state that could not be loaded, kept so it is not overwritten
+export const UNREADABLE_STATE_BACKUP_KEY = 'cynco-pricing-state-unreadable';
 
 // Project management
 export const PROJECTS_INDEX_KEY = 'cynco-projects';
@@ -4,7 +4,7 @@ import { createContext, useContext, useState, useCallback, type ReactNode } from
 // Types
 // ============================================================================
 
-export type Tab = 'overview' | 'analyze' | 'features' | 'cogs' | 'tiers' | 'pricing' | 'mockup';
+export type Tab = 'overview' | 'analyze' | 'features' | 'cogs' | 'tiers' | 'pricing' | 'actuals' | 'mockup';
 
 export interface NavigationContextValue {
   activeTab: Tab;
@@ -1,5 +1,22 @@
 import { createContext, useContext, useState, useEffect, useMemo, useCallback, useRef, type ReactNode } from 'react';
-import { generateId } from '@basedpricer/core';
+import {
+  generateId,
+  validateProjectFile,
+  parseProjectFile,
+  serializeProjectFile,
+  migrateProjectState,
+  convertProjectCurrency,
+  getExchangeRate,
+  PROJECT_SCHEMA_VERSION,
+  MonthlyActualsSchema,
+  PriceBookSchema,
+  TaxSettingsSchema,
+  type MonthlyActuals,
+  type ExchangeRates,
+  type PriceBook,
+  type ProjectFile,
+  type TaxSettings,
+} from '@basedpricer/core';
 import {
   type VariableCostItem,
   type FixedCostItem,
@@ -13,11 +30,15 @@ import { features as defaultFeatures, type Feature } from '../data/features';
 import { type BusinessType, type PricingModelType, BUSINESS_TYPES } from '../data/business-types';
 import { getTierTemplatesForBusinessType, convertTemplatesToTiers } from '../data/tier-templates';
 import { COST_PRESETS } from '../data/cost-presets';
+import { DEFAULT_SCENARIOS, type Scenario } from '../data/scenarios';
 import type { ToastData } from '../components/shared/Toast';
+import { fetchExchangeRates, loadExchangeRates, saveManualRates } from '../services/exchangeRate';
 import {
+  CURRENCIES,
   DEFAULT_CURRENCY,
   type CurrencyCode,
   STORAGE_KEY,
+  UNREADABLE_STATE_BACKUP_KEY,
   PROJECTS_INDEX_KEY,
   PROJECT_PREFIX,
   CURRENT_PROJECT_KEY,
@@ -38,6 +59,7 @@ import {
 import {
   BusinessTypeSchema,
   PricingModelTypeSchema,
+  ScenarioSchema,
 } from '../schemas/reports';
 
 // Re-export COST_PRESETS for backwards compatibility
@@ -87,6 +109,16 @@ export interface PricingState {
   // Pricing scenario (from Calculator)
   utilizationRate: number;
   tierDistribution: Record<string, number>;
+  scenarios: Scenario[];
+
+  // Local prices per market currency (from Pricing Preview)
+  priceBooks: PriceBook[];
+
+  // Sales tax on prices in the base currency (from Pricing Preview)
+  tax?: TaxSettings;
+
+  // Recorded monthly results (from Actuals)
+  actuals: MonthlyActuals[];
 
   // Business type (from analysis)
   businessType: BusinessType | null;
@@ -142,6 +174,19 @@ export interface PricingContextValue extends PricingState {
   // Actions - Scenario
   setUtilizationRate: (rate: number) => void;
   setTierDistribution: (distribution: Record<string, number>) => void;
+  saveScenario: (scenario: Scenario) => void;
+  removeScenario: (name: string) => void;
+
+  // Actions - Actuals
+  upsertMonthlyActuals: (actuals: MonthlyActuals) => void;
+  removeMonthlyActuals: (month: string) => void;
+
+  // Actions - Price Books
+  /** Add or replace the price book for its currency */
+  savePriceBook: (book: PriceBook) => void;
+  removePriceBook: (currency: string) => void;
+  /** Set or clear the sales tax on base currency prices */
+  setTax: (tax: TaxSettings | null) => void;
 
   // Actions - Business Type
   setBusinessType: (type: BusinessType, confidence: number) => void;
@@ -154,7 +199,18 @@ export interface PricingContextValue extends PricingState {
   removeTier: (tierId: string) => void;
 
   // Actions - Currency
+  /** Relabel the base currency without touching stored amounts */
   setCurrency: (currency: CurrencyCode) => void;
+  /** Change the base currency, converting every stored amount at the current exchange rates */
+  convertBaseCurrency: (currency: CurrencyCode) => void;
+
+  // Exchange Rates
+  /** Manual, last fetched live, or bundled snapshot rates, with their source and timestamp */
+  exchangeRates: ExchangeRates;
+  /** Fetch live rates and stop using the manual table */
+  refreshExchangeRates: () => Promise<void>;
+  /** Use a manual rate table, or go back to live or snapshot rates with null */
+  setManualExchangeRates: (rates: ExchangeRates | null) => void;
 
   // Actions - Onboarding
   setIsFirstVisit: (isFirst: boolean) => void;
@@ -172,6 +228,9 @@ export interface PricingContextValue extends PricingState {
   loadProject: (name: string) => boolean;
   deleteProject: (name: string) => void;
   renameProject: (newName: string) => void;
+  /** Serialized project file, or null (with an error toast) if the project is invalid */
+  exportProjectFile: () => string | null;
+  importProjectFile: (content: string) => boolean;
 
   // Toast system
   toasts: ToastData[];
@@ -190,16 +249,16 @@ export interface PricingContextValue extends PricingState {
 // ============================================================================
 
 function createDefaultTierDisplayConfig(tier: Tier, index: number): TierDisplayConfig {
-  const isFirstPaidTier = tier.monthlyPriceMYR > 0 && index <= 1;
+  const isFirstPaidTier = tier.monthlyPrice > 0 && index <= 1;
   return {
     highlighted: isFirstPaidTier,
     highlightedFeatures: [...tier.highlightFeatures],
-    ctaText: tier.monthlyPriceMYR === 0 ? 'Get Started Free'
+    ctaText: tier.monthlyPrice === 0 ? 'Get Started Free'
       : isFirstPaidTier ? 'Start Free Trial'
       : 'Contact Sales',
-    ctaStyle: isFirstPaidTier ? 'primary' : tier.monthlyPriceMYR === 0 ? 'outline' : 'secondary',
-    monthlyPrice: tier.monthlyPriceMYR,
-    annualPrice: tier.annualPriceMYR,
+    ctaStyle: isFirstPaidTier ? 'primary' : tier.monthlyPrice === 0 ? 'outline' : 'secondary',
+    monthlyPrice: tier.monthlyPrice,
+    annualPrice: tier.annualPrice,
     tagline: tier.tagline,
     badgeText: 'Most Popular',
     showLimits: true,
@@ -235,6 +294,9 @@ const DEFAULT_STATE: PricingState = {
     pro: 15,
     enterprise: 5,
   },
+  scenarios: DEFAULT_SCENARIOS,
+  priceBooks: [],
+  actuals: [],
   businessType: null,
   businessTypeConfidence: 0,
   pricingModelType: 'feature_tiered',
@@ -253,8 +315,8 @@ const EMPTY_STATE: PricingState = {
       name: 'Free',
       tagline: 'Get started',
       targetAudience: 'Individual users',
-      monthlyPriceMYR: 0,
-      annualPriceMYR: 0,
+      monthlyPrice: 0,
+      annualPrice: 0,
       annualDiscount: 0,
       status: 'active',
       limits: [],
@@ -267,8 +329,8 @@ const EMPTY_STATE: PricingState = {
       name: 'Pro',
       tagline: 'For professionals',
       targetAudience: 'Power users',
-      monthlyPriceMYR: 0,
-      annualPriceMYR: 0,
+      monthlyPrice: 0,
+      annualPrice: 0,
       annualDiscount: 20,
       status: 'active',
       limits: [],
@@ -309,6 +371,9 @@ const EMPTY_STATE: PricingState = {
     free: 70,
     pro: 30,
   },
+  scenarios: DEFAULT_SCENARIOS,
+  priceBooks: [],
+  actuals: [],
   businessType: null,
   businessTypeConfidence: 0,
   pricingModelType: 'feature_tiered',
@@ -320,18 +385,49 @@ const EMPTY_STATE: PricingState = {
 // Storage
 // ============================================================================
 
+/**
+ * Sanitized state loaded from storage or a project file
+ */
+interface LoadedState {
+  state: Partial<PricingState>;
+  /** Items left out because they failed validation, e.g. 'tier "Pro"' */
+  skipped: string[];
+  /** Set when the stored data could not be loaded and was backed up under this key instead */
+  backupKey?: string;
+}
+
+/**
+ * Label an invalid item for the user by its name, month or ID when it has one
+ */
+function describeSkippedItem(kind: string, item: unknown): string {
+  const fields = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+  const label = [fields.name, fields.month, fields.id].find(value => typeof value === 'string' && value);
+  return label ? `${kind} "${label}"` : kind;
+}
+
+/**
+ * Toast message listing the items left out of a loaded project
+ */
+function describeSkippedItems(skipped: string[]): string {
+  const listed = skipped.slice(0, 3).join(', ');
+  const more = skipped.length > 3 ? ` and ${skipped.length - 3} more` : '';
+  return `Some saved items were invalid and left out: ${listed}${more}`;
+}
+
 /**
  * Validates that loaded state has the expected structure using Zod schemas
- * Filters out invalid items from arrays while preserving valid ones
+ * Filters out invalid items from arrays while preserving valid ones, and lists
+ * what was left out so the user can be told
  * Returns sanitized partial state or null if completely invalid
  */
-function validateLoadedState(data: unknown): Partial<PricingState> | null {
+function validateLoadedState(data: unknown): LoadedState | null {
   if (!data || typeof data !== 'object') {
     return null;
   }
 
   const state = data as Record<string, unknown>;
   const validatedState: Partial<PricingState> = {};
+  const skipped: string[] = [];
 
   // Validate and filter variableCosts - keep only valid items
   if (state.variableCosts !== undefined) {
@@ -346,6 +442,7 @@ function validateLoadedState(data: unknown): Partial<PricingState> | null {
         validCosts.push(result.data);
       } else {
         console.warn('Skipping invalid variable cost item:', result.error.issues[0]?.message);
+        skipped.push(describeSkippedItem('variable cost', item));
       }
     }
     validatedState.variableCosts = validCosts;
@@ -364,6 +461,7 @@ function validateLoadedState(data: unknown): Partial<PricingState> | null {
         validCosts.push(result.data);
       } else {
         console.warn('Skipping invalid fixed cost item:', result.error.issues[0]?.message);
+        skipped.push(describeSkippedItem('fixed cost', item));
       }
     }
     validatedState.fixedCosts = validCosts;
@@ -382,6 +480,7 @@ function validateLoadedState(data: unknown): Partial<PricingState> | null {
         validTiers.push(result.data);
       } else {
         console.warn('Skipping invalid tier:', result.error.issues[0]?.message);
+        skipped.push(describeSkippedItem('tier', item));
       }
     }
     validatedState.tiers = validTiers;
@@ -400,6 +499,7 @@ function validateLoadedState(data: unknown): Partial<PricingState> | null {
         validFeatures.push(result.data);
       } else {
         console.warn('Skipping invalid feature:', result.error.issues[0]?.message);
+        skipped.push(describeSkippedItem('feature', item));
       }
     }
     validatedState.features = validFeatures;
@@ -468,6 +568,76 @@ function validateLoadedState(data: unknown): Partial<PricingState> | null {
     }
   }
 
+  // Validate and filter scenarios - keep only valid items
+  if (state.scenarios !== undefined) {
+    if (Array.isArray(state.scenarios)) {
+      const validScenarios: Scenario[] = [];
+      for (const item of state.scenarios) {
+        const result = ScenarioSchema.safeParse(item);
+        if (result.success) {
+          validScenarios.push(result.data);
+        } else {
+          console.warn('Skipping invalid scenario:', result.error.issues[0]?.message);
+          skipped.push(describeSkippedItem('scenario', item));
+        }
+      }
+      if (validScenarios.length > 0) {
+        validatedState.scenarios = validScenarios;
+      }
+    } else {
+      console.warn('Invalid scenarios in loaded state: not an array');
+    }
+  }
+
+  // Validate and filter actuals - keep only valid months
+  if (state.actuals !== undefined) {
+    if (Array.isArray(state.actuals)) {
+      const validActuals: MonthlyActuals[] = [];
+      for (const item of state.actuals) {
+        const result = MonthlyActualsSchema.safeParse(item);
+        if (result.success) {
+          validActuals.push(result.data);
+        } else {
+          console.warn('Skipping invalid monthly actuals:', result.error.issues[0]?.message);
+          skipped.push(describeSkippedItem('actuals for', item));
+        }
+      }
+      validatedState.actuals = validActuals;
+    } else {
+      console.warn('Invalid actuals in loaded state: not an array');
+    }
+  }
+
+  // Validate and filter price books - keep only valid markets
+  if (state.priceBooks !== undefined) {
+    if (Array.isArray(state.priceBooks)) {
+      const validBooks: PriceBook[] = [];
+      for (const item of state.priceBooks) {
+        const result = PriceBookSchema.safeParse(item);
+        if (result.success) {
+          validBooks.push(result.data);
+        } else {
+          console.warn('Skipping invalid price book:', result.error.issues[0]?.message);
+          skipped.push(describeSkippedItem('price book', item));
+        }
+      }
+      validatedState.priceBooks = validBooks;
+    } else {
+      console.warn('Invalid priceBooks in loaded state: not an array');
+    }
+  }
+
+  // Validate sales tax - drop it if invalid
+  if (state.tax !== undefined) {
+    const result = TaxSettingsSchema.safeParse(state.tax);
+    if (result.success) {
+      validatedState.tax = result.data;
+    } else {
+      console.warn('Ignoring invalid sales tax:', result.error.issues[0]?.message);
+      skipped.push('sales tax');
+    }
+  }
+
   // Validate business type using schema
   if (state.businessType !== undefined && state.businessType !== null) {
     const result = BusinessTypeSchema.safeParse(state.businessType);
@@ -498,8 +668,7 @@ function validateLoadedState(data: unknown): Partial<PricingState> | null {
 
   // Validate currency
   if (state.currency !== undefined) {
-    const validCurrencies = ['MYR', 'USD', 'SGD', 'EUR', 'GBP', 'AUD'];
-    if (typeof state.currency === 'string' && validCurrencies.includes(state.currency)) {
+    if (typeof state.currency === 'string' && Object.keys(CURRENCIES).includes(state.currency)) {
       validatedState.currency = state.currency as CurrencyCode;
     }
   }
@@ -509,25 +678,92 @@ function validateLoadedState(data: unknown): Partial<PricingState> | null {
     validatedState.isFirstVisit = Boolean(state.isFirstVisit);
   }
 
-  return validatedState;
+  // Apply a display currency (set by the version 2 migration or `basedpricer currency`)
+  if (typeof state.displayCurrency === 'string' && Object.keys(CURRENCIES).includes(state.displayCurrency)) {
+    return { state: convertToDisplayCurrency(validatedState, state.displayCurrency as CurrencyCode), skipped };
+  }
+
+  return { state: validatedState, skipped };
 }
 
-function loadFromStorage(): Partial<PricingState> | null {
+/**
+ * The web shows every amount in the base currency, so a project with a separate
+ * display currency is converted into it at the current exchange rates
+ */
+function convertToDisplayCurrency(state: Partial<PricingState>, displayCurrency: CurrencyCode): Partial<PricingState> {
+  const from = (state.currency ?? DEFAULT_CURRENCY) as ProjectFile['currency'];
+  const to = displayCurrency as ProjectFile['currency'];
+  if (from === to) return state;
+
+  // Missing amounts fall back to defaults, which are in the same base currency
+  const converted = convertProjectCurrency(
+    { ...DEFAULT_STATE, ...state, currency: from },
+    to,
+    getExchangeRate(loadExchangeRates(), from, to)
+  );
+  return {
+    ...state,
+    currency: displayCurrency,
+    variableCosts: converted.variableCosts,
+    fixedCosts: converted.fixedCosts,
+    tiers: converted.tiers,
+    selectedPrice: converted.selectedPrice,
+    scenarios: converted.scenarios,
+    actuals: converted.actuals,
+    tierDisplayConfigs: converted.tierDisplayConfigs,
+  };
+}
+
+/**
+ * Upgrade stored state from older schema versions before validating it
+ */
+function migrateStoredState(data: unknown): LoadedState | null {
+  const migrated = migrateProjectState(data);
+  if (!migrated.success) {
+    console.warn('Failed to migrate stored pricing state:', migrated.error);
+    return null;
+  }
+  return validateLoadedState(migrated.data.data);
+}
+
+/**
+ * Serialize state for storage, stamped with the current schema version
+ */
+function serializeStoredState(state: PricingState): string {
+  return JSON.stringify({ ...state, schemaVersion: PROJECT_SCHEMA_VERSION });
+}
+
+function loadFromStorage(): LoadedState | null {
+  let stored: string | null = null;
   try {
-    const stored = localStorage.getItem(STORAGE_KEY);
+    stored = localStorage.getItem(STORAGE_KEY);
     if (stored) {
-      const parsed = JSON.parse(stored);
-      return validateLoadedState(parsed);
+      const loaded = migrateStoredState(JSON.parse(stored));
+      if (loaded) return loaded;
     }
   } catch (e) {
     console.warn('Failed to load pricing state from localStorage:', e);
   }
-  return null;
+  return stored ? backupUnreadableState(stored) : null;
+}
+
+/**
+ * Keep stored state that could not be loaded (e.g. saved by a newer version)
+ * under a backup key, so starting over from defaults does not overwrite it
+ */
+function backupUnreadableState(stored: string): LoadedState | null {
+  try {
+    localStorage.setItem(UNREADABLE_STATE_BACKUP_KEY, stored);
+    return { state: {}, skipped: [], backupKey: UNREADABLE_STATE_BACKUP_KEY };
+  } catch (e) {
+    console.warn('Failed to back up unreadable pricing state:', e);
+    return null;
+  }
 }
 
 function saveToStorage(state: PricingState): void {
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    localStorage.setItem(STORAGE_KEY, serializeStoredState(state));
   } catch (e) {
     console.warn('Failed to save pricing state to localStorage:', e);
   }
@@ -553,7 +789,7 @@ function saveProjectsList(projects: string[]): void {
 
 function saveProjectData(name: string, state: PricingState): void {
   try {
-    localStorage.setItem(PROJECT_PREFIX + name, JSON.stringify(state));
+    localStorage.setItem(PROJECT_PREFIX + name, serializeStoredState(state));
     // Update projects list if not already included
     const projects = getProjectsList();
     if (!projects.includes(name)) {
@@ -564,12 +800,11 @@ function saveProjectData(name: string, state: PricingState): void {
   }
 }
 
-function loadProjectData(name: string): Partial<PricingState> | null {
+function loadProjectData(name: string): LoadedState | null {
   try {
     const stored = localStorage.getItem(PROJECT_PREFIX + name);
     if (stored) {
-      const parsed = JSON.parse(stored);
-      return validateLoadedState(parsed);
+      return migrateStoredState(JSON.parse(stored));
     }
     return null;
   } catch {
@@ -611,8 +846,9 @@ const PricingContext = createContext<PricingContextValue | null>(null);
 
 export function PricingProvider({ children }: { children: ReactNode }) {
   // Initialize state from localStorage or defaults
+  const [initialLoad] = useState(() => loadFromStorage());
   const [state, setState] = useState<PricingState>(() => {
-    const stored = loadFromStorage();
+    const stored = initialLoad?.state;
     const onboardingComplete = localStorage.getItem('cynco-onboarding-complete') === 'true';
 
     // If we have stored data, user has used the app before
@@ -634,8 +870,19 @@ export function PricingProvider({ children }: { children: ReactNode }) {
     };
   });
 
-  // Toast state (not persisted)
-  const [toasts, setToasts] = useState<ToastData[]>([]);
+  // Toast state (not persisted), starting with any problem loading the stored project
+  const [toasts, setToasts] = useState<ToastData[]>(() => {
+    if (initialLoad?.backupKey) {
+      const message = `Your saved project could not be loaded and was kept under "${initialLoad.backupKey}" in browser storage`;
+      return [{ id: generateId('toast'), type: 'error', message }];
+    }
+    return initialLoad?.skipped.length
+      ? [{ id: generateId('toast'), type: 'error', message: describeSkippedItems(initialLoad.skipped) }]
+      : [];
+  });
+
+  // Exchange rates (stored by the exchange rate service, not per project)
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRates>(() => loadExchangeRates());
 
   // Project name state
   const [currentProjectName, setCurrentProjectName] = useState<string>(() => getCurrentProjectName());
@@ -936,6 +1183,73 @@ export function PricingProvider({ children }: { children: ReactNode }) {
     setState(prev => ({ ...prev, tierDistribution: distribution }));
   }, []);
 
+  const saveScenario = useCallback((scenario: Scenario) => {
+    setState(prev => {
+      // Replace a scenario with the same name in place, otherwise append
+      const exists = prev.scenarios.some(s => s.name === scenario.name);
+      return {
+        ...prev,
+        scenarios: exists
+          ? prev.scenarios.map(s => (s.name === scenario.name ? scenario : s))
+          : [...prev.scenarios, scenario],
+      };
+    });
+  }, []);
+
+  const removeScenario = useCallback((name: string) => {
+    setState(prev => ({
+      ...prev,
+      scenarios: prev.scenarios.filter(s => s.name !== name),
+    }));
+  }, []);
+
+  // -------------------------------------------------------------------------
+  // Actions - Actuals
+  // -------------------------------------------------------------------------
+
+  const upsertMonthlyActuals = useCallback((actuals: MonthlyActuals) => {
+    setState(prev => ({
+      ...prev,
+      // Keep months in chronological order, replacing any existing entry
+      actuals: [...prev.actuals.filter(a => a.month !== actuals.month), actuals]
+        .sort((a, b) => a.month.localeCompare(b.month)),
+    }));
+  }, []);
+
+  const removeMonthlyActuals = useCallback((month: string) => {
+    setState(prev => ({
+      ...prev,
+      actuals: prev.actuals.filter(a => a.month !== month),
+    }));
+  }, []);
+
+  // -------------------------------------------------------------------------
+  // Actions - Price Books
+  // -------------------------------------------------------------------------
+
+  const savePriceBook = useCallback((book: PriceBook) => {
+    setState(prev => {
+      const index = prev.priceBooks.findIndex(b => b.currency === book.currency);
+      return {
+        ...prev,
+        priceBooks: index >= 0
+          ? prev.priceBooks.map((b, i) => (i === index ? book : b))
+          : [...prev.priceBooks, book],
+      };
+    });
+  }, []);
+
+  const removePriceBook = useCallback((currency: string) => {
+    setState(prev => ({
+      ...prev,
+      priceBooks: prev.priceBooks.filter(b => b.currency !== currency),
+    }));
+  }, []);
+
+  const setTax = useCallback((tax: TaxSettings | null) => {
+    setState(prev => ({ ...prev, tax: tax ?? undefined }));
+  }, []);
+
   // -------------------------------------------------------------------------
   // Actions - Business Type
   // -------------------------------------------------------------------------
@@ -955,12 +1269,11 @@ export function PricingProvider({ children }: { children: ReactNode }) {
 
   const applyBusinessTypeTemplate = useCallback((businessType: BusinessType) => {
     const templateSet = getTierTemplatesForBusinessType(businessType);
-    const newTiers = convertTemplatesToTiers(templateSet.tiers, businessType);
     setState(prev => ({
       ...prev,
       businessType,
       pricingModelType: BUSINESS_TYPES[businessType]?.pricingModel ?? 'feature_tiered',
-      tiers: newTiers,
+      tiers: convertTemplatesToTiers(templateSet.tiers, businessType, prev.currency as ProjectFile['currency']),
     }));
   }, []);
 
@@ -988,8 +1301,8 @@ export function PricingProvider({ children }: { children: ReactNode }) {
             name: `Tier ${i + 1}`,
             tagline: 'New tier',
             targetAudience: 'Describe target audience',
-            monthlyPriceMYR: 0,
-            annualPriceMYR: 0,
+            monthlyPrice: 0,
+            annualPrice: 0,
             annualDiscount: 17,
             status: 'coming_soon',
             limits: [],
@@ -1016,8 +1329,8 @@ export function PricingProvider({ children }: { children: ReactNode }) {
           name: `Tier ${prev.tiers.length + 1}`,
           tagline: 'New tier',
           targetAudience: 'Describe target audience',
-          monthlyPriceMYR: 0,
-          annualPriceMYR: 0,
+          monthlyPrice: 0,
+          annualPrice: 0,
           annualDiscount: 17,
           status: 'coming_soon',
           limits: [],
@@ -1044,6 +1357,15 @@ export function PricingProvider({ children }: { children: ReactNode }) {
     setState(prev => ({ ...prev, currency }));
   }, []);
 
+  const convertBaseCurrency = useCallback((currency: CurrencyCode) => {
+    // Web currency codes are loosely typed; the code picker only offers CURRENCIES
+    setState(prev => convertProjectCurrency(
+      { ...prev, currency: prev.currency as ProjectFile['currency'] },
+      currency as ProjectFile['currency'],
+      getExchangeRate(exchangeRates, prev.currency as ProjectFile['currency'], currency as ProjectFile['currency'])
+    ));
+  }, [exchangeRates]);
+
   // -------------------------------------------------------------------------
   // Actions - Onboarding
   // -------------------------------------------------------------------------
@@ -1094,6 +1416,31 @@ export function PricingProvider({ children }: { children: ReactNode }) {
     setToasts(prev => prev.filter(t => t.id !== id));
   }, []);
 
+  // -------------------------------------------------------------------------
+  // Actions - Exchange Rates
+  // -------------------------------------------------------------------------
+
+  const refreshExchangeRates = useCallback(async () => {
+    try {
+      const rates = await fetchExchangeRates();
+      saveManualRates(null);
+      setExchangeRates(rates);
+      showToast('success', 'Exchange rates updated');
+    } catch (e) {
+      console.warn('Failed to fetch exchange rates:', e);
+      showToast('error', 'Could not fetch live exchange rates');
+    }
+  }, [showToast]);
+
+  const setManualExchangeRates = useCallback((rates: ExchangeRates | null) => {
+    try {
+      saveManualRates(rates);
+      setExchangeRates(loadExchangeRates());
+    } catch (e) {
+      showToast('error', e instanceof Error ? e.message : 'Invalid exchange rates');
+    }
+  }, [showToast]);
+
   // -------------------------------------------------------------------------
   // Actions - Project Management
   // -------------------------------------------------------------------------
@@ -1114,12 +1461,15 @@ export function PricingProvider({ children }: { children: ReactNode }) {
     if (projectData) {
       setState({
         ...DEFAULT_STATE,
-        ...projectData,
+        ...projectData.state,
         isFirstVisit: false,
       });
       setCurrentProjectName(name);
       setCurrentProjectNameStorage(name);
       showToast('success', `Project "${name}" loaded`);
+      if (projectData.skipped.length > 0) {
+        showToast('error', describeSkippedItems(projectData.skipped));
+      }
       return true;
     }
     showToast('error', `Project "${name}" not found`);
@@ -1143,6 +1493,50 @@ export function PricingProvider({ children }: { children: ReactNode }) {
     }
   }, []);
 
+  const exportProjectFile = useCallback((): string | null => {
+    // UI-only fields such as isFirstVisit are stripped by the project schema
+    const result = validateProjectFile({
+      ...state,
+      schemaVersion: PROJECT_SCHEMA_VERSION,
+      name: currentProjectName,
+      exportedAt: new Date().toISOString(),
+    });
+    if (!result.success) {
+      showToast('error', `Export failed: ${result.error}`);
+      return null;
+    }
+    return serializeProjectFile(result.data);
+  }, [state, currentProjectName, showToast]);
+
+  const importProjectFile = useCallback((content: string): boolean => {
+    const result = parseProjectFile(content);
+    const loaded = result.success ? validateLoadedState(result.data) : null;
+    if (!result.success || !loaded) {
+      showToast('error', `Import failed: ${result.success ? 'invalid project data' : result.error}`);
+      return false;
+    }
+    const imported = loaded.state;
+
+    const name = result.data.name;
+    const newState: PricingState = {
+      ...DEFAULT_STATE,
+      ...imported,
+      tierDisplayConfigs: result.data.tierDisplayConfigs
+        ? imported.tierDisplayConfigs ?? {}
+        : createTierDisplayConfigsFromTiers(imported.tiers ?? DEFAULT_STATE.tiers),
+      isFirstVisit: false,
+    };
+    setState(newState);
+    saveProjectData(name, newState);
+    setCurrentProjectName(name);
+    setCurrentProjectNameStorage(name);
+    showToast('success', `Project "${name}" imported`);
+    if (loaded.skipped.length > 0) {
+      showToast('error', describeSkippedItems(loaded.skipped));
+    }
+    return true;
+  }, [showToast]);
+
   // -------------------------------------------------------------------------
   // Context value (memoized to prevent unnecessary re-renders)
   // -------------------------------------------------------------------------
@@ -1178,6 +1572,13 @@ export function PricingProvider({ children }: { children: ReactNode }) {
     importCodebaseFeatures,
     setUtilizationRate,
     setTierDistribution,
+    saveScenario,
+    removeScenario,
+    upsertMonthlyActuals,
+    removeMonthlyActuals,
+    savePriceBook,
+    removePriceBook,
+    setTax,
     setBusinessType,
     setPricingModelType,
     applyBusinessTypeTemplate,
@@ -1185,11 +1586,16 @@ export function PricingProvider({ children }: { children: ReactNode }) {
     addTier,
     removeTier,
     setCurrency,
+    convertBaseCurrency,
     setIsFirstVisit,
     completeOnboarding,
     resetToDefaults,
     resetToEmpty,
     loadPreset,
+    // Exchange Rates
+    exchangeRates,
+    refreshExchangeRates,
+    setManualExchangeRates,
     // Project Management
     currentProjectName,
     listProjects,
@@ -1197,6 +1603,8 @@ export function PricingProvider({ children }: { children: ReactNode }) {
     loadProject,
     deleteProject,
     renameProject,
+    exportProjectFile,
+    importProjectFile,
     // Toast
     toasts,
     showToast,
@@ -1213,6 +1621,7 @@ export function PricingProvider({ children }: { children: ReactNode }) {
     profit,
     marginStatus,
     toasts,
+    exchangeRates,
     // Actions are stable (useCallback with empty or stable deps)
     setVariableCosts,
     setFixedCosts,
@@ -1236,6 +1645,13 @@ export function PricingProvider({ children }: { children: ReactNode }) {
     importCodebaseFeatures,
     setUtilizationRate,
     setTierDistribution,
+    saveScenario,
+    removeScenario,
+    upsertMonthlyActuals,
+    removeMonthlyActuals,
+    savePriceBook,
+    removePriceBook,
+    setTax,
     setBusinessType,
     setPricingModelType,
     applyBusinessTypeTemplate,
@@ -1243,17 +1659,22 @@ export function PricingProvider({ children }: { children: ReactNode }) {
     addTier,
     removeTier,
     setCurrency,
+    convertBaseCurrency,
     setIsFirstVisit,
     completeOnboarding,
     resetToDefaults,
     resetToEmpty,
     loadPreset,
+    refreshExchangeRates,
+    setManualExchangeRates,
     currentProjectName,
     listProjects,
     saveProject,
     loadProject,
     deleteProject,
     renameProject,
+    exportProjectFile,
+    importProjectFile,
     showToast,
     dismissToast,
     canUndo,
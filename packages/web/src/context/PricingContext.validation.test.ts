@@ -4,6 +4,9 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { EXCHANGE_RATE_SNAPSHOT, getExchangeRate } from '@basedpricer/core';
+import { PricingProvider, usePricing } from './PricingContext';
 
 // We need to test the validateLoadedState function indirectly through localStorage
 // since it's not exported. We'll test by setting localStorage and checking behavior.
@@ -90,8 +93,8 @@ describe('PricingContext localStorage validation', () => {
             id: 'basic',
             name: 'Basic',
             tagline: 'For starters',
-            monthlyPriceMYR: 25,
-            annualPriceMYR: 250,
+            monthlyPrice: 25,
+            annualPrice: 250,
             annualDiscount: 17,
             status: 'active',
             targetAudience: 'Small businesses',
@@ -114,8 +117,8 @@ describe('PricingContext localStorage validation', () => {
             id: 'basic',
             name: 'Basic',
             tagline: 'For starters',
-            monthlyPriceMYR: 25,
-            annualPriceMYR: 250,
+            monthlyPrice: 25,
+            annualPrice: 250,
             annualDiscount: 17,
             status: 'invalid_status', // Invalid enum value
             targetAudience: 'Small businesses',
@@ -374,4 +377,69 @@ describe('PricingContext localStorage validation', () => {
       expect(Array.isArray(parsed)).toBe(true);
     });
   });
+
+  describe('reporting dropped items', () => {
+    const validCost = { id: 'var-1', name: 'API', unit: 'calls', costPerUnit: 0.01, usagePerCustomer: 100, description: '' };
+    const brokenCost = { id: 'var-2', name: 'Storage', unit: 'GB', costPerUnit: -1, usagePerCustomer: 2, description: '' };
+
+    it('should tell the user which stored items were left out', () => {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ variableCosts: [validCost, brokenCost] }));
+
+      const { result } = renderHook(() => usePricing(), { wrapper: PricingProvider });
+
+      expect(result.current.variableCosts.map(c => c.id)).toEqual(['var-1']);
+      expect(result.current.toasts).toHaveLength(1);
+      expect(result.current.toasts[0]).toMatchObject({
+        type: 'error',
+        message: 'Some saved items were invalid and left out: variable cost "Storage"',
+      });
+    });
+
+    it('should not warn when every stored item is valid', () => {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ variableCosts: [validCost] }));
+
+      const { result } = renderHook(() => usePricing(), { wrapper: PricingProvider });
+
+      expect(result.current.toasts).toEqual([]);
+    });
+
+    it('should back up a stored project it cannot load instead of saving over it', () => {
+      const newer = JSON.stringify({ schemaVersion: 99, variableCosts: [validCost] });
+      localStorage.setItem(STORAGE_KEY, newer);
+
+      const { result } = renderHook(() => usePricing(), { wrapper: PricingProvider });
+
+      expect(localStorage.getItem('cynco-pricing-state-unreadable')).toBe(newer);
+      expect(result.current.toasts).toHaveLength(1);
+      expect(result.current.toasts[0]).toMatchObject({
+        type: 'error',
+        message: 'Your saved project could not be loaded and was kept under "cynco-pricing-state-unreadable" in browser storage',
+      });
+    });
+  });
+
+  describe('display currency', () => {
+    const cost = { id: 'var-1', name: 'API', unit: 'calls', costPerUnit: 10, usagePerCustomer: 100, description: '' };
+
+    it('should convert a version 1 project into the currency the user picked', () => {
+      // Version 1 stored amounts in MYR whatever currency was chosen
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ currency: 'USD', variableCosts: [cost], selectedPrice: 100 }));
+
+      const { result } = renderHook(() => usePricing(), { wrapper: PricingProvider });
+      const rate = getExchangeRate(EXCHANGE_RATE_SNAPSHOT, 'MYR', 'USD');
+
+      expect(result.current.currency).toBe('USD');
+      expect(result.current.variableCosts[0].costPerUnit).toBeCloseTo(10 * rate);
+      expect(result.current.selectedPrice).toBeCloseTo(100 * rate);
+    });
+
+    it('should leave a project without a display currency in its base currency', () => {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ schemaVersion: 2, currency: 'USD', variableCosts: [cost] }));
+
+      const { result } = renderHook(() => usePricing(), { wrapper: PricingProvider });
+
+      expect(result.current.currency).toBe('USD');
+      expect(result.current.variableCosts[0].costPerUnit).toBe(10);
+    });
+  });
 });
@@ -3,6 +3,11 @@
  * Current pricing as of January 2026 - should be periodically updated
  */
 
+import {
+  getProviderModelPricing,
+  isCustomProviderId,
+  type AIProviderId,
+} from '@basedpricer/core';
 import type { AIProvider } from '../services/api-keys';
 
 export interface AIModelPricing {
@@ -211,7 +216,12 @@ export const AI_PRICING: Record<AIProvider, ProviderPricing> = {
 /**
  * Get pricing for a specific provider's default model
  */
-export function getPricingForProvider(provider: AIProvider): AIModelPricing | null {
+export function getPricingForProvider(provider: AIProviderId): AIModelPricing | null {
+  // Custom providers carry their own pricing in the core provider registry
+  if (isCustomProviderId(provider)) {
+    return getProviderModelPricing(provider);
+  }
+
   const providerPricing = AI_PRICING[provider];
   if (!providerPricing) return null;
 
@@ -222,9 +232,13 @@ export function getPricingForProvider(provider: AIProvider): AIModelPricing | nu
  * Get pricing for a specific model
  */
 export function getPricingForModel(
-  provider: AIProvider,
+  provider: AIProviderId,
   modelId?: string
 ): AIModelPricing | null {
+  if (isCustomProviderId(provider)) {
+    return getProviderModelPricing(provider, modelId);
+  }
+
   const providerPricing = AI_PRICING[provider];
   if (!providerPricing) return null;
 
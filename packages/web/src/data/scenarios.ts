@@ -0,0 +1,23 @@
+/**
+ * Pricing Scenarios
+ * Default tier mix and funnel assumptions for the pricing calculator
+ */
+
+export interface Scenario {
+  name: string;
+  distribution: Record<string, number>;
+  monthlyChurnRate: number;
+  conversionRate: number;
+  /** Total customers modelled; the simulator's current count when unset */
+  customerCount?: number;
+  /** Monthly price per tier ID, overriding the tier's own price */
+  prices?: Record<string, number>;
+  /** Customer acquisition cost, for LTV:CAC */
+  cac?: number;
+}
+
+export const DEFAULT_SCENARIOS: Scenario[] = [
+  { name: 'Early Stage', distribution: { freemium: 80, basic: 15, pro: 4, enterprise: 1 }, monthlyChurnRate: 5, conversionRate: 3 },
+  { name: 'Growth', distribution: { freemium: 70, basic: 20, pro: 8, enterprise: 2 }, monthlyChurnRate: 4, conversionRate: 5 },
+  { name: 'Mature', distribution: { freemium: 60, basic: 25, pro: 12, enterprise: 3 }, monthlyChurnRate: 3, conversionRate: 7 },
+];
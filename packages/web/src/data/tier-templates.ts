@@ -3,6 +3,7 @@
  * Pre-configured tier structures for different business types
  */
 
+import { convertCurrency, type CurrencyCode } from '@basedpricer/core';
 import { type BusinessType } from './business-types';
 import type { Tier } from './tiers';
 
@@ -381,30 +382,44 @@ export function getTierTemplatesForBusinessType(businessType: BusinessType): Tie
 }
 
 /**
- * Convert tier templates to Tier format for use in the app
+ * Suggested monthly price of a template in `currency`.
+ * MYR uses the hand-picked local price; other currencies convert the USD price.
+ */
+function getTemplatePrice(template: TierTemplate, currency: CurrencyCode): number {
+  return currency === 'MYR'
+    ? template.suggestedPriceMYR
+    : Math.round(convertCurrency(template.suggestedPriceUSD, 'USD', currency));
+}
+
+/**
+ * Convert tier templates to Tier format for use in the app, priced in `currency`
  */
 export function convertTemplatesToTiers(
   templates: TierTemplate[],
-  businessType: BusinessType
+  businessType: BusinessType,
+  currency: CurrencyCode = 'MYR'
 ): Tier[] {
-  return templates.map((template) => ({
-    id: `${businessType}-${template.name.toLowerCase().replace(/\s+/g, '-')}`,
-    name: template.name,
-    tagline: template.tagline,
-    targetAudience: template.targetAudience,
-    monthlyPriceMYR: template.suggestedPriceMYR,
-    annualPriceMYR: Math.round(template.suggestedPriceMYR * 10), // ~17% annual discount
-    annualDiscount: 17,
-    status: template.status,
-    limits: Object.entries(template.keyLimits).map(([featureId, limit]) => ({
-      featureId: featureId.toLowerCase().replace(/[^a-z0-9]/g, '_'),
-      limit: limit === 'unlimited' ? 'unlimited' : limit,
-      unit: featureId,
-    })),
-    includedFeatures: template.keyFeatures,
-    excludedFeatures: [],
-    highlightFeatures: template.keyFeatures.slice(0, 3), // First 3 features as highlights
-  }));
+  return templates.map((template) => {
+    const price = getTemplatePrice(template, currency);
+    return {
+      id: `${businessType}-${template.name.toLowerCase().replace(/\s+/g, '-')}`,
+      name: template.name,
+      tagline: template.tagline,
+      targetAudience: template.targetAudience,
+      monthlyPrice: price,
+      annualPrice: Math.round(price * 10), // ~17% annual discount
+      annualDiscount: 17,
+      status: template.status,
+      limits: Object.entries(template.keyLimits).map(([featureId, limit]) => ({
+        featureId: featureId.toLowerCase().replace(/[^a-z0-9]/g, '_'),
+        limit: limit === 'unlimited' ? 'unlimited' : limit,
+        unit: featureId,
+      })),
+      includedFeatures: template.keyFeatures,
+      excludedFeatures: [],
+      highlightFeatures: template.keyFeatures.slice(0, 3), // First 3 features as highlights
+    };
+  });
 }
 
 /**
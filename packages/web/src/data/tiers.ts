@@ -1,22 +1,25 @@
+import type { TierSeatPricing } from '@basedpricer/core';
 import { features } from './features';
-import { type CostRates, DEFAULT_COST_RATES } from '../utils/costRates';
-
-// Re-export CostRates and DEFAULT_COST_RATES for backward compatibility
-export { type CostRates, DEFAULT_COST_RATES } from '../utils/costRates';
+import { FEATURE_COST_MAPPING } from '../constants/costIds';
 
 export interface TierLimit {
   featureId: string;
   limit: number | 'unlimited' | boolean;
   unit?: string;
+  variableCostId?: string; // Variable cost item this limit consumes (overrides feature costDriver)
+  unlimitedUsage?: number; // Expected usage per customer when limit is 'unlimited'
+  overagePrice?: number; // Price per unit beyond the limit; makes the limit an included quota
+  perSeat?: boolean; // Limit applies per seat, so usage scales with seats
 }
 
 export interface Tier {
   id: string;
   name: string;
   tagline: string;
-  monthlyPriceMYR: number;
-  annualPriceMYR: number;
+  monthlyPrice: number; // Base fee when seatPricing is set
+  annualPrice: number;
   annualDiscount: number;
+  seatPricing?: TierSeatPricing;
   status: 'active' | 'coming_soon' | 'internal';
   targetAudience: string;
   limits: TierLimit[];
@@ -31,8 +34,8 @@ export const defaultTiers: Tier[] = [
     id: 'freemium',
     name: 'Freemium',
     tagline: 'Get started for free',
-    monthlyPriceMYR: 0,
-    annualPriceMYR: 0,
+    monthlyPrice: 0,
+    annualPrice: 0,
     annualDiscount: 0,
     status: 'active',
     targetAudience: 'Solo freelancers, students, and early-stage startups testing the platform',
@@ -40,12 +43,12 @@ export const defaultTiers: Tier[] = [
       { featureId: 'invoice_create', limit: 10, unit: 'invoices/month' },
       { featureId: 'invoice_templates', limit: 1, unit: 'templates' },
       { featureId: 'customer_management', limit: 20, unit: 'customers' },
-      { featureId: 'dataroom_storage', limit: 0.5, unit: 'GB' },
-      { featureId: 'ocr_extraction', limit: 5, unit: 'extractions/month' },
-      { featureId: 'line_item_extraction', limit: 50, unit: 'line items/month' },
-      { featureId: 'coa_mapping', limit: 20, unit: 'mappings/month' },
-      { featureId: 'journal_entries', limit: 10, unit: 'entries/month' },
-      { featureId: 'invoice_emails', limit: 20, unit: 'emails/month' },
+      { featureId: 'dataroom_storage', limit: 0.5, unit: 'GB', variableCostId: FEATURE_COST_MAPPING.dataroom_storage },
+      { featureId: 'ocr_extraction', limit: 5, unit: 'extractions/month', variableCostId: FEATURE_COST_MAPPING.ocr_extraction },
+      { featureId: 'line_item_extraction', limit: 50, unit: 'line items/month', variableCostId: FEATURE_COST_MAPPING.line_item_extraction },
+      { featureId: 'coa_mapping', limit: 20, unit: 'mappings/month', variableCostId: FEATURE_COST_MAPPING.coa_mapping },
+      { featureId: 'journal_entries', limit: 10, unit: 'entries/month', variableCostId: FEATURE_COST_MAPPING.journal_entries },
+      { featureId: 'invoice_emails', limit: 20, unit: 'emails/month', variableCostId: FEATURE_COST_MAPPING.invoice_emails },
       { featureId: 'team_members', limit: 1, unit: 'user' },
     ],
     includedFeatures: [
@@ -103,8 +106,8 @@ export const defaultTiers: Tier[] = [
     id: 'basic',
     name: 'Basic',
     tagline: 'Perfect for small businesses',
-    monthlyPriceMYR: 25,
-    annualPriceMYR: 250, // ~17% discount
+    monthlyPrice: 25,
+    annualPrice: 250, // ~17% discount
     annualDiscount: 17,
     status: 'active',
     targetAudience: 'Small businesses, freelancers with regular invoicing needs',
@@ -112,13 +115,13 @@ export const defaultTiers: Tier[] = [
       { featureId: 'invoice_create', limit: 100, unit: 'invoices/month' },
       { featureId: 'invoice_templates', limit: 3, unit: 'templates' },
       { featureId: 'customer_management', limit: 100, unit: 'customers' },
-      { featureId: 'dataroom_storage', limit: 5, unit: 'GB' },
-      { featureId: 'ocr_extraction', limit: 30, unit: 'extractions/month' },
-      { featureId: 'line_item_extraction', limit: 300, unit: 'line items/month' },
-      { featureId: 'coa_mapping', limit: 100, unit: 'mappings/month' },
-      { featureId: 'journal_entries', limit: 50, unit: 'entries/month' },
-      { featureId: 'invoice_emails', limit: 200, unit: 'emails/month' },
-      { featureId: 'invoice_reminders', limit: 50, unit: 'reminders/month' },
+      { featureId: 'dataroom_storage', limit: 5, unit: 'GB', variableCostId: FEATURE_COST_MAPPING.dataroom_storage },
+      { featureId: 'ocr_extraction', limit: 30, unit: 'extractions/month', variableCostId: FEATURE_COST_MAPPING.ocr_extraction },
+      { featureId: 'line_item_extraction', limit: 300, unit: 'line items/month', variableCostId: FEATURE_COST_MAPPING.line_item_extraction },
+      { featureId: 'coa_mapping', limit: 100, unit: 'mappings/month', variableCostId: FEATURE_COST_MAPPING.coa_mapping },
+      { featureId: 'journal_entries', limit: 50, unit: 'entries/month', variableCostId: FEATURE_COST_MAPPING.journal_entries },
+      { featureId: 'invoice_emails', limit: 200, unit: 'emails/month', variableCostId: FEATURE_COST_MAPPING.invoice_emails },
+      { featureId: 'invoice_reminders', limit: 50, unit: 'reminders/month', variableCostId: FEATURE_COST_MAPPING.invoice_reminders },
       { featureId: 'team_members', limit: 2, unit: 'users' },
     ],
     includedFeatures: [
@@ -177,8 +180,8 @@ export const defaultTiers: Tier[] = [
     id: 'pro',
     name: 'Pro',
     tagline: 'For growing businesses',
-    monthlyPriceMYR: 79,
-    annualPriceMYR: 790, // ~17% discount (79 * 12 = 948, discount = 158)
+    monthlyPrice: 79,
+    annualPrice: 790, // ~17% discount (79 * 12 = 948, discount = 158)
     annualDiscount: 17,
     status: 'active',
     targetAudience: 'Growing SMEs, small accounting practices',
@@ -186,13 +189,13 @@ export const defaultTiers: Tier[] = [
       { featureId: 'invoice_create', limit: 500, unit: 'invoices/month' },
       { featureId: 'invoice_templates', limit: 10, unit: 'templates' },
       { featureId: 'customer_management', limit: 500, unit: 'customers' },
-      { featureId: 'dataroom_storage', limit: 25, unit: 'GB' },
-      { featureId: 'ocr_extraction', limit: 150, unit: 'extractions/month' },
-      { featureId: 'line_item_extraction', limit: 1500, unit: 'line items/month' },
-      { featureId: 'coa_mapping', limit: 500, unit: 'mappings/month' },
-      { featureId: 'journal_entries', limit: 250, unit: 'entries/month' },
-      { featureId: 'invoice_emails', limit: 1000, unit: 'emails/month' },
-      { featureId: 'invoice_reminders', limit: 250, unit: 'reminders/month' },
+      { featureId: 'dataroom_storage', limit: 25, unit: 'GB', variableCostId: FEATURE_COST_MAPPING.dataroom_storage },
+      { featureId: 'ocr_extraction', limit: 150, unit: 'extractions/month', variableCostId: FEATURE_COST_MAPPING.ocr_extraction },
+      { featureId: 'line_item_extraction', limit: 1500, unit: 'line items/month', variableCostId: FEATURE_COST_MAPPING.line_item_extraction },
+      { featureId: 'coa_mapping', limit: 500, unit: 'mappings/month', variableCostId: FEATURE_COST_MAPPING.coa_mapping },
+      { featureId: 'journal_entries', limit: 250, unit: 'entries/month', variableCostId: FEATURE_COST_MAPPING.journal_entries },
+      { featureId: 'invoice_emails', limit: 1000, unit: 'emails/month', variableCostId: FEATURE_COST_MAPPING.invoice_emails },
+      { featureId: 'invoice_reminders', limit: 250, unit: 'reminders/month', variableCostId: FEATURE_COST_MAPPING.invoice_reminders },
       { featureId: 'team_members', limit: 5, unit: 'users' },
       { featureId: 'client_hierarchy', limit: 5, unit: 'client accounts' },
     ],
@@ -253,8 +256,8 @@ export const defaultTiers: Tier[] = [
     id: 'enterprise',
     name: 'Enterprise',
     tagline: 'For large organizations',
-    monthlyPriceMYR: 0, // Custom pricing
-    annualPriceMYR: 0,
+    monthlyPrice: 0, // Custom pricing
+    annualPrice: 0,
     annualDiscount: 0,
     status: 'coming_soon',
     targetAudience: 'Large accounting firms, enterprises with complex needs',
@@ -262,13 +265,13 @@ export const defaultTiers: Tier[] = [
       { featureId: 'invoice_create', limit: 'unlimited' },
       { featureId: 'invoice_templates', limit: 'unlimited' },
       { featureId: 'customer_management', limit: 'unlimited' },
-      { featureId: 'dataroom_storage', limit: 100, unit: 'GB (expandable)' },
-      { featureId: 'ocr_extraction', limit: 'unlimited' },
-      { featureId: 'line_item_extraction', limit: 'unlimited' },
-      { featureId: 'coa_mapping', limit: 'unlimited' },
-      { featureId: 'journal_entries', limit: 'unlimited' },
-      { featureId: 'invoice_emails', limit: 'unlimited' },
-      { featureId: 'invoice_reminders', limit: 'unlimited' },
+      { featureId: 'dataroom_storage', limit: 100, unit: 'GB (expandable)', variableCostId: FEATURE_COST_MAPPING.dataroom_storage },
+      { featureId: 'ocr_extraction', limit: 'unlimited', variableCostId: FEATURE_COST_MAPPING.ocr_extraction, unlimitedUsage: 500 },
+      { featureId: 'line_item_extraction', limit: 'unlimited', variableCostId: FEATURE_COST_MAPPING.line_item_extraction, unlimitedUsage: 5000 },
+      { featureId: 'coa_mapping', limit: 'unlimited', variableCostId: FEATURE_COST_MAPPING.coa_mapping, unlimitedUsage: 2500 },
+      { featureId: 'journal_entries', limit: 'unlimited', variableCostId: FEATURE_COST_MAPPING.journal_entries, unlimitedUsage: 1250 },
+      { featureId: 'invoice_emails', limit: 'unlimited', variableCostId: FEATURE_COST_MAPPING.invoice_emails, unlimitedUsage: 5000 },
+      { featureId: 'invoice_reminders', limit: 'unlimited', variableCostId: FEATURE_COST_MAPPING.invoice_reminders, unlimitedUsage: 1250 },
       { featureId: 'team_members', limit: 'unlimited' },
       { featureId: 'client_hierarchy', limit: 'unlimited' },
       { featureId: 'api_access', limit: 'unlimited' },
@@ -284,59 +287,3 @@ export const defaultTiers: Tier[] = [
     ]
   }
 ];
-
-// Default assumptions for unlimited tiers (Enterprise)
-// These represent realistic usage estimates for enterprise customers
-export const unlimitedTierDefaults = {
-  ocr_extraction: 500, // extractions/month
-  invoice_emails: 5000, // emails/month
-  dataroom_storage: 100, // GB
-};
-
-
-// Helper function to calculate estimated variable costs per tier
-// Now accepts cost rates as parameter to stay in sync with COGS calculator
-export function calculateTierVariableCosts(
-  tier: Tier,
-  utilizationRate: number = 0.7, // Default 70% utilization
-  costRates: CostRates = DEFAULT_COST_RATES
-): {
-  extraction: number;
-  email: number;
-  storage: number;
-  total: number;
-} {
-  const extractionLimit = tier.limits.find(l => l.featureId === 'ocr_extraction')?.limit;
-  const emailLimit = tier.limits.find(l => l.featureId === 'invoice_emails')?.limit;
-  const storageLimit = tier.limits.find(l => l.featureId === 'dataroom_storage')?.limit;
-
-  // For 'unlimited', use enterprise defaults; for boolean/other, use 0
-  const effectiveExtraction = typeof extractionLimit === 'number'
-    ? extractionLimit
-    : extractionLimit === 'unlimited'
-      ? unlimitedTierDefaults.ocr_extraction
-      : 0;
-
-  const effectiveEmail = typeof emailLimit === 'number'
-    ? emailLimit
-    : emailLimit === 'unlimited'
-      ? unlimitedTierDefaults.invoice_emails
-      : 0;
-
-  const effectiveStorage = typeof storageLimit === 'number'
-    ? storageLimit
-    : storageLimit === 'unlimited'
-      ? unlimitedTierDefaults.dataroom_storage
-      : 0;
-
-  const extractionCost = effectiveExtraction * costRates.extractionCostPerUnit * utilizationRate;
-  const emailCost = effectiveEmail * costRates.emailCostPerUnit * utilizationRate;
-  const storageCost = effectiveStorage * costRates.storageCostPerGB; // Storage doesn't have utilization
-
-  return {
-    extraction: extractionCost,
-    email: emailCost,
-    storage: storageCost,
-    total: extractionCost + emailCost + storageCost
-  };
-}
@@ -3,40 +3,34 @@
  * Single source of truth for all cost calculations across the app
  *
  * This hook provides:
- * - costRates: Derived cost rates from variable costs
  * - cogsBreakdown: Complete COGS breakdown (variable, fixed, total)
- * - tierCosts: Map of tier ID to variable costs and margins
+ * - tierCosts: Map of tier ID to usage-driven variable costs and margins
  * - realisticCosts: Costs with utilization rate applied
  */
 
 import { useMemo, useCallback } from 'react';
 import { usePricing } from '../context/PricingContext';
-import { deriveCostRatesFromVariableCosts, type CostRates } from '../utils/costRates';
 import {
   calculateCOGSBreakdown,
   calculateMargin,
   calculateProfit,
+  calculateTierCOGS,
+  calculateSeatTierEconomics,
+  scaleLimitsForSeats,
   getMarginStatus,
   type CostBreakdown,
+  type TierCOGS,
 } from '../utils/costCalculator';
-import { calculateTierVariableCosts, type Tier } from '../data/tiers';
+import { type Tier } from '../data/tiers';
 
 export interface TierCostData {
-  variableCosts: {
-    extraction: number;
-    email: number;
-    storage: number;
-    total: number;
-  };
+  variableCosts: TierCOGS;
   margin: number;
   profit: number;
   marginStatus: 'great' | 'ok' | 'low';
 }
 
 export interface CostCalculationsResult {
-  // Cost rates derived from variable costs (for use in tier calculations)
-  costRates: CostRates;
-
   // Full COGS breakdown at 100% utilization
   cogsBreakdown: CostBreakdown;
 
@@ -71,13 +65,9 @@ export function useCostCalculations(): CostCalculationsResult {
     selectedPrice,
     utilizationRate,
     tiers,
+    features,
   } = usePricing();
 
-  // Derive cost rates from variable costs
-  const costRates = useMemo(() => {
-    return deriveCostRatesFromVariableCosts(variableCosts);
-  }, [variableCosts]);
-
   // Calculate COGS breakdown at 100% utilization (max usage)
   const cogsBreakdown = useMemo(() => {
     return calculateCOGSBreakdown(variableCosts, fixedCosts, customerCount, 1);
@@ -119,11 +109,11 @@ export function useCostCalculations(): CostCalculationsResult {
     const costsMap = new Map<string, TierCostData>();
 
     tiers.forEach((tier) => {
-      const tierVariableCosts = calculateTierVariableCosts(tier, utilizationRate, costRates);
-      const tierMargin = tier.monthlyPriceMYR > 0
-        ? ((tier.monthlyPriceMYR - tierVariableCosts.total) / tier.monthlyPriceMYR) * 100
-        : 0;
-      const tierProfit = tier.monthlyPriceMYR - tierVariableCosts.total;
+      // Seat-priced tiers are valued at their average seats per customer
+      const economics = calculateSeatTierEconomics(tier, variableCosts, utilizationRate, features);
+      const tierVariableCosts = calculateTierCOGS(scaleLimitsForSeats(tier, economics.seats), variableCosts, utilizationRate, features);
+      const tierMargin = economics.margin;
+      const tierProfit = economics.revenuePerCustomer - economics.cogsPerCustomer;
       const tierMarginStatus = getMarginStatus(tierMargin);
 
       costsMap.set(tier.id, {
@@ -135,7 +125,7 @@ export function useCostCalculations(): CostCalculationsResult {
     });
 
     return costsMap;
-  }, [tiers, utilizationRate, costRates]);
+  }, [tiers, variableCosts, utilizationRate, features]);
 
   // Helper to get tier cost data - use useCallback for stable function reference
   const getTierCost = useCallback((tierId: string) => {
@@ -144,21 +134,18 @@ export function useCostCalculations(): CostCalculationsResult {
 
   // Helper to calculate margin for a specific tier - use useCallback for stable function reference
   const calculateTierMargin = useCallback((tier: Tier) => {
-    const tierVariableCosts = calculateTierVariableCosts(tier, utilizationRate, costRates);
-    const tierMargin = tier.monthlyPriceMYR > 0
-      ? ((tier.monthlyPriceMYR - tierVariableCosts.total) / tier.monthlyPriceMYR) * 100
-      : 0;
-    const tierProfit = tier.monthlyPriceMYR - tierVariableCosts.total;
+    const economics = calculateSeatTierEconomics(tier, variableCosts, utilizationRate, features);
+    const tierMargin = economics.margin;
+    const tierProfit = economics.revenuePerCustomer - economics.cogsPerCustomer;
 
     return {
       margin: tierMargin,
       profit: tierProfit,
       status: getMarginStatus(tierMargin),
     };
-  }, [utilizationRate, costRates]);
+  }, [variableCosts, utilizationRate, features]);
 
   return {
-    costRates,
     cogsBreakdown,
     realisticCogsBreakdown,
     margin,
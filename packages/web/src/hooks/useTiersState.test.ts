@@ -13,8 +13,8 @@ const createTestTier = (overrides: Partial<Tier> = {}): Tier => ({
   name: 'Test Tier',
   tagline: 'A test tier',
   targetAudience: 'Test audience',
-  monthlyPriceMYR: 25,
-  annualPriceMYR: 250,
+  monthlyPrice: 25,
+  annualPrice: 250,
   annualDiscount: 17,
   status: 'active',
   limits: [],
@@ -79,14 +79,14 @@ describe('useTiersState', () => {
     });
 
     it('preserves other tier properties', () => {
-      const tiers = [createTestTier({ id: 't1', name: 'Original', monthlyPriceMYR: 50 })];
+      const tiers = [createTestTier({ id: 't1', name: 'Original', monthlyPrice: 50 })];
       const { result } = renderHook(() => useTiersState(createInitialValues({ tiers })));
 
       act(() => {
         result.current.updateTier('t1', { name: 'Updated' });
       });
 
-      expect(result.current.tiers[0].monthlyPriceMYR).toBe(50);
+      expect(result.current.tiers[0].monthlyPrice).toBe(50);
     });
 
     it('only updates the specified tier', () => {
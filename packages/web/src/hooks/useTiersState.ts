@@ -58,16 +58,16 @@ export interface TiersStateInitialValues {
 // ============================================================================
 
 function createDefaultTierDisplayConfig(tier: Tier, index: number): TierDisplayConfig {
-  const isFirstPaidTier = tier.monthlyPriceMYR > 0 && index <= 1;
+  const isFirstPaidTier = tier.monthlyPrice > 0 && index <= 1;
   return {
     highlighted: isFirstPaidTier,
     highlightedFeatures: [...tier.highlightFeatures],
-    ctaText: tier.monthlyPriceMYR === 0 ? 'Get Started Free'
+    ctaText: tier.monthlyPrice === 0 ? 'Get Started Free'
       : isFirstPaidTier ? 'Start Free Trial'
       : 'Contact Sales',
-    ctaStyle: isFirstPaidTier ? 'primary' : tier.monthlyPriceMYR === 0 ? 'outline' : 'secondary',
-    monthlyPrice: tier.monthlyPriceMYR,
-    annualPrice: tier.annualPriceMYR,
+    ctaStyle: isFirstPaidTier ? 'primary' : tier.monthlyPrice === 0 ? 'outline' : 'secondary',
+    monthlyPrice: tier.monthlyPrice,
+    annualPrice: tier.annualPrice,
     tagline: tier.tagline,
     badgeText: 'Most Popular',
     showLimits: true,
@@ -89,8 +89,8 @@ function createNewTier(index: number): Tier {
     name: `Tier ${index + 1}`,
     tagline: 'Your tagline here',
     targetAudience: 'Target audience',
-    monthlyPriceMYR: index * 25,
-    annualPriceMYR: index * 250,
+    monthlyPrice: index * 25,
+    annualPrice: index * 250,
     annualDiscount: 20,
     status: 'active',
     limits: [],
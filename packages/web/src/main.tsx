@@ -2,6 +2,9 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { registerStoredCustomProviders } from './services/config-loader'
+
+registerStoredCustomProviders()
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
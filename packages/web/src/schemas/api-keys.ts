@@ -40,6 +40,7 @@ export type StoredAPIKey = z.infer<typeof StoredAPIKeySchema>;
 export const APIKeyStorageSchema = z.object({
   keys: z.record(AIProviderSchema, StoredAPIKeySchema.nullable()),
   githubToken: z.string().optional(),
+  customProviderKeys: z.record(z.string(), z.string()).optional(),
   _obfuscated: z.boolean().optional(),
 });
 
@@ -67,6 +67,25 @@ describe('VariableCostItemSchema', () => {
     const emptyDesc = { ...validItem, description: '' };
     expect(() => VariableCostItemSchema.parse(emptyDesc)).not.toThrow();
   });
+
+  it('keeps input distributions', () => {
+    const uncertain = {
+      ...validItem,
+      distributions: {
+        usagePerCustomer: { type: 'triangular', min: 50, likely: 100, max: 300 },
+        costPerUnit: { type: 'normal', mean: 0.01, stdDev: 0.002 },
+      },
+    };
+    expect(VariableCostItemSchema.parse(uncertain).distributions).toEqual(uncertain.distributions);
+  });
+
+  it('rejects triangular distributions out of order', () => {
+    const invalid = {
+      ...validItem,
+      distributions: { usagePerCustomer: { type: 'triangular', min: 200, likely: 100, max: 300 } },
+    };
+    expect(() => VariableCostItemSchema.parse(invalid)).toThrow();
+  });
 });
 
 describe('FixedCostItemSchema', () => {
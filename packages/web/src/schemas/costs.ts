@@ -17,6 +17,29 @@ type ValidationResult<T> = {
   error: string;
 };
 
+// ============================================================================
+// Cost Distribution Schema
+// ============================================================================
+
+export const CostDistributionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('triangular'),
+    min: z.number().nonnegative(),
+    likely: z.number().nonnegative(),
+    max: z.number().nonnegative(),
+  }),
+  z.object({
+    type: z.literal('normal'),
+    mean: z.number().nonnegative(),
+    stdDev: z.number().nonnegative('Standard deviation must be non-negative'),
+  }),
+]).refine(d => d.type !== 'triangular' || (d.min <= d.likely && d.likely <= d.max), {
+  message: 'Distribution must satisfy min <= likely <= max',
+  path: ['likely'],
+});
+
+export type CostDistribution = z.infer<typeof CostDistributionSchema>;
+
 // ============================================================================
 // Variable Cost Item Schema
 // ============================================================================
@@ -28,6 +51,10 @@ export const VariableCostItemSchema = z.object({
   costPerUnit: z.number().nonnegative('Cost per unit must be non-negative'),
   usagePerCustomer: z.number().nonnegative('Usage per customer must be non-negative'),
   description: z.string(),
+  distributions: z.object({
+    costPerUnit: CostDistributionSchema.optional(),
+    usagePerCustomer: CostDistributionSchema.optional(),
+  }).optional(),
 });
 
 export type VariableCostItem = z.infer<typeof VariableCostItemSchema>;
@@ -41,6 +68,9 @@ export const FixedCostItemSchema = z.object({
   name: z.string().min(1, 'Name is required'),
   monthlyCost: z.number().nonnegative('Monthly cost must be non-negative'),
   description: z.string(),
+  distributions: z.object({
+    monthlyCost: CostDistributionSchema.optional(),
+  }).optional(),
 });
 
 export type FixedCostItem = z.infer<typeof FixedCostItemSchema>;
@@ -33,6 +33,7 @@ export {
 export {
   TierLimitValueSchema,
   TierLimitSchema,
+  TierSeatPricingSchema,
   TierStatusSchema,
   TierSchema,
   CtaStyleSchema,
@@ -45,6 +46,7 @@ export {
   validateTierDisplayConfigs,
   type TierLimitValue,
   type TierLimit,
+  type TierSeatPricing,
   type TierStatus,
   type Tier,
   type CtaStyle,
@@ -85,6 +87,8 @@ export {
 export {
   BusinessTypeSchema,
   PricingModelTypeSchema,
+  ScenarioSchema,
+  TaxSettingsSchema,
   PricingStateSchema,
   ReportNotesSchema,
   ReportDataSchema,
@@ -95,6 +99,8 @@ export {
   parseReportDataSafe,
   type BusinessType,
   type PricingModelType,
+  type Scenario,
+  type TaxSettings,
   type PricingState,
   type ReportNotes,
   type ReportData,
@@ -9,6 +9,7 @@ import {
   ReportNotesSchema,
   StakeholderTypeSchema,
   ReportSettingsSchema,
+  ScenarioSchema,
   validateReportData,
   validatePricingState,
   isValidReportData,
@@ -93,6 +94,35 @@ describe('StakeholderTypeSchema', () => {
   });
 });
 
+describe('ScenarioSchema', () => {
+  it('accepts a valid scenario', () => {
+    const scenario = { name: 'Growth', distribution: { basic: 60, pro: 40 }, monthlyChurnRate: 3, conversionRate: 5 };
+    expect(ScenarioSchema.parse(scenario)).toEqual(scenario);
+  });
+
+  it('rejects empty names and out-of-range rates', () => {
+    const base = { name: 'Growth', distribution: {}, monthlyChurnRate: 3, conversionRate: 5 };
+    expect(() => ScenarioSchema.parse({ ...base, name: '' })).toThrow();
+    expect(() => ScenarioSchema.parse({ ...base, monthlyChurnRate: 101 })).toThrow();
+    expect(() => ScenarioSchema.parse({ ...base, conversionRate: -1 })).toThrow();
+  });
+
+  it('keeps saved customer count, prices and CAC', () => {
+    const scenario = {
+      name: 'Premium',
+      distribution: { basic: 60, pro: 40 },
+      monthlyChurnRate: 3,
+      conversionRate: 5,
+      customerCount: 250,
+      prices: { basic: 39, pro: 99 },
+      cac: 120,
+    };
+    expect(ScenarioSchema.parse(scenario)).toEqual(scenario);
+    expect(() => ScenarioSchema.parse({ ...scenario, customerCount: 0 })).toThrow();
+    expect(() => ScenarioSchema.parse({ ...scenario, prices: { basic: -1 } })).toThrow();
+  });
+});
+
 describe('ReportSettingsSchema', () => {
   it('accepts valid growth rate values', () => {
     expect(() => ReportSettingsSchema.parse({ monthlyGrowthRate: 0.05 })).not.toThrow();
@@ -144,8 +174,8 @@ describe('validateReportData', () => {
         id: 'basic',
         name: 'Basic',
         tagline: 'For teams',
-        monthlyPriceMYR: 25,
-        annualPriceMYR: 250,
+        monthlyPrice: 25,
+        annualPrice: 250,
         annualDiscount: 17,
         status: 'active' as const,
         targetAudience: 'Small businesses',
@@ -244,6 +274,23 @@ describe('validateReportData', () => {
     const result = validateReportData(reportData);
     expect(result.success).toBe(true);
   });
+
+  it('keeps the report currency and defaults it when missing', () => {
+    const withCurrency = validateReportData({
+      projectName: 'Test Project',
+      createdAt: '2024-01-15T10:00:00Z',
+      state: { ...createValidState(), currency: 'USD' },
+      notes: {},
+    });
+    const withoutCurrency = validateReportData({
+      projectName: 'Test Project',
+      createdAt: '2024-01-15T10:00:00Z',
+      state: createValidState(),
+      notes: {},
+    });
+    expect(withCurrency.data?.state.currency).toBe('USD');
+    expect(withoutCurrency.data?.state.currency).toBe('MYR');
+  });
 });
 
 describe('validatePricingState', () => {
@@ -7,6 +7,7 @@ import { z } from 'zod';
 import { VariableCostItemsSchema, FixedCostItemsSchema } from './costs';
 import { TiersSchema, TierDisplayConfigsSchema, CtaStyleSchema } from './tiers';
 import { FeaturesSchema, FeatureCategorySchema } from './features';
+import { DEFAULT_CURRENCY } from '../constants';
 
 // ============================================================================
 // Business Type Schema
@@ -38,6 +39,32 @@ export const PricingModelTypeSchema = z.enum([
 ]);
 export type PricingModelType = z.infer<typeof PricingModelTypeSchema>;
 
+// ============================================================================
+// Scenario Schema
+// ============================================================================
+
+export const ScenarioSchema = z.object({
+  name: z.string().min(1, 'Scenario name is required'),
+  distribution: z.record(z.string(), z.number().nonnegative()),
+  monthlyChurnRate: z.number().min(0).max(100),
+  conversionRate: z.number().min(0).max(100),
+  customerCount: z.number().int().positive().optional(),
+  prices: z.record(z.string(), z.number().nonnegative()).optional(),
+  cac: z.number().nonnegative().optional(),
+});
+export type Scenario = z.infer<typeof ScenarioSchema>;
+
+// ============================================================================
+// Sales Tax Schema
+// ============================================================================
+
+export const TaxSettingsSchema = z.object({
+  rate: z.number().min(0).max(1),
+  inclusive: z.boolean(),
+  label: z.string().min(1),
+});
+export type TaxSettings = z.infer<typeof TaxSettingsSchema>;
+
 // ============================================================================
 // Pricing State Schema (minimal validation for flexibility)
 // ============================================================================
@@ -51,6 +78,12 @@ export const PricingStateSchema = z.object({
   customerCount: z.number().int().positive(),
   selectedPrice: z.number().nonnegative(),
 
+  // Base currency of every amount
+  currency: z.string().default(DEFAULT_CURRENCY),
+
+  // Sales tax on prices; revenue is reported net of it
+  tax: TaxSettingsSchema.optional(),
+
   // Tier data
   tiers: TiersSchema,
 
@@ -100,6 +133,7 @@ export type ReportSettings = z.infer<typeof ReportSettingsSchema>;
 // ============================================================================
 
 export const ReportDataSchema = z.object({
+  schemaVersion: z.number().int().nonnegative().optional(),
   projectName: z.string().min(1, 'Project name is required'),
   createdAt: z.string(),
   state: PricingStateSchema,
@@ -186,6 +220,7 @@ export function parseReportDataSafe(data: unknown): ReportData | null {
 
       // Return with defaults for optional fields
       return {
+        schemaVersion: typeof partial.schemaVersion === 'number' ? partial.schemaVersion : undefined,
         projectName: String(partial.projectName),
         createdAt: String(partial.createdAt ?? new Date().toISOString()),
         state: partial.state as PricingState,
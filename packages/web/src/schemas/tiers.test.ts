@@ -44,8 +44,8 @@ describe('TierSchema', () => {
     id: 'basic',
     name: 'Basic',
     tagline: 'Perfect for small teams',
-    monthlyPriceMYR: 25,
-    annualPriceMYR: 250,
+    monthlyPrice: 25,
+    annualPrice: 250,
     annualDiscount: 17,
     status: 'active' as const,
     targetAudience: 'Small businesses',
@@ -70,12 +70,12 @@ describe('TierSchema', () => {
   });
 
   it('rejects negative monthly price', () => {
-    const invalid = { ...validTier, monthlyPriceMYR: -10 };
+    const invalid = { ...validTier, monthlyPrice: -10 };
     expect(() => TierSchema.parse(invalid)).toThrow();
   });
 
   it('rejects negative annual price', () => {
-    const invalid = { ...validTier, annualPriceMYR: -10 };
+    const invalid = { ...validTier, annualPrice: -10 };
     expect(() => TierSchema.parse(invalid)).toThrow();
   });
 
@@ -103,7 +103,7 @@ describe('TierSchema', () => {
   });
 
   it('allows zero monthly price (free tier)', () => {
-    const freeTier = { ...validTier, monthlyPriceMYR: 0 };
+    const freeTier = { ...validTier, monthlyPrice: 0 };
     expect(() => TierSchema.parse(freeTier)).not.toThrow();
   });
 
@@ -117,6 +117,22 @@ describe('TierSchema', () => {
     };
     expect(() => TierSchema.parse(tierWithLimits)).not.toThrow();
   });
+
+  it('keeps seat pricing and per-seat limits', () => {
+    const seatTier = {
+      ...validTier,
+      seatPricing: { pricePerSeat: 10, averageSeats: 4, minSeats: 2 },
+      limits: [{ featureId: 'feature-1', limit: 100, perSeat: true }],
+    };
+    const parsed = TierSchema.parse(seatTier);
+    expect(parsed.seatPricing).toEqual(seatTier.seatPricing);
+    expect(parsed.limits[0].perSeat).toBe(true);
+  });
+
+  it('rejects minimum seats above maximum seats', () => {
+    const invalid = { ...validTier, seatPricing: { pricePerSeat: 10, averageSeats: 4, minSeats: 5, maxSeats: 3 } };
+    expect(() => TierSchema.parse(invalid)).toThrow();
+  });
 });
 
 describe('TierDisplayConfigSchema', () => {
@@ -167,8 +183,8 @@ describe('validateTier', () => {
       id: 'basic',
       name: 'Basic',
       tagline: 'For teams',
-      monthlyPriceMYR: 25,
-      annualPriceMYR: 250,
+      monthlyPrice: 25,
+      annualPrice: 250,
       annualDiscount: 17,
       status: 'active' as const,
       targetAudience: 'Small businesses',
@@ -196,8 +212,8 @@ describe('validateTiers', () => {
         id: 'free',
         name: 'Free',
         tagline: 'Get started',
-        monthlyPriceMYR: 0,
-        annualPriceMYR: 0,
+        monthlyPrice: 0,
+        annualPrice: 0,
         annualDiscount: 0,
         status: 'active' as const,
         targetAudience: 'Everyone',
@@ -210,8 +226,8 @@ describe('validateTiers', () => {
         id: 'pro',
         name: 'Pro',
         tagline: 'For power users',
-        monthlyPriceMYR: 79,
-        annualPriceMYR: 790,
+        monthlyPrice: 79,
+        annualPrice: 790,
         annualDiscount: 17,
         status: 'active' as const,
         targetAudience: 'Power users',
@@ -33,10 +33,30 @@ export const TierLimitSchema = z.object({
   featureId: z.string().min(1, 'Feature ID is required'),
   limit: TierLimitValueSchema,
   unit: z.string().optional(),
+  variableCostId: z.string().optional(),
+  unlimitedUsage: z.number().nonnegative().optional(),
+  overagePrice: z.number().nonnegative().optional(),
+  perSeat: z.boolean().optional(),
 });
 
 export type TierLimit = z.infer<typeof TierLimitSchema>;
 
+// ============================================================================
+// Seat Pricing Schema
+// ============================================================================
+
+export const TierSeatPricingSchema = z.object({
+  pricePerSeat: z.number().nonnegative('Seat price must be non-negative'),
+  averageSeats: z.number().nonnegative('Average seats must be non-negative'),
+  minSeats: z.number().int().nonnegative().optional(),
+  maxSeats: z.number().int().positive().optional(),
+}).refine(
+  s => s.minSeats === undefined || s.maxSeats === undefined || s.minSeats <= s.maxSeats,
+  { message: 'Minimum seats cannot exceed maximum seats', path: ['minSeats'] }
+);
+
+export type TierSeatPricing = z.infer<typeof TierSeatPricingSchema>;
+
 // ============================================================================
 // Tier Status Schema
 // ============================================================================
@@ -52,9 +72,10 @@ export const TierSchema = z.object({
   id: z.string().min(1, 'Tier ID is required'),
   name: z.string().min(1, 'Tier name is required'),
   tagline: z.string(),
-  monthlyPriceMYR: z.number().nonnegative('Monthly price must be non-negative'),
-  annualPriceMYR: z.number().nonnegative('Annual price must be non-negative'),
+  monthlyPrice: z.number().nonnegative('Monthly price must be non-negative'),
+  annualPrice: z.number().nonnegative('Annual price must be non-negative'),
   annualDiscount: z.number().min(0).max(100, 'Discount must be between 0 and 100'),
+  seatPricing: TierSeatPricingSchema.optional(),
   status: TierStatusSchema,
   targetAudience: z.string(),
   limits: z.array(TierLimitSchema),
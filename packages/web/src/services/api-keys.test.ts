@@ -12,6 +12,9 @@ import {
   validateKeyFormat,
   maskAPIKey,
   hasAnyAIKey,
+  getCustomProviderKey,
+  saveCustomProviderKey,
+  removeCustomProviderKey,
 } from './api-keys';
 
 describe('api-keys service', () => {
@@ -56,6 +59,25 @@ describe('api-keys service', () => {
     });
   });
 
+  describe('custom provider keys', () => {
+    it('should save and retrieve keys by provider ID, obfuscated at rest', () => {
+      expect(saveCustomProviderKey('custom_vllm', 'secret-key-123').success).toBe(true);
+      expect(getCustomProviderKey('custom_vllm')).toBe('secret-key-123');
+      expect(getCustomProviderKey('custom_other')).toBeNull();
+      expect(JSON.stringify(localStorage)).not.toContain('secret-key-123');
+    });
+
+    it('should remove a key, or treat an empty key as none', () => {
+      saveCustomProviderKey('custom_vllm', 'secret-key-123');
+      saveCustomProviderKey('custom_ollama', 'other-key');
+
+      saveCustomProviderKey('custom_vllm', '  ');
+      removeCustomProviderKey('custom_ollama');
+      expect(getCustomProviderKey('custom_vllm')).toBeNull();
+      expect(getCustomProviderKey('custom_ollama')).toBeNull();
+    });
+  });
+
   describe('hasAnyAIKey', () => {
     it('should return true if any key exists', () => {
       saveAPIKey('openai', 'sk-test1234567890abcdefgh');
@@ -19,6 +19,7 @@ export type { AIProvider, StoredAPIKey };
 interface APIKeyStorage {
   keys: Record<AIProvider, StoredAPIKey | null>;
   githubToken?: string;
+  customProviderKeys?: Record<string, string>; // Keyed by custom provider ID
   _obfuscated?: boolean; // Marker for obfuscated storage
 }
 
@@ -74,6 +75,12 @@ function obfuscateStorage(storage: APIKeyStorage): APIKeyStorage {
     obfuscated.githubToken = obfuscate(storage.githubToken);
   }
 
+  if (storage.customProviderKeys) {
+    obfuscated.customProviderKeys = Object.fromEntries(
+      Object.entries(storage.customProviderKeys).map(([id, key]) => [id, obfuscate(key)])
+    );
+  }
+
   return obfuscated;
 }
 
@@ -102,6 +109,12 @@ function deobfuscateStorage(storage: APIKeyStorage): APIKeyStorage {
     deobfuscated.githubToken = deobfuscate(storage.githubToken);
   }
 
+  if (storage.customProviderKeys) {
+    deobfuscated.customProviderKeys = Object.fromEntries(
+      Object.entries(storage.customProviderKeys).map(([id, key]) => [id, deobfuscate(key)])
+    );
+  }
+
   return deobfuscated;
 }
 
@@ -295,6 +308,53 @@ export function removeGitHubToken(): void {
   }
 }
 
+/**
+ * Get the API key for a custom provider
+ */
+export function getCustomProviderKey(providerId: string): string | null {
+  const storage = getStoredKeys();
+  return storage.customProviderKeys?.[providerId] ?? null;
+}
+
+/**
+ * Save the API key for a custom provider (stored obfuscated).
+ * Custom endpoints have no known key format, and an empty key removes it,
+ * since local servers often need none.
+ */
+export function saveCustomProviderKey(providerId: string, key: string): { success: boolean; error?: string } {
+  if (!key.trim()) {
+    removeCustomProviderKey(providerId);
+    return { success: true };
+  }
+
+  try {
+    const storage = getStoredKeys();
+    storage.customProviderKeys = { ...storage.customProviderKeys, [providerId]: key.trim() };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(obfuscateStorage(storage)));
+    return { success: true };
+  } catch (e) {
+    console.error('Failed to save custom provider key:', e);
+    if (e instanceof DOMException && e.name === 'QuotaExceededError') {
+      return { success: false, error: 'Storage quota exceeded. Clear browser data or use a different browser.' };
+    }
+    return { success: false, error: 'Failed to save key to storage' };
+  }
+}
+
+/**
+ * Remove the API key for a custom provider
+ */
+export function removeCustomProviderKey(providerId: string): void {
+  try {
+    const storage = getStoredKeys();
+    if (storage.customProviderKeys?.[providerId] === undefined) return;
+    delete storage.customProviderKeys[providerId];
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(obfuscateStorage(storage)));
+  } catch (e) {
+    console.error('Failed to remove custom provider key:', e);
+  }
+}
+
 /**
  * Check if any AI key is configured
  */
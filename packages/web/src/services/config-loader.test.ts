@@ -0,0 +1,68 @@
+/**
+ * Config Loader Service Tests
+ * Tests for custom provider storage and registry sync
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { clearCustomAIProviders, getAIProviderDefinition } from '@basedpricer/core';
+import {
+  saveCustomProvider,
+  removeCustomProvider,
+  getCustomProviders,
+  toAIProviderDefinition,
+  type ProviderConfig,
+} from './config-loader';
+import { getCustomProviderKey, saveCustomProviderKey } from './api-keys';
+import { getPricingForModel } from '../data/ai-token-pricing';
+import { compareProviderCosts } from '../utils/aiCostCalculator';
+
+const ollama: ProviderConfig = {
+  id: 'custom_ollama',
+  name: 'Ollama',
+  baseUrl: 'http://localhost:11434/v1',
+  isOpenAICompatible: true,
+  defaultModel: 'llama3.2',
+  models: {
+    'llama3.2': {
+      id: 'llama3.2',
+      name: 'Llama 3.2',
+      inputPricePerMillion: 0,
+      outputPricePerMillion: 0,
+    },
+  },
+};
+
+describe('config-loader custom providers', () => {
+  afterEach(() => {
+    clearCustomAIProviders();
+  });
+
+  it('converts a provider config into a core definition', () => {
+    const definition = toAIProviderDefinition({ ...ollama, isOpenAICompatible: false });
+    expect(definition.protocol).toBe('anthropic');
+    expect(definition.requiresApiKey).toBe(false);
+    expect(definition.models['llama3.2']).toMatchObject({ name: 'llama3.2', displayName: 'Llama 3.2' });
+  });
+
+  it('registers saved providers for analysis and cost estimates', () => {
+    expect(saveCustomProvider(ollama)).toEqual({ success: true });
+    expect(getCustomProviders()).toHaveLength(1);
+    expect(getAIProviderDefinition('custom_ollama')?.baseUrl).toBe('http://localhost:11434/v1');
+    expect(getPricingForModel('custom_ollama')?.displayName).toBe('Llama 3.2');
+    expect(compareProviderCosts(1000, 1000, 'custom_ollama').find(c => c.isSelected)?.estimatedCostUSD).toBe(0);
+  });
+
+  it('rejects invalid base URLs without saving', () => {
+    const result = saveCustomProvider({ ...ollama, baseUrl: 'not a url' });
+    expect(result.success).toBe(false);
+    expect(getCustomProviders()).toHaveLength(0);
+  });
+
+  it('unregisters removed providers and removes their keys', () => {
+    saveCustomProvider(ollama);
+    saveCustomProviderKey('custom_ollama', 'secret-key-123');
+    removeCustomProvider('custom_ollama');
+    expect(getAIProviderDefinition('custom_ollama')).toBeNull();
+    expect(getCustomProviderKey('custom_ollama')).toBeNull();
+  });
+});
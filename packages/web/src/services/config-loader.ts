@@ -10,6 +10,14 @@
  * Configuration files are located in /public/config/ and can be edited directly.
  */
 
+import {
+  registerAIProvider,
+  unregisterAIProvider,
+  type AIProviderDefinition,
+  type CustomAIProviderId,
+} from '@basedpricer/core';
+import { removeCustomProviderKey } from './api-keys';
+
 // =============================================================================
 // TYPES - Matching the JSON schema definitions
 // =============================================================================
@@ -50,7 +58,7 @@ export interface ProviderConfig {
   keyPlaceholder?: string;
   keyPattern?: string;
   baseUrl: string;
-  isOpenAICompatible?: boolean;
+  isOpenAICompatible?: boolean; // false = Anthropic-compatible Messages API
   supportsStreaming?: boolean;
   defaultModel: string;
   notes?: string;
@@ -254,7 +262,47 @@ function loadLocalCustomProviders(): ProviderConfig[] {
 }
 
 /**
- * Save a custom provider to localStorage
+ * Convert a custom provider config into a core provider definition
+ */
+export function toAIProviderDefinition(provider: ProviderConfig): AIProviderDefinition {
+  return {
+    id: provider.id as CustomAIProviderId,
+    name: provider.name,
+    baseUrl: provider.baseUrl,
+    protocol: provider.isOpenAICompatible === false ? 'anthropic' : 'openai',
+    defaultModel: provider.defaultModel,
+    models: Object.fromEntries(
+      Object.values(provider.models).map(model => [model.id, {
+        name: model.id,
+        displayName: model.name,
+        inputPricePerMillion: model.inputPricePerMillion,
+        outputPricePerMillion: model.outputPricePerMillion,
+        lastUpdated: model.lastPriceUpdate ?? '',
+        contextWindow: model.contextWindow ?? 0,
+        notes: model.notes,
+      }])
+    ),
+    headers: provider.headers,
+    requiresApiKey: false,
+  };
+}
+
+/**
+ * Register stored custom providers with the core provider registry
+ * so analysis and cost estimates can use them. Call once at startup.
+ */
+export function registerStoredCustomProviders(): void {
+  for (const provider of loadLocalCustomProviders()) {
+    const result = registerAIProvider(toAIProviderDefinition(provider));
+    if (!result.success) {
+      console.error(`Skipping invalid custom provider ${provider.id}:`, result.error);
+    }
+  }
+}
+
+/**
+ * Save a custom provider to localStorage.
+ * Its API key is stored separately with saveCustomProviderKey.
  */
 export function saveCustomProvider(provider: ProviderConfig): { success: boolean; error?: string } {
   // Validate provider ID format
@@ -272,6 +320,11 @@ export function saveCustomProvider(provider: ProviderConfig): { success: boolean
     return { success: false, error: 'At least one model must be defined' };
   }
 
+  const registered = registerAIProvider(toAIProviderDefinition(provider));
+  if (!registered.success) {
+    return { success: false, error: registered.error };
+  }
+
   try {
     const existing = loadLocalCustomProviders();
     const index = existing.findIndex(p => p.id === provider.id);
@@ -302,6 +355,8 @@ export function removeCustomProvider(providerId: string): void {
     const existing = loadLocalCustomProviders();
     const filtered = existing.filter(p => p.id !== providerId);
     localStorage.setItem(LOCAL_CUSTOM_PROVIDERS_KEY, JSON.stringify(filtered));
+    removeCustomProviderKey(providerId);
+    unregisterAIProvider(providerId as CustomAIProviderId);
     clearConfigCache();
   } catch (e) {
     console.error('Failed to remove custom provider:', e);
@@ -0,0 +1,67 @@
+/**
+ * Exchange Rate Service Tests
+ * Tests for rate precedence, manual tables and live fetching
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { EXCHANGE_RATE_SNAPSHOT, rebaseExchangeRates, type ExchangeRates } from '@basedpricer/core';
+import {
+  loadExchangeRates,
+  getManualRates,
+  saveManualRates,
+  fetchExchangeRates,
+  getExchangeRateSync,
+  getFallbackRate,
+} from './exchangeRate';
+
+// Every supported currency against USD, with round numbers for the ones checked
+const usdRates = rebaseExchangeRates(EXCHANGE_RATE_SNAPSHOT, 'USD').rates;
+
+const manualRates: ExchangeRates = {
+  base: 'USD',
+  rates: { ...usdRates, USD: 1, MYR: 4, SGD: 1.25, EUR: 0.8, GBP: 0.5, AUD: 1.6 },
+  source: 'manual',
+  updatedAt: '2026-03-01T00:00:00.000Z',
+};
+
+describe('exchangeRate service', () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('uses the bundled snapshot until rates are fetched or entered', () => {
+    expect(loadExchangeRates()).toBe(EXCHANGE_RATE_SNAPSHOT);
+    expect(getExchangeRateSync()).toBe(getFallbackRate());
+  });
+
+  it('prefers a saved manual table and clears it with null', () => {
+    saveManualRates(manualRates);
+
+    expect(getManualRates()).toEqual(manualRates);
+    expect(loadExchangeRates()).toEqual(manualRates);
+    expect(getExchangeRateSync()).toBe(4);
+
+    saveManualRates(null);
+    expect(getManualRates()).toBeNull();
+  });
+
+  it('rejects manual tables with missing rates', () => {
+    expect(() => saveManualRates({ ...manualRates, rates: { ...manualRates.rates, GBP: -1 } })).toThrow('GBP');
+    expect(getManualRates()).toBeNull();
+  });
+
+  it('caches fetched live rates for later loads', async () => {
+    const fetchImpl = vi.fn(async () => new Response(JSON.stringify({
+      date: '2026-03-02',
+      rates: { ...Object.fromEntries(Object.entries(usdRates).filter(([code]) => code !== 'USD')), MYR: 4.2 },
+    }))) as unknown as typeof fetch;
+
+    const rates = await fetchExchangeRates(fetchImpl);
+    await fetchExchangeRates(fetchImpl);
+
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+    expect(rates).toMatchObject({ source: 'frankfurter', base: 'USD' });
+    expect(loadExchangeRates()).toEqual(rates);
+    expect(getExchangeRateSync()).toBe(4.2);
+  });
+});
@@ -1,8 +1,9 @@
 /**
  * Exchange Rate Service
- * Fetches and caches USD to MYR exchange rate from free APIs
+ * Loads the exchange rate matrix from a manual table, cached live rates or the
+ * bundled snapshot, and fetches live rates on request
  *
- * CORS Note: This service makes client-side API calls to free exchange rate APIs.
+ * CORS Note: Live rates come from client-side calls to free exchange rate APIs.
  * Both Frankfurter (api.frankfurter.app) and ExchangeRate-API (open.er-api.com)
  * explicitly support CORS and allow browser requests without API keys.
  *
@@ -17,169 +18,98 @@
  * - With 24-hour caching, this supports ~1,500 unique users/month
  */
 
-// Default/fallback exchange rate (updated Jan 2026)
-const FALLBACK_RATE = 4.47;
-
-// Cache duration: 24 hours in milliseconds
-const CACHE_DURATION_MS = 24 * 60 * 60 * 1000;
-
-// Storage key for localStorage caching
-const CACHE_KEY = 'usd-myr-exchange-rate';
-
-interface CachedRate {
-  rate: number;
-  timestamp: number;
-  source: string;
-}
+import {
+  DEFAULT_USD_TO_MYR_RATE,
+  EXCHANGE_RATE_SNAPSHOT,
+  ExchangeRatesSchema,
+  createCachedRateProvider,
+  createFallbackRateProvider,
+  createFrankfurterRateProvider,
+  createManualRateProvider,
+  createOpenExchangeRateProvider,
+  getExchangeRate,
+  readCachedExchangeRates,
+  type ExchangeRates,
+} from '@basedpricer/core';
+
+// Storage keys for fetched live rates and the user's manual table
+const CACHE_KEY = 'exchange-rates';
+const MANUAL_RATES_KEY = 'exchange-rates-manual';
 
 /**
- * Get cached exchange rate from localStorage
+ * Get the user's manual rate table, if one is saved
  */
-function getCachedRate(): CachedRate | null {
+export function getManualRates(): ExchangeRates | null {
   try {
-    const cached = localStorage.getItem(CACHE_KEY);
-    if (!cached) return null;
-
-    const data: CachedRate = JSON.parse(cached);
-    const age = Date.now() - data.timestamp;
+    const stored = localStorage.getItem(MANUAL_RATES_KEY);
+    if (!stored) return null;
 
-    // Return cached if still valid
-    if (age < CACHE_DURATION_MS) {
-      return data;
-    }
-
-    return null; // Expired
+    const result = ExchangeRatesSchema.safeParse(JSON.parse(stored));
+    return result.success ? result.data : null;
   } catch (e) {
-    console.warn('Failed to read cached exchange rate:', e);
+    console.warn('Failed to read manual exchange rates:', e);
     return null;
   }
 }
 
 /**
- * Save exchange rate to localStorage cache
+ * Save a manual rate table, or clear it with null.
+ * Throws if a currency is missing or not positive.
  */
-function cacheRate(rate: number, source: string): void {
-  try {
-    const data: CachedRate = {
-      rate,
-      timestamp: Date.now(),
-      source,
-    };
-    localStorage.setItem(CACHE_KEY, JSON.stringify(data));
-  } catch (e) {
-    console.warn('Failed to cache exchange rate:', e);
+export function saveManualRates(rates: ExchangeRates | null): void {
+  if (!rates) {
+    localStorage.removeItem(MANUAL_RATES_KEY);
+    return;
   }
+  // Validates every rate before anything is stored
+  createManualRateProvider(rates);
+  localStorage.setItem(MANUAL_RATES_KEY, JSON.stringify({ ...rates, source: 'manual' }));
 }
 
 /**
- * Fetch exchange rate from Frankfurter API (free, no API key needed)
- * https://www.frankfurter.app/
+ * Get the current rates without blocking (for initial render):
+ * the manual table, then the last fetched live rates, then the bundled snapshot
  */
-async function fetchFromFrankfurter(): Promise<number | null> {
+export function loadExchangeRates(): ExchangeRates {
   try {
-    const response = await fetch(
-      'https://api.frankfurter.app/latest?from=USD&to=MYR',
-      { signal: AbortSignal.timeout(5000) } // 5 second timeout
-    );
-
-    if (!response.ok) {
-      throw new Error(`Frankfurter API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const rate = data.rates?.MYR;
-
-    if (typeof rate === 'number' && rate > 0) {
-      return rate;
-    }
-
-    return null;
+    return getManualRates() ?? readCachedExchangeRates(localStorage, CACHE_KEY) ?? EXCHANGE_RATE_SNAPSHOT;
   } catch (e) {
-    console.warn('Frankfurter API fetch failed:', e);
-    return null;
+    console.warn('Failed to read cached exchange rates:', e);
+    return EXCHANGE_RATE_SNAPSHOT;
   }
 }
 
 /**
- * Fetch exchange rate from ExchangeRate-API (free tier)
- * https://www.exchangerate-api.com/
+ * Fetch live rates, trying Frankfurter (European Central Bank data) first and
+ * ExchangeRate-API second. Cached for 24 hours; throws if both APIs fail.
+ * @param fetchImpl - Override fetch (tests, proxies)
  */
-async function fetchFromExchangeRateApi(): Promise<number | null> {
-  try {
-    const response = await fetch(
-      'https://open.er-api.com/v6/latest/USD',
-      { signal: AbortSignal.timeout(5000) }
-    );
-
-    if (!response.ok) {
-      throw new Error(`ExchangeRate-API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const rate = data.rates?.MYR;
-
-    if (typeof rate === 'number' && rate > 0) {
-      return rate;
-    }
-
-    return null;
-  } catch (e) {
-    console.warn('ExchangeRate-API fetch failed:', e);
-    return null;
-  }
-}
-
-/**
- * Get current USD to MYR exchange rate
- * Returns cached value if available, otherwise fetches from API
- * Falls back to default rate if all fetches fail
- */
-export async function getExchangeRate(): Promise<{
-  rate: number;
-  source: 'cache' | 'api' | 'fallback';
-  age?: number;
-}> {
-  // Check cache first
-  const cached = getCachedRate();
-  if (cached) {
-    return {
-      rate: cached.rate,
-      source: 'cache',
-      age: Date.now() - cached.timestamp,
-    };
-  }
-
-  // Try Frankfurter first (European Central Bank data)
-  let rate = await fetchFromFrankfurter();
-  if (rate) {
-    cacheRate(rate, 'frankfurter');
-    return { rate, source: 'api' };
-  }
-
-  // Fallback to ExchangeRate-API
-  rate = await fetchFromExchangeRateApi();
-  if (rate) {
-    cacheRate(rate, 'exchangerate-api');
-    return { rate, source: 'api' };
-  }
-
-  // All fetches failed, return fallback
-  console.warn('All exchange rate APIs failed, using fallback rate');
-  return { rate: FALLBACK_RATE, source: 'fallback' };
+export async function fetchExchangeRates(fetchImpl?: typeof fetch): Promise<ExchangeRates> {
+  const provider = createCachedRateProvider(
+    createFallbackRateProvider([
+      createFrankfurterRateProvider({ fetch: fetchImpl }),
+      createOpenExchangeRateProvider({ fetch: fetchImpl }),
+    ]),
+    localStorage,
+    { key: CACHE_KEY }
+  );
+  return provider.getRates();
 }
 
 /**
- * Get exchange rate synchronously (for initial render)
- * Returns cached value or fallback - never blocks
+ * Get the USD to MYR rate synchronously, for the USD-priced service cost data.
+ * Uses live or manual rates when available, otherwise the fallback rate.
  */
 export function getExchangeRateSync(): number {
-  const cached = getCachedRate();
-  return cached?.rate ?? FALLBACK_RATE;
+  const rates = loadExchangeRates();
+  return rates.source === EXCHANGE_RATE_SNAPSHOT.source
+    ? DEFAULT_USD_TO_MYR_RATE
+    : getExchangeRate(rates, 'USD', 'MYR');
 }
 
 /**
- * Get the fallback rate constant
+ * Get the fallback USD to MYR rate constant
  */
 export function getFallbackRate(): number {
-  return FALLBACK_RATE;
+  return DEFAULT_USD_TO_MYR_RATE;
 }
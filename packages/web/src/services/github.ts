@@ -3,6 +3,13 @@
  * Fetches repository data from GitHub for codebase analysis
  */
 
+import {
+  selectAnalysisFiles,
+  createCodebaseSnapshot,
+  type AnalysisFile,
+  type AnalysisTreeItem,
+  type CodebaseSnapshot,
+} from '@basedpricer/core';
 import { getGitHubToken } from './api-keys';
 
 export interface RepoInfo {
@@ -16,24 +23,12 @@ export interface RepoInfo {
   url: string;
 }
 
-export interface TreeItem {
-  path: string;
-  type: 'blob' | 'tree';
-  size?: number;
-}
+export type TreeItem = AnalysisTreeItem;
 
-export interface FileContent {
-  path: string;
-  content: string;
-  size: number;
-}
+export type FileContent = AnalysisFile;
 
-export interface AnalysisPayload {
+export interface AnalysisPayload extends CodebaseSnapshot {
   repoInfo: RepoInfo;
-  packageJson?: Record<string, unknown>;
-  readme?: string;
-  srcFiles: FileContent[];
-  configFiles: FileContent[];
   /** Any errors that occurred while fetching individual files (non-fatal) */
   fetchErrors?: string[];
 }
@@ -202,122 +197,6 @@ async function getFileContent(
   return data.content;
 }
 
-/**
- * Files to prioritize for analysis
- */
-const ANALYSIS_FILES = {
-  config: [
-    'package.json',
-    'tsconfig.json',
-    'next.config.js',
-    'next.config.mjs',
-    'next.config.ts',
-    'vite.config.ts',
-    'vite.config.js',
-    'nuxt.config.ts',
-    'nuxt.config.js',
-    'wrangler.toml',
-    'Dockerfile',
-    'docker-compose.yml',
-    'docker-compose.yaml',
-  ],
-  docs: [
-    'README.md',
-    'readme.md',
-    'README',
-  ],
-  source: [
-    // Entry points
-    'src/index.ts',
-    'src/index.tsx',
-    'src/main.ts',
-    'src/main.tsx',
-    'src/App.tsx',
-    'src/app.tsx',
-    'app/page.tsx',
-    'app/layout.tsx',
-    'pages/index.tsx',
-    'pages/_app.tsx',
-    // API routes patterns
-    'src/api/',
-    'pages/api/',
-    'app/api/',
-    // Feature directories
-    'src/features/',
-    'src/modules/',
-    'src/components/',
-    'src/services/',
-    'src/lib/',
-  ],
-};
-
-/**
- * Filter tree to get analysis-relevant files
- */
-function filterTreeForAnalysis(tree: TreeItem[]): string[] {
-  const files: string[] = [];
-
-  // Add config files
-  for (const configFile of ANALYSIS_FILES.config) {
-    if (tree.some(item => item.path === configFile)) {
-      files.push(configFile);
-    }
-  }
-
-  // Add doc files
-  for (const docFile of ANALYSIS_FILES.docs) {
-    if (tree.some(item => item.path === docFile)) {
-      files.push(docFile);
-      break; // Only need one README
-    }
-  }
-
-  // Add source files - increased limits for better analysis
-  const sourceFiles = tree
-    .filter(item =>
-      item.type === 'blob' &&
-      (item.path.endsWith('.ts') || item.path.endsWith('.tsx') || item.path.endsWith('.js') || item.path.endsWith('.jsx')) &&
-      !item.path.includes('.test.') &&
-      !item.path.includes('.spec.') &&
-      !item.path.includes('__tests__') &&
-      !item.path.includes('__mocks__') &&
-      !item.path.includes('node_modules') &&
-      !item.path.includes('.d.ts') && // Skip type declarations
-      (item.size ?? 0) < 100000 // Skip files > 100KB (increased from 50KB)
-    )
-    .sort((a, b) => {
-      // Prioritize certain directories for better feature detection
-      const priority = (path: string) => {
-        // Highest priority: entry points and layouts
-        if (path.match(/^(app|pages)\/(page|layout|index)\.(ts|tsx|js|jsx)$/)) return 0;
-        if (path.match(/^src\/(App|main|index)\.(ts|tsx|js|jsx)$/)) return 0;
-
-        // High priority: route handlers and API endpoints
-        if (path.includes('/api/')) return 1;
-        if (path.startsWith('app/')) return 2;
-        if (path.startsWith('pages/')) return 2;
-
-        // Medium priority: feature-related directories
-        if (path.includes('/features/')) return 3;
-        if (path.includes('/modules/')) return 3;
-        if (path.includes('/services/')) return 4;
-        if (path.includes('/components/')) return 5;
-        if (path.includes('/lib/')) return 5;
-        if (path.includes('/hooks/')) return 5;
-
-        // Lower priority: other src files
-        if (path.startsWith('src/')) return 6;
-        return 7;
-      };
-      return priority(a.path) - priority(b.path);
-    })
-    .slice(0, 50); // Increased from 30 to 50 source files
-
-  files.push(...sourceFiles.map(f => f.path));
-
-  return files;
-}
-
 /**
  * Fetch all files needed for analysis
  */
@@ -339,7 +218,7 @@ export async function fetchForAnalysis(
   const tree = await getTree(owner, repo, repoInfo.defaultBranch);
 
   // Filter to relevant files
-  const filesToFetch = filterTreeForAnalysis(tree);
+  const filesToFetch = selectAnalysisFiles(tree);
 
   // Report initial progress
   onProgress?.({ current: 0, total: filesToFetch.length });
@@ -380,36 +259,16 @@ export async function fetchForAnalysis(
     }
   }
 
-  // Separate files by type
-  const packageJsonFile = fetchedFiles.find(f => f.path === 'package.json');
-  const readmeFile = fetchedFiles.find(f =>
-    f.path.toLowerCase().startsWith('readme')
-  );
-  const configFiles = fetchedFiles.filter(f =>
-    ANALYSIS_FILES.config.includes(f.path)
-  );
-  const srcFiles = fetchedFiles.filter(f =>
-    !ANALYSIS_FILES.config.includes(f.path) &&
-    !f.path.toLowerCase().startsWith('readme')
-  );
-
-  // Safely parse package.json
-  let parsedPackageJson: Record<string, unknown> | undefined;
-  if (packageJsonFile) {
-    try {
-      parsedPackageJson = JSON.parse(packageJsonFile.content);
-    } catch (e) {
-      console.error('Invalid package.json format:', e);
-      // Continue without package.json rather than failing entirely
-    }
-  }
-
   return {
+    ...createCodebaseSnapshot(
+      {
+        name: `${repoInfo.owner}/${repoInfo.repo}`,
+        description: repoInfo.description,
+        language: repoInfo.language,
+      },
+      fetchedFiles
+    ),
     repoInfo,
-    packageJson: parsedPackageJson,
-    readme: readmeFile?.content,
-    srcFiles,
-    configFiles,
     fetchErrors: errors.length > 0 ? errors : undefined,
   };
 }
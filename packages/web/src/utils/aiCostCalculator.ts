@@ -3,7 +3,7 @@
  * Functions for estimating and calculating AI analysis costs
  */
 
-import type { AIProvider } from '../services/api-keys';
+import { listAIProviders, isCustomProviderId, type AIProviderId } from '@basedpricer/core';
 import {
   getPricingForModel,
   getDefaultModelsForComparison,
@@ -23,7 +23,7 @@ export interface CostBreakdown {
   totalCostMYR: number;    // MYR
   inputTokens: number;
   outputTokens: number;
-  provider: AIProvider;
+  provider: AIProviderId;
   modelName: string;
 }
 
@@ -32,12 +32,12 @@ export interface CostEstimate {
   estimatedCostMYR: number;
   estimatedTokens: number;
   confidence: 'low' | 'medium' | 'high';
-  provider: AIProvider;
+  provider: AIProviderId;
   modelName: string;
 }
 
 export interface ProviderComparison {
-  provider: AIProvider;
+  provider: AIProviderId;
   modelName: string;
   displayName: string;
   estimatedCostUSD: number;
@@ -54,7 +54,7 @@ const TYPICAL_OUTPUT_TOKENS = 2500; // Typical analysis output size
  */
 export function calculateTokenCost(
   usage: TokenUsage,
-  provider: AIProvider,
+  provider: AIProviderId,
   model?: string,
   exchangeRate: number = DEFAULT_USD_TO_MYR_RATE
 ): CostBreakdown {
@@ -101,7 +101,7 @@ export function calculateTokenCost(
 export function estimateAnalysisCost(
   fileCount: number,
   totalChars: number,
-  provider: AIProvider,
+  provider: AIProviderId,
   model?: string,
   exchangeRate: number = DEFAULT_USD_TO_MYR_RATE
 ): CostEstimate {
@@ -157,10 +157,17 @@ export function estimateAnalysisCost(
 export function compareProviderCosts(
   estimatedInputTokens: number,
   estimatedOutputTokens: number,
-  selectedProvider: AIProvider,
+  selectedProvider: AIProviderId,
   exchangeRate: number = DEFAULT_USD_TO_MYR_RATE
 ): ProviderComparison[] {
-  const models = getDefaultModelsForComparison();
+  // Registered custom providers are compared at their default model
+  const customModels = listAIProviders()
+    .filter(provider => isCustomProviderId(provider.id))
+    .flatMap(provider => {
+      const model = provider.models[provider.defaultModel];
+      return model ? [{ ...model, provider: provider.id }] : [];
+    });
+  const models = [...getDefaultModelsForComparison(), ...customModels];
 
   return models.map((model) => {
     const inputCost = (estimatedInputTokens / 1_000_000) * model.inputPricePerMillion;
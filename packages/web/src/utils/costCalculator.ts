@@ -19,6 +19,9 @@ export type {
   CostBreakdown,
   MarginStatus,
   MarginInfo,
+  TierCOGS,
+  TierCostLine,
+  TierSeatEconomics,
 } from '@basedpricer/core';
 
 // ============================================================================
@@ -53,11 +56,26 @@ export {
   calculateBreakEvenCustomers,
   calculateMonthlyProfit,
 
+  // Tier COGS calculations
+  calculateTierCOGS,
+  groupTierCOGSByCostItem,
+
+  // Seat-based pricing calculations
+  calculateSeatPrice,
+  calculateSeatTierEconomics,
+  scaleLimitsForSeats,
+
   // Margin calculations
   calculateGrossMargin as calculateMargin,
   calculateProfit,
   getMarginStatus,
   getMarginInfo,
+  calculateMarginBreakdown,
+
+  // Sales tax calculations
+  getPriceExcludingTax,
+  getPriceIncludingTax,
+  getTierPricesExcludingTax,
 } from '@basedpricer/core';
 
 // ============================================================================
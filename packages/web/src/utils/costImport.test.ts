@@ -0,0 +1,45 @@
+/**
+ * Cost Import Tests
+ * Tests for merging imported bills into existing costs
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { CostImportResult } from '@basedpricer/core';
+import { applyCostImport, type CostLists } from './costImport';
+
+const existing: CostLists = {
+  variableCosts: [
+    { id: 'api', name: 'API calls', unit: 'requests', costPerUnit: 0.001, usagePerCustomer: 100, description: '' },
+  ],
+  fixedCosts: [{ id: 'hosting', name: 'Hosting', monthlyCost: 30, description: '' }],
+};
+
+const result: CostImportResult = {
+  variableCosts: [],
+  fixedCosts: [
+    { id: 'fix-hosting', name: 'Hosting', monthlyCost: 45, description: 'Imported from bills' },
+    { id: 'fix-figma', name: 'Figma', monthlyCost: 15, description: 'Imported from bills' },
+  ],
+  duplicates: [{ id: 'fix-hosting', name: 'Hosting', costType: 'fixed', existingId: 'hosting' }],
+  warnings: [],
+};
+
+describe('costImport', () => {
+  describe('applyCostImport', () => {
+    it('should keep existing items when skipping duplicates', () => {
+      const merged = applyCostImport(existing, result, 'skip');
+
+      expect(merged.variableCosts).toEqual(existing.variableCosts);
+      expect(merged.fixedCosts.map(item => item.id)).toEqual(['hosting', 'fix-figma']);
+    });
+
+    it('should replace existing items with imported duplicates', () => {
+      const merged = applyCostImport(existing, result, 'replace');
+
+      expect(merged.fixedCosts.map(item => [item.id, item.monthlyCost])).toEqual([
+        ['fix-hosting', 45],
+        ['fix-figma', 15],
+      ]);
+    });
+  });
+});
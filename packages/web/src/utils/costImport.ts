@@ -0,0 +1,60 @@
+// Cost import from vendor bills
+// Reads CSV or .xlsx files and merges imported items into the current costs
+
+import {
+  parseCsv,
+  type CostImportResult,
+  type FixedCostItem,
+  type VariableCostItem,
+} from '@basedpricer/core';
+
+export type DuplicateHandling = 'skip' | 'replace';
+
+export interface CostLists {
+  variableCosts: VariableCostItem[];
+  fixedCosts: FixedCostItem[];
+}
+
+/**
+ * Read rows from a CSV file or the first sheet of an .xlsx file
+ * ExcelJS is loaded on demand to keep it out of the main bundle
+ */
+export async function readCostFile(file: File): Promise<string[][]> {
+  if (!file.name.toLowerCase().endsWith('.xlsx')) {
+    return parseCsv(await file.text());
+  }
+
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+  const rows: string[][] = [];
+  workbook.worksheets[0]?.eachRow(row => {
+    rows.push(Array.from({ length: row.cellCount }, (_, i) => row.getCell(i + 1).text.trim()));
+  });
+  return rows;
+}
+
+/**
+ * Merge imported items into existing costs.
+ * Duplicates are either left out or replace the existing item they match.
+ */
+export function applyCostImport(
+  existing: CostLists,
+  result: CostImportResult,
+  duplicates: DuplicateHandling
+): CostLists {
+  const duplicateIds = new Set(result.duplicates.map(d => d.id));
+  const replacedIds = new Set(duplicates === 'replace' ? result.duplicates.map(d => d.existingId) : []);
+  const isImported = (item: { id: string }) => duplicates === 'replace' || !duplicateIds.has(item.id);
+
+  return {
+    variableCosts: [
+      ...existing.variableCosts.filter(item => !replacedIds.has(item.id)),
+      ...result.variableCosts.filter(isImported),
+    ],
+    fixedCosts: [
+      ...existing.fixedCosts.filter(item => !replacedIds.has(item.id)),
+      ...result.fixedCosts.filter(isImported),
+    ],
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * Tests for currency formatting utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatPrice, formatPriceWithCode, formatPriceCompact } from './currency';
+import { getOverageLabel, getSeatPriceLabel } from './features';
+import type { Tier, TierLimit } from '../data/tiers';
+
+describe('formatPrice', () => {
+  it('should format amounts the way each currency locale writes them', () => {
+    expect(formatPrice(1234.5, 'MYR')).toBe('RM 1,234.50');
+    expect(formatPrice(1234.5, 'EUR')).toBe('1.234,50 €');
+    expect(formatPrice(1234567, 'INR')).toBe('₹12,34,567.00');
+    expect(formatPrice(1234.5, 'VND')).toBe('1.235 ₫');
+  });
+
+  it('should apply decimal, code and compact options', () => {
+    expect(formatPrice(0.0125, 'USD', { decimals: 3 })).toBe('$0.013');
+    expect(formatPriceWithCode(1234.5, 'USD')).toBe('USD 1,234.50');
+    expect(formatPriceCompact(1500000, 'USD')).toBe('$1.5M');
+  });
+
+  it('should fall back to the default currency for unknown codes', () => {
+    expect(formatPrice(10, 'XYZ')).toBe('RM 10.00');
+  });
+});
+
+describe('getSeatPriceLabel', () => {
+  it('should format the seat price in the tier currency', () => {
+    const tier = { seatPricing: { pricePerSeat: 10, minSeats: 3 } } as Tier;
+    expect(getSeatPriceLabel(tier, 'USD')).toBe('+ $10.00/seat (min 3)');
+  });
+});
+
+describe('getOverageLabel', () => {
+  it('should format the overage price in the tier currency', () => {
+    const limit = { featureId: 'api', limit: 1000, overagePrice: 0.5 } as TierLimit;
+    expect(getOverageLabel(limit, 'EUR')).toBe('then 0,50 € per extra unit');
+  });
+});
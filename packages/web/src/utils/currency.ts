@@ -3,6 +3,7 @@
  * Single source of truth for all currency operations in the app
  */
 
+import { formatCurrency, type CurrencyCode as CoreCurrencyCode, type ExchangeRates } from '@basedpricer/core';
 import { CURRENCIES, DEFAULT_CURRENCY, type Currency, type CurrencyCode } from '../constants';
 
 /**
@@ -12,8 +13,21 @@ export function getCurrency(code: CurrencyCode): Currency {
   return CURRENCIES[code] || CURRENCIES[DEFAULT_CURRENCY];
 }
 
+/**
+ * Convert an amount between currencies using the static rates
+ * @param amount - Amount in source currency
+ * @param fromCurrency - Source currency code
+ * @param toCurrency - Target currency code
+ * @returns Amount in target currency
+ */
+export function convertAmount(amount: number, fromCurrency: CurrencyCode, toCurrency: CurrencyCode): number {
+  if (fromCurrency === toCurrency) return amount;
+  return convertFromMYR(convertToMYR(amount, fromCurrency), toCurrency);
+}
+
 /**
  * Convert amount from MYR to target currency
+ * @deprecated Use convertAmount
  * @param amountMYR - Amount in Malaysian Ringgit
  * @param targetCurrency - Target currency code
  * @returns Converted amount in target currency
@@ -25,6 +39,7 @@ export function convertFromMYR(amountMYR: number, targetCurrency: CurrencyCode):
 
 /**
  * Convert amount from any currency to MYR
+ * @deprecated Use convertAmount
  * @param amount - Amount in source currency
  * @param sourceCurrency - Source currency code
  * @returns Amount in MYR
@@ -34,33 +49,6 @@ export function convertToMYR(amount: number, sourceCurrency: CurrencyCode): numb
   return currency.rate > 0 ? amount / currency.rate : 0;
 }
 
-/**
- * Format a number with proper thousand separators and decimal places
- */
-function formatNumber(
-  value: number,
-  decimalPlaces: number,
-  thousandsSeparator: string,
-  decimalSeparator: string
-): string {
-  // Round to specified decimal places
-  const rounded = Math.round(value * Math.pow(10, decimalPlaces)) / Math.pow(10, decimalPlaces);
-
-  // Split into integer and decimal parts
-  const parts = rounded.toFixed(decimalPlaces).split('.');
-  const integerPart = parts[0];
-  const decimalPart = parts[1];
-
-  // Add thousand separators to integer part
-  const formattedInteger = integerPart.replace(/\B(?=(\d{3})+(?!\d))/g, thousandsSeparator);
-
-  // Combine with decimal part if needed
-  if (decimalPlaces > 0 && decimalPart) {
-    return `${formattedInteger}${decimalSeparator}${decimalPart}`;
-  }
-  return formattedInteger;
-}
-
 export interface FormatPriceOptions {
   /** Show currency code instead of symbol */
   showCode?: boolean;
@@ -68,76 +56,49 @@ export interface FormatPriceOptions {
   decimals?: number;
   /** Compact format for large numbers (e.g., 1.5K, 2.3M) */
   compact?: boolean;
-  /** Include space between symbol and number */
-  space?: boolean;
 }
 
 /**
- * Format a price in the specified currency
- * @param amountMYR - Amount in MYR (base currency)
- * @param currencyCode - Target currency code
+ * Format a price in the specified currency, the way the currency's locale writes it
+ * (e.g., "RM 1,234.50", "1.234,50 €", "₹12,34,567.00"), like reports and the CLI
+ * @param amount - Amount already in `currencyCode`; convert with convertAmount first if needed
+ * @param currencyCode - Currency of the amount
  * @param options - Formatting options
  * @returns Formatted price string
  */
 export function formatPrice(
-  amountMYR: number,
+  amount: number,
   currencyCode: CurrencyCode = DEFAULT_CURRENCY,
   options: FormatPriceOptions = {}
 ): string {
-  const currency = getCurrency(currencyCode);
-  const { showCode = false, decimals, compact = false, space = false } = options;
-
-  // Convert from MYR to target currency
-  const convertedAmount = convertFromMYR(amountMYR, currencyCode);
-
-  // Determine decimal places
-  const decimalPlaces = decimals ?? currency.decimalPlaces;
-
-  // Format the number
-  let formattedNumber: string;
-  if (compact && Math.abs(convertedAmount) >= 1000) {
-    if (Math.abs(convertedAmount) >= 1000000) {
-      formattedNumber = `${(convertedAmount / 1000000).toFixed(1)}M`;
-    } else {
-      formattedNumber = `${(convertedAmount / 1000).toFixed(1)}K`;
-    }
-  } else {
-    formattedNumber = formatNumber(
-      convertedAmount,
-      decimalPlaces,
-      currency.thousandsSeparator,
-      currency.decimalSeparator
-    );
-  }
+  const { showCode = false, decimals, compact = false } = options;
+  // Web currency codes are loosely typed; unknown codes fall back like getCurrency
+  const code = getCurrency(currencyCode).code as CoreCurrencyCode;
 
-  // Build the final string
-  const spacer = space ? ' ' : '';
-  const prefix = showCode ? currency.code : currency.symbol;
-
-  if (currency.position === 'before') {
-    return `${prefix}${spacer}${formattedNumber}`;
+  if (showCode) {
+    return `${code} ${formatCurrency(amount, code, { showSymbol: false, decimals, compact })}`;
   }
-  return `${formattedNumber}${spacer}${prefix}`;
+  return formatCurrency(amount, code, { decimals, compact });
 }
 
 /**
  * Format price with currency code (e.g., "MYR 100.00")
  */
 export function formatPriceWithCode(
-  amountMYR: number,
+  amount: number,
   currencyCode: CurrencyCode = DEFAULT_CURRENCY
 ): string {
-  return formatPrice(amountMYR, currencyCode, { showCode: true, space: true });
+  return formatPrice(amount, currencyCode, { showCode: true });
 }
 
 /**
- * Format price compactly (e.g., "RM1.5K")
+ * Format price compactly (e.g., "RM 1.5K")
  */
 export function formatPriceCompact(
-  amountMYR: number,
+  amount: number,
   currencyCode: CurrencyCode = DEFAULT_CURRENCY
 ): string {
-  return formatPrice(amountMYR, currencyCode, { compact: true });
+  return formatPrice(amount, currencyCode, { compact: true });
 }
 
 /**
@@ -152,10 +113,10 @@ export function getCurrencyOptions(): { code: CurrencyCode; label: string; symbo
 }
 
 /**
- * Parse a price string back to MYR amount
+ * Parse a price string back to an amount in `currencyCode`
  * Useful for input handling
  */
-export function parsePriceToMYR(priceString: string, currencyCode: CurrencyCode = DEFAULT_CURRENCY): number {
+export function parsePrice(priceString: string, currencyCode: CurrencyCode = DEFAULT_CURRENCY): number {
   // Remove currency symbols and whitespace (keep digits, dots, commas, minus)
   const cleaned = priceString.replace(/[^\d.,-]/g, '');
 
@@ -171,8 +132,25 @@ export function parsePriceToMYR(priceString: string, currencyCode: CurrencyCode
   }
 
   const amount = parseFloat(normalized);
-  if (isNaN(amount)) return 0;
+  return isNaN(amount) ? 0 : amount;
+}
+
+// Display names for exchange rate providers
+const RATE_SOURCE_LABELS: Record<string, string> = {
+  snapshot: 'Bundled',
+  manual: 'Manual',
+  frankfurter: 'ECB',
+  'exchangerate-api': 'ExchangeRate-API',
+};
 
-  // Convert back to MYR
-  return convertToMYR(amount, currencyCode);
+/**
+ * Describe where exchange rates came from and when (e.g., "ECB rates as of 2 Mar 2026")
+ */
+export function describeExchangeRates(rates: ExchangeRates): string {
+  const date = new Date(rates.updatedAt).toLocaleDateString('en-MY', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+  return `${RATE_SOURCE_LABELS[rates.source] ?? rates.source} rates as of ${date}`;
 }
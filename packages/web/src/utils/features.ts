@@ -1,5 +1,6 @@
 import { features, type Feature } from '../data/features';
-import type { Tier } from '../data/tiers';
+import type { Tier, TierLimit } from '../data/tiers';
+import { formatPrice } from './currency';
 
 /**
  * Get a feature by ID, returns undefined if not found
@@ -38,12 +39,37 @@ export function filterValidFeatureIds(featureIds: string[]): string[] {
   return featureIds.filter(id => featureExists(id));
 }
 
-export function getFeatureLimit(tier: Tier, featureId: string): string | null {
+/**
+ * Describe the overage charge of a metered limit, e.g. "then $0.50 per extra unit".
+ * Returns null for hard, unlimited and on/off limits.
+ */
+export function getOverageLabel(limit: TierLimit, currency: string): string | null {
+  if (typeof limit.limit !== 'number' || limit.overagePrice === undefined) return null;
+  return `then ${formatPrice(limit.overagePrice, currency)} per extra unit`;
+}
+
+export function getFeatureLimit(tier: Tier, featureId: string, currency: string): string | null {
   const limit = tier.limits.find(l => l.featureId === featureId);
   if (!limit) return null;
   if (limit.limit === 'unlimited') return 'Unlimited';
   if (typeof limit.limit === 'boolean') return limit.limit ? 'Yes' : 'No';
-  return `${limit.limit} ${limit.unit || ''}`.trim();
+  const included = `${limit.limit} ${limit.unit || ''}`.trim();
+  const overage = getOverageLabel(limit, currency);
+  return overage ? `${included}, ${overage}` : included;
+}
+
+/**
+ * Describe a tier's per-seat price, e.g. "+ $10.00/seat (min 3)".
+ * Returns null for tiers without seat pricing.
+ */
+export function getSeatPriceLabel(tier: Tier, currency: string): string | null {
+  if (!tier.seatPricing) return null;
+  const { pricePerSeat, minSeats, maxSeats } = tier.seatPricing;
+  const bounds = [
+    minSeats !== undefined ? `min ${minSeats}` : null,
+    maxSeats !== undefined ? `max ${maxSeats}` : null,
+  ].filter(Boolean).join(', ');
+  return `+ ${formatPrice(pricePerSeat, currency)}/seat${bounds ? ` (${bounds})` : ''}`;
 }
 
 export function calculateDiscount(monthly: number, annual: number): number {
@@ -4,6 +4,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import LZString from 'lz-string';
 import {
   encodeReportCompressed,
   decodeReportCompressed,
@@ -14,6 +15,13 @@ import {
   getReportIndex,
   cleanupExpiredReports,
   deleteStoredReport,
+  uploadReport,
+  fetchServerReport,
+  generateSharedReportUrls,
+  encryptReport,
+  decryptReport,
+  createEncryptedReportUrl,
+  generateEncryptedReportUrls,
   type ReportData,
 } from './reportEncoder';
 
@@ -86,6 +94,34 @@ describe('reportEncoder', () => {
     });
   });
 
+  describe('schema versioning', () => {
+    it('should upgrade unversioned reports instead of dropping legacy items', () => {
+      const legacy = {
+        projectName: 'Legacy Project',
+        createdAt: '2025-01-01T00:00:00.000Z',
+        state: {
+          ...mockState,
+          variableCosts: [
+            { id: 'api', name: 'API', unit: 'call', costPerUnit: '0.01', usagePerCustomer: 100 },
+          ],
+        },
+      };
+      const encoded = LZString.compressToEncodedURIComponent(JSON.stringify(legacy));
+      const decoded = decodeReportCompressed(encoded);
+
+      expect(decoded.schemaVersion).toBe(2);
+      expect(decoded.notes).toEqual({});
+      expect(decoded.state.variableCosts).toEqual([
+        { id: 'api', name: 'API', unit: 'call', costPerUnit: 0.01, usagePerCustomer: 100, description: '' },
+      ]);
+    });
+
+    it('should reject reports from a newer schema version', () => {
+      const encoded = encodeReportCompressed({ ...sampleData, schemaVersion: 99 });
+      expect(() => decodeReportCompressed(encoded)).toThrow('Invalid report data');
+    });
+  });
+
   describe('createPortableReportUrl', () => {
     it('should create a valid URL with encoded data', () => {
       const url = createPortableReportUrl('https://example.com', sampleData, 'investor');
@@ -121,6 +157,113 @@ describe('reportEncoder', () => {
     });
   });
 
+  describe('passphrase encryption', () => {
+    it('round-trips a report with the right passphrase', async () => {
+      const encrypted = await encryptReport(sampleData, 'correct horse');
+
+      expect(encrypted).toMatch(/^[A-Za-z0-9_-]+$/);
+      const decrypted = await decryptReport(encrypted, 'correct horse');
+      expect(decrypted.projectName).toBe(sampleData.projectName);
+      expect(decrypted.state.customerCount).toBe(sampleData.state.customerCount);
+    });
+
+    it('does not expose report data in the payload', async () => {
+      const encrypted = await encryptReport(sampleData, 'correct horse');
+
+      expect(encrypted).not.toContain(encodeReportCompressed(sampleData).slice(0, 20));
+      expect(LZString.decompressFromEncodedURIComponent(encrypted) ?? '').not.toContain('Test Project');
+    });
+
+    it('uses a fresh salt and IV for every encryption', async () => {
+      const first = await encryptReport(sampleData, 'correct horse');
+      const second = await encryptReport(sampleData, 'correct horse');
+      expect(first).not.toBe(second);
+    });
+
+    it('rejects a wrong passphrase', async () => {
+      const encrypted = await encryptReport(sampleData, 'correct horse');
+      await expect(decryptReport(encrypted, 'battery staple')).rejects.toThrow('Incorrect passphrase');
+    });
+
+    it('rejects malformed payloads', async () => {
+      await expect(decryptReport('not-a-report', 'correct horse')).rejects.toThrow('Invalid report data');
+    });
+
+    it('requires a passphrase', async () => {
+      await expect(encryptReport(sampleData, '')).rejects.toThrow('Passphrase is required');
+    });
+
+    it('still validates decrypted report structure', async () => {
+      const invalid = { foo: 'bar' } as unknown as ReportData;
+      const encrypted = await encryptReport(invalid, 'correct horse');
+      await expect(decryptReport(encrypted, 'correct horse')).rejects.toThrow('Invalid report data');
+    });
+
+    it('creates protected URLs for each stakeholder', async () => {
+      const url = await createEncryptedReportUrl('https://example.com', sampleData, 'investor', 'correct horse');
+      expect(url).toMatch(/^https:\/\/example\.com\/report\/investor\?e=/);
+
+      const urls = await generateEncryptedReportUrls('https://example.com', sampleData, 'correct horse');
+      const payload = urls.accountant.split('?e=')[1];
+      expect(urls.engineer).toBe(`https://example.com/report/engineer?e=${payload}`);
+      expect((await decryptReport(payload, 'correct horse')).projectName).toBe('Test Project');
+    });
+  });
+
+  describe('server-backed short links', () => {
+    const jsonResponse = (body: unknown, status = 200) =>
+      new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+    it('uploads a report and returns its ID', async () => {
+      vi.mocked(fetch).mockResolvedValue(jsonResponse({ id: 'abcd2345' }, 201));
+
+      await expect(uploadReport(sampleData)).resolves.toBe('abcd2345');
+      expect(fetch).toHaveBeenCalledWith('/api/reports', expect.objectContaining({ method: 'POST' }));
+    });
+
+    it('throws when the API responds with an error', async () => {
+      vi.mocked(fetch).mockResolvedValue(jsonResponse({ error: 'unavailable' }, 503));
+
+      await expect(uploadReport(sampleData)).rejects.toThrow('HTTP 503');
+    });
+
+    it('fetches and validates a stored report', async () => {
+      vi.mocked(fetch).mockResolvedValue(jsonResponse(sampleData));
+
+      const report = await fetchServerReport('abcd2345');
+      expect(fetch).toHaveBeenCalledWith('/api/reports/abcd2345');
+      expect(report?.projectName).toBe('Test Project');
+    });
+
+    it('returns null for missing or invalid server reports', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(jsonResponse({ error: 'Report not found' }, 404));
+      expect(await fetchServerReport('abcd2345')).toBeNull();
+
+      vi.mocked(fetch).mockResolvedValueOnce(jsonResponse({ foo: 'bar' }));
+      expect(await fetchServerReport('abcd2345')).toBeNull();
+
+      vi.mocked(fetch).mockRejectedValueOnce(new Error('offline'));
+      expect(await fetchServerReport('abcd2345')).toBeNull();
+    });
+
+    it('generates short URLs for every stakeholder', async () => {
+      vi.mocked(fetch).mockResolvedValue(jsonResponse({ id: 'abcd2345' }, 201));
+
+      const { short, shortId } = await generateSharedReportUrls('https://example.com', sampleData);
+      expect(shortId).toBe('abcd2345');
+      expect(short.investor).toBe('https://example.com/r/abcd2345/investor');
+      expect(short.accountant).toBe('https://example.com/r/abcd2345/accountant');
+    });
+
+    it('falls back to portable URLs when the API is unavailable', async () => {
+      vi.mocked(fetch).mockRejectedValue(new Error('offline'));
+
+      const { short, shortId } = await generateSharedReportUrls('https://example.com', sampleData);
+      expect(shortId).toBeNull();
+      expect(short.investor).toBe(createPortableReportUrl('https://example.com', sampleData, 'investor'));
+    });
+  });
+
   describe('isValidReportData', () => {
     it('should validate correct report data', () => {
       expect(isValidReportData(sampleData)).toBe(true);
@@ -1,8 +1,10 @@
 // URL-safe encoding/decoding for shareable report links
 // Uses compression + multiple storage strategies for optimal sharing
+// Portable links can be encrypted with a passphrase (AES-GCM + PBKDF2)
 // Now uses Zod schemas for runtime validation
 
 import LZString from 'lz-string';
+import { migrateReportData, REPORT_SCHEMA_VERSION } from '@basedpricer/core';
 import type { PricingState } from '../context/PricingContext';
 import {
   type ReportData as SchemaReportData,
@@ -15,12 +17,42 @@ import {
 export type ReportData = SchemaReportData;
 export type { StakeholderType };
 
+/**
+ * Upgrade a report payload from older schema versions, then validate it
+ */
+function migrateAndParseReport(data: unknown): ReportData | null {
+  const migrated = migrateReportData(data);
+  if (!migrated.success) {
+    console.warn('Failed to migrate report:', migrated.error);
+    return null;
+  }
+  return parseReportDataSafe(migrated.data.data);
+}
+
 // Storage key prefix for localStorage
 const STORAGE_PREFIX = 'pt-report-';
 const REPORT_INDEX_KEY = 'pt-reports-index';
 const REPORT_TTL_DAYS = 30; // Reports expire after 30 days
 const REPORT_TTL_MS = REPORT_TTL_DAYS * 24 * 60 * 60 * 1000;
 
+/**
+ * Parse decompressed report JSON, migrating and validating it
+ */
+function parseReportJson(json: string | null): ReportData {
+  if (!json) {
+    throw new Error('Decompression failed');
+  }
+  const parsed = JSON.parse(json);
+
+  // Migrate legacy payloads, then use Zod-based safe parsing
+  const validated = migrateAndParseReport(parsed);
+  if (!validated) {
+    throw new Error('Invalid report structure');
+  }
+
+  return validated;
+}
+
 // ============================================================================
 // Compression-based encoding (for URL sharing)
 // ============================================================================
@@ -47,19 +79,109 @@ export function encodeReportCompressed(data: ReportData): string {
  */
 export function decodeReportCompressed(compressed: string): ReportData {
   try {
-    const json = LZString.decompressFromEncodedURIComponent(compressed);
-    if (!json) {
-      throw new Error('Decompression failed');
-    }
-    const parsed = JSON.parse(json);
+    return parseReportJson(LZString.decompressFromEncodedURIComponent(compressed));
+  } catch (e) {
+    console.error('Failed to decode report:', e);
+    throw new Error('Invalid report data');
+  }
+}
 
-    // Use Zod-based safe parsing which handles legacy data with partial defaults
-    const validated = parseReportDataSafe(parsed);
-    if (!validated) {
-      throw new Error('Invalid report structure');
-    }
+// ============================================================================
+// Passphrase encryption (for protected portable links)
+// ============================================================================
+
+// Payload layout: version (1 byte) | PBKDF2 salt | AES-GCM IV | ciphertext
+const ENCRYPTION_VERSION = 1;
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const HEADER_BYTES = 1 + SALT_BYTES + IV_BYTES;
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+/**
+ * Derive an AES-GCM key from a passphrase with PBKDF2
+ */
+async function deriveReportKey(passphrase: string, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Compress and encrypt report data with a passphrase to a URL-safe string
+ */
+export async function encryptReport(data: ReportData, passphrase: string): Promise<string> {
+  if (!passphrase) {
+    throw new Error('Passphrase is required');
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveReportKey(passphrase, salt);
+  const compressed = new Uint8Array(LZString.compressToUint8Array(JSON.stringify(data)));
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, compressed));
+
+  const payload = new Uint8Array(HEADER_BYTES + ciphertext.length);
+  payload[0] = ENCRYPTION_VERSION;
+  payload.set(salt, 1);
+  payload.set(iv, 1 + SALT_BYTES);
+  payload.set(ciphertext, HEADER_BYTES);
+  return toBase64Url(payload);
+}
+
+/**
+ * Decrypt a passphrase-protected report
+ * Includes Zod validation, like unencrypted reports
+ */
+export async function decryptReport(encrypted: string, passphrase: string): Promise<ReportData> {
+  let payload: Uint8Array<ArrayBuffer>;
+  try {
+    payload = fromBase64Url(encrypted);
+  } catch {
+    throw new Error('Invalid report data');
+  }
+  if (payload.length <= HEADER_BYTES || payload[0] !== ENCRYPTION_VERSION) {
+    throw new Error('Invalid report data');
+  }
+
+  const salt = payload.slice(1, 1 + SALT_BYTES);
+  const iv = payload.slice(1 + SALT_BYTES, HEADER_BYTES);
+  let compressed: Uint8Array;
+  try {
+    const key = await deriveReportKey(passphrase, salt);
+    compressed = new Uint8Array(
+      await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, payload.slice(HEADER_BYTES))
+    );
+  } catch {
+    // AES-GCM authentication fails on a wrong passphrase or tampered payload
+    throw new Error('Incorrect passphrase');
+  }
 
-    return validated;
+  try {
+    return parseReportJson(LZString.decompressFromUint8Array(compressed));
   } catch (e) {
     console.error('Failed to decode report:', e);
     throw new Error('Invalid report data');
@@ -137,9 +259,8 @@ export function retrieveReport(id: string): ReportData | null {
       return null;
     }
 
-    // Use Zod-based safe parsing which handles legacy data
-    const validated = parseReportDataSafe(data);
-    return validated;
+    // Migrate legacy payloads, then use Zod-based safe parsing
+    return migrateAndParseReport(data);
   } catch (e) {
     console.error('Failed to retrieve report:', e);
     return null;
@@ -199,6 +320,48 @@ export function deleteStoredReport(id: string): void {
   localStorage.setItem(REPORT_INDEX_KEY, JSON.stringify(index));
 }
 
+// ============================================================================
+// Server-backed short links (/api/reports Pages Function)
+// ============================================================================
+
+const REPORTS_API = '/api/reports';
+
+/**
+ * Upload a report to the server and return its short ID
+ * Throws when the API is unavailable (e.g. `vite dev` without Pages Functions)
+ */
+export async function uploadReport(data: ReportData): Promise<string> {
+  const response = await fetch(REPORTS_API, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to upload report (HTTP ${response.status})`);
+  }
+
+  const { id } = await response.json();
+  if (typeof id !== 'string' || !id) {
+    throw new Error('Failed to upload report');
+  }
+  return id;
+}
+
+/**
+ * Fetch a report from the server by short ID
+ * Includes migration and Zod validation, like locally stored reports
+ */
+export async function fetchServerReport(id: string): Promise<ReportData | null> {
+  try {
+    const response = await fetch(`${REPORTS_API}/${encodeURIComponent(id)}`);
+    if (!response.ok) return null;
+    return migrateAndParseReport(await response.json());
+  } catch (e) {
+    console.error('Failed to fetch report:', e);
+    return null;
+  }
+}
+
 // ============================================================================
 // URL Generation
 // ============================================================================
@@ -232,6 +395,35 @@ export function createPortableReportUrl(
   return `${baseUrl}/report/${stakeholder}?d=${compressed}`;
 }
 
+/**
+ * Create a portable URL with passphrase-encrypted data
+ * Best for: sharing sensitive cost data over untrusted channels
+ */
+export async function createEncryptedReportUrl(
+  baseUrl: string,
+  data: ReportData,
+  stakeholder: StakeholderType,
+  passphrase: string
+): Promise<string> {
+  const encrypted = await encryptReport(data, passphrase);
+  return `${baseUrl}/report/${stakeholder}?e=${encrypted}`;
+}
+
+/**
+ * Generate encrypted portable URLs for every stakeholder
+ * The report is encrypted once and shared by all links
+ */
+export async function generateEncryptedReportUrls(
+  baseUrl: string,
+  data: ReportData,
+  passphrase: string
+): Promise<Record<StakeholderType, string>> {
+  const stakeholders: StakeholderType[] = ['accountant', 'investor', 'engineer', 'marketer'];
+  const encrypted = await encryptReport(data, passphrase);
+  const urls = Object.fromEntries(stakeholders.map(s => [s, `${baseUrl}/report/${s}?e=${encrypted}`]));
+  return urls as Record<StakeholderType, string>;
+}
+
 /**
  * Generate all stakeholder URLs (both short and portable versions)
  */
@@ -264,6 +456,32 @@ export function generateAllReportUrls(
   };
 }
 
+/**
+ * Generate shareable short URLs backed by the server
+ * Falls back to portable URLs (shortId: null) when the API is unavailable
+ */
+export async function generateSharedReportUrls(
+  baseUrl: string,
+  data: ReportData
+): Promise<{ short: Record<StakeholderType, string>; shortId: string | null }> {
+  const stakeholders: StakeholderType[] = ['accountant', 'investor', 'engineer', 'marketer'];
+
+  let id: string;
+  try {
+    id = await uploadReport(data);
+  } catch (e) {
+    console.warn('Short links unavailable, using portable links:', e);
+    const compressed = encodeReportCompressed(data);
+    const portable = Object.fromEntries(
+      stakeholders.map(s => [s, `${baseUrl}/report/${s}?d=${compressed}`])
+    );
+    return { short: portable as Record<StakeholderType, string>, shortId: null };
+  }
+
+  const short = Object.fromEntries(stakeholders.map(s => [s, `${baseUrl}/r/${id}/${s}`]));
+  return { short: short as Record<StakeholderType, string>, shortId: id };
+}
+
 // ============================================================================
 // Decoding (handles both formats)
 // ============================================================================
@@ -302,6 +520,7 @@ export function createReportData(
   selectedMockup?: string
 ): ReportData {
   return {
+    schemaVersion: REPORT_SCHEMA_VERSION,
     projectName,
     createdAt: new Date().toISOString(),
     state,
@@ -0,0 +1,72 @@
+/**
+ * Report PDF Tests
+ * Tests for building stakeholder report documents from shared report data
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createReportDocument, getReportPdfFileName } from './reportPdf';
+import type { ReportData } from './reportEncoder';
+
+const sampleData: ReportData = {
+  projectName: 'Test Project',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  state: {
+    variableCosts: [],
+    fixedCosts: [{ id: 'hosting', name: 'Hosting', monthlyCost: 500, description: '' }],
+    customerCount: 100,
+    selectedPrice: 50,
+    tiers: [{ id: 'pro', name: 'Pro', monthlyPrice: 50, limits: [] }],
+    tierDisplayConfigs: {},
+    features: [],
+    utilizationRate: 1,
+    tierDistribution: { pro: 100 },
+    businessType: null,
+    businessTypeConfidence: 0,
+    pricingModelType: 'feature_tiered' as const,
+  },
+  notes: {
+    accountant: 'Audited figures',
+  },
+};
+
+describe('reportPdf', () => {
+  describe('createReportDocument', () => {
+    it('should build the document for the stakeholder', () => {
+      const document = createReportDocument(sampleData, 'accountant', '2026-02-01T00:00:00.000Z');
+
+      expect(document.title).toBe('Accountant Report');
+      expect(document.projectName).toBe('Test Project');
+      expect(document.generatedAt).toBe('2026-02-01T00:00:00.000Z');
+      expect(document.sections.at(-1)).toEqual({
+        title: 'Notes',
+        blocks: [{ type: 'paragraph', text: 'Audited figures' }],
+      });
+    });
+
+    it('should format amounts in the report currency', () => {
+      const document = createReportDocument({
+        ...sampleData,
+        state: { ...sampleData.state, currency: 'USD' },
+      }, 'accountant');
+
+      const metrics = document.sections[0].blocks[0];
+      expect(metrics.type === 'metrics' && metrics.items[0].value).toBe('$5,000.00');
+    });
+
+    it('should report revenue net of tax-inclusive prices', () => {
+      const document = createReportDocument({
+        ...sampleData,
+        state: { ...sampleData.state, tax: { rate: 0.25, inclusive: true, label: 'VAT' } },
+      }, 'accountant');
+
+      const metrics = document.sections[0].blocks[0];
+      expect(metrics.type === 'metrics' && metrics.items[0].value).toBe('RM 4,000.00');
+    });
+  });
+
+  describe('getReportPdfFileName', () => {
+    it('should replace unsafe characters in the project name', () => {
+      expect(getReportPdfFileName('My App / v2', 'investor')).toBe('My-App---v2-investor-report.pdf');
+    });
+  });
+});
@@ -0,0 +1,67 @@
+// PDF export for stakeholder reports
+// Renders the same document as `basedpricer report --pdf` using the core report layout
+
+import {
+  buildReportDocument,
+  renderReportPdf,
+  type ReportDocument,
+  type ReportDocumentInput,
+  type StakeholderType,
+} from '@basedpricer/core';
+import type { ReportData } from './reportEncoder';
+
+/**
+ * Map shared report data to the input of core report documents and spreadsheets
+ */
+export function createReportInput(
+  reportData: ReportData,
+  generatedAt: string = new Date().toISOString()
+): ReportDocumentInput {
+  const { state } = reportData;
+  return {
+    projectName: reportData.projectName,
+    generatedAt,
+    // Web currency codes are loosely typed; the code picker only offers CURRENCIES
+    currency: state.currency as ReportDocumentInput['currency'],
+    variableCosts: state.variableCosts,
+    fixedCosts: state.fixedCosts,
+    tiers: state.tiers,
+    features: state.features,
+    customerCount: state.customerCount,
+    selectedPrice: state.selectedPrice,
+    utilizationRate: state.utilizationRate,
+    tierDistribution: state.tierDistribution,
+    monthlyGrowthRate: reportData.settings?.monthlyGrowthRate,
+    tax: state.tax,
+    notes: reportData.notes,
+  };
+}
+
+/**
+ * Build the stakeholder report document from shared report data
+ */
+export function createReportDocument(
+  reportData: ReportData,
+  stakeholder: StakeholderType,
+  generatedAt?: string
+): ReportDocument {
+  return buildReportDocument(stakeholder, createReportInput(reportData, generatedAt));
+}
+
+/**
+ * File name for a downloaded report
+ */
+export function getReportPdfFileName(projectName: string, stakeholder: StakeholderType): string {
+  return `${projectName.replace(/[^a-zA-Z0-9]/g, '-')}-${stakeholder}-report.pdf`;
+}
+
+/**
+ * Render a stakeholder report to PDF and download it
+ * jsPDF is loaded on demand to keep it out of the main bundle
+ */
+export async function downloadReportPdf(reportData: ReportData, stakeholder: StakeholderType): Promise<void> {
+  const { jsPDF } = await import('jspdf');
+  const writer = new jsPDF({ unit: 'mm', format: 'a4' });
+  renderReportPdf(createReportDocument(reportData, stakeholder), writer);
+  writer.save(getReportPdfFileName(reportData.projectName, stakeholder));
+}
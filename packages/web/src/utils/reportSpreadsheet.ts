@@ -0,0 +1,60 @@
+// Spreadsheet export of the accountant's cost model and P&L projection
+// Writes the same workbook as `basedpricer export` using the core spreadsheet model
+
+import {
+  buildCostModelWorkbook,
+  workbookToCsv,
+  writeWorkbookXlsx,
+  type SpreadsheetWorkbook,
+} from '@basedpricer/core';
+import type { ReportData } from './reportEncoder';
+import { createReportInput } from './reportPdf';
+
+export type SpreadsheetExportFormat = 'xlsx' | 'csv';
+
+const MIME_TYPES: Record<SpreadsheetExportFormat, string> = {
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  csv: 'text/csv;charset=utf-8',
+};
+
+/**
+ * Build the cost model workbook from shared report data
+ */
+export function createCostModelWorkbook(reportData: ReportData, generatedAt?: string): SpreadsheetWorkbook {
+  return buildCostModelWorkbook(createReportInput(reportData, generatedAt));
+}
+
+/**
+ * File name for a downloaded spreadsheet
+ */
+export function getSpreadsheetFileName(projectName: string, format: SpreadsheetExportFormat): string {
+  return `${projectName.replace(/[^a-zA-Z0-9]/g, '-')}-cost-model.${format}`;
+}
+
+/**
+ * Render the cost model as .xlsx or .csv and download it
+ * ExcelJS is loaded on demand to keep it out of the main bundle
+ */
+export async function downloadCostModelSpreadsheet(
+  reportData: ReportData,
+  format: SpreadsheetExportFormat
+): Promise<void> {
+  const workbook = createCostModelWorkbook(reportData);
+
+  let content: BlobPart;
+  if (format === 'csv') {
+    content = workbookToCsv(workbook);
+  } else {
+    const { default: ExcelJS } = await import('exceljs');
+    const writer = new ExcelJS.Workbook();
+    writeWorkbookXlsx(workbook, writer);
+    content = await writer.xlsx.writeBuffer();
+  }
+
+  const url = URL.createObjectURL(new Blob([content], { type: MIME_TYPES[format] }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = getSpreadsheetFileName(reportData.projectName, format);
+  a.click();
+  URL.revokeObjectURL(url);
+}
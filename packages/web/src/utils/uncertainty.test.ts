@@ -0,0 +1,54 @@
+/**
+ * Uncertainty Tests
+ * Tests for attaching Monte Carlo distributions to cost items
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { VariableCostItem } from '@basedpricer/core';
+import {
+  createDefaultDistribution,
+  hasCostDistributions,
+  setCostDistribution,
+  updateDistributionValue,
+} from './uncertainty';
+
+const items: VariableCostItem[] = [
+  { id: 'ai', name: 'AI', unit: 'tokens', costPerUnit: 0.01, usagePerCustomer: 100, description: '' },
+  { id: 'email', name: 'Email', unit: 'emails', costPerUnit: 0.001, usagePerCustomer: 50, description: '' },
+];
+
+describe('createDefaultDistribution', () => {
+  it('centres distributions on the point estimate', () => {
+    expect(createDefaultDistribution('triangular', 100)).toEqual({ type: 'triangular', min: 50, likely: 100, max: 150 });
+    expect(createDefaultDistribution('normal', 100)).toEqual({ type: 'normal', mean: 100, stdDev: 20 });
+  });
+});
+
+describe('updateDistributionValue', () => {
+  it('keeps triangular bounds ordered', () => {
+    const range = { type: 'triangular', min: 50, likely: 100, max: 150 } as const;
+    expect(updateDistributionValue(range, 'min', 120)).toEqual({ type: 'triangular', min: 120, likely: 120, max: 150 });
+    expect(updateDistributionValue(range, 'max', 40)).toEqual({ type: 'triangular', min: 40, likely: 40, max: 40 });
+    expect(updateDistributionValue(range, 'likely', -5)).toEqual({ type: 'triangular', min: 0, likely: 0, max: 150 });
+  });
+
+  it('updates normal parameters', () => {
+    expect(updateDistributionValue({ type: 'normal', mean: 10, stdDev: 2 }, 'stdDev', 3))
+      .toEqual({ type: 'normal', mean: 10, stdDev: 3 });
+  });
+});
+
+describe('setCostDistribution', () => {
+  it('sets and clears a distribution on one item', () => {
+    const range = createDefaultDistribution('triangular', 100);
+    const updated = setCostDistribution(items, 'ai', 'usagePerCustomer', range);
+
+    expect(updated[0].distributions).toEqual({ usagePerCustomer: range });
+    expect(updated[1]).toBe(items[1]);
+    expect(hasCostDistributions(updated)).toBe(true);
+
+    const cleared = setCostDistribution(updated, 'ai', 'usagePerCustomer', undefined);
+    expect(cleared[0].distributions).toBeUndefined();
+    expect(hasCostDistributions(cleared)).toBe(false);
+  });
+});
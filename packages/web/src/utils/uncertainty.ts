@@ -0,0 +1,75 @@
+// Uncertainty helpers
+// Attach Monte Carlo input distributions to cost items
+
+import type { CostDistribution } from '@basedpricer/core';
+
+export type DistributionType = CostDistribution['type'];
+
+interface DistributedItem {
+  id: string;
+  distributions?: Partial<Record<string, CostDistribution>>;
+}
+
+/**
+ * Starting distribution around a point estimate: ±50% range, or 20% standard deviation
+ */
+export function createDefaultDistribution(type: DistributionType, estimate: number): CostDistribution {
+  const value = Math.max(0, estimate);
+  return type === 'triangular'
+    ? { type, min: value * 0.5, likely: value, max: value * 1.5 }
+    : { type, mean: value, stdDev: value * 0.2 };
+}
+
+/**
+ * Change one parameter of a distribution, moving the other range bounds
+ * so a triangular distribution keeps min <= likely <= max
+ */
+export function updateDistributionValue(
+  distribution: CostDistribution,
+  field: string,
+  value: number
+): CostDistribution {
+  const v = Math.max(0, value);
+  if (distribution.type === 'normal') {
+    return field === 'mean' || field === 'stdDev' ? { ...distribution, [field]: v } : distribution;
+  }
+
+  const { min, likely, max } = distribution;
+  switch (field) {
+    case 'min':
+      return { type: 'triangular', min: v, likely: Math.max(likely, v), max: Math.max(max, v) };
+    case 'likely':
+      return { type: 'triangular', min: Math.min(min, v), likely: v, max: Math.max(max, v) };
+    case 'max':
+      return { type: 'triangular', min: Math.min(min, v), likely: Math.min(likely, v), max: v };
+    default:
+      return distribution;
+  }
+}
+
+/**
+ * Set or clear (with undefined) the distribution of one input on one item.
+ * Items left without any distribution have `distributions` unset.
+ */
+export function setCostDistribution<T extends DistributedItem>(
+  items: T[],
+  id: string,
+  field: string,
+  distribution: CostDistribution | undefined
+): T[] {
+  return items.map(item => {
+    if (item.id !== id) return item;
+
+    const distributions = { ...item.distributions };
+    if (distribution) distributions[field] = distribution;
+    else delete distributions[field];
+    return { ...item, distributions: Object.keys(distributions).length > 0 ? distributions : undefined };
+  });
+}
+
+/**
+ * Whether any cost input carries a distribution
+ */
+export function hasCostDistributions(items: DistributedItem[]): boolean {
+  return items.some(item => Object.values(item.distributions ?? {}).some(Boolean));
+}